@@ -13,7 +13,18 @@ import TemplatePreviewPage from "./pages/template-preview";
 import TableColumnEditorPage from "./pages/table-column-editor";
 import TableDataPage from "./pages/table-data-page";
 import BlockDataPage from "./pages/block-data-page";
+import NumberingSequencesPage from "./pages/numbering-sequences";
+import FieldDictionaryPage from "./pages/field-dictionary";
+import MasterDataPage from "./pages/master-data";
+import TemplateCategoriesPage from "./pages/template-categories";
 import { TemplatePicker } from "./components/common/template-picker";
+import { WorkflowStatusPicker } from "./components/common/workflow-status-picker";
+import { useTemplateCategories } from "./components/common/template-category";
+import type { DocumentWorkflowStatus } from "@shared/document-workflow";
+import AuthPage from "./pages/auth-page";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
+import { Toaster } from "@/components/ui/toaster";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -220,6 +231,13 @@ function TestDashboard() {
                   >
                     Download
                   </a>
+                  <a 
+                    href={`/api/documents/${document.uuid}/download?format=pdf`}
+                    className="px-3 py-1 bg-gray-500 text-white rounded text-sm hover:bg-gray-600"
+                    download
+                  >
+                    PDF
+                  </a>
                 </div>
               </div>
             ))
@@ -238,6 +256,7 @@ function TestTemplates() {
   const [templateName, setTemplateName] = useState('');
   const [templateDescription, setTemplateDescription] = useState('');
   const [templateCategory, setTemplateCategory] = useState('');
+  const { categories } = useTemplateCategories();
   const reactQueryClient = useQueryClient();
 
   const { data: templatesResponse, isLoading, refetch } = useQuery({
@@ -363,12 +382,11 @@ function TestTemplates() {
                   className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="">Select category</option>
-                  <option value="contract">Contract</option>
-                  <option value="proposal">Proposal</option>
-                  <option value="report">Report</option>
-                  <option value="letter">Letter</option>
-                  <option value="form">Form</option>
-                  <option value="general">General</option>
+                  {categories.map(category => (
+                    <option key={category.id} value={category.key}>
+                      {'\u00a0\u00a0'.repeat(category.depth)}{category.label}
+                    </option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -586,6 +604,13 @@ function TestDocuments() {
                     >
                       Download
                     </a>
+                    <a 
+                      href={`/api/documents/${document.uuid}/download?format=pdf`} 
+                      className="px-3 py-1 bg-gray-500 text-white rounded text-sm hover:bg-gray-600"
+                      download
+                    >
+                      PDF
+                    </a>
                     <button 
                       onClick={() => {
                         if (confirm(`Are you sure you want to delete document "${document.name}"?`)) {
@@ -1264,6 +1289,13 @@ function DocumentUpdate() {
               >
                 Download Document
               </a>
+              <a 
+                href={`/api/documents/${documentUuid}/download?format=pdf`}
+                className="w-full px-4 py-2 bg-emerald-600 text-white rounded hover:bg-emerald-700 text-center"
+                download
+              >
+                Download PDF
+              </a>
               <Link href="/documents" className="w-full px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 text-center">
                 Cancel
               </Link>
@@ -1348,7 +1380,7 @@ function BatchUpload() {
     },
     onSuccess: (data) => {
       console.log('Upload success:', data);
-      alert(`Successfully processed ${data.totalDocuments || 0} documents!`);
+      alert(`${data.totalDocuments || 0} documents are being created in the background.`);
       setExcelFile(null);
       setPreviewData([]);
       // Invalidate queries to refresh data
@@ -1425,7 +1457,7 @@ function BatchUpload() {
             <label className="block text-sm font-medium mb-1">Excel File *</label>
             <input
               type="file"
-              accept=".xlsx,.xls"
+              accept=".xlsx,.xls,.csv,.tsv"
               onChange={(e) => setExcelFile(e.target.files?.[0] || null)}
               className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
@@ -1606,10 +1638,12 @@ function BulkDownload() {
   const [dateTo, setDateTo] = useState('');
   const [dateType, setDateType] = useState<'created' | 'updated'>('created');
   const [includeArchived, setIncludeArchived] = useState(false);
+  const [workflowStatuses, setWorkflowStatuses] = useState<DocumentWorkflowStatus[]>([]);
   const [previewData, setPreviewData] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const [isDownloadingExcel, setIsDownloadingExcel] = useState(false);
+  const [downloadFormat, setDownloadFormat] = useState<'docx' | 'pdf'>('docx');
 
   const handlePreview = async () => {
     setIsLoading(true);
@@ -1620,7 +1654,8 @@ function BulkDownload() {
         dateFrom: dateFrom || undefined,
         dateTo: dateTo || undefined,
         dateType,
-        archived: includeArchived
+        archived: includeArchived,
+        workflowStatuses: workflowStatuses.length > 0 ? workflowStatuses : undefined
       };
 
       const response = await fetch('/api/documents/bulk-download/preview', {
@@ -1665,7 +1700,8 @@ function BulkDownload() {
         dateFrom: dateFrom || undefined,
         dateTo: dateTo || undefined,
         dateType,
-        archived: includeArchived
+        archived: includeArchived,
+        workflowStatuses: workflowStatuses.length > 0 ? workflowStatuses : undefined
       };
 
       const response = await fetch('/api/documents/bulk-download/execute', {
@@ -1673,11 +1709,12 @@ function BulkDownload() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ filters }),
+        body: JSON.stringify({ filters, format: downloadFormat }),
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to download documents: ${response.statusText}`);
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(`Failed to download documents: ${errorBody?.details || errorBody?.error || response.statusText}`);
       }
 
       // Handle the ZIP file download
@@ -1715,7 +1752,8 @@ function BulkDownload() {
         dateFrom: dateFrom || undefined,
         dateTo: dateTo || undefined,
         dateType,
-        archived: includeArchived
+        archived: includeArchived,
+        workflowStatuses: workflowStatuses.length > 0 ? workflowStatuses : undefined
       };
 
       const response = await fetch('/api/documents/bulk-download/excel', {
@@ -1853,6 +1891,12 @@ function BulkDownload() {
                 </label>
               </div>
 
+              {/* Workflow Status */}
+              <WorkflowStatusPicker
+                selectedStatuses={workflowStatuses}
+                onSelectionChange={setWorkflowStatuses}
+              />
+
               {/* Preview Button */}
               <button
                 onClick={handlePreview}
@@ -1934,6 +1978,29 @@ function BulkDownload() {
 
                 {/* Download Buttons */}
                 <div className="space-y-2">
+                  <div className="flex items-center gap-4 text-sm">
+                    <span className="font-medium">File format:</span>
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        name="downloadFormat"
+                        checked={downloadFormat === 'docx'}
+                        onChange={() => setDownloadFormat('docx')}
+                        className="mr-1"
+                      />
+                      Word (.docx)
+                    </label>
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        name="downloadFormat"
+                        checked={downloadFormat === 'pdf'}
+                        onChange={() => setDownloadFormat('pdf')}
+                        className="mr-1"
+                      />
+                      PDF
+                    </label>
+                  </div>
                   <button
                     onClick={handleDownload}
                     disabled={isDownloading || previewData.totalDocuments === 0 || (previewData.canGenerate || 0) === 0}
@@ -1972,7 +2039,8 @@ function BulkDelete() {
     templateUuids: [] as string[],
     dateFrom: '',
     dateTo: '',
-    dateType: 'created' as 'created' | 'updated'
+    dateType: 'created' as 'created' | 'updated',
+    workflowStatuses: [] as DocumentWorkflowStatus[]
   });
   const [preview, setPreview] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -2093,6 +2161,13 @@ function BulkDelete() {
           />
         </div>
 
+        <div className="mt-6">
+          <WorkflowStatusPicker
+            selectedStatuses={filters.workflowStatuses}
+            onSelectionChange={(statuses) => setFilters(prev => ({ ...prev, workflowStatuses: statuses }))}
+          />
+        </div>
+
         <div className="mt-6">
           <button
             onClick={handlePreview}
@@ -2190,99 +2265,9 @@ function BulkDelete() {
   );
 }
 
-function AuthPage() {
-  const [isLogin, setIsLogin] = useState(true);
-  const [username, setUsername] = useState('user');
-  const [password, setPassword] = useState('password');
-  const [isLoading, setIsLoading] = useState(false);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsLoading(true);
-
-    try {
-      const endpoint = isLogin ? '/api/login' : '/api/register';
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ username, password }),
-      });
-
-      if (response.ok) {
-        window.location.href = '/';
-      } else {
-        const error = await response.text();
-        alert(error || 'Authentication failed');
-      }
-    } catch (error) {
-      alert('Network error occurred');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  return (
-    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-      <div className="max-w-md w-full bg-white rounded-lg shadow border p-6">
-        <div className="text-center mb-6">
-          <h1 className="text-2xl font-bold text-gray-900">Document Manager</h1>
-          <p className="text-gray-600 mt-2">
-            {isLogin ? 'Sign in to your account' : 'Create a new account'}
-          </p>
-        </div>
-
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium mb-1">Username</label>
-            <input
-              type="text"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-              required
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium mb-1">Password</label>
-            <input
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-              required
-            />
-          </div>
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400"
-          >
-            {isLoading ? 'Please wait...' : (isLogin ? 'Sign In' : 'Sign Up')}
-          </button>
-        </form>
-
-        <div className="mt-4 text-center">
-          <button
-            onClick={() => setIsLogin(!isLogin)}
-            className="text-blue-500 hover:text-blue-600 text-sm"
-          >
-            {isLogin ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
-          </button>
-        </div>
-
-        <div className="mt-6 text-center text-xs text-gray-500">
-          <p>Demo credentials:</p>
-          <p>Username: user | Password: password</p>
-        </div>
-      </div>
-    </div>
-  );
-}
-
 function Navigation() {
   const [location] = useLocation();
+  const { user, hasRole, logoutMutation } = useAuth();
   
   return (
     <nav className="bg-white shadow-sm border-b mb-6">
@@ -2324,23 +2309,75 @@ function Navigation() {
                 Documents
               </Link>
               <Link 
-                href="/bulk-delete" 
+                href="/numbering-sequences" 
                 className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                  location === '/bulk-delete' 
-                    ? 'bg-red-100 text-red-700' 
-                    : 'text-red-600 hover:text-red-900 hover:bg-red-50'
+                  location === '/numbering-sequences' 
+                    ? 'bg-blue-100 text-blue-700' 
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
                 }`}
               >
-                Bulk Delete
+                Numbering
               </Link>
+              <Link 
+                href="/template-categories" 
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  location === '/template-categories' 
+                    ? 'bg-blue-100 text-blue-700' 
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                Categories
+              </Link>
+              <Link 
+                href="/field-dictionary" 
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  location === '/field-dictionary' 
+                    ? 'bg-blue-100 text-blue-700' 
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                Fields
+              </Link>
+              <Link 
+                href="/master-data" 
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  location === '/master-data' 
+                    ? 'bg-blue-100 text-blue-700' 
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                Records
+              </Link>
+              {hasRole('admin') && (
+                <Link 
+                  href="/bulk-delete" 
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    location === '/bulk-delete' 
+                      ? 'bg-red-100 text-red-700' 
+                      : 'text-red-600 hover:text-red-900 hover:bg-red-50'
+                  }`}
+                >
+                  Bulk Delete
+                </Link>
+              )}
             </div>
           </div>
           
           <div className="flex items-center space-x-4">
-            <span className="text-sm text-gray-600">Welcome, User</span>
+            <span className="text-sm text-gray-600">
+              Welcome, {user?.username}
+              <span className="ml-2 px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-500">{user?.role}</span>
+            </span>
             <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center">
-              <span className="text-white text-sm font-medium">U</span>
+              <span className="text-white text-sm font-medium">{user?.username.charAt(0).toUpperCase()}</span>
             </div>
+            <button
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              className="text-sm text-gray-600 hover:text-gray-900"
+            >
+              Logout
+            </button>
           </div>
         </div>
       </div>
@@ -2351,60 +2388,87 @@ function Navigation() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <div className="min-h-screen bg-gray-50">
-        <Navigation />
+      <AuthProvider>
         <Switch>
-          <Route path="/">
-            <TestDashboard />
-          </Route>
-          <Route path="/templates">
-            <TemplatesPage />
-          </Route>
-          <Route path="/documents">
-            <DocumentsPage />
-          </Route>
-          <Route path="/template-preview/:templateUuid">
-            <TemplatePreviewPage />
-          </Route>
-          <Route path="/document-create/:templateUuid">
-            <DocumentCreatePage />
-          </Route>
-          <Route path="/document-preview/:id">
-            <DocumentPreviewPage />
-          </Route>
-          <Route path="/document-update/:documentUuid">
-            <DocumentUpdatePage />
-          </Route>
-          <Route path="/template/:uuid/table/:name">
-            <TableColumnEditorPage />
-          </Route>
-          <Route path="/document/:documentUuid/table/:tableName">
-            <TableDataPage />
-          </Route>
-          <Route path="/document/:documentUuid/block/:blockName">
-            <BlockDataPage />
-          </Route>
-          <Route path="/batch-upload/:templateUuid">
-            <BatchUpload />
-          </Route>
-          <Route path="/bulk-delete">
-            <BulkDelete />
-          </Route>
-          <Route path="/bulk-download">
-            <BulkDownload />
-          </Route>
           <Route path="/auth">
             <AuthPage />
           </Route>
           <Route>
-            <div className="p-8">
-              <h1 className="text-2xl font-bold">404 - Page Not Found</h1>
-            </div>
+            <ProtectedRoute>
+              <AppRoutes />
+            </ProtectedRoute>
           </Route>
         </Switch>
-      </div>
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
 
+function AppRoutes() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+      <Switch>
+        <Route path="/">
+          <TestDashboard />
+        </Route>
+        <Route path="/templates">
+          <TemplatesPage />
+        </Route>
+        <Route path="/documents">
+          <DocumentsPage />
+        </Route>
+        <Route path="/template-preview/:templateUuid">
+          <TemplatePreviewPage />
+        </Route>
+        <Route path="/document-create/:templateUuid">
+          <DocumentCreatePage />
+        </Route>
+        <Route path="/document-preview/:id">
+          <DocumentPreviewPage />
+        </Route>
+        <Route path="/document-update/:documentUuid">
+          <DocumentUpdatePage />
+        </Route>
+        <Route path="/template/:uuid/table/:name">
+          <TableColumnEditorPage />
+        </Route>
+        <Route path="/document/:documentUuid/table/:tableName">
+          <TableDataPage />
+        </Route>
+        <Route path="/document/:documentUuid/block/:blockName">
+          <BlockDataPage />
+        </Route>
+        <Route path="/batch-upload/:templateUuid">
+          <BatchUpload />
+        </Route>
+        <Route path="/bulk-delete">
+          <BulkDelete />
+        </Route>
+        <Route path="/numbering-sequences">
+          <NumberingSequencesPage />
+        </Route>
+        <Route path="/template-categories">
+          <TemplateCategoriesPage />
+        </Route>
+        <Route path="/field-dictionary">
+          <FieldDictionaryPage />
+        </Route>
+        <Route path="/master-data">
+          <MasterDataPage />
+        </Route>
+        <Route path="/bulk-download">
+          <BulkDownload />
+        </Route>
+        <Route>
+          <div className="p-8">
+            <h1 className="text-2xl font-bold">404 - Page Not Found</h1>
+          </div>
+        </Route>
+      </Switch>
+    </div>
+  );
+}
+
 export default App;
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { ImageIcon, Loader2, Upload, X } from 'lucide-react';
+import { IMAGE_MIME_TYPES, MAX_IMAGE_SIZE_BYTES } from '@shared/image-fields';
+
+interface ImageFieldInputProps {
+  /** Stored path of the uploaded image ('' when none) */
+  value: string;
+  onChange: (path: string) => void;
+  className?: string;
+}
+
+/**
+ * Upload control for image fields ({{%anh_the}}, {{chu_ky:image(3cm,4cm)}}).
+ * The image is uploaded right away; the field value is the returned storage path.
+ */
+export function ImageFieldInput({ value, onChange, className = '' }: ImageFieldInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const { toast } = useToast();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!IMAGE_MIME_TYPES.includes(file.type)) {
+      toast({ title: 'Ảnh không hợp lệ', description: 'Chỉ nhận ảnh PNG, JPEG hoặc GIF.', variant: 'destructive' });
+      return;
+    }
+    if (file.size > MAX_IMAGE_SIZE_BYTES) {
+      toast({ title: 'Ảnh quá lớn', description: 'Dung lượng tối đa 5MB.', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setUploading(true);
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await apiRequest('POST', '/api/documents/images', formData);
+      const result = await res.json();
+      onChange(result.path);
+    } catch (error) {
+      toast({
+        title: 'Tải ảnh thất bại',
+        description: error instanceof Error ? error.message : 'Failed to upload image',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className={`flex items-center gap-3 p-2 rounded-md border ${className}`}>
+      <div className="h-16 w-16 flex-shrink-0 rounded border bg-gray-50 flex items-center justify-center overflow-hidden">
+        {value ? (
+          <img
+            src={`/api/documents/images?path=${encodeURIComponent(value)}`}
+            alt=""
+            className="max-h-full max-w-full object-contain"
+          />
+        ) : (
+          <ImageIcon className="h-6 w-6 text-gray-300" />
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        <input
+          ref={inputRef}
+          type="file"
+          accept={IMAGE_MIME_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          disabled={uploading}
+          onClick={() => inputRef.current?.click()}
+        >
+          {uploading ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Upload className="h-3.5 w-3.5 mr-1" />}
+          {value ? 'Đổi ảnh' : 'Tải ảnh lên'}
+        </Button>
+        {value && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs text-gray-500 hover:text-red-600"
+            disabled={uploading}
+            onClick={() => onChange('')}
+            title="Bỏ ảnh"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
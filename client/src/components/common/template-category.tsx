@@ -0,0 +1,108 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  BarChart3,
+  Briefcase,
+  Building2,
+  ClipboardList,
+  FileSignature,
+  FileText,
+  Folder,
+  GraduationCap,
+  Landmark,
+  Mail,
+  Megaphone,
+  Receipt,
+  Scale,
+  Shield,
+  Users,
+  Wallet,
+  type LucideIcon,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { SelectItem } from '@/components/ui/select';
+import type { TemplateCategory } from '@shared/schema';
+import { flattenTemplateCategories, type TemplateCategoryIcon } from '@shared/template-categories';
+
+/** Row of GET /api/template-categories */
+export type TemplateCategoryWithCount = TemplateCategory & { templateCount: number };
+
+export const templateCategoriesQueryKey = ['/api/template-categories'];
+
+export const TEMPLATE_CATEGORY_ICON_COMPONENTS: Record<TemplateCategoryIcon, LucideIcon> = {
+  Folder,
+  FileText,
+  FileSignature,
+  Scale,
+  Landmark,
+  Wallet,
+  Receipt,
+  Users,
+  Briefcase,
+  Megaphone,
+  Mail,
+  ClipboardList,
+  BarChart3,
+  Shield,
+  Building2,
+  GraduationCap,
+};
+
+/**
+ * Categories in tree order (with their depth) and a lookup by key.
+ */
+export function useTemplateCategories() {
+  const { data, isLoading } = useQuery<TemplateCategoryWithCount[]>({
+    queryKey: templateCategoriesQueryKey,
+  });
+  const categories = flattenTemplateCategories(data ?? []);
+
+  return {
+    categories,
+    isLoading,
+    getCategory: (key: string) => categories.find(c => c.key === key),
+  };
+}
+
+export function TemplateCategoryIconView({ icon, className }: { icon: string; className?: string }) {
+  const Icon = TEMPLATE_CATEGORY_ICON_COMPONENTS[icon as TemplateCategoryIcon] ?? Folder;
+  return <Icon className={className} />;
+}
+
+/**
+ * Category of a template shown with its colour and icon. Unknown keys are shown as is.
+ */
+export function TemplateCategoryBadge({ category, className }: { category: string; className?: string }) {
+  const { getCategory } = useTemplateCategories();
+  const found = getCategory(category);
+  const color = found?.color ?? '#6b7280';
+
+  return (
+    <Badge
+      variant="outline"
+      className={`gap-1 ${className ?? ''}`}
+      style={{ color, backgroundColor: `${color}1a`, borderColor: `${color}4d` }}
+      title={found?.labelEn ?? undefined}
+    >
+      <TemplateCategoryIconView icon={found?.icon ?? 'Folder'} className="h-3 w-3" />
+      {found?.label ?? category}
+    </Badge>
+  );
+}
+
+/**
+ * Select options for the categories, sub-categories indented under their parent.
+ */
+export function TemplateCategorySelectItems({ categories }: { categories: Array<TemplateCategoryWithCount & { depth: number }> }) {
+  return (
+    <>
+      {categories.map(category => (
+        <SelectItem key={category.id} value={category.key}>
+          <span className="flex items-center gap-2" style={{ paddingLeft: category.depth * 12 }}>
+            <TemplateCategoryIconView icon={category.icon} className="h-3.5 w-3.5" />
+            {category.label}
+          </span>
+        </SelectItem>
+      ))}
+    </>
+  );
+}
@@ -4,7 +4,8 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
-import { Search, ChevronLeft, ChevronRight, X, Loader2, CheckSquare } from 'lucide-react';
+import { Search, ChevronLeft, ChevronRight, X, Loader2, CheckSquare, Star, History } from 'lucide-react';
+import { templateQuickAccessQueryKey } from '@/components/templates/template-organize-dialog';
 
 interface Template {
   uuid: string;
@@ -12,6 +13,12 @@ interface Template {
   category?: string;
 }
 
+/** Response of GET /api/templates/quick-access */
+interface QuickAccessTemplates {
+  favorites: Template[];
+  recent: Template[];
+}
+
 interface TemplatePickerProps {
   selectedTemplates: string[];
   onSelectionChange: (templateUuids: string[]) => void;
@@ -60,6 +67,10 @@ export function TemplatePicker({
     },
   });
 
+  const { data: quickAccess } = useQuery<QuickAccessTemplates>({
+    queryKey: templateQuickAccessQueryKey,
+  });
+
   const [isSelectingAll, setIsSelectingAll] = useState(false);
 
   const templates = data?.templates || [];
@@ -147,6 +158,12 @@ export function TemplatePicker({
     });
   };
 
+  // Favourites and recently used templates are offered first, before the paginated list
+  const quickAccessGroups = [
+    { key: 'favorites', label: 'Yêu thích', icon: Star, templates: quickAccess?.favorites ?? [] },
+    { key: 'recent', label: 'Dùng gần đây', icon: History, templates: quickAccess?.recent ?? [] },
+  ].filter(group => group.templates.length > 0);
+
   const selectedOnCurrentPage = templates.filter(t => selectedTemplates.includes(t.uuid)).length;
   const allSelectedOnPage = selectedOnCurrentPage === templates.length && templates.length > 0;
 
@@ -179,6 +196,39 @@ export function TemplatePicker({
         />
       </div>
 
+      {!debouncedSearch && quickAccessGroups.length > 0 && (
+        <div className="space-y-2">
+          {quickAccessGroups.map(group => (
+            <div key={group.key}>
+              <div className="flex items-center gap-1 text-xs text-gray-500 mb-1">
+                <group.icon className="h-3 w-3" />
+                {group.label}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {group.templates.map(template => {
+                  const selected = selectedTemplates.includes(template.uuid);
+                  return (
+                    <button
+                      key={template.uuid}
+                      type="button"
+                      onClick={() => toggleTemplate(template.uuid, template.name)}
+                      className={`text-xs px-2 py-1 rounded border max-w-[200px] truncate ${
+                        selected
+                          ? 'bg-blue-100 border-blue-300 text-blue-800'
+                          : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                      }`}
+                      title={template.name}
+                    >
+                      {template.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {selectedNotOnPage.length > 0 && (
         <div className="bg-blue-50 border border-blue-200 rounded p-2">
           <div className="text-xs text-blue-700 mb-1">Selected from other pages:</div>
@@ -0,0 +1,42 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DOCUMENT_WORKFLOW_LABELS,
+  DOCUMENT_WORKFLOW_STATUSES,
+  type DocumentWorkflowStatus,
+} from '@shared/document-workflow';
+
+interface WorkflowStatusPickerProps {
+  selectedStatuses: DocumentWorkflowStatus[];
+  onSelectionChange: (statuses: DocumentWorkflowStatus[]) => void;
+}
+
+/**
+ * Workflow status filter for bulk operations. No status selected means every status.
+ */
+export function WorkflowStatusPicker({ selectedStatuses, onSelectionChange }: WorkflowStatusPickerProps) {
+  const toggleStatus = (status: DocumentWorkflowStatus, checked: boolean) => {
+    onSelectionChange(checked
+      ? DOCUMENT_WORKFLOW_STATUSES.filter(s => s === status || selectedStatuses.includes(s))
+      : selectedStatuses.filter(s => s !== status));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Workflow Status</label>
+      <div className="flex flex-wrap gap-4">
+        {DOCUMENT_WORKFLOW_STATUSES.map(status => (
+          <label key={status} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={selectedStatuses.includes(status)}
+              onCheckedChange={(checked) => toggleStatus(status, checked === true)}
+            />
+            {DOCUMENT_WORKFLOW_LABELS[status]}
+          </label>
+        ))}
+      </div>
+      {selectedStatuses.length === 0 && (
+        <p className="text-xs text-gray-500 mt-1">All statuses</p>
+      )}
+    </div>
+  );
+}
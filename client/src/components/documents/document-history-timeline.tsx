@@ -0,0 +1,139 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertCircle, Archive, ArchiveRestore, Download, FilePen, FilePlus, History, PencilLine, RotateCcw, Stamp, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatDate } from '@/lib/utils';
+import type { AuditAction, AuditEvent } from '@shared/schema';
+
+/** Response of GET /api/documents/:uuid/history (newest first) */
+type DocumentHistoryEvent = Omit<AuditEvent, 'createdAt'> & { createdAt: string };
+
+export function documentHistoryQueryKey(documentUuid: string) {
+  return [`/api/documents/${documentUuid}/history`];
+}
+
+const ACTIONS: Record<AuditAction, { label: string; icon: React.ComponentType<{ className?: string }>; className: string }> = {
+  create: { label: 'Created', icon: FilePlus, className: 'bg-green-100 text-green-700' },
+  update: { label: 'Updated', icon: FilePen, className: 'bg-blue-100 text-blue-700' },
+  field_change: { label: 'Fields changed', icon: PencilLine, className: 'bg-blue-100 text-blue-700' },
+  restore: { label: 'Restored', icon: RotateCcw, className: 'bg-purple-100 text-purple-700' },
+  status_change: { label: 'Status changed', icon: Stamp, className: 'bg-indigo-100 text-indigo-700' },
+  download: { label: 'Downloaded', icon: Download, className: 'bg-gray-100 text-gray-700' },
+  archive: { label: 'Archived', icon: Archive, className: 'bg-amber-100 text-amber-700' },
+  unarchive: { label: 'Unarchived', icon: ArchiveRestore, className: 'bg-amber-100 text-amber-700' },
+  delete: { label: 'Deleted', icon: Trash2, className: 'bg-red-100 text-red-700' },
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '\u2014';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return `${value.length} row(s)`;
+  return JSON.stringify(value);
+}
+
+/** Field values of a "create" event are nested under `fields` */
+function flattenFields(values: Record<string, unknown>): Record<string, unknown> {
+  const { fields, ...rest } = values;
+  return fields && typeof fields === 'object' && !Array.isArray(fields)
+    ? { ...rest, ...(fields as Record<string, unknown>) }
+    : values;
+}
+
+/**
+ * Before / after values of one event.
+ */
+function EventChanges({ event }: { event: DocumentHistoryEvent }) {
+  const before = flattenFields(event.before ?? {});
+  const after = flattenFields(event.after ?? {});
+  const keys = Array.from(new Set(Object.keys(before).concat(Object.keys(after))));
+
+  if (keys.length === 0) return null;
+
+  return (
+    <table className="mt-2 w-full text-xs">
+      <tbody>
+        {keys.map(key => (
+          <tr key={key} className="border-t border-gray-100 align-top">
+            <td className="py-1 pr-3 font-mono text-gray-500 whitespace-nowrap">{key}</td>
+            {key in before && (
+              <td className="py-1 pr-3 text-red-600 line-through break-all">{formatValue(before[key])}</td>
+            )}
+            <td className="py-1 text-gray-900 break-all" colSpan={key in before ? 1 : 2}>
+              {key in after ? formatValue(after[key]) : ''}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Audit trail of a document: who created, edited, downloaded or deleted it, with the changed values.
+ */
+export function DocumentHistoryTimeline({ documentUuid }: { documentUuid: string }) {
+  const { data: events = [], isLoading, isError } = useQuery<DocumentHistoryEvent[]>({
+    queryKey: documentHistoryQueryKey(documentUuid),
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4 p-6">
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-full" />
+        <Skeleton className="h-12 w-3/4" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="flex items-center gap-2 p-6 text-sm text-red-600">
+        <AlertCircle className="h-4 w-4" />
+        Failed to load document history
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8 text-gray-500">
+        <History className="h-10 w-10 mb-3 text-gray-300" />
+        <p className="text-sm">No history recorded for this document yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative m-6 border-l border-gray-200">
+      {events.map(event => {
+        const action = ACTIONS[event.action] ?? ACTIONS.update;
+        const Icon = action.icon;
+        return (
+          <li key={event.id} className="mb-6 ml-6">
+            <span className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-white ${action.className}`}>
+              <Icon className="h-3.5 w-3.5" />
+            </span>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{action.label}</Badge>
+              <span className="text-sm font-medium text-gray-900">{event.username || 'Unknown user'}</span>
+              <time
+                className="text-xs text-gray-500"
+                dateTime={event.createdAt}
+                title={new Date(event.createdAt).toLocaleString()}
+              >
+                {formatDate(event.createdAt)}
+              </time>
+              {event.action === 'download' && typeof event.after?.format === 'string' && (
+                <span className="text-xs uppercase text-gray-500">{event.after.format}</span>
+              )}
+            </div>
+            {event.action !== 'download' && <EventChanges event={event} />}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,117 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Contact, Loader2, RefreshCw, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate } from '@/lib/utils';
+import type { RecordFieldMapping } from '@shared/master-data';
+import { documentHistoryQueryKey } from './document-history-timeline';
+
+/** Item of GET /api/documents/:uuid/record-links */
+interface DocumentRecordLink {
+  id: string;
+  recordId: string;
+  recordName: string;
+  typeLabel: string;
+  mapping: RecordFieldMapping;
+  appliedAt: string;
+  outdated: boolean;
+}
+
+/**
+ * Master data records the document was filled from. Records edited since they were applied
+ * are marked outdated and can be applied again.
+ */
+export function DocumentRecordLinks({ documentUuid }: { documentUuid: string }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const linksQueryKey = [`/api/documents/${documentUuid}/record-links`];
+  const { data: links = [] } = useQuery<DocumentRecordLink[]>({
+    queryKey: linksQueryKey,
+    staleTime: 0,
+  });
+
+  const reapplyMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const res = await apiRequest('POST', `/api/documents/${documentUuid}/record-links/${linkId}/reapply`);
+      return res.json() as Promise<{ changedFields: string[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: linksQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents', documentUuid] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents/preview', documentUuid] });
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentUuid}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: documentHistoryQueryKey(documentUuid) });
+      toast({
+        title: 'Record re-applied',
+        description: result.changedFields.length > 0
+          ? `${result.changedFields.length} field(s) updated.`
+          : 'The document already had the record values.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Re-apply failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const res = await apiRequest('DELETE', `/api/documents/${documentUuid}/record-links/${linkId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksQueryKey });
+      toast({ title: 'Record unlinked' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Unlink failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (links.length === 0) return null;
+
+  return (
+    <div className="mt-4 border-t pt-4">
+      <p className="text-sm font-medium text-gray-500 mb-2">Filled from records</p>
+      <div className="space-y-2">
+        {links.map(link => (
+          <div key={link.id} className="flex flex-wrap items-center gap-2 text-sm">
+            <Contact className="h-4 w-4 text-gray-400" />
+            <span className="text-gray-500">{link.typeLabel}:</span>
+            <span className="font-medium">{link.recordName}</span>
+            <span className="text-xs text-gray-500">
+              {Object.keys(link.mapping).length} field(s), applied {formatDate(link.appliedAt)}
+            </span>
+            {link.outdated && (
+              <Badge variant="outline" className="border-transparent bg-amber-100 text-amber-800">Record changed</Badge>
+            )}
+            <Button
+              variant={link.outdated ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              disabled={reapplyMutation.isPending}
+              onClick={() => reapplyMutation.mutate(link.id)}
+            >
+              {reapplyMutation.isPending && reapplyMutation.variables === link.id
+                ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                : <RefreshCw className="h-3.5 w-3.5 mr-1" />}
+              Re-apply
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              disabled={unlinkMutation.isPending}
+              title="Remove the link; field values are kept"
+              onClick={() => unlinkMutation.mutate(link.id)}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, ArrowRight, GitCompare, Loader2, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate } from '@/lib/utils';
+import type { DocumentRevision, DocumentRevisionDiff } from '@shared/schema';
+import { documentHistoryQueryKey } from './document-history-timeline';
+
+/** Item of GET /api/documents/:uuid/revisions (newest first, without content) */
+type DocumentRevisionSummary = Omit<DocumentRevision, 'fields' | 'tables' | 'createdAt'> & {
+  createdAt: string;
+  createdByUsername: string | null;
+  fieldCount: number;
+  tableCount: number;
+};
+
+const STATUS_CLASSES: Record<DocumentRevisionDiff['fields'][number]['status'], string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-blue-100 text-blue-700',
+};
+
+function formatRows(rows: Array<Record<string, string>> | null): string {
+  return rows === null ? '\u2014' : `${rows.length} row(s)`;
+}
+
+function RevisionDiffView({ documentUuid, from, to }: { documentUuid: string; from: number; to: number }) {
+  const { data: diff, isLoading, isError } = useQuery<DocumentRevisionDiff>({
+    queryKey: [`/api/documents/${documentUuid}/revisions/diff?from=${from}&to=${to}`],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+  if (isError || !diff) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-red-600">
+        <AlertCircle className="h-4 w-4" />
+        Failed to compare revisions
+      </div>
+    );
+  }
+  if (!diff.name && diff.fields.length === 0 && diff.tables.length === 0) {
+    return <p className="text-sm text-gray-500">No differences between revision {from} and revision {to}</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500">
+          <th className="py-1 pr-3 font-medium">Field</th>
+          <th className="py-1 pr-3 font-medium">Revision {from}</th>
+          <th className="py-1 font-medium">Revision {to}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {diff.name && (
+          <tr className="border-t border-gray-100 align-top">
+            <td className="py-1.5 pr-3 text-gray-500">Document name</td>
+            <td className="py-1.5 pr-3 text-red-600 line-through break-all">{diff.name.before}</td>
+            <td className="py-1.5 text-gray-900 break-all">{diff.name.after}</td>
+          </tr>
+        )}
+        {diff.fields.map(field => (
+          <tr key={`field-${field.name}`} className="border-t border-gray-100 align-top">
+            <td className="py-1.5 pr-3">
+              <span className="font-mono text-xs text-gray-700">{field.name}</span>
+              <span className={`ml-2 rounded px-1.5 py-0.5 text-[10px] ${STATUS_CLASSES[field.status]}`}>{field.status}</span>
+            </td>
+            <td className="py-1.5 pr-3 text-red-600 line-through break-all whitespace-pre-wrap">{field.before ?? '\u2014'}</td>
+            <td className="py-1.5 text-gray-900 break-all whitespace-pre-wrap">{field.after ?? '\u2014'}</td>
+          </tr>
+        ))}
+        {diff.tables.map(table => (
+          <tr key={`table-${table.name}`} className="border-t border-gray-100 align-top">
+            <td className="py-1.5 pr-3">
+              <span className="font-mono text-xs text-gray-700">{table.name}</span>
+              <span className={`ml-2 rounded px-1.5 py-0.5 text-[10px] ${STATUS_CLASSES[table.status]}`}>table {table.status}</span>
+            </td>
+            <td className="py-1.5 pr-3 text-red-600">{formatRows(table.before)}</td>
+            <td className="py-1.5 text-gray-900">{formatRows(table.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Revisions of a document (one per save): compare any two field by field, restore one in a click.
+ */
+export function DocumentRevisionsPanel({ documentUuid }: { documentUuid: string }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const revisionsQueryKey = [`/api/documents/${documentUuid}/revisions`];
+  const { data: revisions = [], isLoading, isError } = useQuery<DocumentRevisionSummary[]>({
+    queryKey: revisionsQueryKey,
+    staleTime: 0,
+  });
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+
+  // Compare the two latest revisions by default
+  useEffect(() => {
+    if (revisions.length >= 2) {
+      setTo(revisions[0].revision);
+      setFrom(revisions[1].revision);
+    }
+  }, [revisions]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      const res = await apiRequest('POST', `/api/documents/${documentUuid}/revisions/${revision}/restore`);
+      return res.json();
+    },
+    onSuccess: (_data, revision) => {
+      queryClient.invalidateQueries({ queryKey: revisionsQueryKey });
+      queryClient.invalidateQueries({ queryKey: documentHistoryQueryKey(documentUuid) });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents', documentUuid] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents/preview', documentUuid] });
+      toast({ title: 'Revision restored', description: `The document now has the content of revision ${revision}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Restore failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3 p-6">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="flex items-center gap-2 p-6 text-sm text-red-600">
+        <AlertCircle className="h-4 w-4" />
+        Failed to load revisions
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="p-6 text-sm text-gray-500">No revisions yet. A revision is created every time the document is saved.</p>;
+  }
+
+  return (
+    <div className="space-y-6 p-6">
+      <ul className="divide-y rounded-md border">
+        {revisions.map((revision, index) => (
+          <li key={revision.id} className="flex flex-wrap items-center gap-3 px-4 py-2.5">
+            <span className="font-medium text-gray-900">Revision {revision.revision}</span>
+            {index === 0 && <Badge>Latest</Badge>}
+            {revision.restoredFrom !== null && (
+              <Badge variant="outline">Restored from {revision.restoredFrom}</Badge>
+            )}
+            <span className="text-sm text-gray-600">{revision.createdByUsername || 'Unknown user'}</span>
+            <span className="text-xs text-gray-500" title={new Date(revision.createdAt).toLocaleString()}>
+              {formatDate(revision.createdAt)}
+            </span>
+            <span className="text-xs text-gray-400">
+              {revision.fieldCount} field(s), {revision.tableCount} table(s)
+            </span>
+            {index > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto h-7 px-2 text-xs"
+                disabled={restoreMutation.isPending}
+                onClick={() => restoreMutation.mutate(revision.revision)}
+              >
+                {restoreMutation.isPending && restoreMutation.variables === revision.revision
+                  ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                  : <RotateCcw className="h-3.5 w-3.5 mr-1" />}
+                Restore
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {revisions.length >= 2 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <GitCompare className="h-4 w-4 text-gray-500" />
+            <span className="font-medium">Compare</span>
+            <Select value={from?.toString() ?? ''} onValueChange={(value) => setFrom(Number(value))}>
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue placeholder="Revision" />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map(revision => (
+                  <SelectItem key={revision.id} value={revision.revision.toString()}>Revision {revision.revision}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ArrowRight className="h-4 w-4 text-gray-400" />
+            <Select value={to?.toString() ?? ''} onValueChange={(value) => setTo(Number(value))}>
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue placeholder="Revision" />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map(revision => (
+                  <SelectItem key={revision.id} value={revision.revision.toString()}>Revision {revision.revision}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {from !== null && to !== null && (
+            <RevisionDiffView documentUuid={documentUuid} from={from} to={to} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Lock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  DOCUMENT_WORKFLOW_LABELS,
+  type DocumentWorkflowStatus,
+  type DocumentWorkflowTransition,
+} from '@shared/document-workflow';
+import { documentHistoryQueryKey } from './document-history-timeline';
+
+/** Response of GET /api/documents/:uuid/workflow */
+interface DocumentWorkflowState {
+  status: DocumentWorkflowStatus;
+  locked: boolean;
+  transitions: Array<DocumentWorkflowTransition & { allowed: boolean }>;
+}
+
+export function documentWorkflowQueryKey(documentUuid: string) {
+  return [`/api/documents/${documentUuid}/workflow`];
+}
+
+export const WORKFLOW_STATUS_CLASSES: Record<DocumentWorkflowStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-amber-100 text-amber-800',
+  approved: 'bg-blue-100 text-blue-700',
+  signed: 'bg-indigo-100 text-indigo-700',
+  issued: 'bg-green-100 text-green-800',
+};
+
+export function WorkflowStatusBadge({ status }: { status: DocumentWorkflowStatus }) {
+  return (
+    <Badge variant="outline" className={`border-transparent ${WORKFLOW_STATUS_CLASSES[status]}`}>
+      {DOCUMENT_WORKFLOW_LABELS[status]}
+    </Badge>
+  );
+}
+
+/**
+ * Workflow status of a document with the transitions the current user may apply.
+ */
+export function DocumentWorkflowActions({ documentUuid }: { documentUuid: string }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: workflow, isLoading } = useQuery<DocumentWorkflowState>({
+    queryKey: documentWorkflowQueryKey(documentUuid),
+    staleTime: 0,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async (action: string) => {
+      const res = await apiRequest('POST', `/api/documents/${documentUuid}/workflow`, { action });
+      return res.json();
+    },
+    onSuccess: (_data, action) => {
+      queryClient.invalidateQueries({ queryKey: documentWorkflowQueryKey(documentUuid) });
+      queryClient.invalidateQueries({ queryKey: documentHistoryQueryKey(documentUuid) });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      const transition = workflow?.transitions.find(t => t.action === action);
+      toast({
+        title: 'Status updated',
+        description: transition ? `Document is now ${DOCUMENT_WORKFLOW_LABELS[transition.to]}.` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Status change failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-8 w-48" />;
+  }
+  if (!workflow) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <WorkflowStatusBadge status={workflow.status} />
+      {workflow.locked && (
+        <span className="flex items-center gap-1 text-xs text-gray-500">
+          <Lock className="h-3.5 w-3.5" />
+          Read-only
+        </span>
+      )}
+      {workflow.transitions.map(transition => (
+        <Button
+          key={transition.action}
+          variant={transition.action === 'reject' || transition.action === 'reopen' ? 'outline' : 'default'}
+          size="sm"
+          className="h-7 px-2 text-xs"
+          disabled={!transition.allowed || transitionMutation.isPending}
+          title={transition.allowed ? undefined : `Requires ${transition.role} role`}
+          onClick={() => transitionMutation.mutate(transition.action)}
+        >
+          {transitionMutation.isPending && transitionMutation.variables === transition.action && (
+            <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+          )}
+          {transition.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
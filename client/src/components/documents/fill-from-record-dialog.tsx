@@ -0,0 +1,206 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { MasterDataRecord, MasterDataType, TemplateField } from '@shared/schema';
+import {
+  applyRecordFieldMapping,
+  isRecordFillableField,
+  suggestRecordFieldMapping,
+  type RecordFieldMapping,
+} from '@shared/master-data';
+
+/** Response of GET /api/master-data/records */
+interface MasterDataRecordsResponse {
+  records: MasterDataRecord[];
+  total: number;
+}
+
+const NO_ATTRIBUTE = '__none__';
+
+interface FillFromRecordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fields: TemplateField[];
+  /** Called with the chosen record, the mapping used and the field values it gives */
+  onApply: (record: MasterDataRecord, mapping: RecordFieldMapping, values: Record<string, string>) => void;
+}
+
+/**
+ * Pick a master data record and copy its values into the form fields. The mapping of fields to
+ * attributes is suggested by name and can be changed before applying.
+ */
+export function FillFromRecordDialog({ open, onOpenChange, fields, onApply }: FillFromRecordDialogProps) {
+  const [typeId, setTypeId] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [record, setRecord] = useState<MasterDataRecord | null>(null);
+  const [mapping, setMapping] = useState<RecordFieldMapping>({});
+
+  const fillableFields = useMemo(() => fields.filter(isRecordFillableField), [fields]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const { data: types = [] } = useQuery<MasterDataType[]>({
+    queryKey: ['/api/master-data/types'],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (types.length > 0 && !typeId) setTypeId(types[0].id);
+  }, [types, typeId]);
+
+  const selectedType = types.find(type => type.id === typeId);
+
+  const { data: recordsData, isLoading: recordsLoading } = useQuery<MasterDataRecordsResponse>({
+    queryKey: ['/api/master-data/records', typeId, debouncedSearch, 1],
+    queryFn: async () => {
+      const params = new URLSearchParams({ type: typeId });
+      if (debouncedSearch) params.append('search', debouncedSearch);
+
+      const response = await fetch(`/api/master-data/records?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch records');
+      return response.json();
+    },
+    enabled: open && !!typeId,
+    staleTime: 0,
+  });
+  const records = recordsData?.records ?? [];
+
+  const selectRecord = (next: MasterDataRecord) => {
+    setRecord(next);
+    setMapping(suggestRecordFieldMapping(selectedType?.attributes ?? [], fillableFields.map(field => field.name)));
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setRecord(null);
+      setMapping({});
+      setSearchQuery('');
+    }
+    onOpenChange(next);
+  };
+
+  const values = record ? applyRecordFieldMapping(record.values, mapping) : {};
+  const filledCount = Object.keys(values).length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Fill from record</DialogTitle>
+          <DialogDescription>
+            Chọn bản ghi và kiểm tra thuộc tính được điền vào từng field. Văn bản giữ liên kết để áp dụng lại khi bản ghi thay đổi.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!record ? (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Select value={typeId} onValueChange={(value) => setTypeId(value)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {types.map(type => (
+                    <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="relative flex-1">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+                <Input
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search records..."
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <div className="max-h-80 overflow-y-auto border rounded-md divide-y">
+              {recordsLoading ? (
+                <div className="space-y-2 p-3">
+                  <Skeleton className="h-8 w-full" />
+                  <Skeleton className="h-8 w-full" />
+                </div>
+              ) : records.length === 0 ? (
+                <p className="p-3 text-sm text-gray-500">No records found.</p>
+              ) : records.map(item => (
+                <button
+                  key={item.id}
+                  type="button"
+                  className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                  onClick={() => selectRecord(item)}
+                >
+                  <span className="font-medium text-sm">{item.name}</span>
+                  <span className="block text-xs text-gray-500 truncate">
+                    {Object.values(item.values).filter(Boolean).slice(0, 3).join(' \u00b7 ')}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                <span className="text-gray-500">{selectedType?.label}:</span> <span className="font-medium">{record.name}</span>
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => setRecord(null)}>Change record</Button>
+            </div>
+            <Label>Mapping</Label>
+            <div className="max-h-80 overflow-y-auto border rounded-md divide-y">
+              {fillableFields.map(field => (
+                <div key={field.name} className="grid grid-cols-3 gap-2 items-center px-3 py-1.5">
+                  <span className="font-mono text-xs truncate" title={field.name}>{field.name}</span>
+                  <Select
+                    value={mapping[field.name] ?? NO_ATTRIBUTE}
+                    onValueChange={(value) => setMapping(prev => {
+                      const next = { ...prev };
+                      if (value === NO_ATTRIBUTE) delete next[field.name];
+                      else next[field.name] = value;
+                      return next;
+                    })}
+                  >
+                    <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ATTRIBUTE}>{'\u2014'}</SelectItem>
+                      {selectedType?.attributes.map(attribute => (
+                        <SelectItem key={attribute.name} value={attribute.name}>{attribute.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-xs text-gray-600 truncate" title={values[field.name]}>
+                    {values[field.name] ?? ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button
+            disabled={!record || filledCount === 0}
+            onClick={() => {
+              if (!record) return;
+              onApply(record, mapping, values);
+              handleOpenChange(false);
+            }}
+          >
+            Fill {filledCount} field(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
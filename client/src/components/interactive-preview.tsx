@@ -16,6 +16,8 @@ export interface FieldToken {
   type: 'field';
   fieldName: string;
   value: string;
+  /** Rendered text when the placeholder has |formatters (e.g. |currency:VND) */
+  formattedValue?: string;
   isEmpty: boolean;
   occurrenceIndex: number;
 }
@@ -35,6 +37,8 @@ export interface TemplateFieldMeta {
   options: string[] | null;
   defaultValue: string | null;
   placeholder: string | null;
+  /** Computed field formula ({{field:=...}}); the value is read-only */
+  expression?: string | null;
 }
 
 export interface InteractivePreviewData {
@@ -75,11 +79,12 @@ interface InlineInputProps {
   value: string;
   onChange: (value: string) => void;
   fieldMeta?: TemplateFieldMeta;
+  formattedValue?: string;
   occurrenceIndex: number;
   totalOccurrences: number;
 }
 
-function InlineInput({ fieldName, value, onChange, fieldMeta, occurrenceIndex, totalOccurrences }: InlineInputProps) {
+function InlineInput({ fieldName, value, onChange, fieldMeta, formattedValue, occurrenceIndex, totalOccurrences }: InlineInputProps) {
   const inputRef = useRef<HTMLInputElement | HTMLTextAreaElement>(null);
   const [localValue, setLocalValue] = useState(value);
   const [isHovered, setIsHovered] = useState(false);
@@ -110,7 +115,11 @@ function InlineInput({ fieldName, value, onChange, fieldMeta, occurrenceIndex, t
   const statusColorClass = getInlineFieldColorClasses(fieldStatus);
   const hasDefault = !!fieldMeta?.defaultValue;
   const canReset = hasDefault && fieldStatus === 'modified';
-  const showToggle = !isChecklist && fieldMeta?.type !== 'number' && fieldMeta?.type !== 'date' && fieldMeta?.type !== 'email';
+  const inputType = ['number', 'email', 'date'].includes(fieldMeta?.fieldType || '') ? fieldMeta!.fieldType : fieldMeta?.type;
+  const showToggle = !isChecklist && inputType !== 'number' && inputType !== 'date' && inputType !== 'email';
+  // Formatted fields show the rendered text (e.g. "1.000.000 ₫") until focused, then the raw value
+  const showFormatted = !isFocused && !!formattedValue && formattedValue !== localValue;
+  const displayValue = showFormatted ? formattedValue! : localValue;
   const showControls = (isHovered || isFocused) && (showToggle || canReset);
 
   const handleReset = useCallback(() => {
@@ -235,15 +244,17 @@ function InlineInput({ fieldName, value, onChange, fieldMeta, occurrenceIndex, t
     >
       <input
         ref={inputRef as React.RefObject<HTMLInputElement>}
-        type={fieldMeta?.type === 'number' ? 'number' : fieldMeta?.type === 'email' ? 'email' : fieldMeta?.type === 'date' ? 'date' : 'text'}
-        value={localValue}
+        type={showFormatted ? 'text' : inputType === 'number' ? 'number' : inputType === 'email' ? 'email' : inputType === 'date' ? 'date' : 'text'}
+        value={displayValue}
         onChange={(e) => handleChange(e.target.value)}
         onFocus={() => setIsFocused(true)}
         onBlur={() => setIsFocused(false)}
+        readOnly={!!fieldMeta?.expression || fieldMeta?.fieldType === 'image'}
+        title={fieldMeta?.expression ? `Tự tính: ${fieldMeta.expression}` : fieldMeta?.fieldType === 'image' ? 'Tải ảnh lên trong form nhập liệu' : undefined}
         placeholder={fieldMeta?.placeholder || fieldName}
         className={`${baseClassName} ${linkedIndicatorClass} ${statusColorClass}`}
         style={{
-          width: `${Math.max(localValue.length + 2, fieldMeta?.placeholder?.length || fieldName.length, 8)}ch`,
+          width: `${Math.max(displayValue.length + 2, fieldMeta?.placeholder?.length || fieldName.length, 8)}ch`,
         }}
       />
       {controlsOverlay}
@@ -408,6 +419,7 @@ export function InteractivePreview({
                 value={currentValue}
                 onChange={(newValue) => onFieldChange(token.fieldName, newValue)}
                 fieldMeta={fieldMeta}
+                formattedValue={token.formattedValue}
                 occurrenceIndex={token.occurrenceIndex}
                 totalOccurrences={totalOccurrences}
               />
@@ -434,6 +446,7 @@ export function InteractivePreview({
               value={currentValue}
               onChange={(newValue) => onFieldChange(token.fieldName, newValue)}
               fieldMeta={fieldMeta}
+              formattedValue={token.formattedValue}
               occurrenceIndex={token.occurrenceIndex}
               totalOccurrences={totalOccurrences}
             />
@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Save, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { BatchMappingPreset } from '@shared/schema';
+import type { BatchColumnMapping, BatchMappingPreview } from '@shared/batch-mapping';
+
+const SKIP_COLUMN = '__skip__';
+const NO_PRESET = '__none__';
+const NO_KEY = '__none__';
+
+interface BatchColumnMappingStepProps {
+  templateId: string;
+  fileName: string;
+  /** CSV / TSV: encoding and delimiter detected by the server */
+  source?: { format: string; encoding?: string; delimiter?: string };
+  preview: BatchMappingPreview;
+  isSubmitting: boolean;
+  onBack: () => void;
+  /** keyField: rows matching an existing document by this field update it (preview first) */
+  onConfirm: (mapping: BatchColumnMapping, keyField: string | null) => void;
+}
+
+function confidenceClass(confidence: number): string {
+  if (confidence >= 85) return 'bg-green-100 text-green-800';
+  return 'bg-amber-100 text-amber-800';
+}
+
+/**
+ * Mapping step of the batch upload: every Excel column goes to a template field or is skipped,
+ * fields without a column can take a constant value. Suggestions come from the server preview;
+ * the mapping can be saved as a preset of the template and loaded on the next upload.
+ * A mapped field can be chosen as key to update the existing documents instead of creating duplicates.
+ */
+export function BatchColumnMappingStep({ templateId, fileName, source, preview, isSubmitting, onBack, onConfirm }: BatchColumnMappingStepProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [columns, setColumns] = useState<Record<string, string | null>>(() =>
+    Object.fromEntries(preview.columns.map(column => [column.header, column.fieldName]))
+  );
+  const [constants, setConstants] = useState<Record<string, string>>({});
+  const [changedHeaders, setChangedHeaders] = useState<Set<string>>(new Set());
+  const [presetId, setPresetId] = useState(NO_PRESET);
+  const [presetName, setPresetName] = useState('');
+  const [keyField, setKeyField] = useState(NO_KEY);
+
+  const presetsQueryKey = [`/api/templates/${templateId}/batch-mapping-presets`];
+  const { data: presets = [] } = useQuery<BatchMappingPreset[]>({ queryKey: presetsQueryKey });
+
+  const fieldNames = new Set(preview.fields.map(field => field.name));
+  const mappedFields = Object.values(columns).filter((name): name is string => !!name);
+  const duplicateField = mappedFields.find((name, index) => mappedFields.indexOf(name) !== index);
+  const unmappedFields = preview.fields.filter(field => !mappedFields.includes(field.name));
+  const missingRequired = unmappedFields.filter(field => field.required && !field.defaultValue && !constants[field.name]?.trim());
+  // The key comes from a column: a constant would give every row the same key
+  const selectedKeyField = keyField !== NO_KEY && mappedFields.includes(keyField) ? keyField : null;
+
+  const buildMapping = (): BatchColumnMapping => ({
+    columns,
+    // Constants of fields that got a column are dropped
+    constants: Object.fromEntries(
+      Object.entries(constants).filter(([name, value]) => value.trim() !== '' && !mappedFields.includes(name))
+    ),
+  });
+
+  const setColumnField = (header: string, fieldName: string | null) => {
+    setColumns(prev => ({ ...prev, [header]: fieldName }));
+    setChangedHeaders(prev => new Set(prev).add(header));
+  };
+
+  // Fields removed from the template since the preset was saved are ignored
+  const applyPreset = (id: string) => {
+    setPresetId(id);
+    const preset = presets.find(item => item.id === id);
+    if (!preset) return;
+
+    setColumns(prev => Object.fromEntries(Object.keys(prev).map(header => {
+      if (!Object.prototype.hasOwnProperty.call(preset.mapping.columns, header)) return [header, prev[header]];
+      const fieldName = preset.mapping.columns[header];
+      return [header, fieldName && fieldNames.has(fieldName) ? fieldName : null];
+    })));
+    setConstants(Object.fromEntries(Object.entries(preset.mapping.constants).filter(([name]) => fieldNames.has(name))));
+    setChangedHeaders(new Set(preview.columns.map(column => column.header)));
+    setPresetName(preset.name);
+  };
+
+  const savePresetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/templates/${templateId}/batch-mapping-presets`, {
+        name: presetName.trim(),
+        mapping: buildMapping(),
+      });
+      return res.json() as Promise<BatchMappingPreset>;
+    },
+    onSuccess: (preset) => {
+      queryClient.invalidateQueries({ queryKey: presetsQueryKey });
+      setPresetId(preset.id);
+      toast({ title: 'Đã lưu mapping', description: preset.name });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Không thể lưu mapping', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deletePresetMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `/api/templates/${templateId}/batch-mapping-presets/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: presetsQueryKey });
+      setPresetId(NO_PRESET);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Không thể xóa mapping', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Mapping đã lưu</Label>
+          <Select value={presetId} onValueChange={applyPreset}>
+            <SelectTrigger className="w-56 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PRESET}>{presets.length > 0 ? 'Chọn mapping...' : 'Chưa có mapping'}</SelectItem>
+              {presets.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {presetId !== NO_PRESET && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-9"
+            title="Xóa mapping đã lưu"
+            disabled={deletePresetMutation.isPending}
+            onClick={() => deletePresetMutation.mutate(presetId)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+        <div className="flex-1" />
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Tên mapping"
+          className="w-48 h-9"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9"
+          disabled={!presetName.trim() || !!duplicateField || savePresetMutation.isPending}
+          onClick={() => savePresetMutation.mutate()}
+        >
+          {savePresetMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Lưu mapping
+        </Button>
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-600 mb-2">
+          {fileName}
+          {source?.encoding && (
+            <span className="text-gray-500">
+              {' '}({source.format.toUpperCase()}, {source.encoding.toUpperCase()}, phân cách {source.delimiter === '\t' ? 'Tab' : `"${source.delimiter}"`})
+            </span>
+          )}
+          {' '}{'\u00b7'} Cột đầu tiên là tên văn bản. Chọn field cho từng cột còn lại hoặc bỏ qua cột.
+        </p>
+        <div className="max-h-80 overflow-y-auto border rounded-md divide-y">
+          {preview.columns.map(column => {
+            const fieldName = columns[column.header];
+            const suggested = !changedHeaders.has(column.header) && !!column.fieldName && fieldName === column.fieldName;
+            return (
+              <div key={column.header} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-center px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate" title={column.header}>{column.header}</p>
+                  <p className="text-xs text-gray-500 truncate" title={column.samples.join(', ')}>
+                    {column.samples.length > 0 ? column.samples.join(' \u00b7 ') : 'Không có dữ liệu'}
+                  </p>
+                </div>
+                <Select
+                  value={fieldName ?? SKIP_COLUMN}
+                  onValueChange={(value) => setColumnField(column.header, value === SKIP_COLUMN ? null : value)}
+                >
+                  <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SKIP_COLUMN}>Bỏ qua cột</SelectItem>
+                    {preview.fields.map(field => (
+                      <SelectItem key={field.name} value={field.name}>
+                        {field.name}{field.required ? ' *' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="w-24 text-right">
+                  {suggested ? (
+                    <Badge variant="outline" className={`border-transparent ${confidenceClass(column.confidence)}`}>
+                      {column.confidence}%
+                    </Badge>
+                  ) : !fieldName ? (
+                    <span className="text-xs text-gray-400">Bỏ qua</span>
+                  ) : (
+                    <span className="text-xs text-gray-500">Đã chọn</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {duplicateField && (
+          <p className="text-sm text-red-600 mt-2">Field "{duplicateField}" được chọn cho nhiều cột.</p>
+        )}
+      </div>
+
+      {unmappedFields.length > 0 && (
+        <div>
+          <p className="text-sm font-medium mb-1">Giá trị cố định</p>
+          <p className="text-xs text-gray-500 mb-2">Field không có cột nhận cùng một giá trị cho mọi văn bản (để trống nếu không dùng).</p>
+          <div className="max-h-48 overflow-y-auto border rounded-md divide-y">
+            {unmappedFields.map(field => (
+              <div key={field.name} className="grid grid-cols-2 gap-3 items-center px-3 py-1.5">
+                <span className="font-mono text-xs truncate" title={field.name}>
+                  {field.name}{field.required ? ' *' : ''}
+                </span>
+                <Input
+                  value={constants[field.name] ?? ''}
+                  onChange={(e) => setConstants(prev => ({ ...prev, [field.name]: e.target.value }))}
+                  placeholder={field.defaultValue ?? ''}
+                  className="h-8 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+          {missingRequired.length > 0 && (
+            <p className="text-sm text-amber-700 mt-2">
+              Field bắt buộc chưa có dữ liệu: {missingRequired.map(field => field.name).join(', ')}. Các dòng sẽ bị báo lỗi.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Cột khóa (cập nhật văn bản đã có)</Label>
+          <Select value={selectedKeyField ?? NO_KEY} onValueChange={setKeyField}>
+            <SelectTrigger className="w-56 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_KEY}>Không dùng khóa</SelectItem>
+              {preview.fields.filter(field => mappedFields.includes(field.name)).map(field => (
+                <SelectItem key={field.name} value={field.name}>{field.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="flex-1 text-xs text-gray-500 pb-2">
+          {selectedKeyField
+            ? `Dòng có ${selectedKeyField} trùng với văn bản đã có sẽ cập nhật văn bản đó; ô trống giữ giá trị cũ.`
+            : 'Mỗi dòng tạo một văn bản mới.'}
+        </p>
+        <Button variant="outline" onClick={onBack} disabled={isSubmitting}>Chọn file khác</Button>
+        <Button onClick={() => onConfirm(buildMapping(), selectedKeyField)} disabled={!!duplicateField || isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {selectedKeyField ? 'Xem trước' : 'Tạo văn bản'}
+        </Button>
+      </div>
+    </div>
+  );
+}
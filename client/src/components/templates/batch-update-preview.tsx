@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { BATCH_ROW_ACTION_LABELS, type BatchRowAction, type BatchUpdatePreview } from '@shared/batch-update';
+
+interface BatchUpdatePreviewStepProps {
+  preview: BatchUpdatePreview;
+  isSubmitting: boolean;
+  onBack: () => void;
+  onConfirm: () => void;
+}
+
+const ACTION_CLASSES: Record<BatchRowAction, string> = {
+  create: 'bg-blue-100 text-blue-800',
+  update: 'bg-green-100 text-green-800',
+  unchanged: 'bg-gray-100 text-gray-700',
+  invalid: 'bg-red-100 text-red-800',
+};
+
+const ACTIONS: BatchRowAction[] = ['create', 'update', 'unchanged', 'invalid'];
+
+/**
+ * Preview of a keyed batch upload: rows that create, update or leave a document unchanged,
+ * and rows that cannot be imported. Nothing is written until the upload is confirmed.
+ */
+export function BatchUpdatePreviewStep({ preview, isSubmitting, onBack, onConfirm }: BatchUpdatePreviewStepProps) {
+  const [filter, setFilter] = useState<BatchRowAction | null>(null);
+  const rows = filter ? preview.rows.filter(row => row.action === filter) : preview.rows;
+  const writes = preview.counts.create + preview.counts.update;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Khóa: <span className="font-mono">{preview.keyField}</span> {'\u00b7'} Chọn một loại để lọc danh sách.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {ACTIONS.map(action => (
+          <button
+            key={action}
+            type="button"
+            onClick={() => setFilter(prev => prev === action ? null : action)}
+            className={`border rounded-md p-3 text-left ${filter === action ? 'ring-2 ring-primary' : ''}`}
+          >
+            <p className="text-sm text-gray-600">{BATCH_ROW_ACTION_LABELS[action]}</p>
+            <p className="text-xl font-medium">{preview.counts[action]}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="max-h-80 overflow-y-auto border rounded-md divide-y">
+        {rows.map(row => (
+          <div key={row.rowIndex} className="grid grid-cols-[3rem_6rem_1fr_2fr] gap-3 items-start px-3 py-2 text-sm">
+            <span className="text-gray-500">{row.rowIndex}</span>
+            <Badge variant="outline" className={`justify-center border-transparent ${ACTION_CLASSES[row.action]}`}>
+              {BATCH_ROW_ACTION_LABELS[row.action]}
+            </Badge>
+            <div className="min-w-0">
+              <p className="truncate" title={row.documentName}>{row.documentName}</p>
+              <p className="text-xs text-gray-500 font-mono truncate">{row.keyValue || '\u2014'}</p>
+            </div>
+            <p className={`text-xs ${row.error ? 'text-red-600' : 'text-gray-600'}`}>
+              {row.error ?? (row.changes && row.changes.length > 0 ? `Thay đổi: ${row.changes.join(', ')}` : '')}
+            </p>
+          </div>
+        ))}
+        {rows.length === 0 && (
+          <p className="px-3 py-4 text-sm text-gray-500 text-center">Không có dòng nào</p>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onBack} disabled={isSubmitting}>Quay lại mapping</Button>
+        <Button onClick={onConfirm} disabled={writes === 0 || isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Xác nhận ({preview.counts.create} tạo mới, {preview.counts.update} cập nhật)
+        </Button>
+      </div>
+    </div>
+  );
+}
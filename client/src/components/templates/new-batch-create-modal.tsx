@@ -1,11 +1,18 @@
 import { useState, useRef } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
 import { Loader2, Upload, FileSpreadsheet, CheckCircle, XCircle, Download } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import type { BatchJob } from '@shared/schema';
+import { BATCH_JOB_STATUS_LABELS, isActiveBatchJobStatus } from '@shared/batch-jobs';
+import type { BatchColumnMapping, BatchMappingPreview } from '@shared/batch-mapping';
+import type { BatchUpdatePreview } from '@shared/batch-update';
+import { BatchColumnMappingStep } from './batch-column-mapping';
+import { BatchUpdatePreviewStep } from './batch-update-preview';
 
 interface BatchCreateModalProps {
   isOpen: boolean;
@@ -14,6 +21,16 @@ interface BatchCreateModalProps {
   templateName: string;
 }
 
+type BatchJobInfo = BatchJob & { progress: number };
+
+/** How the server read the file; encoding and delimiter are set for CSV / TSV */
+interface BatchFileSource {
+  format: string;
+  encoding?: string;
+  delimiter?: string;
+}
+
+/** Response of POST /api/templates/:uuid/upload-batch (202, documents are created by a batch job) */
 interface UploadResult {
   success: boolean;
   message: string;
@@ -21,47 +38,138 @@ interface UploadResult {
   templateUuid: string;
   fileName: string;
   totalDocuments: number;
-  created: number;
-  failed: number;
-  documentUuids: string[];
-  results?: { batchDocumentId: string; documentId: string; documentName: string; success: boolean }[];
-  errors?: { batchDocumentId: string; documentName: string; error: string }[];
+  /** Rows matching an existing document by this field update it */
+  keyField: string | null;
+  job: BatchJobInfo;
+  /** Rows with invalid values are not created; reportUrl is the annotated workbook */
+  validation: {
+    invalidRows: number;
+    unknownColumns: string[];
+    reportUrl: string | null;
+  };
+}
+
+/** Response of GET /api/batch/:uuid */
+interface BatchSessionInfo {
+  sessionId: string;
+  fileName: string;
+  job: BatchJobInfo | null;
+  documents: { uuid: string; documentName: string; status: string; documentUuid: string | null }[];
 }
 
 export function NewBatchCreateModal({ isOpen, onClose, templateId, templateName }: BatchCreateModalProps) {
-  const [currentStep, setCurrentStep] = useState<'upload' | 'result'>('upload');
+  // File chosen and its column suggestions, until the mapping is confirmed
+  const [pendingUpload, setPendingUpload] = useState<{ file: File; source: BatchFileSource; preview: BatchMappingPreview } | null>(null);
+  // Keyed upload: created / updated / unchanged rows, until the preview is confirmed
+  const [pendingUpdate, setPendingUpdate] = useState<{ mapping: BatchColumnMapping; keyField: string; preview: BatchUpdatePreview } | null>(null);
   const [uploadResult, setUploadResult] = useState<UploadResult | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Upload Excel file mutation - auto creates documents
-  const uploadMutation = useMutation({
+  // Progress of the batch job, polled while it runs
+  const { data: sessionInfo } = useQuery<BatchSessionInfo>({
+    queryKey: [`/api/batch/${uploadResult?.sessionId}`],
+    enabled: !!uploadResult,
+    staleTime: 0,
+    refetchInterval: (query) => {
+      const status = query.state.data?.job?.status;
+      return !status || isActiveBatchJobStatus(status) ? 1000 : false;
+    },
+  });
+  const job = sessionInfo?.job ?? uploadResult?.job ?? null;
+  const jobRunning = !!job && isActiveBatchJobStatus(job.status);
+  const currentStep = !uploadResult
+    ? (pendingUpload ? (pendingUpdate ? 'preview' : 'mapping') : 'upload')
+    : jobRunning ? 'progress' : 'result';
+  // Created and updated documents can be downloaded
+  const createdDocuments = (sessionInfo?.documents ?? []).filter(doc => (doc.status === 'created' || doc.status === 'updated') && doc.documentUuid);
+  const documentUuids = createdDocuments.map(doc => doc.documentUuid!);
+  const keyed = !!uploadResult?.keyField;
+  const validation = uploadResult?.validation;
+
+  // Invalid rows and unknown columns, with the annotated workbook to fix and upload again
+  const validationSummary = validation && validation.reportUrl && (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800 space-y-2">
+      {validation.invalidRows > 0 && (
+        <p>{validation.invalidRows} dòng có dữ liệu không hợp lệ sẽ không được tạo văn bản.</p>
+      )}
+      {validation.unknownColumns.length > 0 && (
+        <p>Cột không có trong template (bị bỏ qua): {validation.unknownColumns.join(', ')}</p>
+      )}
+      <Button variant="outline" size="sm" asChild>
+        <a href={validation.reportUrl} download>
+          <Download className="mr-2 h-4 w-4" />
+          Tải báo cáo lỗi (Excel)
+        </a>
+      </Button>
+    </div>
+  );
+
+  // Column suggestions of the chosen file, shown in the mapping step
+  const previewMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append('file', file);
+
+      const res = await apiRequest('POST', `/api/templates/${templateId}/parse-excel`, formData);
+      const data = await res.json() as { source: BatchFileSource; mapping: BatchMappingPreview };
+      return { file, source: data.source, preview: data.mapping };
+    },
+    onSuccess: (data) => setPendingUpload(data),
+    onError: (error: Error) => {
+      toast({
+        title: 'Không đọc được file Excel',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Rows of a keyed upload that create, update or leave a document unchanged; nothing is written
+  const updatePreviewMutation = useMutation({
+    mutationFn: async ({ file, mapping, keyField }: { file: File; mapping: BatchColumnMapping; keyField: string }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('mapping', JSON.stringify(mapping));
+      formData.append('keyField', keyField);
+
+      const res = await apiRequest('POST', `/api/templates/${templateId}/upload-batch/preview`, formData);
+      return { mapping, keyField, preview: await res.json() as BatchUpdatePreview };
+    },
+    onSuccess: (data) => setPendingUpdate(data),
+    onError: (error: Error) => {
+      toast({
+        title: 'Không thể xem trước',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Upload Excel file mutation - documents are created (or updated by key) in the background
+  const uploadMutation = useMutation({
+    mutationFn: async ({ file, mapping, keyField }: { file: File; mapping: BatchColumnMapping; keyField?: string | null }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('mapping', JSON.stringify(mapping));
+      if (keyField) formData.append('keyField', keyField);
       
       const res = await apiRequest('POST', `/api/templates/${templateId}/upload-batch`, formData);
       return await res.json() as UploadResult;
     },
     onSuccess: (data: UploadResult) => {
-      console.log('Upload and create successful:', data);
       setUploadResult(data);
-      setCurrentStep('result');
-      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
-      
-      if (data.created > 0) {
-        toast({
-          title: 'Tạo văn bản thành công',
-          description: `Đã tạo ${data.created}/${data.totalDocuments} văn bản từ file Excel`,
-        });
-      } else {
-        toast({
-          title: 'Xử lý hoàn tất',
-          description: data.message || 'File Excel đã được xử lý',
-          variant: data.failed > 0 ? 'destructive' : 'default',
-        });
-      }
+      setPendingUpload(null);
+      setPendingUpdate(null);
+      const validRows = data.totalDocuments - data.validation.invalidRows;
+      const verb = data.keyField ? 'Đang xử lý' : 'Đang tạo';
+      toast({
+        title: 'Đã nhận file Excel',
+        description: data.validation.invalidRows > 0
+          ? `${verb} ${validRows} văn bản, ${data.validation.invalidRows} dòng không hợp lệ`
+          : `${verb} ${data.totalDocuments} văn bản...`,
+      });
     },
     onError: (error: Error) => {
       console.error('Upload error:', error);
@@ -73,10 +181,25 @@ export function NewBatchCreateModal({ isOpen, onClose, templateId, templateName
     },
   });
 
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/batch/${uploadResult!.sessionId}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/batch/${uploadResult?.sessionId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      toast({ title: 'Đã hủy', description: 'Các văn bản đã tạo được giữ lại' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Không thể hủy', description: error.message, variant: 'destructive' });
+    },
+  });
+
   // Download all created documents mutation
   const downloadAllMutation = useMutation({
-    mutationFn: async () => {
-      if (!uploadResult?.documentUuids || uploadResult.documentUuids.length === 0) {
+    mutationFn: async (format: 'docx' | 'pdf') => {
+      if (documentUuids.length === 0) {
         throw new Error('Không có văn bản để tải');
       }
       
@@ -85,11 +208,11 @@ export function NewBatchCreateModal({ isOpen, onClose, templateId, templateName
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ documentUuids: uploadResult.documentUuids }),
+        body: JSON.stringify({ documentUuids, format }),
       });
       
       if (!response.ok) {
-        throw new Error('Không thể tải văn bản');
+        throw new Error(response.status === 503 ? 'Máy chủ chưa hỗ trợ xuất PDF' : 'Không thể tải văn bản');
       }
       
       const blob = await response.blob();
@@ -121,21 +244,33 @@ export function NewBatchCreateModal({ isOpen, onClose, templateId, templateName
     const file = event.target.files?.[0];
     if (!file) return;
 
-    if (!file.name.match(/\.(xlsx|xls)$/)) {
+    if (!file.name.match(/\.(xlsx|xls|csv|tsv)$/i)) {
       toast({
         title: 'File không hợp lệ',
-        description: 'Chỉ chấp nhận file Excel (.xlsx, .xls)',
+        description: 'Chỉ chấp nhận file Excel (.xlsx, .xls) hoặc CSV / TSV (.csv, .tsv)',
         variant: 'destructive',
       });
       return;
     }
 
-    uploadMutation.mutate(file);
+    previewMutation.mutate(file);
+  };
+
+  const handleChooseAnotherFile = () => {
+    setPendingUpload(null);
+    setPendingUpdate(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
   };
 
   const handleClose = () => {
-    setCurrentStep('upload');
+    if (uploadResult) {
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    }
     setUploadResult(null);
+    setPendingUpload(null);
+    setPendingUpdate(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -153,25 +288,25 @@ export function NewBatchCreateModal({ isOpen, onClose, templateId, templateName
           <div className="space-y-6">
             <div className="text-center py-8">
               <FileSpreadsheet className="mx-auto h-16 w-16 text-gray-400 mb-4" />
-              <h3 className="text-lg font-medium mb-2">Upload file Excel</h3>
+              <h3 className="text-lg font-medium mb-2">Upload file Excel / CSV</h3>
               <p className="text-gray-600 mb-6">
-                Chọn file Excel chứa dữ liệu để tạo văn bản hàng loạt
+                Chọn file Excel, CSV hoặc TSV (UTF-8 hoặc Windows-1258) chứa dữ liệu để tạo văn bản hàng loạt
               </p>
               
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".xlsx,.xls"
+                accept=".xlsx,.xls,.csv,.tsv"
                 onChange={handleFileUpload}
                 className="hidden"
               />
               
               <Button 
                 onClick={() => fileInputRef.current?.click()}
-                disabled={uploadMutation.isPending}
+                disabled={previewMutation.isPending}
                 className="mx-auto"
               >
-                {uploadMutation.isPending ? (
+                {previewMutation.isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Đang xử lý...
@@ -179,7 +314,7 @@ export function NewBatchCreateModal({ isOpen, onClose, templateId, templateName
                 ) : (
                   <>
                     <Upload className="mr-2 h-4 w-4" />
-                    Chọn file Excel
+                    Chọn file
                   </>
                 )}
               </Button>
@@ -187,69 +322,157 @@ export function NewBatchCreateModal({ isOpen, onClose, templateId, templateName
           </div>
         )}
 
-        {currentStep === 'result' && uploadResult && (
+        {/* Kept mounted during the preview so going back keeps the mapping */}
+        {(currentStep === 'mapping' || currentStep === 'preview') && pendingUpload && (
+          <div className={currentStep === 'preview' ? 'hidden' : undefined}>
+            <BatchColumnMappingStep
+              templateId={templateId}
+              fileName={pendingUpload.file.name}
+              source={pendingUpload.source}
+              preview={pendingUpload.preview}
+              isSubmitting={uploadMutation.isPending || updatePreviewMutation.isPending}
+              onBack={handleChooseAnotherFile}
+              onConfirm={(mapping, keyField) => keyField
+                ? updatePreviewMutation.mutate({ file: pendingUpload.file, mapping, keyField })
+                : uploadMutation.mutate({ file: pendingUpload.file, mapping })}
+            />
+          </div>
+        )}
+
+        {currentStep === 'preview' && pendingUpload && pendingUpdate && (
+          <BatchUpdatePreviewStep
+            preview={pendingUpdate.preview}
+            isSubmitting={uploadMutation.isPending}
+            onBack={() => setPendingUpdate(null)}
+            onConfirm={() => uploadMutation.mutate({ file: pendingUpload.file, mapping: pendingUpdate.mapping, keyField: pendingUpdate.keyField })}
+          />
+        )}
+
+        {currentStep === 'progress' && job && (
+          <div className="space-y-6 py-8">
+            <div className="text-center">
+              <Loader2 className="mx-auto h-10 w-10 animate-spin text-blue-500 mb-4" />
+              <h3 className="text-lg font-medium">
+                {job.phase === 'parse' ? 'Đang đọc file Excel...' : keyed ? 'Đang tạo và cập nhật văn bản...' : 'Đang tạo văn bản...'}
+              </h3>
+              <p className="text-sm text-gray-600">
+                {BATCH_JOB_STATUS_LABELS[job.status]} {'\u00b7'} {job.createdRows}/{job.totalRows} văn bản đã tạo
+                {keyed && `, ${job.updatedRows} cập nhật, ${job.unchangedRows} không đổi`}
+                {job.failedRows > 0 && `, ${job.failedRows} lỗi`}
+              </p>
+            </div>
+            <Progress value={job.progress} />
+            {validationSummary}
+            <p className="text-center text-sm text-gray-500">
+              {job.progress}% {'\u00b7'} Có thể đóng cửa sổ này, việc tạo văn bản vẫn tiếp tục.
+            </p>
+            <div className="flex justify-center gap-4">
+              <Button variant="outline" onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+                Hủy
+              </Button>
+              <Button onClick={handleClose}>Đóng</Button>
+            </div>
+          </div>
+        )}
+
+        {currentStep === 'result' && uploadResult && job && (
           <div className="space-y-6">
             {/* Summary Card */}
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
-                  {uploadResult.created > 0 ? (
+                  {job.createdRows + job.updatedRows + job.unchangedRows > 0 ? (
                     <CheckCircle className="h-6 w-6 text-green-500" />
                   ) : (
                     <XCircle className="h-6 w-6 text-red-500" />
                   )}
                   Kết quả tạo văn bản
+                  {job.status !== 'completed' && (
+                    <span className="text-sm font-normal text-gray-500">({BATCH_JOB_STATUS_LABELS[job.status]})</span>
+                  )}
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <div className={`grid grid-cols-2 gap-4 mb-6 ${keyed ? 'md:grid-cols-6' : 'md:grid-cols-4'}`}>
                   <div>
                     <p className="text-sm text-gray-600">File</p>
                     <p className="font-medium">{uploadResult.fileName || 'N/A'}</p>
                   </div>
                   <div>
                     <p className="text-sm text-gray-600">Tổng số</p>
-                    <p className="font-medium">{uploadResult.totalDocuments || 0}</p>
+                    <p className="font-medium">{job.totalRows || uploadResult.totalDocuments || 0}</p>
                   </div>
                   <div>
                     <p className="text-sm text-gray-600">Đã tạo</p>
-                    <p className="font-medium text-green-600">{uploadResult.created || 0}</p>
+                    <p className="font-medium text-green-600">{job.createdRows}</p>
                   </div>
+                  {keyed && (
+                    <>
+                      <div>
+                        <p className="text-sm text-gray-600">Đã cập nhật</p>
+                        <p className="font-medium text-green-600">{job.updatedRows}</p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-gray-600">Không đổi</p>
+                        <p className="font-medium">{job.unchangedRows}</p>
+                      </div>
+                    </>
+                  )}
                   <div>
                     <p className="text-sm text-gray-600">Thất bại</p>
-                    <p className="font-medium text-red-600">{uploadResult.failed || 0}</p>
+                    <p className="font-medium text-red-600">{job.failedRows}</p>
                   </div>
                 </div>
 
                 {/* Success message */}
-                {uploadResult.created > 0 && (
+                {job.createdRows + job.updatedRows > 0 && (
                   <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
                     <p className="text-green-800">
-                      Đã tạo thành công {uploadResult.created} văn bản. Bạn có thể xem chúng trong danh sách văn bản hoặc tải xuống ngay.
+                      {keyed
+                        ? `Đã tạo ${job.createdRows} và cập nhật ${job.updatedRows} văn bản.`
+                        : `Đã tạo thành công ${job.createdRows} văn bản.`}
+                      {' '}Bạn có thể xem chúng trong danh sách văn bản hoặc tải xuống ngay.
                     </p>
                   </div>
                 )}
 
+                {validationSummary && <div className="mb-4">{validationSummary}</div>}
+
                 {/* Error list */}
-                {uploadResult.errors && uploadResult.errors.length > 0 && (
+                {job.error && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+                    <p className="text-red-800">{job.error}</p>
+                  </div>
+                )}
+                {job.rowErrors.length > 0 && (
                   <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
                     <p className="text-red-800 font-medium mb-2">Các lỗi xảy ra:</p>
                     <ul className="text-sm text-red-700 list-disc list-inside">
-                      {uploadResult.errors.map((err, idx) => (
-                        <li key={idx}>{err.documentName}: {err.error}</li>
+                      {job.rowErrors.map((err, idx) => (
+                        <li key={idx}>
+                          Dòng {err.rowIndex} {'\u2014'} {err.documentName}: {err.error}
+                          {err.fieldErrors && (
+                            <ul className="ml-6 list-[circle] list-inside">
+                              {Object.entries(err.fieldErrors).map(([field, message]) => (
+                                <li key={field}>{field}: {message}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </li>
                       ))}
                     </ul>
                   </div>
                 )}
 
                 {/* Created documents list */}
-                {uploadResult.results && uploadResult.results.length > 0 && (
+                {createdDocuments.length > 0 && (
                   <div className="space-y-2 max-h-64 overflow-y-auto">
-                    <p className="text-sm font-medium text-gray-700">Văn bản đã tạo:</p>
-                    {uploadResult.results.map((result, idx) => (
+                    <p className="text-sm font-medium text-gray-700">{keyed ? 'Văn bản đã tạo / cập nhật:' : 'Văn bản đã tạo:'}</p>
+                    {createdDocuments.map((result, idx) => (
                       <div key={idx} className="flex items-center gap-2 text-sm bg-gray-50 p-2 rounded">
                         <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />
                         <span>{result.documentName}</span>
+                        {result.status === 'updated' && <span className="text-xs text-gray-500">(cập nhật)</span>}
                       </div>
                     ))}
                   </div>
@@ -259,13 +482,13 @@ export function NewBatchCreateModal({ isOpen, onClose, templateId, templateName
 
             {/* Action buttons */}
             <div className="flex justify-center gap-4">
-              {uploadResult.documentUuids && uploadResult.documentUuids.length > 0 && (
+              {documentUuids.length > 0 && (
                 <Button
-                  onClick={() => downloadAllMutation.mutate()}
+                  onClick={() => downloadAllMutation.mutate('docx')}
                   disabled={downloadAllMutation.isPending}
                   variant="outline"
                 >
-                  {downloadAllMutation.isPending ? (
+                  {downloadAllMutation.isPending && downloadAllMutation.variables === 'docx' ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                       Đang tải xuống...
@@ -273,7 +496,26 @@ export function NewBatchCreateModal({ isOpen, onClose, templateId, templateName
                   ) : (
                     <>
                       <Download className="mr-2 h-4 w-4" />
-                      Tải xuống tất cả ({uploadResult.created})
+                      Tải xuống tất cả ({documentUuids.length})
+                    </>
+                  )}
+                </Button>
+              )}
+              {documentUuids.length > 0 && (
+                <Button
+                  onClick={() => downloadAllMutation.mutate('pdf')}
+                  disabled={downloadAllMutation.isPending}
+                  variant="outline"
+                >
+                  {downloadAllMutation.isPending && downloadAllMutation.variables === 'pdf' ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Đang chuyển PDF...
+                    </>
+                  ) : (
+                    <>
+                      <Download className="mr-2 h-4 w-4" />
+                      Tải PDF
                     </>
                   )}
                 </Button>
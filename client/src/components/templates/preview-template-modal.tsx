@@ -3,7 +3,7 @@ import { Eye, Download, Grip } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
+import { TemplateCategoryBadge } from '@/components/common/template-category';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { Template, TemplateField } from '@shared/schema';
@@ -124,9 +124,7 @@ const PreviewTemplateModal: React.FC<PreviewTemplateModalProps> = ({
                   <Skeleton className="h-6 w-24" />
                 ) : (
                   <>
-                    <Badge variant={template?.category as any}>
-                      {template?.category && template.category.charAt(0).toUpperCase() + template.category.slice(1)}
-                    </Badge>
+                    {template?.category && <TemplateCategoryBadge category={template.category} />}
                     <span className="ml-2 text-sm text-gray-500">
                       {fields?.length || 0} fields
                     </span>
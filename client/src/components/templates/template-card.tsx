@@ -1,12 +1,14 @@
 import React from 'react';
-import { EyeOff } from 'lucide-react';
-import { Badge } from '@/components/ui/badge';
+import { EyeOff, Tags } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { TemplateCategoryBadge } from '@/components/common/template-category';
+import TemplateFavoriteButton from './template-favorite-button';
+import { TemplateTagBadges } from './template-organize-dialog';
 import { formatDate } from '@/lib/utils';
 import { Template } from '@shared/schema';
 
 interface TemplateCardProps {
-  template: Template;
+  template: Template & { favorite?: boolean };
   onUseTemplate: (templateUuid: string) => void;
   onPreviewTemplate: (templateUuid: string) => void;
   onEditTemplate?: (templateUuid: string) => void;
@@ -15,6 +17,7 @@ interface TemplateCardProps {
   onExportExcel?: (templateUuid: string) => void;
   onBatchCreate?: (templateUuid: string) => void;
   onArchiveTemplate?: (templateUuid: string) => void;
+  onOrganizeTemplate?: (templateUuid: string) => void;
 }
 
 const TemplateCard: React.FC<TemplateCardProps> = ({
@@ -25,6 +28,7 @@ const TemplateCard: React.FC<TemplateCardProps> = ({
   onExportExcel,
   onBatchCreate,
   onArchiveTemplate,
+  onOrganizeTemplate,
 }) => {
   return (
     <div className="bg-white overflow-hidden shadow rounded-lg border border-gray-200 flex flex-col">
@@ -32,9 +36,19 @@ const TemplateCard: React.FC<TemplateCardProps> = ({
         <div className="flex items-start justify-between mb-2">
           <h3 className="text-lg font-semibold text-gray-900">{template.name}</h3>
           <div className="flex items-center gap-1">
-            <Badge variant="outline" className="text-xs bg-blue-50 text-blue-700 border-blue-200">
-              {template.category}
-            </Badge>
+            <TemplateCategoryBadge category={template.category} className="text-xs" />
+            <TemplateFavoriteButton templateUuid={template.uuid} favorite={!!template.favorite} />
+            {onOrganizeTemplate && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-gray-400 hover:text-blue-500 hover:bg-blue-50"
+                onClick={() => onOrganizeTemplate(template.uuid)}
+                title="Tag & thư mục"
+              >
+                <Tags className="h-4 w-4" />
+              </Button>
+            )}
             {onArchiveTemplate && (
               <Button
                 variant="ghost"
@@ -51,6 +65,7 @@ const TemplateCard: React.FC<TemplateCardProps> = ({
         <p className="text-sm text-gray-500 mb-3 line-clamp-2">
           {template.description || 'No description'}
         </p>
+        <TemplateTagBadges tags={template.tags ?? []} className="mb-3" />
         <div className="text-xs text-gray-400">
           Created: {formatDate(template.createdAt)}
         </div>
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { templateQuickAccessQueryKey } from './template-organize-dialog';
+
+interface TemplateFavoriteButtonProps {
+  templateUuid: string;
+  favorite: boolean;
+  className?: string;
+}
+
+/**
+ * Star toggling a template in the current user's favourites.
+ */
+const TemplateFavoriteButton: React.FC<TemplateFavoriteButtonProps> = ({ templateUuid, favorite, className }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const favoriteMutation = useMutation({
+    mutationFn: async (next: boolean) => {
+      const res = await apiRequest(next ? 'PUT' : 'DELETE', `/api/templates/${templateUuid}/favorite`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      queryClient.invalidateQueries({ queryKey: templateQuickAccessQueryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Lỗi', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className={`h-7 w-7 ${favorite ? 'text-amber-500 hover:text-amber-600' : 'text-gray-400 hover:text-amber-500'} hover:bg-amber-50 ${className ?? ''}`}
+      onClick={() => favoriteMutation.mutate(!favorite)}
+      disabled={favoriteMutation.isPending}
+      title={favorite ? 'Bỏ yêu thích' : 'Yêu thích'}
+    >
+      <Star className="h-4 w-4" fill={favorite ? 'currentColor' : 'none'} />
+    </Button>
+  );
+};
+
+export default TemplateFavoriteButton;
@@ -3,6 +3,7 @@ import { Search, Grid, List } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
+import { TemplateCategorySelectItems, useTemplateCategories } from '@/components/common/template-category';
 
 interface TemplateFiltersProps {
   onSearch: (query: string) => void;
@@ -20,6 +21,7 @@ const TemplateFilters: React.FC<TemplateFiltersProps> = ({
   viewMode,
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const { categories } = useTemplateCategories();
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const query = e.target.value;
@@ -50,11 +52,7 @@ const TemplateFilters: React.FC<TemplateFiltersProps> = ({
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Categories</SelectItem>
-            <SelectItem value="legal">Legal</SelectItem>
-            <SelectItem value="financial">Financial</SelectItem>
-            <SelectItem value="hr">HR</SelectItem>
-            <SelectItem value="marketing">Marketing</SelectItem>
-            <SelectItem value="other">Other</SelectItem>
+            <TemplateCategorySelectItems categories={categories} />
           </SelectContent>
         </Select>
         
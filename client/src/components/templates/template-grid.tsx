@@ -3,7 +3,7 @@ import TemplateCard from './template-card';
 import { Template } from '@shared/schema';
 
 interface TemplateGridProps {
-  templates: Template[];
+  templates: Array<Template & { favorite?: boolean }>;
   onUseTemplate: (templateUuid: string) => void;
   onPreviewTemplate: (templateUuid: string) => void;
   onEditTemplate?: (templateUuid: string) => void;
@@ -12,6 +12,7 @@ interface TemplateGridProps {
   onExportExcel?: (templateUuid: string) => void;
   onBatchCreate?: (templateUuid: string) => void;
   onArchiveTemplate?: (templateUuid: string) => void;
+  onOrganizeTemplate?: (templateUuid: string) => void;
 }
 
 const TemplateGrid: React.FC<TemplateGridProps> = ({
@@ -24,6 +25,7 @@ const TemplateGrid: React.FC<TemplateGridProps> = ({
   onExportExcel,
   onBatchCreate,
   onArchiveTemplate,
+  onOrganizeTemplate,
 }) => {
   if (templates.length === 0) {
     return (
@@ -48,6 +50,7 @@ const TemplateGrid: React.FC<TemplateGridProps> = ({
           onExportExcel={onExportExcel}
           onBatchCreate={onBatchCreate}
           onArchiveTemplate={onArchiveTemplate}
+          onOrganizeTemplate={onOrganizeTemplate}
         />
       ))}
     </div>
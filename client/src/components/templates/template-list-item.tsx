@@ -1,7 +1,9 @@
 import React from 'react';
-import { MoreVertical, FileText, Eye, FileSpreadsheet, Upload, EyeOff } from 'lucide-react';
+import { MoreVertical, FileText, Eye, FileSpreadsheet, Upload, EyeOff, Tags } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
+import { TemplateCategoryBadge } from '@/components/common/template-category';
+import TemplateFavoriteButton from './template-favorite-button';
+import { TemplateTagBadges } from './template-organize-dialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,7 +16,7 @@ import { formatDate } from '@/lib/utils';
 import { Template } from '@shared/schema';
 
 interface TemplateListItemProps {
-  template: Template;
+  template: Template & { favorite?: boolean };
   onUseTemplate: (templateUuid: string) => void;
   onPreviewTemplate: (templateUuid: string) => void;
   onEditTemplate?: (templateUuid: string) => void;
@@ -23,6 +25,7 @@ interface TemplateListItemProps {
   onExportExcel?: (templateUuid: string) => void;
   onBatchCreate?: (templateUuid: string) => void;
   onArchiveTemplate?: (templateUuid: string) => void;
+  onOrganizeTemplate?: (templateUuid: string) => void;
 }
 
 const TemplateListItem: React.FC<TemplateListItemProps> = ({
@@ -35,6 +38,7 @@ const TemplateListItem: React.FC<TemplateListItemProps> = ({
   onExportExcel,
   onBatchCreate,
   onArchiveTemplate,
+  onOrganizeTemplate,
 }) => {
   return (
     <li className="px-6 py-4 flex items-center">
@@ -46,11 +50,11 @@ const TemplateListItem: React.FC<TemplateListItemProps> = ({
           <div>
             <div className="flex items-center">
               <p className="text-sm font-medium text-primary truncate">{template.name}</p>
-              <Badge variant={template.category as any} className="ml-2">
-                {template.category.charAt(0).toUpperCase() + template.category.slice(1)}
-              </Badge>
+              <TemplateCategoryBadge category={template.category} className="ml-2" />
+              <TemplateFavoriteButton templateUuid={template.uuid} favorite={!!template.favorite} className="ml-1" />
             </div>
             <p className="mt-1 text-sm text-gray-500 truncate">{template.description}</p>
+            <TemplateTagBadges tags={template.tags ?? []} className="mt-1" />
           </div>
         </div>
       </div>
@@ -95,10 +99,16 @@ const TemplateListItem: React.FC<TemplateListItemProps> = ({
                 </DropdownMenuItem>
               )}
             </DropdownMenuGroup>
-            {(onExportExcel || onBatchCreate) && (onArchiveTemplate || onEditTemplate || onDuplicateTemplate) && (
+            {(onExportExcel || onBatchCreate) && (onOrganizeTemplate || onArchiveTemplate || onEditTemplate || onDuplicateTemplate) && (
               <DropdownMenuSeparator />
             )}
             <DropdownMenuGroup>
+              {onOrganizeTemplate && (
+                <DropdownMenuItem onClick={() => onOrganizeTemplate(template.uuid)} className="flex items-center gap-2">
+                  <Tags className="h-4 w-4" />
+                  Tag & thư mục
+                </DropdownMenuItem>
+              )}
               {onArchiveTemplate && (
                 <DropdownMenuItem onClick={() => onArchiveTemplate(template.uuid)} className="flex items-center gap-2 text-orange-600 focus:text-orange-500">
                   <EyeOff className="h-4 w-4" />
@@ -3,7 +3,7 @@ import TemplateListItem from './template-list-item';
 import { Template } from '@shared/schema';
 
 interface TemplateListProps {
-  templates: Template[];
+  templates: Array<Template & { favorite?: boolean }>;
   onUseTemplate: (templateUuid: string) => void;
   onPreviewTemplate: (templateUuid: string) => void;
   onEditTemplate?: (templateUuid: string) => void;
@@ -12,6 +12,7 @@ interface TemplateListProps {
   onExportExcel?: (templateUuid: string) => void;
   onBatchCreate?: (templateUuid: string) => void;
   onArchiveTemplate?: (templateUuid: string) => void;
+  onOrganizeTemplate?: (templateUuid: string) => void;
 }
 
 const TemplateList: React.FC<TemplateListProps> = ({
@@ -24,6 +25,7 @@ const TemplateList: React.FC<TemplateListProps> = ({
   onExportExcel,
   onBatchCreate,
   onArchiveTemplate,
+  onOrganizeTemplate,
 }) => {
   if (templates.length === 0) {
     return (
@@ -49,6 +51,7 @@ const TemplateList: React.FC<TemplateListProps> = ({
             onExportExcel={onExportExcel}
             onBatchCreate={onBatchCreate}
             onArchiveTemplate={onArchiveTemplate}
+            onOrganizeTemplate={onOrganizeTemplate}
           />
         ))}
       </ul>
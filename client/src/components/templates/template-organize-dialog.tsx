@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { FolderPlus, Loader2, Tag, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { TemplateFolder } from '@shared/schema';
+import { MAX_TEMPLATE_TAGS, normalizeTemplateTags, validateTemplateTags } from '@shared/template-organization';
+
+/** Item of GET /api/template-folders */
+export type TemplateFolderWithTemplates = TemplateFolder & { templateUuids: string[] };
+
+export const templateTagsQueryKey = ['/api/template-tags'];
+export const templateFoldersQueryKey = ['/api/template-folders'];
+export const templateQuickAccessQueryKey = ['/api/templates/quick-access'];
+
+export function TemplateTagBadges({ tags, className }: { tags: string[]; className?: string }) {
+  if (tags.length === 0) return null;
+  return (
+    <div className={`flex flex-wrap gap-1 ${className ?? ''}`}>
+      {tags.map(tag => (
+        <Badge key={tag} variant="secondary" className="text-xs font-normal gap-1">
+          <Tag className="h-3 w-3" />
+          {tag}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+interface TemplateOrganizeDialogProps {
+  template: { uuid: string; name: string; tags: string[] } | null;
+  onClose: () => void;
+}
+
+/**
+ * Tags (shared with everyone) and personal folders of a template.
+ * Folder changes apply immediately; tags are saved with the Save button.
+ */
+const TemplateOrganizeDialog: React.FC<TemplateOrganizeDialogProps> = ({ template, onClose }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [newFolderName, setNewFolderName] = useState('');
+
+  // Reset when another template is opened (not when the list refetches after a folder change)
+  useEffect(() => {
+    setTags(template?.tags ?? []);
+    setTagInput('');
+    setNewFolderName('');
+  }, [template?.uuid]);
+
+  const { data: tagSuggestions = [] } = useQuery<Array<{ tag: string; count: number }>>({
+    queryKey: templateTagsQueryKey,
+    enabled: !!template,
+  });
+  const { data: folders = [], isLoading: isLoadingFolders } = useQuery<TemplateFolderWithTemplates[]>({
+    queryKey: templateFoldersQueryKey,
+    enabled: !!template,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Lỗi', description: error.message, variant: 'destructive' });
+  };
+
+  const saveTagsMutation = useMutation({
+    mutationFn: async (nextTags: string[]) => {
+      const res = await apiRequest('PUT', `/api/templates/${template!.uuid}/tags`, { tags: nextTags });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      queryClient.invalidateQueries({ queryKey: templateTagsQueryKey });
+      toast({ title: 'Thành công', description: 'Đã lưu tag' });
+      onClose();
+    },
+    onError,
+  });
+
+  const folderMutation = useMutation({
+    mutationFn: async ({ folderId, filed }: { folderId: string; filed: boolean }) => {
+      const res = await apiRequest(filed ? 'PUT' : 'DELETE', `/api/template-folders/${folderId}/templates/${template!.uuid}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templateFoldersQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+    },
+    onError,
+  });
+
+  const createFolderMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest('POST', '/api/template-folders', { name });
+      const folder: TemplateFolderWithTemplates = await res.json();
+      await apiRequest('PUT', `/api/template-folders/${folder.id}/templates/${template!.uuid}`);
+      return folder;
+    },
+    onSuccess: () => {
+      setNewFolderName('');
+      queryClient.invalidateQueries({ queryKey: templateFoldersQueryKey });
+    },
+    onError,
+  });
+
+  const deleteFolderMutation = useMutation({
+    mutationFn: async (folderId: string) => {
+      const res = await apiRequest('DELETE', `/api/template-folders/${folderId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templateFoldersQueryKey });
+    },
+    onError,
+  });
+
+  const addTag = (value: string) => {
+    const next = normalizeTemplateTags([...tags, ...value.split(',')]);
+    setTags(next);
+    setTagInput('');
+  };
+
+  const tagsError = validateTemplateTags(tags);
+  const suggestions = tagSuggestions
+    .filter(({ tag }) => !tags.includes(tag) && (!tagInput || tag.includes(tagInput.trim().toLowerCase())))
+    .slice(0, 8);
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Sắp xếp template</DialogTitle>
+          <DialogDescription className="truncate">{template?.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="template-tag-input">Tags</Label>
+            <div className="flex flex-wrap gap-1 min-h-[28px]">
+              {tags.map(tag => (
+                <Badge key={tag} variant="secondary" className="gap-1">
+                  {tag}
+                  <button type="button" onClick={() => setTags(tags.filter(t => t !== tag))} className="hover:text-red-500">
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            <Input
+              id="template-tag-input"
+              value={tagInput}
+              placeholder={`Thêm tag (tối đa ${MAX_TEMPLATE_TAGS}), Enter để thêm`}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && tagInput.trim()) {
+                  e.preventDefault();
+                  addTag(tagInput);
+                }
+              }}
+            />
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map(({ tag, count }) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => addTag(tag)}
+                    className="text-xs px-2 py-0.5 rounded border border-dashed border-gray-300 text-gray-600 hover:bg-gray-50"
+                  >
+                    + {tag} <span className="text-gray-400">({count})</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {tagsError && <p className="text-xs text-red-600">{tagsError}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Thư mục của tôi</Label>
+            {isLoadingFolders ? (
+              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+            ) : folders.length === 0 ? (
+              <p className="text-xs text-gray-500">Chưa có thư mục nào.</p>
+            ) : (
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {folders.map(folder => (
+                  <div key={folder.id} className="flex items-center justify-between group">
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={!!template && folder.templateUuids.includes(template.uuid)}
+                        disabled={folderMutation.isPending}
+                        onCheckedChange={(checked) => folderMutation.mutate({ folderId: folder.id, filed: checked === true })}
+                      />
+                      {folder.name}
+                      <span className="text-xs text-gray-400">({folder.templateUuids.length})</span>
+                    </label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                      disabled={deleteFolderMutation.isPending}
+                      onClick={() => {
+                        if (confirm(`Xóa thư mục "${folder.name}"? Các template trong thư mục không bị xóa.`)) {
+                          deleteFolderMutation.mutate(folder.id);
+                        }
+                      }}
+                      title="Xóa thư mục"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Input
+                value={newFolderName}
+                placeholder="Thư mục mới"
+                onChange={(e) => setNewFolderName(e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                className="gap-1"
+                disabled={!newFolderName.trim() || createFolderMutation.isPending}
+                onClick={() => createFolderMutation.mutate(newFolderName.trim())}
+              >
+                <FolderPlus className="h-4 w-4" />
+                Tạo
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Đóng</Button>
+          <Button
+            onClick={() => saveTagsMutation.mutate(tags)}
+            disabled={!!tagsError || saveTagsMutation.isPending}
+          >
+            {saveTagsMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Lưu tag
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateOrganizeDialog;
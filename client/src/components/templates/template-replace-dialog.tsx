@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, Loader2, Minus, Plus } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { TemplateVersionDiff, TemplateElementDiff } from '@shared/schema';
+
+/** Response of PUT /api/templates/:uuid/file with dryRun=true */
+export interface TemplateReplacePreview {
+  currentVersion: number;
+  nextVersion: number;
+  hasChanges: boolean;
+  diff: TemplateVersionDiff;
+  documentCount: number;
+}
+
+interface TemplateReplaceDialogProps {
+  isOpen: boolean;
+  fileName: string;
+  preview: TemplateReplacePreview | null;
+  isSubmitting: boolean;
+  onClose: () => void;
+  onConfirm: (fieldMapping: Record<string, string>, migrateDocuments: boolean) => void;
+}
+
+const KEEP_REMOVED = '__removed__';
+
+const SECTIONS: Array<{ key: keyof TemplateVersionDiff; label: string }> = [
+  { key: 'fields', label: 'Fields' },
+  { key: 'tables', label: 'Tables' },
+  { key: 'blocks', label: 'Chorus blocks' },
+];
+
+/**
+ * Confirm a template file replacement: shows what changed between the current version
+ * and the new file, lets the user map removed names onto added ones (renames)
+ * and choose whether existing documents move to the new version.
+ */
+const TemplateReplaceDialog: React.FC<TemplateReplaceDialogProps> = ({
+  isOpen,
+  fileName,
+  preview,
+  isSubmitting,
+  onClose,
+  onConfirm,
+}) => {
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [migrate, setMigrate] = useState(false);
+
+  useEffect(() => {
+    setMapping({});
+    setMigrate(false);
+  }, [preview]);
+
+  if (!preview) return null;
+
+  const mappedTargets = new Set(Object.values(mapping));
+
+  const renderSection = (label: string, diff: TemplateElementDiff) => {
+    if (diff.added.length === 0 && diff.removed.length === 0) return null;
+
+    return (
+      <div key={label} className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">{label}</p>
+        {diff.removed.map(name => (
+          <div key={`removed-${name}`} className="flex items-center gap-2">
+            <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200 flex items-center gap-1 shrink-0">
+              <Minus className="h-3 w-3" />
+              {name}
+            </Badge>
+            <ArrowRight className="h-4 w-4 text-gray-400 shrink-0" />
+            <Select
+              value={mapping[name] ?? KEEP_REMOVED}
+              onValueChange={(value) => {
+                setMapping(prev => {
+                  const next = { ...prev };
+                  if (value === KEEP_REMOVED) {
+                    delete next[name];
+                  } else {
+                    next[name] = value;
+                  }
+                  return next;
+                });
+              }}
+              disabled={diff.added.length === 0}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP_REMOVED}>Removed (drop existing values)</SelectItem>
+                {diff.added.map(target => (
+                  <SelectItem
+                    key={target}
+                    value={target}
+                    disabled={mappedTargets.has(target) && mapping[name] !== target}
+                  >
+                    Renamed to {target}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+        {diff.added.filter(name => !mappedTargets.has(name)).length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {diff.added.filter(name => !mappedTargets.has(name)).map(name => (
+              <Badge key={`added-${name}`} variant="outline" className="bg-green-50 text-green-700 border-green-200 flex items-center gap-1">
+                <Plus className="h-3 w-3" />
+                {name}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Replace template file</DialogTitle>
+          <DialogDescription>
+            {fileName} will become version {preview.nextVersion}. Version {preview.currentVersion} is kept in the history.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview.hasChanges ? (
+          <ScrollArea className="max-h-[50vh] pr-3">
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Map each removed name to a new one to keep existing values, or leave it as removed.
+              </p>
+              {SECTIONS.map(section => renderSection(section.label, preview.diff[section.key]))}
+            </div>
+          </ScrollArea>
+        ) : (
+          <p className="text-sm text-gray-600">
+            The new file has the same fields, tables and chorus blocks as the current version.
+          </p>
+        )}
+
+        {preview.documentCount > 0 && (
+          <div className="flex items-start gap-2 rounded-md border bg-gray-50 p-3">
+            <Checkbox
+              id="migrate-documents"
+              checked={migrate}
+              onCheckedChange={(checked) => setMigrate(checked === true)}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="migrate-documents" className="text-sm font-medium">
+                Migrate {preview.documentCount} existing document(s) to version {preview.nextVersion}
+              </Label>
+              <p className="text-xs text-gray-500">
+                Otherwise they stay on their current version and keep rendering with the old file.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(mapping, migrate)} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Replace file
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateReplaceDialog;
@@ -9,7 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Select, SelectContent, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TemplateCategorySelectItems, templateCategoriesQueryKey, useTemplateCategories } from '@/components/common/template-category';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import Draggable from 'react-draggable';
@@ -21,7 +22,7 @@ interface UploadTemplateModalProps {
 
 const formSchema = z.object({
   name: z.string().min(1, "Template name is required"),
-  category: z.enum(["legal", "financial", "hr", "marketing", "other"]),
+  category: z.string().min(1, "Category is required"),
   description: z.string().optional(),
   file: z.instanceof(File).refine((file) => {
     return file.size <= 10 * 1024 * 1024; // 10MB
@@ -41,6 +42,7 @@ const UploadTemplateModal: React.FC<UploadTemplateModalProps> = ({
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const nodeRef = useRef(null);
+  const { categories } = useTemplateCategories();
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -89,6 +91,7 @@ const UploadTemplateModal: React.FC<UploadTemplateModalProps> = ({
       
       // Invalidate templates query to refresh the list
       queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      queryClient.invalidateQueries({ queryKey: templateCategoriesQueryKey });
       
       // Reset form and close modal
       form.reset();
@@ -176,11 +179,7 @@ const UploadTemplateModal: React.FC<UploadTemplateModalProps> = ({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="legal">Legal</SelectItem>
-                        <SelectItem value="financial">Financial</SelectItem>
-                        <SelectItem value="hr">HR</SelectItem>
-                        <SelectItem value="marketing">Marketing</SelectItem>
-                        <SelectItem value="other">Other</SelectItem>
+                        <TemplateCategorySelectItems categories={categories} />
                       </SelectContent>
                     </Select>
                     <FormMessage className="text-xs text-red-500" />
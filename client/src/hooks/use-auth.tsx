@@ -2,19 +2,27 @@ import { createContext, ReactNode, useContext } from "react";
 import {
   useQuery,
   useMutation,
+  useQueryClient,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { User, InsertUser } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { User as SelectUser, InsertUser, UserRole } from "@shared/schema";
+import { getQueryFn, apiRequest } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+/** The API never sends the password hash */
+type User = Omit<SelectUser, "password">;
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 1, editor: 2, admin: 3 };
+
 type AuthContextType = {
   user: User | null;
+  /** Whether the current user has at least the given global role */
+  hasRole: (role: UserRole) => boolean;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<Omit<User, "password">, Error, LoginData>;
+  loginMutation: UseMutationResult<User, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<Omit<User, "password">, Error, InsertUser>;
+  registerMutation: UseMutationResult<User, Error, InsertUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
@@ -23,11 +31,12 @@ export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const {
     data: user,
     error,
     isLoading,
-  } = useQuery<User | undefined, Error>({
+  } = useQuery<User | null, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
@@ -80,6 +89,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onSuccess: () => {
       queryClient.setQueryData(["/api/user"], null);
+      // Cached data belongs to the previous user
+      queryClient.removeQueries({ predicate: query => query.queryKey[0] !== "/api/user" });
       toast({
         title: "Logged out",
         description: "You have been successfully logged out.",
@@ -98,6 +109,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     <AuthContext.Provider
       value={{
         user: user ?? null,
+        hasRole: (role: UserRole) => !!user && ROLE_RANK[user.role] >= ROLE_RANK[role],
         isLoading,
         error,
         loginMutation,
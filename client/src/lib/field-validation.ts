@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import type { UseFormReturn } from 'react-hook-form';
+import type { TemplateField } from '@shared/schema';
+import { validateFieldValue } from '@shared/field-validation';
+
+export type FieldInputType = 'text' | 'textarea' | 'number' | 'date' | 'email' | 'image';
+
+/**
+ * Input to render for a template field. Types declared in the placeholder
+ * ({{so_tien:number}}) are stored in fieldType; older fields only have `type`.
+ */
+export function getFieldInputType(field: TemplateField): FieldInputType {
+  const declared = field.fieldType;
+  if (declared === 'number' || declared === 'date' || declared === 'email' || declared === 'textarea' || declared === 'image') {
+    return declared;
+  }
+  const legacy = field.type;
+  if (legacy === 'number' || legacy === 'date' || legacy === 'email' || legacy === 'textarea') {
+    return legacy;
+  }
+  return 'text';
+}
+
+/**
+ * Extra input attributes derived from the field's constraints (min/max, maxLength).
+ */
+export function getFieldInputProps(field: TemplateField): Record<string, string | number> {
+  const validation = field.validation ?? {};
+  const props: Record<string, string | number> = {};
+  if (validation.min !== undefined) props.min = validation.min;
+  if (validation.max !== undefined) props.max = validation.max;
+  if (validation.integer) props.step = 1;
+  if (validation.maxLength !== undefined) props.maxLength = validation.maxLength;
+  return props;
+}
+
+/**
+ * Zod schema for a non-checklist field: required check plus the typed constraints
+ * shared with the server (shared/field-validation.ts).
+ */
+export function buildFieldSchema(field: TemplateField): z.ZodTypeAny {
+  const base = field.required
+    ? z.string({ required_error: `${field.name} is required` }).min(1, `${field.name} is required`)
+    : z.string().optional();
+
+  return base.superRefine((value, ctx) => {
+    const message = validateFieldValue(field, value);
+    if (message) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
+}
+
+/**
+ * Show per-field errors returned by the server ({ fieldErrors: { name: message } }) on the form.
+ * Returns true when there were any.
+ */
+export function applyServerFieldErrors(form: UseFormReturn<any>, result: any): boolean {
+  const fieldErrors: Record<string, string> | undefined = result?.fieldErrors;
+  if (!fieldErrors || Object.keys(fieldErrors).length === 0) return false;
+  for (const [name, message] of Object.entries(fieldErrors)) {
+    form.setError(name, { type: 'server', message });
+  }
+  return true;
+}
@@ -29,21 +29,6 @@ export function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
-export function getCategoryColor(category: string): string {
-  switch (category.toLowerCase()) {
-    case 'legal':
-      return 'bg-green-100 text-green-800';
-    case 'financial':
-      return 'bg-yellow-100 text-yellow-800';
-    case 'hr':
-      return 'bg-purple-100 text-purple-800';
-    case 'marketing':
-      return 'bg-pink-100 text-pink-800';
-    default:
-      return 'bg-gray-100 text-gray-800';
-  }
-}
-
 export function extractPlaceholders(text: string): string[] {
   const regex = /{{([^{}]+)}}/g;
   const placeholders: string[] = [];
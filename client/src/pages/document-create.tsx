@@ -1,9 +1,11 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useLocation, useRoute } from 'wouter';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { Save, SplitSquareVertical, AlertCircle, Loader2, GripVertical, RotateCcw, AlignLeft, Minus, RefreshCw, Edit3, Eye, Table2, Layers, Download, Upload } from 'lucide-react';
+import { Save, SplitSquareVertical, AlertCircle, Loader2, GripVertical, RotateCcw, AlignLeft, Minus, RefreshCw, Edit3, Eye, Table2, Layers, Download, Upload, Contact } from 'lucide-react';
 import { TableDataDialog } from '@/components/table-data-dialog';
 import { ChorusBlockSection } from '@/components/chorus-block-section';
+import { ImageFieldInput } from '@/components/common/image-field-input';
+import { FillFromRecordDialog } from '@/components/documents/fill-from-record-dialog';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -18,9 +20,13 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Skeleton } from '@/components/ui/skeleton';
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbSeparator } from '@/components/ui/breadcrumb';
 import { useToast } from '@/hooks/use-toast';
-import { Template, TemplateField } from '@shared/schema';
+import { MasterDataRecord, Template, TemplateField } from '@shared/schema';
 import { InteractivePreview, RenderMode } from '@/components/interactive-preview';
 import { getFieldStatus, getFieldColorClasses } from '@/lib/field-state';
+import { getFieldInputType, getFieldInputProps, buildFieldSchema, applyServerFieldErrors } from '@/lib/field-validation';
+import { evaluateComputedFields } from '@shared/computed-fields';
+import { splitChecklistValue } from '@shared/checklist';
+import type { RecordFieldMapping } from '@shared/master-data';
 
 const DocumentCreatePage = () => {
   const { toast } = useToast();
@@ -42,6 +48,9 @@ const DocumentCreatePage = () => {
   const [localBlockData, setLocalBlockData] = useState<Record<string, Array<Record<string, string>>>>({});
   const [blockImporting, setBlockImporting] = useState<Record<string, boolean>>({});
   const [openTableDialog, setOpenTableDialog] = useState<string | null>(null);
+  const [recordDialogOpen, setRecordDialogOpen] = useState(false);
+  // Records the form was filled from, sent on save so the document keeps the links
+  const [recordLinks, setRecordLinks] = useState<Array<{ recordId: string; recordName: string; mapping: RecordFieldMapping }>>([]);
   const formRef = useRef<HTMLFormElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const blockFileInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
@@ -122,19 +131,15 @@ const DocumentCreatePage = () => {
         name: z.string().min(1, "Document name is required"),
       };
       fields.forEach(field => {
-        // row_group fields are handled via TableDataDialog — skip form validation
-        if (field.fieldType === 'row_group') return;
+        // row_group fields are handled via TableDataDialog, computed and numbered fields are read-only — skip form validation
+        if (field.fieldType === 'row_group' || field.expression || field.numberingSequenceId) return;
         const isChecklist = field.fieldType === 'checklist';
         if (isChecklist) {
           schemaFields[field.name] = field.required 
             ? z.array(z.string()).min(1, `${field.name} is required`)
             : z.array(z.string()).optional();
-        } else if (field.required) {
-          schemaFields[field.name] = field.type === 'number' 
-            ? z.coerce.number({ required_error: `${field.name} is required` })
-            : z.string({ required_error: `${field.name} is required` }).min(1, `${field.name} is required`);
         } else {
-          schemaFields[field.name] = field.type === 'number' ? z.coerce.number().optional() : z.string().optional();
+          schemaFields[field.name] = buildFieldSchema(field);
         }
       });
       setFormSchema(z.object(schemaFields));
@@ -146,8 +151,8 @@ const DocumentCreatePage = () => {
       const defaultValues = createEmptyDefaults(template.name);
       if (fields && fields.length > 0) {
         fields.forEach(field => {
-          // row_group fields are not in the form
-          if (field.fieldType === 'row_group') return;
+          // row_group and computed fields are not in the form
+          if (field.fieldType === 'row_group' || field.expression) return;
           const isChecklist = field.fieldType === 'checklist';
           if (isChecklist) {
             if (field.defaultValue) {
@@ -217,6 +222,7 @@ const DocumentCreatePage = () => {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           templateUuid, name: currentValues.name || 'New Document', fields: formFields,
+          tableData: localTableData, blockData: localBlockData,
         }),
       });
       if (!response.ok) throw new Error('Failed to generate document preview');
@@ -258,8 +264,12 @@ const DocumentCreatePage = () => {
       const isChecklist = field.fieldType === 'checklist';
       result[field.name] = isChecklist ? formatChecklistValue(value) : String(value || '');
     });
-    return result;
-  }, [fields, form]);
+    return { ...result, ...evaluateComputedFields(fields || [], result, { ...localBlockData, ...localTableData }) };
+  }, [fields, form, localTableData, localBlockData]);
+
+  // Live values of computed fields ({{tong_tien:=...}}); the server recalculates them on save
+  form.watch();
+  const computedValues = getInteractiveFieldValues();
 
   const onSubmit = async (data: any) => {
     if (!templateUuid) return;
@@ -288,10 +298,18 @@ const DocumentCreatePage = () => {
       const response = await fetch('/api/documents', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ templateUuid, name: data.name, fields: formFields, tableData, blockData }),
+        body: JSON.stringify({
+          templateUuid, name: data.name, fields: formFields, tableData, blockData,
+          recordLinks: recordLinks.map(({ recordId, mapping }) => ({ recordId, mapping })),
+        }),
       });
-      if (!response.ok) throw new Error('Failed to create document');
       const savedDocument = await response.json();
+      if (!response.ok) {
+        if (applyServerFieldErrors(form, savedDocument)) {
+          throw new Error('Some fields have invalid values');
+        }
+        throw new Error(savedDocument.message || 'Failed to create document');
+      }
       toast({ title: "Success", description: "Document created and saved!" });
       queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
       setLocation(`/document-preview/${savedDocument.uuid || savedDocument.id}`);
@@ -340,6 +358,21 @@ const DocumentCreatePage = () => {
     }
   };
 
+  const handleFillFromRecord = (record: MasterDataRecord, mapping: RecordFieldMapping, values: Record<string, string>) => {
+    Object.entries(values).forEach(([fieldName, value]) => {
+      const field = fields?.find(f => f.name === fieldName);
+      form.setValue(fieldName, field?.fieldType === 'checklist' ? splitChecklistValue(value) : value, {
+        shouldDirty: true,
+        shouldValidate: true,
+      });
+    });
+    setRecordLinks(prev => [
+      ...prev.filter(link => link.recordId !== record.id),
+      { recordId: record.id, recordName: record.name, mapping },
+    ]);
+    toast({ title: 'Filled from record', description: `${Object.keys(values).length} field(s) filled from "${record.name}".` });
+  };
+
   const handleResetToDefault = (fieldName: string, defaultValue: string | undefined, isChecklist: boolean) => {
     if (isChecklist) {
       form.setValue(fieldName, defaultValue ? [defaultValue] : []);
@@ -393,6 +426,36 @@ const DocumentCreatePage = () => {
         );
       }
 
+      // Computed fields are shown read-only with their live value
+      if (field.expression) {
+        return (
+          <div key={field.uuid} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">{field.name}</span>
+              <Badge variant="secondary" className="text-xs bg-amber-100 text-amber-700" title={field.expression}>
+                tự tính
+              </Badge>
+            </div>
+            <Input value={computedValues[field.name] || ''} readOnly tabIndex={-1} className="bg-gray-50 text-gray-700" />
+          </div>
+        );
+      }
+
+      // Document numbers are allocated by the server (numbering sequences)
+      if (field.numberingSequenceId) {
+        return (
+          <div key={field.uuid} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">{field.name}</span>
+              <Badge variant="secondary" className="text-xs bg-indigo-100 text-indigo-700">
+                số tự động
+              </Badge>
+            </div>
+            <Input value="" placeholder="Cấp tự động" readOnly tabIndex={-1} className="bg-gray-50 text-gray-700" />
+          </div>
+        );
+      }
+
       const isChecklist = field.fieldType === 'checklist';
       const options = field.options ? JSON.parse(field.options) : [];
       
@@ -408,13 +471,24 @@ const DocumentCreatePage = () => {
             const hasDefault = !!field.defaultValue;
             
             const isMultiline = multilineFields.has(field.name);
-            const showToggle = !isChecklist && field.type !== 'number' && field.type !== 'date' && field.type !== 'email';
+            const inputType = getFieldInputType(field);
+            const inputProps = getFieldInputProps(field);
+            const showToggle = !isChecklist && inputType !== 'number' && inputType !== 'date' && inputType !== 'email' && inputType !== 'image';
             
             return (
               <FormItem>
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <FormLabel>{field.name}</FormLabel>
+                    {field.conditional && (
+                      <Badge
+                        variant="secondary"
+                        className="text-xs bg-purple-100 text-purple-700"
+                        title="Giá trị này quyết định đoạn nào xuất hiện trong văn bản ({{#if ...}})"
+                      >
+                        điều kiện
+                      </Badge>
+                    )}
                     {hasDefault && status === 'default' && (
                       <Badge variant="secondary" className="text-xs bg-blue-100 text-blue-700">mặc định</Badge>
                     )}
@@ -479,23 +553,31 @@ const DocumentCreatePage = () => {
                         })}
                       </div>
                     </div>
-                  ) : field.type === 'textarea' || isMultiline ? (
+                  ) : inputType === 'image' ? (
+                    <ImageFieldInput
+                      value={formField.value || ''}
+                      onChange={formField.onChange}
+                      className={colorClasses}
+                    />
+                  ) : inputType === 'textarea' || isMultiline ? (
                     <Textarea 
                       placeholder={field.placeholder || `Enter ${field.name.toLowerCase()}`} 
                       className={`min-h-[80px] ${colorClasses}`} 
+                      {...inputProps}
                       {...formField} 
                     />
-                  ) : field.type === 'number' ? (
+                  ) : inputType === 'number' ? (
                     <Input 
                       type="number" 
                       placeholder={field.placeholder || `Enter ${field.name.toLowerCase()}`} 
                       className={colorClasses}
+                      {...inputProps}
                       {...formField} 
                       onChange={(e) => formField.onChange(e.target.value === "" ? "" : e.target.value)} 
                     />
-                  ) : field.type === 'date' ? (
-                    <Input type="date" className={colorClasses} {...formField} />
-                  ) : field.type === 'email' ? (
+                  ) : inputType === 'date' ? (
+                    <Input type="date" className={colorClasses} {...inputProps} {...formField} />
+                  ) : inputType === 'email' ? (
                     <Input 
                       type="email" 
                       placeholder={field.placeholder || `Enter ${field.name.toLowerCase()}`} 
@@ -507,6 +589,7 @@ const DocumentCreatePage = () => {
                       type="text" 
                       placeholder={field.placeholder || `Enter ${field.name.toLowerCase()}`} 
                       className={colorClasses}
+                      {...inputProps}
                       {...formField} 
                     />
                   )}
@@ -799,6 +882,17 @@ const DocumentCreatePage = () => {
           )}
         </div>
         <div className="mt-4 md:mt-0 flex items-center gap-3">
+          <Button
+            variant="outline"
+            onClick={() => setRecordDialogOpen(true)}
+            disabled={isLoading || !fields || fields.length === 0}
+            className="gap-2"
+            title={recordLinks.length > 0 ? recordLinks.map(link => link.recordName).join(', ') : undefined}
+          >
+            <Contact className="h-4 w-4" />
+            Fill from record
+            {recordLinks.length > 0 && <Badge variant="secondary">{recordLinks.length}</Badge>}
+          </Button>
           <Button variant="outline" onClick={togglePreview} className="gap-2">
             <SplitSquareVertical className="h-4 w-4" />
             {showPreview ? 'Hide Preview' : 'Show Preview'}
@@ -843,6 +937,13 @@ const DocumentCreatePage = () => {
         </div>
       </div>
 
+      <FillFromRecordDialog
+        open={recordDialogOpen}
+        onOpenChange={setRecordDialogOpen}
+        fields={fields || []}
+        onApply={handleFillFromRecord}
+      />
+
       {/* Table data dialogs for row_group fields (local mode — no documentUuid yet) */}
       {templateUuid && (fields || []).filter(f => f.fieldType === 'row_group').map(field => (
         <TableDataDialog
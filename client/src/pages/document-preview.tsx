@@ -1,10 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { useLocation, useRoute, Link } from 'wouter';
-import { useQuery } from '@tanstack/react-query';
-import { ArrowLeft, Download, FileText, Save, CheckCircle, AlertCircle } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Download, FileText, Save, CheckCircle, AlertCircle, History, GitCompare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DocumentHistoryTimeline, documentHistoryQueryKey } from '@/components/documents/document-history-timeline';
+import { DocumentRevisionsPanel } from '@/components/documents/document-revisions-panel';
+import { DocumentWorkflowActions } from '@/components/documents/document-workflow-actions';
+import { DocumentRecordLinks } from '@/components/documents/document-record-links';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from '@/hooks/use-toast';
 import { formatDate } from '@/lib/utils';
@@ -13,6 +18,7 @@ import { Document } from '@shared/schema';
 
 const DocumentPreviewPage: React.FC = () => {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [isDownloading, setIsDownloading] = useState(false);
   const [location, setLocation] = useLocation();
   const [, params] = useRoute('/document-preview/:id');
@@ -116,6 +122,7 @@ const DocumentPreviewPage: React.FC = () => {
       
       window.URL.revokeObjectURL(url);
       window.document.body.removeChild(a);
+      queryClient.invalidateQueries({ queryKey: documentHistoryQueryKey(documentId) });
       
       toast({
         title: "Success",
@@ -250,71 +257,120 @@ const DocumentPreviewPage: React.FC = () => {
                 </p>
               </div>
             </div>
+            <div className="mt-4 border-t pt-4">
+              <p className="text-sm font-medium text-gray-500 mb-2">Workflow</p>
+              <DocumentWorkflowActions documentUuid={document.uuid} />
+            </div>
+            <DocumentRecordLinks documentUuid={document.uuid} />
           </CardContent>
         </Card>
       )}
       
-      {/* Document preview */}
+      {/* Document preview / history */}
       {!isDocumentError && (
-        <Card className="mb-6 overflow-hidden">
-          <CardHeader className="bg-gray-50 border-b px-6 py-4">
-            <CardTitle className="text-lg font-medium">Document Preview</CardTitle>
-            <CardDescription>
-              Preview how your document will look when downloaded
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="p-0">
-            {isLoading ? (
-              <div className="p-6 space-y-4">
-                <Skeleton className="h-8 w-3/4 mb-4" />
-                <Skeleton className="h-4 w-full" />
-                <Skeleton className="h-4 w-full" />
-                <Skeleton className="h-4 w-3/4" />
-                <Skeleton className="h-20 w-full mt-6" />
-                <Skeleton className="h-4 w-full mt-6" />
-                <Skeleton className="h-4 w-full" />
-                <Skeleton className="h-4 w-2/3" />
-              </div>
-            ) : (
-              <div className="w-full p-4 bg-gray-100 min-h-[70vh]">
-                {isPreviewError ? (
-                  <div className="flex flex-col items-center justify-center p-8">
-                    <AlertCircle className="h-12 w-12 text-yellow-500 mb-4" />
-                    <h3 className="text-lg font-medium mb-2">Preview Unavailable</h3>
-                    <p className="text-gray-500 text-center mb-4">
-                      We couldn't generate a preview for this document. You can still download it to view its contents.
-                    </p>
+        <Tabs defaultValue="preview">
+          <TabsList className="mb-4">
+            <TabsTrigger value="preview" className="flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              Preview
+            </TabsTrigger>
+            <TabsTrigger value="revisions" className="flex items-center gap-2">
+              <GitCompare className="h-4 w-4" />
+              Revisions
+            </TabsTrigger>
+            <TabsTrigger value="history" className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              History
+            </TabsTrigger>
+          </TabsList>
+          <TabsContent value="preview">
+            <Card className="mb-6 overflow-hidden">
+              <CardHeader className="bg-gray-50 border-b px-6 py-4">
+                <CardTitle className="text-lg font-medium">Document Preview</CardTitle>
+                <CardDescription>
+                  Preview how your document will look when downloaded
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {isLoading ? (
+                  <div className="p-6 space-y-4">
+                    <Skeleton className="h-8 w-3/4 mb-4" />
+                    <Skeleton className="h-4 w-full" />
+                    <Skeleton className="h-4 w-full" />
+                    <Skeleton className="h-4 w-3/4" />
+                    <Skeleton className="h-20 w-full mt-6" />
+                    <Skeleton className="h-4 w-full mt-6" />
+                    <Skeleton className="h-4 w-full" />
+                    <Skeleton className="h-4 w-2/3" />
                   </div>
                 ) : (
-                  <div className="w-full max-w-6xl mx-auto">
-                    <div 
-                      className="bg-white border shadow-sm rounded overflow-hidden mx-auto"
-                      style={{
-                        width: 'min(210mm, 100%)',
-                        height: '80vh', // Fixed height for scrolling
-                        padding: '3mm',
-                        boxSizing: 'border-box',
-                        margin: '0 auto',
-                        position: 'relative',
-                        boxShadow: '0 3px 10px rgba(0,0,0,0.1)',
-                      }}
-                    >
-                      <div 
-                        className="document-content h-full overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100"
-                        style={{ 
-                          padding: '0',
-                          lineHeight: '1.6',
-                          fontSize: '14px'
-                        }}
-                        dangerouslySetInnerHTML={{ __html: previewHtml || '' }} 
-                      />
-                    </div>
+                  <div className="w-full p-4 bg-gray-100 min-h-[70vh]">
+                    {isPreviewError ? (
+                      <div className="flex flex-col items-center justify-center p-8">
+                        <AlertCircle className="h-12 w-12 text-yellow-500 mb-4" />
+                        <h3 className="text-lg font-medium mb-2">Preview Unavailable</h3>
+                        <p className="text-gray-500 text-center mb-4">
+                          We couldn't generate a preview for this document. You can still download it to view its contents.
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="w-full max-w-6xl mx-auto">
+                        <div 
+                          className="bg-white border shadow-sm rounded overflow-hidden mx-auto"
+                          style={{
+                            width: 'min(210mm, 100%)',
+                            height: '80vh', // Fixed height for scrolling
+                            padding: '3mm',
+                            boxSizing: 'border-box',
+                            margin: '0 auto',
+                            position: 'relative',
+                            boxShadow: '0 3px 10px rgba(0,0,0,0.1)',
+                          }}
+                        >
+                          <div 
+                            className="document-content h-full overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100"
+                            style={{ 
+                              padding: '0',
+                              lineHeight: '1.6',
+                              fontSize: '14px'
+                            }}
+                            dangerouslySetInnerHTML={{ __html: previewHtml || '' }} 
+                          />
+                        </div>
+                      </div>
+                    )}
                   </div>
                 )}
-              </div>
-            )}
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="revisions">
+            <Card className="mb-6">
+              <CardHeader className="bg-gray-50 border-b px-6 py-4">
+                <CardTitle className="text-lg font-medium">Revisions</CardTitle>
+                <CardDescription>
+                  Every save keeps a snapshot of the fields and tables; compare two or restore an older one
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {documentId && <DocumentRevisionsPanel documentUuid={documentId} />}
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="history">
+            <Card className="mb-6">
+              <CardHeader className="bg-gray-50 border-b px-6 py-4">
+                <CardTitle className="text-lg font-medium">Document History</CardTitle>
+                <CardDescription>
+                  Who created, changed and downloaded this document
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {documentId && <DocumentHistoryTimeline documentUuid={documentId} />}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       )}
     </div>
   );
@@ -1,8 +1,9 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useLocation, useRoute } from 'wouter';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { ArrowLeft, Save, FileText, SplitSquareVertical, AlertCircle, Loader2, GripVertical, RotateCcw, AlignLeft, Minus, RefreshCw, Edit3, Eye, Table2, Layers } from 'lucide-react';
+import { ArrowLeft, Save, FileText, SplitSquareVertical, AlertCircle, Loader2, GripVertical, RotateCcw, AlignLeft, Minus, RefreshCw, Edit3, Eye, Table2, Layers, Lock } from 'lucide-react';
 import { ChorusBlockSection } from '@/components/chorus-block-section';
+import { ImageFieldInput } from '@/components/common/image-field-input';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -20,6 +21,9 @@ import { useToast } from '@/hooks/use-toast';
 import { Document, Template, TemplateField } from '@shared/schema';
 import { InteractivePreview, RenderMode } from '@/components/interactive-preview';
 import { getFieldStatus, getFieldColorClasses } from '@/lib/field-state';
+import { getFieldInputType, getFieldInputProps, buildFieldSchema, applyServerFieldErrors } from '@/lib/field-validation';
+import { evaluateComputedFields } from '@shared/computed-fields';
+import { DOCUMENT_WORKFLOW_LABELS, isWorkflowLocked } from '@shared/document-workflow';
 
 const DocumentUpdatePage = () => {
   const { toast } = useToast();
@@ -69,6 +73,8 @@ const DocumentUpdatePage = () => {
     },
     enabled: !!documentUuid,
   });
+  // Approved / signed / issued documents are read-only (the server rejects edits with 409)
+  const isLocked = !!document && isWorkflowLocked(document.workflowStatus);
 
   // Fetch document fields (already filled values)
   const { data: documentFields, isLoading: documentFieldsLoading } = useQuery<any[]>({
@@ -157,8 +163,8 @@ const DocumentUpdatePage = () => {
       };
       
       templateFields.forEach(field => {
-        // row_group (table) fields are stored in document_table_data — exclude from form schema
-        if (field.fieldType === 'row_group') return;
+        // row_group (table) fields are stored in document_table_data, computed and numbered fields are read-only — exclude from form schema
+        if (field.fieldType === 'row_group' || field.expression || field.numberingSequenceId) return;
 
         const isChecklist = field.fieldType === 'checklist';
         
@@ -166,12 +172,8 @@ const DocumentUpdatePage = () => {
           schemaFields[field.name] = field.required 
             ? z.array(z.string()).min(1, `${field.name} is required`)
             : z.array(z.string()).optional();
-        } else if (field.required) {
-          schemaFields[field.name] = field.type === 'number' 
-            ? z.coerce.number({ required_error: `${field.name} is required` })
-            : z.string({ required_error: `${field.name} is required` }).min(1, `${field.name} is required`);
         } else {
-          schemaFields[field.name] = field.type === 'number' ? z.coerce.number().optional() : z.string().optional();
+          schemaFields[field.name] = buildFieldSchema(field);
         }
       });
       
@@ -296,7 +298,7 @@ const DocumentUpdatePage = () => {
 
   // Autosave function for interactive mode
   const performAutosave = useCallback(async () => {
-    if (!templateId || !documentUuid) return;
+    if (!templateId || !documentUuid || isLocked) return;
     
     try {
       setIsAutosaving(true);
@@ -321,13 +323,16 @@ const DocumentUpdatePage = () => {
       if (response.ok) {
         setLastSavedAt(new Date());
         queryClient.invalidateQueries({ queryKey: ['/api/documents', documentUuid] });
+      } else {
+        // Invalid typed values are not saved — show why next to the fields
+        applyServerFieldErrors(form, await response.json().catch(() => null));
       }
     } catch (error) {
       console.error('Autosave failed:', error);
     } finally {
       setIsAutosaving(false);
     }
-  }, [templateId, documentUuid, form, templateFields, queryClient]);
+  }, [templateId, documentUuid, isLocked, form, templateFields, queryClient]);
 
   // Debounced autosave trigger for interactive mode
   const triggerAutosave = useCallback(() => {
@@ -388,12 +393,21 @@ const DocumentUpdatePage = () => {
       const isChecklist = field.fieldType === 'checklist';
       result[field.name] = isChecklist ? formatChecklistValue(value) : String(value || '');
     });
+    // Table rows live on the table page, so a computed value that needs them keeps the one saved last
+    const computed = evaluateComputedFields(templateFields || [], result);
+    Object.keys(computed).forEach(name => {
+      if (computed[name]) result[name] = computed[name];
+    });
     return result;
   }, [templateFields, form]);
 
+  // Live values of computed fields ({{tong_tien:=...}}); the server recalculates them on save
+  form.watch();
+  const computedValues = getInteractiveFieldValues();
+
   // Handle form submission
   const onSubmit = async (data: any) => {
-    if (!templateId || !documentUuid) return;
+    if (!templateId || !documentUuid || isLocked) return;
     try {
       setIsSubmitting(true);
       const formFields = (templateFields || [])
@@ -411,7 +425,13 @@ const DocumentUpdatePage = () => {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ name: data.name, fields: formFields }),
       });
-      if (!response.ok) throw new Error('Failed to update document');
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        if (applyServerFieldErrors(form, result)) {
+          throw new Error('Some fields have invalid values');
+        }
+        throw new Error(result?.message || 'Failed to update document');
+      }
       toast({ title: "Success", description: "Document updated successfully!" });
       queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
       queryClient.invalidateQueries({ queryKey: ['/api/documents', documentUuid] });
@@ -473,6 +493,52 @@ const DocumentUpdatePage = () => {
         );
       }
 
+      // Computed fields are shown read-only with their live value
+      if (field.expression) {
+        return (
+          <div key={field.uuid} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">{field.name}</span>
+              <Badge variant="secondary" className="text-xs bg-amber-100 text-amber-700" title={field.expression}>
+                tự tính
+              </Badge>
+            </div>
+            <Input value={computedValues[field.name] || ''} readOnly tabIndex={-1} className="bg-gray-50 text-gray-700" />
+          </div>
+        );
+      }
+
+      // Document numbers are allocated by the server and cannot be edited
+      if (field.numberingSequenceId) {
+        return (
+          <FormField
+            key={field.uuid}
+            control={form.control}
+            name={field.name}
+            render={({ field: formField }) => (
+              <FormItem>
+                <div className="flex items-center gap-2">
+                  <FormLabel className="font-medium">{field.name}</FormLabel>
+                  <Badge variant="secondary" className="text-xs bg-indigo-100 text-indigo-700">
+                    số tự động
+                  </Badge>
+                </div>
+                <FormControl>
+                  <Input
+                    {...formField}
+                    value={formField.value || ''}
+                    placeholder="Chưa cấp số"
+                    readOnly
+                    tabIndex={-1}
+                    className="bg-gray-50 text-gray-700"
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        );
+      }
+
       const isChecklist = field.fieldType === 'checklist';
       const options = field.options ? JSON.parse(field.options) : [];
       
@@ -488,13 +554,24 @@ const DocumentUpdatePage = () => {
             const hasDefault = !!field.defaultValue;
             
             const isMultiline = multilineFields.has(field.name);
-            const showToggle = !isChecklist && field.type !== 'number' && field.type !== 'date' && field.type !== 'email';
+            const inputType = getFieldInputType(field);
+            const inputProps = getFieldInputProps(field);
+            const showToggle = !isChecklist && inputType !== 'number' && inputType !== 'date' && inputType !== 'email' && inputType !== 'image';
             
             return (
               <FormItem>
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <FormLabel>{field.name}</FormLabel>
+                    {field.conditional && (
+                      <Badge
+                        variant="secondary"
+                        className="text-xs bg-purple-100 text-purple-700"
+                        title="Giá trị này quyết định đoạn nào xuất hiện trong văn bản ({{#if ...}})"
+                      >
+                        điều kiện
+                      </Badge>
+                    )}
                     {hasDefault && status === 'default' && (
                       <Badge variant="secondary" className="text-xs bg-blue-100 text-blue-700">mặc định</Badge>
                     )}
@@ -559,23 +636,31 @@ const DocumentUpdatePage = () => {
                         })}
                       </div>
                     </div>
-                  ) : field.type === 'textarea' || isMultiline ? (
+                  ) : inputType === 'image' ? (
+                    <ImageFieldInput
+                      value={formField.value || ''}
+                      onChange={formField.onChange}
+                      className={colorClasses}
+                    />
+                  ) : inputType === 'textarea' || isMultiline ? (
                     <Textarea 
                       placeholder={field.placeholder || `Enter ${field.name.toLowerCase()}`} 
                       className={`min-h-[80px] ${colorClasses}`} 
+                      {...inputProps}
                       {...formField} 
                     />
-                  ) : field.type === 'number' ? (
+                  ) : inputType === 'number' ? (
                     <Input 
                       type="number" 
                       placeholder={field.placeholder || `Enter ${field.name.toLowerCase()}`} 
                       className={colorClasses}
+                      {...inputProps}
                       {...formField} 
                       onChange={(e) => formField.onChange(e.target.value === "" ? "" : e.target.value)} 
                     />
-                  ) : field.type === 'date' ? (
-                    <Input type="date" className={colorClasses} {...formField} />
-                  ) : field.type === 'email' ? (
+                  ) : inputType === 'date' ? (
+                    <Input type="date" className={colorClasses} {...inputProps} {...formField} />
+                  ) : inputType === 'email' ? (
                     <Input 
                       type="email" 
                       placeholder={field.placeholder || `Enter ${field.name.toLowerCase()}`} 
@@ -587,6 +672,7 @@ const DocumentUpdatePage = () => {
                       type="text" 
                       placeholder={field.placeholder || `Enter ${field.name.toLowerCase()}`} 
                       className={colorClasses}
+                      {...inputProps}
                       {...formField} 
                     />
                   )}
@@ -610,55 +696,65 @@ const DocumentUpdatePage = () => {
         <form onSubmit={form.handleSubmit(onSubmit)} ref={formRef} className="flex-1 flex flex-col overflow-hidden">
           <CardContent className="flex-1 overflow-hidden p-0">
             <div ref={scrollContainerRef} className="h-full overflow-auto space-y-4 p-6 pt-0" style={{ overflowAnchor: 'none' }}>
-              <FormField
-                control={form.control}
-                name="name"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="font-medium">Document Name</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter document name" className="w-full" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <div className="border rounded-md p-4">
-                <h3 className="font-medium text-sm mb-3 text-gray-500">Template Fields</h3>
-                <div className="space-y-4">{renderFormFields()}</div>
-              </div>
-              {blockDefs.length > 0 && (
-                <div className="border border-purple-200 rounded-md p-4 bg-purple-50/30">
-                  <h3 className="font-medium text-sm mb-3 text-purple-700 flex items-center gap-2">
-                    <Layers className="h-4 w-4" />
-                    Chorus Blocks
-                  </h3>
-                  <div className="space-y-3">
-                    {blockDefs.map((block: any) => (
-                      <div key={block.name} className="border border-purple-200 rounded-md p-3 bg-white">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <Layers className="h-4 w-4 text-purple-600" />
-                            <span className="text-sm font-medium text-purple-900">
-                              {block.label || block.name}
-                            </span>
+              {isLocked && document && (
+                <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                  <Lock className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    Văn bản ở trạng thái "{DOCUMENT_WORKFLOW_LABELS[document.workflowStatus]}" nên không thể chỉnh sửa.
+                  </span>
+                </div>
+              )}
+              <fieldset disabled={isLocked} className="space-y-4 min-w-0">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="font-medium">Document Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter document name" className="w-full" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="border rounded-md p-4">
+                  <h3 className="font-medium text-sm mb-3 text-gray-500">Template Fields</h3>
+                  <div className="space-y-4">{renderFormFields()}</div>
+                </div>
+                {blockDefs.length > 0 && (
+                  <div className="border border-purple-200 rounded-md p-4 bg-purple-50/30">
+                    <h3 className="font-medium text-sm mb-3 text-purple-700 flex items-center gap-2">
+                      <Layers className="h-4 w-4" />
+                      Chorus Blocks
+                    </h3>
+                    <div className="space-y-3">
+                      {blockDefs.map((block: any) => (
+                        <div key={block.name} className="border border-purple-200 rounded-md p-3 bg-white">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <Layers className="h-4 w-4 text-purple-600" />
+                              <span className="text-sm font-medium text-purple-900">
+                                {block.label || block.name}
+                              </span>
+                            </div>
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              className="border-purple-300 text-purple-700 hover:bg-purple-100"
+                              onClick={() => setLocation(`/document/${documentUuid}/block/${block.name}`)}
+                            >
+                              <Layers className="h-3.5 w-3.5 mr-1" />
+                              Nhập block
+                            </Button>
                           </div>
-                          <Button
-                            type="button"
-                            size="sm"
-                            variant="outline"
-                            className="border-purple-300 text-purple-700 hover:bg-purple-100"
-                            onClick={() => setLocation(`/document/${documentUuid}/block/${block.name}`)}
-                          >
-                            <Layers className="h-3.5 w-3.5 mr-1" />
-                            Nhập block
-                          </Button>
                         </div>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+              </fieldset>
             </div>
           </CardContent>
           <CardFooter className="flex justify-between border-t pt-4 flex-shrink-0">
@@ -666,7 +762,7 @@ const DocumentUpdatePage = () => {
               <ArrowLeft className="mr-2 h-4 w-4" />
               Back to Documents
             </Button>
-            <Button type="submit" disabled={isSubmitting || isLoading} className="gap-2">
+            <Button type="submit" disabled={isSubmitting || isLoading || isLocked} className="gap-2">
               {isSubmitting ? (<><Loader2 className="h-4 w-4 animate-spin" />Updating...</>) : (<><Save className="h-4 w-4" />Update Document</>)}
             </Button>
           </CardFooter>
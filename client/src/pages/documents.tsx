@@ -8,7 +8,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { formatDate, getCategoryColor } from '@/lib/utils';
+import { formatDate } from '@/lib/utils';
+import { TemplateCategoryBadge } from '@/components/common/template-category';
 import { Document, Template } from '@shared/schema';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -18,6 +19,8 @@ import { BulkDeleteModal } from '@/components/documents/bulk-delete-modal';
 import { AdvancedSearchPanel } from '@/components/documents/advanced-search-panel';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Label } from '@/components/ui/label';
+import { WorkflowStatusBadge } from '@/components/documents/document-workflow-actions';
+import { DOCUMENT_WORKFLOW_LABELS, DOCUMENT_WORKFLOW_STATUSES } from '@shared/document-workflow';
 
 function useDebouncedValue<T>(value: T, delay: number): T {
   const [debounced, setDebounced] = useState(value);
@@ -35,6 +38,7 @@ const DocumentsPage: React.FC = () => {
   const debouncedSearchQuery = useDebouncedValue(searchQuery, 300);
   const [templateFilter, setTemplateFilter] = useState('all');
   const [statusFilter, setStatusFilter] = useState('all');
+  const [workflowFilter, setWorkflowFilter] = useState('all');
   const [dateRangeType, setDateRangeType] = useState('all');
   const [fromDate, setFromDate] = useState('');
   const [toDate, setToDate] = useState('');
@@ -47,12 +51,13 @@ const DocumentsPage: React.FC = () => {
 
   // Fetch documents
   const { data: documentsData, isLoading: isLoadingDocuments, refetch: refetchDocuments } = useQuery<{documents: Document[], pagination: {currentPage: number, itemsPerPage: number, totalItems: number, totalPages: number, hasNextPage: boolean, hasPrevPage: boolean}}>({
-    queryKey: ['/api/documents', debouncedSearchQuery, templateFilter, statusFilter, fromDate, toDate, currentPage, itemsPerPage],
+    queryKey: ['/api/documents', debouncedSearchQuery, templateFilter, statusFilter, workflowFilter, fromDate, toDate, currentPage, itemsPerPage],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (debouncedSearchQuery) params.append('searchQuery', debouncedSearchQuery);
       if (templateFilter !== 'all') params.append('templateUuid', templateFilter);
       if (statusFilter !== 'all') params.append('status', statusFilter);
+      if (workflowFilter !== 'all') params.append('workflowStatus', workflowFilter);
       if (fromDate) params.append('fromDate', fromDate);
       if (toDate) params.append('toDate', toDate);
       params.append('page', currentPage.toString());
@@ -69,7 +74,7 @@ const DocumentsPage: React.FC = () => {
   // Reset to page 1 when filters change (use debouncedSearchQuery so page resets after typing stops)
   useEffect(() => {
     setCurrentPage(1);
-  }, [debouncedSearchQuery, templateFilter, statusFilter, fromDate, toDate]);
+  }, [debouncedSearchQuery, templateFilter, statusFilter, workflowFilter, fromDate, toDate]);
 
   // Fetch document statistics
   const { data: documentStats } = useQuery({
@@ -93,9 +98,9 @@ const DocumentsPage: React.FC = () => {
   const templates = Array.isArray(templatesData) ? templatesData : (templatesData?.templates || []);
 
   // Handle document download
-  const handleDownload = async (document: Document) => {
+  const handleDownload = async (document: Document, format: 'docx' | 'pdf' = 'docx') => {
     try {
-      const response = await fetch(`/api/documents/${document.uuid}/download`);
+      const response = await fetch(`/api/documents/${document.uuid}/download${format === 'pdf' ? '?format=pdf' : ''}`);
       
       if (!response.ok) {
         const errorText = await response.text();
@@ -106,7 +111,7 @@ const DocumentsPage: React.FC = () => {
       const url = window.URL.createObjectURL(blob);
       const a = window.document.createElement('a');
       a.href = url;
-      a.download = `${document.name}.docx`;
+      a.download = `${document.name}.${format}`;
       window.document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -316,6 +321,21 @@ const DocumentsPage: React.FC = () => {
                   </SelectContent>
                 </Select>
 
+                {/* Workflow status filter */}
+                <Select onValueChange={setWorkflowFilter} value={workflowFilter}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue placeholder="Workflow" />
+                  </SelectTrigger>
+                  <SelectContent className="z-50">
+                    <SelectItem value="all">All Workflow</SelectItem>
+                    {DOCUMENT_WORKFLOW_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {DOCUMENT_WORKFLOW_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
                 {/* Date Range filter */}
                 <Popover>
                   <PopoverTrigger asChild>
@@ -421,7 +441,7 @@ const DocumentsPage: React.FC = () => {
                 </Popover>
 
                 {/* Clear all filters button */}
-                {(searchQuery || templateFilter !== 'all' || statusFilter !== 'all' || fromDate || toDate) && (
+                {(searchQuery || templateFilter !== 'all' || statusFilter !== 'all' || workflowFilter !== 'all' || fromDate || toDate) && (
                   <Button
                     variant="ghost"
                     size="sm"
@@ -429,6 +449,7 @@ const DocumentsPage: React.FC = () => {
                       setSearchQuery('');
                       setTemplateFilter('all');
                       setStatusFilter('all');
+                      setWorkflowFilter('all');
                       setDateRangeType('all');
                       setFromDate('');
                       setToDate('');
@@ -454,6 +475,7 @@ const DocumentsPage: React.FC = () => {
                 <TableRow>
                   <TableHead className="w-[300px]">Document Name</TableHead>
                   <TableHead>Template</TableHead>
+                  <TableHead>Workflow</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
@@ -461,7 +483,7 @@ const DocumentsPage: React.FC = () => {
               <TableBody>
                 {isDataLoading ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="text-center py-8">
+                    <TableCell colSpan={5} className="text-center py-8">
                       <div className="flex flex-col items-center justify-center">
                         <div className="animate-spin h-8 w-8 border-4 border-blue-200 rounded-full border-t-blue-600 mb-4"></div>
                         <p className="text-gray-500">Loading documents...</p>
@@ -470,22 +492,23 @@ const DocumentsPage: React.FC = () => {
                   </TableRow>
                 ) : documents.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="text-center py-12">
+                    <TableCell colSpan={5} className="text-center py-12">
                       <div className="flex flex-col items-center justify-center">
                         <FileText className="h-12 w-12 text-gray-300 mb-4" />
                         <p className="text-lg font-medium text-gray-800 mb-1">No documents found</p>
                         <p className="text-gray-500 mb-6 max-w-md text-center">
-                          {searchQuery || templateFilter !== 'all' || statusFilter !== 'all' || fromDate || toDate
+                          {searchQuery || templateFilter !== 'all' || statusFilter !== 'all' || workflowFilter !== 'all' || fromDate || toDate
                             ? "Try adjusting your search or filter criteria" 
                             : "Create a document from a template to get started"}
                         </p>
-                        {(searchQuery || templateFilter !== 'all' || statusFilter !== 'all' || fromDate || toDate) ? (
+                        {(searchQuery || templateFilter !== 'all' || statusFilter !== 'all' || workflowFilter !== 'all' || fromDate || toDate) ? (
                           <Button 
                             variant="outline" 
                             onClick={() => {
                               setSearchQuery('');
                               setTemplateFilter('all');
                               setStatusFilter('all');
+                              setWorkflowFilter('all');
                               setDateRangeType('all');
                               setFromDate('');
                               setToDate('');
@@ -516,15 +539,13 @@ const DocumentsPage: React.FC = () => {
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
-                            <Badge 
-                              variant="outline"
-                              className={`bg-${getCategoryColor(templateCategory)}-50 text-${getCategoryColor(templateCategory)}-700 border-${getCategoryColor(templateCategory)}-200 px-2 py-1 text-xs`}
-                            >
-                              {templateCategory}
-                            </Badge>
+                            <TemplateCategoryBadge category={templateCategory} className="px-2 py-1 text-xs" />
                             <span className="text-sm truncate">{templateName}</span>
                           </div>
                         </TableCell>
+                        <TableCell>
+                          <WorkflowStatusBadge status={document.workflowStatus} />
+                        </TableCell>
                         <TableCell>{formatDate(document.createdAt)}</TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end space-x-2">
@@ -588,6 +609,10 @@ const DocumentsPage: React.FC = () => {
                                   <Download className="mr-2 h-4 w-4" />
                                   Download
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleDownload(document, 'pdf')}>
+                                  <FileText className="mr-2 h-4 w-4" />
+                                  Download PDF
+                                </DropdownMenuItem>
                                 <DropdownMenuSeparator />
                                 <DropdownMenuItem 
                                   onClick={() => handleDelete(document.uuid)}
@@ -0,0 +1,474 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BookOpen, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { FieldDefinition } from '@shared/schema';
+import type { FieldValidation } from '@shared/field-validation';
+import {
+  FIELD_DEFINITION_TYPES,
+  FIELD_DEFINITION_TYPE_LABELS,
+  normalizeFieldDefinitionOptions,
+  validateFieldDefinitionName,
+  type FieldDefinitionType,
+} from '@shared/field-dictionary';
+
+/** Item of GET /api/field-definitions */
+type FieldDefinitionSummary = FieldDefinition & { fieldCount: number; templateCount: number };
+
+/** Item of GET /api/field-definitions/:id/usage */
+interface FieldDefinitionUsage {
+  templateUuid: string;
+  templateName: string;
+  fieldName: string;
+}
+
+interface DefinitionForm {
+  name: string;
+  label: string;
+  fieldType: FieldDefinitionType;
+  options: string; // One option per line
+  description: string;
+  min: string;
+  max: string;
+  integer: boolean;
+  minLength: string;
+  maxLength: string;
+  pattern: string;
+  patternMessage: string;
+}
+
+const EMPTY_FORM: DefinitionForm = {
+  name: '',
+  label: '',
+  fieldType: 'text',
+  options: '',
+  description: '',
+  min: '',
+  max: '',
+  integer: false,
+  minLength: '',
+  maxLength: '',
+  pattern: '',
+  patternMessage: '',
+};
+
+const QUERY_KEY = ['/api/field-definitions'];
+
+function toForm(definition: FieldDefinition): DefinitionForm {
+  const validation = definition.validation ?? {};
+  return {
+    name: definition.name,
+    label: definition.label,
+    fieldType: definition.fieldType,
+    options: definition.options.join('\n'),
+    description: definition.description ?? '',
+    min: validation.min?.toString() ?? '',
+    max: validation.max?.toString() ?? '',
+    integer: validation.integer ?? false,
+    minLength: validation.minLength?.toString() ?? '',
+    maxLength: validation.maxLength?.toString() ?? '',
+    pattern: validation.pattern ?? '',
+    patternMessage: validation.patternMessage ?? '',
+  };
+}
+
+/** Validation rules of the form that apply to its field type, or null when there are none */
+function toValidation(form: DefinitionForm): FieldValidation | null {
+  const validation: FieldValidation = {};
+  if (form.fieldType === 'number') {
+    if (form.min.trim()) validation.min = Number(form.min);
+    if (form.max.trim()) validation.max = Number(form.max);
+    if (form.integer) validation.integer = true;
+  }
+  if (form.fieldType === 'date') {
+    if (form.min.trim()) validation.min = form.min.trim();
+    if (form.max.trim()) validation.max = form.max.trim();
+  }
+  if (form.fieldType === 'text' || form.fieldType === 'textarea') {
+    if (form.minLength.trim()) validation.minLength = Number(form.minLength);
+    if (form.maxLength.trim()) validation.maxLength = Number(form.maxLength);
+  }
+  if (form.fieldType !== 'checklist' && form.pattern.trim()) {
+    validation.pattern = form.pattern.trim();
+    if (form.patternMessage.trim()) validation.patternMessage = form.patternMessage.trim();
+  }
+  return Object.keys(validation).length > 0 ? validation : null;
+}
+
+function describeValidation(definition: FieldDefinition): string {
+  const validation = definition.validation;
+  if (!validation) return '';
+  const rules: string[] = [];
+  if (validation.min !== undefined) rules.push(`min ${validation.min}`);
+  if (validation.max !== undefined) rules.push(`max ${validation.max}`);
+  if (validation.integer) rules.push('integer');
+  if (validation.minLength !== undefined) rules.push(`\u2265 ${validation.minLength} ký tự`);
+  if (validation.maxLength !== undefined) rules.push(`\u2264 ${validation.maxLength} ký tự`);
+  if (validation.pattern) rules.push(`/${validation.pattern}/`);
+  return rules.join(', ');
+}
+
+const FieldDictionaryPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('admin');
+  const [editing, setEditing] = useState<FieldDefinitionSummary | 'new' | null>(null);
+  const [form, setForm] = useState<DefinitionForm>(EMPTY_FORM);
+
+  const { data: definitions = [], isLoading } = useQuery<FieldDefinitionSummary[]>({
+    queryKey: QUERY_KEY,
+    staleTime: 0,
+  });
+
+  const editingId = editing && editing !== 'new' ? editing.id : null;
+  const { data: usage = [] } = useQuery<FieldDefinitionUsage[]>({
+    queryKey: [`/api/field-definitions/${editingId}/usage`],
+    enabled: !!editingId,
+    staleTime: 0,
+  });
+
+  const openForm = (definition: FieldDefinitionSummary | 'new') => {
+    setForm(definition === 'new' ? EMPTY_FORM : toForm(definition));
+    setEditing(definition);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: DefinitionForm) => {
+      const body = {
+        name: data.name,
+        label: data.label,
+        fieldType: data.fieldType,
+        options: data.fieldType === 'checklist' ? normalizeFieldDefinitionOptions(data.options.split('\n')) : [],
+        validation: toValidation(data),
+        description: data.description,
+      };
+      const res = editingId
+        ? await apiRequest('PUT', `/api/field-definitions/${editingId}`, body)
+        : await apiRequest('POST', '/api/field-definitions', body);
+      return res.json() as Promise<FieldDefinition & { linkedCount?: number; updatedCount?: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ['/api/templates/fields'] });
+      setEditing(null);
+      const count = result.linkedCount ?? result.updatedCount ?? 0;
+      toast({
+        title: 'Field definition saved',
+        description: count > 0 ? `${count} template field(s) updated` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Save failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `/api/field-definitions/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ['/api/templates/fields'] });
+      toast({ title: 'Field definition deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Delete failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const nameError = form.name ? validateFieldDefinitionName(form.name) : null;
+  const optionsMissing = form.fieldType === 'checklist'
+    && normalizeFieldDefinitionOptions(form.options.split('\n')).length === 0;
+  const setFormValue = <K extends keyof DefinitionForm>(key: K, value: DefinitionForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="container mx-auto px-4 max-w-6xl">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+            <BookOpen className="h-6 w-6 text-blue-600" />
+            Field Dictionary
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Trường dùng chung cho nhiều template. Field cùng tên được liên kết khi upload; sửa định nghĩa cập nhật mọi template.
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => openForm('new')} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Field
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="bg-gray-50 border-b px-6 py-4">
+          <CardTitle className="text-lg font-medium">Fields</CardTitle>
+          <CardDescription>Tên được so khớp không phân biệt hoa thường với {'{{'}tên_field{'}}'} trong template</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="space-y-3 p-6">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : definitions.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No field definitions yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Options / validation</TableHead>
+                  <TableHead>Used by</TableHead>
+                  {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {definitions.map(definition => (
+                  <TableRow key={definition.id} className="align-top">
+                    <TableCell className="font-mono text-xs">{definition.name}</TableCell>
+                    <TableCell>
+                      <span className="font-medium">{definition.label}</span>
+                      {definition.description && <p className="text-xs text-gray-500 mt-1">{definition.description}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{FIELD_DEFINITION_TYPE_LABELS[definition.fieldType]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {definition.fieldType === 'checklist' ? (
+                        <div className="flex flex-wrap gap-1">
+                          {definition.options.map(option => (
+                            <Badge key={option} variant="secondary" className="font-normal">{option}</Badge>
+                          ))}
+                        </div>
+                      ) : describeValidation(definition) || <span className="text-gray-400">{'\u2014'}</span>}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {definition.templateCount === 0
+                        ? <span className="text-gray-400">{'\u2014'}</span>
+                        : `${definition.templateCount} template(s)`}
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => openForm(definition)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => {
+                            if (confirm(`Delete field definition "${definition.name}"? Linked fields keep their current settings.`)) {
+                              deleteMutation.mutate(definition.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New field definition' : 'Edit field definition'}</DialogTitle>
+            <DialogDescription>
+              {editing === 'new'
+                ? 'Existing template fields with this name are linked when the definition is created.'
+                : `Saving updates ${editing?.fieldCount ?? 0} linked field(s) in ${editing?.templateCount ?? 0} template(s).`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="definition-name">Name</Label>
+                <Input
+                  id="definition-name"
+                  value={form.name}
+                  onChange={(e) => setFormValue('name', e.target.value)}
+                  placeholder="ho_ten"
+                  className="font-mono"
+                />
+                {nameError && <p className="text-xs text-red-600">{nameError}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="definition-label">Label</Label>
+                <Input
+                  id="definition-label"
+                  value={form.label}
+                  onChange={(e) => setFormValue('label', e.target.value)}
+                  placeholder="Họ và tên"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.fieldType} onValueChange={(value) => setFormValue('fieldType', value as FieldDefinitionType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {FIELD_DEFINITION_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{FIELD_DEFINITION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.fieldType === 'checklist' && (
+              <div className="space-y-2">
+                <Label htmlFor="definition-options">Options (one per line)</Label>
+                <Textarea
+                  id="definition-options"
+                  rows={5}
+                  value={form.options}
+                  onChange={(e) => setFormValue('options', e.target.value)}
+                />
+                {optionsMissing && <p className="text-xs text-red-600">Checklist definitions need at least one option</p>}
+              </div>
+            )}
+
+            {(form.fieldType === 'number' || form.fieldType === 'date') && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="definition-min">Min</Label>
+                  <Input
+                    id="definition-min"
+                    type={form.fieldType === 'date' ? 'date' : 'number'}
+                    value={form.min}
+                    onChange={(e) => setFormValue('min', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="definition-max">Max</Label>
+                  <Input
+                    id="definition-max"
+                    type={form.fieldType === 'date' ? 'date' : 'number'}
+                    value={form.max}
+                    onChange={(e) => setFormValue('max', e.target.value)}
+                  />
+                </div>
+                {form.fieldType === 'number' && (
+                  <label className="flex items-center gap-2 text-sm col-span-2">
+                    <Checkbox checked={form.integer} onCheckedChange={(checked) => setFormValue('integer', checked === true)} />
+                    Whole numbers only
+                  </label>
+                )}
+              </div>
+            )}
+
+            {(form.fieldType === 'text' || form.fieldType === 'textarea') && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="definition-min-length">Min length</Label>
+                  <Input
+                    id="definition-min-length"
+                    type="number"
+                    min={0}
+                    value={form.minLength}
+                    onChange={(e) => setFormValue('minLength', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="definition-max-length">Max length</Label>
+                  <Input
+                    id="definition-max-length"
+                    type="number"
+                    min={0}
+                    value={form.maxLength}
+                    onChange={(e) => setFormValue('maxLength', e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            {form.fieldType !== 'checklist' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="definition-pattern">Pattern (regex)</Label>
+                  <Input
+                    id="definition-pattern"
+                    value={form.pattern}
+                    onChange={(e) => setFormValue('pattern', e.target.value)}
+                    placeholder="^[0-9]{12}$"
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="definition-pattern-message">Pattern message</Label>
+                  <Input
+                    id="definition-pattern-message"
+                    value={form.patternMessage}
+                    onChange={(e) => setFormValue('patternMessage', e.target.value)}
+                    placeholder="CCCD gồm 12 chữ số"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="definition-description">Description</Label>
+              <Textarea
+                id="definition-description"
+                rows={2}
+                value={form.description}
+                onChange={(e) => setFormValue('description', e.target.value)}
+              />
+            </div>
+
+            {usage.length > 0 && (
+              <div className="space-y-1">
+                <Label>Linked fields</Label>
+                <div className="max-h-32 overflow-y-auto text-sm border rounded-md p-2">
+                  {usage.map(item => (
+                    <div key={`${item.templateUuid}-${item.fieldName}`}>
+                      {item.templateName} / <span className="font-mono text-xs">{item.fieldName}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate(form)}
+              disabled={!form.name.trim() || !form.label.trim() || !!nameError || optionsMissing || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default FieldDictionaryPage;
@@ -0,0 +1,536 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ChevronLeft, ChevronRight, Contact, Loader2, Pencil, Plus, Search, Settings2, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { MasterDataRecord, MasterDataType } from '@shared/schema';
+import {
+  validateMasterDataAttributes,
+  validateMasterDataTypeKey,
+  type MasterDataAttribute,
+} from '@shared/master-data';
+
+/** Item of GET /api/master-data/types */
+type MasterDataTypeSummary = MasterDataType & { recordCount: number };
+
+/** Response of GET /api/master-data/records */
+interface MasterDataRecordsResponse {
+  records: MasterDataRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/** Item of GET /api/master-data/records/:id/documents */
+interface RecordDocument {
+  linkId: string;
+  documentUuid: string;
+  documentName: string;
+  appliedAt: string;
+  outdated: boolean;
+}
+
+interface RecordForm {
+  name: string;
+  values: Record<string, string>;
+}
+
+interface TypeForm {
+  key: string;
+  label: string;
+  attributes: MasterDataAttribute[];
+}
+
+const TYPES_QUERY_KEY = ['/api/master-data/types'];
+
+const MasterDataPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('editor');
+  const canManageTypes = hasRole('admin');
+
+  const [typeId, setTypeId] = useState<string>('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [editingRecord, setEditingRecord] = useState<MasterDataRecord | 'new' | null>(null);
+  const [recordForm, setRecordForm] = useState<RecordForm>({ name: '', values: {} });
+  const [editingType, setEditingType] = useState<MasterDataTypeSummary | 'new' | null>(null);
+  const [typeForm, setTypeForm] = useState<TypeForm>({ key: '', label: '', attributes: [] });
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchQuery.trim());
+      setCurrentPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const { data: types = [], isLoading: typesLoading } = useQuery<MasterDataTypeSummary[]>({
+    queryKey: TYPES_QUERY_KEY,
+    staleTime: 0,
+  });
+
+  // Select the first type once the types are loaded
+  useEffect(() => {
+    if (types.length > 0 && !typeId) {
+      setTypeId(types[0].id);
+    }
+  }, [types, typeId]);
+
+  const selectedType = types.find(type => type.id === typeId);
+
+  const { data: recordsData, isLoading: recordsLoading } = useQuery<MasterDataRecordsResponse>({
+    queryKey: ['/api/master-data/records', typeId, debouncedSearch, currentPage],
+    queryFn: async () => {
+      const params = new URLSearchParams({ type: typeId, page: currentPage.toString() });
+      if (debouncedSearch) params.append('search', debouncedSearch);
+
+      const response = await fetch(`/api/master-data/records?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch records');
+      return response.json();
+    },
+    enabled: !!typeId,
+    staleTime: 0,
+  });
+
+  const records = recordsData?.records ?? [];
+  const totalPages = recordsData ? Math.max(1, Math.ceil(recordsData.total / recordsData.pageSize)) : 1;
+
+  const editingRecordId = editingRecord && editingRecord !== 'new' ? editingRecord.id : null;
+  const { data: recordDocuments = [] } = useQuery<RecordDocument[]>({
+    queryKey: [`/api/master-data/records/${editingRecordId}/documents`],
+    enabled: !!editingRecordId,
+    staleTime: 0,
+  });
+
+  const invalidateRecords = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/master-data/records'] });
+    queryClient.invalidateQueries({ queryKey: TYPES_QUERY_KEY });
+  };
+
+  const openRecordForm = (record: MasterDataRecord | 'new') => {
+    setRecordForm(record === 'new' ? { name: '', values: {} } : { name: record.name, values: { ...record.values } });
+    setEditingRecord(record);
+  };
+
+  const openTypeForm = (type: MasterDataTypeSummary | 'new') => {
+    setTypeForm(type === 'new'
+      ? { key: '', label: '', attributes: [{ name: '', label: '' }] }
+      : { key: type.key, label: type.label, attributes: type.attributes.map(attribute => ({ ...attribute })) });
+    setEditingType(type);
+  };
+
+  const saveRecordMutation = useMutation({
+    mutationFn: async (data: RecordForm) => {
+      const res = editingRecordId
+        ? await apiRequest('PUT', `/api/master-data/records/${editingRecordId}`, data)
+        : await apiRequest('POST', '/api/master-data/records', { ...data, typeId });
+      return res.json() as Promise<MasterDataRecord>;
+    },
+    onSuccess: () => {
+      invalidateRecords();
+      setEditingRecord(null);
+      toast({
+        title: 'Record saved',
+        description: recordDocuments.length > 0
+          ? `${recordDocuments.length} linked document(s) can re-apply the changes`
+          : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Save failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteRecordMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `/api/master-data/records/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateRecords();
+      toast({ title: 'Record deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Delete failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const editingTypeId = editingType && editingType !== 'new' ? editingType.id : null;
+
+  const saveTypeMutation = useMutation({
+    mutationFn: async (data: TypeForm) => {
+      const body = {
+        label: data.label,
+        attributes: data.attributes.filter(attribute => attribute.name.trim() || attribute.label.trim()),
+      };
+      const res = editingTypeId
+        ? await apiRequest('PUT', `/api/master-data/types/${editingTypeId}`, body)
+        : await apiRequest('POST', '/api/master-data/types', { ...body, key: data.key.trim() });
+      return res.json() as Promise<MasterDataType>;
+    },
+    onSuccess: (type) => {
+      queryClient.invalidateQueries({ queryKey: TYPES_QUERY_KEY });
+      setEditingType(null);
+      setTypeId(type.id);
+      toast({ title: 'Type saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Save failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteTypeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `/api/master-data/types/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TYPES_QUERY_KEY });
+      setEditingType(null);
+      setTypeId('');
+      toast({ title: 'Type deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Delete failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const typeAttributes = typeForm.attributes.filter(attribute => attribute.name.trim() || attribute.label.trim());
+  const typeError = (editingType === 'new' ? validateMasterDataTypeKey(typeForm.key.trim()) : null)
+    ?? validateMasterDataAttributes(typeAttributes);
+  const setAttribute = (index: number, key: keyof MasterDataAttribute, value: string) => {
+    setTypeForm(prev => ({
+      ...prev,
+      attributes: prev.attributes.map((attribute, i) => i === index ? { ...attribute, [key]: value } : attribute),
+    }));
+  };
+
+  return (
+    <div className="container mx-auto px-4 max-w-6xl">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+            <Contact className="h-6 w-6 text-blue-600" />
+            Master Data
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Cá nhân, tổ chức, tài sản dùng để điền nhanh văn bản. Thuộc tính khớp với field cùng tên (hoặc có hậu tố _tên) trong template.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {canManageTypes && (
+            <Button variant="outline" onClick={() => openTypeForm('new')} className="gap-2">
+              <Settings2 className="h-4 w-4" />
+              New Type
+            </Button>
+          )}
+          {canEdit && (
+            <Button onClick={() => openRecordForm('new')} disabled={!selectedType} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Record
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="bg-gray-50 border-b px-6 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="text-lg font-medium">Records</CardTitle>
+              <CardDescription>
+                {selectedType
+                  ? `${selectedType.recordCount} record(s) \u00b7 ${selectedType.attributes.length} attribute(s)`
+                  : 'Chọn loại dữ liệu'}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={typeId} onValueChange={(value) => { setTypeId(value); setCurrentPage(1); }}>
+                <SelectTrigger className="w-44" disabled={typesLoading}>
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {types.map(type => (
+                    <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {canManageTypes && selectedType && (
+                <Button variant="ghost" size="sm" onClick={() => openTypeForm(selectedType)} title="Edit type">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+                <Input
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search records..."
+                  className="pl-8 w-56"
+                />
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {typesLoading || recordsLoading ? (
+            <div className="space-y-3 p-6">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : records.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">
+              {debouncedSearch ? 'No records match the search.' : 'No records yet.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  {selectedType?.attributes.slice(0, 4).map(attribute => (
+                    <TableHead key={attribute.name}>{attribute.label}</TableHead>
+                  ))}
+                  {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.map(record => (
+                  <TableRow key={record.id}>
+                    <TableCell className="font-medium">{record.name}</TableCell>
+                    {selectedType?.attributes.slice(0, 4).map(attribute => (
+                      <TableCell key={attribute.name} className="text-sm">
+                        {record.values[attribute.name] || <span className="text-gray-400">{'\u2014'}</span>}
+                      </TableCell>
+                    ))}
+                    {canEdit && (
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => openRecordForm(record)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          disabled={deleteRecordMutation.isPending}
+                          onClick={() => {
+                            if (confirm(`Delete record "${record.name}"? Documents filled from it keep their values.`)) {
+                              deleteRecordMutation.mutate(record.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between px-6 py-2 bg-gray-50 border-t">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                disabled={currentPage === 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-xs text-gray-600">
+                Page {currentPage} of {totalPages}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                disabled={currentPage === totalPages}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editingRecord !== null} onOpenChange={(open) => !open && setEditingRecord(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRecord === 'new' ? `New ${selectedType?.label ?? 'record'}` : 'Edit record'}</DialogTitle>
+            <DialogDescription>
+              {editingRecord === 'new'
+                ? 'Giá trị được điền vào field cùng tên khi tạo văn bản từ bản ghi này.'
+                : 'Văn bản đã điền từ bản ghi này có thể áp dụng lại thay đổi.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="space-y-2">
+              <Label htmlFor="record-name">Name</Label>
+              <Input
+                id="record-name"
+                value={recordForm.name}
+                onChange={(e) => setRecordForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Nguyễn Văn A"
+              />
+            </div>
+            {selectedType?.attributes.map(attribute => (
+              <div key={attribute.name} className="space-y-2">
+                <Label htmlFor={`record-${attribute.name}`}>
+                  {attribute.label} <span className="font-mono text-xs text-gray-400">{attribute.name}</span>
+                </Label>
+                <Input
+                  id={`record-${attribute.name}`}
+                  value={recordForm.values[attribute.name] ?? ''}
+                  onChange={(e) => setRecordForm(prev => ({
+                    ...prev,
+                    values: { ...prev.values, [attribute.name]: e.target.value },
+                  }))}
+                />
+              </div>
+            ))}
+
+            {recordDocuments.length > 0 && (
+              <div className="space-y-1">
+                <Label>Linked documents</Label>
+                <div className="max-h-32 overflow-y-auto text-sm border rounded-md p-2">
+                  {recordDocuments.map(document => (
+                    <div key={document.linkId} className="flex items-center gap-2">
+                      <span className="truncate">{document.documentName}</span>
+                      {document.outdated && <Badge variant="outline" className="text-amber-700 border-amber-300">outdated</Badge>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingRecord(null)}>Cancel</Button>
+            <Button
+              onClick={() => saveRecordMutation.mutate(recordForm)}
+              disabled={!recordForm.name.trim() || saveRecordMutation.isPending}
+            >
+              {saveRecordMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editingType !== null} onOpenChange={(open) => !open && setEditingType(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingType === 'new' ? 'New type' : 'Edit type'}</DialogTitle>
+            <DialogDescription>
+              Tên thuộc tính được so khớp với tên field trong template. Bỏ một thuộc tính không xóa giá trị đã lưu.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="type-key">Key</Label>
+                <Input
+                  id="type-key"
+                  value={typeForm.key}
+                  onChange={(e) => setTypeForm(prev => ({ ...prev, key: e.target.value }))}
+                  disabled={editingType !== 'new'}
+                  placeholder="supplier"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="type-label">Label</Label>
+                <Input
+                  id="type-label"
+                  value={typeForm.label}
+                  onChange={(e) => setTypeForm(prev => ({ ...prev, label: e.target.value }))}
+                  placeholder="Nhà cung cấp"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Attributes</Label>
+              {typeForm.attributes.map((attribute, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={attribute.name}
+                    onChange={(e) => setAttribute(index, 'name', e.target.value)}
+                    placeholder="ho_ten"
+                    className="font-mono"
+                  />
+                  <Input
+                    value={attribute.label}
+                    onChange={(e) => setAttribute(index, 'label', e.target.value)}
+                    placeholder="Họ và tên"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTypeForm(prev => ({ ...prev, attributes: prev.attributes.filter((_, i) => i !== index) }))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                onClick={() => setTypeForm(prev => ({ ...prev, attributes: [...prev.attributes, { name: '', label: '' }] }))}
+              >
+                <Plus className="h-4 w-4" />
+                Add attribute
+              </Button>
+              {typeError && <p className="text-xs text-red-600">{typeError}</p>}
+            </div>
+          </div>
+          <DialogFooter className="sm:justify-between">
+            <div>
+              {editingType && editingType !== 'new' && (
+                <Button
+                  variant="ghost"
+                  className="text-red-600 hover:text-red-700"
+                  disabled={editingType.recordCount > 0 || deleteTypeMutation.isPending}
+                  title={editingType.recordCount > 0 ? 'Delete the records of this type first' : undefined}
+                  onClick={() => {
+                    if (confirm(`Delete type "${editingType.label}"?`)) {
+                      deleteTypeMutation.mutate(editingType.id);
+                    }
+                  }}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setEditingType(null)}>Cancel</Button>
+              <Button
+                onClick={() => saveTypeMutation.mutate(typeForm)}
+                disabled={!typeForm.label.trim() || !!typeError || saveTypeMutation.isPending}
+              >
+                {saveTypeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MasterDataPage;
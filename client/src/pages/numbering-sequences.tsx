@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Hash, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import type { NumberingSequence } from '@shared/schema';
+import {
+  NUMBERING_RESET_PERIODS,
+  NUMBERING_RESET_PERIOD_LABELS,
+  NUMBERING_SCOPES,
+  NUMBERING_SCOPE_LABELS,
+  NUMBERING_TRIGGERS,
+  NUMBERING_TRIGGER_LABELS,
+  formatSequenceNumber,
+  validateNumberingPattern,
+  type NumberingResetPeriod,
+  type NumberingScope,
+  type NumberingTrigger,
+} from '@shared/numbering';
+
+/** Item of GET /api/numbering-sequences */
+type NumberingSequenceSummary = NumberingSequence & {
+  counters: Array<{ scopeKey: string; periodKey: string; value: number }>;
+  fields: Array<{ templateUuid: string; templateName: string; fieldName: string }>;
+};
+
+interface SequenceForm {
+  name: string;
+  pattern: string;
+  resetPeriod: NumberingResetPeriod;
+  scope: NumberingScope;
+  allocateOn: NumberingTrigger;
+}
+
+const EMPTY_FORM: SequenceForm = {
+  name: '',
+  pattern: '{n}/QĐ-UBND',
+  resetPeriod: 'yearly',
+  scope: 'category',
+  allocateOn: 'create',
+};
+
+const QUERY_KEY = ['/api/numbering-sequences'];
+
+/** Readable scope of a counter: the template name, the category or nothing (global) */
+function counterScopeLabel(sequence: NumberingSequenceSummary, scopeKey: string): string {
+  if (sequence.scope === 'template') {
+    return sequence.fields.find(field => field.templateUuid === scopeKey)?.templateName ?? scopeKey.slice(0, 8);
+  }
+  return scopeKey;
+}
+
+const NumberingSequencesPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('admin');
+  const [editing, setEditing] = useState<NumberingSequenceSummary | 'new' | null>(null);
+  const [form, setForm] = useState<SequenceForm>(EMPTY_FORM);
+
+  const { data: sequences = [], isLoading } = useQuery<NumberingSequenceSummary[]>({
+    queryKey: QUERY_KEY,
+    staleTime: 0,
+  });
+
+  const openForm = (sequence: NumberingSequenceSummary | 'new') => {
+    setForm(sequence === 'new' ? EMPTY_FORM : {
+      name: sequence.name,
+      pattern: sequence.pattern,
+      resetPeriod: sequence.resetPeriod,
+      scope: sequence.scope,
+      allocateOn: sequence.allocateOn,
+    });
+    setEditing(sequence);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SequenceForm) => {
+      const res = editing && editing !== 'new'
+        ? await apiRequest('PUT', `/api/numbering-sequences/${editing.id}`, data)
+        : await apiRequest('POST', '/api/numbering-sequences', data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      setEditing(null);
+      toast({ title: 'Numbering sequence saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Save failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `/api/numbering-sequences/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+      toast({ title: 'Numbering sequence deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Delete failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const patternError = validateNumberingPattern(form.pattern);
+
+  return (
+    <div className="container mx-auto px-4 max-w-6xl">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+            <Hash className="h-6 w-6 text-blue-600" />
+            Numbering Sequences
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Số văn bản cấp tự động. Gán một sequence cho field trên trang template.
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => openForm('new')} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Sequence
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="bg-gray-50 border-b px-6 py-4">
+          <CardTitle className="text-lg font-medium">Sequences</CardTitle>
+          <CardDescription>Pattern tokens: {'{n}'}, {'{n:4}'}, {'{yyyy}'}, {'{yy}'}, {'{mm}'}, {'{dd}'}</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="space-y-3 p-6">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : sequences.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No numbering sequences yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Pattern</TableHead>
+                  <TableHead>Counter</TableHead>
+                  <TableHead>Assigned fields</TableHead>
+                  <TableHead>Current numbers</TableHead>
+                  {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sequences.map(sequence => (
+                  <TableRow key={sequence.id} className="align-top">
+                    <TableCell className="font-medium">{sequence.name}</TableCell>
+                    <TableCell>
+                      <span className="font-mono text-xs">{sequence.pattern}</span>
+                      <p className="text-xs text-gray-500 mt-1">{formatSequenceNumber(sequence.pattern, 1)}</p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="outline">{NUMBERING_RESET_PERIOD_LABELS[sequence.resetPeriod]}</Badge>
+                        <Badge variant="outline">{NUMBERING_SCOPE_LABELS[sequence.scope]}</Badge>
+                        <Badge variant="outline">{NUMBERING_TRIGGER_LABELS[sequence.allocateOn]}</Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {sequence.fields.length === 0 ? (
+                        <span className="text-gray-400">{'\u2014'}</span>
+                      ) : sequence.fields.map(field => (
+                        <div key={`${field.templateUuid}-${field.fieldName}`}>
+                          {field.templateName} / <span className="font-mono text-xs">{field.fieldName}</span>
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {sequence.counters.length === 0 ? (
+                        <span className="text-gray-400">{'\u2014'}</span>
+                      ) : sequence.counters.map(counter => (
+                        <div key={`${counter.scopeKey}-${counter.periodKey}`}>
+                          <span className="text-gray-500">
+                            {[counterScopeLabel(sequence, counter.scopeKey), counter.periodKey].filter(Boolean).join(' ')}
+                            {(counter.scopeKey || counter.periodKey) && ': '}
+                          </span>
+                          {counter.value}
+                        </div>
+                      ))}
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => openForm(sequence)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => {
+                            if (confirm(`Delete numbering sequence "${sequence.name}"?`)) {
+                              deleteMutation.mutate(sequence.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New numbering sequence' : 'Edit numbering sequence'}</DialogTitle>
+            <DialogDescription>
+              Changing the reset period or scope starts new counters; numbers already given are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sequence-name">Name</Label>
+              <Input
+                id="sequence-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Quyết định UBND"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sequence-pattern">Pattern</Label>
+              <Input
+                id="sequence-pattern"
+                value={form.pattern}
+                onChange={(e) => setForm(prev => ({ ...prev, pattern: e.target.value }))}
+                className="font-mono"
+              />
+              <p className={`text-xs ${patternError ? 'text-red-600' : 'text-gray-500'}`}>
+                {patternError ?? `Example: ${formatSequenceNumber(form.pattern, 123)}`}
+              </p>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Reset</Label>
+                <Select value={form.resetPeriod} onValueChange={(value) => setForm(prev => ({ ...prev, resetPeriod: value as NumberingResetPeriod }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {NUMBERING_RESET_PERIODS.map(period => (
+                      <SelectItem key={period} value={period}>{NUMBERING_RESET_PERIOD_LABELS[period]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Scope</Label>
+                <Select value={form.scope} onValueChange={(value) => setForm(prev => ({ ...prev, scope: value as NumberingScope }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {NUMBERING_SCOPES.map(scope => (
+                      <SelectItem key={scope} value={scope}>{NUMBERING_SCOPE_LABELS[scope]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Allocate</Label>
+                <Select value={form.allocateOn} onValueChange={(value) => setForm(prev => ({ ...prev, allocateOn: value as NumberingTrigger }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {NUMBERING_TRIGGERS.map(trigger => (
+                      <SelectItem key={trigger} value={trigger}>{NUMBERING_TRIGGER_LABELS[trigger]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate(form)}
+              disabled={!form.name.trim() || !!patternError || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default NumberingSequencesPage;
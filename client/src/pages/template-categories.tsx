@@ -0,0 +1,305 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { FolderTree, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  TemplateCategoryBadge,
+  TemplateCategoryIconView,
+  templateCategoriesQueryKey,
+  useTemplateCategories,
+  type TemplateCategoryWithCount,
+} from '@/components/common/template-category';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  DEFAULT_TEMPLATE_CATEGORY_COLOR,
+  TEMPLATE_CATEGORY_ICONS,
+  getTemplateCategoryKeysWithDescendants,
+  validateTemplateCategoryKey,
+  type TemplateCategoryIcon,
+} from '@shared/template-categories';
+
+interface CategoryForm {
+  key: string;
+  label: string;
+  labelEn: string;
+  color: string;
+  icon: TemplateCategoryIcon;
+  parentId: string;
+  position: number;
+}
+
+const EMPTY_FORM: CategoryForm = {
+  key: '',
+  label: '',
+  labelEn: '',
+  color: DEFAULT_TEMPLATE_CATEGORY_COLOR,
+  icon: 'Folder',
+  parentId: 'none',
+  position: 0,
+};
+
+const TemplateCategoriesPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('admin');
+  const [editing, setEditing] = useState<TemplateCategoryWithCount | 'new' | null>(null);
+  const [form, setForm] = useState<CategoryForm>(EMPTY_FORM);
+  const { categories, isLoading } = useTemplateCategories();
+
+  const openForm = (category: TemplateCategoryWithCount | 'new') => {
+    setForm(category === 'new' ? EMPTY_FORM : {
+      key: category.key,
+      label: category.label,
+      labelEn: category.labelEn ?? '',
+      color: category.color,
+      icon: category.icon,
+      parentId: category.parentId ?? 'none',
+      position: category.position,
+    });
+    setEditing(category);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ key, parentId, ...data }: CategoryForm) => {
+      const body = { ...data, parentId: parentId === 'none' ? null : parentId };
+      const res = editing && editing !== 'new'
+        ? await apiRequest('PUT', `/api/template-categories/${editing.id}`, body)
+        : await apiRequest('POST', '/api/template-categories', { ...body, key });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templateCategoriesQueryKey });
+      setEditing(null);
+      toast({ title: 'Category saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Save failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('DELETE', `/api/template-categories/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templateCategoriesQueryKey });
+      toast({ title: 'Category deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Delete failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const keyError = editing === 'new' ? validateTemplateCategoryKey(form.key) : null;
+  // A category cannot be moved under itself or one of its sub-categories
+  const excludedParentKeys = editing && editing !== 'new'
+    ? getTemplateCategoryKeysWithDescendants(categories, editing.key)
+    : [];
+  const parentOptions = categories.filter(category => !excludedParentKeys.includes(category.key));
+
+  return (
+    <div className="container mx-auto px-4 max-w-5xl">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+            <FolderTree className="h-6 w-6 text-blue-600" />
+            Template Categories
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Loại mẫu văn bản. Lọc theo một loại sẽ gồm cả các loại con.
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => openForm('new')} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Category
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="bg-gray-50 border-b px-6 py-4">
+          <CardTitle className="text-lg font-medium">Categories</CardTitle>
+          <CardDescription>The key is stored on templates and cannot be changed after creation.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="space-y-3 p-6">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : categories.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No categories yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>English</TableHead>
+                  <TableHead className="text-right">Templates</TableHead>
+                  {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categories.map(category => (
+                  <TableRow key={category.id}>
+                    <TableCell>
+                      <div style={{ paddingLeft: category.depth * 20 }}>
+                        <TemplateCategoryBadge category={category.key} />
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{category.key}</TableCell>
+                    <TableCell className="text-sm">
+                      {category.labelEn || <span className="text-gray-400">{'\u2014'}</span>}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{category.templateCount}</TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => openForm(category)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => {
+                            if (confirm(`Delete category "${category.label}"?`)) {
+                              deleteMutation.mutate(category.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New category' : 'Edit category'}</DialogTitle>
+            <DialogDescription>
+              Templates keep their category when it is renamed or moved under another category.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="category-label">Label (Tiếng Việt)</Label>
+                <Input
+                  id="category-label"
+                  value={form.label}
+                  onChange={(e) => setForm(prev => ({ ...prev, label: e.target.value }))}
+                  placeholder="Hợp đồng lao động"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="category-label-en">Label (English)</Label>
+                <Input
+                  id="category-label-en"
+                  value={form.labelEn}
+                  onChange={(e) => setForm(prev => ({ ...prev, labelEn: e.target.value }))}
+                  placeholder="Employment contract"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-key">Key</Label>
+              <Input
+                id="category-key"
+                value={form.key}
+                onChange={(e) => setForm(prev => ({ ...prev, key: e.target.value }))}
+                disabled={editing !== 'new'}
+                placeholder="employment-contract"
+                className="font-mono"
+              />
+              {keyError && form.key && <p className="text-xs text-red-600">{keyError}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Parent category</Label>
+              <Select value={form.parentId} onValueChange={(value) => setForm(prev => ({ ...prev, parentId: value }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{'\u2014'} None {'\u2014'}</SelectItem>
+                  {parentOptions.map(category => (
+                    <SelectItem key={category.id} value={category.id}>
+                      <span style={{ paddingLeft: category.depth * 12 }}>{category.label}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Icon</Label>
+                <Select value={form.icon} onValueChange={(value) => setForm(prev => ({ ...prev, icon: value as TemplateCategoryIcon }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {TEMPLATE_CATEGORY_ICONS.map(icon => (
+                      <SelectItem key={icon} value={icon}>
+                        <span className="flex items-center gap-2">
+                          <TemplateCategoryIconView icon={icon} className="h-4 w-4" />
+                          {icon}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="category-color">Colour</Label>
+                <Input
+                  id="category-color"
+                  type="color"
+                  value={form.color}
+                  onChange={(e) => setForm(prev => ({ ...prev, color: e.target.value }))}
+                  className="h-10 p-1"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="category-position">Position</Label>
+                <Input
+                  id="category-position"
+                  type="number"
+                  value={form.position}
+                  onChange={(e) => setForm(prev => ({ ...prev, position: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate(form)}
+              disabled={!form.label.trim() || !!keyError || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TemplateCategoriesPage;
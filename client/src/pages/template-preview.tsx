@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useLocation, useRoute } from 'wouter';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { ArrowLeft, FileText, Eye, Download, FileUp, Plus, AlertCircle, RefreshCw, Loader2, Table2, Settings2 } from 'lucide-react';
+import { ArrowLeft, FileText, Eye, Download, FileUp, Plus, AlertCircle, RefreshCw, Loader2, Table2, Settings2, History, Hash, BookOpen } from 'lucide-react';
 import { Link } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
@@ -9,10 +9,25 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbSeparator } from '@/components/ui/breadcrumb';
 import { useToast } from '@/hooks/use-toast';
-import { formatDate, getCategoryColor } from '@/lib/utils';
-import { Template, TemplateField } from '@shared/schema';
+import { formatDate } from '@/lib/utils';
+import { TemplateCategoryBadge } from '@/components/common/template-category';
+import { FieldDefinition, NumberingSequence, Template, TemplateField, TemplateVersion } from '@shared/schema';
+import TemplateReplaceDialog, { type TemplateReplacePreview } from '@/components/templates/template-replace-dialog';
+import { CHECKLIST_RENDER_MODES, type ChecklistRenderMode } from '@shared/checklist';
+
+const CHECKLIST_MODE_LABELS: Record<ChecklistRenderMode, string> = {
+  text: 'Nối chuỗi (A; B)',
+  boxes: 'Ô đánh dấu (☒/☐)',
+  list: 'Gạch đầu dòng',
+};
+
+interface TemplateVersionHistory {
+  currentVersion: number;
+  versions: Array<TemplateVersion & { isCurrent: boolean; documentCount: number }>;
+}
 
 const TemplatePreviewPage: React.FC = () => {
   const { toast } = useToast();
@@ -25,6 +40,9 @@ const TemplatePreviewPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [isReplacingFile, setIsReplacingFile] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [replacePreview, setReplacePreview] = useState<TemplateReplacePreview | null>(null);
+  const [migratingVersion, setMigratingVersion] = useState<number | null>(null);
   
   // Fetch template details
   const { 
@@ -95,6 +113,29 @@ const TemplatePreviewPage: React.FC = () => {
     }
   });
 
+  // Numbering sequences that can be assigned to a field
+  const { data: numberingSequences = [] } = useQuery<NumberingSequence[]>({
+    queryKey: ['/api/numbering-sequences'],
+  });
+
+  // Field dictionary entries a field can follow
+  const { data: fieldDefinitions = [] } = useQuery<FieldDefinition[]>({
+    queryKey: ['/api/field-definitions'],
+  });
+
+  // Fetch version history
+  const { data: versionHistory } = useQuery<TemplateVersionHistory>({
+    queryKey: ['/api/templates/versions', templateUuid],
+    queryFn: async () => {
+      const response = await fetch(`/api/templates/${templateUuid}/versions`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch template versions');
+      }
+      return response.json();
+    },
+    enabled: !!templateUuid && !isTemplateError,
+  });
+
   // State for preview load error
   const [previewError, setPreviewError] = useState<Error | null>(null);
   const [isPreviewError, setIsPreviewError] = useState(false);
@@ -175,57 +216,95 @@ const TemplatePreviewPage: React.FC = () => {
     fileInputRef.current?.click();
   };
 
+  const resetFileInput = () => {
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const submitReplaceFile = async (file: File, options: Record<string, string>) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    for (const [key, value] of Object.entries(options)) {
+      formData.append(key, value);
+    }
+
+    const response = await fetch(`/api/templates/${templateUuid}/file`, {
+      method: 'PUT',
+      body: formData,
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      let errorMsg = result.message || 'Failed to replace template file';
+      if (result.errors?.length > 0) {
+        errorMsg += `: ${result.errors.join('; ')}`;
+      }
+      throw new Error(errorMsg);
+    }
+
+    return result;
+  };
+
+  // Step 1: upload with dryRun to get the diff against the current version
   const handleReplaceFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file || !templateUuid) return;
 
-    const confirmReplace = window.confirm(
-      'Are you sure you want to replace the template file? The new file must have exactly the same fields as the original.'
-    );
-    
-    if (!confirmReplace) {
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-      return;
+    setIsReplacingFile(true);
+
+    try {
+      const result = await submitReplaceFile(file, { dryRun: 'true' });
+      setPendingFile(file);
+      setReplacePreview(result);
+    } catch (error) {
+      console.error('Replace file error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to replace template file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReplacingFile(false);
+      resetFileInput();
     }
+  };
+
+  const handleCloseReplaceDialog = () => {
+    setPendingFile(null);
+    setReplacePreview(null);
+  };
+
+  // Step 2: store the new file as a new version with the chosen renames
+  const handleConfirmReplace = async (fieldMapping: Record<string, string>, migrateDocuments: boolean) => {
+    if (!pendingFile || !templateUuid) return;
 
     setIsReplacingFile(true);
-    
+
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-      
-      const response = await fetch(`/api/templates/${templateUuid}/file`, {
-        method: 'PUT',
-        body: formData,
+      const result = await submitReplaceFile(pendingFile, {
+        fieldMapping: JSON.stringify(fieldMapping),
+        migrateDocuments: String(migrateDocuments),
       });
-      
-      const result = await response.json();
-      
-      if (!response.ok) {
-        let errorMsg = result.message || 'Failed to replace template file';
-        if (result.missingFields?.length > 0) {
-          errorMsg += `. Missing fields: ${result.missingFields.join(', ')}`;
-        }
-        if (result.extraFields?.length > 0) {
-          errorMsg += `. Extra fields: ${result.extraFields.join(', ')}`;
-        }
-        throw new Error(errorMsg);
-      }
-      
+
       queryClient.invalidateQueries({ queryKey: ['/api/templates', templateUuid] });
       queryClient.invalidateQueries({ queryKey: ['/api/templates/fields', templateUuid] });
-      
+      queryClient.invalidateQueries({ queryKey: ['/api/templates/versions', templateUuid] });
+
       const previewResponse = await fetch(`/api/templates/${templateUuid}/preview`);
       if (previewResponse.ok) {
         const previewData = await previewResponse.json();
         setPreviewHtml(previewData.previewHtml || '');
       }
-      
+
+      handleCloseReplaceDialog();
+
       toast({
         title: "Success",
-        description: "Template file replaced successfully",
+        description: result.pinnedDocuments > 0
+          ? `Template file replaced (version ${result.version}). ${result.pinnedDocuments} document(s) stay on the previous version.`
+          : `Template file replaced (version ${result.version})`,
       });
     } catch (error) {
       console.error('Replace file error:', error);
@@ -236,9 +315,75 @@ const TemplatePreviewPage: React.FC = () => {
       });
     } finally {
       setIsReplacingFile(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+    }
+  };
+
+  const handleFieldSettingChange = async (
+    fieldName: string,
+    setting:
+      | { checklistMode: ChecklistRenderMode }
+      | { numberingSequenceId: string | null }
+      | { fieldDefinitionId: string | null }
+  ) => {
+    if (!templateUuid) return;
+
+    try {
+      const response = await fetch(`/api/templates/${templateUuid}/fields/${encodeURIComponent(fieldName)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(setting),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to update field');
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/templates/fields', templateUuid] });
+      if ('fieldDefinitionId' in setting) {
+        queryClient.invalidateQueries({ queryKey: ['/api/field-definitions'] });
+      }
+    } catch (error) {
+      console.error('Update field error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update field",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMigrateVersion = async (fromVersion: number) => {
+    if (!templateUuid) return;
+
+    setMigratingVersion(fromVersion);
+
+    try {
+      const response = await fetch(`/api/templates/${templateUuid}/versions/migrate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fromVersion }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to migrate documents');
       }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/templates/versions', templateUuid] });
+      toast({
+        title: "Success",
+        description: result.message,
+      });
+    } catch (error) {
+      console.error('Migrate documents error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to migrate documents",
+        variant: "destructive",
+      });
+    } finally {
+      setMigratingVersion(null);
     }
   };
 
@@ -379,6 +524,15 @@ const TemplatePreviewPage: React.FC = () => {
           </div>
         )}
       </div>
+
+      <TemplateReplaceDialog
+        isOpen={!!replacePreview}
+        fileName={pendingFile?.name || ''}
+        preview={replacePreview}
+        isSubmitting={isReplacingFile}
+        onClose={handleCloseReplaceDialog}
+        onConfirm={handleConfirmReplace}
+      />
       
       {/* Template details */}
       {!isPageLoading && template && (
@@ -391,12 +545,7 @@ const TemplatePreviewPage: React.FC = () => {
               </div>
               <div>
                 <p className="text-sm font-medium text-gray-500">Category</p>
-                <Badge 
-                  variant="outline"
-                  className={`bg-${getCategoryColor(template.category)}-50 text-${getCategoryColor(template.category)}-700 border-${getCategoryColor(template.category)}-200`}
-                >
-                  {template.category}
-                </Badge>
+                <TemplateCategoryBadge category={template.category} />
               </div>
               <div>
                 <p className="text-sm font-medium text-gray-500">Last Updated</p>
@@ -426,6 +575,8 @@ const TemplatePreviewPage: React.FC = () => {
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
               {fields.map((field) => {
                 const isTable = (field as any).fieldType === 'row_group';
+                const isNumberable = !['row_group', 'checklist', 'image'].includes(field.fieldType) && !field.expression;
+                const isLinkable = !['row_group', 'image'].includes(field.fieldType) && !field.expression;
                 return (
                   <div key={field.uuid} className={`border rounded-md p-3 ${isTable ? 'bg-blue-50 border-blue-200' : 'bg-gray-50'}`}>
                     <div className="flex items-center gap-2">
@@ -441,6 +592,64 @@ const TemplatePreviewPage: React.FC = () => {
                           Required
                         </Badge>
                       )}
+                      {field.fieldType === 'checklist' && (
+                        <Select
+                          value={field.checklistMode}
+                          onValueChange={(mode) => handleFieldSettingChange(field.name, { checklistMode: mode as ChecklistRenderMode })}
+                        >
+                          <SelectTrigger className="h-7 w-auto text-xs" title="Cách in checklist trong văn bản">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CHECKLIST_RENDER_MODES.map(mode => (
+                              <SelectItem key={mode} value={mode} className="text-xs">
+                                {CHECKLIST_MODE_LABELS[mode]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {isLinkable && fieldDefinitions.length > 0 && (
+                        <Select
+                          value={field.fieldDefinitionId ?? 'none'}
+                          onValueChange={(id) => handleFieldSettingChange(field.name, { fieldDefinitionId: id === 'none' ? null : id })}
+                        >
+                          <SelectTrigger
+                            className={`h-7 w-auto text-xs ${field.fieldDefinitionId ? 'border-emerald-300 bg-emerald-50 text-emerald-700' : ''}`}
+                            title="Trường dùng chung: nhãn, kiểu, lựa chọn và ràng buộc lấy từ từ điển trường"
+                          >
+                            <BookOpen className="h-3 w-3 mr-1" />
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none" className="text-xs">Không dùng từ điển</SelectItem>
+                            {fieldDefinitions.map(definition => (
+                              <SelectItem key={definition.id} value={definition.id} className="text-xs">
+                                {definition.label} ({definition.name})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {isNumberable && numberingSequences.length > 0 && (
+                        <Select
+                          value={field.numberingSequenceId ?? 'none'}
+                          onValueChange={(id) => handleFieldSettingChange(field.name, { numberingSequenceId: id === 'none' ? null : id })}
+                        >
+                          <SelectTrigger className="h-7 w-auto text-xs" title="Số văn bản cấp tự động">
+                            <Hash className="h-3 w-3 mr-1 text-gray-500" />
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none" className="text-xs">Không đánh số</SelectItem>
+                            {numberingSequences.map(sequence => (
+                              <SelectItem key={sequence.id} value={sequence.id} className="text-xs">
+                                {sequence.name} ({sequence.pattern})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
                       {isTable && (
                         <Link href={`/template/${templateUuid}/table/${field.name}`}>
                           <Badge variant="outline" className="bg-blue-100 text-blue-700 border-blue-300 text-xs cursor-pointer hover:bg-blue-200 flex items-center gap-1">
@@ -458,6 +667,69 @@ const TemplatePreviewPage: React.FC = () => {
         </Card>
       )}
       
+      {/* Version history */}
+      {!isPageLoading && versionHistory && versionHistory.versions.length > 1 && (
+        <Card className="mb-6">
+          <CardHeader className="bg-gray-50 border-b px-6 py-4">
+            <CardTitle className="text-lg font-medium flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Version History
+            </CardTitle>
+            <CardDescription>
+              Documents on older versions keep rendering with their version's file until migrated
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 space-y-3">
+            {[...versionHistory.versions].reverse().map((version) => {
+              const changes = version.diff
+                ? [
+                    ...version.diff.fields.added.map(n => `+${n}`),
+                    ...version.diff.fields.removed.map(n => `-${n}`),
+                    ...version.diff.fields.renamed.map(r => `${r.from} → ${r.to}`),
+                    ...version.diff.tables.added.map(n => `+<<${n}>>`),
+                    ...version.diff.tables.removed.map(n => `-<<${n}>>`),
+                    ...version.diff.tables.renamed.map(r => `<<${r.from}>> → <<${r.to}>>`),
+                    ...version.diff.blocks.added.map(n => `+#${n}`),
+                    ...version.diff.blocks.removed.map(n => `-#${n}`),
+                    ...version.diff.blocks.renamed.map(r => `#${r.from} → #${r.to}`),
+                  ]
+                : [];
+              return (
+                <div key={version.id} className="border rounded-md p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-sm">Version {version.version}</p>
+                      {version.isCurrent && (
+                        <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200 text-xs">
+                          Current
+                        </Badge>
+                      )}
+                      <span className="text-xs text-gray-500">{version.originalName} · {formatDate(version.createdAt)}</span>
+                    </div>
+                    {changes.length > 0 && (
+                      <p className="text-xs text-gray-600">{changes.join(', ')}</p>
+                    )}
+                    <p className="text-xs text-gray-500">{version.documentCount} document(s)</p>
+                  </div>
+                  {!version.isCurrent && version.documentCount > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleMigrateVersion(version.version)}
+                      disabled={migratingVersion !== null}
+                      className="flex items-center gap-2"
+                    >
+                      {migratingVersion === version.version && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Migrate to v{versionHistory.currentVersion}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+      
       {/* Template preview */}
       <Card className="mb-6 overflow-hidden">
         <CardHeader className="bg-gray-50 border-b px-6 py-4">
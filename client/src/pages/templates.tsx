@@ -1,18 +1,23 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { FileUp, Search, RefreshCw, ChevronLeft, ChevronRight, EyeOff, Eye } from 'lucide-react';
+import { FileUp, Search, RefreshCw, ChevronLeft, ChevronRight, EyeOff, Eye, Folder, Star } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
-import { Badge } from '@/components/ui/badge';
 import TemplateGrid from '@/components/templates/template-grid';
 import TemplateList from '@/components/templates/template-list';
 import UploadTemplateModal from '@/components/templates/upload-template-modal';
 import PreviewTemplateModal from '@/components/templates/preview-template-modal';
 import CreateDocumentModal from '@/components/documents/create-document-modal';
 import { NewBatchCreateModal } from '@/components/templates/new-batch-create-modal';
+import { TemplateCategoryBadge, TemplateCategorySelectItems, useTemplateCategories } from '@/components/common/template-category';
+import TemplateOrganizeDialog, {
+  templateFoldersQueryKey,
+  templateTagsQueryKey,
+  type TemplateFolderWithTemplates,
+} from '@/components/templates/template-organize-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { Template } from '@shared/schema';
 import { apiRequest } from '@/lib/queryClient';
@@ -27,7 +32,7 @@ function useDebouncedValue<T>(value: T, delay: number): T {
 }
 
 interface TemplatesResponse {
-  templates: Template[];
+  templates: Array<Template & { favorite: boolean }>;
   pagination: {
     page: number;
     limit: number;
@@ -47,6 +52,11 @@ const TemplatesPage: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const debouncedSearchQuery = useDebouncedValue(searchQuery, 300);
   const [categoryFilter, setCategoryFilter] = useState('all');
+  const { categories } = useTemplateCategories();
+  // 'all', 'favorites' or the id of one of the user's folders
+  const [collectionFilter, setCollectionFilter] = useState('all');
+  const [tagFilter, setTagFilter] = useState('all');
+  const [organizeTemplateUuid, setOrganizeTemplateUuid] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState('latest');
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(12);
@@ -60,11 +70,14 @@ const TemplatesPage: React.FC = () => {
   const [isHiddenDialogOpen, setIsHiddenDialogOpen] = useState(false);
 
   const { data, isLoading, isError, refetch } = useQuery<TemplatesResponse>({
-    queryKey: ['/api/templates', debouncedSearchQuery, categoryFilter, sortOrder, currentPage, pageSize],
+    queryKey: ['/api/templates', debouncedSearchQuery, categoryFilter, collectionFilter, tagFilter, sortOrder, currentPage, pageSize],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (debouncedSearchQuery) params.append('search', debouncedSearchQuery);
       if (categoryFilter !== 'all') params.append('category', categoryFilter);
+      if (collectionFilter === 'favorites') params.append('favorites', 'true');
+      else if (collectionFilter !== 'all') params.append('folder', collectionFilter);
+      if (tagFilter !== 'all') params.append('tags', tagFilter);
       params.append('sort', sortOrder);
       params.append('page', currentPage.toString());
       params.append('limit', pageSize.toString());
@@ -88,7 +101,18 @@ const TemplatesPage: React.FC = () => {
     enabled: isHiddenDialogOpen,
   });
 
+  const { data: folders = [] } = useQuery<TemplateFolderWithTemplates[]>({ queryKey: templateFoldersQueryKey });
+  const { data: tags = [] } = useQuery<Array<{ tag: string; count: number }>>({ queryKey: templateTagsQueryKey });
+
+  // The selected folder was deleted (from the organize dialog)
+  useEffect(() => {
+    if (collectionFilter !== 'all' && collectionFilter !== 'favorites' && !folders.some(f => f.id === collectionFilter)) {
+      setCollectionFilter('all');
+    }
+  }, [folders, collectionFilter]);
+
   const templates = data?.templates || [];
+  const organizeTemplate = templates.find(t => t.uuid === organizeTemplateUuid) ?? null;
   const pagination = data?.pagination || { page: 1, limit: pageSize, total: 0 };
   const stats = data?.stats || { total: 0, active: 0, archived: 0 };
   const totalPages = Math.ceil(pagination.total / pagination.limit);
@@ -132,6 +156,16 @@ const TemplatesPage: React.FC = () => {
     setCurrentPage(1);
   };
 
+  const handleCollectionChange = (collection: string) => {
+    setCollectionFilter(collection);
+    setCurrentPage(1);
+  };
+
+  const handleTagChange = (tag: string) => {
+    setTagFilter(tag);
+    setCurrentPage(1);
+  };
+
   const handleSortChange = (sort: string) => {
     setSortOrder(sort);
     setCurrentPage(1);
@@ -329,15 +363,47 @@ const TemplatesPage: React.FC = () => {
                   </SelectTrigger>
                   <SelectContent className="z-50">
                     <SelectItem value="all">All Categories</SelectItem>
-                    <SelectItem value="legal">Legal</SelectItem>
-                    <SelectItem value="financial">Financial</SelectItem>
-                    <SelectItem value="hr">HR</SelectItem>
-                    <SelectItem value="marketing">Marketing</SelectItem>
-                    <SelectItem value="general">General</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
+                    <TemplateCategorySelectItems categories={categories} />
                   </SelectContent>
                 </Select>
                 
+                <Select onValueChange={handleCollectionChange} value={collectionFilter}>
+                  <SelectTrigger className="w-[150px]">
+                    <SelectValue placeholder="All templates" />
+                  </SelectTrigger>
+                  <SelectContent className="z-50">
+                    <SelectItem value="all">All templates</SelectItem>
+                    <SelectItem value="favorites">
+                      <span className="flex items-center gap-2">
+                        <Star className="h-3.5 w-3.5 text-amber-500" fill="currentColor" />
+                        Yêu thích
+                      </span>
+                    </SelectItem>
+                    {folders.map(folder => (
+                      <SelectItem key={folder.id} value={folder.id}>
+                        <span className="flex items-center gap-2">
+                          <Folder className="h-3.5 w-3.5 text-gray-500" />
+                          {folder.name}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {tags.length > 0 && (
+                  <Select onValueChange={handleTagChange} value={tagFilter}>
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue placeholder="All tags" />
+                    </SelectTrigger>
+                    <SelectContent className="z-50">
+                      <SelectItem value="all">All tags</SelectItem>
+                      {tags.map(({ tag, count }) => (
+                        <SelectItem key={tag} value={tag}>{tag} ({count})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
                 <Select onValueChange={handleSortChange} value={sortOrder}>
                   <SelectTrigger className="w-[140px]">
                     <SelectValue placeholder="Sort By" />
@@ -391,16 +457,18 @@ const TemplatesPage: React.FC = () => {
             <FileUp className="h-12 w-12 text-gray-300 mb-4" />
             <p className="text-lg font-medium text-gray-800 mb-1">No templates found</p>
             <p className="text-gray-500 mb-6 max-w-md text-center">
-              {searchQuery || categoryFilter !== 'all' 
+              {searchQuery || categoryFilter !== 'all' || collectionFilter !== 'all' || tagFilter !== 'all'
                 ? "Try adjusting your search or filter criteria" 
                 : "Upload a template to get started"}
             </p>
-            {searchQuery || categoryFilter !== 'all' ? (
+            {searchQuery || categoryFilter !== 'all' || collectionFilter !== 'all' || tagFilter !== 'all' ? (
               <Button 
                 variant="outline" 
                 onClick={() => {
                   setSearchQuery('');
                   setCategoryFilter('all');
+                  setCollectionFilter('all');
+                  setTagFilter('all');
                   setCurrentPage(1);
                 }}
                 className="flex items-center gap-2"
@@ -426,6 +494,7 @@ const TemplatesPage: React.FC = () => {
                 onExportExcel={handleExportExcel}
                 onBatchCreate={handleBatchCreate}
                 onArchiveTemplate={handleArchiveTemplate}
+                onOrganizeTemplate={setOrganizeTemplateUuid}
               />
             ) : (
               <TemplateList
@@ -436,6 +505,7 @@ const TemplatesPage: React.FC = () => {
                 onExportExcel={handleExportExcel}
                 onBatchCreate={handleBatchCreate}
                 onArchiveTemplate={handleArchiveTemplate}
+                onOrganizeTemplate={setOrganizeTemplateUuid}
               />
             )}
             
@@ -522,9 +592,7 @@ const TemplatesPage: React.FC = () => {
                       <p className="text-sm font-medium text-gray-900 truncate">
                         {template.name}
                       </p>
-                      <Badge variant="outline" className="text-xs bg-blue-50 text-blue-700 border-blue-200">
-                        {template.category}
-                      </Badge>
+                      <TemplateCategoryBadge category={template.category} className="text-xs" />
                     </div>
                     <p className="text-xs text-gray-500 mt-1 truncate">
                       {template.description || 'No description'}
@@ -547,6 +615,11 @@ const TemplatesPage: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      <TemplateOrganizeDialog
+        template={organizeTemplate}
+        onClose={() => setOrganizeTemplateUuid(null)}
+      />
+
       <UploadTemplateModal
         isOpen={isUploadModalOpen}
         onClose={() => setIsUploadModalOpen(false)}
@@ -1,11 +1,11 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
-import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { storage, toPublicUser } from "./storage-uuid";
+import { insertUserSchema, User as SelectUser, UserRole } from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -15,7 +15,14 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+/** Higher rank includes the permissions of the lower ones */
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+};
+
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
@@ -23,9 +30,85 @@ async function hashPassword(password: string) {
 
 async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
-  return timingSafeEqual(hashedBuf, suppliedBuf);
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Role of a user on a template: a template permission overrides the global role,
+ * except for admins who keep full access everywhere.
+ */
+export async function getTemplateRole(user: SelectUser, templateUuid: string): Promise<UserRole> {
+  if (user.role === 'admin') return 'admin';
+  const permission = await storage.getTemplatePermission(templateUuid, user.id);
+  return permission ? permission.role : user.role;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+}
+
+/**
+ * Allow users with at least the given global role.
+ */
+export function requireRole(role: UserRole): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    if (!hasRole(req.user.role, role)) {
+      return res.status(403).json({ message: `Requires ${role} role` });
+    }
+    next();
+  };
+}
+
+/** Finds the template a request acts on */
+type TemplateUuidResolver = (req: Request) => Promise<string | undefined>;
+
+/**
+ * Template of routes that act on a document or a batch instead of a template.
+ * Unknown entities resolve to undefined and are left to the route (404 / 400).
+ */
+export const templateOf: Record<'params' | 'body' | 'document' | 'batchSession' | 'batchDocument', TemplateUuidResolver> = {
+  params: async (req) => req.params.uuid,
+  body: async (req) => typeof req.body?.templateUuid === 'string' ? req.body.templateUuid : undefined,
+  document: (req) => storage.getDocumentTemplateUuid(req.params.uuid),
+  batchSession: (req) => storage.getBatchSessionTemplateUuid(req.params.uuid),
+  batchDocument: (req) => storage.getBatchDocumentTemplateUuid(req.params.documentUuid),
+};
+
+/**
+ * Allow users with at least the given role on a template: by default the one in req.params.uuid,
+ * otherwise the template of the document / batch the route acts on (see templateOf).
+ */
+export function requireTemplateRole(role: UserRole, resolveTemplateUuid: TemplateUuidResolver = templateOf.params): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    try {
+      const templateUuid = await resolveTemplateUuid(req);
+      if (!templateUuid) return next();
+
+      const templateRole = await getTemplateRole(req.user, templateUuid);
+      if (!hasRole(templateRole, role)) {
+        return res.status(403).json({ message: `Requires ${role} role on this template` });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
 }
 
 export function setupAuth(app: Express) {
@@ -63,10 +146,11 @@ export function setupAuth(app: Express) {
   );
 
   passport.serializeUser((user, done) => done(null, user.id));
-  passport.deserializeUser(async (id: number, done) => {
+  passport.deserializeUser(async (id: string, done) => {
     try {
+      // A deleted user ends the session instead of failing the request
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, user ?? false);
     } catch (error) {
       done(error);
     }
@@ -74,21 +158,26 @@ export function setupAuth(app: Express) {
 
   app.post("/api/register", async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const parsed = insertUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid registration data" });
+      }
+
+      const existingUser = await storage.getUserByUsername(parsed.data.username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
-      const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
+      // The role is never taken from the request: the first account administers the others
+      const user = await storage.registerUser({
+        username: parsed.data.username,
+        email: parsed.data.email,
+        password: await hashPassword(parsed.data.password),
       });
 
       req.login(user, (err) => {
         if (err) return next(err);
-        // Return user without password
-        const { password, ...userWithoutPassword } = user;
-        res.status(201).json(userWithoutPassword);
+        res.status(201).json(toPublicUser(user));
       });
     } catch (error) {
       next(error);
@@ -96,15 +185,13 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err, user, info) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
       if (err) return next(err);
       if (!user) return res.status(401).json({ message: "Invalid credentials" });
-      
+
       req.login(user, (err) => {
         if (err) return next(err);
-        // Return user without password
-        const { password, ...userWithoutPassword } = user;
-        res.status(200).json(userWithoutPassword);
+        res.status(200).json(toPublicUser(user));
       });
     })(req, res, next);
   });
@@ -118,8 +205,6 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
-    // Return user without password
-    const { password, ...userWithoutPassword } = req.user as Express.User;
-    res.json(userWithoutPassword);
+    res.json(toPublicUser(req.user));
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,93 @@
+/**
+ * API controllers for the column mapping presets of batch uploads.
+ *
+ * Endpoints:
+ *   GET    /api/templates/:uuid/batch-mapping-presets       — presets of the template
+ *   POST   /api/templates/:uuid/batch-mapping-presets       — save a preset { name, mapping }, same name replaces it
+ *   DELETE /api/templates/:uuid/batch-mapping-presets/:id   — delete a preset
+ *
+ * Column suggestions come with the Excel preview (POST /api/templates/:uuid/parse-excel) and the
+ * confirmed mapping is sent with the upload (POST /api/templates/:uuid/upload-batch { mapping }).
+ */
+
+import { Request, Response } from 'express';
+import { storage } from '../storage-uuid';
+import {
+  isBatchMappableField,
+  MAX_BATCH_MAPPING_PRESET_NAME_LENGTH,
+  validateBatchColumnMapping,
+  type BatchColumnMapping,
+} from '@shared/batch-mapping';
+import {
+  deleteBatchMappingPreset,
+  getBatchMappingPresets,
+  saveBatchMappingPreset,
+} from '../services/batch-mapping.service';
+
+export async function listPresets(req: Request, res: Response) {
+  try {
+    res.json(await getBatchMappingPresets(req.params.uuid));
+  } catch (error) {
+    console.error('Error fetching batch mapping presets:', error);
+    res.status(500).json({
+      message: 'Failed to fetch batch mapping presets',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function savePreset(req: Request, res: Response) {
+  try {
+    const template = await storage.getTemplateByUuid(req.params.uuid);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ message: 'name is required' });
+    }
+    if (name.length > MAX_BATCH_MAPPING_PRESET_NAME_LENGTH) {
+      return res.status(400).json({ message: `name must be at most ${MAX_BATCH_MAPPING_PRESET_NAME_LENGTH} characters` });
+    }
+
+    const fieldNames = (await storage.getTemplateFields(template.uuid)).filter(isBatchMappableField).map(field => field.name);
+    const mappingError = validateBatchColumnMapping(req.body?.mapping, fieldNames);
+    if (mappingError) {
+      return res.status(400).json({ message: mappingError });
+    }
+
+    const preset = await saveBatchMappingPreset({
+      templateUuid: template.uuid,
+      name,
+      mapping: req.body.mapping as BatchColumnMapping,
+      createdBy: req.user?.id,
+    });
+    console.log(`[BatchMapping] ${req.user?.username} saved preset "${preset.name}" of template ${template.uuid}`);
+
+    res.status(201).json(preset);
+  } catch (error) {
+    console.error('Error saving batch mapping preset:', error);
+    res.status(500).json({
+      message: 'Failed to save batch mapping preset',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function deletePreset(req: Request, res: Response) {
+  try {
+    const deleted = await deleteBatchMappingPreset(req.params.uuid, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Preset not found' });
+    }
+
+    res.json({ message: 'Preset deleted' });
+  } catch (error) {
+    console.error('Error deleting batch mapping preset:', error);
+    res.status(500).json({
+      message: 'Failed to delete batch mapping preset',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -5,14 +5,55 @@ import {
   getBatchSession,
   updateBatchDocumentStatus,
   getApprovedDocuments,
-  deleteBatchSession
+  deleteBatchSession,
+  batchDocumentTableRows,
+  parseBatchWorkbook
 } from '../services/batch.service';
-import { createCompleteDocument } from '../services/document-generator';
 import { documentService } from '../services/document.service';
 import archiver from 'archiver';
 import fs from 'fs';
-import path from 'path';
 import { sanitizeFilename } from '../utils/filename-encoder';
+import { DOCUMENT_EXPORT_FORMATS, parseExportFormat, PdfConverterUnavailableError } from '../services/pdf-converter.service';
+import { documentGeneratorCache } from '../services/document-generator-cache.service';
+import { chunkArray, loadDocumentsGenerationData, selectDocumentsForGeneration } from '../services/document-data.service';
+import { loadDocumentRenderOptions } from '../services/image-fields.service';
+import { db } from '@db';
+import { documents as documentsTable, templateTables } from '@shared/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { recordAuditEvent, recordAuditEvents, type AuditEventInput } from '../services/audit.service';
+import { BatchWorkbookError, getBatchFileFormat, toBatchWorkbookBuffer } from '../services/batch-workbook.service';
+import { isBatchMappableField, validateBatchColumnMapping, type BatchColumnMapping } from '@shared/batch-mapping';
+import { buildBatchValidationReport, getBatchReportPath } from '../services/batch-validation.service';
+import { BatchJobError, cancelBatchJob, getLatestBatchJob, startBatchJob, toBatchJobResponse } from '../services/batch-job.service';
+import { planBatchUpdate } from '../services/batch-update.service';
+
+/**
+ * Column mapping (JSON) and key field sent as form fields with the batch file.
+ * Without a mapping the suggestions are used; without a key field every row creates a document.
+ */
+function readBatchUploadOptions(
+  body: Record<string, unknown> | undefined,
+  templateFields: Array<{ name: string; fieldType: string; expression?: string | null; numberingSequenceId?: string | null }>
+): { columnMapping: BatchColumnMapping | null; keyField: string | null } | { error: string } {
+  const fieldNames = templateFields.filter(isBatchMappableField).map(field => field.name);
+
+  let columnMapping: BatchColumnMapping | null = null;
+  if (body?.mapping) {
+    try {
+      columnMapping = JSON.parse(String(body.mapping));
+    } catch {
+      return { error: 'mapping must be valid JSON' };
+    }
+    const mappingError = validateBatchColumnMapping(columnMapping, fieldNames);
+    if (mappingError) return { error: mappingError };
+  }
+
+  const keyField = typeof body?.keyField === 'string' && body.keyField.trim() !== '' ? body.keyField.trim() : null;
+  if (keyField && !fieldNames.includes(keyField)) {
+    return { error: `Key field "${keyField}" is not a field of the template` };
+  }
+  return { columnMapping, keyField };
+}
 
 /**
  * Upload Excel và tạo batch session mới
@@ -52,8 +93,8 @@ export async function uploadBatchExcel(req: Request, res: Response) {
     });
 
     // Validate file type
-    if (!req.file.originalname.match(/\.(xlsx|xls)$/)) {
-      return res.status(400).json({ message: 'Only Excel files (.xlsx, .xls) are allowed' });
+    if (!getBatchFileFormat(req.file.originalname)) {
+      return res.status(400).json({ message: 'Only Excel (.xlsx, .xls) and CSV / TSV (.csv, .tsv) files are allowed' });
     }
 
     // Template already retrieved above
@@ -63,20 +104,15 @@ export async function uploadBatchExcel(req: Request, res: Response) {
       return res.status(400).json({ message: 'Template has no fields configured' });
     }
 
-    // Guard: batch Excel is not supported for templates with table (row_group) or chorus block fields
-    const tableFields = templateFields.filter(f => f.fieldType === 'row_group' || f.fieldType === 'block');
-    if (tableFields.length > 0) {
-      const hasBlocks = templateFields.some(f => f.fieldType === 'block');
-      return res.status(400).json({
-        message: hasBlocks
-          ? 'Batch Excel upload is not supported for templates that contain chorus block sections'
-          : 'Batch Excel upload is not supported for templates that contain table fields',
-        tableFields: tableFields.map(f => f.name),
-        hint: hasBlocks
-          ? 'Templates with {%#BLOCKNAME%}...{%/BLOCKNAME%} sections must be filled individually'
-          : 'Templates with <<TABLE_NAME>> markers must be filled individually using the table data entry interface',
-      });
+    // Column mapping confirmed in the upload dialog; rows matching the key field update existing documents
+    const options = readBatchUploadOptions(req.body, templateFields);
+    if ('error' in options) {
+      return res.status(400).json({ message: options.error });
     }
+    const { columnMapping, keyField } = options;
+
+    // Tables and chorus blocks are filled from the extra sheets of the workbook
+    const tables = await db.select().from(templateTables).where(eq(templateTables.templateUuid, templateUuid));
 
     console.log('Template fields:', templateFields.length);
 
@@ -93,114 +129,142 @@ export async function uploadBatchExcel(req: Request, res: Response) {
       throw new Error('No file buffer or path available');
     }
 
-    // Create batch session with Excel data
-    const batchData = await createBatchSession(
-      template.uuid,
-      req.file.originalname,
-      fileBuffer,
-      templateFields
-    );
-
-    console.log('Batch session created successfully:', batchData.sessionId);
+    // CSV / TSV are converted to a workbook once; the job and the validation report read the workbook
+    const { buffer: workbookBuffer, source } = toBatchWorkbookBuffer(fileBuffer, req.file.originalname);
+    if (source.encoding) {
+      console.log(`[Batch] ${source.format.toUpperCase()} read as ${source.encoding}, delimiter ${JSON.stringify(source.delimiter)}`);
+    }
 
-    // Automatically create documents from the batch session
-    try {
-      const approvedDocs = await getApprovedDocuments(batchData.sessionId);
-      
-      if (approvedDocs.length === 0) {
-        return res.status(400).json({ message: 'No documents found in batch session' });
+    // Structure errors (missing columns, unknown keys) are reported now; the rows are stored by the job
+    const { layout, rows, unknownColumns } = parseBatchWorkbook(workbookBuffer, templateFields, tables, columnMapping, keyField);
+    if (keyField && !layout.columnFields.includes(keyField)) {
+      return res.status(400).json({ message: `Key field "${keyField}" is not mapped to a column` });
+    }
+    const invalidRows = rows.filter(row => Object.keys(row.fieldErrors).length > 0);
+
+    // The job reads the workbook again from disk, also after a restart
+    let filePath = req.file.path;
+    if (!filePath || workbookBuffer !== fileBuffer) {
+      filePath = `storage/temp/batch-${Date.now()}-${Math.round(Math.random() * 1E9)}.xlsx`;
+      await fs.promises.writeFile(filePath, workbookBuffer);
+      if (req.file.path) {
+        await fs.promises.rm(req.file.path, { force: true });
       }
+    }
 
-      console.log('Found', approvedDocs.length, 'documents to create');
+    const session = await createBatchSession({
+      templateUuid: template.uuid,
+      fileName: req.file.originalname,
+      filePath,
+      totalRows: rows.length,
+      columnMapping,
+      keyField,
+      createdBy: req.user?.id
+    });
 
-      const results = [];
-      const errors = [];
+    console.log('Batch session created successfully:', session.uuid);
 
-      // Create each document
-      for (const batchDoc of approvedDocs) {
-        try {
-          console.log('Creating document:', batchDoc.name);
-          
-          // Transform fields format for document generator
-          const fields = batchDoc.fields.map(f => ({
-            fieldName: f.fieldName,
-            fieldValue: f.fieldValue || ''
-          }));
-
-          // Prepare field values for document generation
-          const fieldValues: Record<string, string> = {};
-          fields.forEach(field => {
-            fieldValues[field.fieldName] = field.fieldValue || '';
-          });
-
-          // Use complete document generation pipeline
-          const document = await createCompleteDocument({
-            templateUuid: template.uuid,
-            templateFilePath: template.filePath,
-            documentName: batchDoc.name,
-            fieldValues,
-            fields,
-            storage
-          });
-
-          // Update batch document status and link to final document
-          await updateBatchDocumentStatus(batchDoc.uuid, 'created');
-          
-          results.push({
-            batchDocumentId: batchDoc.uuid,
-            documentId: document.uuid,
-            documentName: document.name,
-            success: true
-          });
-
-          console.log('Document created successfully:', document.name);
+    // Annotated copy of the workbook to fix the invalid cells and upload again
+    const hasReport = invalidRows.length > 0 || unknownColumns.length > 0;
+    if (hasReport) {
+      await fs.promises.writeFile(
+        getBatchReportPath(session.uuid),
+        buildBatchValidationReport(workbookBuffer, layout, rows, unknownColumns)
+      );
+    }
 
-        } catch (error) {
-          console.error('Error creating document:', batchDoc.name, error);
-          errors.push({
-            batchDocumentId: batchDoc.uuid,
-            documentName: batchDoc.name,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-        }
+    await recordAuditEvent({
+      entityType: 'batch_session',
+      entityUuid: session.uuid,
+      action: 'create',
+      user: req.user,
+      after: { templateUuid: template.uuid, fileName: req.file.originalname, totalRows: rows.length, ...(keyField && { keyField }) },
+    });
+
+    // Rows are stored and documents created in the background, progress via GET /api/batch/:uuid
+    const job = await startBatchJob({
+      sessionUuid: session.uuid,
+      kind: 'import',
+      totalRows: rows.length,
+      createdBy: req.user?.id
+    });
+
+    return res.status(202).json({
+      success: true,
+      message: `Excel accepted: ${rows.length - invalidRows.length} documents will be ${keyField ? 'created or updated' : 'created'} in the background, ${invalidRows.length} rows are invalid`,
+      sessionId: session.uuid,
+      templateUuid: template.uuid,
+      fileName: req.file.originalname,
+      totalDocuments: rows.length,
+      keyField,
+      source,
+      job: toBatchJobResponse(job),
+      validation: {
+        invalidRows: invalidRows.length,
+        unknownColumns,
+        rows: invalidRows.map(row => ({ rowIndex: row.rowIndex, documentName: row.documentName, fieldErrors: row.fieldErrors })),
+        reportUrl: hasReport ? `/api/batch/${session.uuid}/validation-report` : null
       }
+    });
+
+  } catch (error) {
+    if (error instanceof BatchWorkbookError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Error in uploadBatchExcel:', error);
+    return res.status(500).json({
+      message: 'Failed to process Excel file',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
 
-      console.log('Batch creation completed:', results.length, 'created,', errors.length, 'failed');
+/**
+ * Xem trước batch cập nhật theo khóa: dòng nào tạo mới, cập nhật hay không đổi. Không ghi gì.
+ * POST /api/templates/:uuid/upload-batch/preview
+ */
+export async function previewBatchUpdate(req: Request, res: Response) {
+  try {
+    const template = await storage.getTemplateByUuid(req.params.uuid);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+    if (!req.file) {
+      return res.status(400).json({ message: 'No Excel file uploaded' });
+    }
 
-      return res.status(200).json({
-        success: true,
-        message: `Excel processed and documents created: ${results.length} created, ${errors.length} failed`,
-        sessionId: batchData.sessionId,
-        templateUuid: batchData.templateUuid,
-        fileName: batchData.fileName,
-        totalDocuments: batchData.documents.length,
-        created: results.length,
-        failed: errors.length,
-        documentUuids: results.map(r => r.documentId),
-        results,
-        errors: errors.length > 0 ? errors : undefined
-      });
+    const templateFields = await storage.getTemplateFields(template.uuid);
+    const options = readBatchUploadOptions(req.body, templateFields);
+    if ('error' in options) {
+      return res.status(400).json({ message: options.error });
+    }
+    if (!options.keyField) {
+      return res.status(400).json({ message: 'keyField is required' });
+    }
 
-    } catch (docCreationError) {
-      console.error('Error in automatic document creation:', docCreationError);
-      return res.status(200).json({
-        success: true,
-        message: 'Excel file processed successfully but document creation failed',
-        sessionId: batchData.sessionId,
-        templateUuid: batchData.templateUuid,
-        fileName: batchData.fileName,
-        totalDocuments: batchData.documents.length,
-        documents: batchData.documents,
-        error: docCreationError instanceof Error ? docCreationError.message : 'Unknown error'
-      });
+    const tables = await db.select().from(templateTables).where(eq(templateTables.templateUuid, template.uuid));
+    const { buffer: workbookBuffer } = toBatchWorkbookBuffer(await fs.promises.readFile(req.file.path), req.file.originalname);
+    const { layout, rows } = parseBatchWorkbook(workbookBuffer, templateFields, tables, options.columnMapping, options.keyField);
+    if (!layout.columnFields.includes(options.keyField)) {
+      return res.status(400).json({ message: `Key field "${options.keyField}" is not mapped to a column` });
     }
 
+    return res.status(200).json(await planBatchUpdate(template.uuid, options.keyField, rows));
+
   } catch (error) {
-    console.error('Error in uploadBatchExcel:', error);
+    if (error instanceof BatchWorkbookError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Error in previewBatchUpdate:', error);
     return res.status(500).json({
-      message: 'Failed to process Excel file',
+      message: 'Failed to preview batch update',
       error: error instanceof Error ? error.message : 'Unknown error'
     });
+  } finally {
+    // The file is uploaded again when the preview is confirmed
+    if (req.file?.path) {
+      await fs.promises.rm(req.file.path, { force: true });
+    }
   }
 }
 
@@ -227,8 +291,12 @@ export async function getBatchSessionInfo(req: Request, res: Response) {
       fields: doc.fields.map(f => ({
         fieldName: f.fieldName,
         fieldValue: f.fieldValue
-      }))
+      })),
+      tableData: batchDocumentTableRows(doc),
+      errorMessage: doc.errorMessage,
+      documentUuid: doc.documentUuid
     }));
+    const job = await getLatestBatchJob(session.uuid);
 
     return res.status(200).json({
       sessionId: session.uuid,
@@ -238,7 +306,10 @@ export async function getBatchSessionInfo(req: Request, res: Response) {
       status: session.status,
       totalRows: session.totalRows,
       processedRows: session.processedRows,
+      keyField: session.keyField,
       createdAt: session.createdAt,
+      job: job ? toBatchJobResponse(job) : null,
+      validationReportUrl: fs.existsSync(getBatchReportPath(session.uuid)) ? `/api/batch/${session.uuid}/validation-report` : null,
       documents
     });
 
@@ -313,75 +384,77 @@ export async function createDocumentsFromBatch(req: Request, res: Response) {
       return res.status(404).json({ message: 'Template not found' });
     }
 
-    const results = [];
-    const errors = [];
-
-    // Create each approved document
-    for (const batchDoc of approvedDocs) {
-      try {
-        console.log('Creating document:', batchDoc.name);
-        
-        // Transform fields format for document generator
-        const fields = batchDoc.fields.map(f => ({
-          fieldName: f.fieldName,
-          fieldValue: f.fieldValue || ''
-        }));
-
-        // Prepare field values for document generation
-        const fieldValues: Record<string, string> = {};
-        fields.forEach(field => {
-          fieldValues[field.fieldName] = field.fieldValue || '';
-        });
-
-        // Use complete document generation pipeline
-        const document = await createCompleteDocument({
-          templateUuid,
-          templateFilePath: template.filePath,
-          documentName: batchDoc.name,
-          fieldValues,
-          fields,
-          storage
-        });
+    // Invalid rows are reported by the job (rowErrors), not created
+    const job = await startBatchJob({
+      sessionUuid,
+      kind: 'create',
+      totalRows: approvedDocs.length,
+      createdBy: req.user?.id
+    });
 
-        // Update batch document status and link to final document
-        await updateBatchDocumentStatus(batchDoc.uuid, 'created');
-        
-        results.push({
-          batchDocumentId: batchDoc.uuid,
-          documentId: document.uuid,
-          documentName: document.name,
-          success: true
-        });
+    return res.status(202).json({
+      success: true,
+      message: `${approvedDocs.length} documents will be created in the background`,
+      total: approvedDocs.length,
+      job: toBatchJobResponse(job)
+    });
 
-        console.log('Document created successfully:', document.name);
+  } catch (error) {
+    if (error instanceof BatchJobError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error in createDocumentsFromBatch:', error);
+    return res.status(500).json({
+      message: 'Failed to create documents from batch',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
 
-      } catch (error) {
-        console.error('Error creating document:', batchDoc.name, error);
-        errors.push({
-          batchDocumentId: batchDoc.uuid,
-          documentName: batchDoc.name,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-      }
+/**
+ * Tải file Excel báo cáo lỗi (ô lỗi có comment, cột ERRORS)
+ * GET /api/batch/:uuid/validation-report
+ */
+export async function downloadBatchValidationReport(req: Request, res: Response) {
+  try {
+    const session = await getBatchSession(req.params.uuid);
+    if (!session) {
+      return res.status(404).json({ message: 'Batch session not found' });
     }
 
-    console.log('Batch creation completed:', results.length, 'created,', errors.length, 'failed');
+    const reportPath = getBatchReportPath(session.uuid);
+    if (!fs.existsSync(reportPath)) {
+      return res.status(404).json({ message: 'Validation report not found' });
+    }
 
-    return res.status(200).json({
-      success: true,
-      message: `Documents created successfully: ${results.length} created, ${errors.length} failed`,
-      total: approvedDocs.length,
-      created: results.length,
-      failed: errors.length,
-      documentUuids: results.map(r => r.documentId),
-      results,
-      errors: errors.length > 0 ? errors : undefined
+    const reportName = session.fileName.replace(/\.(xlsx|xls|csv|tsv)$/i, '') + '_errors.xlsx';
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${sanitizeFilename(reportName)}"`);
+    fs.createReadStream(reportPath).pipe(res);
+  } catch (error) {
+    console.error('Error in downloadBatchValidationReport:', error);
+    return res.status(500).json({
+      message: 'Failed to download validation report',
+      error: error instanceof Error ? error.message : 'Unknown error'
     });
+  }
+}
 
+/**
+ * Hủy batch job đang chạy của session (văn bản đã tạo được giữ lại)
+ * POST /api/batch/:uuid/cancel
+ */
+export async function cancelBatchJobController(req: Request, res: Response) {
+  try {
+    const job = await cancelBatchJob(req.params.uuid);
+    return res.status(200).json({ success: true, job: toBatchJobResponse(job) });
   } catch (error) {
-    console.error('Error in createDocumentsFromBatch:', error);
+    if (error instanceof BatchJobError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error in cancelBatchJob:', error);
     return res.status(500).json({
-      message: 'Failed to create documents from batch',
+      message: 'Failed to cancel batch job',
       error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
@@ -396,6 +469,7 @@ export async function deleteBatchSessionController(req: Request, res: Response)
     const sessionUuid = req.params.uuid;
     
     await deleteBatchSession(sessionUuid);
+    await recordAuditEvent({ entityType: 'batch_session', entityUuid: sessionUuid, action: 'delete', user: req.user });
     
     return res.status(200).json({
       success: true,
@@ -523,10 +597,19 @@ export async function bulkUpdateStatus(req: Request, res: Response) {
 /**
  * Download multiple documents as ZIP file using UUIDs
  * POST /api/batch/download-documents
+ * Body: { documentUuids, format?: 'docx' | 'pdf' }
  */
 export async function downloadBatchDocuments(req: Request, res: Response) {
   try {
     const { documentUuids } = req.body;
+    const format = parseExportFormat(req.body.format);
+
+    if (!format) {
+      return res.status(400).json({
+        success: false,
+        message: `Unsupported format. Use one of: ${DOCUMENT_EXPORT_FORMATS.join(', ')}`
+      });
+    }
 
     if (!documentUuids || !Array.isArray(documentUuids) || documentUuids.length === 0) {
       return res.status(400).json({
@@ -537,18 +620,9 @@ export async function downloadBatchDocuments(req: Request, res: Response) {
 
     console.log(`Downloading ${documentUuids.length} documents as ZIP`);
 
-    // Get documents by UUIDs
-    const documents = [];
-    for (const uuid of documentUuids) {
-      try {
-        const doc = await storage.getDocumentByUuid(uuid);
-        if (doc && doc.filePath) {
-          documents.push(doc);
-        }
-      } catch (error) {
-        console.error(`Error getting document ${uuid}:`, error);
-      }
-    }
+    // Documents are generated on demand (with their table and block data), like the bulk download
+    const documents = (await selectDocumentsForGeneration(inArray(documentsTable.uuid, documentUuids)))
+      .filter(doc => doc.templateFilePath);
 
     if (documents.length === 0) {
       return res.status(404).json({
@@ -557,10 +631,7 @@ export async function downloadBatchDocuments(req: Request, res: Response) {
       });
     }
 
-    // Set response headers for ZIP download
     const zipFileName = `documents-${new Date().toISOString().split('T')[0]}.zip`;
-    res.setHeader('Content-Type', 'application/zip');
-    res.setHeader('Content-Disposition', `attachment; filename="${zipFileName}"`);
 
     // Create ZIP archive
     const archive = archiver('zip', {
@@ -578,25 +649,65 @@ export async function downloadBatchDocuments(req: Request, res: Response) {
       }
     });
 
-    // Pipe archive data to the response
-    archive.pipe(res);
-
-    // Add documents to archive with sanitized filenames (supports Vietnamese)
-    for (const doc of documents) {
-      const filePath = path.resolve(doc.filePath);
-      
-      if (fs.existsSync(filePath)) {
-        const fileName = `${sanitizeFilename(doc.name)}.docx`;
-        archive.file(filePath, { name: fileName });
-        console.log(`Added to ZIP: ${fileName}`);
-      } else {
-        console.error(`File not found: ${filePath}`);
+    // The response starts with the first generated document,
+    // so a missing PDF converter is still reported as a clean 503
+    let archiveStarted = false;
+    const startArchive = () => {
+      if (archiveStarted) return;
+      archiveStarted = true;
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${zipFileName}"`);
+      archive.pipe(res);
+    };
+
+    let addedCount = 0;
+    const downloadEvents: AuditEventInput[] = [];
+    for (const batch of chunkArray(documents)) {
+      // Fields, table and block data of the whole batch
+      const dataByDocument = await loadDocumentsGenerationData(batch);
+
+      for (const doc of batch) {
+        try {
+          const { fieldValues, tableDataMap, blockDataMap, templateFields } = dataByDocument.get(doc.uuid)!;
+          const generationParams = {
+            documentUuid: doc.uuid,
+            documentName: doc.name,
+            templateFilePath: doc.templateFilePath!,
+            fieldValues,
+            tableDataMap,
+            blockDataMap,
+            renderOptions: await loadDocumentRenderOptions(templateFields, fieldValues),
+          };
+          const buffer = format === 'pdf'
+            ? await documentGeneratorCache.getOrGeneratePdf(generationParams)
+            : await documentGeneratorCache.getOrGenerate(generationParams);
+
+          startArchive();
+          const fileName = `${sanitizeFilename(doc.name)}.${format}`;
+          archive.append(buffer, { name: fileName });
+          addedCount++;
+          downloadEvents.push({ entityType: 'document', entityUuid: doc.uuid, action: 'download', user: req.user, after: { format, archive: zipFileName } });
+          console.log(`Added to ZIP: ${fileName}`);
+        } catch (error) {
+          if (error instanceof PdfConverterUnavailableError && !archiveStarted) {
+            return res.status(503).json({ success: false, message: error.message });
+          }
+          console.error(`Error generating document ${doc.uuid}:`, error);
+        }
       }
     }
 
+    if (!archiveStarted) {
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to generate documents'
+      });
+    }
+
     // Finalize the archive
     await archive.finalize();
-    console.log(`ZIP download completed: ${documents.length} documents`);
+    await recordAuditEvents(downloadEvents);
+    console.log(`ZIP download completed: ${addedCount}/${documents.length} documents`);
 
   } catch (error) {
     console.error('Error in downloadBatchDocuments:', error);
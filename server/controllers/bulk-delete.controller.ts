@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { storage } from '../storage-uuid';
+import { parseWorkflowStatusFilter, type DocumentWorkflowStatus } from '@shared/document-workflow';
+import { recordAuditEvents, type AuditEventInput } from '../services/audit.service';
 
 interface BulkDeleteFilters {
   searchQuery?: string;
@@ -8,6 +10,7 @@ interface BulkDeleteFilters {
   dateTo?: string;
   dateType?: 'created' | 'updated'; // Filter by creation or update date
   archived?: boolean;
+  workflowStatuses?: DocumentWorkflowStatus[];
 }
 
 interface BulkDeleteRequest {
@@ -23,6 +26,7 @@ export async function previewBulkDelete(req: Request, res: Response) {
     const allDocs = await storage.getDocuments({
       searchQuery: filters.searchQuery,
       templateUuid: undefined,
+      workflowStatuses: parseWorkflowStatusFilter(filters.workflowStatuses),
       limit: undefined,
       offset: undefined
     });
@@ -95,6 +99,7 @@ export async function executeBulkDelete(req: Request, res: Response) {
     const allDocs = await storage.getDocuments({
       searchQuery: filters.searchQuery,
       templateUuid: undefined,
+      workflowStatuses: parseWorkflowStatusFilter(filters.workflowStatuses),
       limit: undefined,
       offset: undefined
     });
@@ -135,17 +140,27 @@ export async function executeBulkDelete(req: Request, res: Response) {
     // Execute bulk delete
     let deletedCount = 0;
     const errors: string[] = [];
+    const deleteEvents: AuditEventInput[] = [];
 
     for (const doc of filteredDocs) {
       try {
         await storage.deleteDocumentByUuid(doc.uuid);
         deletedCount++;
+        deleteEvents.push({
+          entityType: 'document',
+          entityUuid: doc.uuid,
+          action: 'delete',
+          user: req.user,
+          before: { name: doc.name, templateUuid: doc.templateUuid },
+        });
       } catch (error) {
         console.error(`Failed to delete document ${doc.uuid}:`, error);
         errors.push(`Failed to delete document "${doc.name}"`);
       }
     }
 
+    await recordAuditEvents(deleteEvents);
+
     res.json({
       message: `Successfully deleted ${deletedCount} out of ${filteredDocs.length} documents`,
       deletedCount,
@@ -1,12 +1,18 @@
 import { Request, Response } from 'express';
-import { eq, and, gte, lte, like, inArray, desc } from 'drizzle-orm';
+import { eq, and, gte, lte, like, inArray, desc, sql } from 'drizzle-orm';
 import { db } from '@db';
-import { documents, templates, documentFields, templateFields } from '@shared/schema';
+import { documents, templates, templateVersions, documentFields, templateFields } from '@shared/schema';
 import archiver from 'archiver';
 import path from 'path';
 import { sanitizeFilename } from '../utils/filename-encoder';
 import { documentGeneratorCache } from '../services/document-generator-cache.service';
+import { loadDocumentRenderOptions } from '../services/image-fields.service';
+import { chunkArray, loadDocumentsGenerationData, selectDocumentsForGeneration, type DocumentGenerationData } from '../services/document-data.service';
+import { DOCUMENT_EXPORT_FORMATS, parseExportFormat, type DocumentExportFormat } from '../services/pdf-converter.service';
+import { recordAuditEvents } from '../services/audit.service';
 import * as XLSX from 'xlsx';
+import { buildChecklistRenderConfig, renderChecklistValue } from '@shared/checklist';
+import { parseWorkflowStatusFilter, type DocumentWorkflowStatus } from '@shared/document-workflow';
 
 interface BulkDownloadFilters {
   searchQuery?: string;
@@ -15,10 +21,13 @@ interface BulkDownloadFilters {
   dateTo?: string;
   dateType?: 'created' | 'updated';
   archived?: boolean;
+  workflowStatuses?: DocumentWorkflowStatus[];
 }
 
 interface BulkDownloadRequest {
   filters: BulkDownloadFilters;
+  /** File format of the documents in the archive (default docx) */
+  format?: DocumentExportFormat;
 }
 
 export async function previewBulkDownload(req: Request, res: Response) {
@@ -55,6 +64,11 @@ export async function previewBulkDownload(req: Request, res: Response) {
       conditions.push(eq(documents.archived, false));
     }
 
+    const workflowStatuses = parseWorkflowStatusFilter(filters.workflowStatuses);
+    if (workflowStatuses) {
+      conditions.push(inArray(documents.workflowStatus, workflowStatuses));
+    }
+
     const documentsToDownload = await db
       .select({
         uuid: documents.uuid,
@@ -63,10 +77,15 @@ export async function previewBulkDownload(req: Request, res: Response) {
         updatedAt: documents.updatedAt,
         templateName: templates.name,
         templateUuid: documents.templateUuid,
-        templateFilePath: templates.filePath,
+        // Documents pinned to an older template version render with that version's file
+        templateFilePath: sql<string | null>`coalesce(${templateVersions.filePath}, ${templates.filePath})`,
       })
       .from(documents)
       .leftJoin(templates, eq(documents.templateUuid, templates.uuid))
+      .leftJoin(templateVersions, and(
+        eq(templateVersions.templateUuid, documents.templateUuid),
+        eq(templateVersions.version, documents.templateVersion)
+      ))
       .where(conditions.length > 0 ? and(...conditions) : undefined)
       .orderBy(desc(documents.createdAt));
 
@@ -119,8 +138,12 @@ export async function previewBulkDownload(req: Request, res: Response) {
 export async function executeBulkDownload(req: Request, res: Response) {
   try {
     const { filters }: BulkDownloadRequest = req.body;
+    const format = parseExportFormat(req.body.format);
+    if (!format) {
+      return res.status(400).json({ error: `Unsupported format. Use one of: ${DOCUMENT_EXPORT_FORMATS.join(', ')}` });
+    }
     
-    console.log('Execute bulk download with filters:', filters);
+    console.log('Execute bulk download with filters:', filters, 'format:', format);
 
     const conditions = [];
     
@@ -150,18 +173,12 @@ export async function executeBulkDownload(req: Request, res: Response) {
       conditions.push(eq(documents.archived, false));
     }
 
-    const documentsToDownload = await db
-      .select({
-        uuid: documents.uuid,
-        name: documents.name,
-        createdAt: documents.createdAt,
-        templateName: templates.name,
-        templateUuid: documents.templateUuid,
-        templateFilePath: templates.filePath,
-      })
-      .from(documents)
-      .leftJoin(templates, eq(documents.templateUuid, templates.uuid))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
+    const workflowStatuses = parseWorkflowStatusFilter(filters.workflowStatuses);
+    if (workflowStatuses) {
+      conditions.push(inArray(documents.workflowStatus, workflowStatuses));
+    }
+
+    const documentsToDownload = await selectDocumentsForGeneration(conditions.length > 0 ? and(...conditions) : undefined)
       .orderBy(desc(documents.createdAt));
 
     const generableDocuments = documentsToDownload.filter(d => d.templateFilePath);
@@ -194,44 +211,56 @@ export async function executeBulkDownload(req: Request, res: Response) {
     let addedCount = 0;
     let failedCount = 0;
     const errors: string[] = [];
+    const addedDocuments: typeof generableDocuments = [];
 
-    for (const doc of generableDocuments) {
+    for (const batch of chunkArray(generableDocuments)) {
+      // Fields, table and block data of the whole batch; the archive is already streaming,
+      // so a failed load counts the batch's documents as failed instead of aborting
+      let dataByDocument: Map<string, DocumentGenerationData>;
       try {
-        const fields = await db
-          .select({
-            fieldName: documentFields.fieldName,
-            fieldValue: documentFields.fieldValue,
-          })
-          .from(documentFields)
-          .where(eq(documentFields.documentUuid, doc.uuid));
+        dataByDocument = await loadDocumentsGenerationData(batch);
+      } catch (error) {
+        console.error(`Error loading data of ${batch.length} documents:`, error);
+        failedCount += batch.length;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(...batch.map(doc => `${doc.name}: ${message}`));
+        continue;
+      }
 
-        const fieldMap: Record<string, string> = {};
-        fields.forEach(f => {
-          fieldMap[f.fieldName] = f.fieldValue;
-        });
-
-        const buffer = await documentGeneratorCache.getOrGenerate({
-          documentUuid: doc.uuid,
-          documentName: doc.name,
-          templateFilePath: doc.templateFilePath!,
-          fieldValues: fieldMap
-        });
-
-        const templateFolder = doc.templateName ? 
-          sanitizeFilename(doc.templateName) : 
-          'Unknown-Template';
+      for (const doc of batch) {
+        try {
+          const { fieldValues, tableDataMap, blockDataMap, templateFields: fieldsOfTemplate } = dataByDocument.get(doc.uuid)!;
+
+          const generationParams = {
+            documentUuid: doc.uuid,
+            documentName: doc.name,
+            templateFilePath: doc.templateFilePath!,
+            fieldValues,
+            tableDataMap,
+            blockDataMap,
+            renderOptions: await loadDocumentRenderOptions(fieldsOfTemplate, fieldValues),
+          };
+          const buffer = format === 'pdf'
+            ? await documentGeneratorCache.getOrGeneratePdf(generationParams)
+            : await documentGeneratorCache.getOrGenerate(generationParams);
+
+          const templateFolder = doc.templateName ? 
+            sanitizeFilename(doc.templateName) : 
+            'Unknown-Template';
         
-        const documentName = sanitizeFilename(doc.name);
-        const archivePath = `${templateFolder}/${documentName}.docx`;
+          const documentName = sanitizeFilename(doc.name);
+          const archivePath = `${templateFolder}/${documentName}.${format}`;
 
-        archive.append(buffer, { name: archivePath });
-        addedCount++;
+          archive.append(buffer, { name: archivePath });
+          addedCount++;
+          addedDocuments.push(doc);
         
-        console.log(`Generated and added: ${archivePath}`);
-      } catch (error) {
-        console.error(`Error generating document ${doc.uuid}:`, error);
-        failedCount++;
-        errors.push(`${doc.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          console.log(`Generated and added: ${archivePath}`);
+        } catch (error) {
+          console.error(`Error generating document ${doc.uuid}:`, error);
+          failedCount++;
+          errors.push(`${doc.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
       }
     }
 
@@ -240,13 +269,14 @@ export async function executeBulkDownload(req: Request, res: Response) {
     const summaryContent = `Bulk Download Summary (Generate-on-Demand)
 ==========================================
 Download Date: ${new Date().toLocaleString()}
+Format: ${format.toUpperCase()}
 Total Documents Found: ${documentsToDownload.length}
 Successfully Generated: ${addedCount}
 Failed to Generate: ${failedCount}
 Skipped (orphaned - template deleted): ${skippedCount}
 
 Documents Included:
-${generableDocuments.filter((_, i) => i < addedCount).map(doc => `- ${doc.name} (${doc.templateName || 'Unknown'}) - Created: ${new Date(doc.createdAt).toLocaleDateString()}`).join('\n')}
+${addedDocuments.map(doc => `- ${doc.name} (${doc.templateName || 'Unknown'}) - Created: ${new Date(doc.createdAt).toLocaleDateString()}`).join('\n')}
 
 ${errors.length > 0 ? `\nErrors:\n${errors.join('\n')}` : ''}
 ${skippedCount > 0 ? `\nNote: ${skippedCount} documents were skipped because their templates have been deleted.` : ''}
@@ -258,6 +288,14 @@ ${skippedCount > 0 ? `\nNote: ${skippedCount} documents were skipped because the
     
     await archive.finalize();
 
+    await recordAuditEvents(addedDocuments.map(doc => ({
+      entityType: 'document' as const,
+      entityUuid: doc.uuid,
+      action: 'download' as const,
+      user: req.user,
+      after: { format, archive: zipFileName },
+    })));
+
   } catch (error) {
     console.error('Error in executeBulkDownload:', error);
     if (!res.headersSent) {
@@ -313,6 +351,11 @@ export async function exportBulkExcel(req: Request, res: Response) {
       conditions.push(eq(documents.archived, false));
     }
 
+    const workflowStatuses = parseWorkflowStatusFilter(filters.workflowStatuses);
+    if (workflowStatuses) {
+      conditions.push(inArray(documents.workflowStatus, workflowStatuses));
+    }
+
     const documentsToExport = await db
       .select({
         uuid: documents.uuid,
@@ -367,9 +410,13 @@ export async function exportBulkExcel(req: Request, res: Response) {
       const regularFields = fields.filter(f => f.fieldType !== 'row_group');
       const fieldNames = regularFields.map(f => f.name);
 
+      // Checklists with a render mode (boxes / list) are printed that way; the cells are
+      // free text then, so they get no dropdown. Batch import reads both forms back.
+      const checklists = buildChecklistRenderConfig(regularFields);
+
       const checklistFieldsMap: Map<string, { colIndex: number; options: string[] }> = new Map();
       regularFields.forEach((field, index) => {
-        if (field.fieldType === 'checklist' && field.options) {
+        if (field.fieldType === 'checklist' && field.options && !checklists[field.name]) {
           try {
             const options = JSON.parse(field.options);
             if (Array.isArray(options) && options.length > 0) {
@@ -402,7 +449,10 @@ export async function exportBulkExcel(req: Request, res: Response) {
         };
 
         for (const fieldName of fieldNames) {
-          row[fieldName] = fieldMap[fieldName] || '';
+          const checklist = checklists[fieldName];
+          row[fieldName] = checklist
+            ? renderChecklistValue(fieldMap[fieldName], checklist.options, checklist.mode)
+            : fieldMap[fieldName] || '';
         }
 
         rows.push(row);
@@ -0,0 +1,139 @@
+/**
+ * API controllers for document revisions (snapshots taken on every save).
+ *
+ * Endpoints:
+ *   GET    /api/documents/:uuid/revisions                      — list revisions, newest first (no content)
+ *   GET    /api/documents/:uuid/revisions/diff?from=1&to=3     — field / table diff between two revisions
+ *   GET    /api/documents/:uuid/revisions/:revision            — one revision with its fields and tables
+ *   POST   /api/documents/:uuid/revisions/:revision/restore    — write the revision back to the document
+ */
+
+import { Request, Response } from 'express';
+import { storage } from '../storage-uuid';
+import {
+  diffDocumentRevisions,
+  getDocumentRevision,
+  getDocumentRevisions,
+  restoreDocumentRevision,
+  RevisionRestoreError,
+} from '../services/document-revision.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { isDocumentLocked, lockedDocumentMessage } from '../services/document-workflow.service';
+
+function parseRevisionNumber(value: unknown): number | null {
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision > 0 ? revision : null;
+}
+
+export async function listDocumentRevisions(req: Request, res: Response) {
+  try {
+    const { uuid: documentUuid } = req.params;
+    const document = await storage.getDocumentByUuid(documentUuid);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    res.json(await getDocumentRevisions(documentUuid));
+  } catch (error) {
+    console.error('Error fetching document revisions:', error);
+    res.status(500).json({
+      message: 'Failed to fetch document revisions',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function getRevision(req: Request, res: Response) {
+  try {
+    const { uuid: documentUuid } = req.params;
+    const revisionNumber = parseRevisionNumber(req.params.revision);
+    if (!revisionNumber) {
+      return res.status(400).json({ message: 'revision must be a positive integer' });
+    }
+
+    const revision = await getDocumentRevision(documentUuid, revisionNumber);
+    if (!revision) {
+      return res.status(404).json({ message: 'Revision not found' });
+    }
+
+    res.json(revision);
+  } catch (error) {
+    console.error('Error fetching document revision:', error);
+    res.status(500).json({
+      message: 'Failed to fetch document revision',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function diffRevisions(req: Request, res: Response) {
+  try {
+    const { uuid: documentUuid } = req.params;
+    const from = parseRevisionNumber(req.query.from);
+    const to = parseRevisionNumber(req.query.to);
+    if (!from || !to) {
+      return res.status(400).json({ message: 'from and to must be positive revision numbers' });
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([
+      getDocumentRevision(documentUuid, from),
+      getDocumentRevision(documentUuid, to),
+    ]);
+    if (!fromRevision || !toRevision) {
+      return res.status(404).json({ message: 'Revision not found' });
+    }
+
+    res.json(diffDocumentRevisions(fromRevision, toRevision));
+  } catch (error) {
+    console.error('Error comparing document revisions:', error);
+    res.status(500).json({
+      message: 'Failed to compare document revisions',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function restoreRevision(req: Request, res: Response) {
+  try {
+    const { uuid: documentUuid } = req.params;
+    const revisionNumber = parseRevisionNumber(req.params.revision);
+    if (!revisionNumber) {
+      return res.status(400).json({ message: 'revision must be a positive integer' });
+    }
+
+    const document = await storage.getDocumentByUuid(documentUuid);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+    if (isDocumentLocked(document)) {
+      return res.status(409).json({ message: lockedDocumentMessage(document.workflowStatus) });
+    }
+    const source = await getDocumentRevision(documentUuid, revisionNumber);
+    if (!source) {
+      return res.status(404).json({ message: 'Revision not found' });
+    }
+
+    const revision = await restoreDocumentRevision(documentUuid, source, req.user?.id);
+
+    await recordAuditEvent({
+      entityType: 'document',
+      entityUuid: documentUuid,
+      action: 'restore',
+      user: req.user,
+      before: { name: document.name },
+      after: { name: source.name, restoredRevision: source.revision, revision: revision?.revision },
+    });
+    console.log(`[Revisions] ${req.user?.username} restored document ${documentUuid} to revision ${source.revision}`);
+
+    res.json({ message: `Revision ${source.revision} restored`, revision });
+  } catch (error) {
+    console.error('Error restoring document revision:', error);
+    if (error instanceof RevisionRestoreError) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({
+      message: 'Failed to restore document revision',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import fs from 'fs/promises';
 import path from 'path';
+import multer from 'multer';
 import { storage } from '../storage-uuid';
 import { insertDocumentSchema } from '@shared/schema';
 import { z } from 'zod';
@@ -9,13 +10,36 @@ import PizZip from 'pizzip';
 import { createCompleteDocument } from '../services/document-generator';
 import { FileManagerService } from '../services/file-manager.service';
 import { documentGeneratorCache } from '../services/document-generator-cache.service';
+import { resolveTemplateFilePath } from '../services/template-version.service';
+import { validateTemplateFieldValues } from '../services/field-validation.service';
+import { computeTemplateFieldValues, toComputedTableRows } from '../services/computed-fields.service';
+import { withComputedValues, type ComputedTableRows } from '@shared/computed-fields';
+import { loadDocumentRenderOptions } from '../services/image-fields.service';
+import { buildDocumentDataMaps } from '../services/document-data.service';
+import { diffFieldValues, getEntityHistory, recordAuditEvent } from '../services/audit.service';
+import { createDocumentRevision, ensureBaselineRevision } from '../services/document-revision.service';
+import { getDocumentWorkflow, isDocumentLocked, lockedDocumentMessage, transitionDocument, WorkflowTransitionError } from '../services/document-workflow.service';
+import { allocateDocumentNumbers, getDocumentNumbers, getNumberingTriggers } from '../services/numbering.service';
+import {
+  deleteDocumentRecordLink,
+  getDocumentRecordLink,
+  getDocumentRecordLinks,
+  getExistingRecordIds,
+  linkDocumentRecords,
+  markDocumentRecordLinkApplied,
+} from '../services/master-data.service';
+import { DOCUMENT_WORKFLOW_STATUSES, parseWorkflowStatusFilter } from '@shared/document-workflow';
+import { applyRecordFieldMapping, isRecordFillableField, validateRecordFieldMapping, type RecordFieldMapping } from '@shared/master-data';
+import { detectImageFormat } from '../utils/docx-images';
+import { IMAGE_MIME_TYPES, MAX_IMAGE_SIZE_BYTES } from '@shared/image-fields';
 import { ApiResponse } from '../utils/response-builders';
 import { getEnhancedMammothOptions, getPreviewStyles } from '../services/template-processor.service';
-import { createDocxTemplater, createDocxTemplaterPreview, highlightPreviewHtml, fieldHighlightStyles, generateInteractivePreviewData, type InteractivePreviewData } from '../utils/docx-parser';
+import { createDocxTemplater, createDocxTemplaterPreview, highlightPreviewHtml, fieldHighlightStyles, generateInteractivePreviewData, type InteractivePreviewData, type DocumentRenderOptions } from '../utils/docx-parser';
 import { injectTablesIntoZip, type TableData } from '../utils/table-injector';
 import { getContentDispositionHeader } from '../utils/filename-encoder';
+import { DOCUMENT_EXPORT_FORMATS, PDF_CONTENT_TYPE, PdfConverterUnavailableError, parseExportFormat } from '../services/pdf-converter.service';
 import { db } from '@db';
-import { documentTableData, templateTables } from '@shared/schema';
+import { documentFields, documentTableData, documents, templateTables } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 
 /**
@@ -33,28 +57,43 @@ async function loadDocumentData(
       db.select().from(templateTables).where(eq(templateTables.templateUuid, templateUuid)),
     ]);
 
-    const tableDataMap: Record<string, TableData> = {};
-    const blockDataMap: Record<string, Array<Record<string, string>>> = {};
-
-    for (const tt of templateTablesRows) {
-      const docRow = tableRows.find(r => r.tableName === tt.name);
-      if ((tt as any).blockType === 'block') {
-        blockDataMap[tt.name] = docRow ? (docRow.rows as Array<Record<string, string>>) : [];
-      } else {
-        tableDataMap[tt.name] = {
-          columns: tt.columns as Array<{ name: string; label: string }>,
-          rows: docRow ? (docRow.rows as Array<Record<string, string>>) : [],
-        };
-      }
-    }
-
-    return { tableDataMap, blockDataMap };
+    return buildDocumentDataMaps(templateTablesRows, tableRows);
   } catch (err) {
     console.error('[loadDocumentData] Error loading document data:', err);
     return { tableDataMap: {}, blockDataMap: {} };
   }
 }
 
+/**
+ * Table / block rows sent in a request body, for computed fields.
+ * Accepts both { name: rows[] } (document forms) and { name: { columns, rows } } (direct download).
+ */
+function requestTableRows(tableData: unknown, blockData: unknown): ComputedTableRows {
+  const tables: ComputedTableRows = {};
+  for (const source of [blockData, tableData]) {
+    if (!source || typeof source !== 'object') continue;
+    Object.entries(source as Record<string, any>).forEach(([name, value]) => {
+      if (Array.isArray(value)) tables[name] = value;
+      else if (value && Array.isArray(value.rows)) tables[name] = value.rows;
+    });
+  }
+  return tables;
+}
+
+/**
+ * Records a new document was filled from ("fill from record"), as sent in the request body.
+ */
+function parseRecordLinks(recordLinks: unknown): { links?: Array<{ recordId: string; mapping: RecordFieldMapping }>; error?: string } {
+  if (recordLinks === undefined || recordLinks === null) return { links: [] };
+  if (!Array.isArray(recordLinks)) return { error: 'recordLinks must be an array' };
+  for (const link of recordLinks) {
+    if (typeof link?.recordId !== 'string' || !link.recordId) return { error: 'Each record link needs a recordId' };
+    const mappingError = validateRecordFieldMapping(link.mapping);
+    if (mappingError) return { error: mappingError };
+  }
+  return { links: recordLinks.map(link => ({ recordId: link.recordId, mapping: link.mapping })) };
+}
+
 /** @deprecated use loadDocumentData instead */
 async function loadTableDataMap(
   documentUuid: string,
@@ -64,12 +103,16 @@ async function loadTableDataMap(
   return tableDataMap;
 }
 
-async function generateDocumentPreview(templateBuffer: Buffer, fieldValues: Record<string, string>): Promise<string> {
+async function generateDocumentPreview(
+  templateBuffer: Buffer,
+  fieldValues: Record<string, string>,
+  renderOptions: DocumentRenderOptions = {}
+): Promise<string> {
   try {
     const zip = new PizZip(templateBuffer);
     // Use PREVIEW factory that emits markers for field highlighting
     // This allows us to highlight ONLY the actual field positions, not matching text elsewhere
-    const doc = createDocxTemplaterPreview(zip);
+    const doc = createDocxTemplaterPreview(zip, renderOptions);
 
     doc.render(fieldValues);
 
@@ -86,9 +129,32 @@ async function generateDocumentPreview(templateBuffer: Buffer, fieldValues: Reco
   }
 }
 
+// Images of image fields ({{%anh_the}}) are uploaded before the document is saved
+const uploadImage = multer({
+  dest: 'storage/temp/',
+  fileFilter: (req, file, cb) => {
+    if (IMAGE_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PNG, JPEG or GIF images are allowed'));
+    }
+  },
+  limits: {
+    fileSize: MAX_IMAGE_SIZE_BYTES,
+  },
+});
+
+export const uploadImageMiddleware = uploadImage.single('file');
+
 export async function getDocuments(req: Request, res: Response) {
   try {
-    const { searchQuery, templateUuid, archived, status, fromDate, toDate, page = '1', limit = '10' } = req.query;
+    const { searchQuery, templateUuid, archived, status, workflowStatus, fromDate, toDate, page = '1', limit = '10' } = req.query;
+
+    // Lifecycle filter: ?workflowStatus=approved or ?workflowStatus=approved,signed
+    const workflowStatuses = parseWorkflowStatusFilter(workflowStatus);
+    if (workflowStatus !== undefined && workflowStatus !== '' && !workflowStatuses) {
+      return res.status(400).json({ message: `workflowStatus must be one of: ${DOCUMENT_WORKFLOW_STATUSES.join(', ')}` });
+    }
     
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
@@ -103,6 +169,7 @@ export async function getDocuments(req: Request, res: Response) {
       templateUuid: templateUuid as string,
       archived: archivedFilter,
       status: status as string,
+      workflowStatuses,
       fromDate: fromDate as string,
       toDate: toDate as string,
       limit: limitNum,
@@ -115,6 +182,7 @@ export async function getDocuments(req: Request, res: Response) {
       templateUuid: templateUuid as string,
       archived: archivedFilter,
       status: status as string,
+      workflowStatuses,
       fromDate: fromDate as string,
       toDate: toDate as string,
     });
@@ -179,6 +247,15 @@ export async function createDocument(req: Request, res: Response) {
       return res.status(404).json({ message: 'Template not found' });
     }
 
+    const { links: recordLinks, error: recordLinksError } = parseRecordLinks(req.body.recordLinks);
+    if (recordLinksError || !recordLinks) {
+      return res.status(400).json({ message: recordLinksError });
+    }
+    const existingRecordIds = await getExistingRecordIds(recordLinks.map(link => link.recordId));
+    if (existingRecordIds.length < new Set(recordLinks.map(link => link.recordId)).size) {
+      return res.status(404).json({ message: 'Record not found' });
+    }
+
     let processedFields: { fieldName: string; fieldValue: string }[] = [];
     
     if (fieldValues && typeof fieldValues === 'object') {
@@ -190,57 +267,101 @@ export async function createDocument(req: Request, res: Response) {
       processedFields = fields;
     }
 
+    // Computed fields ({{tong_tien:=sum(hang_hoa.thanh_tien)}}) are recalculated here, submitted values are ignored
+    const computedValues = await computeTemplateFieldValues(
+      templateUuid,
+      Object.fromEntries(processedFields.map(f => [f.fieldName, f.fieldValue || ''])),
+      requestTableRows(tableData, blockData)
+    );
+    processedFields = Object.entries(computedValues).map(([fieldName, fieldValue]) => ({ fieldName, fieldValue }));
+
+    // Typed fields ({{so_tien:number(min=0)}}, {{ngay:date}}, ...) are checked before anything is saved
+    const fieldErrors = await validateTemplateFieldValues(
+      templateUuid,
+      Object.fromEntries(processedFields.map(f => [f.fieldName, f.fieldValue]))
+    );
+    if (Object.keys(fieldErrors).length > 0) {
+      return res.status(400).json({ message: 'Invalid field values', fieldErrors });
+    }
+
     console.log('Creating document (metadata only):', {
       templateUuid,
       documentName: name,
       fieldCount: processedFields.length
     });
     
-    const document = await storage.createDocument({
-      templateUuid,
-      name,
-      filePath: '',
-    });
-
-    for (const field of processedFields) {
-      await storage.createDocumentField({
-        documentUuid: document.uuid,
-        fieldName: field.fieldName,
-        fieldValue: field.fieldValue || '',
-      });
-    }
+    // The document, its fields, tables, record links and numbers are saved together: a failed
+    // allocation leaves no document without its number, a failed insert spends no number
+    const { document, numbers } = await db.transaction(async (tx) => {
+      const [document] = await tx.insert(documents).values({
+        templateUuid,
+        name,
+        filePath: '',
+        createdBy: req.user?.id,
+        updatedBy: req.user?.id,
+      }).returning();
+
+      if (processedFields.length > 0) {
+        await tx.insert(documentFields).values(processedFields.map(field => ({
+          documentUuid: document.uuid,
+          fieldName: field.fieldName,
+          fieldValue: field.fieldValue || '',
+        })));
+      }
 
-    // Save table row data (row_group fields) if provided
-    if (tableData && typeof tableData === 'object') {
-      for (const [tableName, rows] of Object.entries(tableData)) {
-        if (Array.isArray(rows) && rows.length > 0) {
-          await db.insert(documentTableData).values({
-            documentUuid: document.uuid,
-            tableName,
-            rows: rows as any,
-          });
+      // Save table row data (row_group fields) if provided
+      if (tableData && typeof tableData === 'object') {
+        for (const [tableName, rows] of Object.entries(tableData)) {
+          if (Array.isArray(rows) && rows.length > 0) {
+            await tx.insert(documentTableData).values({
+              documentUuid: document.uuid,
+              tableName,
+              rows: rows as any,
+            });
+          }
         }
       }
-    }
 
-    // Save chorus block instances if provided
-    if (blockData && typeof blockData === 'object') {
-      for (const [blockName, instances] of Object.entries(blockData)) {
-        if (Array.isArray(instances)) {
-          await db.insert(documentTableData).values({
-            documentUuid: document.uuid,
-            tableName: blockName,
-            rows: instances as any,
-          }).onConflictDoUpdate({
-            target: [documentTableData.documentUuid, documentTableData.tableName],
-            set: { rows: instances as any },
-          });
+      // Save chorus block instances if provided
+      if (blockData && typeof blockData === 'object') {
+        for (const [blockName, instances] of Object.entries(blockData)) {
+          if (Array.isArray(instances)) {
+            await tx.insert(documentTableData).values({
+              documentUuid: document.uuid,
+              tableName: blockName,
+              rows: instances as any,
+            }).onConflictDoUpdate({
+              target: [documentTableData.documentUuid, documentTableData.tableName],
+              set: { rows: instances as any },
+            });
+          }
         }
       }
-    }
-    
+
+      if (recordLinks.length > 0) {
+        await linkDocumentRecords(document.uuid, recordLinks, req.user?.id, tx);
+      }
+
+      const numbers = await allocateDocumentNumbers(document.uuid, getNumberingTriggers(document.workflowStatus), tx);
+      return { document, numbers };
+    });
+
     console.log('Document created successfully:', document.uuid);
 
+    await createDocumentRevision(document.uuid, { createdBy: req.user?.id });
+
+    await recordAuditEvent({
+      entityType: 'document',
+      entityUuid: document.uuid,
+      action: 'create',
+      user: req.user,
+      after: {
+        name,
+        templateUuid,
+        fields: { ...Object.fromEntries(processedFields.map(f => [f.fieldName, f.fieldValue || ''])), ...numbers },
+      },
+    });
+
     const createdDocument = await storage.getDocumentByUuid(document.uuid);
     
     res.status(201).json(createdDocument);
@@ -269,6 +390,14 @@ export async function deleteDocument(req: Request, res: Response) {
     documentGeneratorCache.invalidate(documentUuid_);
 
     await storage.deleteDocumentByUuid(documentUuid_);
+
+    await recordAuditEvent({
+      entityType: 'document',
+      entityUuid: documentUuid_,
+      action: 'delete',
+      user: req.user,
+      before: { name: document.name, templateUuid: document.templateUuid },
+    });
     
     res.json({ message: 'Document deleted successfully' });
   } catch (error) {
@@ -302,10 +431,86 @@ export async function getDocumentFields(req: Request, res: Response) {
   }
 }
 
+/**
+ * Audit trail of a document, newest first. Still available after the document is deleted.
+ */
+export async function getDocumentHistory(req: Request, res: Response) {
+  try {
+    const { uuid: documentUuid } = req.params;
+
+    const history = await getEntityHistory('document', documentUuid);
+    if (history.length === 0 && !(await storage.getDocumentByUuid(documentUuid))) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    res.json(history);
+  } catch (error) {
+    console.error('Error fetching document history:', error);
+    res.status(500).json({
+      message: 'Failed to fetch document history',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Workflow status of a document and the transitions the current user can apply.
+ */
+export async function getDocumentWorkflowState(req: Request, res: Response) {
+  try {
+    const document = await storage.getDocumentByUuid(req.params.uuid);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    res.json(await getDocumentWorkflow(document, req.user!));
+  } catch (error) {
+    console.error('Error fetching document workflow:', error);
+    res.status(500).json({
+      message: 'Failed to fetch document workflow',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Apply a workflow transition. Body: { action: 'submit' | 'approve' | 'reject' | 'sign' | 'reopen' | 'issue' }
+ */
+export async function transitionDocumentWorkflow(req: Request, res: Response) {
+  try {
+    const { action } = req.body;
+    if (!action || typeof action !== 'string') {
+      return res.status(400).json({ message: 'action is required' });
+    }
+
+    const document = await storage.getDocumentByUuid(req.params.uuid);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    const updated = await transitionDocument(document, action, req.user!);
+    res.json(await getDocumentWorkflow(updated, req.user!));
+  } catch (error) {
+    if (error instanceof WorkflowTransitionError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error changing document workflow status:', error);
+    res.status(500).json({
+      message: 'Failed to change document status',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
 export async function downloadDocument(req: Request, res: Response) {
   try {
     const { uuid: documentUuid, id: documentId } = req.params;
     const documentUuid_ = documentUuid || documentId;
+
+    const format = parseExportFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({ message: `Unsupported format. Use one of: ${DOCUMENT_EXPORT_FORMATS.join(', ')}` });
+    }
     
     const document = await storage.getDocumentByUuid(documentUuid_);
     if (!document) {
@@ -326,22 +531,47 @@ export async function downloadDocument(req: Request, res: Response) {
 
     // Load table data AND chorus block data for this document
     const { tableDataMap, blockDataMap } = await loadDocumentData(documentUuid_, document.templateUuid);
+    const templateFields = await storage.getTemplateFields(document.templateUuid);
+    const fieldValues = withComputedValues(templateFields, fieldMap, toComputedTableRows(tableDataMap, blockDataMap));
 
-    const buffer = await documentGeneratorCache.getOrGenerate({
+    const generationParams = {
       documentUuid: documentUuid_,
       documentName: document.name,
-      templateFilePath: template.filePath,
-      fieldValues: fieldMap,
+      templateFilePath: await resolveTemplateFilePath(template, document.templateVersion),
+      fieldValues,
       tableDataMap,
       blockDataMap,
+      renderOptions: await loadDocumentRenderOptions(templateFields, fieldValues),
+    };
+
+    const recordDownload = () => recordAuditEvent({
+      entityType: 'document',
+      entityUuid: documentUuid_,
+      action: 'download',
+      user: req.user,
+      after: { format },
     });
 
+    if (format === 'pdf') {
+      const pdfBuffer = await documentGeneratorCache.getOrGeneratePdf(generationParams);
+      await recordDownload();
+      res.setHeader('Content-Disposition', getContentDispositionHeader(document.name, 'pdf'));
+      res.setHeader('Content-Type', PDF_CONTENT_TYPE);
+      return res.send(pdfBuffer);
+    }
+
+    const buffer = await documentGeneratorCache.getOrGenerate(generationParams);
+    await recordDownload();
+
     res.setHeader('Content-Disposition', getContentDispositionHeader(document.name, 'docx'));
     res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
     res.send(buffer);
 
   } catch (error) {
     console.error('Error downloading document:', error);
+    if (error instanceof PdfConverterUnavailableError) {
+      return res.status(503).json({ message: 'PDF export is not available', error: error.message });
+    }
     res.status(500).json({ 
       message: 'Failed to download document',
       error: error instanceof Error ? error.message : 'Unknown error'
@@ -351,7 +581,7 @@ export async function downloadDocument(req: Request, res: Response) {
 
 export async function previewDocument(req: Request, res: Response) {
   try {
-    const { templateUuid, name, fields } = req.body;
+    const { templateUuid, name, fields, tableData, blockData } = req.body;
 
     if (!templateUuid || !Array.isArray(fields)) {
       return res.status(400).json({ 
@@ -375,7 +605,12 @@ export async function previewDocument(req: Request, res: Response) {
     });
 
     // Generate preview
-    const htmlContent = await generateDocumentPreview(templateBuffer, fieldValues);
+    const templateFields = await storage.getTemplateFields(templateUuid);
+    const htmlContent = await generateDocumentPreview(
+      templateBuffer,
+      withComputedValues(templateFields, fieldValues, requestTableRows(tableData, blockData)),
+      await loadDocumentRenderOptions(templateFields, fieldValues)
+    );
     
     // Use response builder for type-safe, consistent response structure
     return ApiResponse.preview(res, {
@@ -418,6 +653,11 @@ export async function updateDocument(req: Request, res: Response) {
       return res.status(404).json({ message: 'Document not found' });
     }
 
+    // Approved (and later) documents are read-only
+    if (isDocumentLocked(document) && (name || templateUuid || fields || tableData || blockData)) {
+      return res.status(409).json({ message: lockedDocumentMessage(document.workflowStatus), workflowStatus: document.workflowStatus });
+    }
+
     const updateData: any = {};
     let responseTemplate = document.template;
     
@@ -431,13 +671,44 @@ export async function updateDocument(req: Request, res: Response) {
       responseTemplate = newTemplate; // Use the new template for response
     }
 
-    if (Object.keys(updateData).length > 0) {
-      await storage.updateDocumentByUuid(documentUuid_, updateData);
+    let updatedFields: Array<{ fieldName: string; fieldValue: string }> | undefined;
+    if (fields && Array.isArray(fields)) {
+      const targetTemplateUuid = updateData.templateUuid || document.templateUuid;
+
+      // Computed fields use the submitted tables, falling back to the ones already stored
+      const storedData = await loadDocumentData(documentUuid_, targetTemplateUuid);
+      const computedValues = await computeTemplateFieldValues(
+        targetTemplateUuid,
+        Object.fromEntries(fields.map((f: { fieldName: string; fieldValue?: string }) => [f.fieldName, f.fieldValue || ''])),
+        { ...toComputedTableRows(storedData.tableDataMap, storedData.blockDataMap), ...requestTableRows(tableData, blockData) }
+      );
+      // Allocated document numbers cannot be edited
+      Object.assign(computedValues, await getDocumentNumbers(documentUuid_));
+      updatedFields = Object.entries(computedValues).map(([fieldName, fieldValue]) => ({ fieldName, fieldValue }));
+
+      const fieldErrors = await validateTemplateFieldValues(targetTemplateUuid, computedValues);
+      if (Object.keys(fieldErrors).length > 0) {
+        return res.status(400).json({ message: 'Invalid field values', fieldErrors });
+      }
+    }
+
+    const submittedRows: Record<string, unknown> = {
+      ...(tableData && typeof tableData === 'object' ? tableData : {}),
+      ...(blockData && typeof blockData === 'object' ? blockData : {}),
+    };
+    const storedRows = Object.keys(submittedRows).length > 0
+      ? await db.select().from(documentTableData).where(eq(documentTableData.documentUuid, documentUuid_))
+      : [];
+
+    const hasChanges = Object.keys(updateData).length > 0 || !!updatedFields || Object.keys(submittedRows).length > 0;
+    if (hasChanges) {
+      await ensureBaselineRevision(documentUuid_);
+      await storage.updateDocumentByUuid(documentUuid_, { ...updateData, updatedBy: req.user?.id });
     }
 
     let insertedFields = document.fields || [];
-    if (fields && Array.isArray(fields)) {
-      insertedFields = await storage.replaceDocumentFields(documentUuid_, fields);
+    if (updatedFields) {
+      insertedFields = await storage.replaceDocumentFields(documentUuid_, updatedFields);
       documentGeneratorCache.invalidate(documentUuid_);
     }
 
@@ -471,6 +742,56 @@ export async function updateDocument(req: Request, res: Response) {
       }
     }
 
+    if (hasChanges) {
+      await createDocumentRevision(documentUuid_, { createdBy: req.user?.id });
+    }
+
+    // Audit: name / template / table changes, then the changed field values
+    const changeBefore: Record<string, unknown> = {};
+    const changeAfter: Record<string, unknown> = {};
+    if (updateData.name && updateData.name !== document.name) {
+      changeBefore.name = document.name;
+      changeAfter.name = updateData.name;
+    }
+    if (updateData.templateUuid) {
+      changeBefore.templateUuid = document.templateUuid;
+      changeAfter.templateUuid = updateData.templateUuid;
+    }
+    Object.entries(submittedRows).forEach(([tableName, rows]) => {
+      if (!Array.isArray(rows)) return;
+      const previousRows = storedRows.find(r => r.tableName === tableName)?.rows ?? [];
+      if (JSON.stringify(previousRows) !== JSON.stringify(rows)) {
+        changeBefore[tableName] = previousRows;
+        changeAfter[tableName] = rows;
+      }
+    });
+    if (Object.keys(changeAfter).length > 0) {
+      await recordAuditEvent({
+        entityType: 'document',
+        entityUuid: documentUuid_,
+        action: 'update',
+        user: req.user,
+        before: changeBefore,
+        after: changeAfter,
+      });
+    }
+
+    if (updatedFields) {
+      const fieldDiff = diffFieldValues(
+        Object.fromEntries((document.fields || []).map(f => [f.fieldName, f.fieldValue])),
+        Object.fromEntries(updatedFields.map(f => [f.fieldName, f.fieldValue]))
+      );
+      if (fieldDiff) {
+        await recordAuditEvent({
+          entityType: 'document',
+          entityUuid: documentUuid_,
+          action: 'field_change',
+          user: req.user,
+          ...fieldDiff,
+        });
+      }
+    }
+
     res.json({
       ...document,
       name: name || document.name,
@@ -487,6 +808,114 @@ export async function updateDocument(req: Request, res: Response) {
   }
 }
 
+export async function listDocumentRecordLinks(req: Request, res: Response) {
+  try {
+    const document = await storage.getDocumentByUuid(req.params.uuid);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    res.json(await getDocumentRecordLinks(document.uuid));
+  } catch (error) {
+    console.error('Error fetching document record links:', error);
+    res.status(500).json({
+      message: 'Failed to fetch document record links',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Copy the current values of a linked record into the document again, through the mapping
+ * used when it was filled. Saved like a form edit: computed fields, validation, revision and audit.
+ */
+export async function reapplyDocumentRecordLink(req: Request, res: Response) {
+  try {
+    const { uuid: documentUuid, linkId } = req.params;
+
+    const document = await storage.getDocumentByUuid(documentUuid);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+    if (isDocumentLocked(document)) {
+      return res.status(409).json({ message: lockedDocumentMessage(document.workflowStatus), workflowStatus: document.workflowStatus });
+    }
+
+    const link = await getDocumentRecordLink(documentUuid, linkId);
+    if (!link) {
+      return res.status(404).json({ message: 'Record link not found' });
+    }
+
+    // Only fields the template still has and that can take a record value
+    const templateFields = await storage.getTemplateFields(document.templateUuid);
+    const fillableNames = new Set(templateFields.filter(isRecordFillableField).map(f => f.name));
+    const recordValues = Object.fromEntries(
+      Object.entries(applyRecordFieldMapping(link.values, link.mapping)).filter(([fieldName]) => fillableNames.has(fieldName))
+    );
+
+    const currentValues = Object.fromEntries((document.fields || []).map(f => [f.fieldName, f.fieldValue]));
+    const storedData = await loadDocumentData(documentUuid, document.templateUuid);
+    const computedValues = await computeTemplateFieldValues(
+      document.templateUuid,
+      { ...currentValues, ...recordValues },
+      toComputedTableRows(storedData.tableDataMap, storedData.blockDataMap)
+    );
+    // Allocated document numbers cannot be overwritten
+    Object.assign(computedValues, await getDocumentNumbers(documentUuid));
+
+    const fieldErrors = await validateTemplateFieldValues(document.templateUuid, computedValues);
+    if (Object.keys(fieldErrors).length > 0) {
+      return res.status(400).json({ message: 'Invalid field values', fieldErrors });
+    }
+
+    const fieldDiff = diffFieldValues(currentValues, computedValues);
+    if (fieldDiff) {
+      await ensureBaselineRevision(documentUuid);
+      await storage.updateDocumentByUuid(documentUuid, { updatedBy: req.user?.id });
+      await storage.replaceDocumentFields(
+        documentUuid,
+        Object.entries(computedValues).map(([fieldName, fieldValue]) => ({ fieldName, fieldValue }))
+      );
+      documentGeneratorCache.invalidate(documentUuid);
+      await createDocumentRevision(documentUuid, { createdBy: req.user?.id });
+      await recordAuditEvent({
+        entityType: 'document',
+        entityUuid: documentUuid,
+        action: 'field_change',
+        user: req.user,
+        ...fieldDiff,
+      });
+    }
+    await markDocumentRecordLinkApplied(link.id, req.user?.id);
+    console.log(`[MasterData] ${req.user?.username} re-applied record "${link.recordName}" to document ${documentUuid}: ${fieldDiff ? Object.keys(fieldDiff.after).length : 0} field(s) changed`);
+
+    res.json({ changedFields: fieldDiff ? Object.keys(fieldDiff.after) : [] });
+  } catch (error) {
+    console.error('Error re-applying document record:', error);
+    res.status(500).json({
+      message: 'Failed to re-apply record',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function unlinkDocumentRecord(req: Request, res: Response) {
+  try {
+    const deleted = await deleteDocumentRecordLink(req.params.uuid, req.params.linkId);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Record link not found' });
+    }
+
+    res.json({ message: 'Record link deleted' });
+  } catch (error) {
+    console.error('Error deleting document record link:', error);
+    res.status(500).json({
+      message: 'Failed to delete record link',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
 export async function previewDocumentCreation(req: Request, res: Response) {
   try {
     const { templateUuid, name, fields } = req.body;
@@ -579,9 +1008,10 @@ export async function downloadDirectDocument(req: Request, res: Response) {
     // tableData can be passed in request body for direct downloads (no document UUID)
     const tableDataMap: Record<string, TableData> = req.body.tableData || {};
     zip = injectTablesIntoZip(zip, tableDataMap);
-    const doc = createDocxTemplater(zip);
+    const templateFields = await storage.getTemplateFields(templateUuid);
+    const doc = createDocxTemplater(zip, await loadDocumentRenderOptions(templateFields, fieldValues));
 
-    doc.render(fieldValues);
+    doc.render(withComputedValues(templateFields, fieldValues, toComputedTableRows(tableDataMap)));
 
     const documentBuffer = doc.getZip().generate({ type: 'nodebuffer' });
     
@@ -604,7 +1034,7 @@ export async function downloadDirectDocument(req: Request, res: Response) {
 // New endpoint for real-time template preview during document creation
 export async function previewTemplateWithFields(req: Request, res: Response) {
   try {
-    const { templateUuid, fields } = req.body;
+    const { templateUuid, fields, tableData, blockData } = req.body;
 
     if (!templateUuid) {
       return res.status(400).json({ message: 'templateUuid is required' });
@@ -619,7 +1049,7 @@ export async function previewTemplateWithFields(req: Request, res: Response) {
     const templateFields = await storage.getTemplateFields(templateUuid);
     
     // Prepare field values with defaults - map by fieldName
-    const processedFieldValues: Record<string, string> = {};
+    let processedFieldValues: Record<string, string> = {};
     
     // Create mapping from fieldName to value
     const fieldValueMap: Record<string, string> = {};
@@ -635,12 +1065,17 @@ export async function previewTemplateWithFields(req: Request, res: Response) {
       // Keep original line breaks for preview display
       processedFieldValues[field.name] = fieldValue;
     });
+    processedFieldValues = withComputedValues(templateFields, processedFieldValues, requestTableRows(tableData, blockData));
 
     // Generate preview HTML with fallback handling
     let previewHtml = '';
     try {
       const templateBuffer = await FileManagerService.readTemplateBuffer(template.filePath);
-      previewHtml = await generateDocumentPreview(templateBuffer, processedFieldValues);
+      previewHtml = await generateDocumentPreview(
+        templateBuffer,
+        processedFieldValues,
+        await loadDocumentRenderOptions(templateFields, processedFieldValues)
+      );
     } catch (docxError) {
       console.warn('Docxtemplater failed, falling back to mammoth:', docxError);
       
@@ -737,10 +1172,14 @@ function escapeRegExp(string: string): string {
  * This returns the HTML before marker-to-span conversion, allowing
  * the frontend to render input elements at field positions.
  */
-async function generateInteractivePreviewHtml(templateBuffer: Buffer, fieldValues: Record<string, string>): Promise<string> {
+async function generateInteractivePreviewHtml(
+  templateBuffer: Buffer,
+  fieldValues: Record<string, string>,
+  renderOptions: DocumentRenderOptions = {}
+): Promise<string> {
   try {
     const zip = new PizZip(templateBuffer);
-    const doc = createDocxTemplaterPreview(zip);
+    const doc = createDocxTemplaterPreview(zip, renderOptions);
     doc.render(fieldValues);
     const buffer = doc.getZip().generate({ type: 'nodebuffer' });
     const { value: htmlContent } = await mammoth.convertToHtml({ buffer }, getEnhancedMammothOptions());
@@ -757,7 +1196,7 @@ async function generateInteractivePreviewHtml(templateBuffer: Buffer, fieldValue
  */
 export async function getInteractivePreview(req: Request, res: Response) {
   try {
-    const { templateUuid, fields } = req.body;
+    const { templateUuid, fields, tableData, blockData } = req.body;
 
     if (!templateUuid) {
       return res.status(400).json({ message: 'templateUuid is required' });
@@ -772,16 +1211,21 @@ export async function getInteractivePreview(req: Request, res: Response) {
     const templateFields = await storage.getTemplateFields(templateUuid);
     
     // Prepare field values
-    const fieldValues: Record<string, string> = {};
+    let fieldValues: Record<string, string> = {};
     if (fields && Array.isArray(fields)) {
       fields.forEach((field: { fieldName: string; fieldValue: string }) => {
         fieldValues[field.fieldName] = field.fieldValue || '';
       });
     }
+    fieldValues = withComputedValues(templateFields, fieldValues, requestTableRows(tableData, blockData));
 
     // Generate HTML with markers (before conversion to spans)
     const templateBuffer = await FileManagerService.readTemplateBuffer(template.filePath);
-    const markedHtml = await generateInteractivePreviewHtml(templateBuffer, fieldValues);
+    const markedHtml = await generateInteractivePreviewHtml(
+      templateBuffer,
+      fieldValues,
+      await loadDocumentRenderOptions(templateFields, fieldValues)
+    );
     
     // Parse into structured tokens
     const interactiveData = generateInteractivePreviewData(markedHtml);
@@ -798,6 +1242,8 @@ export async function getInteractivePreview(req: Request, res: Response) {
         options: f.options ? JSON.parse(f.options) : null,
         defaultValue: f.defaultValue,
         placeholder: f.placeholder,
+        expression: f.expression,
+        checklistMode: f.checklistMode,
       })),
       styles: getPreviewStyles(),
       template: {
@@ -813,4 +1259,60 @@ export async function getInteractivePreview(req: Request, res: Response) {
       error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-}
\ No newline at end of file
+}
+/**
+ * Upload the image of an image field. The returned path is sent back as the field value.
+ */
+export async function uploadFieldImage(req: Request, res: Response) {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    // The browser-reported MIME type is not enough: check the file signature too
+    const header = Buffer.alloc(8);
+    const handle = await fs.open(req.file.path, 'r');
+    await handle.read(header, 0, header.length, 0).finally(() => handle.close());
+    if (!detectImageFormat(header)) {
+      await FileManagerService.cleanupTempFile(req.file.path);
+      return res.status(400).json({ message: 'Only PNG, JPEG or GIF images are allowed' });
+    }
+
+    const filePath = await FileManagerService.saveUploadedImage(req.file.path, req.file.originalname);
+    res.status(201).json({ path: filePath, name: req.file.originalname, size: req.file.size });
+  } catch (error) {
+    console.error('Error uploading field image:', error);
+    res.status(500).json({
+      message: 'Failed to upload image',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Serve an uploaded field image (thumbnails in the document forms): GET /api/documents/images?path=...
+ */
+export async function getFieldImage(req: Request, res: Response) {
+  try {
+    const filePath = typeof req.query.path === 'string' ? req.query.path : '';
+    if (!FileManagerService.isStoredImagePath(filePath)) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+
+    const buffer = await FileManagerService.readImageBuffer(filePath);
+    const format = detectImageFormat(buffer);
+    if (!format) {
+      return res.status(404).json({ message: 'Image not found' });
+    }
+
+    res.setHeader('Content-Type', `image/${format}`);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.send(buffer);
+  } catch (error) {
+    console.error('Error reading field image:', error);
+    res.status(500).json({
+      message: 'Failed to read image',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
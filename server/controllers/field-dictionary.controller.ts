@@ -0,0 +1,190 @@
+/**
+ * API controllers for the field dictionary (shared field definitions).
+ *
+ * Endpoints:
+ *   GET    /api/field-definitions             — definitions with their number of linked fields / templates
+ *   GET    /api/field-definitions/:id/usage   — template fields linked to a definition
+ *   POST   /api/field-definitions             — create a definition and link the fields with its name (admin)
+ *   PUT    /api/field-definitions/:id         — change a definition and every linked field (admin)
+ *   DELETE /api/field-definitions/:id         — delete a definition, linked fields keep their values (admin)
+ *
+ * A field is linked by hand with PUT /api/templates/:uuid/fields/:name { fieldDefinitionId }.
+ */
+
+import { Request, Response } from 'express';
+import type { FieldValidation } from '@shared/field-validation';
+import {
+  FIELD_DEFINITION_TYPES,
+  isFieldDefinitionType,
+  normalizeFieldDefinitionOptions,
+  validateFieldDefinitionName,
+  validateFieldDefinitionValidation,
+  type FieldDefinitionType,
+} from '@shared/field-dictionary';
+import {
+  createFieldDefinition,
+  deleteFieldDefinition,
+  FieldDefinitionNameTakenError,
+  getFieldDefinition,
+  getFieldDefinitions,
+  getFieldDefinitionUsage,
+  updateFieldDefinition,
+} from '../services/field-dictionary.service';
+
+/**
+ * Validate the editable values of a definition. Missing values are allowed when `partial`.
+ */
+function parseDefinitionInput(body: any, partial: boolean) {
+  const { name, label, fieldType, options, validation, description } = body ?? {};
+  const data: {
+    name?: string;
+    label?: string;
+    fieldType?: FieldDefinitionType;
+    options?: string[];
+    validation?: FieldValidation | null;
+    description?: string | null;
+  } = {};
+
+  if (name !== undefined || !partial) {
+    const nameError = typeof name === 'string' ? validateFieldDefinitionName(name) : 'name is required';
+    if (nameError) return { error: nameError };
+    data.name = name.trim();
+  }
+  if (label !== undefined || !partial) {
+    if (typeof label !== 'string' || !label.trim()) return { error: 'label is required' };
+    data.label = label.trim();
+  }
+  if (fieldType !== undefined) {
+    if (!isFieldDefinitionType(fieldType)) return { error: `fieldType must be one of: ${FIELD_DEFINITION_TYPES.join(', ')}` };
+    data.fieldType = fieldType;
+  }
+  if (options !== undefined) {
+    if (!Array.isArray(options) || options.some(option => typeof option !== 'string')) {
+      return { error: 'options must be an array of strings' };
+    }
+    data.options = normalizeFieldDefinitionOptions(options);
+  }
+  if (validation !== undefined) {
+    const validationError = validation === null ? null : validateFieldDefinitionValidation(validation);
+    if (validationError) return { error: validationError };
+    data.validation = validation;
+  }
+  if (description !== undefined) {
+    if (description !== null && typeof description !== 'string') return { error: 'description must be a string' };
+    data.description = description?.trim() || null;
+  }
+  return { data };
+}
+
+export async function listFieldDefinitions(req: Request, res: Response) {
+  try {
+    res.json(await getFieldDefinitions());
+  } catch (error) {
+    console.error('Error fetching field definitions:', error);
+    res.status(500).json({
+      message: 'Failed to fetch field definitions',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function getDefinitionUsage(req: Request, res: Response) {
+  try {
+    const definition = await getFieldDefinition(req.params.id);
+    if (!definition) {
+      return res.status(404).json({ message: 'Field definition not found' });
+    }
+
+    res.json(await getFieldDefinitionUsage(definition.id));
+  } catch (error) {
+    console.error('Error fetching field definition usage:', error);
+    res.status(500).json({
+      message: 'Failed to fetch field definition usage',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function createDefinition(req: Request, res: Response) {
+  try {
+    const { data, error } = parseDefinitionInput(req.body, false);
+    if (error || !data?.name || !data.label) {
+      return res.status(400).json({ message: error });
+    }
+    if (data.fieldType === 'checklist' && (data.options ?? []).length === 0) {
+      return res.status(400).json({ message: 'Checklist definitions need at least one option' });
+    }
+
+    const { definition, linkedCount } = await createFieldDefinition({
+      ...data,
+      name: data.name,
+      label: data.label,
+      createdBy: req.user?.id,
+    });
+    console.log(`[FieldDictionary] ${req.user?.username} created "${definition.name}", linked ${linkedCount} field(s)`);
+
+    res.status(201).json({ ...definition, linkedCount });
+  } catch (error) {
+    console.error('Error creating field definition:', error);
+    if (error instanceof FieldDefinitionNameTakenError) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({
+      message: 'Failed to create field definition',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function updateDefinition(req: Request, res: Response) {
+  try {
+    const { data, error } = parseDefinitionInput(req.body, true);
+    if (error || !data) {
+      return res.status(400).json({ message: error });
+    }
+
+    const existing = await getFieldDefinition(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: 'Field definition not found' });
+    }
+    const nextType = data.fieldType ?? existing.fieldType;
+    if (nextType === 'checklist' && (data.options ?? existing.options).length === 0) {
+      return res.status(400).json({ message: 'Checklist definitions need at least one option' });
+    }
+
+    const result = await updateFieldDefinition(existing.id, { ...data, updatedBy: req.user?.id });
+    if (!result) {
+      return res.status(404).json({ message: 'Field definition not found' });
+    }
+    console.log(`[FieldDictionary] ${req.user?.username} updated "${result.definition.name}", ${result.updatedCount} linked field(s) updated`);
+
+    res.json({ ...result.definition, updatedCount: result.updatedCount });
+  } catch (error) {
+    console.error('Error updating field definition:', error);
+    if (error instanceof FieldDefinitionNameTakenError) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({
+      message: 'Failed to update field definition',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function deleteDefinition(req: Request, res: Response) {
+  try {
+    const deleted = await deleteFieldDefinition(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Field definition not found' });
+    }
+
+    console.log(`[FieldDictionary] ${req.user?.username} deleted definition ${req.params.id}`);
+    res.json({ message: 'Field definition deleted' });
+  } catch (error) {
+    console.error('Error deleting field definition:', error);
+    res.status(500).json({
+      message: 'Failed to delete field definition',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * API controllers for master data types and records.
+ *
+ * Endpoints:
+ *   GET    /api/master-data/types                   — types with their attributes and record counts
+ *   POST   /api/master-data/types                   — create a type (admin)
+ *   PUT    /api/master-data/types/:id               — change label / attributes / position (admin)
+ *   DELETE /api/master-data/types/:id               — delete a type without records (admin)
+ *   GET    /api/master-data/records                 — records, ?type=<id>&search=&page=
+ *   GET    /api/master-data/records/:id             — one record
+ *   GET    /api/master-data/records/:id/documents   — documents filled from a record
+ *   POST   /api/master-data/records                 — create a record (editor)
+ *   PUT    /api/master-data/records/:id             — change name / values (editor)
+ *   DELETE /api/master-data/records/:id             — delete a record, documents keep their values (editor)
+ *
+ * Documents link to records on creation (POST /api/documents { recordLinks }) and apply record
+ * changes with POST /api/documents/:uuid/record-links/:linkId/reapply.
+ */
+
+import { Request, Response } from 'express';
+import {
+  MAX_MASTER_DATA_RECORD_NAME_LENGTH,
+  validateMasterDataAttributes,
+  validateMasterDataTypeKey,
+  type MasterDataAttribute,
+} from '@shared/master-data';
+import {
+  createMasterDataRecord,
+  createMasterDataType,
+  deleteMasterDataRecord,
+  deleteMasterDataType,
+  getMasterDataRecord,
+  getMasterDataRecords,
+  getMasterDataType,
+  getMasterDataTypes,
+  getRecordDocuments,
+  MasterDataError,
+  pickAttributeValues,
+  updateMasterDataRecord,
+  updateMasterDataType,
+} from '../services/master-data.service';
+
+/**
+ * Validate the editable settings of a type. Missing values are allowed when `partial`.
+ */
+function parseTypeInput(body: any, partial: boolean) {
+  const { label, attributes, position } = body ?? {};
+  const data: { label?: string; attributes?: MasterDataAttribute[]; position?: number } = {};
+
+  if (label !== undefined || !partial) {
+    if (typeof label !== 'string' || !label.trim()) return { error: 'label is required' };
+    data.label = label.trim();
+  }
+  if (attributes !== undefined || !partial) {
+    const attributesError = validateMasterDataAttributes(attributes);
+    if (attributesError) return { error: attributesError };
+    data.attributes = (attributes as MasterDataAttribute[]).map(attribute => ({
+      name: attribute.name.trim(),
+      label: attribute.label.trim(),
+    }));
+  }
+  if (position !== undefined) {
+    if (!Number.isInteger(position)) return { error: 'position must be an integer' };
+    data.position = position;
+  }
+  return { data };
+}
+
+function parseRecordName(name: unknown): { name?: string; error?: string } {
+  if (typeof name !== 'string' || !name.trim()) return { error: 'name is required' };
+  if (name.trim().length > MAX_MASTER_DATA_RECORD_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_MASTER_DATA_RECORD_NAME_LENGTH} characters` };
+  }
+  return { name: name.trim() };
+}
+
+function isValuesObject(values: unknown): values is Record<string, unknown> {
+  return typeof values === 'object' && values !== null && !Array.isArray(values);
+}
+
+export async function listTypes(req: Request, res: Response) {
+  try {
+    res.json(await getMasterDataTypes());
+  } catch (error) {
+    console.error('Error fetching master data types:', error);
+    res.status(500).json({
+      message: 'Failed to fetch master data types',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function createType(req: Request, res: Response) {
+  try {
+    const key = typeof req.body?.key === 'string' ? req.body.key.trim() : '';
+    const keyError = validateMasterDataTypeKey(key);
+    if (keyError) {
+      return res.status(400).json({ message: keyError });
+    }
+
+    const { data, error } = parseTypeInput(req.body, false);
+    if (error || !data?.label || !data.attributes) {
+      return res.status(400).json({ message: error });
+    }
+
+    const type = await createMasterDataType({ ...data, key, label: data.label, attributes: data.attributes });
+    console.log(`[MasterData] ${req.user?.username} created type "${type.key}" (${type.attributes.length} attributes)`);
+
+    res.status(201).json(type);
+  } catch (error) {
+    console.error('Error creating master data type:', error);
+    if (error instanceof MasterDataError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    res.status(500).json({
+      message: 'Failed to create master data type',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function updateType(req: Request, res: Response) {
+  try {
+    if (req.body?.key !== undefined) {
+      return res.status(400).json({ message: 'The key of a type cannot be changed' });
+    }
+
+    const { data, error } = parseTypeInput(req.body, true);
+    if (error || !data) {
+      return res.status(400).json({ message: error });
+    }
+
+    const type = await updateMasterDataType(req.params.id, data);
+    if (!type) {
+      return res.status(404).json({ message: 'Master data type not found' });
+    }
+
+    res.json(type);
+  } catch (error) {
+    console.error('Error updating master data type:', error);
+    res.status(500).json({
+      message: 'Failed to update master data type',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function deleteType(req: Request, res: Response) {
+  try {
+    const deleted = await deleteMasterDataType(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Master data type not found' });
+    }
+
+    console.log(`[MasterData] ${req.user?.username} deleted type ${req.params.id}`);
+    res.json({ message: 'Master data type deleted' });
+  } catch (error) {
+    console.error('Error deleting master data type:', error);
+    if (error instanceof MasterDataError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    res.status(500).json({
+      message: 'Failed to delete master data type',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function listRecords(req: Request, res: Response) {
+  try {
+    const typeId = typeof req.query.type === 'string' && req.query.type ? req.query.type : undefined;
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+    const page = parseInt(req.query.page as string) || 1;
+
+    res.json(await getMasterDataRecords({ typeId, search: search || undefined, page }));
+  } catch (error) {
+    console.error('Error fetching master data records:', error);
+    res.status(500).json({
+      message: 'Failed to fetch master data records',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function getRecord(req: Request, res: Response) {
+  try {
+    const record = await getMasterDataRecord(req.params.id);
+    if (!record) {
+      return res.status(404).json({ message: 'Record not found' });
+    }
+
+    res.json(record);
+  } catch (error) {
+    console.error('Error fetching master data record:', error);
+    res.status(500).json({
+      message: 'Failed to fetch master data record',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function listRecordDocuments(req: Request, res: Response) {
+  try {
+    const record = await getMasterDataRecord(req.params.id);
+    if (!record) {
+      return res.status(404).json({ message: 'Record not found' });
+    }
+
+    res.json(await getRecordDocuments(record.id));
+  } catch (error) {
+    console.error('Error fetching record documents:', error);
+    res.status(500).json({
+      message: 'Failed to fetch record documents',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function createRecord(req: Request, res: Response) {
+  try {
+    const { typeId, values } = req.body ?? {};
+    const { name, error } = parseRecordName(req.body?.name);
+    if (error || !name) {
+      return res.status(400).json({ message: error });
+    }
+    if (typeof typeId !== 'string' || !typeId) {
+      return res.status(400).json({ message: 'typeId is required' });
+    }
+    if (values !== undefined && !isValuesObject(values)) {
+      return res.status(400).json({ message: 'values must be an object' });
+    }
+
+    const type = await getMasterDataType(typeId);
+    if (!type) {
+      return res.status(404).json({ message: 'Master data type not found' });
+    }
+
+    const record = await createMasterDataRecord({
+      typeId: type.id,
+      name,
+      values: pickAttributeValues(type.attributes, values ?? {}),
+      createdBy: req.user?.id,
+    });
+
+    res.status(201).json(record);
+  } catch (error) {
+    console.error('Error creating master data record:', error);
+    res.status(500).json({
+      message: 'Failed to create master data record',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function updateRecord(req: Request, res: Response) {
+  try {
+    const existing = await getMasterDataRecord(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: 'Record not found' });
+    }
+
+    const data: { name?: string; values?: Record<string, string>; updatedBy?: string | null } = { updatedBy: req.user?.id };
+    if (req.body?.name !== undefined) {
+      const { name, error } = parseRecordName(req.body.name);
+      if (error || !name) {
+        return res.status(400).json({ message: error });
+      }
+      data.name = name;
+    }
+    if (req.body?.values !== undefined) {
+      if (!isValuesObject(req.body.values)) {
+        return res.status(400).json({ message: 'values must be an object' });
+      }
+      const type = await getMasterDataType(existing.typeId);
+      // Values of attributes no longer on the type are kept
+      data.values = { ...existing.values, ...pickAttributeValues(type?.attributes ?? [], req.body.values) };
+    }
+
+    const record = await updateMasterDataRecord(existing.id, data);
+    res.json(record);
+  } catch (error) {
+    console.error('Error updating master data record:', error);
+    res.status(500).json({
+      message: 'Failed to update master data record',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function deleteRecord(req: Request, res: Response) {
+  try {
+    const deleted = await deleteMasterDataRecord(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Record not found' });
+    }
+
+    res.json({ message: 'Record deleted' });
+  } catch (error) {
+    console.error('Error deleting master data record:', error);
+    res.status(500).json({
+      message: 'Failed to delete master data record',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * API controllers for document numbering sequences.
+ *
+ * Endpoints:
+ *   GET    /api/numbering-sequences        — sequences with their counters and assigned fields
+ *   POST   /api/numbering-sequences        — create a sequence (admin)
+ *   PUT    /api/numbering-sequences/:id    — change name / pattern / reset period / scope / trigger (admin)
+ *   DELETE /api/numbering-sequences/:id    — delete a sequence that never numbered a document (admin)
+ *
+ * A sequence is assigned to a field with PUT /api/templates/:uuid/fields/:name { numberingSequenceId }.
+ */
+
+import { Request, Response } from 'express';
+import {
+  NUMBERING_RESET_PERIODS,
+  NUMBERING_SCOPES,
+  NUMBERING_TRIGGERS,
+  isNumberingResetPeriod,
+  isNumberingScope,
+  isNumberingTrigger,
+  validateNumberingPattern,
+  type NumberingResetPeriod,
+  type NumberingScope,
+  type NumberingTrigger,
+} from '@shared/numbering';
+import {
+  createNumberingSequence,
+  deleteNumberingSequence,
+  getNumberingSequences,
+  NumberingSequenceInUseError,
+  updateNumberingSequence,
+} from '../services/numbering.service';
+
+/**
+ * Validate the editable settings of a sequence. Missing values are allowed when `partial`.
+ */
+function parseSequenceInput(body: any, partial: boolean) {
+  const { name, pattern, resetPeriod, scope, allocateOn } = body ?? {};
+  const data: {
+    name?: string;
+    pattern?: string;
+    resetPeriod?: NumberingResetPeriod;
+    scope?: NumberingScope;
+    allocateOn?: NumberingTrigger;
+  } = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || !name.trim()) return { error: 'name is required' };
+    data.name = name.trim();
+  }
+  if (pattern !== undefined || !partial) {
+    const patternError = typeof pattern === 'string' ? validateNumberingPattern(pattern) : 'Pattern is required';
+    if (patternError) return { error: patternError };
+    data.pattern = pattern;
+  }
+  if (resetPeriod !== undefined) {
+    if (!isNumberingResetPeriod(resetPeriod)) return { error: `resetPeriod must be one of: ${NUMBERING_RESET_PERIODS.join(', ')}` };
+    data.resetPeriod = resetPeriod;
+  }
+  if (scope !== undefined) {
+    if (!isNumberingScope(scope)) return { error: `scope must be one of: ${NUMBERING_SCOPES.join(', ')}` };
+    data.scope = scope;
+  }
+  if (allocateOn !== undefined) {
+    if (!isNumberingTrigger(allocateOn)) return { error: `allocateOn must be one of: ${NUMBERING_TRIGGERS.join(', ')}` };
+    data.allocateOn = allocateOn;
+  }
+  return { data };
+}
+
+export async function listNumberingSequences(req: Request, res: Response) {
+  try {
+    res.json(await getNumberingSequences());
+  } catch (error) {
+    console.error('Error fetching numbering sequences:', error);
+    res.status(500).json({
+      message: 'Failed to fetch numbering sequences',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function createSequence(req: Request, res: Response) {
+  try {
+    const { data, error } = parseSequenceInput(req.body, false);
+    if (error || !data?.name || !data.pattern) {
+      return res.status(400).json({ message: error });
+    }
+
+    const sequence = await createNumberingSequence({
+      ...data,
+      name: data.name,
+      pattern: data.pattern,
+      createdBy: req.user?.id,
+    });
+    console.log(`[Numbering] ${req.user?.username} created sequence "${sequence.name}" (${sequence.pattern})`);
+
+    res.status(201).json(sequence);
+  } catch (error) {
+    console.error('Error creating numbering sequence:', error);
+    res.status(500).json({
+      message: 'Failed to create numbering sequence',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function updateSequence(req: Request, res: Response) {
+  try {
+    const { data, error } = parseSequenceInput(req.body, true);
+    if (error || !data) {
+      return res.status(400).json({ message: error });
+    }
+
+    const sequence = await updateNumberingSequence(req.params.id, data);
+    if (!sequence) {
+      return res.status(404).json({ message: 'Numbering sequence not found' });
+    }
+
+    res.json(sequence);
+  } catch (error) {
+    console.error('Error updating numbering sequence:', error);
+    res.status(500).json({
+      message: 'Failed to update numbering sequence',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function deleteSequence(req: Request, res: Response) {
+  try {
+    const deleted = await deleteNumberingSequence(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Numbering sequence not found' });
+    }
+
+    console.log(`[Numbering] ${req.user?.username} deleted sequence ${req.params.id}`);
+    res.json({ message: 'Numbering sequence deleted' });
+  } catch (error) {
+    console.error('Error deleting numbering sequence:', error);
+    if (error instanceof NumberingSequenceInUseError) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({
+      message: 'Failed to delete numbering sequence',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -18,6 +18,30 @@ import { db } from '@db';
 import { templateTables, documentTableData, documents, templates } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
 import { documentGeneratorCache } from '../services/document-generator-cache.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { createDocumentRevision, ensureBaselineRevision } from '../services/document-revision.service';
+import { isDocumentLocked, lockedDocumentMessage } from '../services/document-workflow.service';
+
+/**
+ * Mark the document as changed by the current user, snapshot a revision and record
+ * the table rows before/after (nothing when the rows are unchanged).
+ */
+async function recordTableChange(req: Request, documentUuid: string, tableName: string, before: unknown, after: unknown) {
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  await db
+    .update(documents)
+    .set({ updatedBy: req.user?.id, updatedAt: new Date() })
+    .where(eq(documents.uuid, documentUuid));
+  await createDocumentRevision(documentUuid, { createdBy: req.user?.id });
+  await recordAuditEvent({
+    entityType: 'document',
+    entityUuid: documentUuid,
+    action: 'update',
+    user: req.user,
+    before: { [tableName]: before },
+    after: { [tableName]: after },
+  });
+}
 
 // ─── Template table routes ────────────────────────────────────────────────────
 
@@ -534,10 +558,11 @@ export async function uploadDocumentTableExcel(req: Request, res: Response) {
     if (!req.file) return res.status(400).json({ message: 'No file uploaded' });
 
     const [doc] = await db
-      .select({ uuid: documents.uuid, templateUuid: documents.templateUuid })
+      .select({ uuid: documents.uuid, templateUuid: documents.templateUuid, workflowStatus: documents.workflowStatus })
       .from(documents)
       .where(eq(documents.uuid, documentUuid));
     if (!doc) return res.status(404).json({ message: 'Document not found' });
+    if (isDocumentLocked(doc)) return res.status(409).json({ message: lockedDocumentMessage(doc.workflowStatus) });
 
     const [tableDef] = await db
       .select()
@@ -557,7 +582,7 @@ export async function uploadDocumentTableExcel(req: Request, res: Response) {
 
     // Upsert rows
     const existing = await db
-      .select({ id: documentTableData.id })
+      .select({ id: documentTableData.id, rows: documentTableData.rows })
       .from(documentTableData)
       .where(
         and(
@@ -566,6 +591,7 @@ export async function uploadDocumentTableExcel(req: Request, res: Response) {
         ),
       );
 
+    await ensureBaselineRevision(documentUuid);
     if (existing.length > 0) {
       await db
         .update(documentTableData)
@@ -583,6 +609,7 @@ export async function uploadDocumentTableExcel(req: Request, res: Response) {
     }
 
     documentGeneratorCache.invalidate(documentUuid);
+    await recordTableChange(req, documentUuid, tableName, existing[0]?.rows ?? [], parsedRows);
     res.json({ rows: parsedRows, count: parsedRows.length });
   } catch (err: any) {
     console.error('[uploadDocumentTableExcel]', err);
@@ -663,17 +690,20 @@ export async function saveDocumentTableData(req: Request, res: Response) {
 
     // Verify document exists
     const [doc] = await db
-      .select({ uuid: documents.uuid })
+      .select({ uuid: documents.uuid, workflowStatus: documents.workflowStatus })
       .from(documents)
       .where(eq(documents.uuid, documentUuid));
 
     if (!doc) {
       return res.status(404).json({ message: 'Document not found' });
     }
+    if (isDocumentLocked(doc)) {
+      return res.status(409).json({ message: lockedDocumentMessage(doc.workflowStatus) });
+    }
 
     // Upsert: insert or update existing row
     const existing = await db
-      .select({ id: documentTableData.id })
+      .select({ id: documentTableData.id, rows: documentTableData.rows })
       .from(documentTableData)
       .where(and(
         eq(documentTableData.documentUuid, documentUuid),
@@ -681,6 +711,7 @@ export async function saveDocumentTableData(req: Request, res: Response) {
       ));
 
     let result;
+    await ensureBaselineRevision(documentUuid);
     if (existing.length > 0) {
       [result] = await db
         .update(documentTableData)
@@ -699,6 +730,7 @@ export async function saveDocumentTableData(req: Request, res: Response) {
 
     // Invalidate document generator cache so next download picks up new rows
     documentGeneratorCache.invalidate(documentUuid);
+    await recordTableChange(req, documentUuid, tableName, existing[0]?.rows ?? [], rows);
 
     res.json(result);
   } catch (err) {
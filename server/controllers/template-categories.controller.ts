@@ -0,0 +1,159 @@
+/**
+ * API controllers for template categories.
+ *
+ * Endpoints:
+ *   GET    /api/template-categories        — categories with their template counts
+ *   POST   /api/template-categories        — create a category (admin)
+ *   PUT    /api/template-categories/:id    — change label / colour / icon / parent / position (admin)
+ *   DELETE /api/template-categories/:id    — delete a category without templates or sub-categories (admin)
+ *
+ * The key of a category is set on creation and stored on templates.category; it cannot be changed.
+ */
+
+import { Request, Response } from 'express';
+import {
+  TEMPLATE_CATEGORY_ICONS,
+  isTemplateCategoryColor,
+  isTemplateCategoryIcon,
+  validateTemplateCategoryKey,
+  type TemplateCategoryIcon,
+} from '@shared/template-categories';
+import {
+  createTemplateCategory,
+  deleteTemplateCategory,
+  getTemplateCategories,
+  TemplateCategoryError,
+  updateTemplateCategory,
+} from '../services/template-category.service';
+
+/**
+ * Validate the editable settings of a category. Missing values are allowed when `partial`.
+ */
+function parseCategoryInput(body: any, partial: boolean) {
+  const { label, labelEn, color, icon, parentId, position } = body ?? {};
+  const data: {
+    label?: string;
+    labelEn?: string | null;
+    color?: string;
+    icon?: TemplateCategoryIcon;
+    parentId?: string | null;
+    position?: number;
+  } = {};
+
+  if (label !== undefined || !partial) {
+    if (typeof label !== 'string' || !label.trim()) return { error: 'label is required' };
+    data.label = label.trim();
+  }
+  if (labelEn !== undefined) {
+    if (labelEn !== null && typeof labelEn !== 'string') return { error: 'labelEn must be a string' };
+    data.labelEn = labelEn?.trim() || null;
+  }
+  if (color !== undefined) {
+    if (!isTemplateCategoryColor(color)) return { error: 'color must be a hex colour such as #2563eb' };
+    data.color = color.toLowerCase();
+  }
+  if (icon !== undefined) {
+    if (!isTemplateCategoryIcon(icon)) return { error: `icon must be one of: ${TEMPLATE_CATEGORY_ICONS.join(', ')}` };
+    data.icon = icon;
+  }
+  if (parentId !== undefined) {
+    if (parentId !== null && typeof parentId !== 'string') return { error: 'parentId must be a category id or null' };
+    data.parentId = parentId || null;
+  }
+  if (position !== undefined) {
+    if (!Number.isInteger(position)) return { error: 'position must be an integer' };
+    data.position = position;
+  }
+  return { data };
+}
+
+export async function listTemplateCategories(req: Request, res: Response) {
+  try {
+    res.json(await getTemplateCategories());
+  } catch (error) {
+    console.error('Error fetching template categories:', error);
+    res.status(500).json({
+      message: 'Failed to fetch template categories',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function createCategory(req: Request, res: Response) {
+  try {
+    const key = typeof req.body?.key === 'string' ? req.body.key.trim() : '';
+    const keyError = validateTemplateCategoryKey(key);
+    if (keyError) {
+      return res.status(400).json({ message: keyError });
+    }
+
+    const { data, error } = parseCategoryInput(req.body, false);
+    if (error || !data?.label) {
+      return res.status(400).json({ message: error });
+    }
+
+    const category = await createTemplateCategory({ ...data, key, label: data.label });
+    console.log(`[TemplateCategories] ${req.user?.username} created category "${category.key}" (${category.label})`);
+
+    res.status(201).json(category);
+  } catch (error) {
+    console.error('Error creating template category:', error);
+    if (error instanceof TemplateCategoryError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    res.status(500).json({
+      message: 'Failed to create template category',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function updateCategory(req: Request, res: Response) {
+  try {
+    if (req.body?.key !== undefined) {
+      return res.status(400).json({ message: 'The key of a category cannot be changed' });
+    }
+
+    const { data, error } = parseCategoryInput(req.body, true);
+    if (error || !data) {
+      return res.status(400).json({ message: error });
+    }
+
+    const category = await updateTemplateCategory(req.params.id, data);
+    if (!category) {
+      return res.status(404).json({ message: 'Template category not found' });
+    }
+
+    res.json(category);
+  } catch (error) {
+    console.error('Error updating template category:', error);
+    if (error instanceof TemplateCategoryError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    res.status(500).json({
+      message: 'Failed to update template category',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function deleteCategory(req: Request, res: Response) {
+  try {
+    const deleted = await deleteTemplateCategory(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Template category not found' });
+    }
+
+    console.log(`[TemplateCategories] ${req.user?.username} deleted category ${req.params.id}`);
+    res.json({ message: 'Template category deleted' });
+  } catch (error) {
+    console.error('Error deleting template category:', error);
+    if (error instanceof TemplateCategoryError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    res.status(500).json({
+      message: 'Failed to delete template category',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
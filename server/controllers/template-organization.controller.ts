@@ -0,0 +1,256 @@
+/**
+ * API controllers for template tags, personal folders and favourites.
+ *
+ * Endpoints:
+ *   GET    /api/template-tags                              — tags in use with their template counts
+ *   PUT    /api/templates/:uuid/tags                       — replace the tags of a template (editor)
+ *   PUT    /api/templates/:uuid/favorite                   — add to the user's favourites
+ *   DELETE /api/templates/:uuid/favorite                   — remove from the user's favourites
+ *   GET    /api/templates/quick-access                     — the user's favourites and recently used templates
+ *   GET    /api/template-folders                           — the user's folders with their template uuids
+ *   POST   /api/template-folders                           — create a folder
+ *   PUT    /api/template-folders/:id                       — rename a folder
+ *   DELETE /api/template-folders/:id                       — delete a folder (templates are kept)
+ *   PUT    /api/template-folders/:id/templates/:uuid       — file a template in a folder
+ *   DELETE /api/template-folders/:id/templates/:uuid       — take a template out of a folder
+ *
+ * GET /api/templates filters with ?tags=a,b, ?folder=<id> and ?favorites=true.
+ */
+
+import { Request, Response } from 'express';
+import { storage } from '../storage-uuid';
+import { recordAuditEvent } from '../services/audit.service';
+import {
+  MAX_TEMPLATE_FOLDER_NAME_LENGTH,
+  normalizeTemplateTags,
+  validateTemplateTags,
+} from '@shared/template-organization';
+import {
+  addTemplateToFolder,
+  createTemplateFolder,
+  deleteTemplateFolder,
+  getQuickAccessTemplates,
+  getTemplateFolder,
+  getTemplateFolders,
+  getTemplateTags,
+  removeTemplateFromFolder,
+  renameTemplateFolder,
+  setTemplateFavorite,
+  setTemplateTags,
+  TemplateFolderNameTakenError,
+} from '../services/template-organization.service';
+
+function parseFolderName(body: any): { name?: string; error?: string } {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) return { error: 'name is required' };
+  if (name.length > MAX_TEMPLATE_FOLDER_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_TEMPLATE_FOLDER_NAME_LENGTH} characters` };
+  }
+  return { name };
+}
+
+export async function listTemplateTags(req: Request, res: Response) {
+  try {
+    res.json(await getTemplateTags());
+  } catch (error) {
+    console.error('Error fetching template tags:', error);
+    res.status(500).json({
+      message: 'Failed to fetch template tags',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function updateTemplateTags(req: Request, res: Response) {
+  try {
+    const tagsError = validateTemplateTags(req.body?.tags);
+    if (tagsError) {
+      return res.status(400).json({ message: tagsError });
+    }
+
+    const template = await storage.getTemplateByUuid(req.params.uuid);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    const tags = normalizeTemplateTags(req.body.tags);
+    const updated = await setTemplateTags(template.uuid, tags, req.user?.id);
+
+    if (tags.join('\n') !== template.tags.join('\n')) {
+      await recordAuditEvent({
+        entityType: 'template',
+        entityUuid: template.uuid,
+        action: 'update',
+        user: req.user,
+        before: { tags: template.tags },
+        after: { tags },
+      });
+    }
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Error updating template tags:', error);
+    res.status(500).json({
+      message: 'Failed to update template tags',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function addFavorite(req: Request, res: Response) {
+  try {
+    const template = await storage.getTemplateByUuid(req.params.uuid);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    await setTemplateFavorite(req.user!.id, template.uuid, true);
+    res.json({ favorite: true });
+  } catch (error) {
+    console.error('Error adding favourite template:', error);
+    res.status(500).json({
+      message: 'Failed to add favourite',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function removeFavorite(req: Request, res: Response) {
+  try {
+    await setTemplateFavorite(req.user!.id, req.params.uuid, false);
+    res.json({ favorite: false });
+  } catch (error) {
+    console.error('Error removing favourite template:', error);
+    res.status(500).json({
+      message: 'Failed to remove favourite',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function getQuickAccess(req: Request, res: Response) {
+  try {
+    res.json(await getQuickAccessTemplates(req.user!.id));
+  } catch (error) {
+    console.error('Error fetching quick access templates:', error);
+    res.status(500).json({
+      message: 'Failed to fetch quick access templates',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function listFolders(req: Request, res: Response) {
+  try {
+    res.json(await getTemplateFolders(req.user!.id));
+  } catch (error) {
+    console.error('Error fetching template folders:', error);
+    res.status(500).json({
+      message: 'Failed to fetch template folders',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function createFolder(req: Request, res: Response) {
+  try {
+    const { name, error } = parseFolderName(req.body);
+    if (error || !name) {
+      return res.status(400).json({ message: error });
+    }
+
+    const folder = await createTemplateFolder(req.user!.id, name);
+    res.status(201).json({ ...folder, templateUuids: [] });
+  } catch (error) {
+    console.error('Error creating template folder:', error);
+    if (error instanceof TemplateFolderNameTakenError) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({
+      message: 'Failed to create template folder',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function renameFolder(req: Request, res: Response) {
+  try {
+    const { name, error } = parseFolderName(req.body);
+    if (error || !name) {
+      return res.status(400).json({ message: error });
+    }
+
+    const folder = await renameTemplateFolder(req.user!.id, req.params.id, name);
+    if (!folder) {
+      return res.status(404).json({ message: 'Folder not found' });
+    }
+
+    res.json(folder);
+  } catch (error) {
+    console.error('Error renaming template folder:', error);
+    if (error instanceof TemplateFolderNameTakenError) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({
+      message: 'Failed to rename template folder',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function deleteFolder(req: Request, res: Response) {
+  try {
+    const deleted = await deleteTemplateFolder(req.user!.id, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Folder not found' });
+    }
+
+    res.json({ message: 'Folder deleted' });
+  } catch (error) {
+    console.error('Error deleting template folder:', error);
+    res.status(500).json({
+      message: 'Failed to delete template folder',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function addFolderTemplate(req: Request, res: Response) {
+  try {
+    const folder = await getTemplateFolder(req.user!.id, req.params.id);
+    if (!folder) {
+      return res.status(404).json({ message: 'Folder not found' });
+    }
+    const template = await storage.getTemplateByUuid(req.params.uuid);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    await addTemplateToFolder(folder.id, template.uuid);
+    res.json({ message: 'Template added to folder' });
+  } catch (error) {
+    console.error('Error adding template to folder:', error);
+    res.status(500).json({
+      message: 'Failed to add template to folder',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function removeFolderTemplate(req: Request, res: Response) {
+  try {
+    const folder = await getTemplateFolder(req.user!.id, req.params.id);
+    if (!folder) {
+      return res.status(404).json({ message: 'Folder not found' });
+    }
+
+    await removeTemplateFromFolder(folder.id, req.params.uuid);
+    res.json({ message: 'Template removed from folder' });
+  } catch (error) {
+    console.error('Error removing template from folder:', error);
+    res.status(500).json({
+      message: 'Failed to remove template from folder',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -13,8 +13,41 @@ import { ApiResponse } from '../utils/response-builders';
 import { getEnhancedMammothOptions, getPreviewStyles } from '../services/template-processor.service';
 import { fieldHighlightStyles } from '../utils/docx-parser';
 import { templatePreviewCache } from '../services/template-preview-cache.service';
+import { documentGeneratorCache } from '../services/document-generator-cache.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { getNumberingSequence, getUnnumberableReason } from '../services/numbering.service';
+import { expandTemplateCategoryFilter, templateCategoryExists } from '../services/template-category.service';
+import { getFavoriteTemplateUuids, getTemplateFolder } from '../services/template-organization.service';
+import {
+  getFieldDefinition,
+  getUnlinkableReason,
+  linkTemplateFieldsToDictionary,
+  setTemplateFieldDefinition,
+} from '../services/field-dictionary.service';
+import { normalizeTemplateTags } from '@shared/template-organization';
 import { getContentDispositionHeader } from '../utils/filename-encoder';
-import { parseTableMarkersFromXml } from '../utils/table-marker';
+import { parseTableMarkersFromXml, type ParsedTableMarker } from '../utils/table-marker';
+import { listContentParts } from '../utils/docx-parts';
+import { TemplateFieldAnalyzer } from '../services/template-field-analyzer.service';
+import { generateExcelTemplate } from '../services/excel.service';
+import { getBatchMappingPreview } from '../services/batch-mapping.service';
+import { BatchWorkbookError, toBatchWorkbookBuffer } from '../services/batch-workbook.service';
+import { extractFieldTypeSpec, type FieldValidation } from '@shared/field-validation';
+import { extractFormatters, getChecklistModeFormatter } from '../utils/value-formatters';
+import { extractComputedExpression } from '@shared/computed-fields';
+import { isChecklistRenderMode, type ChecklistRenderMode } from '@shared/checklist';
+import {
+  createTemplateVersion,
+  diffTemplateStructures,
+  ensureCurrentVersionRecorded,
+  getTemplateStructure,
+  getTemplateVersions,
+  hasStructuralChanges,
+  migrateDocuments,
+  pinDocumentsToVersion,
+  validateFieldMapping,
+  type TemplateStructure,
+} from '../services/template-version.service';
 import PizZip from 'pizzip';
 
 /**
@@ -79,8 +112,32 @@ function parseChorusBlocksFromXml(xmlContent: string): Array<{ name: string; var
     return [];
   }
 }
+
+/**
+ * Collect <<TABLE>> markers and chorus blocks from every content part
+ * (body, headers, footers, footnotes, endnotes). First occurrence of a name wins.
+ */
+function parseStructureMarkersFromZip(zip: PizZip): {
+  tableMarkers: ParsedTableMarker[];
+  chorusBlocks: Array<{ name: string; variables: BlockVariableDef[] }>;
+} {
+  const tableMarkers: ParsedTableMarker[] = [];
+  const chorusBlocks: Array<{ name: string; variables: BlockVariableDef[] }> = [];
+
+  for (const part of listContentParts(zip)) {
+    const xmlContent = zip.files[part.path].asText();
+    for (const marker of parseTableMarkersFromXml(xmlContent)) {
+      if (!tableMarkers.find(m => m.name === marker.name)) tableMarkers.push(marker);
+    }
+    for (const block of parseChorusBlocksFromXml(xmlContent)) {
+      if (!chorusBlocks.find(b => b.name === block.name)) chorusBlocks.push(block);
+    }
+  }
+
+  return { tableMarkers, chorusBlocks };
+}
 import { db } from '@db';
-import { templateTables, templateFields } from '@shared/schema';
+import { templateTables, templateFields, templateVersions } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
 
 // Configure multer for file uploads
@@ -120,17 +177,33 @@ export const uploadTemplateMiddleware = upload.single('file');
 
 export async function getTemplates(req: Request, res: Response) {
   try {
-    const { search, category, archived, page = '1', limit = '10' } = req.query;
+    const { search, category, tags, folder, favorites, archived, page = '1', limit = '10' } = req.query;
     
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
     const offset = (pageNum - 1) * limitNum;
 
     const isArchived = archived === 'true';
+    // A category also matches the templates of its sub-categories
+    const categories = category && category !== 'all'
+      ? await expandTemplateCategoryFilter(category as string)
+      : undefined;
+    // Tags, folders and favourites: ?tags=a,b (all of them), ?folder=<id> (own folders only), ?favorites=true
+    const tagFilter = tags ? normalizeTemplateTags(String(tags).split(',')) : undefined;
+    const folderId = folder ? (await getTemplateFolder(req.user!.id, folder as string))?.id : undefined;
+    if (folder && !folderId) {
+      return res.status(404).json({ message: 'Folder not found' });
+    }
+    const organization = {
+      tags: tagFilter,
+      folderId,
+      favoriteOf: favorites === 'true' ? req.user!.id : undefined,
+    };
     
     const templates = await storage.getTemplates({
       searchQuery: search as string,
-      category: category as string,
+      categories,
+      ...organization,
       archived: isArchived,
       limit: limitNum,
       offset: offset,
@@ -138,14 +211,16 @@ export async function getTemplates(req: Request, res: Response) {
 
     const filteredTotal = await storage.getTemplatesCount({
       searchQuery: search as string,
-      category: category as string,
+      categories,
+      ...organization,
       archived: isArchived,
     });
 
     const stats = await storage.getTemplateStats();
+    const favoriteUuids = await getFavoriteTemplateUuids(req.user!.id);
 
     res.json({
-      templates,
+      templates: templates.map(template => ({ ...template, favorite: favoriteUuids.includes(template.uuid) })),
       pagination: {
         page: pageNum,
         limit: limitNum,
@@ -211,6 +286,11 @@ export async function createTemplate(req: Request, res: Response) {
     });
 
     const validatedData = insertTemplateSchema.parse(req.body);
+    if (!await templateCategoryExists(validatedData.category)) {
+      console.log(`[UPLOAD ${uploadId}] ERROR: Unknown category ${validatedData.category}`);
+      await fs.unlink(req.file.path).catch(() => {});
+      return res.status(400).json({ message: `Unknown template category: ${validatedData.category}` });
+    }
     console.log(`[UPLOAD ${uploadId}] Validation passed`);
     
     // Log existing templates BEFORE upload
@@ -237,6 +317,7 @@ export async function createTemplate(req: Request, res: Response) {
       description: validatedData.description || undefined,
       category: validatedData.category,
       filePath: permanentFilePath,
+      createdBy: req.user?.id,
     };
 
     console.log(`[UPLOAD ${uploadId}] Creating template in database...`);
@@ -254,45 +335,38 @@ export async function createTemplate(req: Request, res: Response) {
       const fileBuffer = await FileManagerService.readTemplateBuffer(permanentFilePath);
       console.log('File buffer size:', fileBuffer.length);
       
-      const { value: extractedText } = await mammoth.extractRawText({ buffer: fileBuffer });
-      console.log('Extracted text length:', extractedText.length);
-      console.log('Extracted text preview:', extractedText.substring(0, 500));
-      
       // Extract field placeholders like {{fieldName}} or {{fieldName=default|opt1|opt2}}
-      const fieldMatches = extractedText.match(/\{\{([^}]+)\}\}/g) || [];
-      console.log('Field matches found:', fieldMatches);
-      
-      const rawFieldContents = fieldMatches.map(match => match.replace(/[{}]/g, ''));
-      console.log('Raw field contents:', rawFieldContents);
+      // from body, headers, footers, footnotes, endnotes and text boxes
+      const placeholderOccurrences = await TemplateFieldAnalyzer.extractPlaceholdersFromDocx(fileBuffer);
+      console.log('Placeholders found:', placeholderOccurrences.map(o => `${o.raw} [${o.locations.join(',')}]`));
       
-      // Remove duplicates manually (based on raw content to preserve syntax)
-      const uniqueRawFields = rawFieldContents.filter((field, index) => rawFieldContents.indexOf(field) === index);
+      // Unique by raw content to preserve syntax
+      const uniqueRawFields = placeholderOccurrences.map(o => o.raw);
       console.log('Unique raw fields:', uniqueRawFields);
 
       // Also extract <<TABLE_NAME>> markers and {%#BLOCK%} chorus blocks from XML
-      let tableMarkers: Array<{ name: string; columns: Array<{ name: string; label: string }> }> = [];
+      let tableMarkers: ParsedTableMarker[] = [];
       let chorusBlocks: Array<{ name: string; variables: BlockVariableDef[] }> = [];
       try {
-        const zip = new PizZip(fileBuffer);
-        const xmlFile = zip.files['word/document.xml'];
-        if (xmlFile) {
-          const xmlContent = xmlFile.asText();
-          tableMarkers = parseTableMarkersFromXml(xmlContent);
-          chorusBlocks = parseChorusBlocksFromXml(xmlContent);
-          console.log('Table markers found:', tableMarkers.map(m => m.name));
-          console.log('Chorus blocks found:', chorusBlocks.map(b => `${b.name}(${b.variables.map(v => v.options.length > 0 ? `${v.name}[checklist:${v.options.length}]` : v.name).join(',')})`));
-        }
+        ({ tableMarkers, chorusBlocks } = parseStructureMarkersFromZip(new PizZip(fileBuffer)));
+        console.log('Table markers found:', tableMarkers.map(m => m.name));
+        console.log('Chorus blocks found:', chorusBlocks.map(b => `${b.name}(${b.variables.map(v => v.options.length > 0 ? `${v.name}[checklist:${v.options.length}]` : v.name).join(',')})`));
       } catch (xmlErr) {
         console.warn('Could not extract table/block markers from XML:', xmlErr);
       }
       
       if (uniqueRawFields.length > 0 || tableMarkers.length > 0 || chorusBlocks.length > 0) {
         // Parse each {{}} field with new syntax: {{field=default|opt1|opt2}}
-        const fieldsData = uniqueRawFields.map((rawField, idx) => {
+        const parsedFields = uniqueRawFields.map((rawPlaceholder, idx) => {
+          // Formatters {{field|date:'dd/MM/yyyy'}}, computed {{field:=sum(bang.cot)}} and typed
+          // syntax {{field:number(min=0)}} are stripped before the usual default / options parsing
+          const { placeholder: withoutFormatters, formatters } = extractFormatters(rawPlaceholder);
+          const computed = extractComputedExpression(withoutFormatters);
+          const { placeholder: rawField, spec: typeSpec } = extractFieldTypeSpec(computed.placeholder);
           let fieldName = rawField;
           let defaultValue: string | undefined;
           let options: string | undefined;
-          let fieldType = 'text';
+          let fieldType: string = typeSpec?.fieldType ?? 'text';
           
           // Check for new bracket syntax: field['opt1']['opt2']
           if (rawField.includes("['")) {
@@ -350,9 +424,39 @@ export async function createTemplate(req: Request, res: Response) {
             options,
             defaultValue,
             position: idx,
+            locations: placeholderOccurrences[idx].locations,
+            validation: typeSpec?.validation,
+            conditional: placeholderOccurrences[idx].conditional ?? false,
+            expression: computed.expression ?? undefined,
+            checklistMode: getChecklistModeFormatter(formatters),
           };
         });
 
+        // One field per name: {{so_tien}} and {{so_tien|words:vi}} are the same field.
+        // The first occurrence keeps its position; later ones fill in missing metadata.
+        const fieldsByName = new Map<string, typeof parsedFields[number]>();
+        for (const parsed of parsedFields) {
+          const key = parsed.name.toLowerCase();
+          const existing = fieldsByName.get(key);
+          if (!existing) {
+            fieldsByName.set(key, { ...parsed, locations: [...parsed.locations] });
+            continue;
+          }
+          if (existing.options === undefined && parsed.options !== undefined) {
+            existing.options = parsed.options;
+            existing.fieldType = parsed.fieldType;
+          }
+          if (existing.defaultValue === undefined) existing.defaultValue = parsed.defaultValue;
+          if (existing.validation === undefined) existing.validation = parsed.validation;
+          if (existing.expression === undefined) existing.expression = parsed.expression;
+          if (existing.checklistMode === undefined) existing.checklistMode = parsed.checklistMode;
+          if (parsed.conditional) existing.conditional = true;
+          for (const location of parsed.locations) {
+            if (!existing.locations.includes(location)) existing.locations.push(location);
+          }
+        }
+        const fieldsData = Array.from(fieldsByName.values()).map((field, idx) => ({ ...field, position: idx }));
+
         // Add row_group fields for each table marker
         const tableFieldsData = tableMarkers.map((marker, idx) => ({
           templateUuid: template.uuid,
@@ -362,12 +466,14 @@ export async function createTemplate(req: Request, res: Response) {
           required: false,
           options: undefined,
           defaultValue: undefined,
-          position: uniqueRawFields.length + idx,
+          position: fieldsData.length + idx,
         }));
         
         const allFieldsData = [...fieldsData, ...tableFieldsData];
         console.log('Creating fields with parsed data:', allFieldsData);
         await storage.updateTemplateFields(template.uuid, allFieldsData);
+        // Fields named like a field dictionary entry follow its label / type / options / validation
+        await linkTemplateFieldsToDictionary(template.uuid);
         
         // Create templateTables records for each marker
         if (tableMarkers.length > 0) {
@@ -409,7 +515,7 @@ export async function createTemplate(req: Request, res: Response) {
 
         // Update field count (only count regular fields, not row_group)
         await storage.updateTemplateByUuid(template.uuid, {
-          fieldCount: (uniqueRawFields.length + tableMarkers.length).toString()
+          fieldCount: (fieldsData.length + tableMarkers.length).toString()
         });
         
         console.log('Fields successfully created for template:', template.uuid);
@@ -423,6 +529,19 @@ export async function createTemplate(req: Request, res: Response) {
 
     // Fetch the updated template with fields
     const updatedTemplate = await storage.getTemplateByUuid(template.uuid);
+
+    // Record the uploaded file as version 1
+    if (updatedTemplate) {
+      await ensureCurrentVersionRecorded(updatedTemplate);
+    }
+
+    await recordAuditEvent({
+      entityType: 'template',
+      entityUuid: template.uuid,
+      action: 'create',
+      user: req.user,
+      after: { name: template.name, category: template.category, description: template.description },
+    });
     
     // Final verification - log templates after everything is done
     const finalTemplates = await storage.getTemplates({ limit: 100 });
@@ -491,11 +610,27 @@ export async function updateTemplate(req: Request, res: Response) {
     }
 
     const validatedData = insertTemplateSchema.partial().parse(req.body);
+    if (validatedData.category !== undefined && !await templateCategoryExists(validatedData.category)) {
+      return res.status(400).json({ message: `Unknown template category: ${validatedData.category}` });
+    }
     
-    const updatedTemplate = await storage.updateTemplateByUuid(templateUuid_, validatedData);
+    const updatedTemplate = await storage.updateTemplateByUuid(templateUuid_, { ...validatedData, updatedBy: req.user?.id });
     
     // Invalidate cache when template is updated
     templatePreviewCache.invalidate(templateUuid_);
+
+    const changedKeys = (Object.keys(validatedData) as Array<keyof typeof validatedData>)
+      .filter(key => validatedData[key] !== undefined && validatedData[key] !== template[key]);
+    if (changedKeys.length > 0) {
+      await recordAuditEvent({
+        entityType: 'template',
+        entityUuid: templateUuid_,
+        action: 'update',
+        user: req.user,
+        before: Object.fromEntries(changedKeys.map(key => [key, template[key]])),
+        after: Object.fromEntries(changedKeys.map(key => [key, validatedData[key]])),
+      });
+    }
     
     res.json(updatedTemplate);
   } catch (error) {
@@ -534,129 +669,71 @@ export async function replaceTemplateFile(req: Request, res: Response) {
       return res.status(404).json({ message: 'Template not found' });
     }
     
-    console.log(`[REPLACE ${replaceId}] Template: ${template.name} (${templateUuid})`);
+    console.log(`[REPLACE ${replaceId}] Template: ${template.name} (${templateUuid}) v${template.currentVersion}`);
     console.log(`[REPLACE ${replaceId}] New file: ${req.file.originalname}`);
+
+    // Options (multipart form fields):
+    // - dryRun=true: only return the diff against the current version, nothing is saved
+    // - fieldMapping: JSON { oldName: newName } for renamed fields / tables / chorus blocks
+    // - migrateDocuments=true: move all existing documents to the new version through the mapping
+    const dryRun = req.body.dryRun === 'true';
+    const migrate = req.body.migrateDocuments === 'true';
+    let fieldMapping: Record<string, string> = {};
+    if (req.body.fieldMapping) {
+      try {
+        const parsed = typeof req.body.fieldMapping === 'string' ? JSON.parse(req.body.fieldMapping) : req.body.fieldMapping;
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) || Object.values(parsed).some(v => typeof v !== 'string')) {
+          throw new Error('fieldMapping must be an object of { oldName: newName }');
+        }
+        fieldMapping = parsed;
+      } catch (parseError) {
+        await fs.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({
+          message: 'Invalid field mapping',
+          error: parseError instanceof Error ? parseError.message : 'Unknown error'
+        });
+      }
+    }
     
     const existingFields = await storage.getTemplateFields(templateUuid);
-    // Separate regular fields from row_group (table) fields
-    const existingRegularFieldNames = existingFields
-      .filter(f => f.fieldType !== 'row_group')
-      .map(f => f.name.toLowerCase().trim()).sort();
-    const existingTableNames = existingFields
-      .filter(f => f.fieldType === 'row_group')
-      .map(f => f.name.toLowerCase().trim()).sort();
-    console.log(`[REPLACE ${replaceId}] Existing regular fields (${existingRegularFieldNames.length}):`, existingRegularFieldNames);
-    console.log(`[REPLACE ${replaceId}] Existing table markers (${existingTableNames.length}):`, existingTableNames);
-
-    // Load existing chorus block names from templateTables
-    const existingBlockRows = await db
-      .select({ name: templateTables.name })
-      .from(templateTables)
-      .where(and(eq(templateTables.templateUuid, templateUuid), eq(templateTables.blockType, 'block')));
-    const existingBlockNames = existingBlockRows.map(r => r.name.toLowerCase()).sort();
-    console.log(`[REPLACE ${replaceId}] Existing chorus blocks (${existingBlockNames.length}):`, existingBlockNames);
+    const previousStructure = await getTemplateStructure(templateUuid);
+    console.log(`[REPLACE ${replaceId}] Current structure:`, previousStructure);
 
     const tempFilePath = req.file.path;
     const fileBuffer = await fs.readFile(tempFilePath);
     
-    const { value: extractedText } = await mammoth.extractRawText({ buffer: fileBuffer });
-    const fieldMatches = extractedText.match(/\{\{([^}]+)\}\}/g) || [];
-    
-    const rawFieldContents = fieldMatches.map(match => match.replace(/[{}]/g, ''));
-    const uniqueRawFields = rawFieldContents.filter((field, index) => rawFieldContents.indexOf(field) === index);
-    
-    const newFieldNames = uniqueRawFields.map(rawField => {
-      let fieldName = rawField;
-      if (rawField.includes("['")) {
-        const bracketMatch = rawField.match(/^([^\[=]+)/);
-        if (bracketMatch) fieldName = bracketMatch[1].trim();
-      } else if (rawField.includes('|')) {
-        const firstPart = rawField.split('|')[0];
-        fieldName = firstPart.includes('=') ? firstPart.split('=')[0].trim() : firstPart.trim();
-      } else if (rawField.includes('=')) {
-        fieldName = rawField.split('=')[0].trim();
-      }
-      return fieldName.toLowerCase().trim();
-    }).sort();
+    const placeholderOccurrences = await TemplateFieldAnalyzer.extractPlaceholdersFromDocx(fileBuffer);
+    const uniqueRawFields = placeholderOccurrences.map(o => o.raw);
 
-    // Extract <<TABLE_NAME>> markers and chorus blocks from new file XML
-    let newTableNames: string[] = [];
-    let newChorusBlocks: Array<{ name: string; variables: BlockVariableDef[] }> = [];
-    try {
-      const zip = new PizZip(fileBuffer);
-      const xmlFile = zip.files['word/document.xml'];
-      if (xmlFile) {
-        const xmlContent = xmlFile.asText();
-        const markers = parseTableMarkersFromXml(xmlContent);
-        newTableNames = markers.map(m => m.name.toLowerCase()).sort();
-        newChorusBlocks = parseChorusBlocksFromXml(xmlContent);
-      }
-    } catch (xmlErr) {
-      console.warn(`[REPLACE ${replaceId}] Could not extract table markers:`, xmlErr);
-    }
-    const newBlockNames = newChorusBlocks.map(b => b.name.toLowerCase()).sort();
-
-    console.log(`[REPLACE ${replaceId}] New file fields (${newFieldNames.length}):`, newFieldNames);
-    console.log(`[REPLACE ${replaceId}] New file table markers (${newTableNames.length}):`, newTableNames);
-    console.log(`[REPLACE ${replaceId}] New file chorus blocks (${newBlockNames.length}):`, newBlockNames);
-
-    const missingFields = existingRegularFieldNames.filter(f => !newFieldNames.includes(f));
-    const extraFields = newFieldNames.filter(f => !existingRegularFieldNames.includes(f));
-    const missingTables = existingTableNames.filter(t => !newTableNames.includes(t));
-    const extraTables = newTableNames.filter(t => !existingTableNames.includes(t));
-    const missingBlocks = existingBlockNames.filter(b => !newBlockNames.includes(b));
-    const extraBlocks = newBlockNames.filter(b => !existingBlockNames.includes(b));
-
-    if (missingFields.length > 0 || extraFields.length > 0 || missingTables.length > 0 || extraTables.length > 0 || missingBlocks.length > 0 || extraBlocks.length > 0) {
-      await fs.unlink(tempFilePath).catch(() => {});
-      console.log(`[REPLACE ${replaceId}] REJECTED - Field/table/block mismatch`);
-
-      return res.status(400).json({
-        message: 'Field mismatch - new template must have exactly the same fields, table markers, and chorus blocks',
-        existingFieldCount: existingRegularFieldNames.length,
-        newFieldCount: newFieldNames.length,
-        missingFields: missingFields.length > 0 ? missingFields : undefined,
-        extraFields: extraFields.length > 0 ? extraFields : undefined,
-        missingTables: missingTables.length > 0 ? missingTables : undefined,
-        extraTables: extraTables.length > 0 ? extraTables : undefined,
-        missingBlocks: missingBlocks.length > 0 ? missingBlocks : undefined,
-        extraBlocks: extraBlocks.length > 0 ? extraBlocks : undefined,
-        hint: 'The new template file must contain exactly the same field placeholders, <<TABLE>> markers, and chorus blocks as the original'
-      });
-    }
-    
-    console.log(`[REPLACE ${replaceId}] Field validation PASSED`);
-    
-    const oldFilePath = template.filePath;
-    
-    const newFilePath = await FileManagerService.saveUploadedTemplate(tempFilePath, req.file.originalname);
-    console.log(`[REPLACE ${replaceId}] New file saved: ${newFilePath}`);
-    
-    await storage.updateTemplateByUuid(templateUuid, {
-      filePath: newFilePath,
-      updatedAt: new Date(),
-    });
-    console.log(`[REPLACE ${replaceId}] Database updated with new file path`);
-    
-    templatePreviewCache.invalidate(templateUuid);
-    console.log(`[REPLACE ${replaceId}] Preview cache invalidated`);
-
-    // === Update field metadata (defaultValue, options, fieldType) from new file syntax ===
     // Build a map of field-name → parsed metadata from the new file's raw placeholders.
-    // Only fields whose syntax explicitly carries new metadata (=default or ['opt1']['opt2'])
-    // are updated — bare {{field}} placeholders leave existing DB metadata untouched.
+    // Only fields whose syntax explicitly carries new metadata (=default, ['opt1']['opt2'], :type, :=expression or |boxes)
+    // update existing fields — bare {{field}} placeholders leave existing DB metadata untouched.
     interface FieldMetaUpdate {
       defaultValue?: string;
       options?: string;
       fieldType?: string;
+      validation?: FieldValidation | null;
+      expression?: string;
+      checklistMode?: ChecklistRenderMode;
     }
     const fieldMetaMap = new Map<string, FieldMetaUpdate>();
-
-    for (const rawField of uniqueRawFields) {
+    // Locations are always refreshed — a field may have moved into a header/footer
+    const fieldLocationsMap = new Map<string, string[]>();
+    // Likewise whether the field is referenced by an {{#if ...}} condition
+    const conditionalFieldKeys = new Set<string>();
+    // Field names in order of first appearance in the new file
+    const newFieldNames: string[] = [];
+
+    for (let rawIdx = 0; rawIdx < uniqueRawFields.length; rawIdx++) {
+      // Formatters {{field|currency:VND}}, computed {{field:=sum(bang.cot)}} and typed
+      // syntax {{field:number(min=0)}} are stripped before the usual default / options parsing
+      const { placeholder: withoutFormatters, formatters } = extractFormatters(uniqueRawFields[rawIdx]);
+      const computed = extractComputedExpression(withoutFormatters);
+      const { placeholder: rawField, spec: typeSpec } = extractFieldTypeSpec(computed.placeholder);
       let parsedName = rawField;
       let parsedDefaultValue: string | undefined;
       let parsedOptions: string | undefined;
-      let parsedFieldType: string | undefined;
+      let parsedFieldType: string | undefined = typeSpec?.fieldType;
 
       // Normalize smart quotes that Word may insert
       const norm = rawField
@@ -720,27 +797,213 @@ export async function replaceTemplateFile(req: Request, res: Response) {
         if (dv) parsedDefaultValue = dv;
       }
 
+      parsedName = parsedName.trim();
+      const fieldKey = parsedName.toLowerCase();
+      if (!newFieldNames.some(n => n.toLowerCase() === fieldKey)) {
+        newFieldNames.push(parsedName);
+      }
+
+      const mergedLocations = fieldLocationsMap.get(fieldKey) ?? [];
+      for (const location of placeholderOccurrences[rawIdx].locations) {
+        if (!mergedLocations.includes(location)) mergedLocations.push(location);
+      }
+      fieldLocationsMap.set(fieldKey, mergedLocations);
+      if (placeholderOccurrences[rawIdx].conditional) conditionalFieldKeys.add(fieldKey);
+
       const meta: FieldMetaUpdate = {};
       if (parsedDefaultValue !== undefined) meta.defaultValue = parsedDefaultValue;
       if (parsedOptions !== undefined) meta.options = parsedOptions;
       if (parsedFieldType !== undefined) meta.fieldType = parsedFieldType;
+      // A declared type replaces the previous constraints (none declared → cleared)
+      if (typeSpec) meta.validation = typeSpec.validation ?? null;
+      if (computed.expression) meta.expression = computed.expression;
+      const checklistMode = getChecklistModeFormatter(formatters);
+      if (checklistMode) meta.checklistMode = checklistMode;
 
       if (Object.keys(meta).length > 0) {
-        fieldMetaMap.set(parsedName.toLowerCase().trim(), meta);
+        fieldMetaMap.set(fieldKey, meta);
       }
     }
 
-    // Apply updates to each regular (non-row_group) field that has new metadata
-    const regularFields = existingFields.filter(f => f.fieldType !== 'row_group');
+    // Extract <<TABLE_NAME>> markers and chorus blocks from every content part of the new file
+    let newTableMarkers: ParsedTableMarker[] = [];
+    let newChorusBlocks: Array<{ name: string; variables: BlockVariableDef[] }> = [];
+    try {
+      ({ tableMarkers: newTableMarkers, chorusBlocks: newChorusBlocks } = parseStructureMarkersFromZip(new PizZip(fileBuffer)));
+    } catch (xmlErr) {
+      console.warn(`[REPLACE ${replaceId}] Could not extract table markers:`, xmlErr);
+    }
+
+    const nextStructure: TemplateStructure = {
+      fields: newFieldNames,
+      tables: newTableMarkers.map(m => m.name),
+      blocks: newChorusBlocks.map(b => b.name),
+    };
+    console.log(`[REPLACE ${replaceId}] New file structure:`, nextStructure);
+
+    const mappingErrors = validateFieldMapping(previousStructure, nextStructure, fieldMapping);
+    if (mappingErrors.length > 0) {
+      await fs.unlink(tempFilePath).catch(() => {});
+      return res.status(400).json({
+        message: 'Invalid field mapping',
+        errors: mappingErrors,
+      });
+    }
+
+    const diff = diffTemplateStructures(previousStructure, nextStructure, fieldMapping);
+    const hasChanges = hasStructuralChanges(diff);
+    console.log(`[REPLACE ${replaceId}] Diff:`, JSON.stringify(diff));
+
+    if (dryRun) {
+      await fs.unlink(tempFilePath).catch(() => {});
+      const versionInfo = await getTemplateVersions(templateUuid);
+      const documentCount = versionInfo?.versions.reduce((sum, v) => sum + v.documentCount, 0) ?? 0;
+      console.log(`========== [TEMPLATE FILE REPLACE DRY RUN] ID: ${replaceId} ==========\n`);
+      return res.json({
+        dryRun: true,
+        currentVersion: template.currentVersion,
+        nextVersion: template.currentVersion + 1,
+        hasChanges,
+        diff,
+        structure: nextStructure,
+        documentCount,
+      });
+    }
+
+    // === Store the new file as a new version ===
+    // The previous file is kept: documents pinned to the old version still render with it.
+    await ensureCurrentVersionRecorded(template);
+    const pinnedCount = await pinDocumentsToVersion(templateUuid, template.currentVersion);
+    console.log(`[REPLACE ${replaceId}] Pinned ${pinnedCount} document(s) to v${template.currentVersion}`);
+
+    const newVersion = template.currentVersion + 1;
+    const newFilePath = await FileManagerService.saveUploadedTemplate(tempFilePath, req.file.originalname);
+    console.log(`[REPLACE ${replaceId}] New file saved: ${newFilePath}`);
+
+    await createTemplateVersion({
+      templateUuid,
+      version: newVersion,
+      filePath: newFilePath,
+      originalName: req.file.originalname,
+      structure: nextStructure,
+      diff,
+      fieldMapping: Object.keys(fieldMapping).length > 0 ? fieldMapping : undefined,
+    });
+    
+    await storage.updateTemplateByUuid(templateUuid, {
+      filePath: newFilePath,
+      currentVersion: newVersion,
+      fieldCount: (nextStructure.fields.length + nextStructure.tables.length).toString(),
+      updatedBy: req.user?.id,
+      updatedAt: new Date(),
+    });
+    console.log(`[REPLACE ${replaceId}] Database updated: v${newVersion}`);
+    
+    templatePreviewCache.invalidate(templateUuid);
+    console.log(`[REPLACE ${replaceId}] Preview cache invalidated`);
+
+    // === Apply renames / removals / additions to template fields, tables and blocks ===
+    for (const { from, to } of [...diff.fields.renamed, ...diff.tables.renamed]) {
+      await db.update(templateFields)
+        .set({ name: to, updatedAt: new Date() })
+        .where(and(eq(templateFields.templateUuid, templateUuid), eq(templateFields.name, from)));
+    }
+    for (const { from, to } of [...diff.tables.renamed, ...diff.blocks.renamed]) {
+      await db.update(templateTables)
+        .set({ name: to, label: to.replace(/_/g, ' '), updatedAt: new Date() })
+        .where(and(eq(templateTables.templateUuid, templateUuid), eq(templateTables.name, from)));
+    }
+    for (const name of [...diff.fields.removed, ...diff.tables.removed]) {
+      await db.delete(templateFields)
+        .where(and(eq(templateFields.templateUuid, templateUuid), eq(templateFields.name, name)));
+    }
+    for (const name of [...diff.tables.removed, ...diff.blocks.removed]) {
+      await db.delete(templateTables)
+        .where(and(eq(templateTables.templateUuid, templateUuid), eq(templateTables.name, name)));
+    }
+    for (const name of diff.fields.added) {
+      const meta = fieldMetaMap.get(name.toLowerCase());
+      await storage.createTemplateField({
+        templateUuid,
+        name,
+        type: 'text',
+        fieldType: meta?.fieldType ?? 'text',
+        required: false,
+        options: meta?.options,
+        defaultValue: meta?.defaultValue,
+        locations: fieldLocationsMap.get(name.toLowerCase()),
+        validation: meta?.validation ?? undefined,
+        conditional: conditionalFieldKeys.has(name.toLowerCase()),
+        expression: meta?.expression,
+        checklistMode: meta?.checklistMode,
+      });
+    }
+    for (const name of diff.tables.added) {
+      const marker = newTableMarkers.find(m => m.name === name)!;
+      await storage.createTemplateField({
+        templateUuid,
+        name,
+        type: 'text',
+        fieldType: 'row_group',
+        required: false,
+      });
+      await db.insert(templateTables).values({
+        templateUuid,
+        name,
+        label: name.replace(/_/g, ' '),
+        columns: marker.columns,
+      }).onConflictDoNothing();
+    }
+    for (const name of diff.blocks.added) {
+      await db.insert(templateTables).values({
+        templateUuid,
+        name,
+        label: name.replace(/_/g, ' '),
+        columns: [],
+        blockType: 'block',
+      }).onConflictDoNothing();
+    }
+
+    // Positions follow the new file: regular fields first, then table markers
+    const orderedNames = [...nextStructure.fields, ...nextStructure.tables];
+    for (let i = 0; i < orderedNames.length; i++) {
+      await db.update(templateFields)
+        .set({ position: i })
+        .where(and(eq(templateFields.templateUuid, templateUuid), eq(templateFields.name, orderedNames[i])));
+    }
+    for (let i = 0; i < nextStructure.tables.length; i++) {
+      await db.update(templateTables)
+        .set({ position: i })
+        .where(and(eq(templateTables.templateUuid, templateUuid), eq(templateTables.name, nextStructure.tables[i])));
+    }
+    for (let i = 0; i < nextStructure.blocks.length; i++) {
+      await db.update(templateTables)
+        .set({ position: nextStructure.tables.length + i })
+        .where(and(eq(templateTables.templateUuid, templateUuid), eq(templateTables.name, nextStructure.blocks[i])));
+    }
+
+    // === Update field metadata (defaultValue, options, fieldType, validation, expression, locations, conditional) from new file syntax ===
+    const renamedFieldMap = new Map(diff.fields.renamed.map(r => [r.from, r.to]));
+    const addedFieldKeys = new Set(diff.fields.added.map(name => name.toLowerCase()));
+    const regularFields = existingFields
+      .filter(f => f.fieldType !== 'row_group' && !diff.fields.removed.includes(f.name))
+      .map(f => ({ ...f, name: renamedFieldMap.get(f.name) ?? f.name }))
+      .filter(f => !addedFieldKeys.has(f.name.toLowerCase()));
     let metaUpdatedCount = 0;
     for (const field of regularFields) {
       const meta = fieldMetaMap.get(field.name.toLowerCase().trim());
-      if (!meta) continue;
+      const locations = fieldLocationsMap.get(field.name.toLowerCase().trim());
+      if (!meta && !locations) continue;
 
       const updates: Record<string, any> = { updatedAt: new Date() };
-      if (meta.defaultValue !== undefined) updates.defaultValue = meta.defaultValue;
-      if (meta.options !== undefined) updates.options = meta.options;
-      if (meta.fieldType !== undefined) updates.fieldType = meta.fieldType;
+      if (meta?.defaultValue !== undefined) updates.defaultValue = meta.defaultValue;
+      if (meta?.options !== undefined) updates.options = meta.options;
+      if (meta?.fieldType !== undefined) updates.fieldType = meta.fieldType;
+      if (meta?.validation !== undefined) updates.validation = meta.validation;
+      if (meta?.expression !== undefined) updates.expression = meta.expression;
+      if (meta?.checklistMode !== undefined) updates.checklistMode = meta.checklistMode;
+      if (locations) updates.locations = locations;
+      if (locations) updates.conditional = conditionalFieldKeys.has(field.name.toLowerCase().trim());
 
       if (Object.keys(updates).length > 1) { // more than just updatedAt
         await db
@@ -751,7 +1014,7 @@ export async function replaceTemplateFile(req: Request, res: Response) {
             eq(templateFields.name, field.name),
           ));
         metaUpdatedCount++;
-        console.log(`[REPLACE ${replaceId}] Updated field metadata for "${field.name}":`, meta);
+        console.log(`[REPLACE ${replaceId}] Updated field metadata for "${field.name}":`, { ...meta, locations });
       }
     }
     if (metaUpdatedCount > 0) {
@@ -759,6 +1022,9 @@ export async function replaceTemplateFile(req: Request, res: Response) {
     }
     // === End field metadata update ===
 
+    // New fields named like a dictionary entry are linked; linked fields get the dictionary values back
+    await linkTemplateFieldsToDictionary(templateUuid, diff.fields.added);
+
     // Update chorus block column definitions — merge by variable name to preserve
     // any fieldType / defaultValue / options metadata the user has already configured.
     for (const block of newChorusBlocks) {
@@ -814,18 +1080,32 @@ export async function replaceTemplateFile(req: Request, res: Response) {
       console.log(`[REPLACE ${replaceId}] Updated ${newChorusBlocks.length} chorus block column definitions`);
     }
 
-    if (oldFilePath && oldFilePath !== newFilePath) {
-      await FileManagerService.deleteTemplateFile(oldFilePath);
-      console.log(`[REPLACE ${replaceId}] Old file deleted: ${oldFilePath}`);
+    let migratedDocuments = 0;
+    if (migrate) {
+      ({ migrated: migratedDocuments } = await migrateDocuments(templateUuid));
+      console.log(`[REPLACE ${replaceId}] Migrated ${migratedDocuments} document(s) to v${newVersion}`);
     }
     
     const updatedTemplate = await storage.getTemplateByUuid(templateUuid);
+
+    await recordAuditEvent({
+      entityType: 'template',
+      entityUuid: templateUuid,
+      action: 'update',
+      user: req.user,
+      before: { version: template.currentVersion, filePath: template.filePath },
+      after: { version: newVersion, filePath: newFilePath, originalName: req.file.originalname, migratedDocuments },
+    });
     
     console.log(`========== [TEMPLATE FILE REPLACE SUCCESS] ID: ${replaceId} ==========\n`);
     
     res.json({
       message: 'Template file replaced successfully',
-      template: updatedTemplate
+      template: updatedTemplate,
+      version: newVersion,
+      diff,
+      pinnedDocuments: pinnedCount - migratedDocuments,
+      migratedDocuments,
     });
     
   } catch (error) {
@@ -842,6 +1122,69 @@ export async function replaceTemplateFile(req: Request, res: Response) {
   }
 }
 
+/**
+ * Version history of a template: every uploaded file, its diff and how many documents use it.
+ */
+export async function getTemplateVersionHistory(req: Request, res: Response) {
+  try {
+    const { uuid: templateUuid } = req.params;
+
+    const template = await storage.getTemplateByUuid(templateUuid);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    // Make sure the current file shows up even for templates uploaded before versioning
+    await ensureCurrentVersionRecorded(template);
+    const history = await getTemplateVersions(templateUuid);
+
+    res.json(history);
+  } catch (error) {
+    console.error('Error fetching template versions:', error);
+    res.status(500).json({
+      message: 'Failed to fetch template versions',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Bulk-migrate documents pinned to older versions onto the current version.
+ * Body: { fromVersion?: number, documentUuids?: string[] }
+ */
+export async function migrateTemplateDocuments(req: Request, res: Response) {
+  try {
+    const { uuid: templateUuid } = req.params;
+    const { fromVersion, documentUuids } = req.body ?? {};
+
+    const template = await storage.getTemplateByUuid(templateUuid);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    if (fromVersion !== undefined && !Number.isInteger(fromVersion)) {
+      return res.status(400).json({ message: 'fromVersion must be an integer' });
+    }
+    if (documentUuids !== undefined && !Array.isArray(documentUuids)) {
+      return res.status(400).json({ message: 'documentUuids must be an array' });
+    }
+
+    const result = await migrateDocuments(templateUuid, { fromVersion, documentUuids });
+
+    res.json({
+      message: `Migrated ${result.migrated} document(s) to version ${template.currentVersion}`,
+      currentVersion: template.currentVersion,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error migrating template documents:', error);
+    res.status(500).json({
+      message: 'Failed to migrate documents',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
 export async function deleteTemplate(req: Request, res: Response) {
   const deleteId = Date.now().toString(36);
   console.log(`\n========== [TEMPLATE DELETE START] ID: ${deleteId} ==========`);
@@ -884,6 +1227,14 @@ export async function deleteTemplate(req: Request, res: Response) {
 
     console.log(`[DELETE ${deleteId}] Executing deletion...`);
     await storage.deleteTemplateByUuid(templateUuid_, cascade === 'true');
+
+    await recordAuditEvent({
+      entityType: 'template',
+      entityUuid: templateUuid_,
+      action: 'delete',
+      user: req.user,
+      before: { name: template.name, category: template.category, documentCount },
+    });
     
     // Log templates AFTER deletion
     const templatesAfter = await storage.getTemplates({ limit: 100 });
@@ -911,7 +1262,8 @@ export async function archiveTemplate(req: Request, res: Response) {
     if (!template) {
       return res.status(404).json({ message: 'Template not found' });
     }
-    const updatedTemplate = await storage.archiveTemplateByUuid(templateUuid);
+    const updatedTemplate = await storage.archiveTemplateByUuid(templateUuid, req.user?.id);
+    await recordAuditEvent({ entityType: 'template', entityUuid: templateUuid, action: 'archive', user: req.user });
     res.json({ message: 'Template archived successfully', template: updatedTemplate });
   } catch (error) {
     console.error('Error archiving template:', error);
@@ -929,7 +1281,8 @@ export async function unarchiveTemplate(req: Request, res: Response) {
     if (!template) {
       return res.status(404).json({ message: 'Template not found' });
     }
-    const updatedTemplate = await storage.unarchiveTemplateByUuid(templateUuid);
+    const updatedTemplate = await storage.unarchiveTemplateByUuid(templateUuid, req.user?.id);
+    await recordAuditEvent({ entityType: 'template', entityUuid: templateUuid, action: 'unarchive', user: req.user });
     res.json({ message: 'Template unarchived successfully', template: updatedTemplate });
   } catch (error) {
     console.error('Error unarchiving template:', error);
@@ -962,6 +1315,94 @@ export async function getTemplateFields(req: Request, res: Response) {
   }
 }
 
+/**
+ * Update the settings of one template field: the checklist render mode ('text' | 'boxes' | 'list'),
+ * the numbering sequence and the field dictionary entry (null unlinks; the field keeps its values).
+ * A mode set in the placeholder wins again on the next file replace; dictionary values win over the file.
+ */
+export async function updateTemplateField(req: Request, res: Response) {
+  try {
+    const { uuid: templateUuid, name } = req.params;
+    const { checklistMode, numberingSequenceId, fieldDefinitionId } = req.body;
+
+    if (checklistMode === undefined && numberingSequenceId === undefined && fieldDefinitionId === undefined) {
+      return res.status(400).json({ message: 'checklistMode, numberingSequenceId or fieldDefinitionId is required' });
+    }
+    if (checklistMode !== undefined && !isChecklistRenderMode(checklistMode)) {
+      return res.status(400).json({ message: 'checklistMode must be one of: text, boxes, list' });
+    }
+    if (numberingSequenceId !== undefined && numberingSequenceId !== null && typeof numberingSequenceId !== 'string') {
+      return res.status(400).json({ message: 'numberingSequenceId must be a sequence id or null' });
+    }
+    if (fieldDefinitionId !== undefined && fieldDefinitionId !== null && typeof fieldDefinitionId !== 'string') {
+      return res.status(400).json({ message: 'fieldDefinitionId must be a field definition id or null' });
+    }
+
+    const template = await storage.getTemplateByUuid(templateUuid);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    const field = (await storage.getTemplateFields(templateUuid)).find(f => f.name === name);
+    if (!field) {
+      return res.status(404).json({ message: 'Field not found' });
+    }
+
+    // A linked field takes the type of its definition: checklistMode / numbering are checked against it
+    const definition = fieldDefinitionId ? await getFieldDefinition(fieldDefinitionId) : null;
+    if (fieldDefinitionId && !definition) {
+      return res.status(404).json({ message: 'Field definition not found' });
+    }
+    const unlinkable = definition ? getUnlinkableReason(field) : null;
+    if (unlinkable) {
+      return res.status(400).json({ message: unlinkable });
+    }
+    const nextFieldType = definition?.fieldType ?? field.fieldType;
+
+    const updates: Parameters<typeof storage.updateTemplateField>[1] = {};
+    if (checklistMode !== undefined) {
+      if (nextFieldType !== 'checklist') {
+        return res.status(400).json({ message: 'Only checklist fields have a render mode' });
+      }
+      updates.checklistMode = checklistMode;
+    }
+    if (numberingSequenceId) {
+      const unnumberable = getUnnumberableReason({ ...field, fieldType: nextFieldType });
+      if (unnumberable) {
+        return res.status(400).json({ message: unnumberable });
+      }
+      if (!(await getNumberingSequence(numberingSequenceId))) {
+        return res.status(404).json({ message: 'Numbering sequence not found' });
+      }
+    }
+    if (numberingSequenceId !== undefined) {
+      updates.numberingSequenceId = numberingSequenceId;
+    }
+
+    let updatedField = field;
+    if (fieldDefinitionId !== undefined) {
+      updatedField = (await setTemplateFieldDefinition(field.uuid, definition)) ?? field;
+    }
+    if (Object.keys(updates).length > 0) {
+      updatedField = await storage.updateTemplateField(field.uuid, updates);
+    }
+
+    // Generated documents and previews of this template now render differently
+    if (updates.checklistMode || definition) {
+      templatePreviewCache.invalidate(templateUuid);
+      documentGeneratorCache.clear();
+    }
+
+    res.json(updatedField);
+  } catch (error) {
+    console.error('Error updating template field:', error);
+    res.status(500).json({ 
+      message: 'Failed to update template field',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
 export async function downloadTemplate(req: Request, res: Response) {
   try {
     const { uuid: templateUuid, id: templateId } = req.params;
@@ -1017,7 +1458,7 @@ export async function previewTemplate(req: Request, res: Response) {
         
         // Highlight placeholders (empty fields) with yellow background
         const highlightedHtml = htmlContent.replace(
-          /\{\{([^{}]+)\}\}/g,
+          /\{\{((?:(?!\{\{|\}\}).)+)\}\}/g,
           '<span class="field-empty">{{$1}}</span>'
         );
         
@@ -1068,34 +1509,8 @@ export async function exportTemplateToExcel(req: Request, res: Response) {
       return res.status(404).json({ message: 'Template not found' });
     }
 
-    const fields = await storage.getTemplateFields(templateUuid_);
-
-    // Create Excel workbook
-    const workbook = XLSX.utils.book_new();
-    
-    // Create headers with exact field names from template (preserve camelCase)
-    const headers = ['DOCUMENT_NAME', ...fields.map(field => field.name)];
-    
-    // Create sample data rows with examples
-    const sampleRows = [
-      headers,
-      [`Văn bản số 1 - ${template.name}`, ...fields.map(field => `Mẫu ${field.name}`)],
-      [`Văn bản số 2 - ${template.name}`, ...fields.map(field => `Mẫu ${field.name}`)],
-      ['', ...fields.map(() => '')] // Empty row for user input
-    ];
-    
-    // Create worksheet with proper formatting
-    const worksheet = XLSX.utils.aoa_to_sheet(sampleRows);
-    
-    // Set column widths for better readability
-    const colWidths = [{ width: 35 }, ...fields.map(() => ({ width: 25 }))];
-    worksheet['!cols'] = colWidths;
-    
-    // Add worksheet to workbook
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Template Data');
-    
-    // Generate Excel buffer
-    const excelBuffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+    // Sheet "Nhập liệu" + one sheet per table / chorus block, keyed by DOCUMENT_KEY
+    const excelBuffer = await generateExcelTemplate({ templateUuid: template.uuid, includeSampleData: true });
     
     const safeFileName = template.name.replace(/[^a-zA-Z0-9]/g, '_');
     res.set({
@@ -1157,6 +1572,15 @@ export async function createBatchDocuments(req: Request, res: Response) {
       filePath: req.file.path,
       totalRows: dataRows.length.toString(),
       status: 'processing',
+      createdBy: req.user?.id,
+      updatedBy: req.user?.id,
+    });
+    await recordAuditEvent({
+      entityType: 'batch_session',
+      entityUuid: batchSession.uuid,
+      action: 'create',
+      user: req.user,
+      after: { templateUuid: templateUuid_, fileName: batchSession.fileName, totalRows: dataRows.length },
     });
 
     // Get template fields for mapping
@@ -1257,7 +1681,9 @@ export async function parseExcelForPreview(req: Request, res: Response) {
       throw new Error('No file buffer or path available');
     }
 
-    const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
+    // CSV / TSV are read like the batch upload reads them (encoding and delimiter detection)
+    const { buffer: workbookBuffer, source } = toBatchWorkbookBuffer(fileBuffer, req.file.originalname);
+    const workbook = XLSX.read(workbookBuffer, { type: 'buffer' });
     const sheetName = workbook.SheetNames[0];
     const worksheet = workbook.Sheets[sheetName];
     const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as string[][];
@@ -1281,6 +1707,9 @@ export async function parseExcelForPreview(req: Request, res: Response) {
         totalRows: jsonData.length - 1,
         previewRows: dataRows.length,
       },
+      source,
+      // Suggested field of each column, confirmed in the batch upload dialog
+      mapping: getBatchMappingPreview(workbookBuffer, fields),
     });
 
     // Clean up temporary file after processing
@@ -1305,6 +1734,9 @@ export async function parseExcelForPreview(req: Request, res: Response) {
       }
     }
     
+    if (error instanceof BatchWorkbookError) {
+      return res.status(400).json({ message: error.message });
+    }
     res.status(500).json({ 
       message: 'Failed to parse Excel file',
       error: error instanceof Error ? error.message : 'Unknown error'
@@ -1440,6 +1872,9 @@ export async function cleanupOrphanFiles(req: Request, res: Response) {
     // Get all templates from database
     const allTemplates = await storage.getTemplates({});
     const dbFilePaths = new Set(allTemplates.map(t => t.filePath));
+    // Files of older template versions are still referenced by pinned documents
+    const versionFiles = await db.select({ filePath: templateVersions.filePath }).from(templateVersions);
+    versionFiles.forEach(v => dbFilePaths.add(v.filePath));
     console.log(`Found ${dbFilePaths.size} file paths in database`);
 
     // Get all files from filesystem
@@ -0,0 +1,126 @@
+/**
+ * Admin controllers for users, roles and per-template permissions.
+ *
+ * Endpoints (admin only, see registerRoutes):
+ *   GET    /api/admin/users                                    — list users (without password hash)
+ *   PUT    /api/admin/users/:id/role                           — change a user's global role
+ *   GET    /api/admin/templates/:uuid/permissions              — per-template roles
+ *   PUT    /api/admin/templates/:uuid/permissions/:userId      — grant a role on the template
+ *   DELETE /api/admin/templates/:uuid/permissions/:userId      — back to the user's global role
+ */
+
+import { Request, Response } from 'express';
+import { storage, toPublicUser } from '../storage-uuid';
+import { USER_ROLES, type UserRole } from '@shared/schema';
+
+function parseRole(value: unknown): UserRole | null {
+  return USER_ROLES.includes(value as UserRole) ? (value as UserRole) : null;
+}
+
+export async function getUsers(req: Request, res: Response) {
+  try {
+    const users = await storage.getUsers();
+    res.json(users.map(toPublicUser));
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({
+      message: 'Failed to fetch users',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function updateUserRole(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const role = parseRole(req.body.role);
+    if (!role) {
+      return res.status(400).json({ message: `role must be one of: ${USER_ROLES.join(', ')}` });
+    }
+
+    // Keep at least one admin: an admin cannot demote themselves
+    if (req.user?.id === id && role !== 'admin') {
+      return res.status(400).json({ message: 'You cannot remove your own admin role' });
+    }
+
+    const user = await storage.updateUserRole(id, role);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    console.log(`[Users] ${req.user?.username} set role of ${user.username} to ${role}`);
+    res.json(toPublicUser(user));
+  } catch (error) {
+    console.error('Error updating user role:', error);
+    res.status(500).json({
+      message: 'Failed to update user role',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function getTemplatePermissions(req: Request, res: Response) {
+  try {
+    const { uuid: templateUuid } = req.params;
+    const template = await storage.getTemplateByUuid(templateUuid);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    res.json(await storage.getTemplatePermissions(templateUuid));
+  } catch (error) {
+    console.error('Error fetching template permissions:', error);
+    res.status(500).json({
+      message: 'Failed to fetch template permissions',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function setTemplatePermission(req: Request, res: Response) {
+  try {
+    const { uuid: templateUuid, userId } = req.params;
+    const role = parseRole(req.body.role);
+    if (!role) {
+      return res.status(400).json({ message: `role must be one of: ${USER_ROLES.join(', ')}` });
+    }
+
+    const [template, user] = await Promise.all([
+      storage.getTemplateByUuid(templateUuid),
+      storage.getUser(userId),
+    ]);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const permission = await storage.setTemplatePermission(templateUuid, userId, role);
+    console.log(`[Users] ${req.user?.username} granted ${role} on template ${templateUuid} to ${user.username}`);
+    res.json(permission);
+  } catch (error) {
+    console.error('Error setting template permission:', error);
+    res.status(500).json({
+      message: 'Failed to set template permission',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export async function deleteTemplatePermission(req: Request, res: Response) {
+  try {
+    const { uuid: templateUuid, userId } = req.params;
+    const deleted = await storage.deleteTemplatePermission(templateUuid, userId);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Template permission not found' });
+    }
+    res.json({ message: 'Template permission removed' });
+  } catch (error) {
+    console.error('Error deleting template permission:', error);
+    res.status(500).json({
+      message: 'Failed to delete template permission',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
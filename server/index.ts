@@ -3,6 +3,9 @@ import compression from "compression";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { pool } from "../db";
+import { ensureDefaultTemplateCategories } from "./services/template-category.service";
+import { ensureDefaultMasterDataTypes } from "./services/master-data.service";
+import { resumeBatchJobs } from "./services/batch-job.service";
 
 process.on('uncaughtException', (err) => {
   console.error('[Process] Uncaught exception:', err.message);
@@ -76,6 +79,24 @@ app.use((req, res, next) => {
       throw dbError;
     }
 
+    try {
+      await ensureDefaultTemplateCategories();
+    } catch (categoryError) {
+      console.error('[Startup] Could not create default template categories:', categoryError);
+    }
+
+    try {
+      await ensureDefaultMasterDataTypes();
+    } catch (masterDataError) {
+      console.error('[Startup] Could not create default master data types:', masterDataError);
+    }
+
+    try {
+      await resumeBatchJobs();
+    } catch (batchJobError) {
+      console.error('[Startup] Could not resume batch jobs:', batchJobError);
+    }
+
     const server = await registerRoutes(app);
 
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -285,6 +285,13 @@ export class ObjectStorageService {
     const privateDir = this.getPrivateObjectDir();
     return `${privateDir}/templates/${timestamp}_${sanitizedName}`;
   }
+
+  generateImagePath(originalName: string): string {
+    const timestamp = Date.now();
+    const sanitizedName = originalName.replace(/[^a-zA-Z0-9.-]/g, '_');
+    const privateDir = this.getPrivateObjectDir();
+    return `${privateDir}/images/${timestamp}_${sanitizedName}`;
+  }
 }
 
 function parseObjectPath(path: string): {
@@ -12,19 +12,35 @@ import * as bulkDeleteController from './controllers/bulk-delete.controller';
 import * as bulkDownloadController from './controllers/bulk-download.controller';
 import * as tablesController from './controllers/tables.controller';
 import * as advancedSearchController from './controllers/advanced-search.controller';
+import * as usersController from './controllers/users.controller';
+import * as documentRevisionsController from './controllers/document-revisions.controller';
+import * as numberingController from './controllers/numbering.controller';
+import * as templateCategoriesController from './controllers/template-categories.controller';
+import * as templateOrganizationController from './controllers/template-organization.controller';
+import * as fieldDictionaryController from './controllers/field-dictionary.controller';
+import * as masterDataController from './controllers/master-data.controller';
+import * as batchMappingController from './controllers/batch-mapping.controller';
+import { setupAuth, requireAuth, requireRole, requireTemplateRole, templateOf } from './auth';
 import { templatePreviewCache } from './services/template-preview-cache.service';
 import { documentGeneratorCache } from './services/document-generator-cache.service';
+import { BATCH_UPLOAD_FILE_PATTERN } from './services/batch-workbook.service';
 import multer from 'multer';
+import path from 'path';
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Add mock authentication functions to prevent errors
-  app.use((req, res, next) => {
-    req.isAuthenticated = (() => true) as any;
-    req.user = { id: 1, username: 'user', password: 'hashed_password', email: 'user@example.com' } as any;
-    next();
+  // Session login: /api/register, /api/login, /api/logout, /api/user
+  setupAuth(app);
+
+  // Every other API route needs a logged-in user (the external integration API excepted)
+  app.use('/api', (req, res, next) => {
+    if (req.path.startsWith('/external/')) return next();
+    return requireAuth(req, res, next);
   });
 
-  // Multer middleware for Excel upload - using disk storage for batch processing
+  // Admin endpoints (cache management, users, template permissions)
+  app.use('/api/admin', requireRole('admin'));
+
+  // Multer middleware for Excel / CSV / TSV upload - using disk storage for batch processing
   const uploadExcel = multer({
     storage: multer.diskStorage({
       destination: (req, file, cb) => {
@@ -32,11 +48,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       },
       filename: (req, file, cb) => {
         const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-        cb(null, file.fieldname + '-' + uniqueSuffix + '.xlsx');
+        cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname).toLowerCase());
       }
     }),
     fileFilter: (req, file, cb) => {
-      if (file.originalname.match(/\.(xlsx|xls)$/)) {
+      if (BATCH_UPLOAD_FILE_PATTERN.test(file.originalname)) {
         cb(null, true);
       } else {
         cb(null, false);
@@ -50,7 +66,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/templates/stats', templatesController.getTemplateStats);
   app.get('/api/templates/integrity-check', templatesController.checkTemplateIntegrity);
   app.get('/api/templates/cleanup-orphan-files', templatesController.cleanupOrphanFiles);
-  app.post('/api/templates', templatesController.uploadTemplateMiddleware, templatesController.createTemplate);
+  app.get('/api/templates/quick-access', templateOrganizationController.getQuickAccess);
+  app.post('/api/templates', requireRole('editor'), templatesController.uploadTemplateMiddleware, templatesController.createTemplate);
   
   // Memory-storage multer for table Excel import (small files, no disk write needed)
   const uploadTableExcel = multer({
@@ -67,29 +84,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/templates/:uuid/tables/:name/excel', tablesController.downloadTemplateTableExcel);
   app.post('/api/templates/:uuid/tables/:name/excel/parse', uploadTableExcel.single('file'), tablesController.parseTemplateTableExcel);
   app.get('/api/templates/:uuid/tables/:name', tablesController.getTemplateTable);
-  app.put('/api/templates/:uuid/tables/:name/columns', tablesController.updateTemplateTableColumns);
+  app.put('/api/templates/:uuid/tables/:name/columns', requireTemplateRole('editor'), tablesController.updateTemplateTableColumns);
 
   // UUID-based template routes
   app.get('/api/templates/:uuid', templatesController.getTemplateById);
   app.get('/api/templates/:uuid/fields', templatesController.getTemplateFields);
+  app.put('/api/templates/:uuid/fields/:name', requireTemplateRole('editor'), templatesController.updateTemplateField);
   app.get('/api/templates/:uuid/download', templatesController.downloadTemplate);
   app.get('/api/templates/:uuid/preview', templatesController.previewTemplate);
   app.get('/api/templates/:uuid/export-excel', templatesController.exportTemplateToExcel);
-  app.post('/api/templates/:uuid/upload-batch', uploadExcel.single('file'), batchController.uploadBatchExcel);
+  app.post('/api/templates/:uuid/upload-batch', requireTemplateRole('editor'), uploadExcel.single('file'), batchController.uploadBatchExcel);
+  app.post('/api/templates/:uuid/upload-batch/preview', requireTemplateRole('editor'), uploadExcel.single('file'), batchController.previewBatchUpdate);
   app.post('/api/templates/:uuid/parse-excel', uploadExcel.single('file'), templatesController.parseExcelForPreview);
+  app.get('/api/templates/:uuid/batch-mapping-presets', batchMappingController.listPresets);
+  app.post('/api/templates/:uuid/batch-mapping-presets', requireTemplateRole('editor'), batchMappingController.savePreset);
+  app.delete('/api/templates/:uuid/batch-mapping-presets/:id', requireTemplateRole('editor'), batchMappingController.deletePreset);
   app.get('/api/templates/:uuid/export-documents', templatesController.exportDocumentsByDateRange);
-  app.put('/api/templates/:uuid', templatesController.updateTemplate);
-  app.put('/api/templates/:uuid/file', templatesController.replaceTemplateFileMiddleware, templatesController.replaceTemplateFile);
-  app.put('/api/templates/:uuid/archive', templatesController.archiveTemplate);
-  app.put('/api/templates/:uuid/unarchive', templatesController.unarchiveTemplate);
-  app.delete('/api/templates/:uuid', templatesController.deleteTemplate);
+  app.put('/api/templates/:uuid', requireTemplateRole('editor'), templatesController.updateTemplate);
+  app.put('/api/templates/:uuid/file', requireTemplateRole('editor'), templatesController.replaceTemplateFileMiddleware, templatesController.replaceTemplateFile);
+  app.get('/api/templates/:uuid/versions', templatesController.getTemplateVersionHistory);
+  app.post('/api/templates/:uuid/versions/migrate', requireTemplateRole('editor'), templatesController.migrateTemplateDocuments);
+  app.put('/api/templates/:uuid/archive', requireTemplateRole('editor'), templatesController.archiveTemplate);
+  app.put('/api/templates/:uuid/unarchive', requireTemplateRole('editor'), templatesController.unarchiveTemplate);
+  app.delete('/api/templates/:uuid', requireTemplateRole('editor'), templatesController.deleteTemplate);
+  app.put('/api/templates/:uuid/tags', requireTemplateRole('editor'), templateOrganizationController.updateTemplateTags);
+  app.put('/api/templates/:uuid/favorite', templateOrganizationController.addFavorite);
+  app.delete('/api/templates/:uuid/favorite', templateOrganizationController.removeFavorite);
   // Batch processing routes (using :uuid for consistency)
   app.get('/api/batch/:uuid', batchController.getBatchSessionInfo);
-  app.put('/api/batch/documents/:documentUuid/status', batchController.updateDocumentStatus);
-  app.post('/api/batch/:uuid/approve-all', batchController.approveAllDocuments);
-  app.post('/api/batch/:uuid/create-documents', batchController.createDocumentsFromBatch);
-  app.delete('/api/batch/:uuid', batchController.deleteBatchSessionController);
-  app.put('/api/batch/:uuid/bulk-status', batchController.bulkUpdateStatus);
+  app.put('/api/batch/documents/:documentUuid/status', requireTemplateRole('editor', templateOf.batchDocument), batchController.updateDocumentStatus);
+  app.post('/api/batch/:uuid/approve-all', requireTemplateRole('editor', templateOf.batchSession), batchController.approveAllDocuments);
+  app.post('/api/batch/:uuid/create-documents', requireTemplateRole('editor', templateOf.batchSession), batchController.createDocumentsFromBatch);
+  app.post('/api/batch/:uuid/cancel', requireTemplateRole('editor', templateOf.batchSession), batchController.cancelBatchJobController);
+  app.get('/api/batch/:uuid/validation-report', batchController.downloadBatchValidationReport);
+  app.delete('/api/batch/:uuid', requireTemplateRole('editor', templateOf.batchSession), batchController.deleteBatchSessionController);
+  app.put('/api/batch/:uuid/bulk-status', requireTemplateRole('editor', templateOf.batchSession), batchController.bulkUpdateStatus);
   app.post('/api/batch/download-documents', batchController.downloadBatchDocuments);
   
   // Document routes
@@ -99,15 +128,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/documents/preview-template', documentsController.previewTemplateWithFields);
   app.post('/api/documents/interactive-preview', documentsController.getInteractivePreview);
   app.post('/api/documents/download-direct', documentsController.downloadDirectDocument);
-  app.post('/api/documents', documentsController.createDocument);
+  app.post('/api/documents/images', documentsController.uploadImageMiddleware, documentsController.uploadFieldImage);
+  app.get('/api/documents/images', documentsController.getFieldImage);
+  app.post('/api/documents', requireTemplateRole('editor', templateOf.body), documentsController.createDocument);
 
   // Advanced search routes — MUST come before UUID routes to avoid conflict
   app.get('/api/documents/search/fields', advancedSearchController.getSearchableFields);
   app.post('/api/documents/search/advanced', advancedSearchController.advancedSearch);
   
   // Bulk delete routes - MUST come before UUID routes to avoid conflict
-  app.post('/api/documents/bulk-delete/preview', bulkDeleteController.previewBulkDelete);
-  app.delete('/api/documents/bulk-delete', bulkDeleteController.executeBulkDelete);
+  app.post('/api/documents/bulk-delete/preview', requireRole('admin'), bulkDeleteController.previewBulkDelete);
+  app.delete('/api/documents/bulk-delete', requireRole('admin'), bulkDeleteController.executeBulkDelete);
 
   // Bulk download routes - MUST come before UUID routes to avoid conflict
   app.post('/api/documents/bulk-download/preview', bulkDownloadController.previewBulkDownload);
@@ -116,17 +147,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Document table data routes (BEFORE :uuid to avoid conflicts)
   app.get('/api/documents/:uuid/tables/:name/excel', tablesController.downloadDocumentTableExcel);
-  app.post('/api/documents/:uuid/tables/:name/excel', uploadTableExcel.single('file'), tablesController.uploadDocumentTableExcel);
+  app.post('/api/documents/:uuid/tables/:name/excel', requireTemplateRole('editor', templateOf.document), uploadTableExcel.single('file'), tablesController.uploadDocumentTableExcel);
   app.get('/api/documents/:uuid/tables/:name', tablesController.getDocumentTableData);
-  app.put('/api/documents/:uuid/tables/:name', tablesController.saveDocumentTableData);
+  app.put('/api/documents/:uuid/tables/:name', requireTemplateRole('editor', templateOf.document), tablesController.saveDocumentTableData);
+
+  // Document revisions (diff BEFORE :revision)
+  app.get('/api/documents/:uuid/revisions', documentRevisionsController.listDocumentRevisions);
+  app.get('/api/documents/:uuid/revisions/diff', documentRevisionsController.diffRevisions);
+  app.get('/api/documents/:uuid/revisions/:revision', documentRevisionsController.getRevision);
+  app.post('/api/documents/:uuid/revisions/:revision/restore', requireTemplateRole('editor', templateOf.document), documentRevisionsController.restoreRevision);
+
+  // Master data records a document was filled from
+  app.get('/api/documents/:uuid/record-links', documentsController.listDocumentRecordLinks);
+  app.post('/api/documents/:uuid/record-links/:linkId/reapply', requireTemplateRole('editor', templateOf.document), documentsController.reapplyDocumentRecordLink);
+  app.delete('/api/documents/:uuid/record-links/:linkId', requireTemplateRole('editor', templateOf.document), documentsController.unlinkDocumentRecord);
 
   // UUID-based document routes  
   app.get('/api/documents/:uuid', documentsController.getDocumentById);
   app.get('/api/documents/:uuid/fields', documentsController.getDocumentFields);
+  app.get('/api/documents/:uuid/history', documentsController.getDocumentHistory);
+  app.get('/api/documents/:uuid/workflow', documentsController.getDocumentWorkflowState);
+  app.post('/api/documents/:uuid/workflow', documentsController.transitionDocumentWorkflow);
   app.get('/api/documents/:uuid/download', documentsController.downloadDocument);
   app.get('/api/documents/:uuid/preview', documentsController.previewDocument);
-  app.put('/api/documents/:uuid', documentsController.updateDocument);
-  app.delete('/api/documents/:uuid', documentsController.deleteDocument);
+  app.put('/api/documents/:uuid', requireTemplateRole('editor', templateOf.document), documentsController.updateDocument);
+  app.delete('/api/documents/:uuid', requireTemplateRole('editor', templateOf.document), documentsController.deleteDocument);
 
   // Health check endpoints
   app.get('/api/health/file-integrity', async (req, res) => {
@@ -180,14 +225,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Mock user endpoint for non-auth version
-  app.get('/api/user', (req, res) => {
-    res.json({
-      id: 1,
-      username: 'user',
-      email: 'user@example.com'
-    });
-  });
+  // User & permission management (admin only, see app.use('/api/admin') above)
+  app.get('/api/admin/users', usersController.getUsers);
+  app.put('/api/admin/users/:id/role', usersController.updateUserRole);
+  app.get('/api/admin/templates/:uuid/permissions', usersController.getTemplatePermissions);
+  app.put('/api/admin/templates/:uuid/permissions/:userId', usersController.setTemplatePermission);
+  app.delete('/api/admin/templates/:uuid/permissions/:userId', usersController.deleteTemplatePermission);
+
+  // Document numbering sequences (assigned to fields with PUT /api/templates/:uuid/fields/:name)
+  app.get('/api/numbering-sequences', numberingController.listNumberingSequences);
+  app.post('/api/numbering-sequences', requireRole('admin'), numberingController.createSequence);
+  app.put('/api/numbering-sequences/:id', requireRole('admin'), numberingController.updateSequence);
+  app.delete('/api/numbering-sequences/:id', requireRole('admin'), numberingController.deleteSequence);
+
+  // Template categories (nested, referenced by key from templates.category)
+  app.get('/api/template-categories', templateCategoriesController.listTemplateCategories);
+  app.post('/api/template-categories', requireRole('admin'), templateCategoriesController.createCategory);
+  app.put('/api/template-categories/:id', requireRole('admin'), templateCategoriesController.updateCategory);
+  app.delete('/api/template-categories/:id', requireRole('admin'), templateCategoriesController.deleteCategory);
+
+  // Field dictionary (linked to fields with PUT /api/templates/:uuid/fields/:name)
+  app.get('/api/field-definitions', fieldDictionaryController.listFieldDefinitions);
+  app.get('/api/field-definitions/:id/usage', fieldDictionaryController.getDefinitionUsage);
+  app.post('/api/field-definitions', requireRole('admin'), fieldDictionaryController.createDefinition);
+  app.put('/api/field-definitions/:id', requireRole('admin'), fieldDictionaryController.updateDefinition);
+  app.delete('/api/field-definitions/:id', requireRole('admin'), fieldDictionaryController.deleteDefinition);
+
+  // Master data types (admin) and records (editor), used to fill documents
+  app.get('/api/master-data/types', masterDataController.listTypes);
+  app.post('/api/master-data/types', requireRole('admin'), masterDataController.createType);
+  app.put('/api/master-data/types/:id', requireRole('admin'), masterDataController.updateType);
+  app.delete('/api/master-data/types/:id', requireRole('admin'), masterDataController.deleteType);
+  app.get('/api/master-data/records', masterDataController.listRecords);
+  app.get('/api/master-data/records/:id', masterDataController.getRecord);
+  app.get('/api/master-data/records/:id/documents', masterDataController.listRecordDocuments);
+  app.post('/api/master-data/records', requireRole('editor'), masterDataController.createRecord);
+  app.put('/api/master-data/records/:id', requireRole('editor'), masterDataController.updateRecord);
+  app.delete('/api/master-data/records/:id', requireRole('editor'), masterDataController.deleteRecord);
+
+  // Template tags and the current user's template folders
+  app.get('/api/template-tags', templateOrganizationController.listTemplateTags);
+  app.get('/api/template-folders', templateOrganizationController.listFolders);
+  app.post('/api/template-folders', templateOrganizationController.createFolder);
+  app.put('/api/template-folders/:id', templateOrganizationController.renameFolder);
+  app.delete('/api/template-folders/:id', templateOrganizationController.deleteFolder);
+  app.put('/api/template-folders/:id/templates/:uuid', templateOrganizationController.addFolderTemplate);
+  app.delete('/api/template-folders/:id/templates/:uuid', templateOrganizationController.removeFolderTemplate);
 
   // ============================================
   // External API for FlowForge integration
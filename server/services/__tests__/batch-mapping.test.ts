@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for batch column mapping (shared/batch-mapping.ts)
+ *
+ * Tests cover:
+ * - Header normalization (accents, đ, special characters)
+ * - Suggestions and their confidence: exact, case-insensitive, normalized, partial
+ * - One column per suggested field
+ * - Mapping applied over the suggestions, and mapping validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isBatchMappableField,
+  normalizeBatchHeader,
+  resolveBatchColumnFields,
+  suggestBatchColumnMapping,
+  validateBatchColumnMapping,
+} from '@shared/batch-mapping';
+
+describe('normalizeBatchHeader', () => {
+  it('removes accents, case and special characters', () => {
+    expect(normalizeBatchHeader('Họ tên')).toBe('hoten');
+    expect(normalizeBatchHeader('ho_ten')).toBe('hoten');
+    expect(normalizeBatchHeader('Địa chỉ (thường trú)')).toBe('diachithuongtru');
+    expect(normalizeBatchHeader('')).toBe('');
+  });
+});
+
+describe('suggestBatchColumnMapping', () => {
+  it('scores each kind of match', () => {
+    const suggestions = suggestBatchColumnMapping(
+      ['ho_ten', 'NGAY_SINH', 'Địa chỉ', 'Số điện thoại liên hệ', 'Ghi chú'],
+      ['ho_ten', 'ngay_sinh', 'dia_chi', 'so_dien_thoai']
+    );
+    expect(suggestions.map(s => [s.fieldName, s.matchType, s.confidence])).toEqual([
+      ['ho_ten', 'exact', 100],
+      ['ngay_sinh', 'case-insensitive', 95],
+      ['dia_chi', 'normalized', 85],
+      ['so_dien_thoai', 'partial', 50],
+      [null, null, 0],
+    ]);
+    expect(suggestions[2].header).toBe('Địa chỉ');
+  });
+
+  it('suggests a field for the best matching column only', () => {
+    const suggestions = suggestBatchColumnMapping(['Họ tên người ký', 'Họ tên'], ['ho_ten']);
+    expect(suggestions.map(s => s.fieldName)).toEqual([null, 'ho_ten']);
+  });
+
+  it('uses the first column among equal matches', () => {
+    expect(suggestBatchColumnMapping(['HO_TEN', 'Ho_Ten'], ['ho_ten']).map(s => s.fieldName)).toEqual(['ho_ten', null]);
+  });
+
+  it('prefers the longer field name among partial matches', () => {
+    const [suggestion] = suggestBatchColumnMapping(['Ngày ký hợp đồng chính thức'], ['ngay_ky', 'ngay_ky_hop_dong']);
+    expect(suggestion).toMatchObject({ fieldName: 'ngay_ky_hop_dong', matchType: 'partial' });
+  });
+
+  it('does not match short or empty headers partially', () => {
+    expect(suggestBatchColumnMapping(['ID', ''], ['id_so', 'ho_ten']).map(s => s.fieldName)).toEqual([null, null]);
+  });
+});
+
+describe('resolveBatchColumnFields', () => {
+  const fieldNames = ['ho_ten', 'dia_chi', 'ghi_chu'];
+
+  it('uses the suggestions without a mapping', () => {
+    expect(resolveBatchColumnFields(['Họ tên', 'Khác'], fieldNames)).toEqual(['ho_ten', null]);
+  });
+
+  it('applies mapped and skipped columns over the suggestions', () => {
+    const mapping = { columns: { 'Nơi ở': 'dia_chi', 'Họ tên': null, 'Cột lạ': 'khong_co' }, constants: {} };
+    expect(resolveBatchColumnFields(['Họ tên', 'Nơi ở', 'Cột lạ', 'ghi chu'], fieldNames, mapping))
+      .toEqual([null, 'dia_chi', null, 'ghi_chu']);
+  });
+
+  it('does not suggest a field already chosen for another column', () => {
+    const mapping = { columns: { 'Tên khách hàng': 'ho_ten' }, constants: {} };
+    expect(resolveBatchColumnFields(['ho_ten', 'Tên khách hàng'], fieldNames, mapping)).toEqual([null, 'ho_ten']);
+  });
+});
+
+describe('validateBatchColumnMapping', () => {
+  const fieldNames = ['ho_ten', 'dia_chi'];
+
+  it('accepts a valid mapping', () => {
+    expect(validateBatchColumnMapping({ columns: { 'Họ tên': 'ho_ten', 'Khác': null }, constants: { dia_chi: 'Hà Nội' } }, fieldNames))
+      .toBeNull();
+  });
+
+  it('rejects malformed mappings', () => {
+    expect(validateBatchColumnMapping(null, fieldNames)).toBe('mapping must be an object');
+    expect(validateBatchColumnMapping({ columns: [], constants: {} }, fieldNames)).toBe('mapping.columns must be an object');
+    expect(validateBatchColumnMapping({ columns: {} }, fieldNames)).toBe('mapping.constants must be an object');
+  });
+
+  it('rejects unknown and duplicate fields', () => {
+    expect(validateBatchColumnMapping({ columns: { A: 'so_tien' }, constants: {} }, fieldNames))
+      .toBe('Column "A" is mapped to an unknown field');
+    expect(validateBatchColumnMapping({ columns: { A: 'ho_ten', B: 'ho_ten' }, constants: {} }, fieldNames))
+      .toBe('Field "ho_ten" is mapped to more than one column');
+    expect(validateBatchColumnMapping({ columns: {}, constants: { so_tien: '1' } }, fieldNames))
+      .toBe('Constant value for unknown field "so_tien"');
+    expect(validateBatchColumnMapping({ columns: {}, constants: { ho_ten: 1 } }, fieldNames))
+      .toBe('Constant value of "ho_ten" must be text');
+  });
+});
+
+describe('isBatchMappableField', () => {
+  it('excludes tables, images, computed and numbered fields', () => {
+    expect(isBatchMappableField({ fieldType: 'text' })).toBe(true);
+    expect(isBatchMappableField({ fieldType: 'row_group' })).toBe(false);
+    expect(isBatchMappableField({ fieldType: 'image' })).toBe(false);
+    expect(isBatchMappableField({ fieldType: 'number', expression: 'a * b' })).toBe(false);
+    expect(isBatchMappableField({ fieldType: 'text', numberingSequenceId: 'seq-1' })).toBe(false);
+  });
+});
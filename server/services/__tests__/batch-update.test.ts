@@ -0,0 +1,31 @@
+/**
+ * Unit Tests for batch updates by key (shared/batch-update.ts)
+ *
+ * Tests cover:
+ * - Key value of a row
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getBatchRowKeyValue } from '@shared/batch-update';
+
+describe('getBatchRowKeyValue', () => {
+  const fields = [
+    { fieldName: 'ho_ten', fieldValue: 'Nguyễn Văn A' },
+    { fieldName: 'so_hop_dong', fieldValue: '  HĐ-001/2026 ' },
+    { fieldName: 'ghi_chu', fieldValue: '   ' },
+  ];
+
+  it('returns the trimmed value of the key field', () => {
+    expect(getBatchRowKeyValue(fields, 'so_hop_dong')).toBe('HĐ-001/2026');
+  });
+
+  it("returns '' when the row has no key value", () => {
+    expect(getBatchRowKeyValue(fields, 'ghi_chu')).toBe('');
+    expect(getBatchRowKeyValue(fields, 'ma_khach_hang')).toBe('');
+    expect(getBatchRowKeyValue([], 'so_hop_dong')).toBe('');
+  });
+
+  it('matches the field name exactly', () => {
+    expect(getBatchRowKeyValue(fields, 'SO_HOP_DONG')).toBe('');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for CSV / TSV batch uploads (server/services/batch-workbook.service.ts)
+ *
+ * Tests cover:
+ * - Encoding detection: BOM, UTF-8, Windows-1258 fallback (NFC normalized)
+ * - Delimiter detection from the header line
+ * - Conversion of CSV / TSV uploads to xlsx workbooks
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  BatchWorkbookError,
+  decodeDelimitedText,
+  detectDelimiter,
+  getBatchFileFormat,
+  toBatchWorkbookBuffer,
+} from '../batch-workbook.service';
+
+describe('decodeDelimitedText', () => {
+  it('reads UTF-8 with and without BOM', () => {
+    expect(decodeDelimitedText(Buffer.from('ho_ten\nNguyễn Văn A', 'utf-8'))).toEqual({
+      text: 'ho_ten\nNguyễn Văn A',
+      encoding: 'utf-8',
+    });
+    expect(decodeDelimitedText(Buffer.concat([Buffer.from([0xEF, 0xBB, 0xBF]), Buffer.from('Việt', 'utf-8')]))).toEqual({
+      text: 'Việt',
+      encoding: 'utf-8',
+    });
+  });
+
+  it('reads UTF-16 files by their BOM', () => {
+    const utf16 = Buffer.concat([Buffer.from([0xFF, 0xFE]), Buffer.from('Đà Nẵng', 'utf16le')]);
+    expect(decodeDelimitedText(utf16)).toEqual({ text: 'Đà Nẵng', encoding: 'utf-16le' });
+  });
+
+  it('falls back to Windows-1258 and composes tone marks', () => {
+    // "Tiếng Việt": ê (0xEA) followed by the combining acute (0xEC) / dot below (0xF2)
+    const cp1258 = Buffer.from([0x54, 0x69, 0xEA, 0xEC, 0x6E, 0x67, 0x20, 0x56, 0x69, 0xEA, 0xF2, 0x74]);
+    const { text, encoding } = decodeDelimitedText(cp1258);
+    expect(encoding).toBe('windows-1258');
+    expect(text).toBe('Tiếng Việt'.normalize('NFC'));
+    expect(text).toHaveLength(10);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter used most in the header line', () => {
+    expect(detectDelimiter('ho_ten;ngay_sinh;so_tien\n"A";"1,5";2', 'csv')).toBe(';');
+    expect(detectDelimiter('ho_ten\tngay_sinh\ta,b', 'csv')).toBe('\t');
+    expect(detectDelimiter('a,b,c', 'tsv')).toBe(',');
+  });
+
+  it('ignores delimiters inside quotes and after the first line', () => {
+    expect(detectDelimiter('"Họ; tên";"Địa; chỉ",x,y', 'csv')).toBe(',');
+    expect(detectDelimiter('a;b\nc,d,e,f', 'csv')).toBe(';');
+  });
+
+  it('uses the format default for ties and single columns', () => {
+    expect(detectDelimiter('a;b,c', 'csv')).toBe(',');
+    expect(detectDelimiter('a;b\tc', 'tsv')).toBe('\t');
+    expect(detectDelimiter('ho_ten', 'csv')).toBe(',');
+    expect(detectDelimiter('ho_ten', 'tsv')).toBe('\t');
+  });
+});
+
+describe('toBatchWorkbookBuffer', () => {
+  const firstSheetRows = (buffer: Buffer) => {
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    return XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[workbook.SheetNames[0]], { header: 1, raw: false });
+  };
+
+  it('converts CSV to a workbook and keeps values as text', () => {
+    const { buffer, source } = toBatchWorkbookBuffer(Buffer.from('ma_so;ngay_ky\n00123;05/03/2024', 'utf-8'), 'danh_sach.csv');
+    expect(source).toEqual({ format: 'csv', encoding: 'utf-8', delimiter: ';' });
+    expect(firstSheetRows(buffer)).toEqual([['ma_so', 'ngay_ky'], ['00123', '05/03/2024']]);
+  });
+
+  it('returns Excel files unchanged', () => {
+    const excel = Buffer.from('not parsed');
+    expect(toBatchWorkbookBuffer(excel, 'Danh Sach.XLSX')).toEqual({ buffer: excel, source: { format: 'xlsx' } });
+  });
+
+  it('rejects other files', () => {
+    expect(getBatchFileFormat('data.txt')).toBeNull();
+    expect(() => toBatchWorkbookBuffer(Buffer.from(''), 'data.txt')).toThrow(BatchWorkbookError);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for computed fields (shared/computed-fields.ts)
+ *
+ * Tests cover:
+ * - Expression extraction and syntax validation
+ * - Arithmetic, precedence, table aggregates and date functions
+ * - Empty / non-numeric operands and cycles
+ * - Stored format of decimals (decimal comma), read back by parseNumberValue and the formatters
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  evaluateComputedFields,
+  extractComputedExpression,
+  validateComputedExpression,
+  withComputedValues,
+} from '@shared/computed-fields';
+import { parseNumberValue } from '@shared/field-validation';
+import { applyFormatters } from '../../utils/value-formatters';
+
+const compute = (expression: string, values: Record<string, string> = {}, tables = {}) =>
+  evaluateComputedFields([{ name: 'result', expression }], values, tables).result;
+
+describe('extractComputedExpression', () => {
+  it('splits the field name and the expression', () => {
+    expect(extractComputedExpression('tong_tien:=sum(hang_hoa.thanh_tien)')).toEqual({
+      placeholder: 'tong_tien',
+      expression: 'sum(hang_hoa.thanh_tien)',
+    });
+  });
+
+  it('leaves placeholders without ":=" alone', () => {
+    expect(extractComputedExpression('ho_ten')).toEqual({ placeholder: 'ho_ten', expression: null });
+  });
+
+  it('normalizes smart quotes', () => {
+    expect(extractComputedExpression('x:=a + ‘ VND’').expression).toBe("a + ' VND'");
+  });
+});
+
+describe('validateComputedExpression', () => {
+  it('accepts valid expressions', () => {
+    expect(validateComputedExpression('round(a * 1.1, 2) + sum(t.c)')).toBeNull();
+  });
+
+  it('reports syntax errors', () => {
+    expect(validateComputedExpression('(a + b')).toBe('Expected ")"');
+    expect(validateComputedExpression('foo(a)')).toBe('Unknown function "foo"');
+    expect(validateComputedExpression("'open")).toBe('Unterminated string');
+  });
+});
+
+describe('evaluateComputedFields', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('applies operator precedence and parentheses', () => {
+    expect(compute('a + b * 2', { a: '1', b: '3' })).toBe('7');
+    expect(compute('(a + b) * 2', { a: '1', b: '3' })).toBe('8');
+    expect(compute('-a + 5', { a: '2' })).toBe('3');
+  });
+
+  it('reads Vietnamese and English number input', () => {
+    expect(compute('a + b', { a: '1.000.000', b: '2.500' })).toBe('1002500');
+    expect(compute('a + b', { a: '1,000,000', b: '2,5' })).toBe('1000002,5');
+  });
+
+  it('drops floating point noise', () => {
+    expect(compute('a * 3', { a: '0,1' })).toBe('0,3');
+  });
+
+  it('leaves the result empty for empty operands and division by zero', () => {
+    expect(compute('a + 1', {})).toBe('');
+    expect(compute('a / b', { a: '1', b: '0' })).toBe('');
+    expect(compute('a * 2', { a: 'abc' })).toBe('');
+  });
+
+  it('aggregates table columns', () => {
+    const tables = { hang_hoa: [{ thanh_tien: '100' }, { thanh_tien: '250' }, { thanh_tien: '' }] };
+    expect(compute('sum(hang_hoa.thanh_tien)', {}, tables)).toBe('350');
+    expect(compute('avg(hang_hoa.thanh_tien)', {}, tables)).toBe('175');
+    expect(compute('max(hang_hoa.thanh_tien)', {}, tables)).toBe('250');
+    expect(compute('count(hang_hoa)', {}, tables)).toBe('3');
+    expect(compute('count(hang_hoa.thanh_tien)', {}, tables)).toBe('2');
+    expect(compute('hang_hoa.thanh_tien * 2', {}, tables)).toBe('700');
+  });
+
+  it('rounds to the given digits', () => {
+    expect(compute('round(a, 2)', { a: '2.345678' })).toBe('2,35');
+    expect(compute('round(a)', { a: '2.5' })).toBe('3');
+  });
+
+  it('computes dates as dd/MM/yyyy', () => {
+    expect(compute('addDays(d, 30)', { d: '15/01/2024' })).toBe('14/02/2024');
+    expect(compute('d + 1', { d: '2024-12-31' })).toBe('01/01/2025');
+    expect(compute('addMonths(d, 1)', { d: '31/01/2024' })).toBe('29/02/2024');
+    expect(compute('addYears(d, 1)', { d: '29/02/2024' })).toBe('28/02/2025');
+    expect(compute('days(a, b)', { a: '01/01/2024', b: '01/03/2024' })).toBe('60');
+    expect(compute('b - a', { a: '01/01/2024', b: '11/01/2024' })).toBe('10');
+  });
+
+  it('concatenates text', () => {
+    expect(compute("a + ' VND'", { a: '100' })).toBe('100 VND');
+  });
+
+  it('lets computed fields reference each other and breaks cycles', () => {
+    const fields = [
+      { name: 'thue', expression: 'tien * 0.1' },
+      { name: 'tong', expression: 'tien + thue' },
+      { name: 'x', expression: 'y + 1' },
+      { name: 'y', expression: 'x + 1' },
+    ];
+    expect(evaluateComputedFields(fields, { tien: '1000' })).toEqual({ thue: '100', tong: '1100', x: '', y: '' });
+  });
+
+  it('evaluates invalid expressions to empty', () => {
+    expect(compute('a +', { a: '1' })).toBe('');
+  });
+
+  it('overrides submitted values with computed ones', () => {
+    expect(withComputedValues([{ name: 'b', expression: 'a * 2' }], { a: '2', b: '999' })).toEqual({ a: '2', b: '4' });
+  });
+});
+
+describe('decimal results', () => {
+  it('stores decimals with a decimal comma, read back as decimals', () => {
+    expect(compute('a / 8', { a: '1' })).toBe('0,125');
+    expect(compute('a / 8', { a: '9' })).toBe('1,125');
+    expect(compute('a / 8', { a: '-9' })).toBe('-1,125');
+    expect(compute('a / 1000', { a: '123456' })).toBe('123,456');
+
+    expect(parseNumberValue('1,125')).toBe(1.125);
+    expect(parseNumberValue('-1,125')).toBe(-1.125);
+    expect(parseNumberValue('123,456')).toBe(123.456);
+  });
+
+  it('uses computed decimals in other computed fields', () => {
+    const fields = [{ name: 'a', expression: 'x / 8' }, { name: 'b', expression: 'a * 8' }];
+    expect(evaluateComputedFields(fields, { x: '9' })).toEqual({ a: '1,125', b: '9' });
+  });
+
+  it('keeps other decimals and integers as they are', () => {
+    expect(compute('a / 4', { a: '5' })).toBe('1,25');
+    expect(compute('a / 3', { a: '1' })).toBe('0,3333333333');
+    expect(compute('a * 1000', { a: '1.5' })).toBe('1500');
+  });
+
+  it('formats three-decimal results with number and words formatters', () => {
+    const value = compute('a / 8', { a: '9' });
+    expect(applyFormatters(value, [{ name: 'number', arg: '2' }])).toBe('1,13');
+    expect(applyFormatters(value, [{ name: 'words', arg: 'vi' }])).toBe('một phẩy một trăm hai mươi lăm');
+    expect(applyFormatters(compute('a / 8', { a: '1' }), [{ name: 'number', arg: '3' }])).toBe('0,125');
+  });
+});
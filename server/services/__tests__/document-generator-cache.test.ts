@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for Document Generator Cache Service (PDF exports)
+ *
+ * Tests cover:
+ * - Coalescing of concurrent PDF conversions
+ * - Invalidation dropping in-flight conversions of the old content
+ *
+ * SAFETY: The PDF converter is mocked, no LibreOffice or template file is needed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const { convertDocxToPdf } = vi.hoisted(() => ({ convertDocxToPdf: vi.fn() }));
+vi.mock('../pdf-converter.service', () => ({ convertDocxToPdf }));
+
+import { DocumentGeneratorCache } from '../document-generator-cache.service';
+
+describe('DocumentGeneratorCache PDF conversions', () => {
+  let cache: DocumentGeneratorCache;
+  const params = {
+    documentUuid: 'doc-1',
+    documentName: 'Hợp đồng',
+    templateFilePath: 'unused.docx',
+    fieldValues: { ho_ten: 'An' },
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    convertDocxToPdf.mockReset();
+    cache = new DocumentGeneratorCache({ maxEntries: 5, ttlMinutes: 10, enabled: true });
+    cache.set(params.documentUuid, params.fieldValues, Buffer.from('docx'), params.documentName);
+  });
+
+  afterEach(() => {
+    cache.shutdown();
+  });
+
+  it('coalesces concurrent conversions of the same content', async () => {
+    convertDocxToPdf.mockResolvedValue(Buffer.from('pdf'));
+    const [first, second] = await Promise.all([cache.getOrGeneratePdf(params), cache.getOrGeneratePdf(params)]);
+    expect(first).toBe(second);
+    expect(convertDocxToPdf).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not serve an in-flight conversion after invalidation', async () => {
+    let finishOld!: (pdf: Buffer) => void;
+    convertDocxToPdf.mockImplementationOnce(() => new Promise<Buffer>(resolve => { finishOld = resolve; }));
+    const oldConversion = cache.getOrGeneratePdf(params);
+    await vi.waitFor(() => expect(convertDocxToPdf).toHaveBeenCalledTimes(1));
+
+    cache.invalidate(params.documentUuid);
+    cache.set(params.documentUuid, params.fieldValues, Buffer.from('docx v2'), params.documentName);
+    convertDocxToPdf.mockResolvedValueOnce(Buffer.from('pdf v2'));
+
+    const newConversion = cache.getOrGeneratePdf(params);
+    finishOld(Buffer.from('pdf v1'));
+    expect((await newConversion).toString()).toBe('pdf v2');
+    expect((await oldConversion).toString()).toBe('pdf v1');
+    expect(convertDocxToPdf).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit Tests for the document workflow (shared/document-workflow.ts)
+ *
+ * Tests cover:
+ * - Transition lookup by status and action, with the role each one needs
+ * - Locked statuses
+ * - "status" filter parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findWorkflowTransition,
+  getWorkflowTransitions,
+  isDocumentWorkflowStatus,
+  isWorkflowLocked,
+  parseWorkflowStatusFilter,
+} from '@shared/document-workflow';
+
+describe('findWorkflowTransition', () => {
+  it('finds the transition of an action from a status', () => {
+    expect(findWorkflowTransition('draft', 'submit')).toMatchObject({ from: 'draft', to: 'submitted', role: 'editor' });
+    expect(findWorkflowTransition('submitted', 'approve')).toMatchObject({ to: 'approved', role: 'admin' });
+    expect(findWorkflowTransition('submitted', 'reject')).toMatchObject({ to: 'draft', role: 'admin' });
+    expect(findWorkflowTransition('signed', 'issue')).toMatchObject({ to: 'issued', role: 'editor' });
+  });
+
+  it('returns undefined for actions not allowed from the status', () => {
+    expect(findWorkflowTransition('draft', 'approve')).toBeUndefined();
+    expect(findWorkflowTransition('issued', 'reopen')).toBeUndefined();
+    expect(findWorkflowTransition('draft', 'unknown')).toBeUndefined();
+  });
+});
+
+describe('getWorkflowTransitions', () => {
+  it('lists the actions available from a status', () => {
+    expect(getWorkflowTransitions('submitted').map(t => t.action)).toEqual(['approve', 'reject']);
+    expect(getWorkflowTransitions('approved').map(t => t.action)).toEqual(['sign', 'reopen']);
+    expect(getWorkflowTransitions('issued')).toEqual([]);
+  });
+});
+
+describe('isWorkflowLocked', () => {
+  it('locks approved, signed and issued documents', () => {
+    expect(isWorkflowLocked('draft')).toBe(false);
+    expect(isWorkflowLocked('submitted')).toBe(false);
+    expect(isWorkflowLocked('approved')).toBe(true);
+    expect(isWorkflowLocked('issued')).toBe(true);
+  });
+});
+
+describe('parseWorkflowStatusFilter', () => {
+  it('reads one status or a comma separated list', () => {
+    expect(parseWorkflowStatusFilter('draft')).toEqual(['draft']);
+    expect(parseWorkflowStatusFilter('approved, signed')).toEqual(['approved', 'signed']);
+    expect(parseWorkflowStatusFilter(['draft', 'issued'])).toEqual(['draft', 'issued']);
+  });
+
+  it('drops unknown statuses and returns undefined when none remain', () => {
+    expect(parseWorkflowStatusFilter('draft,archived')).toEqual(['draft']);
+    expect(parseWorkflowStatusFilter('Draft')).toBeUndefined();
+    expect(parseWorkflowStatusFilter('')).toBeUndefined();
+    expect(parseWorkflowStatusFilter(undefined)).toBeUndefined();
+    expect(parseWorkflowStatusFilter(3)).toBeUndefined();
+  });
+
+  it('accepts known statuses only in the type guard', () => {
+    expect(isDocumentWorkflowStatus('signed')).toBe(true);
+    expect(isDocumentWorkflowStatus('deleted')).toBe(false);
+  });
+});
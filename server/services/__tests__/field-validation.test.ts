@@ -0,0 +1,168 @@
+/**
+ * Unit Tests for typed field syntax and value validation (shared/field-validation.ts)
+ *
+ * Tests cover:
+ * - ":type(args)" extraction, combined with default values and options
+ * - Number parsing (Vietnamese / English separators) and date parsing
+ * - Value validation per type, ranges, lengths and patterns
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractFieldTypeSpec,
+  parseDateValue,
+  parseNumberValue,
+  toIsoDate,
+  validateFieldValue,
+  validateFieldValues,
+} from '@shared/field-validation';
+
+describe('extractFieldTypeSpec', () => {
+  it('reads the type and its arguments', () => {
+    expect(extractFieldTypeSpec('so_tien:number(min=0,max=1e9,integer)')).toEqual({
+      placeholder: 'so_tien',
+      spec: { fieldType: 'number', validation: { min: 0, max: 1e9, integer: true } },
+    });
+    expect(extractFieldTypeSpec('ghi_chu:textarea(min=5,max=200)').spec).toEqual({
+      fieldType: 'textarea',
+      validation: { minLength: 5, maxLength: 200 },
+    });
+    expect(extractFieldTypeSpec('email:email')).toEqual({ placeholder: 'email', spec: { fieldType: 'email' } });
+  });
+
+  it('stores date limits as ISO dates', () => {
+    expect(extractFieldTypeSpec('ngay_ky:date(min=01/01/2024, max=2024-12-31)').spec).toEqual({
+      fieldType: 'date',
+      validation: { min: '2024-01-01', max: '2024-12-31' },
+    });
+  });
+
+  it('keeps the default value and options after the type', () => {
+    expect(extractFieldTypeSpec("so_tien:number(min=0)='0'")).toEqual({
+      placeholder: "so_tien='0'",
+      spec: { fieldType: 'number', validation: { min: 0 } },
+    });
+    expect(extractFieldTypeSpec("loai:text['A']['B']").placeholder).toBe("loai['A']['B']");
+  });
+
+  it('reads patterns with a message, commas and smart quotes', () => {
+    expect(extractFieldTypeSpec("cccd:pattern('^[0-9]{12}$', 'CCCD gồm 12 chữ số')").spec).toEqual({
+      fieldType: 'text',
+      validation: { pattern: '^[0-9]{12}$', patternMessage: 'CCCD gồm 12 chữ số' },
+    });
+    expect(extractFieldTypeSpec('ma:regex(‘/^[A-Z]{2,3}$/’)').spec).toEqual({
+      fieldType: 'text',
+      validation: { pattern: '^[A-Z]{2,3}$' },
+    });
+  });
+
+  it('reads image fields, including the % short form', () => {
+    expect(extractFieldTypeSpec('chu_ky:image(3cm,4cm)')).toEqual({ placeholder: 'chu_ky', spec: { fieldType: 'image' } });
+    expect(extractFieldTypeSpec('%anh_the')).toEqual({ placeholder: 'anh_the', spec: { fieldType: 'image' } });
+  });
+
+  it('ignores placeholders without a known type', () => {
+    expect(extractFieldTypeSpec('ho_ten')).toEqual({ placeholder: 'ho_ten', spec: null });
+    expect(extractFieldTypeSpec('gio:mm')).toEqual({ placeholder: 'gio:mm', spec: null });
+    expect(extractFieldTypeSpec("ghi_chu='a:number'")).toEqual({ placeholder: "ghi_chu='a:number'", spec: null });
+    expect(extractFieldTypeSpec('so:number(min=0')).toEqual({ placeholder: 'so:number(min=0', spec: null });
+  });
+});
+
+describe('parseNumberValue', () => {
+  it('reads Vietnamese and English thousands grouping', () => {
+    expect(parseNumberValue('1.000.000')).toBe(1000000);
+    expect(parseNumberValue('1,000,000')).toBe(1000000);
+    expect(parseNumberValue('1.000,5')).toBe(1000.5);
+    expect(parseNumberValue('1,000.5')).toBe(1000.5);
+    expect(parseNumberValue('1.125')).toBe(1125);
+  });
+
+  it('reads a single comma as the decimal separator', () => {
+    expect(parseNumberValue('1,125')).toBe(1.125);
+    expect(parseNumberValue('1,000')).toBe(1);
+    expect(parseNumberValue('12,5')).toBe(12.5);
+  });
+
+  it('reads plain decimals with either separator', () => {
+    expect(parseNumberValue('1000.5')).toBe(1000.5);
+    expect(parseNumberValue('1000,5')).toBe(1000.5);
+    expect(parseNumberValue('-12,25')).toBe(-12.25);
+    expect(parseNumberValue('0.125')).toBe(0.125);
+    expect(parseNumberValue('0,125')).toBe(0.125);
+  });
+
+  it('ignores spaces and rejects other text', () => {
+    expect(parseNumberValue(' 1 000 ')).toBe(1000);
+    expect(parseNumberValue('')).toBeNull();
+    expect(parseNumberValue('12a')).toBeNull();
+    expect(parseNumberValue('1.2.3')).toBeNull();
+  });
+});
+
+describe('parseDateValue', () => {
+  it('reads ISO and dd/MM/yyyy dates', () => {
+    expect(toIsoDate(parseDateValue('2024-03-05')!)).toBe('2024-03-05');
+    expect(toIsoDate(parseDateValue('5/3/2024')!)).toBe('2024-03-05');
+    expect(toIsoDate(parseDateValue('05.03.2024')!)).toBe('2024-03-05');
+  });
+
+  it('rejects impossible dates and other text', () => {
+    expect(parseDateValue('31/02/2024')).toBeNull();
+    expect(parseDateValue('2024-13-01')).toBeNull();
+    expect(parseDateValue('hôm nay')).toBeNull();
+  });
+});
+
+describe('validateFieldValue', () => {
+  it('lets empty values pass', () => {
+    expect(validateFieldValue({ name: 'a', fieldType: 'number' }, '  ')).toBeNull();
+    expect(validateFieldValue({ name: 'a', fieldType: 'email' }, null)).toBeNull();
+  });
+
+  it('checks numbers and their limits', () => {
+    const field = { name: 'so', fieldType: 'number', validation: { min: 0, max: 100, integer: true } };
+    expect(validateFieldValue(field, '50')).toBeNull();
+    expect(validateFieldValue(field, 'abc')).toBe('Must be a number');
+    expect(validateFieldValue(field, '1,5')).toBe('Must be a whole number');
+    expect(validateFieldValue(field, '-1')).toBe('Must be at least 0');
+    expect(validateFieldValue(field, '1.000')).toBe('Must be at most 100');
+  });
+
+  it('checks dates and their limits', () => {
+    const field = { name: 'ngay', fieldType: 'date', validation: { min: '2024-01-01', max: '2024-12-31' } };
+    expect(validateFieldValue(field, '15/06/2024')).toBeNull();
+    expect(validateFieldValue(field, '31/02/2024')).toBe('Must be a valid date (dd/MM/yyyy)');
+    expect(validateFieldValue(field, '31/12/2023')).toBe('Must be on or after 2024-01-01');
+    expect(validateFieldValue(field, '2025-01-01')).toBe('Must be on or before 2024-12-31');
+  });
+
+  it('checks emails and text lengths', () => {
+    expect(validateFieldValue({ name: 'e', fieldType: 'email' }, 'a@b.vn')).toBeNull();
+    expect(validateFieldValue({ name: 'e', fieldType: 'email' }, 'a@b')).toBe('Must be a valid email address');
+    const text = { name: 't', fieldType: 'text', validation: { minLength: 2, maxLength: 4 } };
+    expect(validateFieldValue(text, 'a')).toBe('Must be at least 2 characters');
+    expect(validateFieldValue(text, 'abcde')).toBe('Must be at most 4 characters');
+  });
+
+  it('checks patterns and ignores broken ones', () => {
+    const field = { name: 'cccd', fieldType: 'text', validation: { pattern: '^[0-9]{12}$', patternMessage: 'CCCD gồm 12 chữ số' } };
+    expect(validateFieldValue(field, '012345678901')).toBeNull();
+    expect(validateFieldValue(field, '123')).toBe('CCCD gồm 12 chữ số');
+    expect(validateFieldValue({ name: 'x', fieldType: 'text', validation: { pattern: '^a' } }, 'b')).toBe('Does not match the required format');
+    expect(validateFieldValue({ name: 'x', fieldType: 'text', validation: { pattern: '([' } }, 'b')).toBeNull();
+  });
+});
+
+describe('validateFieldValues', () => {
+  it('returns the errors of the submitted fields only', () => {
+    const fields = [
+      { name: 'so', fieldType: 'number' },
+      { name: 'email', fieldType: 'email' },
+      { name: 'ngay', fieldType: 'date' },
+    ];
+    expect(validateFieldValues(fields, { so: 'x', email: 'a@b.vn', khac: 'y' })).toEqual([
+      { field: 'so', message: 'Must be a number' },
+    ]);
+  });
+});
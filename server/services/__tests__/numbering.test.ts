@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for document numbering patterns (shared/numbering.ts)
+ *
+ * Tests cover:
+ * - Pattern validation ({n} required, unknown tokens)
+ * - Number formatting with padding and date tokens
+ * - Counter period keys per reset period
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatSequenceNumber,
+  getNumberingPeriodKey,
+  isNumberingResetPeriod,
+  isNumberingScope,
+  isNumberingTrigger,
+  validateNumberingPattern,
+} from '@shared/numbering';
+
+const date = new Date(2026, 2, 5);
+
+describe('validateNumberingPattern', () => {
+  it('accepts patterns with {n} and known tokens', () => {
+    expect(validateNumberingPattern('{n}/QĐ-UBND')).toBeNull();
+    expect(validateNumberingPattern('{n:4}/{yyyy}/HĐ-{mm}{dd}')).toBeNull();
+    expect(validateNumberingPattern('VB-{yy}-{n}')).toBeNull();
+  });
+
+  it('rejects empty patterns and patterns without {n}', () => {
+    expect(validateNumberingPattern('  ')).toBe('Pattern is required');
+    expect(validateNumberingPattern('{yyyy}/QĐ')).toBe('Pattern must contain {n}');
+    expect(validateNumberingPattern('{n:123}/QĐ')).toBe('Pattern must contain {n}');
+  });
+
+  it('reports the first unknown token', () => {
+    expect(validateNumberingPattern('{n}/{ma_don_vi}/{yyyy}')).toBe('Unknown token {ma_don_vi}');
+    expect(validateNumberingPattern('{n}/{YYYY}')).toBe('Unknown token {YYYY}');
+  });
+});
+
+describe('formatSequenceNumber', () => {
+  it('inserts the number, padded when a width is given', () => {
+    expect(formatSequenceNumber('{n}/QĐ-UBND', 123, date)).toBe('123/QĐ-UBND');
+    expect(formatSequenceNumber('{n:4}/QĐ', 7, date)).toBe('0007/QĐ');
+    expect(formatSequenceNumber('{n:2}', 1234, date)).toBe('1234');
+  });
+
+  it('inserts the allocation date', () => {
+    expect(formatSequenceNumber('{n}/{yyyy}/HĐ', 5, date)).toBe('5/2026/HĐ');
+    expect(formatSequenceNumber('{yy}{mm}{dd}-{n:3}', 12, date)).toBe('260305-012');
+    expect(formatSequenceNumber('{n}/{yy}', 1, new Date(2005, 11, 31))).toBe('1/05');
+  });
+
+  it('leaves other text and braces unchanged', () => {
+    expect(formatSequenceNumber('{n}/{x}', 9, date)).toBe('9/{x}');
+  });
+});
+
+describe('getNumberingPeriodKey', () => {
+  it('keys the counter by reset period', () => {
+    expect(getNumberingPeriodKey('never', date)).toBe('');
+    expect(getNumberingPeriodKey('yearly', date)).toBe('2026');
+    expect(getNumberingPeriodKey('monthly', date)).toBe('2026-03');
+  });
+});
+
+describe('type guards', () => {
+  it('accept known values only', () => {
+    expect(isNumberingResetPeriod('monthly')).toBe(true);
+    expect(isNumberingResetPeriod('daily')).toBe(false);
+    expect(isNumberingScope('category')).toBe(true);
+    expect(isNumberingScope(null)).toBe(false);
+    expect(isNumberingTrigger('approve')).toBe(true);
+    expect(isNumberingTrigger('sign')).toBe(false);
+  });
+});
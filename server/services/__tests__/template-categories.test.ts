@@ -0,0 +1,100 @@
+/**
+ * Unit Tests for nested template categories (shared/template-categories.ts)
+ *
+ * Tests cover:
+ * - Tree order and depth of the category list
+ * - Keys of a category with its sub-categories (template filter)
+ * - Cycle detection when moving a category
+ * - Key, color and icon validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  flattenTemplateCategories,
+  getTemplateCategoryKeysWithDescendants,
+  isTemplateCategoryColor,
+  isTemplateCategoryDescendant,
+  isTemplateCategoryIcon,
+  validateTemplateCategoryKey,
+} from '@shared/template-categories';
+
+const category = (id: string, parentId: string | null, position: number, label = id) => ({
+  id,
+  key: `key-${id}`,
+  parentId,
+  position,
+  label,
+});
+
+// hop_dong ─┬─ mua_ban ── mua_ban_nha
+//           └─ thue
+// bao_cao
+const categories = [
+  category('thue', 'hop_dong', 2),
+  category('bao_cao', null, 2),
+  category('mua_ban_nha', 'mua_ban', 0),
+  category('hop_dong', null, 1),
+  category('mua_ban', 'hop_dong', 1),
+];
+
+describe('flattenTemplateCategories', () => {
+  it('lists parents before their children, siblings by position, with their depth', () => {
+    expect(flattenTemplateCategories(categories).map(c => [c.id, c.depth])).toEqual([
+      ['hop_dong', 0],
+      ['mua_ban', 1],
+      ['mua_ban_nha', 2],
+      ['thue', 1],
+      ['bao_cao', 0],
+    ]);
+  });
+
+  it('orders siblings with the same position by label', () => {
+    const siblings = [category('b', null, 0, 'Công văn'), category('a', null, 0, 'Báo cáo')];
+    expect(flattenTemplateCategories(siblings).map(c => c.label)).toEqual(['Báo cáo', 'Công văn']);
+  });
+
+  it('shows children of a missing parent at the top level', () => {
+    expect(flattenTemplateCategories([category('orphan', 'deleted', 0)])).toEqual([
+      { ...category('orphan', 'deleted', 0), depth: 0 },
+    ]);
+  });
+});
+
+describe('getTemplateCategoryKeysWithDescendants', () => {
+  it('returns the key with the keys of all sub-categories', () => {
+    const keys = getTemplateCategoryKeysWithDescendants(categories, 'key-hop_dong');
+    expect(keys[0]).toBe('key-hop_dong');
+    expect([...keys].sort()).toEqual(['key-hop_dong', 'key-mua_ban', 'key-mua_ban_nha', 'key-thue']);
+    expect(getTemplateCategoryKeysWithDescendants(categories, 'key-bao_cao')).toEqual(['key-bao_cao']);
+  });
+
+  it('keeps unknown keys so old template categories still filter', () => {
+    expect(getTemplateCategoryKeysWithDescendants(categories, 'contract')).toEqual(['contract']);
+  });
+});
+
+describe('isTemplateCategoryDescendant', () => {
+  it('detects moving a category under itself or one of its sub-categories', () => {
+    expect(isTemplateCategoryDescendant(categories, 'hop_dong', 'hop_dong')).toBe(true);
+    expect(isTemplateCategoryDescendant(categories, 'hop_dong', 'mua_ban_nha')).toBe(true);
+    expect(isTemplateCategoryDescendant(categories, 'mua_ban', 'bao_cao')).toBe(false);
+    expect(isTemplateCategoryDescendant(categories, 'thue', 'mua_ban')).toBe(false);
+  });
+});
+
+describe('validation', () => {
+  it('checks category keys', () => {
+    expect(validateTemplateCategoryKey('hop-dong_2024')).toBeNull();
+    expect(validateTemplateCategoryKey('')).toBe('Key is required');
+    expect(validateTemplateCategoryKey('all')).toBe('Key "all" is reserved');
+    expect(validateTemplateCategoryKey('Hợp đồng')).toBe('Key may only contain lowercase letters, digits, "-" and "_"');
+    expect(validateTemplateCategoryKey('-hop')).not.toBeNull();
+  });
+
+  it('checks colors and icons', () => {
+    expect(isTemplateCategoryColor('#2563eb')).toBe(true);
+    expect(isTemplateCategoryColor('#fff')).toBe(false);
+    expect(isTemplateCategoryIcon('Scale')).toBe(true);
+    expect(isTemplateCategoryIcon('Rocket')).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Unit Tests for conditional sections (server/utils/template-conditions.ts)
+ *
+ * Tests cover:
+ * - {{#if …}} / {{else}} / {{/if}} tag classification and condition parsing
+ * - Evaluation: truthiness, text / number / date comparisons, contains, and / or / not
+ * - Field extraction from conditions
+ * - Rendering conditional sections with createDocxTemplater
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import PizZip from 'pizzip';
+import {
+  createConditionGetter,
+  evaluateCondition,
+  expandConditionOccurrences,
+  getConditionFieldNames,
+  parseCondition,
+  parseConditionTag,
+} from '../../utils/template-conditions';
+import { createDocxTemplater } from '../../utils/docx-parser';
+
+const evaluate = (expression: string, scope: Record<string, any>) => evaluateCondition(parseCondition(expression), scope);
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/** Minimal .docx with one paragraph per line of text */
+function buildDocx(paragraphs: string[]): PizZip {
+  const zip = new PizZip();
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    + '</Types>');
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+    + '</Relationships>');
+  zip.file('word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="${WORD_NS}"><w:body>`
+    + paragraphs.map(text => `<w:p><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`).join('')
+    + '</w:body></w:document>');
+  return zip;
+}
+
+/** Text of each rendered paragraph */
+function render(paragraphs: string[], data: Record<string, any>): string[] {
+  const doc = createDocxTemplater(buildDocx(paragraphs));
+  doc.render(data);
+  const xml = doc.getZip().file('word/document.xml')!.asText();
+  return Array.from(xml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g))
+    .map(match => Array.from(match[0].matchAll(/<w:t[^>]*>([^<]*)<\/w:t>/g)).map(t => t[1]).join(''));
+}
+
+describe('parseConditionTag', () => {
+  it('classifies condition tags', () => {
+    expect(parseConditionTag("#if loai == 'A'")).toEqual({ kind: 'if', expression: "loai == 'A'" });
+    expect(parseConditionTag(' #IF  co_bao_hanh ')).toEqual({ kind: 'if', expression: 'co_bao_hanh' });
+    expect(parseConditionTag('else')).toEqual({ kind: 'else' });
+    expect(parseConditionTag('/if')).toEqual({ kind: 'endif' });
+  });
+
+  it('returns null for other placeholders', () => {
+    expect(parseConditionTag('ho_ten')).toBeNull();
+    expect(parseConditionTag('#hang_hoa')).toBeNull();
+    expect(parseConditionTag('/hang_hoa')).toBeNull();
+  });
+});
+
+describe('parseCondition', () => {
+  it('rejects malformed conditions', () => {
+    expect(() => parseCondition("loai == 'A")).toThrow();
+    expect(() => parseCondition('(a and b')).toThrow();
+    expect(() => parseCondition('a ==')).toThrow();
+    expect(() => parseCondition('')).toThrow();
+  });
+});
+
+describe('getConditionFieldNames', () => {
+  it('lists referenced fields once, in order', () => {
+    expect(getConditionFieldNames("loai == 'A' and (so_tien > 1000 or not loai)")).toEqual(['loai', 'so_tien']);
+  });
+
+  it('returns [] for malformed conditions', () => {
+    expect(getConditionFieldNames('a and')).toEqual([]);
+  });
+});
+
+describe('evaluateCondition', () => {
+  it('treats empty, "0" and "false" as false', () => {
+    expect(evaluate('x', { x: 'có' })).toBe(true);
+    expect(evaluate('x', { x: '' })).toBe(false);
+    expect(evaluate('x', { x: '0' })).toBe(false);
+    expect(evaluate('x', { x: 'FALSE' })).toBe(false);
+    expect(evaluate('x', {})).toBe(false);
+  });
+
+  it('compares text ignoring case and surrounding spaces', () => {
+    expect(evaluate("loai == 'Mua bán'", { loai: ' MUA BÁN ' })).toBe(true);
+    expect(evaluate("loai = 'Thuê'", { loai: 'thuê' })).toBe(true);
+    expect(evaluate("loai != 'Thuê'", { loai: 'Mua bán' })).toBe(true);
+    expect(evaluate('a == b', { a: 'x', b: 'X' })).toBe(true);
+  });
+
+  it('compares numbers, including Vietnamese grouping', () => {
+    expect(evaluate('so_tien > 1000000', { so_tien: '1.500.000' })).toBe(true);
+    expect(evaluate('so_tien >= 10', { so_tien: '9,5' })).toBe(false);
+    expect(evaluate('so_tien < 10', { so_tien: 'abc' })).toBe(false);
+  });
+
+  it('compares dates', () => {
+    expect(evaluate("ngay_ky >= '01/01/2024'", { ngay_ky: '15/03/2024' })).toBe(true);
+    expect(evaluate("ngay_ky < '2024-01-01'", { ngay_ky: '15/03/2024' })).toBe(false);
+  });
+
+  it('checks list membership with contains', () => {
+    expect(evaluate("dich_vu contains 'Bảo hành'", { dich_vu: 'Lắp đặt; bảo hành' })).toBe(true);
+    expect(evaluate("dich_vu contains 'Bảo'", { dich_vu: 'Lắp đặt; bảo hành' })).toBe(false);
+  });
+
+  it('combines conditions with and / or / not and parentheses', () => {
+    const scope = { a: '1', b: '', c: '1' };
+    expect(evaluate('a and b', scope)).toBe(false);
+    expect(evaluate('a && !b', scope)).toBe(true);
+    expect(evaluate('b or c', scope)).toBe(true);
+    expect(evaluate('not (a || b)', scope)).toBe(false);
+    expect(evaluate('b and c or a', scope)).toBe(true);
+  });
+});
+
+describe('createConditionGetter', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('evaluates the tag value handed over by docxtemplater', () => {
+    expect(createConditionGetter("if loai == 'A'").get({ loai: 'a' })).toBe(true);
+  });
+
+  it('treats malformed conditions as false', () => {
+    expect(createConditionGetter('if a ==').get({ a: '1' })).toBe(false);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
+
+describe('expandConditionOccurrences', () => {
+  it('replaces condition tags with the fields they reference', () => {
+    expect(expandConditionOccurrences([
+      { raw: 'ho_ten', locations: ['body'] },
+      { raw: "#if loai == 'A' and ho_ten", locations: ['header'] },
+      { raw: 'else', locations: ['header'] },
+      { raw: '/if', locations: ['header'] },
+    ])).toEqual([
+      { raw: 'ho_ten', locations: ['body', 'header'], conditional: true },
+      { raw: 'loai', locations: ['header'], conditional: true },
+    ]);
+  });
+});
+
+describe('rendering', () => {
+  const template = [
+    'Bên A: {{ho_ten}}',
+    "{{#if loai == 'Mua bán'}}",
+    'Điều khoản mua bán',
+    '{{else}}',
+    'Điều khoản thuê',
+    '{{/if}}',
+    'Hết',
+  ];
+
+  it('keeps the if branch and drops the tag paragraphs', () => {
+    expect(render(template, { ho_ten: 'An', loai: 'mua bán' })).toEqual(['Bên A: An', 'Điều khoản mua bán', 'Hết']);
+  });
+
+  it('keeps the else branch when the condition is false', () => {
+    expect(render(template, { ho_ten: 'An', loai: 'Thuê' })).toEqual(['Bên A: An', 'Điều khoản thuê', 'Hết']);
+  });
+
+  it('renders inline conditions', () => {
+    expect(render(['Bảo hành: {{#if co_bao_hanh}}có{{else}}không{{/if}}.'], { co_bao_hanh: '' }))
+      .toEqual(['Bảo hành: không.']);
+    expect(render(['{{#if so_tien > 1000}}Lớn{{/if}} {{#if !so_tien}}Trống{{/if}}'], { so_tien: '2.000' }))
+      .toEqual(['Lớn ']);
+  });
+});
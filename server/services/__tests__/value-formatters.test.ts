@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for render-time value formatters (server/utils/value-formatters.ts)
+ *
+ * Tests cover:
+ * - Formatter chain extraction and the legacy checklist syntax {{field|opt1|opt2}}
+ * - Date, number, currency and case formatters
+ * - Vietnamese number-to-words (numberToVietnameseWords)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyFormatters,
+  extractFormatters,
+  formatDateValue,
+  getChecklistModeFormatter,
+  numberToVietnameseWords,
+} from '../../utils/value-formatters';
+
+describe('extractFormatters', () => {
+  it('splits the placeholder and the formatter chain', () => {
+    expect(extractFormatters("so_tien|number:2|currency:'VND'")).toEqual({
+      placeholder: 'so_tien',
+      formatters: [{ name: 'number', arg: '2' }, { name: 'currency', arg: 'VND' }],
+    });
+    expect(extractFormatters("ngay_ky|date:'dd/MM/yyyy'").formatters).toEqual([{ name: 'date', arg: 'dd/MM/yyyy' }]);
+  });
+
+  it('does not split on pipes inside quotes or option brackets', () => {
+    expect(extractFormatters("gioi_tinh['Nam|Nữ']['Khác']|boxes")).toEqual({
+      placeholder: "gioi_tinh['Nam|Nữ']['Khác']",
+      formatters: [{ name: 'boxes' }],
+    });
+  });
+
+  it('keeps legacy checklist options that are not all formatters', () => {
+    expect(extractFormatters('gioi_tinh|Nam|Nữ')).toEqual({ placeholder: 'gioi_tinh|Nam|Nữ', formatters: [] });
+    expect(extractFormatters('x|date|Khác')).toEqual({ placeholder: 'x|date|Khác', formatters: [] });
+  });
+
+  it('matches formatter names in lowercase only', () => {
+    expect(extractFormatters('x|Date|List')).toEqual({ placeholder: 'x|Date|List', formatters: [] });
+    expect(extractFormatters('x|UPPER')).toEqual({ placeholder: 'x|UPPER', formatters: [] });
+    expect(extractFormatters('x|upper').formatters).toEqual([{ name: 'upper' }]);
+  });
+
+  it('leaves placeholders without pipes alone', () => {
+    expect(extractFormatters('ho_ten')).toEqual({ placeholder: 'ho_ten', formatters: [] });
+  });
+});
+
+describe('getChecklistModeFormatter', () => {
+  it('returns the last checklist render mode', () => {
+    expect(getChecklistModeFormatter([{ name: 'boxes' }, { name: 'upper' }, { name: 'list' }])).toBe('list');
+    expect(getChecklistModeFormatter([{ name: 'upper' }])).toBeUndefined();
+  });
+});
+
+describe('formatDateValue', () => {
+  const date = new Date(Date.UTC(2024, 2, 5));
+
+  it('formats date tokens', () => {
+    expect(formatDateValue(date)).toBe('05/03/2024');
+    expect(formatDateValue(date, 'd/M/yy')).toBe('5/3/24');
+    expect(formatDateValue(date, 'yyyy-MM-dd')).toBe('2024-03-05');
+  });
+
+  it('formats the administrative long form', () => {
+    expect(formatDateValue(date, 'long')).toBe('ngày 05 tháng 3 năm 2024');
+    expect(formatDateValue(new Date(Date.UTC(2024, 1, 15)), 'long')).toBe('ngày 15 tháng 02 năm 2024');
+  });
+});
+
+describe('numberToVietnameseWords', () => {
+  it.each([
+    [0, 'không'],
+    [5, 'năm'],
+    [10, 'mười'],
+    [15, 'mười lăm'],
+    [21, 'hai mươi mốt'],
+    [25, 'hai mươi lăm'],
+    [105, 'một trăm linh năm'],
+    [1005, 'một nghìn không trăm linh năm'],
+    [1250000, 'một triệu hai trăm năm mươi nghìn'],
+    [2000000000, 'hai tỷ'],
+    [1000000001, 'một tỷ không trăm linh một'],
+  ])('reads %d', (value, words) => {
+    expect(numberToVietnameseWords(value)).toBe(words);
+  });
+
+  it('reads negatives and decimals', () => {
+    expect(numberToVietnameseWords(-3)).toBe('âm ba');
+    expect(numberToVietnameseWords(1.5)).toBe('một phẩy năm');
+    expect(numberToVietnameseWords(1.05)).toBe('một phẩy không năm');
+  });
+});
+
+describe('applyFormatters', () => {
+  it('formats dates', () => {
+    expect(applyFormatters('2024-03-05', [{ name: 'date' }])).toBe('05/03/2024');
+    expect(applyFormatters('5/3/2024', [{ name: 'date', arg: 'long' }])).toBe('ngày 05 tháng 3 năm 2024');
+  });
+
+  it('formats numbers and currency the Vietnamese way', () => {
+    expect(applyFormatters('1000000', [{ name: 'number' }])).toBe('1.000.000');
+    expect(applyFormatters('1000000', [{ name: 'number', arg: '2' }])).toBe('1.000.000,00');
+    expect(applyFormatters('1.000.000', [{ name: 'currency', arg: 'VND' }])).toMatch(/^1\.000\.000\s₫$/);
+    expect(applyFormatters('1250000', [{ name: 'words', arg: 'vi' }])).toBe('một triệu hai trăm năm mươi nghìn');
+  });
+
+  it('falls back to the number and the code for unknown currencies', () => {
+    expect(applyFormatters('1000', [{ name: 'currency', arg: 'XYZW' }])).toBe('1.000 XYZW');
+  });
+
+  it('changes case', () => {
+    expect(applyFormatters('đặng văn a', [{ name: 'upper' }])).toBe('ĐẶNG VĂN A');
+    expect(applyFormatters('ĐẶNG', [{ name: 'lower' }])).toBe('đặng');
+    expect(applyFormatters('đặng văn a', [{ name: 'capitalize' }])).toBe('Đặng văn a');
+  });
+
+  it('leaves values a formatter cannot read unchanged', () => {
+    expect(applyFormatters('không rõ', [{ name: 'date' }])).toBe('không rõ');
+    expect(applyFormatters('abc', [{ name: 'number' }])).toBe('abc');
+    expect(applyFormatters('', [{ name: 'upper' }])).toBe('');
+    expect(applyFormatters('12', [{ name: 'words', arg: 'en' }])).toBe('12');
+  });
+
+  it('applies the chain in order', () => {
+    expect(applyFormatters('1500', [{ name: 'words' }, { name: 'capitalize' }])).toBe('Một nghìn năm trăm');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Audit Service
+ *
+ * Records who created, changed, downloaded, archived or deleted a document,
+ * template or batch session (audit_events), with before/after values.
+ *
+ * Recording never fails the request it belongs to: errors are only logged.
+ */
+
+import { db } from '@db';
+import { and, desc, eq } from 'drizzle-orm';
+import { auditEvents, type AuditAction, type AuditEntityType, type User } from '@shared/schema';
+
+export interface AuditEventInput {
+  entityType: AuditEntityType;
+  entityUuid: string;
+  action: AuditAction;
+  user?: Pick<User, 'id' | 'username'> | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  await recordAuditEvents([event]);
+}
+
+/**
+ * Record several events in one insert (bulk / ZIP downloads, bulk delete).
+ */
+export async function recordAuditEvents(events: AuditEventInput[]): Promise<void> {
+  if (events.length === 0) return;
+  try {
+    await db.insert(auditEvents).values(events.map(event => ({
+      entityType: event.entityType,
+      entityUuid: event.entityUuid,
+      action: event.action,
+      userId: event.user?.id ?? null,
+      username: event.user?.username ?? null,
+      before: event.before ?? null,
+      after: event.after ?? null,
+    })));
+  } catch (error) {
+    console.error(`[Audit] Failed to record ${events.length} event(s) (${events[0].action} of ${events[0].entityType} ${events[0].entityUuid}):`, error);
+  }
+}
+
+/**
+ * Only the fields whose value changed, as { before, after } maps.
+ * A field missing on one side is recorded as '' on that side.
+ */
+export function diffFieldValues(
+  before: Record<string, string>,
+  after: Record<string, string>
+): { before: Record<string, string>; after: Record<string, string> } | null {
+  const changedBefore: Record<string, string> = {};
+  const changedAfter: Record<string, string> = {};
+  const names = Array.from(new Set(Object.keys(before).concat(Object.keys(after))));
+
+  names.forEach(name => {
+    const oldValue = before[name] ?? '';
+    const newValue = after[name] ?? '';
+    if (oldValue !== newValue) {
+      changedBefore[name] = oldValue;
+      changedAfter[name] = newValue;
+    }
+  });
+
+  return Object.keys(changedAfter).length > 0 ? { before: changedBefore, after: changedAfter } : null;
+}
+
+/**
+ * Audit events of an entity, newest first.
+ */
+export async function getEntityHistory(entityType: AuditEntityType, entityUuid: string) {
+  return await db
+    .select()
+    .from(auditEvents)
+    .where(and(eq(auditEvents.entityType, entityType), eq(auditEvents.entityUuid, entityUuid)))
+    .orderBy(desc(auditEvents.createdAt));
+}
@@ -0,0 +1,376 @@
+/**
+ * Batch jobs (xử lý nền cho nhập liệu hàng loạt, xem shared/batch-jobs.ts).
+ *
+ * - Upload chỉ đọc workbook để báo lỗi cấu trúc, rồi tạo job "import" và trả về ngay
+ * - Các job chạy lần lượt trong process; tiến độ và lỗi từng dòng lưu trong batch_jobs
+ * - Phase parse: ghi dòng theo chunk (BATCH_PARSE_CHUNK_SIZE) cùng transaction với parsedRows,
+ *   nên chạy lại sau restart không ghi trùng dòng
+ * - Phase create: tạo văn bản cho các dòng pending / approved; dòng lỗi chuyển sang 'failed'.
+ *   Văn bản, trạng thái dòng và bộ đếm của job ghi trong một transaction: chạy lại không tạo trùng
+ *   Session có keyField: dòng khớp văn bản có sẵn thì cập nhật văn bản đó ('updated' / 'unchanged')
+ * - Hủy: job dừng trước dòng kế tiếp, các văn bản đã tạo được giữ lại
+ * - Khởi động server: job queued / running được chạy tiếp (resumeBatchJobs)
+ */
+
+import fs from 'fs';
+import { db } from '@db';
+import { batchJobs, batchSessions, templateTables, type BatchJob } from '@shared/schema';
+import {
+  ACTIVE_BATCH_JOB_STATUSES,
+  BATCH_PARSE_CHUNK_SIZE,
+  getBatchJobProgress,
+  type BatchJobKind,
+  type BatchJobRowError,
+} from '@shared/batch-jobs';
+import { and, desc, asc, eq, inArray, sql } from 'drizzle-orm';
+import { storage } from '../storage-uuid';
+import {
+  batchDocumentTableRows,
+  getApprovedDocuments,
+  parseBatchWorkbook,
+  storeBatchRows,
+  updateBatchDocumentStatus,
+} from './batch.service';
+import { createCompleteDocument } from './document-generator';
+import { findDocumentsByKey, updateDocumentFromBatchRow } from './batch-update.service';
+import { getBatchRowKeyValue } from '@shared/batch-update';
+import { collectFieldErrors } from './field-validation.service';
+import { resolveBatchWorkflowStatus } from './document-workflow.service';
+import type { DbTransaction } from './numbering.service';
+
+export class BatchJobError extends Error {
+  constructor(message: string, public statusCode: 404 | 409) {
+    super(message);
+    this.name = "BatchJobError";
+    Object.setPrototypeOf(this, BatchJobError.prototype);
+  }
+}
+
+const jobQueue: string[] = [];
+let draining = false;
+
+/**
+ * Job with its progress in percent, as returned by the API.
+ */
+export function toBatchJobResponse(job: BatchJob) {
+  return { ...job, progress: getBatchJobProgress(job) };
+}
+
+/**
+ * Queue a job for a session. A session has at most one queued or running job: concurrent starts
+ * (double click, retry) are serialized by an advisory lock on the session, the later one gets a 409.
+ */
+export async function startBatchJob(params: {
+  sessionUuid: string;
+  kind: BatchJobKind;
+  totalRows: number;
+  createdBy?: string | null;
+}): Promise<BatchJob> {
+  const job = await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`batch_jobs:${params.sessionUuid}`}))`);
+    if (await getActiveBatchJob(params.sessionUuid, tx)) {
+      throw new BatchJobError('A batch job is already running for this session', 409);
+    }
+
+    const [job] = await tx.insert(batchJobs).values({
+      sessionUuid: params.sessionUuid,
+      kind: params.kind,
+      phase: params.kind === 'import' ? 'parse' : 'create',
+      totalRows: params.totalRows,
+      createdBy: params.createdBy,
+    }).returning();
+    return job;
+  });
+
+  console.log(`[BatchJob] Queued ${job.kind} job ${job.id} for session ${job.sessionUuid}`);
+  enqueueBatchJob(job.id);
+  return job;
+}
+
+export async function getLatestBatchJob(sessionUuid: string): Promise<BatchJob | null> {
+  const [job] = await db.select().from(batchJobs)
+    .where(eq(batchJobs.sessionUuid, sessionUuid))
+    .orderBy(desc(batchJobs.createdAt))
+    .limit(1);
+  return job ?? null;
+}
+
+async function getActiveBatchJob(sessionUuid: string, tx?: DbTransaction): Promise<BatchJob | null> {
+  const [job] = await (tx ?? db).select().from(batchJobs)
+    .where(and(eq(batchJobs.sessionUuid, sessionUuid), inArray(batchJobs.status, [...ACTIVE_BATCH_JOB_STATUSES])))
+    .limit(1);
+  return job ?? null;
+}
+
+/**
+ * Cancel the queued or running job of a session. The running job stops before its next row.
+ */
+export async function cancelBatchJob(sessionUuid: string): Promise<BatchJob> {
+  const [job] = await db.update(batchJobs)
+    .set({ status: 'cancelled', finishedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(batchJobs.sessionUuid, sessionUuid), inArray(batchJobs.status, [...ACTIVE_BATCH_JOB_STATUSES])))
+    .returning();
+  if (!job) {
+    throw new BatchJobError('No running batch job for this session', 404);
+  }
+
+  console.log(`[BatchJob] Cancelled job ${job.id}`);
+  return job;
+}
+
+/**
+ * Queue the jobs that were queued or running when the server stopped. Run on startup.
+ */
+export async function resumeBatchJobs(): Promise<void> {
+  const jobs = await db.select({ id: batchJobs.id }).from(batchJobs)
+    .where(inArray(batchJobs.status, [...ACTIVE_BATCH_JOB_STATUSES]))
+    .orderBy(asc(batchJobs.createdAt));
+  if (jobs.length > 0) {
+    console.log(`[BatchJob] Resuming ${jobs.length} job(s)`);
+    jobs.forEach(job => enqueueBatchJob(job.id));
+  }
+}
+
+function enqueueBatchJob(jobId: string) {
+  if (!jobQueue.includes(jobId)) jobQueue.push(jobId);
+  void drainBatchJobs();
+}
+
+async function drainBatchJobs() {
+  if (draining) return;
+  draining = true;
+  try {
+    while (jobQueue.length > 0) {
+      await runBatchJob(jobQueue.shift()!);
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+/** False once the job was cancelled (or finished elsewhere) */
+async function isBatchJobRunning(jobId: string): Promise<boolean> {
+  const [job] = await db.select({ status: batchJobs.status }).from(batchJobs).where(eq(batchJobs.id, jobId));
+  return job?.status === 'running';
+}
+
+async function runBatchJob(jobId: string) {
+  const [job] = await db.update(batchJobs)
+    .set({ status: 'running', startedAt: sql`coalesce(${batchJobs.startedAt}, now())`, updatedAt: new Date() })
+    .where(and(eq(batchJobs.id, jobId), inArray(batchJobs.status, [...ACTIVE_BATCH_JOB_STATUSES])))
+    .returning();
+  if (!job) return;
+
+  console.log(`[BatchJob] Running ${job.kind} job ${job.id} (${job.phase})`);
+  try {
+    if (job.phase === 'parse' && !(await runParsePhase(job))) return;
+    if (!(await runCreatePhase(job))) return;
+
+    const [finished] = await db.update(batchJobs)
+      .set({ status: 'completed', finishedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(batchJobs.id, job.id), eq(batchJobs.status, 'running')))
+      .returning();
+    if (finished) {
+      console.log(`[BatchJob] Completed job ${job.id}: ${finished.createdRows} created, ${finished.updatedRows} updated, ${finished.unchangedRows} unchanged, ${finished.failedRows} failed`);
+    }
+  } catch (error) {
+    console.error(`[BatchJob] Job ${job.id} failed:`, error);
+    await db.update(batchJobs)
+      .set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        finishedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(batchJobs.id, job.id), eq(batchJobs.status, 'running')));
+  }
+}
+
+/**
+ * Store the workbook rows as batch documents, from the first row not stored yet. Rows that failed
+ * validation are stored as failed with their errors. Returns false when the job was cancelled.
+ */
+async function runParsePhase(job: BatchJob): Promise<boolean> {
+  const session = await db.query.batchSessions.findFirst({ where: eq(batchSessions.uuid, job.sessionUuid) });
+  if (!session) throw new Error('Batch session not found');
+
+  const templateFields = await storage.getTemplateFields(session.templateUuid);
+  const tables = await db.select().from(templateTables).where(eq(templateTables.templateUuid, session.templateUuid));
+  const { rows } = parseBatchWorkbook(
+    await fs.promises.readFile(session.filePath), templateFields, tables, session.columnMapping
+  );
+
+  for (let start = job.parsedRows; start < rows.length; start += BATCH_PARSE_CHUNK_SIZE) {
+    if (!(await isBatchJobRunning(job.id))) return false;
+
+    const chunk = rows.slice(start, start + BATCH_PARSE_CHUNK_SIZE);
+    await db.transaction(async (tx) => {
+      const docUuidByRow = await storeBatchRows(session.uuid, chunk, tx);
+
+      // Invalid rows are stored as failed: they are processed already
+      const rowErrors: BatchJobRowError[] = chunk
+        .filter(row => Object.keys(row.fieldErrors).length > 0)
+        .map(row => ({
+          batchDocumentUuid: docUuidByRow.get(row.rowIndex.toString()),
+          rowIndex: row.rowIndex,
+          documentName: row.documentName,
+          error: 'Invalid field values',
+          fieldErrors: row.fieldErrors,
+        }));
+      await tx.update(batchJobs)
+        .set({
+          parsedRows: start + chunk.length,
+          ...(rowErrors.length > 0 && {
+            processedRows: sql`${batchJobs.processedRows} + ${rowErrors.length}`,
+            failedRows: sql`${batchJobs.failedRows} + ${rowErrors.length}`,
+            rowErrors: sql`${batchJobs.rowErrors} || ${JSON.stringify(rowErrors)}::jsonb`,
+          }),
+          updatedAt: new Date(),
+        })
+        .where(eq(batchJobs.id, job.id));
+    });
+  }
+
+  await db.update(batchSessions)
+    .set({ status: 'processed', processedRows: rows.length.toString(), updatedAt: new Date() })
+    .where(eq(batchSessions.uuid, session.uuid));
+  await db.update(batchJobs)
+    .set({ phase: 'create', totalRows: rows.length, parsedRows: rows.length, updatedAt: new Date() })
+    .where(eq(batchJobs.id, job.id));
+
+  // Every row is in the database now
+  await fs.promises.unlink(session.filePath).catch(() => {});
+  return true;
+}
+
+/**
+ * Create the documents of the pending / approved rows; with a key field, rows matching an existing
+ * document update it instead. Invalid rows are marked failed and reported in rowErrors.
+ * Returns false when the job was cancelled.
+ */
+async function runCreatePhase(job: BatchJob): Promise<boolean> {
+  const session = await db.query.batchSessions.findFirst({ where: eq(batchSessions.uuid, job.sessionUuid) });
+  if (!session) throw new Error('Batch session not found');
+
+  const template = await storage.getTemplateByUuid(session.templateUuid);
+  if (!template) throw new Error('Template not found');
+
+  // Typed field constraints are checked per row; invalid rows are reported, not created
+  const templateFieldDefs = await storage.getTemplateFields(template.uuid);
+  const user = job.createdBy ? await storage.getUser(job.createdBy) : undefined;
+  const workflowStatusFor = await resolveBatchWorkflowStatus(user, template.uuid);
+
+  for (const batchDoc of await getApprovedDocuments(session.uuid)) {
+    if (!(await isBatchJobRunning(job.id))) return false;
+
+    const rowIndex = Number(batchDoc.rowIndex);
+    try {
+      const fields = batchDoc.fields.map(f => ({ fieldName: f.fieldName, fieldValue: f.fieldValue || '' }));
+      const fieldValues: Record<string, string> = {};
+      fields.forEach(field => {
+        fieldValues[field.fieldName] = field.fieldValue;
+      });
+
+      const fieldErrors = collectFieldErrors(templateFieldDefs, fieldValues);
+      if (Object.keys(fieldErrors).length > 0) {
+        await recordFailedBatchRow(job.id, {
+          batchDocumentUuid: batchDoc.uuid,
+          rowIndex,
+          documentName: batchDoc.name,
+          error: 'Invalid field values',
+          fieldErrors,
+        });
+        continue;
+      }
+
+      // The key is looked up per row: documents created by earlier rows of the job count too
+      const keyValue = session.keyField ? getBatchRowKeyValue(fields, session.keyField) : '';
+      const matches = keyValue
+        ? (await findDocumentsByKey(template.uuid, session.keyField!, [keyValue])).get(keyValue) ?? []
+        : [];
+      if (matches.length > 1) {
+        throw new Error(`Key value "${keyValue}" matches ${matches.length} documents`);
+      }
+
+      if (matches.length === 1) {
+        const result = await updateDocumentFromBatchRow({
+          documentUuid: matches[0],
+          row: { documentName: batchDoc.name, fields, tableData: batchDocumentTableRows(batchDoc) },
+          user,
+          // Recorded in the update's transaction: a resumed job does not count the row twice
+          onSaved: async (tx, changed) => {
+            const outcome = changed ? 'updated' : 'unchanged';
+            await updateBatchDocumentStatus(batchDoc.uuid, outcome, { documentUuid: matches[0] }, tx);
+            await recordBatchJobRow(job.id, outcome, tx);
+          },
+        });
+        if (result.fieldErrors) {
+          await recordFailedBatchRow(job.id, {
+            batchDocumentUuid: batchDoc.uuid,
+            rowIndex,
+            documentName: batchDoc.name,
+            error: 'Invalid field values',
+            fieldErrors: result.fieldErrors,
+          }, matches[0]);
+        }
+        continue;
+      }
+
+      await createCompleteDocument({
+        templateUuid: template.uuid,
+        templateFilePath: template.filePath,
+        documentName: batchDoc.name,
+        fieldValues,
+        fields,
+        storage,
+        user,
+        workflowStatus: workflowStatusFor(batchDoc.status),
+        tableData: batchDocumentTableRows(batchDoc),
+        // Linked and counted in the document's transaction: a resumed job never creates the row twice
+        onCreated: async (tx, document) => {
+          await updateBatchDocumentStatus(batchDoc.uuid, 'created', { documentUuid: document.uuid }, tx);
+          await recordBatchJobRow(job.id, 'created', tx);
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[BatchJob] Row ${rowIndex} (${batchDoc.name}) failed:`, message);
+      await recordFailedBatchRow(job.id, { batchDocumentUuid: batchDoc.uuid, rowIndex, documentName: batchDoc.name, error: message });
+    }
+  }
+
+  return true;
+}
+
+type BatchJobRowOutcome = 'created' | 'updated' | 'unchanged';
+
+const ROW_OUTCOME_COUNTERS: Record<BatchJobRowOutcome, 'createdRows' | 'updatedRows' | 'unchangedRows'> = {
+  created: 'createdRows',
+  updated: 'updatedRows',
+  unchanged: 'unchangedRows',
+};
+
+/** Mark a row failed and count it with its error, in one transaction */
+async function recordFailedBatchRow(jobId: string, rowError: BatchJobRowError & { batchDocumentUuid: string }, documentUuid?: string) {
+  await db.transaction(async (tx) => {
+    await updateBatchDocumentStatus(rowError.batchDocumentUuid, 'failed', { documentUuid, errorMessage: rowError.error }, tx);
+    await recordBatchJobRow(jobId, rowError, tx);
+  });
+}
+
+/** Count a processed row: created, updated, unchanged, or failed with its error */
+async function recordBatchJobRow(jobId: string, outcome: BatchJobRowOutcome | BatchJobRowError, tx?: DbTransaction) {
+  const counter = typeof outcome === 'string' ? ROW_OUTCOME_COUNTERS[outcome] : null;
+  await (tx ?? db).update(batchJobs)
+    .set({
+      processedRows: sql`${batchJobs.processedRows} + 1`,
+      ...(counter
+        ? { [counter]: sql`${batchJobs[counter]} + 1` }
+        : {
+            failedRows: sql`${batchJobs.failedRows} + 1`,
+            rowErrors: sql`${batchJobs.rowErrors} || ${JSON.stringify([outcome])}::jsonb`,
+          }),
+      updatedAt: new Date(),
+    })
+    .where(eq(batchJobs.id, jobId));
+}
@@ -0,0 +1,89 @@
+/**
+ * Mapping cột Excel → field cho batch upload (shared/batch-mapping.ts).
+ *
+ * - Preview: gợi ý field cho từng cột của sheet đầu (bỏ cột tên văn bản, DOCUMENT_KEY, ERRORS)
+ * - Preset: mapping đã lưu theo template và tên (batch_mapping_presets), lưu trùng tên thì ghi đè
+ * - Preset không bị xóa khi field của template thay đổi; field không còn trong template bị bỏ qua khi dùng lại
+ */
+
+import * as XLSX from 'xlsx';
+import { db } from '@db';
+import { batchMappingPresets, type BatchMappingPreset } from '@shared/schema';
+import {
+  isBatchMappableField,
+  suggestBatchColumnMapping,
+  type BatchColumnMapping,
+  type BatchMappingPreview,
+} from '@shared/batch-mapping';
+import { and, asc, eq } from 'drizzle-orm';
+import { isDocumentKeyHeader } from './batch-workbook.service';
+import { BATCH_REPORT_ERRORS_COLUMN } from './batch-validation.service';
+
+/** Sample values shown per column in the mapping step */
+const MAPPING_SAMPLE_ROWS = 3;
+
+/**
+ * Columns of the first sheet with their suggested field and first values.
+ */
+export function getBatchMappingPreview(
+  excelBuffer: Buffer,
+  templateFields: Array<{ name: string; fieldType: string; required: boolean; defaultValue: string | null; expression?: string | null; numberingSequenceId?: string | null }>
+): BatchMappingPreview {
+  const workbook = XLSX.read(excelBuffer, { type: 'buffer' });
+  const rawData = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { header: 1, defval: '' }) as unknown[][];
+  const headers = (rawData[0] ?? []).map(header => String(header ?? '').trim());
+  const dataRows = rawData.slice(1).filter(row => row.some(cell => String(cell ?? '').trim() !== ''));
+
+  const fields = templateFields.filter(isBatchMappableField);
+  const suggestions = suggestBatchColumnMapping(
+    headers.map((header, index) => index === 0 || isDocumentKeyHeader(header) || header === BATCH_REPORT_ERRORS_COLUMN ? '' : header),
+    fields.map(field => field.name)
+  );
+
+  return {
+    columns: suggestions
+      .map((suggestion, index) => ({
+        ...suggestion,
+        samples: dataRows.map(row => String(row[index] ?? '').trim()).filter(Boolean).slice(0, MAPPING_SAMPLE_ROWS),
+      }))
+      .filter(column => column.header !== ''),
+    fields: fields.map(field => ({
+      name: field.name,
+      fieldType: field.fieldType,
+      required: field.required,
+      defaultValue: field.defaultValue,
+    })),
+  };
+}
+
+export async function getBatchMappingPresets(templateUuid: string): Promise<BatchMappingPreset[]> {
+  return db.select().from(batchMappingPresets)
+    .where(eq(batchMappingPresets.templateUuid, templateUuid))
+    .orderBy(asc(batchMappingPresets.name));
+}
+
+/**
+ * Save a preset of the template; a preset with the same name is replaced.
+ */
+export async function saveBatchMappingPreset(data: {
+  templateUuid: string;
+  name: string;
+  mapping: BatchColumnMapping;
+  createdBy?: string | null;
+}): Promise<BatchMappingPreset> {
+  const [preset] = await db.insert(batchMappingPresets)
+    .values(data)
+    .onConflictDoUpdate({
+      target: [batchMappingPresets.templateUuid, batchMappingPresets.name],
+      set: { mapping: data.mapping, updatedAt: new Date() },
+    })
+    .returning();
+  return preset;
+}
+
+export async function deleteBatchMappingPreset(templateUuid: string, id: string): Promise<boolean> {
+  const deleted = await db.delete(batchMappingPresets)
+    .where(and(eq(batchMappingPresets.id, id), eq(batchMappingPresets.templateUuid, templateUuid)))
+    .returning({ id: batchMappingPresets.id });
+  return deleted.length > 0;
+}
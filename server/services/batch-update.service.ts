@@ -0,0 +1,252 @@
+/**
+ * Cập nhật văn bản có sẵn từ batch theo field khóa (shared/batch-update.ts).
+ *
+ * - Khóa: giá trị của keyField trong dòng, so với field cùng tên của văn bản chưa lưu trữ cùng template
+ * - Dòng khớp một văn bản: cập nhật văn bản đó; khớp nhiều văn bản hoặc văn bản đã khóa (workflow): dòng lỗi
+ * - Ô trống giữ giá trị cũ; bảng có trong sheet phụ thay toàn bộ dòng của bảng đó
+ * - Cập nhật như sửa form: computed fields, số văn bản giữ nguyên, validation, revision và audit
+ * - Không có thay đổi: dòng 'unchanged', không tạo revision
+ */
+
+import { db } from '@db';
+import { documents, documentFields, documentTableData, templateTables, type User } from '@shared/schema';
+import {
+  getBatchRowKeyValue,
+  type BatchRowAction,
+  type BatchUpdatePreview,
+  type BatchUpdatePreviewRow,
+} from '@shared/batch-update';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { storage } from '../storage-uuid';
+import { chunkArray, buildDocumentDataMaps } from './document-data.service';
+import { computeTemplateFieldValues, toComputedTableRows } from './computed-fields.service';
+import { validateTemplateFieldValues } from './field-validation.service';
+import { getDocumentNumbers, type DbTransaction } from './numbering.service';
+import { diffFieldValues, recordAuditEvent } from './audit.service';
+import { createDocumentRevision, ensureBaselineRevision } from './document-revision.service';
+import { documentGeneratorCache } from './document-generator-cache.service';
+import { isDocumentLocked, lockedDocumentMessage } from './document-workflow.service';
+import { formatBatchRowErrors } from './batch-validation.service';
+import type { ParsedBatchRow } from './batch.service';
+
+/** Values of a batch row used to update a document */
+export interface BatchRowContent {
+  documentName: string;
+  fields: Array<{ fieldName: string; fieldValue: string }>;
+  /** Table rows / block instances by table name, from the extra sheets */
+  tableData: Record<string, Array<Record<string, string>>>;
+}
+
+/**
+ * Not archived documents of the template by key value (trimmed value of `keyField`).
+ * A key value with more than one document is ambiguous; callers report it.
+ */
+export async function findDocumentsByKey(
+  templateUuid: string,
+  keyField: string,
+  keyValues: string[]
+): Promise<Map<string, string[]>> {
+  const documentsByKey = new Map<string, string[]>();
+  const keyValue = sql<string>`trim(${documentFields.fieldValue})`;
+
+  for (const chunk of chunkArray(Array.from(new Set(keyValues.filter(Boolean))), 500)) {
+    const rows = await db.select({ documentUuid: documentFields.documentUuid, keyValue })
+      .from(documentFields)
+      .innerJoin(documents, eq(documents.uuid, documentFields.documentUuid))
+      .where(and(
+        eq(documents.templateUuid, templateUuid),
+        eq(documents.archived, false),
+        eq(documentFields.fieldName, keyField),
+        inArray(keyValue, chunk)
+      ));
+    rows.forEach(row => {
+      documentsByKey.set(row.keyValue, [...(documentsByKey.get(row.keyValue) ?? []), row.documentUuid]);
+    });
+  }
+  return documentsByKey;
+}
+
+/**
+ * What a row changes in a stored document: field names, table names and "name".
+ * Computed fields are left out; they follow the fields they are computed from.
+ */
+function diffBatchRow(
+  document: {
+    name: string;
+    fields: Array<{ fieldName: string; fieldValue: string }>;
+    tableData: Array<{ tableName: string; rows: unknown }>;
+  },
+  row: BatchRowContent
+): string[] {
+  const currentValues = new Map(document.fields.map(field => [field.fieldName, field.fieldValue]));
+  const changes = row.fields
+    .filter(field => (currentValues.get(field.fieldName) ?? '') !== field.fieldValue)
+    .map(field => field.fieldName);
+
+  Object.entries(row.tableData).forEach(([tableName, rows]) => {
+    const storedRows = document.tableData.find(table => table.tableName === tableName)?.rows ?? [];
+    if (JSON.stringify(storedRows) !== JSON.stringify(rows)) changes.push(tableName);
+  });
+  if (row.documentName !== document.name) changes.unshift('name');
+  return changes;
+}
+
+/**
+ * Preview of a keyed batch upload: which rows create, update or leave a document unchanged.
+ * Nothing is written.
+ */
+export async function planBatchUpdate(
+  templateUuid: string,
+  keyField: string,
+  rows: ParsedBatchRow[]
+): Promise<BatchUpdatePreview> {
+  const keyValues = rows.map(row => getBatchRowKeyValue(row.fields, keyField));
+  const documentsByKey = await findDocumentsByKey(templateUuid, keyField, keyValues);
+
+  const matchedUuids = Array.from(new Set(
+    keyValues.flatMap(keyValue => documentsByKey.get(keyValue)?.length === 1 ? documentsByKey.get(keyValue)! : [])
+  ));
+  const matchedDocuments = new Map((await loadDocumentsWithData(matchedUuids)).map(document => [document.uuid, document]));
+
+  const previewRows = rows.map((row, index): BatchUpdatePreviewRow => {
+    const base = { rowIndex: row.rowIndex, documentName: row.documentName, keyValue: keyValues[index] };
+    if (Object.keys(row.fieldErrors).length > 0) {
+      return { ...base, action: 'invalid', error: formatBatchRowErrors(row.fieldErrors) };
+    }
+
+    const matches = documentsByKey.get(keyValues[index]) ?? [];
+    if (matches.length === 0) return { ...base, action: 'create' };
+    if (matches.length > 1) {
+      return { ...base, action: 'invalid', error: `Key value matches ${matches.length} documents` };
+    }
+
+    const document = matchedDocuments.get(matches[0]);
+    if (!document) return { ...base, action: 'create' };
+    if (isDocumentLocked(document)) {
+      return { ...base, action: 'invalid', documentUuid: document.uuid, error: lockedDocumentMessage(document.workflowStatus) };
+    }
+
+    const changes = diffBatchRow(document, row);
+    return { ...base, action: changes.length > 0 ? 'update' : 'unchanged', documentUuid: document.uuid, changes };
+  });
+
+  const counts: Record<BatchRowAction, number> = { create: 0, update: 0, unchanged: 0, invalid: 0 };
+  previewRows.forEach(row => {
+    counts[row.action]++;
+  });
+  return { keyField, counts, rows: previewRows };
+}
+
+async function loadDocumentsWithData(documentUuids: string[]) {
+  const chunks = await Promise.all(chunkArray(documentUuids, 500).map(chunk => db.query.documents.findMany({
+    where: inArray(documents.uuid, chunk),
+    with: { fields: true, tableData: true },
+  })));
+  return chunks.flat();
+}
+
+/**
+ * Update a document with the values of a batch row. Returns whether anything changed, or the
+ * field errors (nothing is written then). Locked documents are rejected with an error.
+ * The document, its fields and tables are written in one transaction, together with `onSaved`.
+ */
+export async function updateDocumentFromBatchRow(params: {
+  documentUuid: string;
+  row: BatchRowContent;
+  user?: Pick<User, 'id' | 'username'> | null;
+  /** Extra writes committed with the update, or alone when nothing changed (batch jobs record the row) */
+  onSaved?: (tx: DbTransaction, changed: boolean) => Promise<void>;
+}): Promise<{ changed: boolean; fieldErrors?: Record<string, string> }> {
+  const { documentUuid, row, user, onSaved } = params;
+
+  const document = await storage.getDocumentByUuid(documentUuid);
+  if (!document) throw new Error('Document not found');
+  if (isDocumentLocked(document)) throw new Error(lockedDocumentMessage(document.workflowStatus));
+
+  const [storedRows, templateTablesRows] = await Promise.all([
+    db.select().from(documentTableData).where(eq(documentTableData.documentUuid, documentUuid)),
+    db.select().from(templateTables).where(eq(templateTables.templateUuid, document.templateUuid)),
+  ]);
+  const storedData = buildDocumentDataMaps(templateTablesRows, storedRows);
+
+  // Empty cells are not in row.fields: the stored values are kept
+  const currentValues = Object.fromEntries((document.fields || []).map(f => [f.fieldName, f.fieldValue]));
+  const computedValues = await computeTemplateFieldValues(
+    document.templateUuid,
+    { ...currentValues, ...Object.fromEntries(row.fields.map(f => [f.fieldName, f.fieldValue])) },
+    { ...toComputedTableRows(storedData.tableDataMap, storedData.blockDataMap), ...row.tableData }
+  );
+  // Allocated document numbers cannot be overwritten
+  Object.assign(computedValues, await getDocumentNumbers(documentUuid));
+
+  const fieldErrors = await validateTemplateFieldValues(document.templateUuid, computedValues);
+  if (Object.keys(fieldErrors).length > 0) {
+    return { changed: false, fieldErrors };
+  }
+
+  const fieldDiff = diffFieldValues(currentValues, computedValues);
+  const changeBefore: Record<string, unknown> = {};
+  const changeAfter: Record<string, unknown> = {};
+  if (row.documentName !== document.name) {
+    changeBefore.name = document.name;
+    changeAfter.name = row.documentName;
+  }
+  const changedTables = Object.keys(row.tableData).filter(tableName => {
+    const previousRows = storedRows.find(r => r.tableName === tableName)?.rows ?? [];
+    if (JSON.stringify(previousRows) === JSON.stringify(row.tableData[tableName])) return false;
+    changeBefore[tableName] = previousRows;
+    changeAfter[tableName] = row.tableData[tableName];
+    return true;
+  });
+  if (!fieldDiff && Object.keys(changeAfter).length === 0) {
+    if (onSaved) await db.transaction(tx => onSaved(tx, false));
+    return { changed: false };
+  }
+
+  await ensureBaselineRevision(documentUuid);
+  await db.transaction(async (tx) => {
+    await storage.updateDocumentByUuid(documentUuid, {
+      ...(row.documentName !== document.name && { name: row.documentName }),
+      updatedBy: user?.id,
+    }, tx);
+    if (fieldDiff) {
+      await storage.replaceDocumentFields(
+        documentUuid,
+        Object.entries(computedValues).map(([fieldName, fieldValue]) => ({ fieldName, fieldValue })),
+        tx
+      );
+    }
+    for (const tableName of changedTables) {
+      await tx.insert(documentTableData)
+        .values({ documentUuid, tableName, rows: row.tableData[tableName] })
+        .onConflictDoUpdate({
+          target: [documentTableData.documentUuid, documentTableData.tableName],
+          set: { rows: row.tableData[tableName] },
+        });
+    }
+    await onSaved?.(tx, true);
+  });
+  documentGeneratorCache.invalidate(documentUuid);
+  await createDocumentRevision(documentUuid, { createdBy: user?.id });
+
+  if (Object.keys(changeAfter).length > 0) {
+    await recordAuditEvent({
+      entityType: 'document',
+      entityUuid: documentUuid,
+      action: 'update',
+      user,
+      before: changeBefore,
+      after: changeAfter,
+    });
+  }
+  if (fieldDiff) {
+    await recordAuditEvent({
+      entityType: 'document',
+      entityUuid: documentUuid,
+      action: 'field_change',
+      user,
+      ...fieldDiff,
+    });
+  }
+  return { changed: true };
+}
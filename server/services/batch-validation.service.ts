@@ -0,0 +1,197 @@
+/**
+ * Kiểm tra dữ liệu batch Excel trước khi duyệt.
+ *
+ * - Mỗi dòng: field bắt buộc, lựa chọn checklist, kiểu dữ liệu (shared/field-validation.ts),
+ *   tên văn bản trùng trong file, giá trị khóa trùng trong file (batch cập nhật theo khóa)
+ * - Cột không khớp field nào (và không bị bỏ qua trong mapping) được báo ở tiêu đề cột (không làm dòng lỗi)
+ * - Dòng lỗi được lưu với status 'failed' và batchDocuments.errorMessage, không tạo văn bản
+ * - Báo cáo: bản sao workbook đã upload, có comment ở từng ô lỗi và cột ERRORS cuối sheet đầu
+ *   (bản xlsx community không ghi được màu nền, comment hiện dấu đỏ ở góc ô)
+ */
+
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { splitChecklistValue } from '@shared/checklist';
+import { validateFieldValue, type FieldValidation } from '@shared/field-validation';
+
+/** Column of the document name in the first sheet */
+export const BATCH_DOCUMENT_NAME_COLUMN = 'Document Name';
+
+/** Column appended to the first sheet of the validation report */
+export const BATCH_REPORT_ERRORS_COLUMN = 'ERRORS';
+
+const REPORT_COMMENT_AUTHOR = 'DocCompile';
+
+/** Template field shape needed to validate a batch row (templateFields rows satisfy it) */
+export interface BatchValidatableField {
+  name: string;
+  fieldType: string;
+  required?: boolean | null;
+  options?: string | null;
+  defaultValue?: string | null;
+  expression?: string | null;
+  numberingSequenceId?: string | null;
+  validation?: FieldValidation | null;
+}
+
+/** Where the first sheet starts and which template field each column holds */
+export interface BatchSheetLayout {
+  headers: string[];
+  /** Template field name of each column; null for the name, key and unknown columns */
+  columnFields: Array<string | null>;
+  /** 0-based sheet row and column of the header cell of column 0 */
+  origin: { r: number; c: number };
+}
+
+export interface BatchRowToValidate {
+  /** 0-based index of the row below the header row */
+  sheetOffset: number;
+  documentName: string;
+  fields: { fieldName: string; fieldValue: string }[];
+}
+
+/**
+ * Errors of one row by template field name (or BATCH_DOCUMENT_NAME_COLUMN).
+ * Rows are validated together because document names (and values of the key field) must be
+ * unique in the file.
+ */
+export function validateBatchRows(
+  rows: BatchRowToValidate[],
+  templateFields: BatchValidatableField[],
+  keyField?: string | null
+): Array<Record<string, string>> {
+  // Filled during generation, by the numbering sequence, or uploaded per document
+  const checkedFields = templateFields.filter(field =>
+    field.fieldType !== 'row_group' && field.fieldType !== 'image' && !field.expression && !field.numberingSequenceId
+  );
+  const firstRowByName = new Map<string, number>();
+  const firstRowByKey = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const errors: Record<string, string> = {};
+
+    const nameKey = row.documentName.trim().toLowerCase();
+    const firstRow = firstRowByName.get(nameKey);
+    if (firstRow !== undefined) {
+      errors[BATCH_DOCUMENT_NAME_COLUMN] = `Duplicate document name (same as row ${firstRow + 1})`;
+    } else {
+      firstRowByName.set(nameKey, index);
+    }
+
+    const values = new Map(row.fields.map(field => [field.fieldName, field.fieldValue.trim()]));
+    const keyValue = keyField ? values.get(keyField) ?? '' : '';
+    if (keyField && keyValue !== '') {
+      const firstKeyRow = firstRowByKey.get(keyValue);
+      if (firstKeyRow !== undefined) {
+        errors[keyField] = `Duplicate key value (same as row ${firstKeyRow + 1})`;
+      } else {
+        firstRowByKey.set(keyValue, index);
+      }
+    }
+
+    for (const field of checkedFields) {
+      const value = values.get(field.name) ?? '';
+      if (value === '') {
+        if (field.required && !field.defaultValue) errors[field.name] = 'Required';
+        continue;
+      }
+
+      if (field.fieldType === 'checklist') {
+        const options = parseChecklistOptions(field.options);
+        const unknown = splitChecklistValue(value).filter(option => !options.includes(option));
+        if (options.length > 0 && unknown.length > 0) {
+          errors[field.name] = `Unknown option(s): ${unknown.join(', ')}. Allowed: ${options.join(', ')}`;
+        }
+        continue;
+      }
+
+      const message = validateFieldValue(field, value);
+      if (message) errors[field.name] = message;
+    }
+
+    return errors;
+  });
+}
+
+function parseChecklistOptions(options: string | null | undefined): string[] {
+  try {
+    const parsed = options ? JSON.parse(options) : [];
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Headers of the first sheet that are not a template field (nor the name column, nor the ERRORS
+ * column of a report uploaded again, nor an ignored column: key, skipped in the mapping).
+ */
+export function getUnknownBatchColumns(layout: BatchSheetLayout, isIgnoredColumn: (header: string) => boolean): string[] {
+  return layout.headers.filter((header, index) =>
+    index > 0 && !!header && String(header).trim() !== '' && layout.columnFields[index] === null &&
+    !isIgnoredColumn(header) && header !== BATCH_REPORT_ERRORS_COLUMN
+  ).map(String);
+}
+
+/** "field: message; field: message" stored in batchDocuments.errorMessage */
+export function formatBatchRowErrors(errors: Record<string, string>): string {
+  return Object.entries(errors).map(([field, message]) => `${field}: ${message}`).join('; ');
+}
+
+/** Validation report of a session, next to the uploaded files */
+export function getBatchReportPath(sessionUuid: string): string {
+  return path.join('storage/temp', `batch-report-${sessionUuid}.xlsx`);
+}
+
+function addCellComment(ws: XLSX.WorkSheet, r: number, c: number, text: string) {
+  const address = XLSX.utils.encode_cell({ r, c });
+  const cell: XLSX.CellObject = ws[address] ?? (ws[address] = { t: 's', v: '' });
+  const comments = Object.assign(cell.c ?? [], { hidden: true });
+  comments.push({ a: REPORT_COMMENT_AUTHOR, t: text });
+  cell.c = comments;
+}
+
+/**
+ * Copy of the uploaded workbook with a comment on every invalid cell, a comment on unknown
+ * column headers and an ERRORS column summing up each invalid row of the first sheet.
+ */
+export function buildBatchValidationReport(
+  excelBuffer: Buffer,
+  layout: BatchSheetLayout,
+  rows: Array<{ sheetOffset: number; fieldErrors: Record<string, string> }>,
+  unknownColumns: string[]
+): Buffer {
+  const workbook = XLSX.read(excelBuffer, { type: 'buffer' });
+  const ws = workbook.Sheets[workbook.SheetNames[0]];
+  const range = XLSX.utils.decode_range(ws['!ref'] ?? 'A1');
+  const { r: headerRow, c: firstColumn } = layout.origin;
+  const errorsColumn = range.e.c + 1;
+
+  ws[XLSX.utils.encode_cell({ r: headerRow, c: errorsColumn })] = { t: 's', v: BATCH_REPORT_ERRORS_COLUMN };
+
+  layout.headers.forEach((header, index) => {
+    if (unknownColumns.includes(String(header))) {
+      addCellComment(ws, headerRow, firstColumn + index, 'Not a field of the template');
+    }
+  });
+
+  rows.forEach(row => {
+    const entries = Object.entries(row.fieldErrors);
+    if (entries.length === 0) return;
+
+    const sheetRow = headerRow + 1 + row.sheetOffset;
+    entries.forEach(([fieldName, message]) => {
+      const index = fieldName === BATCH_DOCUMENT_NAME_COLUMN ? 0 : layout.columnFields.indexOf(fieldName);
+      // A required field without a column only shows in the ERRORS column
+      if (index !== -1) addCellComment(ws, sheetRow, firstColumn + index, message);
+    });
+    ws[XLSX.utils.encode_cell({ r: sheetRow, c: errorsColumn })] = { t: 's', v: formatBatchRowErrors(row.fieldErrors) };
+  });
+
+  range.e.c = errorsColumn;
+  ws['!ref'] = XLSX.utils.encode_range(range);
+  ws['!cols'] = [...(ws['!cols'] ?? [])];
+  ws['!cols'][errorsColumn] = { wch: 60 };
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
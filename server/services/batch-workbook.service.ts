@@ -0,0 +1,193 @@
+/**
+ * Multi-sheet batch workbook (nhập liệu hàng loạt có bảng / chorus block).
+ *
+ * - Sheet đầu tiên: mỗi dòng là một văn bản, cột DOCUMENT_KEY là khóa của văn bản
+ *   (không có cột này thì khóa là số thứ tự dòng: 1, 2, ...)
+ * - Mỗi bảng (<<TABLE>>) / chorus block có một sheet riêng, tên sheet = tên bảng (getBatchSheetName),
+ *   cột đầu là DOCUMENT_KEY, các cột còn lại là cột của bảng (theo tên hoặc nhãn)
+ * - Nhiều dòng cùng khóa = nhiều dòng bảng / nhiều lần lặp block của cùng văn bản, theo thứ tự trong sheet
+ * - Sheet không khớp bảng nào (Hướng dẫn, Quy tắc, ...) được bỏ qua
+ * - File CSV / TSV (một sheet, không có bảng) được đổi sang workbook khi upload: nhận diện encoding
+ *   (BOM, UTF-8, nếu không thì Windows-1258) và dấu phân cách (tab, ";" hoặc ","), mọi giá trị giữ dạng chữ
+ */
+
+import * as XLSX from 'xlsx';
+import type { TemplateTable } from '@shared/schema';
+
+export const BATCH_DOCUMENT_KEY_COLUMN = 'DOCUMENT_KEY';
+
+/** File names accepted by the batch upload */
+export const BATCH_UPLOAD_FILE_PATTERN = /\.(xlsx|xls|csv|tsv)$/i;
+
+export type BatchFileFormat = 'xlsx' | 'xls' | 'csv' | 'tsv';
+
+/** How an uploaded file was read */
+export interface BatchFileSource {
+  format: BatchFileFormat;
+  /** CSV / TSV only */
+  encoding?: string;
+  delimiter?: string;
+}
+
+const DELIMITERS = ['\t', ';', ','];
+
+/** Rows of each table (by table name) of each document (by document key) */
+export type BatchTableRows = Record<string, Record<string, Array<Record<string, string>>>>;
+
+export class BatchWorkbookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchWorkbookError";
+    Object.setPrototypeOf(this, BatchWorkbookError.prototype);
+  }
+}
+
+/**
+ * Sheet name of a table: Excel sheet names are at most 31 characters and cannot contain [ ] : * ? / \
+ */
+export function getBatchSheetName(tableName: string): string {
+  return tableName.replace(/[\[\]:*?\/\\]/g, '_').slice(0, 31);
+}
+
+export function getBatchFileFormat(fileName: string): BatchFileFormat | null {
+  const match = fileName.match(BATCH_UPLOAD_FILE_PATTERN);
+  return match ? match[1].toLowerCase() as BatchFileFormat : null;
+}
+
+/**
+ * Text of a CSV / TSV file: BOM first (UTF-8, UTF-16), then strict UTF-8, else Windows-1258
+ * (Vietnamese Windows exports). Windows-1258 writes tone marks as combining characters, so the
+ * text is normalized to NFC.
+ */
+export function decodeDelimitedText(buffer: Buffer): { text: string; encoding: string } {
+  const boms: Array<[number[], string]> = [[[0xEF, 0xBB, 0xBF], 'utf-8'], [[0xFF, 0xFE], 'utf-16le'], [[0xFE, 0xFF], 'utf-16be']];
+  for (const [bom, encoding] of boms) {
+    if (bom.every((byte, index) => buffer[index] === byte)) {
+      return { text: new TextDecoder(encoding).decode(buffer.subarray(bom.length)).normalize('NFC'), encoding };
+    }
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer).normalize('NFC'), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1258').decode(buffer).normalize('NFC'), encoding: 'windows-1258' };
+  }
+}
+
+/**
+ * Delimiter used most often in the header line outside quotes; a tie or no delimiter gives the
+ * default of the format (tab for .tsv, "," for .csv).
+ */
+export function detectDelimiter(text: string, format: 'csv' | 'tsv'): string {
+  const counts = new Map(DELIMITERS.map(delimiter => [delimiter, 0]));
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+
+  const fallback = format === 'tsv' ? '\t' : ',';
+  const best = Math.max(...DELIMITERS.map(delimiter => counts.get(delimiter)!));
+  if (best === 0 || counts.get(fallback) === best) return fallback;
+  return DELIMITERS.find(delimiter => counts.get(delimiter) === best)!;
+}
+
+/**
+ * Uploaded batch file as an xlsx workbook buffer, so the rest of the pipeline (parsing, the job,
+ * the validation report) only reads workbooks. Excel files are returned unchanged.
+ */
+export function toBatchWorkbookBuffer(buffer: Buffer, fileName: string): { buffer: Buffer; source: BatchFileSource } {
+  const format = getBatchFileFormat(fileName);
+  if (!format) {
+    throw new BatchWorkbookError('Only Excel (.xlsx, .xls) and CSV / TSV (.csv, .tsv) files are allowed');
+  }
+  if (format === 'xlsx' || format === 'xls') {
+    return { buffer, source: { format } };
+  }
+
+  const { text, encoding } = decodeDelimitedText(buffer);
+  const delimiter = detectDelimiter(text, format);
+  // raw: values stay text (leading zeros, dates as written)
+  const workbook = XLSX.read(text, { type: 'string', FS: delimiter, raw: true });
+  return {
+    buffer: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }),
+    source: { format, encoding, delimiter },
+  };
+}
+
+export function isDocumentKeyHeader(header: unknown): boolean {
+  return String(header ?? '').trim().toUpperCase().replace(/\s+/g, '_') === BATCH_DOCUMENT_KEY_COLUMN;
+}
+
+function cellText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function findTableSheet(workbook: XLSX.WorkBook, table: Pick<TemplateTable, 'name' | 'label'>): string | undefined {
+  const candidates = [getBatchSheetName(table.name), table.name, table.label].map(name => name.toLowerCase());
+  // The first sheet always holds the documents
+  return workbook.SheetNames.slice(1).find(sheetName => candidates.includes(sheetName.trim().toLowerCase()));
+}
+
+/**
+ * Table rows and block instances of the extra sheets, grouped by document key.
+ * Rows with a key that is not in the first sheet are reported, not silently dropped.
+ */
+export function readBatchTableSheets(
+  workbook: XLSX.WorkBook,
+  tables: Array<Pick<TemplateTable, 'name' | 'label' | 'columns'>>,
+  documentKeys: string[]
+): BatchTableRows {
+  const knownKeys = new Set(documentKeys);
+  const result: BatchTableRows = {};
+
+  tables.forEach(table => {
+    const sheetName = findTableSheet(workbook, table);
+    if (!sheetName) return;
+
+    const rawRows = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, defval: '' }) as unknown[][];
+    if (rawRows.length === 0) return;
+
+    const headers = rawRows[0].map(cellText);
+    const keyIndex = headers.findIndex(isDocumentKeyHeader);
+    if (keyIndex === -1) {
+      throw new BatchWorkbookError(`Sheet "${sheetName}" needs a ${BATCH_DOCUMENT_KEY_COLUMN} column`);
+    }
+
+    const columns = table.columns ?? [];
+    const columnIndexes = columns.map(column => headers.findIndex(header =>
+      header.toLowerCase() === column.name.toLowerCase() || (!!column.label && header.toLowerCase() === column.label.toLowerCase())
+    ));
+    const missing = columns.filter((_, index) => columnIndexes[index] === -1).map(column => column.label || column.name);
+    if (missing.length > 0) {
+      throw new BatchWorkbookError(`Sheet "${sheetName}" is missing column(s): ${missing.join(', ')}`);
+    }
+
+    rawRows.slice(1).forEach((raw, index) => {
+      if (raw.every(cell => cellText(cell) === '')) return;
+
+      const key = cellText(raw[keyIndex]);
+      if (!knownKeys.has(key)) {
+        throw new BatchWorkbookError(
+          `Sheet "${sheetName}" row ${index + 2}: ${key ? `no document with key "${key}"` : `${BATCH_DOCUMENT_KEY_COLUMN} is empty`}`
+        );
+      }
+
+      const row: Record<string, string> = {};
+      columns.forEach((column, columnIndex) => {
+        const value = cellText(raw[columnIndexes[columnIndex]]);
+        // Checklist columns: comma- or semicolon-separated → semicolon-delimited, like the table Excel import
+        row[column.name] = column.fieldType === 'checklist'
+          ? value.split(/[,;]/).map(v => v.trim()).filter(Boolean).join(';')
+          : value;
+      });
+
+      const documentTables = result[key] ?? (result[key] = {});
+      (documentTables[table.name] ?? (documentTables[table.name] = [])).push(row);
+    });
+  });
+
+  return result;
+}
@@ -1,158 +1,242 @@
 import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
 import * as XLSX from 'xlsx';
 import { db } from '@db';
 import { 
   batchSessions, 
   batchDocuments, 
   batchDocumentFields,
+  batchDocumentTableData,
   templates,
   insertBatchSessionSchema,
   insertBatchDocumentSchema,
   insertBatchDocumentFieldSchema,
   type BatchSession,
   type BatchDocument,
-  type BatchDocumentField
+  type BatchDocumentField,
+  type BatchDocumentTableData,
+  type TemplateTable
 } from '@shared/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, inArray } from 'drizzle-orm';
+import { splitChecklistValue } from '@shared/checklist';
+import { isBatchMappableField, resolveBatchColumnFields, type BatchColumnMapping } from '@shared/batch-mapping';
+import { BatchWorkbookError, isDocumentKeyHeader, readBatchTableSheets } from './batch-workbook.service';
+import type { DbTransaction } from './numbering.service';
+import {
+  BATCH_REPORT_ERRORS_COLUMN,
+  formatBatchRowErrors,
+  getBatchReportPath,
+  getUnknownBatchColumns,
+  validateBatchRows,
+  type BatchSheetLayout,
+} from './batch-validation.service';
 
-export interface ParsedExcelData {
-  sessionId: string;
-  templateUuid: string;
-  fileName: string;
-  documents: {
-    uuid: string;
-    rowIndex: number;
-    documentName: string;
-    fields: { fieldName: string; fieldValue: string }[];
-  }[];
+/** One data row of the first sheet, with its table rows from the extra sheets */
+export interface ParsedBatchRow {
+  /** Row number among the data rows (1 = first) */
+  rowIndex: number;
+  /** 0-based index of the row below the header row, blank rows included */
+  sheetOffset: number;
+  documentName: string;
+  fields: { fieldName: string; fieldValue: string }[];
+  /** Table rows / block instances by table name, from the extra sheets */
+  tableData: Record<string, Array<Record<string, string>>>;
+  /** Validation errors by field name (batch-validation.service.ts); empty when the row is valid */
+  fieldErrors: Record<string, string>;
+}
+
+export interface ParsedBatchWorkbook {
+  layout: BatchSheetLayout;
+  rows: ParsedBatchRow[];
+  /** Headers of the first sheet that match no template field */
+  unknownColumns: string[];
 }
 
 /**
- * Tạo batch session và lưu dữ liệu từ Excel vào database
+ * Đọc workbook batch: mỗi dòng sheet đầu là một văn bản.
+ * Bảng và chorus block của template được đọc từ các sheet phụ (xem batch-workbook.service.ts).
+ * Cột được gán field theo mapping người dùng xác nhận (shared/batch-mapping.ts), cột không gán được bỏ qua;
+ * không có mapping thì dùng gợi ý. Giá trị cố định (mapping.constants) điền vào ô trống của mọi dòng.
+ * Mỗi dòng được kiểm tra (validateBatchRows); dòng lỗi vẫn được trả về kèm fieldErrors.
+ * Có keyField thì giá trị khóa trùng nhau trong file cũng là lỗi của dòng.
+ * Chỉ đọc file, không ghi database — lỗi cấu trúc (BatchWorkbookError) được báo ngay khi upload.
  */
-export async function createBatchSession(
-  templateUuid: string,
-  fileName: string,
+export function parseBatchWorkbook(
   excelBuffer: Buffer,
-  templateFields: any[]
-): Promise<ParsedExcelData> {
-  console.log('Creating batch session for template:', templateUuid);
-  
+  templateFields: any[],
+  tables: TemplateTable[] = [],
+  mapping?: BatchColumnMapping | null,
+  keyField?: string | null
+): ParsedBatchWorkbook {
   // Parse Excel file
   const workbook = XLSX.read(excelBuffer, { type: 'buffer' });
   const sheetName = workbook.SheetNames[0];
   const worksheet = workbook.Sheets[sheetName];
   
-  // Convert to JSON
-  const rawData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as string[][];
+  // Convert to JSON (blank rows are kept so rows can be located in the sheet)
+  const rawData = XLSX.utils.sheet_to_json(worksheet, { header: 1, blankrows: true }) as string[][];
   
   if (rawData.length < 2) {
-    throw new Error('Excel file must have at least header row and one data row');
+    throw new BatchWorkbookError('Excel file must have at least header row and one data row');
   }
   
   const headers = rawData[0];
-  const dataRows = rawData.slice(1).filter(row => row.some(cell => cell !== undefined && cell !== ''));
-  
-  console.log('Excel headers:', headers);
-  console.log('Data rows count:', dataRows.length);
-  
-  // Map headers to template fields
-  const fieldMapping = mapHeadersToTemplateFields(headers, templateFields);
-  console.log('Field mapping:', fieldMapping);
-  
-  // Create batch session
-  const sessionUuid = uuidv4();
-  const sessionData = insertBatchSessionSchema.parse({
-    templateUuid,
-    fileName,
-    filePath: `storage/temp/batch-${sessionUuid}.xlsx`,
-    status: 'pending',
-    totalRows: dataRows.length.toString(),
-    processedRows: '0',
-    approvedRows: '0'
+  const dataRows = rawData.slice(1)
+    .map((row, sheetOffset) => ({ row, sheetOffset }))
+    .filter(({ row }) => row.some(cell => cell !== undefined && cell !== ''));
+
+  // Document keys link the rows of the table sheets to the documents; default is the row number
+  const keyIndex = headers.findIndex(isDocumentKeyHeader);
+  const documentKeys = dataRows.map(({ row }, i) => {
+    const key = keyIndex === -1 ? '' : String(row[keyIndex] ?? '').trim();
+    return key || String(i + 1);
   });
-  
-  const [session] = await db.insert(batchSessions).values({
-    uuid: sessionUuid,
-    ...sessionData
-  }).returning();
-  console.log('Created batch session:', session.uuid);
-  
-  // Process each data row
-  const documents: ParsedExcelData['documents'] = [];
-  
-  for (let i = 0; i < dataRows.length; i++) {
-    const row = dataRows[i];
-    const docUuid = uuidv4();
-    
+  const duplicateKey = documentKeys.find((key, i) => documentKeys.indexOf(key) !== i);
+  if (duplicateKey) {
+    throw new BatchWorkbookError(`Document key "${duplicateKey}" is used by more than one row`);
+  }
+  const tableRows = readBatchTableSheets(workbook, tables, documentKeys);
+  
+  // Map headers to template fields; the name, key and ERRORS columns are not fields
+  const headerTexts = headers.map(header => String(header ?? '').trim());
+  const fieldNames: string[] = templateFields.filter(isBatchMappableField).map(f => f.name);
+  const mappedFields = resolveBatchColumnFields(
+    headerTexts.map((header, j) => j === 0 || j === keyIndex || header === BATCH_REPORT_ERRORS_COLUMN ? '' : header),
+    fieldNames,
+    mapping
+  );
+  const checklistFieldNames = new Set(
+    templateFields.filter(f => f.fieldType === 'checklist').map(f => f.name)
+  );
+  const normalizeValue = (fieldName: string, value: string) =>
+    // Checklist cells may come from an export in boxes / list mode ("☒ Nam   ☐ Nữ")
+    checklistFieldNames.has(fieldName) ? splitChecklistValue(value).join('; ') : value;
+  const constants = Object.entries(mapping?.constants ?? {})
+    .filter(([fieldName, value]) => fieldNames.includes(fieldName) && value.trim() !== '');
+  const layout: BatchSheetLayout = {
+    headers: headerTexts,
+    columnFields: mappedFields,
+    origin: XLSX.utils.decode_range(worksheet['!ref'] ?? 'A1').s,
+  };
+
+  const rows: ParsedBatchRow[] = dataRows.map(({ row, sheetOffset }, i) => {
     // Extract document name (first non-empty cell or generate name)
     const documentName = row[0] || `Document ${i + 1}`;
-    
-    // Create batch document record
-    const batchDocData = insertBatchDocumentSchema.parse({
-      sessionUuid: session.uuid,
-      rowIndex: (i + 1).toString(),
-      name: documentName,
-      status: 'pending'
-    });
-    
-    const [batchDoc] = await db.insert(batchDocuments).values({
-      uuid: docUuid,
-      ...batchDocData
-    }).returning();
-    
-    // Process fields for this document
-    const docFields: { fieldName: string; fieldValue: string }[] = [];
+    const fields: ParsedBatchRow['fields'] = [];
     
     for (let j = 0; j < headers.length; j++) {
-      const header = headers[j];
+      const fieldName = mappedFields[j];
       const cellValue = row[j];
       
-      if (cellValue !== undefined && cellValue !== '') {
-        const mappedField = fieldMapping.find(f => f.excelHeader === header);
-        
-        // Use mapped field name if available, otherwise use Excel header directly
-        const fieldName = mappedField ? mappedField.templateField : header;
-        
-        const fieldData = insertBatchDocumentFieldSchema.parse({
-          batchDocumentUuid: batchDoc.uuid,
-          fieldName: fieldName,
-          fieldValue: String(cellValue)
-        });
-        
-        await db.insert(batchDocumentFields).values({
-          uuid: uuidv4(),
-          ...fieldData
-        });
-        
-        docFields.push({
-          fieldName: fieldName,
-          fieldValue: String(cellValue)
-        });
+      if (fieldName && cellValue !== undefined && cellValue !== '') {
+        fields.push({ fieldName, fieldValue: normalizeValue(fieldName, String(cellValue)) });
       }
     }
-    
-    documents.push({
-      uuid: docUuid,
-      rowIndex: i,
-      documentName,
-      fields: docFields
+    constants.forEach(([fieldName, value]) => {
+      if (!fields.some(field => field.fieldName === fieldName)) {
+        fields.push({ fieldName, fieldValue: normalizeValue(fieldName, value) });
+      }
     });
-  }
-  
-  // Update session as processed
-  await db.update(batchSessions)
-    .set({ status: 'processed', processedRows: dataRows.length.toString() })
-    .where(eq(batchSessions.uuid, session.uuid));
-  
-  console.log('Batch session created successfully with', documents.length, 'documents');
+
+    return {
+      rowIndex: i + 1,
+      sheetOffset,
+      documentName: String(documentName),
+      fields,
+      tableData: tableRows[documentKeys[i]] ?? {},
+      fieldErrors: {},
+    };
+  });
+
+  validateBatchRows(rows, templateFields, keyField).forEach((errors, i) => {
+    rows[i].fieldErrors = errors;
+  });
+
+  // Columns skipped in the mapping are not reported
+  const skipped = (header: string) => isDocumentKeyHeader(header) || mapping?.columns[header] === null;
+  return { layout, rows, unknownColumns: getUnknownBatchColumns(layout, skipped) };
+}
+
+/**
+ * Tạo batch session cho file đã upload. Các dòng được ghi bởi batch job (storeBatchRows).
+ */
+export async function createBatchSession(params: {
+  templateUuid: string;
+  fileName: string;
+  /** Uploaded workbook, read again by the job (also after a restart) */
+  filePath: string;
+  totalRows: number;
+  /** Mapping confirmed in the upload dialog, used again when the job reads the workbook */
+  columnMapping?: BatchColumnMapping | null;
+  /** Rows whose value of this field matches an existing document update it (batch-update.service.ts) */
+  keyField?: string | null;
+  createdBy?: string | null;
+}): Promise<BatchSession> {
+  const sessionData = insertBatchSessionSchema.parse({
+    templateUuid: params.templateUuid,
+    fileName: params.fileName,
+    filePath: params.filePath,
+    status: 'pending',
+    totalRows: params.totalRows.toString(),
+    processedRows: '0',
+    approvedRows: '0'
+  });
   
-  return {
-    sessionId: sessionUuid,
-    templateUuid,
-    fileName,
-    documents
-  };
+  const [session] = await db.insert(batchSessions).values({
+    uuid: uuidv4(),
+    ...sessionData,
+    columnMapping: params.columnMapping ?? null,
+    keyField: params.keyField ?? null,
+    createdBy: params.createdBy,
+    updatedBy: params.createdBy
+  }).returning();
+  console.log('Created batch session:', session.uuid);
+
+  return session;
+}
+
+/**
+ * Ghi các dòng của workbook thành batch documents (một lần insert cho mỗi bảng).
+ * Gọi trong transaction của batch job để việc ghi và tiến độ đi cùng nhau.
+ * Trả về uuid của batch document theo rowIndex.
+ */
+export async function storeBatchRows(sessionUuid: string, rows: ParsedBatchRow[], tx: DbTransaction): Promise<Map<string, string>> {
+  if (rows.length === 0) return new Map();
+
+  // Invalid rows are stored as failed with their errors and never created
+  const insertedDocs = await tx.insert(batchDocuments).values(rows.map(row => {
+    const invalid = Object.keys(row.fieldErrors).length > 0;
+    return {
+      ...insertBatchDocumentSchema.parse({
+        sessionUuid,
+        rowIndex: row.rowIndex.toString(),
+        name: row.documentName,
+        status: invalid ? 'failed' : 'pending'
+      }),
+      errorMessage: invalid ? formatBatchRowErrors(row.fieldErrors) : null
+    };
+  })).returning({ uuid: batchDocuments.uuid, rowIndex: batchDocuments.rowIndex });
+  const docUuidByRow = new Map(insertedDocs.map(doc => [doc.rowIndex, doc.uuid]));
+
+  const fieldValues = rows.flatMap(row => row.fields.map(field => insertBatchDocumentFieldSchema.parse({
+    batchDocumentUuid: docUuidByRow.get(row.rowIndex.toString())!,
+    fieldName: field.fieldName,
+    fieldValue: field.fieldValue
+  })));
+  if (fieldValues.length > 0) {
+    await tx.insert(batchDocumentFields).values(fieldValues);
+  }
+
+  const tableValues = rows.flatMap(row => Object.entries(row.tableData).map(([tableName, tableRows]) => ({
+    batchDocumentUuid: docUuidByRow.get(row.rowIndex.toString())!,
+    tableName,
+    rows: tableRows
+  })));
+  if (tableValues.length > 0) {
+    await tx.insert(batchDocumentTableData).values(tableValues);
+  }
+
+  return docUuidByRow;
 }
 
 /**
@@ -187,7 +271,8 @@ export async function getBatchSession(sessionUuid: string) {
   const sessionDocuments = await db.query.batchDocuments.findMany({
     where: eq(batchDocuments.sessionUuid, sessionUuid),
     with: {
-      fields: true
+      fields: true,
+      tableData: true
     }
   });
   
@@ -213,10 +298,12 @@ export async function getBatchSession(sessionUuid: string) {
  */
 export async function updateBatchDocumentStatus(
   documentUuid: string, 
-  status: 'pending' | 'approved' | 'rejected' | 'created'
+  status: 'pending' | 'approved' | 'rejected' | 'created' | 'updated' | 'unchanged' | 'failed',
+  result: { documentUuid?: string; errorMessage?: string | null } = {},
+  tx?: DbTransaction
 ) {
-  const [updated] = await db.update(batchDocuments)
-    .set({ status, updatedAt: new Date() })
+  const [updated] = await (tx ?? db).update(batchDocuments)
+    .set({ status, errorMessage: null, ...result, updatedAt: new Date() })
     .where(eq(batchDocuments.uuid, documentUuid))
     .returning();
   
@@ -224,7 +311,8 @@ export async function updateBatchDocumentStatus(
 }
 
 /**
- * Lấy danh sách documents đã approved trong session
+ * Lấy danh sách documents chưa tạo trong session (pending và approved, bỏ qua rejected / created).
+ * Trạng thái approved được chuyển sang workflow của document (resolveBatchWorkflowStatus).
  */
 export async function getApprovedDocuments(sessionUuid: string) {
   const session = await db.query.batchSessions.findFirst({
@@ -238,10 +326,11 @@ export async function getApprovedDocuments(sessionUuid: string) {
   const approvedDocs = await db.query.batchDocuments.findMany({
     where: and(
       eq(batchDocuments.sessionUuid, session.uuid),
-      eq(batchDocuments.status, 'pending') // Use 'pending' as the initial status for batch documents
+      inArray(batchDocuments.status, ['pending', 'approved'])
     ),
     with: {
-      fields: true
+      fields: true,
+      tableData: true
     },
     orderBy: (batchDocuments, { asc }) => [asc(batchDocuments.rowIndex)]
   });
@@ -250,89 +339,12 @@ export async function getApprovedDocuments(sessionUuid: string) {
 }
 
 /**
- * Normalize a string for comparison: lowercase, remove accents, remove special chars
- */
-function normalizeForComparison(str: string): string {
-  if (!str) return '';
-  
-  // Normalize unicode (NFD) then remove combining diacritical marks
-  const normalized = str.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
-  
-  // Convert to lowercase and remove non-alphanumeric chars except underscore
-  return normalized.toLowerCase().replace(/[^a-z0-9_]/g, '');
-}
-
-/**
- * Map Excel headers với template fields
- * Supports: exact match, case-insensitive match, normalized match (remove accents/special chars)
+ * Table rows / block instances of a batch document, by table name (tableData of createCompleteDocument)
  */
-function mapHeadersToTemplateFields(headers: string[], templateFields: any[]) {
-  const mapping: { excelHeader: string; templateField: string; matchType: string }[] = [];
-  const unmappedHeaders: string[] = [];
-  
-  for (const header of headers) {
-    if (!header || header.trim() === '') continue;
-    
-    // Tìm template field tương ứng (exact match hoặc similar)
-    let matchedField = null;
-    let matchType = '';
-    
-    for (const field of templateFields) {
-      const fieldName = field.fieldName || field.name;
-      const displayName = field.displayName || fieldName;
-      
-      // 1. Exact match
-      if (fieldName === header || displayName === header) {
-        matchedField = field;
-        matchType = 'exact';
-        break;
-      }
-      
-      // 2. Case insensitive match
-      if (fieldName.toLowerCase() === header.toLowerCase() || 
-          displayName.toLowerCase() === header.toLowerCase()) {
-        matchedField = field;
-        matchType = 'case-insensitive';
-        break;
-      }
-      
-      // 3. Normalized match (remove accents and special chars)
-      const normalizedFieldName = normalizeForComparison(fieldName);
-      const normalizedDisplayName = normalizeForComparison(displayName);
-      const normalizedHeader = normalizeForComparison(header);
-      
-      if (normalizedFieldName === normalizedHeader || normalizedDisplayName === normalizedHeader) {
-        matchedField = field;
-        matchType = 'normalized';
-        break;
-      }
-      
-      // 4. Partial match - header contains field name or vice versa
-      if (normalizedHeader.includes(normalizedFieldName) || normalizedFieldName.includes(normalizedHeader)) {
-        if (normalizedFieldName.length >= 3 && normalizedHeader.length >= 3) {
-          matchedField = field;
-          matchType = 'partial';
-          // Don't break, keep looking for better match
-        }
-      }
-    }
-    
-    if (matchedField) {
-      mapping.push({
-        excelHeader: header,
-        templateField: matchedField.fieldName || matchedField.name,
-        matchType
-      });
-    } else {
-      unmappedHeaders.push(header);
-    }
-  }
-  
-  if (unmappedHeaders.length > 0) {
-    console.log('Unmapped Excel headers:', unmappedHeaders);
-  }
-  
-  return mapping;
+export function batchDocumentTableRows(
+  batchDoc: { tableData: Array<Pick<BatchDocumentTableData, 'tableName' | 'rows'>> }
+): Record<string, Array<Record<string, string>>> {
+  return Object.fromEntries(batchDoc.tableData.map(table => [table.tableName, table.rows]));
 }
 
 /**
@@ -349,6 +361,7 @@ export async function deleteBatchSession(sessionUuid: string) {
   
   // Drizzle sẽ tự động xóa cascade
   await db.delete(batchSessions).where(eq(batchSessions.uuid, session.uuid));
+  await fs.promises.rm(getBatchReportPath(session.uuid), { force: true });
   
   return true;
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * Computed fields ({{tong_tien:=sum(hang_hoa.thanh_tien)}}) được tính ở server khi lưu
+ * document, generate, preview và tạo hàng loạt — giá trị submit từ client bị ghi đè.
+ * Bộ tính biểu thức nằm ở shared/computed-fields.ts để form hiển thị giá trị trực tiếp.
+ */
+
+import { storage } from '../storage-uuid';
+import { withComputedValues, type ComputedFieldDef, type ComputedTableRows } from '@shared/computed-fields';
+import type { TableData } from '../utils/table-injector';
+
+/**
+ * Rows of the document's tables and chorus blocks, keyed by table name.
+ */
+export function toComputedTableRows(
+  tableDataMap: Record<string, TableData> = {},
+  blockDataMap: Record<string, Array<Record<string, string>>> = {}
+): ComputedTableRows {
+  const tables: ComputedTableRows = { ...blockDataMap };
+  for (const name of Object.keys(tableDataMap)) {
+    tables[name] = tableDataMap[name]?.rows ?? [];
+  }
+  return tables;
+}
+
+export function hasComputedFields(fields: ComputedFieldDef[]): boolean {
+  return fields.some(field => !!field.expression);
+}
+
+/**
+ * Field values of a template with its computed fields filled in.
+ */
+export async function computeTemplateFieldValues(
+  templateUuid: string,
+  values: Record<string, string>,
+  tables: ComputedTableRows = {}
+): Promise<Record<string, string>> {
+  const fields = await storage.getTemplateFields(templateUuid);
+  if (!hasComputedFields(fields)) return values;
+  return withComputedValues(fields, values, tables);
+}
@@ -0,0 +1,148 @@
+/**
+ * Document Data Service
+ *
+ * Everything besides the template file needed to render a stored document:
+ * field values (with computed fields), <<TABLE>> data and {%#BLOCK%} rows.
+ *
+ * Bulk / ZIP downloads load it for a whole batch of documents at once
+ * (one query per table instead of several per document).
+ */
+
+import { db } from '@db';
+import { and, eq, inArray, sql, type SQL } from 'drizzle-orm';
+import {
+  documents,
+  documentFields,
+  documentTableData,
+  templates,
+  templateFields,
+  templateTables,
+  templateVersions,
+} from '@shared/schema';
+import { withComputedValues } from '@shared/computed-fields';
+import { toComputedTableRows } from './computed-fields.service';
+import { type TableData } from '../utils/table-injector';
+
+/** Documents generated per batch in bulk downloads */
+export const BULK_GENERATION_BATCH_SIZE = 50;
+
+export interface DocumentDataMaps {
+  tableDataMap: Record<string, TableData>;
+  blockDataMap: Record<string, Array<Record<string, string>>>;
+}
+
+export interface DocumentGenerationData extends DocumentDataMaps {
+  fieldValues: Record<string, string>;
+  templateFields: Array<typeof templateFields.$inferSelect>;
+}
+
+/**
+ * Split a document's stored rows by the template's tables / blocks.
+ * - tableDataMap: for <<TABLE_NAME>> injection (blockType = 'table')
+ * - blockDataMap: for {%#BLOCKNAME%}...{%/BLOCKNAME%} loop rendering (blockType = 'block')
+ */
+export function buildDocumentDataMaps(
+  templateTablesRows: Array<typeof templateTables.$inferSelect>,
+  tableRows: Array<Pick<typeof documentTableData.$inferSelect, 'tableName' | 'rows'>>
+): DocumentDataMaps {
+  const tableDataMap: Record<string, TableData> = {};
+  const blockDataMap: Record<string, Array<Record<string, string>>> = {};
+
+  for (const tt of templateTablesRows) {
+    const docRow = tableRows.find(r => r.tableName === tt.name);
+    if (tt.blockType === 'block') {
+      blockDataMap[tt.name] = docRow ? (docRow.rows as Array<Record<string, string>>) : [];
+    } else {
+      tableDataMap[tt.name] = {
+        columns: tt.columns as Array<{ name: string; label: string }>,
+        rows: docRow ? (docRow.rows as Array<Record<string, string>>) : [],
+      };
+    }
+  }
+
+  return { tableDataMap, blockDataMap };
+}
+
+export function chunkArray<T>(items: T[], size: number = BULK_GENERATION_BATCH_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Documents matching a condition, with the template file they render with
+ * (documents pinned to an older template version use that version's file).
+ */
+export function selectDocumentsForGeneration(condition?: SQL) {
+  return db
+    .select({
+      uuid: documents.uuid,
+      name: documents.name,
+      createdAt: documents.createdAt,
+      templateName: templates.name,
+      templateUuid: documents.templateUuid,
+      templateFilePath: sql<string | null>`coalesce(${templateVersions.filePath}, ${templates.filePath})`,
+    })
+    .from(documents)
+    .leftJoin(templates, eq(documents.templateUuid, templates.uuid))
+    .leftJoin(templateVersions, and(
+      eq(templateVersions.templateUuid, documents.templateUuid),
+      eq(templateVersions.version, documents.templateVersion)
+    ))
+    .where(condition);
+}
+
+/**
+ * Load field values, table and block data of a batch of documents, by document uuid.
+ * Computed fields are evaluated, as in the single document download.
+ */
+export async function loadDocumentsGenerationData(
+  docs: Array<{ uuid: string; templateUuid: string }>
+): Promise<Map<string, DocumentGenerationData>> {
+  const result = new Map<string, DocumentGenerationData>();
+  if (docs.length === 0) return result;
+
+  const documentUuids = docs.map(doc => doc.uuid);
+  const templateUuids = Array.from(new Set(docs.map(doc => doc.templateUuid)));
+
+  const [fieldRows, tableRows, templateTablesRows, templateFieldRows] = await Promise.all([
+    db.select({
+      documentUuid: documentFields.documentUuid,
+      fieldName: documentFields.fieldName,
+      fieldValue: documentFields.fieldValue,
+    }).from(documentFields).where(inArray(documentFields.documentUuid, documentUuids)),
+    db.select({
+      documentUuid: documentTableData.documentUuid,
+      tableName: documentTableData.tableName,
+      rows: documentTableData.rows,
+    }).from(documentTableData).where(inArray(documentTableData.documentUuid, documentUuids)),
+    db.select().from(templateTables).where(inArray(templateTables.templateUuid, templateUuids)),
+    db.select().from(templateFields).where(inArray(templateFields.templateUuid, templateUuids)),
+  ]);
+
+  for (const doc of docs) {
+    const fieldMap: Record<string, string> = {};
+    fieldRows
+      .filter(row => row.documentUuid === doc.uuid)
+      .forEach(row => {
+        fieldMap[row.fieldName] = row.fieldValue;
+      });
+
+    const fieldsOfTemplate = templateFieldRows.filter(field => field.templateUuid === doc.templateUuid);
+    const { tableDataMap, blockDataMap } = buildDocumentDataMaps(
+      templateTablesRows.filter(tt => tt.templateUuid === doc.templateUuid),
+      tableRows.filter(row => row.documentUuid === doc.uuid)
+    );
+
+    result.set(doc.uuid, {
+      fieldValues: withComputedValues(fieldsOfTemplate, fieldMap, toComputedTableRows(tableDataMap, blockDataMap)),
+      tableDataMap,
+      blockDataMap,
+      templateFields: fieldsOfTemplate,
+    });
+  }
+
+  return result;
+}
@@ -9,12 +9,15 @@
  * - TTL-based expiration (10 minutes default) with sliding window on hits
  * - Promise coalescing for concurrent requests
  * - Memory-efficient: stores Buffer, auto-cleans expired entries
+ * - PDF exports (getOrGeneratePdf) cached on the same entry as the .docx
  * - Proper cleanup with shutdown() method
  */
 
 import { FileManagerService } from './file-manager.service';
 import { generateDocumentTwoPasses } from '../utils/docx-generation';
 import { type TableData } from '../utils/table-injector';
+import type { DocumentRenderOptions } from '../utils/docx-parser';
+import { convertDocxToPdf } from './pdf-converter.service';
 
 interface CacheEntry {
   buffer: Buffer;
@@ -22,6 +25,8 @@ interface CacheEntry {
   lastAccessedAt: Date;
   documentName: string;
   size: number;
+  /** PDF conversion of buffer, added on the first PDF download */
+  pdfBuffer?: Buffer;
 }
 
 interface CacheStats {
@@ -31,6 +36,7 @@ interface CacheStats {
   currentEntries: number;
   totalSizeBytes: number;
   generations: number;
+  pdfConversions: number;
 }
 
 interface CacheConfig {
@@ -42,6 +48,7 @@ interface CacheConfig {
 class DocumentGeneratorCache {
   private cache: Map<string, CacheEntry> = new Map();
   private pendingGenerations: Map<string, Promise<Buffer>> = new Map();
+  private pendingConversions: Map<string, Promise<Buffer>> = new Map();
   private cleanupIntervalId: ReturnType<typeof setInterval> | null = null;
   private stats: CacheStats = {
     hits: 0,
@@ -49,7 +56,8 @@ class DocumentGeneratorCache {
     evictions: 0,
     currentEntries: 0,
     totalSizeBytes: 0,
-    generations: 0
+    generations: 0,
+    pdfConversions: 0
   };
   
   private config: CacheConfig = {
@@ -108,6 +116,10 @@ class DocumentGeneratorCache {
     return `${documentUuid}:${fieldsHash}:${tableHash}`;
   }
 
+  private buildKey(documentUuid: string, fieldValues: Record<string, string>, tableDataMap: Record<string, TableData>, blockDataMap: Record<string, Array<Record<string, string>>>): string {
+    return this.generateCacheKey(documentUuid, this.hashFields(fieldValues), this.hashTableData(tableDataMap) + ':' + this.hashBlockData(blockDataMap));
+  }
+
   private hashFields(fields: Record<string, string>): string {
     const sorted = Object.entries(fields).sort(([a], [b]) => a.localeCompare(b));
     const str = JSON.stringify(sorted);
@@ -147,7 +159,7 @@ class DocumentGeneratorCache {
       return null;
     }
 
-    const key = this.generateCacheKey(documentUuid, this.hashFields(fieldValues), this.hashTableData(tableDataMap) + ':' + this.hashBlockData(blockDataMap));
+    const key = this.buildKey(documentUuid, fieldValues, tableDataMap, blockDataMap);
     const entry = this.cache.get(key);
     
     if (!entry) {
@@ -186,7 +198,7 @@ class DocumentGeneratorCache {
       }
     }
 
-    const key = this.generateCacheKey(documentUuid, this.hashFields(fieldValues), this.hashTableData(tableDataMap) + ':' + this.hashBlockData(blockDataMap));
+    const key = this.buildKey(documentUuid, fieldValues, tableDataMap, blockDataMap);
     const now = new Date();
     const entry: CacheEntry = {
       buffer,
@@ -201,13 +213,15 @@ class DocumentGeneratorCache {
   }
 
   invalidate(documentUuid: string): void {
-    const keys = Array.from(this.cache.keys());
-    for (const key of keys) {
-      if (key.startsWith(`${documentUuid}:`)) {
-        this.cache.delete(key);
+    // Pending generations / conversions use the same "<uuid>:<hashes>" keys as the cache
+    for (const map of [this.cache, this.pendingGenerations, this.pendingConversions]) {
+      const keys = Array.from(map.keys());
+      for (const key of keys) {
+        if (key.startsWith(`${documentUuid}:`)) {
+          map.delete(key);
+        }
       }
     }
-    this.pendingGenerations.delete(documentUuid);
     this.updateStats();
   }
 
@@ -215,6 +229,7 @@ class DocumentGeneratorCache {
     const count = this.cache.size;
     this.cache.clear();
     this.pendingGenerations.clear();
+    this.pendingConversions.clear();
     this.updateStats();
     console.log(`[DocumentGeneratorCache] Cleared ${count} entries`);
   }
@@ -234,7 +249,8 @@ class DocumentGeneratorCache {
     templateFilePath: string,
     fieldValues: Record<string, string>,
     tableDataMap: Record<string, TableData> = {},
-    blockDataMap: Record<string, Array<Record<string, string>>> = {}
+    blockDataMap: Record<string, Array<Record<string, string>>> = {},
+    renderOptions: DocumentRenderOptions = {}
   ): Promise<Buffer> {
     const templateBuffer = await FileManagerService.readTemplateBuffer(templateFilePath);
 
@@ -246,7 +262,7 @@ class DocumentGeneratorCache {
     }
 
     this.stats.generations++;
-    return generateDocumentTwoPasses(templateBuffer, processedFieldValues, tableDataMap, blockDataMap);
+    return generateDocumentTwoPasses(templateBuffer, processedFieldValues, tableDataMap, blockDataMap, renderOptions);
   }
 
   /**
@@ -260,11 +276,16 @@ class DocumentGeneratorCache {
     fieldValues: Record<string, string>;
     tableDataMap?: Record<string, TableData>;
     blockDataMap?: Record<string, Array<Record<string, string>>>;
+    /**
+     * Checklist render modes and images of the document; changing a mode clears the cache,
+     * images are keyed by their stored path in fieldValues
+     */
+    renderOptions?: DocumentRenderOptions;
   }): Promise<Buffer> {
-    const { documentUuid, documentName, templateFilePath, fieldValues, tableDataMap = {}, blockDataMap = {} } = params;
+    const { documentUuid, documentName, templateFilePath, fieldValues, tableDataMap = {}, blockDataMap = {}, renderOptions = {} } = params;
 
     if (!this.config.enabled) {
-      return this.generateDocumentBuffer(templateFilePath, fieldValues, tableDataMap, blockDataMap);
+      return this.generateDocumentBuffer(templateFilePath, fieldValues, tableDataMap, blockDataMap, renderOptions);
     }
 
     const cached = this.get(documentUuid, fieldValues, tableDataMap, blockDataMap);
@@ -273,7 +294,7 @@ class DocumentGeneratorCache {
       return cached;
     }
 
-    const key = this.generateCacheKey(documentUuid, this.hashFields(fieldValues), this.hashTableData(tableDataMap) + ':' + this.hashBlockData(blockDataMap));
+    const key = this.buildKey(documentUuid, fieldValues, tableDataMap, blockDataMap);
     const pending = this.pendingGenerations.get(key);
     if (pending) {
       console.log(`[DocumentGeneratorCache] Coalescing request for ${documentUuid}`);
@@ -283,7 +304,7 @@ class DocumentGeneratorCache {
     const generationPromise = (async () => {
       try {
         console.log(`[DocumentGeneratorCache] Generating document for ${documentUuid}`);
-        const buffer = await this.generateDocumentBuffer(templateFilePath, fieldValues, tableDataMap, blockDataMap);
+        const buffer = await this.generateDocumentBuffer(templateFilePath, fieldValues, tableDataMap, blockDataMap, renderOptions);
         this.set(documentUuid, fieldValues, buffer, documentName, tableDataMap, blockDataMap);
         return buffer;
       } finally {
@@ -295,6 +316,56 @@ class DocumentGeneratorCache {
     return generationPromise;
   }
 
+  /**
+   * Get or generate the document as PDF. The .docx comes from getOrGenerate and is
+   * converted once; the PDF is kept on the same cache entry as the .docx.
+   */
+  async getOrGeneratePdf(params: Parameters<DocumentGeneratorCache['getOrGenerate']>[0]): Promise<Buffer> {
+    const { documentUuid, fieldValues, tableDataMap = {}, blockDataMap = {} } = params;
+
+    if (!this.config.enabled) {
+      this.stats.pdfConversions++;
+      return convertDocxToPdf(await this.getOrGenerate(params));
+    }
+
+    const key = this.buildKey(documentUuid, fieldValues, tableDataMap, blockDataMap);
+    const cachedPdf = this.cache.get(key)?.pdfBuffer;
+    if (cachedPdf) {
+      // get() checks the TTL and refreshes the entry
+      if (this.get(documentUuid, fieldValues, tableDataMap, blockDataMap) !== null) {
+        console.log(`[DocumentGeneratorCache] PDF cache hit for ${documentUuid}`);
+        return cachedPdf;
+      }
+    }
+
+    const pending = this.pendingConversions.get(key);
+    if (pending) {
+      console.log(`[DocumentGeneratorCache] Coalescing PDF request for ${documentUuid}`);
+      return pending;
+    }
+
+    const conversionPromise = (async () => {
+      try {
+        const docxBuffer = await this.getOrGenerate(params);
+        console.log(`[DocumentGeneratorCache] Converting document ${documentUuid} to PDF`);
+        this.stats.pdfConversions++;
+        const pdfBuffer = await convertDocxToPdf(docxBuffer);
+        const entry = this.cache.get(key);
+        if (entry && entry.buffer === docxBuffer) {
+          entry.pdfBuffer = pdfBuffer;
+          entry.size = docxBuffer.length + pdfBuffer.length;
+          this.updateStats();
+        }
+        return pdfBuffer;
+      } finally {
+        this.pendingConversions.delete(key);
+      }
+    })();
+
+    this.pendingConversions.set(key, conversionPromise);
+    return conversionPromise;
+  }
+
   private updateStats(): void {
     this.stats.currentEntries = this.cache.size;
     this.stats.totalSizeBytes = 0;
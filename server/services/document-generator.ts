@@ -3,7 +3,20 @@ import path from 'path';
 import PizZip from 'pizzip';
 import { FileManagerService } from './file-manager.service';
 import { createDocxTemplater } from '../utils/docx-parser';
+import { generateDocumentTwoPasses } from '../utils/docx-generation';
 import { injectTablesIntoZip, type TableData } from '../utils/table-injector';
+import { evaluateComputedFields } from '@shared/computed-fields';
+import { loadDocumentRenderOptions } from './image-fields.service';
+import type { ChecklistRenderConfig } from '@shared/checklist';
+import { db } from '@db';
+import { eq } from 'drizzle-orm';
+import { documentFields, documentTableData, documents, templateTables, type Document, type User } from '@shared/schema';
+import type { DocumentWorkflowStatus } from '@shared/document-workflow';
+import { recordAuditEvent } from './audit.service';
+import { createDocumentRevision } from './document-revision.service';
+import { allocateDocumentNumbers, getNumberingTriggers, type DbTransaction } from './numbering.service';
+import { buildDocumentDataMaps } from './document-data.service';
+import { toComputedTableRows } from './computed-fields.service';
 
 export interface DocumentGenerationData {
   templateFilePath: string;
@@ -11,6 +24,12 @@ export interface DocumentGenerationData {
   fieldValues: Record<string, string>;
   /** Optional table data map for templates containing <<TABLE_NAME>> markers. */
   tableDataMap?: Record<string, TableData>;
+  /** Optional chorus block instances for templates containing {%#BLOCK%}...{%/BLOCK%} sections. */
+  blockDataMap?: Record<string, Array<Record<string, string>>>;
+  /** Checklist render modes of the template (see shared/checklist.ts). */
+  checklists?: ChecklistRenderConfig;
+  /** Images of the document's image fields, by field name. */
+  images?: Record<string, Buffer>;
 }
 
 export interface GeneratedDocument {
@@ -51,16 +70,27 @@ export async function generateDocument(data: DocumentGenerationData): Promise<Ge
   // Generate document with error handling
   let documentBuffer: Buffer;
   try {
-    let zip = new PizZip(templateBuffer);
-    // Inject dynamic tables (<<TABLE_NAME>> markers) before docxtemplater runs
-    if (data.tableDataMap && Object.keys(data.tableDataMap).length > 0) {
-      zip = injectTablesIntoZip(zip, data.tableDataMap);
-    }
-    // Use factory with custom parser for checklist/default value placeholders
-    const doc = createDocxTemplater(zip);
+    if (data.blockDataMap && Object.keys(data.blockDataMap).length > 0) {
+      // Chorus blocks need the second rendering pass
+      documentBuffer = generateDocumentTwoPasses(
+        templateBuffer,
+        processedFieldValues,
+        data.tableDataMap,
+        data.blockDataMap,
+        { checklists: data.checklists, images: data.images }
+      );
+    } else {
+      let zip = new PizZip(templateBuffer);
+      // Inject dynamic tables (<<TABLE_NAME>> markers) before docxtemplater runs
+      if (data.tableDataMap && Object.keys(data.tableDataMap).length > 0) {
+        zip = injectTablesIntoZip(zip, data.tableDataMap);
+      }
+      // Use factory with custom parser for checklist/default value placeholders
+      const doc = createDocxTemplater(zip, { checklists: data.checklists, images: data.images });
 
-    doc.render(processedFieldValues);
-    documentBuffer = doc.getZip().generate({ type: 'nodebuffer' });
+      doc.render(processedFieldValues);
+      documentBuffer = doc.getZip().generate({ type: 'nodebuffer' });
+    }
   } catch (docxError) {
     console.error('Docxtemplater failed:', docxError);
     console.error('Field values causing error:', JSON.stringify(processedFieldValues, null, 2));
@@ -98,7 +128,9 @@ export async function generateDocument(data: DocumentGenerationData): Promise<Ge
 }
 
 /**
- * Create complete document record with physical file and database entry
+ * Create complete document record with physical file and database entry.
+ * The document, its fields, table rows and numbers are written in one transaction;
+ * the revision and the audit event follow once it is committed.
  */
 export async function createCompleteDocument(params: {
   templateUuid: string;
@@ -107,31 +139,92 @@ export async function createCompleteDocument(params: {
   fieldValues: Record<string, string>;
   fields: Array<{ fieldName: string; fieldValue: string }>;
   storage: any;
+  /** Authenticated user creating the document (createdBy + audit trail) */
+  user?: Pick<User, 'id' | 'username'> | null;
+  /** Initial workflow status (default draft) */
+  workflowStatus?: DocumentWorkflowStatus;
+  /** Rows of the template's tables and chorus blocks, by table name (multi-sheet batch workbooks) */
+  tableData?: Record<string, Array<Record<string, string>>>;
+  /** Extra writes committed together with the document (batch jobs link their row and count it) */
+  onCreated?: (tx: DbTransaction, document: Document) => Promise<void>;
 }): Promise<any> {
-  const { templateUuid, templateFilePath, documentName, fieldValues, fields, storage } = params;
+  const { templateUuid, templateFilePath, documentName, storage } = params;
+  const tableData = params.tableData ?? {};
+
+  // Split the rows into <<TABLE>> data and {%#BLOCK%} instances by the template's table definitions
+  const { tableDataMap, blockDataMap } = Object.keys(tableData).length > 0
+    ? buildDocumentDataMaps(
+        await db.select().from(templateTables).where(eq(templateTables.templateUuid, templateUuid)),
+        Object.entries(tableData).map(([tableName, rows]) => ({ tableName, rows }))
+      )
+    : { tableDataMap: {}, blockDataMap: {} };
+
+  // Computed fields ({{tong_tien:=...}}) are derived from the row's other values and its tables
+  const templateFields = await storage.getTemplateFields(templateUuid);
+  const computedValues = evaluateComputedFields(templateFields, params.fieldValues, toComputedTableRows(tableDataMap, blockDataMap));
+  const fieldValues = { ...params.fieldValues, ...computedValues };
+  const fields = [
+    ...params.fields.filter(field => !(field.fieldName in computedValues)),
+    ...Object.entries(computedValues).map(([fieldName, fieldValue]) => ({ fieldName, fieldValue })),
+  ];
 
   // Generate physical document
   const generatedDoc = await generateDocument({
     templateFilePath,
     documentName,
-    fieldValues
+    fieldValues,
+    tableDataMap,
+    blockDataMap,
+    ...(await loadDocumentRenderOptions(templateFields, fieldValues)),
   });
 
-  // Create document record
-  const document = await storage.createDocument({
-    templateUuid,
-    name: documentName,
-    filePath: generatedDoc.filePath,
+  const { document, numbers } = await db.transaction(async (tx) => {
+    // Create document record
+    const [document] = await tx.insert(documents).values({
+      templateUuid,
+      name: documentName,
+      filePath: generatedDoc.filePath,
+      workflowStatus: params.workflowStatus,
+      createdBy: params.user?.id,
+      updatedBy: params.user?.id,
+    }).returning();
+
+    // Create document fields
+    if (fields.length > 0) {
+      await tx.insert(documentFields).values(fields.map(field => ({
+        documentUuid: document.uuid,
+        fieldName: field.fieldName,
+        fieldValue: field.fieldValue || '',
+      })));
+    }
+
+    for (const [tableName, rows] of Object.entries(tableData)) {
+      if (rows.length > 0) {
+        await tx.insert(documentTableData).values({ documentUuid: document.uuid, tableName, rows });
+      }
+    }
+
+    // Document numbers are allocated row by row, in the same order as the batch
+    const numbers = await allocateDocumentNumbers(document.uuid, getNumberingTriggers(document.workflowStatus), tx);
+
+    await params.onCreated?.(tx, document);
+    return { document, numbers };
   });
 
-  // Create document fields
-  for (const field of fields) {
-    await storage.createDocumentField({
-      documentUuid: document.uuid,
-      fieldName: field.fieldName,
-      fieldValue: field.fieldValue || '',
-    });
-  }
+  await createDocumentRevision(document.uuid, { createdBy: params.user?.id });
+
+  await recordAuditEvent({
+    entityType: 'document',
+    entityUuid: document.uuid,
+    action: 'create',
+    user: params.user,
+    after: {
+      name: documentName,
+      templateUuid,
+      workflowStatus: document.workflowStatus,
+      fields: { ...Object.fromEntries(fields.map(field => [field.fieldName, field.fieldValue || ''])), ...numbers },
+    },
+  });
 
   return document;
 }
\ No newline at end of file
@@ -4,6 +4,7 @@ import { v4 as uuidv4 } from 'uuid';
 import PizZip from 'pizzip';
 import { storage } from '../storage-uuid';
 import { processTemplateWithData, getEnhancedMammothOptions, getPreviewStyles } from './template-processor.service';
+import { resolveTemplateFilePath } from './template-version.service';
 
 export interface RegenerationResult {
   buffer: Buffer;
@@ -41,7 +42,7 @@ export async function regenerateDocument(documentUuid: string): Promise<Regenera
   });
 
   // Process template with field data
-  const templatePath = path.resolve(template.filePath);
+  const templatePath = path.resolve(await resolveTemplateFilePath(template, document.templateVersion));
   const result = await processTemplateWithData(templatePath, fieldMap);
 
   // Generate new file path if needed
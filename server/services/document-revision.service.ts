@@ -0,0 +1,239 @@
+/**
+ * Document revision history.
+ *
+ * Mỗi lần lưu document (tạo mới, PUT /api/documents/:uuid, lưu bảng) tạo một revision
+ * chụp lại toàn bộ nội dung: tên, field, dòng của bảng và chorus block.
+ * - Lưu mà nội dung không đổi (autosave) không tạo revision mới
+ * - Document có từ trước khi có tính năng này được chụp lại trước lần ghi đầu tiên (ensureBaselineRevision)
+ * - Khôi phục một revision ghi lại nội dung đó và tạo một revision mới (restoredFrom), không xóa lịch sử
+ */
+
+import { db } from '@db';
+import {
+  documents,
+  documentFields,
+  documentRevisions,
+  documentTableData,
+  templates,
+  users,
+  type DocumentRevision,
+  type DocumentRevisionDiff,
+} from '@shared/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { documentGeneratorCache } from './document-generator-cache.service';
+import { getDocumentNumbers } from './numbering.service';
+
+type RevisionContent = Pick<DocumentRevision, 'name' | 'templateUuid' | 'templateVersion' | 'fields' | 'tables'>;
+
+export class RevisionRestoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RevisionRestoreError";
+    Object.setPrototypeOf(this, RevisionRestoreError.prototype);
+  }
+}
+
+/**
+ * Current content of a document, in revision form. Null when the document does not exist.
+ */
+async function loadDocumentContent(documentUuid: string): Promise<RevisionContent | null> {
+  const [document] = await db.select().from(documents).where(eq(documents.uuid, documentUuid));
+  if (!document) return null;
+
+  const [fieldRows, tableRows] = await Promise.all([
+    db.select({ fieldName: documentFields.fieldName, fieldValue: documentFields.fieldValue })
+      .from(documentFields)
+      .where(eq(documentFields.documentUuid, documentUuid)),
+    db.select({ tableName: documentTableData.tableName, rows: documentTableData.rows })
+      .from(documentTableData)
+      .where(eq(documentTableData.documentUuid, documentUuid)),
+  ]);
+
+  const fields: Record<string, string> = {};
+  fieldRows.forEach(row => {
+    fields[row.fieldName] = row.fieldValue;
+  });
+  const tables: Record<string, Array<Record<string, string>>> = {};
+  tableRows.forEach(row => {
+    tables[row.tableName] = (row.rows as Array<Record<string, string>>) ?? [];
+  });
+
+  return {
+    name: document.name,
+    templateUuid: document.templateUuid,
+    templateVersion: document.templateVersion,
+    fields,
+    tables,
+  };
+}
+
+/** Same content, whatever the key order */
+function sameContent(a: RevisionContent, b: RevisionContent): boolean {
+  const normalize = (content: RevisionContent) => JSON.stringify([
+    content.name,
+    content.templateUuid,
+    content.templateVersion,
+    Object.keys(content.fields).sort().map(key => [key, content.fields[key]]),
+    Object.keys(content.tables).sort().map(key => [key, content.tables[key]]),
+  ]);
+  return normalize(a) === normalize(b);
+}
+
+async function getLatestRevision(documentUuid: string) {
+  const [latest] = await db
+    .select()
+    .from(documentRevisions)
+    .where(eq(documentRevisions.documentUuid, documentUuid))
+    .orderBy(desc(documentRevisions.revision))
+    .limit(1);
+  return latest ?? null;
+}
+
+/**
+ * Snapshot the current content of a document as a new revision.
+ * Returns the latest revision unchanged when the content is the same (autosave without edits).
+ */
+export async function createDocumentRevision(
+  documentUuid: string,
+  options: { createdBy?: string | null; restoredFrom?: number } = {}
+): Promise<DocumentRevision | null> {
+  const content = await loadDocumentContent(documentUuid);
+  if (!content) return null;
+
+  const latest = await getLatestRevision(documentUuid);
+  if (latest && options.restoredFrom === undefined && sameContent(latest, content)) {
+    return latest;
+  }
+
+  const [revision] = await db.insert(documentRevisions).values({
+    documentUuid,
+    revision: (latest?.revision ?? 0) + 1,
+    ...content,
+    restoredFrom: options.restoredFrom ?? null,
+    createdBy: options.createdBy ?? null,
+  }).returning();
+  return revision;
+}
+
+/**
+ * Documents saved before revisions existed have none: snapshot them before they are overwritten.
+ */
+export async function ensureBaselineRevision(documentUuid: string): Promise<void> {
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(documentRevisions)
+    .where(eq(documentRevisions.documentUuid, documentUuid));
+  if (count === 0) {
+    await createDocumentRevision(documentUuid);
+  }
+}
+
+/**
+ * Revisions of a document, newest first, without their content.
+ */
+export async function getDocumentRevisions(documentUuid: string) {
+  const revisions = await db
+    .select({ revision: documentRevisions, createdByUsername: users.username })
+    .from(documentRevisions)
+    .leftJoin(users, eq(documentRevisions.createdBy, users.id))
+    .where(eq(documentRevisions.documentUuid, documentUuid))
+    .orderBy(desc(documentRevisions.revision));
+
+  return revisions.map(({ revision: { fields, tables, ...revision }, createdByUsername }) => ({
+    ...revision,
+    createdByUsername,
+    fieldCount: Object.keys(fields).length,
+    tableCount: Object.keys(tables).length,
+  }));
+}
+
+export async function getDocumentRevision(documentUuid: string, revision: number) {
+  const [found] = await db
+    .select()
+    .from(documentRevisions)
+    .where(and(eq(documentRevisions.documentUuid, documentUuid), eq(documentRevisions.revision, revision)));
+  return found ?? null;
+}
+
+/**
+ * Field-by-field (and table-by-table) difference from one revision to another.
+ */
+export function diffDocumentRevisions(from: DocumentRevision, to: DocumentRevision): DocumentRevisionDiff {
+  const fieldNames = Array.from(new Set(Object.keys(from.fields).concat(Object.keys(to.fields))));
+  const tableNames = Array.from(new Set(Object.keys(from.tables).concat(Object.keys(to.tables))));
+
+  const fields: DocumentRevisionDiff['fields'] = [];
+  fieldNames.forEach(name => {
+    const before = name in from.fields ? from.fields[name] : null;
+    const after = name in to.fields ? to.fields[name] : null;
+    if (before === after) return;
+    fields.push({ name, status: before === null ? 'added' : after === null ? 'removed' : 'changed', before, after });
+  });
+
+  const tables: DocumentRevisionDiff['tables'] = [];
+  tableNames.forEach(name => {
+    const before = from.tables[name] ?? null;
+    const after = to.tables[name] ?? null;
+    if (JSON.stringify(before) === JSON.stringify(after)) return;
+    tables.push({ name, status: before === null ? 'added' : after === null ? 'removed' : 'changed', before, after });
+  });
+
+  return {
+    from: from.revision,
+    to: to.revision,
+    name: from.name !== to.name ? { before: from.name, after: to.name } : null,
+    fields,
+    tables,
+  };
+}
+
+/**
+ * Write a revision's content back to the document and record it as a new revision.
+ * The template must still exist; its version (if the revision was pinned) is restored too.
+ */
+export async function restoreDocumentRevision(
+  documentUuid: string,
+  source: DocumentRevision,
+  restoredBy?: string | null
+): Promise<DocumentRevision | null> {
+  const [template] = await db.select({ uuid: templates.uuid }).from(templates).where(eq(templates.uuid, source.templateUuid));
+  if (!template) {
+    throw new RevisionRestoreError(`Template of revision ${source.revision} no longer exists`);
+  }
+
+  await ensureBaselineRevision(documentUuid);
+  // A document keeps its allocated numbers, whatever revision is restored
+  const numbers = await getDocumentNumbers(documentUuid);
+
+  await db.transaction(async (tx) => {
+    await tx.update(documents)
+      .set({
+        name: source.name,
+        templateUuid: source.templateUuid,
+        templateVersion: source.templateVersion,
+        updatedBy: restoredBy,
+        updatedAt: new Date(),
+      })
+      .where(eq(documents.uuid, documentUuid));
+
+    await tx.delete(documentFields).where(eq(documentFields.documentUuid, documentUuid));
+    const fieldEntries = Object.entries({ ...source.fields, ...numbers });
+    if (fieldEntries.length > 0) {
+      await tx.insert(documentFields).values(
+        fieldEntries.map(([fieldName, fieldValue]) => ({ documentUuid, fieldName, fieldValue }))
+      );
+    }
+
+    await tx.delete(documentTableData).where(eq(documentTableData.documentUuid, documentUuid));
+    const tableEntries = Object.entries(source.tables);
+    if (tableEntries.length > 0) {
+      await tx.insert(documentTableData).values(
+        tableEntries.map(([tableName, rows]) => ({ documentUuid, tableName, rows }))
+      );
+    }
+  });
+
+  documentGeneratorCache.invalidate(documentUuid);
+
+  return await createDocumentRevision(documentUuid, { createdBy: restoredBy, restoredFrom: source.revision });
+}
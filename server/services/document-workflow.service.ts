@@ -0,0 +1,120 @@
+/**
+ * Document workflow (draft → submitted → approved → signed → issued).
+ *
+ * The lifecycle itself is configured in shared/document-workflow.ts; this service checks the
+ * user's role on the document's template and applies a transition.
+ */
+
+import { db } from '@db';
+import { documents, type Document, type User } from '@shared/schema';
+import {
+  DOCUMENT_WORKFLOW_LABELS,
+  DOCUMENT_WORKFLOW_TRANSITIONS,
+  INITIAL_WORKFLOW_STATUS,
+  findWorkflowTransition,
+  getWorkflowTransitions,
+  isWorkflowLocked,
+  type DocumentWorkflowStatus,
+} from '@shared/document-workflow';
+import { and, eq } from 'drizzle-orm';
+import { getTemplateRole, hasRole } from '../auth';
+import { recordAuditEvent } from './audit.service';
+import { createDocumentRevision } from './document-revision.service';
+import { allocateDocumentNumbers } from './numbering.service';
+
+export class WorkflowTransitionError extends Error {
+  constructor(message: string, public statusCode: 400 | 403 | 409) {
+    super(message);
+    this.name = "WorkflowTransitionError";
+    Object.setPrototypeOf(this, WorkflowTransitionError.prototype);
+  }
+}
+
+/** Message returned (409) when a locked document is edited */
+export function lockedDocumentMessage(status: DocumentWorkflowStatus): string {
+  return `Document is ${DOCUMENT_WORKFLOW_LABELS[status]} (${status}) and can no longer be edited`;
+}
+
+export function isDocumentLocked(document: Pick<Document, 'workflowStatus'>): boolean {
+  return isWorkflowLocked(document.workflowStatus);
+}
+
+/**
+ * Current status of a document and the transitions out of it, with whether the user may use each one.
+ */
+export async function getDocumentWorkflow(document: Pick<Document, 'templateUuid' | 'workflowStatus'>, user: User) {
+  const role = await getTemplateRole(user, document.templateUuid);
+  return {
+    status: document.workflowStatus,
+    locked: isWorkflowLocked(document.workflowStatus),
+    transitions: getWorkflowTransitions(document.workflowStatus).map(transition => ({
+      ...transition,
+      allowed: hasRole(role, transition.role),
+    })),
+  };
+}
+
+/**
+ * Apply a transition ("submit", "approve", ...) to a document.
+ * The update only matches the status it was checked against, so two concurrent transitions cannot both apply.
+ */
+export async function transitionDocument(
+  document: Pick<Document, 'uuid' | 'templateUuid' | 'workflowStatus'>,
+  action: string,
+  user: User
+): Promise<Document> {
+  const transition = findWorkflowTransition(document.workflowStatus, action);
+  if (!transition) {
+    throw new WorkflowTransitionError(`Cannot ${action} a document that is ${document.workflowStatus}`, 409);
+  }
+
+  const role = await getTemplateRole(user, document.templateUuid);
+  if (!hasRole(role, transition.role)) {
+    throw new WorkflowTransitionError(`Requires ${transition.role} role to ${action} this document`, 403);
+  }
+
+  // Numbers allocated on approval are given in the same transaction as the status change
+  const { updated, numbers } = await db.transaction(async (tx) => {
+    const [updated] = await tx.update(documents)
+      .set({ workflowStatus: transition.to, updatedBy: user.id, updatedAt: new Date() })
+      .where(and(eq(documents.uuid, document.uuid), eq(documents.workflowStatus, transition.from)))
+      .returning();
+    if (!updated) {
+      throw new WorkflowTransitionError('Document status changed meanwhile, reload and try again', 409);
+    }
+    const numbers = transition.to === 'approved' ? await allocateDocumentNumbers(document.uuid, ['approve'], tx) : {};
+    return { updated, numbers };
+  });
+
+  if (Object.keys(numbers).length > 0) {
+    await createDocumentRevision(document.uuid, { createdBy: user.id });
+  }
+
+  await recordAuditEvent({
+    entityType: 'document',
+    entityUuid: document.uuid,
+    action: 'status_change',
+    user,
+    before: { workflowStatus: transition.from },
+    after: { workflowStatus: transition.to, transition: transition.action, ...numbers },
+  });
+  console.log(`[Workflow] ${user.username} ${transition.action}: document ${document.uuid} ${transition.from} -> ${transition.to}`);
+
+  return updated;
+}
+
+/**
+ * Status of documents created from batch rows. An approved row ("approved" in batchDocuments)
+ * becomes an approved document when the user may approve documents of the template,
+ * otherwise it is submitted for approval; other rows start as drafts.
+ */
+export async function resolveBatchWorkflowStatus(
+  user: User | undefined,
+  templateUuid: string
+): Promise<(batchStatus: string) => DocumentWorkflowStatus> {
+  const approval = DOCUMENT_WORKFLOW_TRANSITIONS.find(transition => transition.to === 'approved');
+  const canApprove = !!user && !!approval && hasRole(await getTemplateRole(user, templateUuid), approval.role);
+  const approvedStatus: DocumentWorkflowStatus = canApprove ? 'approved' : approval?.from ?? INITIAL_WORKFLOW_STATUS;
+
+  return (batchStatus) => batchStatus === 'approved' ? approvedStatus : INITIAL_WORKFLOW_STATUS;
+}
@@ -1,7 +1,13 @@
 import * as XLSX from 'xlsx';
+import { db } from '@db';
+import { asc, eq } from 'drizzle-orm';
+import { templateTables, type TemplateTable } from '@shared/schema';
+import { isBatchMappableField, suggestBatchColumnMapping } from '@shared/batch-mapping';
+import { getTemplateFields } from '../storage-uuid';
+import { BATCH_DOCUMENT_KEY_COLUMN, getBatchSheetName } from './batch-workbook.service';
 
 export interface ExcelExportOptions {
-  templateId: number | string;
+  templateUuid: string;
   includeSampleData?: boolean;
   rowCount?: number;
 }
@@ -15,35 +21,45 @@ export interface ExcelField {
 }
 
 /**
- * Tạo file Excel từ template fields để nhập liệu hàng loạt
+ * Tạo file Excel từ template fields để nhập liệu hàng loạt.
+ * Template có bảng / chorus block: sheet đầu có thêm cột DOCUMENT_KEY, mỗi bảng một sheet riêng
+ * (đọc lại bởi batch-workbook.service.ts)
  */
 export async function generateExcelTemplate(options: ExcelExportOptions): Promise<Buffer> {
   console.log('EXCEL_TEMPLATE: Generating Excel template with options:', options);
   
   try {
-    // Import storage functions
-    const { getTemplateFields } = await import('../storage');
-    
-    // Lấy template fields
-    const fields = await getTemplateFields(options.templateId);
-    console.log('EXCEL_TEMPLATE: Retrieved fields:', fields.length);
+    // Lấy template fields và bảng
+    const fields = await getTemplateFields(options.templateUuid);
+    const tables = await db.select().from(templateTables)
+      .where(eq(templateTables.templateUuid, options.templateUuid))
+      .orderBy(asc(templateTables.position));
+    console.log('EXCEL_TEMPLATE: Retrieved fields:', fields.length, 'tables:', tables.length);
     
     if (!fields || fields.length === 0) {
       throw new Error('No fields found for template');
     }
 
+    const rowCount = options.rowCount || 10;
+    const includeSampleData = options.includeSampleData || false;
     const workbook = XLSX.utils.book_new();
     
-    // Tạo worksheet chính để nhập dữ liệu
-    const dataWs = createDataEntryWorksheet(fields, options.rowCount || 10, options.includeSampleData || false);
+    // Tạo worksheet chính để nhập dữ liệu (luôn là sheet đầu tiên)
+    const dataWs = createDataEntryWorksheet(fields, rowCount, includeSampleData, tables.length > 0);
     XLSX.utils.book_append_sheet(workbook, dataWs, 'Nhập liệu');
+
+    // Mỗi bảng / chorus block một sheet, các dòng gắn với văn bản qua DOCUMENT_KEY
+    tables.forEach(table => {
+      const tableWs = createTableWorksheet(table, rowCount, includeSampleData);
+      XLSX.utils.book_append_sheet(workbook, tableWs, getBatchSheetName(table.name));
+    });
     
     // Tạo worksheet hướng dẫn
-    const guideWs = createGuideWorksheet(fields);
+    const guideWs = createGuideWorksheet(fields, tables);
     XLSX.utils.book_append_sheet(workbook, guideWs, 'Hướng dẫn');
     
     // Tạo worksheet validation rules
-    const validationWs = createValidationWorksheet(fields);
+    const validationWs = createValidationWorksheet(batchColumnFields(fields));
     XLSX.utils.book_append_sheet(workbook, validationWs, 'Quy tắc');
     
     const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
@@ -56,17 +72,27 @@ export async function generateExcelTemplate(options: ExcelExportOptions): Promis
   }
 }
 
+/**
+ * Fields có cột trong sheet chính: bảng (row_group) có sheet riêng, computed fields được tính
+ * khi tạo văn bản, ảnh được upload theo từng văn bản
+ */
+function batchColumnFields(fields: any[]): any[] {
+  return fields.filter((field: any) =>
+    field.fieldType !== 'row_group' && field.fieldType !== 'image' && !field.expression
+  );
+}
+
 /**
  * Tạo worksheet chính để nhập dữ liệu
  */
-function createDataEntryWorksheet(fields: any[], rowCount: number, includeSampleData: boolean) {
+function createDataEntryWorksheet(fields: any[], rowCount: number, includeSampleData: boolean, withDocumentKey: boolean) {
   console.log('EXCEL_TEMPLATE: Creating data entry worksheet');
   
-  // Skip row_group (table) fields — they have no Excel column representation
-  const regularFields = fields.filter((field: any) => field.fieldType !== 'row_group');
+  const regularFields = batchColumnFields(fields);
+  const keyHeaders = withDocumentKey ? [BATCH_DOCUMENT_KEY_COLUMN] : [];
   
   // Header với Document Name làm cột đầu tiên, sử dụng field.name (template field name)
-  const headers = ['Document Name', ...regularFields.map((field: any) => field.name)];
+  const headers = ['Document Name', ...keyHeaders, ...regularFields.map((field: any) => field.name)];
   
   // Tạo dữ liệu
   const data = [headers];
@@ -78,11 +104,15 @@ function createDataEntryWorksheet(fields: any[], rowCount: number, includeSample
     if (includeSampleData && i === 0) {
       // Thêm dữ liệu mẫu cho row đầu tiên
       row[0] = 'Văn bản mẫu';
+      if (withDocumentKey) row.push('1');
       regularFields.forEach((field: any) => {
         row.push(generateSampleValue(field));
       });
     } else {
       // Thêm cells trống
+      keyHeaders.forEach(() => {
+        row.push('');
+      });
       regularFields.forEach(() => {
         row.push('');
       });
@@ -96,6 +126,7 @@ function createDataEntryWorksheet(fields: any[], rowCount: number, includeSample
   // Thiết lập độ rộng cột
   const colWidths = [
     { wch: 25 }, // Document Name
+    ...keyHeaders.map(() => ({ wch: 15 })),
     ...regularFields.map(() => ({ wch: 20 }))
   ];
   ws['!cols'] = colWidths;
@@ -103,10 +134,32 @@ function createDataEntryWorksheet(fields: any[], rowCount: number, includeSample
   return ws;
 }
 
+/**
+ * Tạo worksheet cho một bảng / chorus block: DOCUMENT_KEY + các cột của bảng
+ */
+function createTableWorksheet(table: TemplateTable, rowCount: number, includeSampleData: boolean) {
+  const columns = table.columns ?? [];
+  const data = [[BATCH_DOCUMENT_KEY_COLUMN, ...columns.map(column => column.name)]];
+
+  if (includeSampleData) {
+    // Hai dòng mẫu cho văn bản có khóa 1
+    data.push(['1', ...columns.map(column => generateSampleValue(column))]);
+    data.push(['1', ...columns.map(column => generateSampleValue(column))]);
+  }
+  for (let i = data.length - 1; i < rowCount; i++) {
+    data.push(['', ...columns.map(() => '')]);
+  }
+
+  const ws = XLSX.utils.aoa_to_sheet(data);
+  ws['!cols'] = [{ wch: 15 }, ...columns.map(() => ({ wch: 20 }))];
+
+  return ws;
+}
+
 /**
  * Tạo worksheet hướng dẫn
  */
-function createGuideWorksheet(fields: any[]) {
+function createGuideWorksheet(fields: any[], tables: TemplateTable[]) {
   const guideData = [
     ['HƯỚNG DẪN SỬ DỤNG FILE EXCEL NHẬP LIỆU HÀNG LOẠT'],
     [''],
@@ -120,13 +173,26 @@ function createGuideWorksheet(fields: any[]) {
     ['   - Cột "Document Name" là bắt buộc'],
     ['   - Không được để trống các trường bắt buộc'],
     ['   - Tuân thủ định dạng dữ liệu của từng trường'],
-    [''],
-    ['3. MÔ TẢ CÁC TRƯỜNG DỮ LIỆU:'],
     ['']
   ];
 
+  if (tables.length > 0) {
+    guideData.push(
+      ['BẢNG VÀ CHORUS BLOCK:'],
+      [`   - Mỗi văn bản có một khóa duy nhất trong cột "${BATCH_DOCUMENT_KEY_COLUMN}" của sheet "Nhập liệu"`],
+      [`   - Mỗi dòng trong sheet của bảng là một dòng bảng / một lần lặp block của văn bản có cùng ${BATCH_DOCUMENT_KEY_COLUMN}`],
+      ['   - Các dòng được lấy theo thứ tự trong sheet; không có dòng nào thì bảng để trống'],
+      ...tables.map(table => [
+        `   - Sheet "${getBatchSheetName(table.name)}": ${table.label} (${table.blockType === 'block' ? 'chorus block' : 'bảng'})`
+      ]),
+      ['']
+    );
+  }
+
+  guideData.push(['3. MÔ TẢ CÁC TRƯỜNG DỮ LIỆU:'], ['']);
+
   // Thêm thông tin từng field
-  fields.forEach((field, index) => {
+  batchColumnFields(fields).forEach((field, index) => {
     guideData.push([`${index + 1}. ${field.displayName || field.name || field.fieldName}`]);
     guideData.push([`   - Loại: ${getFieldTypeDescription(field.fieldType)}`]);
     guideData.push([`   - Bắt buộc: ${field.isRequired ? 'Có' : 'Không'}`]);
@@ -335,17 +401,21 @@ export function parseExcelForBatchCreation(buffer: Buffer, templateFields: any[]
 }
 
 /**
- * Map headers với template fields
+ * Map headers với template fields (cùng gợi ý với batch upload, shared/batch-mapping.ts)
  */
 function mapHeadersToFields(headers: string[], templateFields: any[]): any[] {
+  const suggestions = suggestBatchColumnMapping(
+    headers.map(header => String(header ?? '').trim()),
+    templateFields.filter(isBatchMappableField).map(field => field.name)
+  );
   return headers.map((header, index) => {
     // Cột đầu tiên là "Document Name", không cần map với template fields
     if (index === 0 && header === 'Document Name') {
       return { fieldName: 'Document Name', isDocumentName: true };
     }
     
-    // Tìm field khớp với header, chỉ sử dụng field.name (template field name)
-    return templateFields.find(field => field.name === header);
+    const fieldName = suggestions[index].fieldName;
+    return fieldName ? { fieldName } : undefined;
   });
 }
 
@@ -0,0 +1,208 @@
+/**
+ * Field dictionary (từ điển trường dùng chung).
+ *
+ * Một định nghĩa (ho_ten, cccd, dia_chi, ...) mô tả nhãn, kiểu, danh sách lựa chọn và ràng buộc của một trường
+ * dùng trong nhiều template. Template field liên kết tới định nghĩa qua templateFields.fieldDefinitionId.
+ * - Khi upload / thay file template, field mới được liên kết theo tên (không phân biệt hoa thường)
+ * - Tạo định nghĩa mới cũng liên kết các field cùng tên đã có
+ * - Sửa định nghĩa ghi lại placeholder / fieldType / options / validation của mọi field liên kết
+ * - Xóa định nghĩa chỉ bỏ liên kết, field giữ giá trị hiện tại
+ * - Field tính toán, bảng (row_group) và ảnh không được liên kết
+ */
+
+import { db } from '@db';
+import { fieldDefinitions, templateFields, templates, type FieldDefinition } from '@shared/schema';
+import { getFieldDefinitionKey, getLinkedFieldValues } from '@shared/field-dictionary';
+import { and, asc, eq, inArray, isNull, isNotNull, notInArray, sql } from 'drizzle-orm';
+import { templatePreviewCache } from './template-preview-cache.service';
+import { documentGeneratorCache } from './document-generator-cache.service';
+
+/** Field types that cannot follow a definition */
+const UNLINKABLE_FIELD_TYPES = ['row_group', 'image'];
+
+export class FieldDefinitionNameTakenError extends Error {
+  constructor(name: string) {
+    super(`A field definition named "${name}" already exists`);
+    this.name = "FieldDefinitionNameTakenError";
+    Object.setPrototypeOf(this, FieldDefinitionNameTakenError.prototype);
+  }
+}
+
+type FieldDefinitionInput = Pick<typeof fieldDefinitions.$inferInsert, 'name' | 'label' | 'fieldType' | 'options' | 'validation' | 'description'>;
+
+/** Why a template field cannot be linked to a definition, or null */
+export function getUnlinkableReason(field: { fieldType: string; expression: string | null }): string | null {
+  if (UNLINKABLE_FIELD_TYPES.includes(field.fieldType)) return `${field.fieldType} fields cannot use a field definition`;
+  if (field.expression) return 'Computed fields cannot use a field definition';
+  return null;
+}
+
+/** Condition on templateFields rows that may be linked */
+const linkableFieldCondition = and(
+  notInArray(templateFields.fieldType, UNLINKABLE_FIELD_TYPES),
+  isNull(templateFields.expression),
+);
+
+/**
+ * All definitions with the number of linked fields and of templates using them.
+ */
+export async function getFieldDefinitions() {
+  const [definitions, counts] = await Promise.all([
+    db.select().from(fieldDefinitions).orderBy(asc(fieldDefinitions.name)),
+    db.select({
+      fieldDefinitionId: templateFields.fieldDefinitionId,
+      fieldCount: sql<number>`count(*)::int`,
+      templateCount: sql<number>`count(distinct ${templateFields.templateUuid})::int`,
+    })
+      .from(templateFields)
+      .where(isNotNull(templateFields.fieldDefinitionId))
+      .groupBy(templateFields.fieldDefinitionId),
+  ]);
+
+  return definitions.map(definition => {
+    const count = counts.find(c => c.fieldDefinitionId === definition.id);
+    return { ...definition, fieldCount: count?.fieldCount ?? 0, templateCount: count?.templateCount ?? 0 };
+  });
+}
+
+export async function getFieldDefinition(id: string): Promise<FieldDefinition | null> {
+  const [definition] = await db.select().from(fieldDefinitions).where(eq(fieldDefinitions.id, id));
+  return definition ?? null;
+}
+
+async function checkDefinitionName(name: string, definitionId?: string) {
+  const [existing] = await db.select({ id: fieldDefinitions.id }).from(fieldDefinitions)
+    .where(sql`lower(${fieldDefinitions.name}) = ${getFieldDefinitionKey(name)}`);
+  if (existing && existing.id !== definitionId) throw new FieldDefinitionNameTakenError(name);
+}
+
+/**
+ * Write the definition's values on every linked field and invalidate the previews of
+ * the templates using it. Returns the number of fields updated.
+ */
+async function applyFieldDefinition(definition: FieldDefinition, fieldUuids?: string[]): Promise<number> {
+  const updated = await db.update(templateFields)
+    .set({ ...getLinkedFieldValues(definition), updatedAt: new Date() })
+    .where(and(
+      eq(templateFields.fieldDefinitionId, definition.id),
+      fieldUuids ? inArray(templateFields.uuid, fieldUuids) : undefined,
+    ))
+    .returning({ templateUuid: templateFields.templateUuid });
+
+  if (updated.length > 0) {
+    Array.from(new Set(updated.map(field => field.templateUuid))).forEach(templateUuid => {
+      templatePreviewCache.invalidate(templateUuid);
+    });
+    documentGeneratorCache.clear();
+  }
+  return updated.length;
+}
+
+/**
+ * Link the unlinked fields named like the definition, in every template.
+ */
+async function linkFieldsByName(definition: FieldDefinition): Promise<number> {
+  const linked = await db.update(templateFields)
+    .set({ fieldDefinitionId: definition.id, updatedAt: new Date() })
+    .where(and(
+      isNull(templateFields.fieldDefinitionId),
+      sql`lower(${templateFields.name}) = ${getFieldDefinitionKey(definition.name)}`,
+      linkableFieldCondition,
+    ))
+    .returning({ uuid: templateFields.uuid });
+  if (linked.length === 0) return 0;
+  return applyFieldDefinition(definition, linked.map(field => field.uuid));
+}
+
+export async function createFieldDefinition(data: FieldDefinitionInput & { createdBy?: string | null }) {
+  await checkDefinitionName(data.name);
+  const [definition] = await db.insert(fieldDefinitions)
+    .values({ ...data, updatedBy: data.createdBy })
+    .returning();
+  const linkedCount = await linkFieldsByName(definition);
+  return { definition, linkedCount };
+}
+
+/**
+ * Update a definition and every field linked to it. Returns null when the definition does not exist.
+ */
+export async function updateFieldDefinition(id: string, data: Partial<FieldDefinitionInput> & { updatedBy?: string | null }) {
+  if (data.name !== undefined) await checkDefinitionName(data.name, id);
+  const [definition] = await db.update(fieldDefinitions)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(fieldDefinitions.id, id))
+    .returning();
+  if (!definition) return null;
+
+  const updatedCount = await applyFieldDefinition(definition);
+  return { definition, updatedCount };
+}
+
+/** Delete a definition; linked fields keep their current values */
+export async function deleteFieldDefinition(id: string): Promise<boolean> {
+  const deleted = await db.delete(fieldDefinitions).where(eq(fieldDefinitions.id, id)).returning();
+  return deleted.length > 0;
+}
+
+/**
+ * Link the fields of a template to the definitions with the same name and re-apply the
+ * definitions of its linked fields (after an upload or a file replace wrote the file's syntax).
+ * Only unlinked fields in `fieldNames` are linked; all unlinked fields when omitted.
+ */
+export async function linkTemplateFieldsToDictionary(templateUuid: string, fieldNames?: string[]): Promise<number> {
+  const [fields, definitions] = await Promise.all([
+    db.select().from(templateFields).where(and(eq(templateFields.templateUuid, templateUuid), linkableFieldCondition)),
+    db.select().from(fieldDefinitions),
+  ]);
+  if (definitions.length === 0) return 0;
+
+  const definitionsByKey = new Map(definitions.map(definition => [getFieldDefinitionKey(definition.name), definition]));
+  const allowedKeys = fieldNames ? new Set(fieldNames.map(getFieldDefinitionKey)) : null;
+
+  let linkedCount = 0;
+  for (const field of fields) {
+    let definition = field.fieldDefinitionId ? definitions.find(d => d.id === field.fieldDefinitionId) : undefined;
+    if (!definition) {
+      const key = getFieldDefinitionKey(field.name);
+      if (allowedKeys && !allowedKeys.has(key)) continue;
+      definition = definitionsByKey.get(key);
+      if (!definition) continue;
+      linkedCount++;
+    }
+
+    await db.update(templateFields)
+      .set({ ...getLinkedFieldValues(definition), fieldDefinitionId: definition.id, updatedAt: new Date() })
+      .where(eq(templateFields.uuid, field.uuid));
+  }
+
+  if (linkedCount > 0) {
+    console.log(`[FieldDictionary] Linked ${linkedCount} field(s) of template ${templateUuid}`);
+  }
+  return linkedCount;
+}
+
+/**
+ * Link one template field to a definition (its values are applied) or unlink it (null).
+ */
+export async function setTemplateFieldDefinition(fieldUuid: string, definition: FieldDefinition | null) {
+  const [field] = await db.update(templateFields)
+    .set({
+      ...(definition ? getLinkedFieldValues(definition) : {}),
+      fieldDefinitionId: definition?.id ?? null,
+      updatedAt: new Date(),
+    })
+    .where(eq(templateFields.uuid, fieldUuid))
+    .returning();
+  return field ?? null;
+}
+
+/**
+ * Templates whose fields are linked to a definition, for the dictionary page.
+ */
+export async function getFieldDefinitionUsage(id: string) {
+  return db.select({ templateUuid: templates.uuid, templateName: templates.name, fieldName: templateFields.name })
+    .from(templateFields)
+    .innerJoin(templates, eq(templateFields.templateUuid, templates.uuid))
+    .where(eq(templateFields.fieldDefinitionId, id))
+    .orderBy(asc(templates.name));
+}
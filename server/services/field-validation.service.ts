@@ -0,0 +1,39 @@
+/**
+ * Server-side validation của giá trị field theo kiểu khai báo trong template
+ * ({{so_tien:number(min=0)}}, {{ngay:date}}, {{cccd:pattern('...')}}).
+ * Quy tắc nằm ở shared/field-validation.ts để client dùng chung.
+ */
+
+import { storage } from '../storage-uuid';
+import { validateFieldValues, type ValidatableField } from '@shared/field-validation';
+import { FileManagerService } from './file-manager.service';
+
+/**
+ * Validate submitted values against the fields of a template.
+ * Returns a map of field name → error message (empty when everything is valid).
+ */
+export function collectFieldErrors(
+  fields: ValidatableField[],
+  values: Record<string, string | null | undefined>
+): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  for (const error of validateFieldValues(fields, values)) {
+    fieldErrors[error.field] = error.message;
+  }
+  // Image fields hold the path returned by the image upload; anything else would be read from disk
+  for (const field of fields) {
+    const value = values[field.name];
+    if (field.fieldType === 'image' && value && !FileManagerService.isStoredImagePath(value)) {
+      fieldErrors[field.name] = 'Must be an uploaded image';
+    }
+  }
+  return fieldErrors;
+}
+
+export async function validateTemplateFieldValues(
+  templateUuid: string,
+  values: Record<string, string | null | undefined>
+): Promise<Record<string, string>> {
+  const fields = await storage.getTemplateFields(templateUuid);
+  return collectFieldErrors(fields, values);
+}
@@ -2,6 +2,8 @@ import fs from 'fs/promises';
 import path from 'path';
 import { ObjectStorageService, ObjectNotFoundError } from '../objectStorage';
 
+const LOCAL_IMAGE_DIR = path.join('storage', 'images');
+
 export class FileManagerService {
   
   private static getObjectStorage(): ObjectStorageService | null {
@@ -57,6 +59,55 @@ export class FileManagerService {
     return permanentPath;
   }
   
+  /**
+   * Store an image uploaded for an image field ({{%anh_the}}). Returns the stored path,
+   * which is saved as the field value.
+   */
+  static async saveUploadedImage(tempPath: string, originalName: string): Promise<string> {
+    const fileBuffer = await fs.readFile(tempPath);
+    const objectStorage = this.getObjectStorage();
+    
+    if (objectStorage) {
+      try {
+        const objectPath = objectStorage.generateImagePath(originalName);
+        await objectStorage.uploadBuffer(fileBuffer, objectPath);
+        await fs.unlink(tempPath).catch(() => {});
+        console.log(`[FileManager] Image uploaded to Object Storage: ${objectPath}`);
+        return objectPath;
+      } catch (error) {
+        console.error('[FileManager] Failed to upload image to Object Storage, falling back to local:', error);
+      }
+    }
+    
+    const sanitizedName = originalName.replace(/[^a-zA-Z0-9.-]/g, '_');
+    const permanentPath = path.join(LOCAL_IMAGE_DIR, `${Date.now()}_${sanitizedName}`);
+    await fs.mkdir(LOCAL_IMAGE_DIR, { recursive: true });
+    await fs.rename(tempPath, permanentPath);
+    
+    console.log(`[FileManager] Image saved to local: ${permanentPath}`);
+    return permanentPath;
+  }
+  
+  /**
+   * Whether a path was produced by saveUploadedImage. Field values are user input,
+   * so only these paths may be read back into a document.
+   */
+  static isStoredImagePath(filePath: string): boolean {
+    if (!filePath || filePath.includes('..')) return false;
+    if (filePath.startsWith('/')) {
+      const objectStorage = this.getObjectStorage();
+      return !!objectStorage && filePath.startsWith(`${objectStorage.getPrivateObjectDir()}/images/`);
+    }
+    return path.normalize(filePath).startsWith(`${LOCAL_IMAGE_DIR}${path.sep}`);
+  }
+  
+  static async readImageBuffer(filePath: string): Promise<Buffer> {
+    if (!this.isStoredImagePath(filePath)) {
+      throw new Error(`Not a stored image path: ${filePath}`);
+    }
+    return this.readTemplateBuffer(filePath);
+  }
+  
   static async readTemplateBuffer(filePath: string): Promise<Buffer> {
     if (filePath.startsWith('/')) {
       const objectStorage = this.getObjectStorage();
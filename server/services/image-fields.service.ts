@@ -0,0 +1,47 @@
+/**
+ * Image fields ({{%anh_the}}, {{chu_ky:image(3cm,4cm)}}): the field value is the stored path
+ * of the uploaded image. Rendering is synchronous, so the images are read before
+ * docxtemplater runs and passed in with the other per-document render options.
+ */
+
+import { FileManagerService } from './file-manager.service';
+import { buildChecklistRenderConfig } from '@shared/checklist';
+import type { DocumentRenderOptions } from '../utils/docx-parser';
+
+type RenderOptionField = Parameters<typeof buildChecklistRenderConfig>[0][number];
+
+/**
+ * Read the images of a document's image fields, by field name.
+ * Missing or unreadable images are skipped (the placeholder renders empty).
+ */
+export async function loadImageFieldBuffers(
+  fields: Array<{ name: string; fieldType: string }>,
+  values: Record<string, string | null | undefined>
+): Promise<Record<string, Buffer>> {
+  const images: Record<string, Buffer> = {};
+  await Promise.all(
+    fields
+      .filter(field => field.fieldType === 'image' && values[field.name])
+      .map(async field => {
+        try {
+          images[field.name] = await FileManagerService.readImageBuffer(values[field.name]!);
+        } catch (error) {
+          console.warn(`[ImageFields] Could not load image for field "${field.name}":`, error instanceof Error ? error.message : error);
+        }
+      })
+  );
+  return images;
+}
+
+/**
+ * Checklist render modes and images to render a document of the template with.
+ */
+export async function loadDocumentRenderOptions(
+  fields: RenderOptionField[],
+  values: Record<string, string | null | undefined>
+): Promise<DocumentRenderOptions> {
+  return {
+    checklists: buildChecklistRenderConfig(fields),
+    images: await loadImageFieldBuffers(fields, values),
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Master data (dữ liệu gốc: cá nhân, tổ chức, tài sản, ...).
+ *
+ * - Mỗi loại (master_data_types) có danh sách thuộc tính riêng; bản ghi lưu giá trị theo tên thuộc tính
+ * - Không xóa được loại còn bản ghi; xóa bản ghi chỉ bỏ liên kết, văn bản giữ giá trị đã điền
+ * - "Điền từ bản ghi" lưu liên kết văn bản ↔ bản ghi cùng mapping (document_record_links) để áp dụng lại
+ *   khi bản ghi thay đổi; liên kết "cũ" khi record.updatedAt > appliedAt
+ * - Các loại mặc định (DEFAULT_MASTER_DATA_TYPES) được tạo khi khởi động
+ */
+
+import { db } from '@db';
+import {
+  documentRecordLinks,
+  documents,
+  masterDataRecords,
+  masterDataTypes,
+  type MasterDataRecord,
+  type MasterDataType,
+} from '@shared/schema';
+import {
+  DEFAULT_MASTER_DATA_TYPES,
+  MASTER_DATA_RECORDS_PAGE_SIZE,
+  type MasterDataAttribute,
+  type RecordFieldMapping,
+} from '@shared/master-data';
+import { and, asc, desc, eq, ilike, inArray, or, sql } from 'drizzle-orm';
+import type { DbTransaction } from './numbering.service';
+
+export class MasterDataError extends Error {
+  constructor(message: string, public statusCode: 400 | 404 | 409) {
+    super(message);
+    this.name = "MasterDataError";
+    Object.setPrototypeOf(this, MasterDataError.prototype);
+  }
+}
+
+type MasterDataTypeInput = Pick<typeof masterDataTypes.$inferInsert, 'label' | 'attributes' | 'position'>;
+
+/**
+ * Create the default types that do not exist yet. Run on startup.
+ */
+export async function ensureDefaultMasterDataTypes(): Promise<void> {
+  const created = await db.insert(masterDataTypes)
+    .values(DEFAULT_MASTER_DATA_TYPES.map((type, index) => ({ ...type, position: index })))
+    .onConflictDoNothing({ target: masterDataTypes.key })
+    .returning({ key: masterDataTypes.key });
+  if (created.length > 0) {
+    console.log(`[MasterData] Created default types: ${created.map(t => t.key).join(', ')}`);
+  }
+}
+
+// ---------- Types ----------
+
+/**
+ * All types with their number of records.
+ */
+export async function getMasterDataTypes() {
+  const [types, counts] = await Promise.all([
+    db.select().from(masterDataTypes).orderBy(asc(masterDataTypes.position), asc(masterDataTypes.label)),
+    db.select({ typeId: masterDataRecords.typeId, count: sql<number>`count(*)::int` })
+      .from(masterDataRecords)
+      .groupBy(masterDataRecords.typeId),
+  ]);
+
+  return types.map(type => ({
+    ...type,
+    recordCount: counts.find(c => c.typeId === type.id)?.count ?? 0,
+  }));
+}
+
+export async function getMasterDataType(id: string): Promise<MasterDataType | null> {
+  const [type] = await db.select().from(masterDataTypes).where(eq(masterDataTypes.id, id));
+  return type ?? null;
+}
+
+export async function createMasterDataType(data: MasterDataTypeInput & { key: string }) {
+  const [existing] = await db.select({ id: masterDataTypes.id }).from(masterDataTypes).where(eq(masterDataTypes.key, data.key));
+  if (existing) {
+    throw new MasterDataError(`Type key "${data.key}" already exists`, 409);
+  }
+
+  const [type] = await db.insert(masterDataTypes).values(data).returning();
+  return type;
+}
+
+/**
+ * Update a type. Values of attributes removed from the list stay in the records
+ * (they reappear when the attribute is added back).
+ */
+export async function updateMasterDataType(id: string, data: Partial<MasterDataTypeInput>) {
+  const [type] = await db.update(masterDataTypes)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(masterDataTypes.id, id))
+    .returning();
+  return type ?? null;
+}
+
+/**
+ * Delete a type that has no record.
+ */
+export async function deleteMasterDataType(id: string): Promise<boolean> {
+  const type = await getMasterDataType(id);
+  if (!type) return false;
+
+  const [{ recordCount }] = await db.select({ recordCount: sql<number>`count(*)::int` })
+    .from(masterDataRecords)
+    .where(eq(masterDataRecords.typeId, id));
+  if (recordCount > 0) {
+    throw new MasterDataError(`Type has ${recordCount} record(s) and cannot be deleted`, 409);
+  }
+
+  await db.delete(masterDataTypes).where(eq(masterDataTypes.id, id));
+  return true;
+}
+
+// ---------- Records ----------
+
+/** Record values restricted to the attributes of the type, as trimmed strings */
+export function pickAttributeValues(attributes: MasterDataAttribute[], values: Record<string, unknown>): Record<string, string> {
+  const result: Record<string, string> = {};
+  attributes.forEach(attribute => {
+    const value = values[attribute.name];
+    if (value !== undefined && value !== null) result[attribute.name] = String(value).trim();
+  });
+  return result;
+}
+
+/**
+ * Records of a type (or of every type), searched in the name and the values, newest change first.
+ */
+export async function getMasterDataRecords(options: { typeId?: string; search?: string; page?: number }) {
+  const conditions = [];
+  if (options.typeId) conditions.push(eq(masterDataRecords.typeId, options.typeId));
+  if (options.search) {
+    const pattern = `%${options.search}%`;
+    conditions.push(or(ilike(masterDataRecords.name, pattern), sql`${masterDataRecords.values}::text ilike ${pattern}`));
+  }
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+  const page = Math.max(1, options.page ?? 1);
+
+  const [records, [{ total }]] = await Promise.all([
+    db.select().from(masterDataRecords)
+      .where(where)
+      .orderBy(desc(masterDataRecords.updatedAt))
+      .limit(MASTER_DATA_RECORDS_PAGE_SIZE)
+      .offset((page - 1) * MASTER_DATA_RECORDS_PAGE_SIZE),
+    db.select({ total: sql<number>`count(*)::int` }).from(masterDataRecords).where(where),
+  ]);
+
+  return { records, total, page, pageSize: MASTER_DATA_RECORDS_PAGE_SIZE };
+}
+
+export async function getMasterDataRecord(id: string): Promise<MasterDataRecord | null> {
+  const [record] = await db.select().from(masterDataRecords).where(eq(masterDataRecords.id, id));
+  return record ?? null;
+}
+
+export async function createMasterDataRecord(data: {
+  typeId: string;
+  name: string;
+  values: Record<string, string>;
+  createdBy?: string | null;
+}) {
+  const [record] = await db.insert(masterDataRecords)
+    .values({ ...data, updatedBy: data.createdBy })
+    .returning();
+  return record;
+}
+
+export async function updateMasterDataRecord(id: string, data: {
+  name?: string;
+  values?: Record<string, string>;
+  updatedBy?: string | null;
+}) {
+  const [record] = await db.update(masterDataRecords)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(masterDataRecords.id, id))
+    .returning();
+  return record ?? null;
+}
+
+/** Delete a record; documents filled from it keep their values */
+export async function deleteMasterDataRecord(id: string): Promise<boolean> {
+  const deleted = await db.delete(masterDataRecords).where(eq(masterDataRecords.id, id)).returning();
+  return deleted.length > 0;
+}
+
+/**
+ * Documents filled from a record, with whether the record changed since.
+ */
+export async function getRecordDocuments(recordId: string) {
+  return db.select({
+    linkId: documentRecordLinks.id,
+    documentUuid: documents.uuid,
+    documentName: documents.name,
+    appliedAt: documentRecordLinks.appliedAt,
+    outdated: sql<boolean>`${masterDataRecords.updatedAt} > ${documentRecordLinks.appliedAt}`,
+  })
+    .from(documentRecordLinks)
+    .innerJoin(documents, eq(documentRecordLinks.documentUuid, documents.uuid))
+    .innerJoin(masterDataRecords, eq(documentRecordLinks.recordId, masterDataRecords.id))
+    .where(eq(documentRecordLinks.recordId, recordId))
+    .orderBy(desc(documentRecordLinks.appliedAt));
+}
+
+// ---------- Document links ----------
+
+/**
+ * Records that exist among the given ids.
+ */
+export async function getExistingRecordIds(recordIds: string[]): Promise<string[]> {
+  if (recordIds.length === 0) return [];
+  const rows = await db.select({ id: masterDataRecords.id })
+    .from(masterDataRecords)
+    .where(inArray(masterDataRecords.id, recordIds));
+  return rows.map(row => row.id);
+}
+
+/**
+ * Remember the records a document was filled from. Filling again from the same record
+ * replaces its mapping.
+ */
+export async function linkDocumentRecords(
+  documentUuid: string,
+  links: Array<{ recordId: string; mapping: RecordFieldMapping }>,
+  appliedBy?: string | null,
+  tx?: DbTransaction
+): Promise<void> {
+  for (const link of links) {
+    await (tx ?? db).insert(documentRecordLinks)
+      .values({ documentUuid, recordId: link.recordId, mapping: link.mapping, appliedBy })
+      .onConflictDoUpdate({
+        target: [documentRecordLinks.documentUuid, documentRecordLinks.recordId],
+        set: { mapping: link.mapping, appliedBy, appliedAt: new Date() },
+      });
+  }
+}
+
+/**
+ * Records linked to a document, with their type, values and whether they changed since
+ * they were applied.
+ */
+export async function getDocumentRecordLinks(documentUuid: string) {
+  return db.select({
+    id: documentRecordLinks.id,
+    recordId: masterDataRecords.id,
+    recordName: masterDataRecords.name,
+    typeLabel: masterDataTypes.label,
+    values: masterDataRecords.values,
+    mapping: documentRecordLinks.mapping,
+    appliedAt: documentRecordLinks.appliedAt,
+    recordUpdatedAt: masterDataRecords.updatedAt,
+    outdated: sql<boolean>`${masterDataRecords.updatedAt} > ${documentRecordLinks.appliedAt}`,
+  })
+    .from(documentRecordLinks)
+    .innerJoin(masterDataRecords, eq(documentRecordLinks.recordId, masterDataRecords.id))
+    .innerJoin(masterDataTypes, eq(masterDataRecords.typeId, masterDataTypes.id))
+    .where(eq(documentRecordLinks.documentUuid, documentUuid))
+    .orderBy(asc(documentRecordLinks.createdAt));
+}
+
+export async function getDocumentRecordLink(documentUuid: string, linkId: string) {
+  const links = await getDocumentRecordLinks(documentUuid);
+  return links.find(link => link.id === linkId) ?? null;
+}
+
+export async function markDocumentRecordLinkApplied(linkId: string, appliedBy?: string | null): Promise<void> {
+  await db.update(documentRecordLinks)
+    .set({ appliedAt: new Date(), appliedBy })
+    .where(eq(documentRecordLinks.id, linkId));
+}
+
+export async function deleteDocumentRecordLink(documentUuid: string, linkId: string): Promise<boolean> {
+  const deleted = await db.delete(documentRecordLinks)
+    .where(and(eq(documentRecordLinks.id, linkId), eq(documentRecordLinks.documentUuid, documentUuid)))
+    .returning();
+  return deleted.length > 0;
+}
@@ -0,0 +1,213 @@
+/**
+ * Document numbering (số văn bản).
+ *
+ * Sequence được gán cho một template field; số được cấp khi tạo văn bản hoặc khi duyệt (allocateOn).
+ * - Tăng counter, ghi field và lưu document_numbers trong cùng một transaction: lỗi thì không mất số (không nhảy số)
+ * - Counter bị khóa dòng (upsert) đến khi commit, hai văn bản tạo cùng lúc không thể nhận trùng số
+ * - Văn bản đã có số thì giữ số đó (duyệt lại sau khi mở lại, sửa field, ...)
+ * - Tạo hàng loạt cấp số lần lượt theo thứ tự dòng
+ */
+
+import { db } from '@db';
+import {
+  documentFields,
+  documentNumbers,
+  documents,
+  numberingCounters,
+  numberingSequences,
+  templateFields,
+  templates,
+  type NumberingSequence,
+  type Template,
+} from '@shared/schema';
+import { formatSequenceNumber, getNumberingPeriodKey, type NumberingTrigger } from '@shared/numbering';
+import { isWorkflowLocked, type DocumentWorkflowStatus } from '@shared/document-workflow';
+import { and, asc, eq, sql } from 'drizzle-orm';
+import { documentGeneratorCache } from './document-generator-cache.service';
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** Field types that cannot hold a document number */
+const UNNUMBERABLE_FIELD_TYPES = ['row_group', 'checklist', 'image'];
+
+export class NumberingSequenceInUseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NumberingSequenceInUseError";
+    Object.setPrototypeOf(this, NumberingSequenceInUseError.prototype);
+  }
+}
+
+/** Why a template field cannot be numbered, or null */
+export function getUnnumberableReason(field: { fieldType: string; expression: string | null }): string | null {
+  if (UNNUMBERABLE_FIELD_TYPES.includes(field.fieldType)) return `${field.fieldType} fields cannot be numbered`;
+  if (field.expression) return 'Computed fields cannot be numbered';
+  return null;
+}
+
+function getScopeKey(sequence: NumberingSequence, template: Pick<Template, 'uuid' | 'category'>): string {
+  if (sequence.scope === 'template') return template.uuid;
+  if (sequence.scope === 'category') return template.category;
+  return '';
+}
+
+/** Numbers are given on creation, and also on approval for documents created already approved (batch) */
+export function getNumberingTriggers(status: DocumentWorkflowStatus): NumberingTrigger[] {
+  return isWorkflowLocked(status) ? ['create', 'approve'] : ['create'];
+}
+
+/**
+ * Allocate the numbers of a document's numbered fields for the given triggers, write them
+ * into the fields and return them (field name → number). Fields that already have a number keep it.
+ * Pass `tx` to allocate inside a surrounding transaction (e.g. with the approval status update).
+ */
+export async function allocateDocumentNumbers(
+  documentUuid: string,
+  triggers: NumberingTrigger[],
+  tx?: DbTransaction
+): Promise<Record<string, string>> {
+  const [row] = await (tx ?? db)
+    .select({ templateUuid: templates.uuid, category: templates.category })
+    .from(documents)
+    .innerJoin(templates, eq(documents.templateUuid, templates.uuid))
+    .where(eq(documents.uuid, documentUuid));
+  if (!row) return {};
+
+  const numberedFields = (await (tx ?? db)
+    .select({ fieldName: templateFields.name, sequence: numberingSequences })
+    .from(templateFields)
+    .innerJoin(numberingSequences, eq(templateFields.numberingSequenceId, numberingSequences.id))
+    .where(eq(templateFields.templateUuid, row.templateUuid))
+    .orderBy(asc(templateFields.position)))
+    .filter(({ sequence }) => triggers.includes(sequence.allocateOn));
+  if (numberedFields.length === 0) return {};
+
+  const allocate = async (t: DbTransaction) => {
+    const allocated: Record<string, string> = {};
+    const now = new Date();
+
+    for (const { fieldName, sequence } of numberedFields) {
+      const [existing] = await t.select({ id: documentNumbers.id })
+        .from(documentNumbers)
+        .where(and(eq(documentNumbers.documentUuid, documentUuid), eq(documentNumbers.fieldName, fieldName)));
+      if (existing) continue;
+
+      const scopeKey = getScopeKey(sequence, { uuid: row.templateUuid, category: row.category });
+      const periodKey = getNumberingPeriodKey(sequence.resetPeriod, now);
+      const [counter] = await t.insert(numberingCounters)
+        .values({ sequenceId: sequence.id, scopeKey, periodKey, value: 1 })
+        .onConflictDoUpdate({
+          target: [numberingCounters.sequenceId, numberingCounters.scopeKey, numberingCounters.periodKey],
+          set: { value: sql`${numberingCounters.value} + 1`, updatedAt: now },
+        })
+        .returning();
+      const formatted = formatSequenceNumber(sequence.pattern, counter.value, now);
+
+      await t.insert(documentNumbers).values({
+        documentUuid,
+        fieldName,
+        sequenceId: sequence.id,
+        scopeKey,
+        periodKey,
+        value: counter.value,
+        formatted,
+      });
+
+      const updated = await t.update(documentFields)
+        .set({ fieldValue: formatted, updatedAt: now })
+        .where(and(eq(documentFields.documentUuid, documentUuid), eq(documentFields.fieldName, fieldName)))
+        .returning({ uuid: documentFields.uuid });
+      if (updated.length === 0) {
+        await t.insert(documentFields).values({ documentUuid, fieldName, fieldValue: formatted });
+      }
+
+      allocated[fieldName] = formatted;
+    }
+    return allocated;
+  };
+
+  const allocated = tx ? await allocate(tx) : await db.transaction(allocate);
+
+  if (Object.keys(allocated).length > 0) {
+    documentGeneratorCache.invalidate(documentUuid);
+    console.log(`[Numbering] Document ${documentUuid}:`, allocated);
+  }
+  return allocated;
+}
+
+/**
+ * Numbers already given to a document (field name → number). Edits cannot change them.
+ */
+export async function getDocumentNumbers(documentUuid: string): Promise<Record<string, string>> {
+  const rows = await db
+    .select({ fieldName: documentNumbers.fieldName, formatted: documentNumbers.formatted })
+    .from(documentNumbers)
+    .where(eq(documentNumbers.documentUuid, documentUuid));
+  return Object.fromEntries(rows.map(r => [r.fieldName, r.formatted]));
+}
+
+/**
+ * Sequences with their counters and the template fields they are assigned to.
+ */
+export async function getNumberingSequences() {
+  const [sequences, counters, fields] = await Promise.all([
+    db.select().from(numberingSequences).orderBy(asc(numberingSequences.name)),
+    db.select().from(numberingCounters),
+    db.select({
+      sequenceId: templateFields.numberingSequenceId,
+      templateUuid: templateFields.templateUuid,
+      templateName: templates.name,
+      fieldName: templateFields.name,
+    })
+      .from(templateFields)
+      .innerJoin(templates, eq(templateFields.templateUuid, templates.uuid))
+      .where(sql`${templateFields.numberingSequenceId} is not null`),
+  ]);
+
+  return sequences.map(sequence => ({
+    ...sequence,
+    counters: counters
+      .filter(counter => counter.sequenceId === sequence.id)
+      .map(({ scopeKey, periodKey, value, updatedAt }) => ({ scopeKey, periodKey, value, updatedAt })),
+    fields: fields
+      .filter(field => field.sequenceId === sequence.id)
+      .map(({ templateUuid, templateName, fieldName }) => ({ templateUuid, templateName, fieldName })),
+  }));
+}
+
+export async function getNumberingSequence(id: string) {
+  const [sequence] = await db.select().from(numberingSequences).where(eq(numberingSequences.id, id));
+  return sequence ?? null;
+}
+
+export async function createNumberingSequence(data: typeof numberingSequences.$inferInsert) {
+  const [sequence] = await db.insert(numberingSequences).values(data).returning();
+  return sequence;
+}
+
+export async function updateNumberingSequence(
+  id: string,
+  data: Partial<Pick<typeof numberingSequences.$inferInsert, 'name' | 'pattern' | 'resetPeriod' | 'scope' | 'allocateOn'>>
+) {
+  const [sequence] = await db.update(numberingSequences)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(numberingSequences.id, id))
+    .returning();
+  return sequence ?? null;
+}
+
+/**
+ * Delete a sequence that never numbered a document. Assigned fields become plain fields.
+ */
+export async function deleteNumberingSequence(id: string): Promise<boolean> {
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(documentNumbers)
+    .where(eq(documentNumbers.sequenceId, id));
+  if (count > 0) {
+    throw new NumberingSequenceInUseError(`Sequence has numbered ${count} document(s) and cannot be deleted`);
+  }
+
+  const deleted = await db.delete(numberingSequences).where(eq(numberingSequences.id, id)).returning();
+  return deleted.length > 0;
+}
@@ -0,0 +1,93 @@
+/**
+ * PDF Converter Service
+ *
+ * Converts generated .docx buffers to PDF with headless LibreOffice (works offline).
+ *
+ * - LIBREOFFICE_PATH: soffice binary (default "soffice" on PATH)
+ * - PDF_CONVERSION_TIMEOUT_MS: per-document timeout (default 60s)
+ *
+ * LibreOffice does not handle concurrent conversions sharing one profile well,
+ * so conversions run one at a time, each with its own temporary profile.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+export type DocumentExportFormat = 'docx' | 'pdf';
+
+export const DOCUMENT_EXPORT_FORMATS: DocumentExportFormat[] = ['docx', 'pdf'];
+
+export const PDF_CONTENT_TYPE = 'application/pdf';
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+export class PdfConverterUnavailableError extends Error {
+  constructor() {
+    super("PDF converter not available (LibreOffice not installed)");
+    this.name = "PdfConverterUnavailableError";
+    Object.setPrototypeOf(this, PdfConverterUnavailableError.prototype);
+  }
+}
+
+/**
+ * Read the requested export format; undefined / '' means docx, anything unknown is null.
+ */
+export function parseExportFormat(value: unknown): DocumentExportFormat | null {
+  if (value === undefined || value === null || value === '') return 'docx';
+  const format = String(value).toLowerCase();
+  return DOCUMENT_EXPORT_FORMATS.includes(format as DocumentExportFormat) ? (format as DocumentExportFormat) : null;
+}
+
+function getTimeoutMs(): number {
+  const configured = parseInt(process.env.PDF_CONVERSION_TIMEOUT_MS || '', 10);
+  return configured > 0 ? configured : DEFAULT_TIMEOUT_MS;
+}
+
+function runSoffice(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(process.env.LIBREOFFICE_PATH || 'soffice', args, { timeout: getTimeoutMs() }, (error, _stdout, stderr) => {
+      if (!error) return resolve();
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return reject(new PdfConverterUnavailableError());
+      reject(new Error(`PDF conversion failed: ${error.killed ? 'timed out' : (stderr || error.message).trim()}`));
+    });
+  });
+}
+
+async function convert(docxBuffer: Buffer): Promise<Buffer> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docx-pdf-'));
+  try {
+    const inputPath = path.join(workDir, 'document.docx');
+    await fs.writeFile(inputPath, docxBuffer);
+
+    await runSoffice([
+      '--headless',
+      '--norestore',
+      `-env:UserInstallation=${pathToFileURL(path.join(workDir, 'profile')).href}`,
+      '--convert-to', 'pdf',
+      '--outdir', workDir,
+      inputPath,
+    ]);
+
+    try {
+      return await fs.readFile(path.join(workDir, 'document.pdf'));
+    } catch {
+      throw new Error('PDF conversion failed: no output produced');
+    }
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Convert a .docx buffer to PDF. Calls are queued and run one at a time.
+ */
+export function convertDocxToPdf(docxBuffer: Buffer): Promise<Buffer> {
+  const result = queue.then(() => convert(docxBuffer));
+  queue = result.catch(() => {});
+  return result;
+}
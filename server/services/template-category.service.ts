@@ -0,0 +1,131 @@
+/**
+ * Template categories (loại mẫu).
+ *
+ * Danh mục được quản lý trong bảng template_categories thay cho enum cố định trước đây.
+ * - Template lưu key của danh mục; key không đổi được nên đổi tên / chuyển danh mục cha không ảnh hưởng template
+ * - Danh mục có thể lồng nhau (parentId); lọc theo danh mục cha trả về cả template của danh mục con
+ * - Không xóa được danh mục còn template hoặc danh mục con
+ * - Các danh mục của enum cũ được tạo khi khởi động (xem DEFAULT_TEMPLATE_CATEGORIES)
+ */
+
+import { db } from '@db';
+import { templateCategories, templates, type TemplateCategory } from '@shared/schema';
+import {
+  DEFAULT_TEMPLATE_CATEGORIES,
+  getTemplateCategoryKeysWithDescendants,
+  isTemplateCategoryDescendant,
+} from '@shared/template-categories';
+import { asc, eq, sql } from 'drizzle-orm';
+
+export class TemplateCategoryError extends Error {
+  constructor(message: string, public statusCode: 400 | 404 | 409) {
+    super(message);
+    this.name = "TemplateCategoryError";
+    Object.setPrototypeOf(this, TemplateCategoryError.prototype);
+  }
+}
+
+type TemplateCategoryInput = Pick<typeof templateCategories.$inferInsert, 'label' | 'labelEn' | 'color' | 'icon' | 'parentId' | 'position'>;
+
+/**
+ * Create the categories of the former enum that do not exist yet. Run on startup.
+ */
+export async function ensureDefaultTemplateCategories(): Promise<void> {
+  const created = await db.insert(templateCategories)
+    .values(DEFAULT_TEMPLATE_CATEGORIES.map((category, index) => ({ ...category, position: index })))
+    .onConflictDoNothing({ target: templateCategories.key })
+    .returning({ key: templateCategories.key });
+  if (created.length > 0) {
+    console.log(`[TemplateCategories] Created default categories: ${created.map(c => c.key).join(', ')}`);
+  }
+}
+
+/**
+ * All categories with the number of templates filed directly under each one.
+ */
+export async function getTemplateCategories() {
+  const [categories, counts] = await Promise.all([
+    db.select().from(templateCategories).orderBy(asc(templateCategories.position), asc(templateCategories.label)),
+    db.select({ category: templates.category, count: sql<number>`count(*)::int` })
+      .from(templates)
+      .groupBy(templates.category),
+  ]);
+
+  return categories.map(category => ({
+    ...category,
+    templateCount: counts.find(c => c.category === category.key)?.count ?? 0,
+  }));
+}
+
+export async function getTemplateCategory(id: string): Promise<TemplateCategory | null> {
+  const [category] = await db.select().from(templateCategories).where(eq(templateCategories.id, id));
+  return category ?? null;
+}
+
+export async function templateCategoryExists(key: string): Promise<boolean> {
+  const [category] = await db.select({ id: templateCategories.id })
+    .from(templateCategories)
+    .where(eq(templateCategories.key, key));
+  return !!category;
+}
+
+/**
+ * Keys matched by a category filter: the category and its sub-categories.
+ */
+export async function expandTemplateCategoryFilter(key: string): Promise<string[]> {
+  const categories = await db.select().from(templateCategories);
+  return getTemplateCategoryKeysWithDescendants(categories, key);
+}
+
+async function checkParent(parentId: string | null | undefined, categoryId?: string) {
+  if (!parentId) return;
+  const categories = await db.select().from(templateCategories);
+  if (!categories.some(c => c.id === parentId)) {
+    throw new TemplateCategoryError('Parent category not found', 400);
+  }
+  if (categoryId && isTemplateCategoryDescendant(categories, categoryId, parentId)) {
+    throw new TemplateCategoryError('A category cannot be moved under itself or one of its sub-categories', 400);
+  }
+}
+
+export async function createTemplateCategory(data: TemplateCategoryInput & { key: string }) {
+  if (await templateCategoryExists(data.key)) {
+    throw new TemplateCategoryError(`Category key "${data.key}" already exists`, 409);
+  }
+  await checkParent(data.parentId);
+
+  const [category] = await db.insert(templateCategories).values(data).returning();
+  return category;
+}
+
+export async function updateTemplateCategory(id: string, data: Partial<TemplateCategoryInput>) {
+  await checkParent(data.parentId, id);
+
+  const [category] = await db.update(templateCategories)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(templateCategories.id, id))
+    .returning();
+  return category ?? null;
+}
+
+/**
+ * Delete a category that has no template and no sub-category.
+ */
+export async function deleteTemplateCategory(id: string): Promise<boolean> {
+  const category = await getTemplateCategory(id);
+  if (!category) return false;
+
+  const [[{ templateCount }], [{ childCount }]] = await Promise.all([
+    db.select({ templateCount: sql<number>`count(*)::int` }).from(templates).where(eq(templates.category, category.key)),
+    db.select({ childCount: sql<number>`count(*)::int` }).from(templateCategories).where(eq(templateCategories.parentId, id)),
+  ]);
+  if (templateCount > 0) {
+    throw new TemplateCategoryError(`Category is used by ${templateCount} template(s) and cannot be deleted`, 409);
+  }
+  if (childCount > 0) {
+    throw new TemplateCategoryError(`Category has ${childCount} sub-categor${childCount === 1 ? 'y' : 'ies'} and cannot be deleted`, 409);
+  }
+
+  await db.delete(templateCategories).where(eq(templateCategories.id, id));
+  return true;
+}
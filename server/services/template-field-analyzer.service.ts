@@ -7,27 +7,51 @@
  * - Default value: {{fieldName='default value'}}
  * - Checklist: {{fieldName['opt1']['opt2']['opt3']}}
  * - Checklist with default: {{fieldName='default'['opt1']['opt2']['opt3']}}
+ * - Checklist render mode: {{fieldName['opt1']['opt2']|boxes}} (☒/☐) hoặc |list (gạch đầu dòng),
+ *   xem shared/checklist.ts
  * - Legacy pipe syntax: {{fieldName|opt1|opt2}} (backward compatible)
+ * - Typed field: {{fieldName:number(min=0)}}, {{fieldName:date}}, {{fieldName:pattern('^[0-9]+$')}}
+ *   (xem shared/field-validation.ts)
+ * - Formatter: {{fieldName|date:'dd/MM/yyyy'}}, {{fieldName|currency:VND}}, {{fieldName|words:vi}}
+ *   (chỉ ảnh hưởng lúc render, xem server/utils/value-formatters.ts)
+ * - Computed: {{fieldName:=sum(bang.cot)}}, {{fieldName:=addDays(ngay_bat_dau, 30)}}
+ *   (tính ở server khi lưu/render, xem shared/computed-fields.ts)
+ * - Điều kiện: {{#if fieldName == 'value'}}…{{else}}…{{/if}} — các field trong điều kiện
+ *   cũng được đưa vào form (xem server/utils/template-conditions.ts)
  */
 
 import mammoth from 'mammoth';
 import PizZip from 'pizzip';
-import Docxtemplater from 'docxtemplater';
 import { storage } from '../storage-uuid';
+import { extractPlaceholderOccurrences, type DocxPartLocation, type PlaceholderOccurrence } from '../utils/docx-parts';
+import { extractFieldTypeSpec, type FieldValidation, type TypedFieldType } from '@shared/field-validation';
+import { extractComputedExpression, validateComputedExpression } from '@shared/computed-fields';
+import { extractFormatters, getChecklistModeFormatter } from '../utils/value-formatters';
+import type { ChecklistRenderMode } from '@shared/checklist';
+import { expandConditionOccurrences } from '../utils/template-conditions';
 
 export interface TemplateField {
   name: string;
   displayName: string;
-  fieldType: 'text' | 'textarea' | 'number' | 'date' | 'select' | 'checklist';
+  fieldType: 'text' | 'textarea' | 'number' | 'email' | 'date' | 'image' | 'select' | 'checklist';
   required: boolean;
   options?: string; // JSON array for checklist: ["opt1", "opt2"]
   defaultValue?: string; // Default value for the field
+  locations?: DocxPartLocation[]; // Nơi placeholder xuất hiện: body, header, footer, footnote, endnote, textbox
+  validation?: FieldValidation; // Ràng buộc khai báo bằng cú pháp {{field:type(...)}}
+  conditional?: boolean; // Được dùng trong điều kiện {{#if ...}}
+  expression?: string; // Công thức của computed field {{field:=...}}
+  checklistMode?: ChecklistRenderMode; // Cách in checklist: |boxes hoặc |list
 }
 
 interface ParsedFieldSyntax {
   name: string;
   defaultValue?: string;
   options?: string[];
+  declaredType?: TypedFieldType;
+  validation?: FieldValidation;
+  expression?: string;
+  checklistMode?: ChecklistRenderMode;
 }
 
 export class TemplateFieldAnalyzer {
@@ -37,11 +61,18 @@ export class TemplateFieldAnalyzer {
    */
   static async analyzeFields(templateBuffer: Buffer): Promise<TemplateField[]> {
     try {
-      // Bước 1: Extract placeholders từ DOCX XML structure
-      const placeholders = await this.extractPlaceholdersFromDocx(templateBuffer);
+      // Bước 1: Extract placeholders từ tất cả content parts (body, header, footer, notes, text box)
+      const occurrences = await this.extractPlaceholdersFromDocx(templateBuffer);
       
       // Bước 2: Convert placeholders thành field objects với metadata
-      const fields = this.convertPlaceholdersToFields(placeholders);
+      const converted = this.convertPlaceholdersToFields(occurrences.map(o => o.raw));
+      converted.forEach((field, index) => {
+        field.locations = occurrences[index].locations;
+        if (occurrences[index].conditional) field.conditional = true;
+      });
+      
+      // Bước 3: Gộp các placeholder cùng tên ({{so_tien}} và {{so_tien|words:vi}} là một field)
+      const fields = this.mergeFieldsByName(converted);
       
       console.log(`Analyzed ${fields.length} fields from template:`, fields.map(f => f.name));
       return fields;
@@ -54,37 +85,28 @@ export class TemplateFieldAnalyzer {
   }
   
   /**
-   * Extract placeholders trực tiếp từ DOCX XML structure
+   * Extract placeholders trực tiếp từ DOCX XML structure.
+   * Quét word/document.xml, header*.xml, footer*.xml, footnotes, endnotes và text box,
+   * trả về kèm vị trí xuất hiện của từng placeholder.
+   * Tag điều kiện {{#if ...}} được thay bằng các field mà nó tham chiếu; {{else}}/{{/if}} bị bỏ qua.
    */
-  private static async extractPlaceholdersFromDocx(buffer: Buffer): Promise<string[]> {
+  static async extractPlaceholdersFromDocx(buffer: Buffer): Promise<PlaceholderOccurrence[]> {
     try {
-      // Method 1: Sử dụng docxtemplater để kiểm tra placeholders
+      // Method 1: Extract từ XML của mọi content part
       const zip = new PizZip(buffer);
-      const doc = new Docxtemplater(zip, {
-        paragraphLoop: true,
-        linebreaks: true,
-        errorLogging: false,
-        delimiters: { start: '{', end: '}' }
-      });
+      const occurrences = expandConditionOccurrences(extractPlaceholderOccurrences(zip));
       
-      // Method 2: Extract từ XML content trực tiếp
-      const documentXml = zip.files['word/document.xml'];
-      if (documentXml) {
-        const xmlContent = documentXml.asText();
-        const placeholders = this.extractFromXml(xmlContent);
-        
-        if (placeholders.length > 0) {
-          console.log('Extracted placeholders from XML:', placeholders);
-          return placeholders;
-        }
+      if (occurrences.length > 0) {
+        console.log('Extracted placeholders from XML:', occurrences.map(o => `${o.raw} [${o.locations.join(',')}]`));
+        return occurrences;
       }
       
-      // Method 3: Fallback - extract từ text content
+      // Method 2: Fallback - extract từ text content (chỉ có body)
       const result = await mammoth.extractRawText({ buffer });
       const textPlaceholders = this.extractFromText(result.value);
       
       console.log('Extracted placeholders from text:', textPlaceholders);
-      return textPlaceholders;
+      return expandConditionOccurrences(textPlaceholders.map(raw => ({ raw, locations: ['body'] })));
       
     } catch (error) {
       console.error('Error extracting placeholders:', error);
@@ -92,61 +114,6 @@ export class TemplateFieldAnalyzer {
     }
   }
   
-  /**
-   * Bước 1: Nối tất cả <w:t> nodes thành chuỗi text liên tục
-   * Giải quyết vấn đề Word chia nhỏ placeholder thành nhiều XML runs
-   */
-  private static collectRunsFromXml(xmlContent: string): string {
-    // Extract tất cả nội dung từ <w:t> tags và nối lại
-    const textParts: string[] = [];
-    const wtRegex = /<w:t[^>]*>([^<]*)<\/w:t>/g;
-    let match;
-    
-    while ((match = wtRegex.exec(xmlContent)) !== null) {
-      textParts.push(match[1]);
-    }
-    
-    const collectedText = textParts.join('');
-    console.log('[Parser] Collected text from XML runs:', collectedText.substring(0, 500) + '...');
-    return collectedText;
-  }
-
-  /**
-   * Extract placeholders từ XML content
-   * Sử dụng collectRuns để nối text trước khi tìm placeholder
-   */
-  private static extractFromXml(xmlContent: string): string[] {
-    const placeholders: string[] = [];
-    
-    // Bước 1: Nối tất cả text từ XML runs
-    const collectedText = this.collectRunsFromXml(xmlContent);
-    
-    // Bước 2: Tìm placeholders với double braces {{...}}
-    const doubleBraceRegex = /\{\{([^{}]+)\}\}/g;
-    let match;
-    
-    while ((match = doubleBraceRegex.exec(collectedText)) !== null) {
-      const placeholder = match[1].trim();
-      if (placeholder && !placeholders.includes(placeholder)) {
-        placeholders.push(placeholder);
-      }
-    }
-    
-    // Bước 3: Fallback - tìm single braces {..} nếu không tìm thấy double braces
-    if (placeholders.length === 0) {
-      const singleBraceRegex = /\{([^{}]+)\}/g;
-      while ((match = singleBraceRegex.exec(collectedText)) !== null) {
-        const placeholder = match[1].trim();
-        if (placeholder && !placeholders.includes(placeholder)) {
-          placeholders.push(placeholder);
-        }
-      }
-    }
-    
-    console.log('[Parser] Extracted placeholders:', placeholders);
-    return placeholders;
-  }
-  
   /**
    * Extract placeholders từ text content
    */
@@ -176,9 +143,23 @@ export class TemplateFieldAnalyzer {
    * - {{field|opt1|opt2}}
    * - {{field=default|opt1|opt2}}
    * 
-   * Returns: { name, defaultValue, options }
+   * Cú pháp kiểu dữ liệu (đứng ngay sau tên field):
+   * - {{field:number(min=0)}}, {{field:date}}, {{field:email}}, {{field:pattern('^[0-9]+$')}}
+   * - Ảnh: {{%field}} hoặc {{field:image(3cm,4cm)}}
+   * 
+   * Computed field: {{field:=biểu thức}}
+   * 
+   * Returns: { name, defaultValue, options, declaredType, validation, expression, checklistMode }
    */
-  private static parseFieldSyntax(placeholder: string): ParsedFieldSyntax {
+  private static parseFieldSyntax(rawPlaceholder: string): ParsedFieldSyntax {
+    // Tách |formatter, :=biểu thức và :type(...) trước, vì chúng có thể chứa '=' hoặc '|'
+    const { placeholder: withoutFormatters, formatters } = extractFormatters(rawPlaceholder);
+    const computed = extractComputedExpression(withoutFormatters);
+    const expressionError = computed.expression ? validateComputedExpression(computed.expression) : null;
+    if (expressionError) {
+      console.warn(`[TemplateFieldAnalyzer] Invalid computed expression in {{${rawPlaceholder}}}: ${expressionError}`);
+    }
+    const { placeholder, spec } = extractFieldTypeSpec(computed.placeholder);
     let name = placeholder;
     let defaultValue: string | undefined;
     let options: string[] | undefined;
@@ -297,7 +278,15 @@ export class TemplateFieldAnalyzer {
       }
     }
     
-    return { name, defaultValue, options };
+    return {
+      name,
+      defaultValue,
+      options,
+      declaredType: spec?.fieldType,
+      validation: spec?.validation,
+      expression: computed.expression ?? undefined,
+      checklistMode: getChecklistModeFormatter(formatters),
+    };
   }
   
   /**
@@ -316,6 +305,9 @@ export class TemplateFieldAnalyzer {
         // Has options => checklist type
         fieldType = 'checklist';
         options = JSON.stringify(parsed.options);
+      } else if (parsed.declaredType) {
+        // Type declared in the placeholder: {{field:number}}
+        fieldType = parsed.declaredType;
       } else {
         // Infer type from name
         fieldType = this.inferFieldType(parsed.name);
@@ -331,12 +323,44 @@ export class TemplateFieldAnalyzer {
         required: this.inferRequired(parsed.name),
         options,
         defaultValue: parsed.defaultValue,
+        validation: parsed.validation,
+        expression: parsed.expression,
+        checklistMode: parsed.checklistMode,
       };
       
       return field;
     });
   }
   
+  /**
+   * Merge fields that share a name (case-insensitive): first occurrence keeps its position,
+   * later ones only fill in missing metadata and add their locations.
+   */
+  private static mergeFieldsByName(fields: TemplateField[]): TemplateField[] {
+    const merged = new Map<string, TemplateField>();
+    for (const field of fields) {
+      const key = field.name.toLowerCase();
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...field, locations: [...(field.locations ?? [])] });
+        continue;
+      }
+      if (existing.options === undefined && field.options !== undefined) {
+        existing.options = field.options;
+        existing.fieldType = field.fieldType;
+      }
+      if (existing.defaultValue === undefined) existing.defaultValue = field.defaultValue;
+      if (existing.validation === undefined) existing.validation = field.validation;
+      if (existing.expression === undefined) existing.expression = field.expression;
+      if (existing.checklistMode === undefined) existing.checklistMode = field.checklistMode;
+      if (field.conditional) existing.conditional = true;
+      for (const location of field.locations ?? []) {
+        if (!existing.locations!.includes(location)) existing.locations!.push(location);
+      }
+    }
+    return Array.from(merged.values());
+  }
+  
   /**
    * Generate display name từ field name
    */
@@ -443,6 +467,11 @@ export class TemplateFieldAnalyzer {
         required: field.required,
         options: field.options || undefined,
         defaultValue: field.defaultValue || undefined,
+        locations: field.locations,
+        validation: field.validation,
+        conditional: field.conditional,
+        expression: field.expression,
+        checklistMode: field.checklistMode,
       }));
       
       // Update fields trong database
@@ -0,0 +1,168 @@
+/**
+ * Template tags, personal folders and favourites.
+ *
+ * - Tags (templates.tags) dùng chung cho mọi người, được chuẩn hóa chữ thường (shared/template-organization.ts)
+ * - Folder và favourite là của riêng từng user; mọi thao tác đều lọc theo userId
+ * - Template "dùng gần đây" là template của các văn bản user tạo gần nhất (documents.createdBy)
+ */
+
+import { db } from '@db';
+import {
+  documents,
+  templateFavorites,
+  templateFolderItems,
+  templateFolders,
+  templates,
+  type TemplateFolder,
+} from '@shared/schema';
+import { normalizeTemplateTags, RECENT_TEMPLATES_LIMIT } from '@shared/template-organization';
+import { and, asc, desc, eq, inArray, sql } from 'drizzle-orm';
+
+export class TemplateFolderNameTakenError extends Error {
+  constructor(name: string) {
+    super(`A folder named "${name}" already exists`);
+    this.name = "TemplateFolderNameTakenError";
+    Object.setPrototypeOf(this, TemplateFolderNameTakenError.prototype);
+  }
+}
+
+/** Columns returned for the template shortcuts of the picker */
+const templateSummaryColumns = {
+  uuid: templates.uuid,
+  name: templates.name,
+  category: templates.category,
+};
+
+// ---------- Tags ----------
+
+/**
+ * Tags in use on active templates, with the number of templates having each one.
+ */
+export async function getTemplateTags(): Promise<Array<{ tag: string; count: number }>> {
+  const result = await db.execute(sql`
+    select tag, count(*)::int as count
+    from ${templates}, jsonb_array_elements_text(${templates.tags}) as tag
+    where ${templates.archived} = false
+    group by tag
+    order by tag
+  `);
+  return result.rows as Array<{ tag: string; count: number }>;
+}
+
+export async function setTemplateTags(templateUuid: string, tags: string[], updatedBy?: string | null) {
+  const [template] = await db.update(templates)
+    .set({ tags: normalizeTemplateTags(tags), updatedBy, updatedAt: new Date() })
+    .where(eq(templates.uuid, templateUuid))
+    .returning();
+  return template ?? null;
+}
+
+// ---------- Favourites ----------
+
+export async function getFavoriteTemplateUuids(userId: string): Promise<string[]> {
+  const rows = await db.select({ templateUuid: templateFavorites.templateUuid })
+    .from(templateFavorites)
+    .where(eq(templateFavorites.userId, userId));
+  return rows.map(row => row.templateUuid);
+}
+
+export async function setTemplateFavorite(userId: string, templateUuid: string, favorite: boolean): Promise<void> {
+  if (favorite) {
+    await db.insert(templateFavorites)
+      .values({ userId, templateUuid })
+      .onConflictDoNothing({ target: [templateFavorites.userId, templateFavorites.templateUuid] });
+  } else {
+    await db.delete(templateFavorites)
+      .where(and(eq(templateFavorites.userId, userId), eq(templateFavorites.templateUuid, templateUuid)));
+  }
+}
+
+/**
+ * Shortcuts of the template picker: the user's favourites (most recently added first) and the
+ * templates of the documents they created last. Archived templates are left out.
+ */
+export async function getQuickAccessTemplates(userId: string) {
+  const [favorites, recentRows] = await Promise.all([
+    db.select(templateSummaryColumns)
+      .from(templateFavorites)
+      .innerJoin(templates, eq(templateFavorites.templateUuid, templates.uuid))
+      .where(and(eq(templateFavorites.userId, userId), eq(templates.archived, false)))
+      .orderBy(desc(templateFavorites.createdAt)),
+    db.select({ ...templateSummaryColumns, lastUsedAt: sql<Date>`max(${documents.createdAt})` })
+      .from(documents)
+      .innerJoin(templates, eq(documents.templateUuid, templates.uuid))
+      .where(and(eq(documents.createdBy, userId), eq(templates.archived, false)))
+      .groupBy(templates.uuid, templates.name, templates.category)
+      .orderBy(desc(sql`max(${documents.createdAt})`))
+      .limit(RECENT_TEMPLATES_LIMIT),
+  ]);
+
+  return { favorites, recent: recentRows };
+}
+
+// ---------- Folders ----------
+
+/**
+ * The user's folders with the templates filed in each one.
+ */
+export async function getTemplateFolders(userId: string) {
+  const folders = await db.select().from(templateFolders)
+    .where(eq(templateFolders.userId, userId))
+    .orderBy(asc(templateFolders.name));
+  if (folders.length === 0) return [];
+
+  const items = await db.select({ folderId: templateFolderItems.folderId, templateUuid: templateFolderItems.templateUuid })
+    .from(templateFolderItems)
+    .where(inArray(templateFolderItems.folderId, folders.map(folder => folder.id)));
+
+  return folders.map(folder => ({
+    ...folder,
+    templateUuids: items.filter(item => item.folderId === folder.id).map(item => item.templateUuid),
+  }));
+}
+
+export async function getTemplateFolder(userId: string, folderId: string): Promise<TemplateFolder | null> {
+  const [folder] = await db.select().from(templateFolders)
+    .where(and(eq(templateFolders.id, folderId), eq(templateFolders.userId, userId)));
+  return folder ?? null;
+}
+
+async function checkFolderName(userId: string, name: string, folderId?: string) {
+  const [existing] = await db.select({ id: templateFolders.id }).from(templateFolders)
+    .where(and(eq(templateFolders.userId, userId), eq(templateFolders.name, name)));
+  if (existing && existing.id !== folderId) throw new TemplateFolderNameTakenError(name);
+}
+
+export async function createTemplateFolder(userId: string, name: string) {
+  await checkFolderName(userId, name);
+  const [folder] = await db.insert(templateFolders).values({ userId, name }).returning();
+  return folder;
+}
+
+export async function renameTemplateFolder(userId: string, folderId: string, name: string) {
+  await checkFolderName(userId, name, folderId);
+  const [folder] = await db.update(templateFolders)
+    .set({ name, updatedAt: new Date() })
+    .where(and(eq(templateFolders.id, folderId), eq(templateFolders.userId, userId)))
+    .returning();
+  return folder ?? null;
+}
+
+/** Delete a folder; the templates in it are not affected */
+export async function deleteTemplateFolder(userId: string, folderId: string): Promise<boolean> {
+  const deleted = await db.delete(templateFolders)
+    .where(and(eq(templateFolders.id, folderId), eq(templateFolders.userId, userId)))
+    .returning();
+  return deleted.length > 0;
+}
+
+export async function addTemplateToFolder(folderId: string, templateUuid: string): Promise<void> {
+  await db.insert(templateFolderItems)
+    .values({ folderId, templateUuid })
+    .onConflictDoNothing({ target: [templateFolderItems.folderId, templateFolderItems.templateUuid] });
+}
+
+export async function removeTemplateFromFolder(folderId: string, templateUuid: string): Promise<void> {
+  await db.delete(templateFolderItems)
+    .where(and(eq(templateFolderItems.folderId, folderId), eq(templateFolderItems.templateUuid, templateUuid)));
+}
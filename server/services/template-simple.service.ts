@@ -85,7 +85,7 @@ export const simpleTemplateService = {
       // Create template record
       const template = await storage.createTemplate({
         name: validated.name,
-        category: validated.category as "legal" | "financial" | "hr" | "marketing" | "other",
+        category: validated.category,
         description: validated.description || undefined,
         filePath: filePath,
         fieldCount: extractedFields.length,
@@ -0,0 +1,361 @@
+/**
+ * Template version history.
+ *
+ * Mỗi lần thay file template (PUT /api/templates/:uuid/file) tạo một version mới thay vì ghi đè.
+ * - Version lưu file, danh sách field/table/block và diff so với version trước
+ * - fieldMapping ghi lại các field bị đổi tên: { ten_cu: ten_moi }
+ * - Document có templateVersion = null đi theo version hiện tại; khi thay file mà không migrate,
+ *   các document này được "ghim" vào version cũ để vẫn render bằng file cũ
+ * - migrateDocuments() áp dụng lần lượt fieldMapping của từng version để đưa document lên version hiện tại
+ */
+
+import { db } from '@db';
+import {
+  templates,
+  templateFields,
+  templateTables,
+  templateVersions,
+  documents,
+  documentFields,
+  documentTableData,
+  type Template,
+  type TemplateVersion,
+  type TemplateElementDiff,
+  type TemplateVersionDiff,
+} from '@shared/schema';
+import { eq, and, asc, isNull, inArray, sql } from 'drizzle-orm';
+import { documentGeneratorCache } from './document-generator-cache.service';
+
+export interface TemplateStructure {
+  fields: string[];
+  tables: string[];
+  blocks: string[];
+}
+
+const normalizeName = (name: string) => name.toLowerCase().trim();
+
+/**
+ * Diff one kind of element. Names are compared case-insensitively (same rule the
+ * replace endpoint always used); output keeps the casing of the file they come from.
+ */
+function diffNames(previous: string[], next: string[], mapping: Record<string, string>): TemplateElementDiff {
+  const nextKeys = new Set(next.map(normalizeName));
+  const previousKeys = new Set(previous.map(normalizeName));
+
+  let removed = previous.filter(name => !nextKeys.has(normalizeName(name)));
+  let added = next.filter(name => !previousKeys.has(normalizeName(name)));
+  const renamed: TemplateElementDiff['renamed'] = [];
+
+  for (const [from, to] of Object.entries(mapping)) {
+    const fromName = removed.find(name => normalizeName(name) === normalizeName(from));
+    const toName = added.find(name => normalizeName(name) === normalizeName(to));
+    if (fromName && toName) {
+      renamed.push({ from: fromName, to: toName });
+      removed = removed.filter(name => name !== fromName);
+      added = added.filter(name => name !== toName);
+    }
+  }
+
+  return { added, removed, renamed };
+}
+
+/**
+ * So sánh cấu trúc template cũ và mới, áp dụng mapping đổi tên do người dùng chọn.
+ */
+export function diffTemplateStructures(
+  previous: TemplateStructure,
+  next: TemplateStructure,
+  fieldMapping: Record<string, string> = {}
+): TemplateVersionDiff {
+  return {
+    fields: diffNames(previous.fields, next.fields, fieldMapping),
+    tables: diffNames(previous.tables, next.tables, fieldMapping),
+    blocks: diffNames(previous.blocks, next.blocks, fieldMapping),
+  };
+}
+
+export function hasStructuralChanges(diff: TemplateVersionDiff): boolean {
+  return [diff.fields, diff.tables, diff.blocks].some(
+    d => d.added.length > 0 || d.removed.length > 0 || d.renamed.length > 0
+  );
+}
+
+/**
+ * Validate a rename mapping against the old and new structures.
+ * Each old name must disappear from the new file and map to a new name of the same kind;
+ * two old names cannot map to the same new name. Returns a list of error messages.
+ */
+export function validateFieldMapping(
+  previous: TemplateStructure,
+  next: TemplateStructure,
+  fieldMapping: Record<string, string>
+): string[] {
+  const errors: string[] = [];
+  const kinds: Array<keyof TemplateStructure> = ['fields', 'tables', 'blocks'];
+  const usedTargets = new Set<string>();
+
+  for (const [from, to] of Object.entries(fieldMapping)) {
+    const kind = kinds.find(k => previous[k].some(name => normalizeName(name) === normalizeName(from)));
+    if (!kind) {
+      errors.push(`"${from}" does not exist in the current template version`);
+      continue;
+    }
+    if (next[kind].some(name => normalizeName(name) === normalizeName(from))) {
+      errors.push(`"${from}" still exists in the new file and cannot be renamed`);
+      continue;
+    }
+    if (!next[kind].some(name => normalizeName(name) === normalizeName(to))) {
+      errors.push(`"${to}" is not a ${kind.slice(0, -1)} in the new file`);
+      continue;
+    }
+    if (previous[kind].some(name => normalizeName(name) === normalizeName(to))) {
+      errors.push(`"${to}" already exists in the current template version`);
+      continue;
+    }
+    if (usedTargets.has(normalizeName(to))) {
+      errors.push(`"${to}" is mapped from more than one old name`);
+      continue;
+    }
+    usedTargets.add(normalizeName(to));
+  }
+
+  return errors;
+}
+
+/**
+ * Read the structure of the template's current version from the database.
+ */
+export async function getTemplateStructure(templateUuid: string): Promise<TemplateStructure> {
+  const fields = await db
+    .select({ name: templateFields.name })
+    .from(templateFields)
+    .where(and(eq(templateFields.templateUuid, templateUuid), sql`${templateFields.fieldType} <> 'row_group'`))
+    .orderBy(asc(templateFields.position));
+
+  const tables = await db
+    .select({ name: templateTables.name, blockType: templateTables.blockType })
+    .from(templateTables)
+    .where(eq(templateTables.templateUuid, templateUuid))
+    .orderBy(asc(templateTables.position));
+
+  return {
+    fields: fields.map(f => f.name),
+    tables: tables.filter(t => t.blockType !== 'block').map(t => t.name),
+    blocks: tables.filter(t => t.blockType === 'block').map(t => t.name),
+  };
+}
+
+export async function getTemplateVersion(templateUuid: string, version: number) {
+  return await db.query.templateVersions.findFirst({
+    where: and(eq(templateVersions.templateUuid, templateUuid), eq(templateVersions.version, version)),
+  });
+}
+
+/**
+ * Templates uploaded before versioning have no version rows.
+ * Record the current file as its version so documents can be pinned to it.
+ */
+export async function ensureCurrentVersionRecorded(template: Template): Promise<TemplateVersion> {
+  const existing = await getTemplateVersion(template.uuid, template.currentVersion);
+  if (existing) return existing;
+
+  const structure = await getTemplateStructure(template.uuid);
+  const [created] = await db.insert(templateVersions).values({
+    templateUuid: template.uuid,
+    version: template.currentVersion,
+    filePath: template.filePath,
+    fieldNames: structure.fields,
+    tableNames: structure.tables,
+    blockNames: structure.blocks,
+  }).onConflictDoNothing().returning();
+
+  return created ?? (await getTemplateVersion(template.uuid, template.currentVersion))!;
+}
+
+export async function createTemplateVersion(data: {
+  templateUuid: string;
+  version: number;
+  filePath: string;
+  originalName?: string;
+  structure: TemplateStructure;
+  diff?: TemplateVersionDiff;
+  fieldMapping?: Record<string, string>;
+}): Promise<TemplateVersion> {
+  const [created] = await db.insert(templateVersions).values({
+    templateUuid: data.templateUuid,
+    version: data.version,
+    filePath: data.filePath,
+    originalName: data.originalName,
+    fieldNames: data.structure.fields,
+    tableNames: data.structure.tables,
+    blockNames: data.structure.blocks,
+    diff: data.diff,
+    fieldMapping: data.fieldMapping,
+  }).returning();
+  return created;
+}
+
+/**
+ * Danh sách version kèm số document đang dùng mỗi version.
+ */
+export async function getTemplateVersions(templateUuid: string) {
+  const template = await db.query.templates.findFirst({ where: eq(templates.uuid, templateUuid) });
+  if (!template) return null;
+
+  const versions = await db.query.templateVersions.findMany({
+    where: eq(templateVersions.templateUuid, templateUuid),
+    orderBy: asc(templateVersions.version),
+  });
+
+  const counts = await db
+    .select({ version: documents.templateVersion, count: sql<number>`count(*)::int` })
+    .from(documents)
+    .where(eq(documents.templateUuid, templateUuid))
+    .groupBy(documents.templateVersion);
+
+  const countByVersion = new Map<number, number>();
+  for (const row of counts) {
+    const version = row.version ?? template.currentVersion;
+    countByVersion.set(version, (countByVersion.get(version) ?? 0) + row.count);
+  }
+
+  return {
+    currentVersion: template.currentVersion,
+    versions: versions.map(v => ({
+      ...v,
+      isCurrent: v.version === template.currentVersion,
+      documentCount: countByVersion.get(v.version) ?? 0,
+    })),
+  };
+}
+
+/**
+ * Ghim các document đang theo version hiện tại (templateVersion = null) vào version chỉ định.
+ * Gọi trước khi tăng currentVersion để document cũ vẫn render bằng file cũ.
+ */
+export async function pinDocumentsToVersion(templateUuid: string, version: number): Promise<number> {
+  const pinned = await db
+    .update(documents)
+    .set({ templateVersion: version })
+    .where(and(eq(documents.templateUuid, templateUuid), isNull(documents.templateVersion)))
+    .returning({ uuid: documents.uuid });
+  return pinned.length;
+}
+
+/**
+ * Template file a document renders with: its pinned version's file, or the current file.
+ */
+export async function resolveTemplateFilePath(template: Template, templateVersion: number | null): Promise<string> {
+  if (templateVersion === null || templateVersion === template.currentVersion) {
+    return template.filePath;
+  }
+  const version = await getTemplateVersion(template.uuid, templateVersion);
+  return version?.filePath ?? template.filePath;
+}
+
+/**
+ * Compose the rename mappings of every version after `fromVersion` up to `toVersion`,
+ * returning a function that maps a name in `fromVersion` to its name in `toVersion`.
+ */
+function composeMappings(versions: TemplateVersion[], fromVersion: number, toVersion: number) {
+  const steps = versions
+    .filter(v => v.version > fromVersion && v.version <= toVersion)
+    .map(v => new Map(Object.entries(v.fieldMapping ?? {}).map(([from, to]) => [normalizeName(from), to])));
+
+  return (name: string): string => {
+    let current = name;
+    for (const step of steps) {
+      current = step.get(normalizeName(current)) ?? current;
+    }
+    return current;
+  };
+}
+
+/**
+ * Chuyển document đang ghim ở version cũ lên version hiện tại, đổi tên field/table/block
+ * theo fieldMapping của từng version. Field đã bị xoá khỏi template vẫn được giữ nguyên giá trị.
+ */
+export async function migrateDocuments(
+  templateUuid: string,
+  options: { documentUuids?: string[]; fromVersion?: number } = {}
+): Promise<{ migrated: number }> {
+  const template = await db.query.templates.findFirst({ where: eq(templates.uuid, templateUuid) });
+  if (!template) {
+    throw new Error('Template not found');
+  }
+
+  const conditions = [eq(documents.templateUuid, templateUuid)];
+  if (options.documentUuids && options.documentUuids.length > 0) {
+    conditions.push(inArray(documents.uuid, options.documentUuids));
+  }
+  if (options.fromVersion !== undefined) {
+    conditions.push(eq(documents.templateVersion, options.fromVersion));
+  }
+
+  const pinnedDocuments = (await db
+    .select({ uuid: documents.uuid, templateVersion: documents.templateVersion })
+    .from(documents)
+    .where(and(...conditions)))
+    .filter(d => d.templateVersion !== null && d.templateVersion < template.currentVersion);
+
+  if (pinnedDocuments.length === 0) {
+    return { migrated: 0 };
+  }
+
+  const versions = await db.query.templateVersions.findMany({
+    where: eq(templateVersions.templateUuid, templateUuid),
+    orderBy: asc(templateVersions.version),
+  });
+
+  for (const doc of pinnedDocuments) {
+    const rename = composeMappings(versions, doc.templateVersion!, template.currentVersion);
+
+    await db.transaction(async (tx) => {
+      const fields = await tx
+        .select({ uuid: documentFields.uuid, fieldName: documentFields.fieldName })
+        .from(documentFields)
+        .where(eq(documentFields.documentUuid, doc.uuid));
+      for (const field of fields) {
+        const newName = rename(field.fieldName);
+        if (newName !== field.fieldName) {
+          await tx.update(documentFields)
+            .set({ fieldName: newName, updatedAt: new Date() })
+            .where(eq(documentFields.uuid, field.uuid));
+        }
+      }
+
+      const tableRows = await tx
+        .select({ id: documentTableData.id, tableName: documentTableData.tableName })
+        .from(documentTableData)
+        .where(eq(documentTableData.documentUuid, doc.uuid));
+      for (const row of tableRows) {
+        const newName = rename(row.tableName);
+        if (newName !== row.tableName) {
+          await tx.update(documentTableData)
+            .set({ tableName: newName, updatedAt: new Date() })
+            .where(eq(documentTableData.id, row.id));
+        }
+      }
+
+      await tx.update(documents)
+        .set({ templateVersion: null, updatedAt: new Date() })
+        .where(eq(documents.uuid, doc.uuid));
+    });
+
+    documentGeneratorCache.invalidate(doc.uuid);
+  }
+
+  console.log(`[TemplateVersion] Migrated ${pinnedDocuments.length} document(s) of template ${templateUuid} to v${template.currentVersion}`);
+  return { migrated: pinnedDocuments.length };
+}
+
+/**
+ * All files referenced by a template's versions (used when deleting the template).
+ */
+export async function getTemplateVersionFilePaths(templateUuid: string): Promise<string[]> {
+  const rows = await db
+    .select({ filePath: templateVersions.filePath })
+    .from(templateVersions)
+    .where(eq(templateVersions.templateUuid, templateUuid));
+  return rows.map(r => r.filePath);
+}
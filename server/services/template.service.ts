@@ -90,7 +90,7 @@ export const templateService: TemplateService = {
       // Create the template record with the file path and UUID
       const templateRecord = {
         name: validatedData.name,
-        category: validatedData.category as "legal" | "financial" | "hr" | "marketing" | "other",
+        category: validatedData.category,
         description: typeof validatedData.description === 'string' ? validatedData.description : undefined,
         filePath: tempFilePath,
         fieldCount: extractedFields.length,
@@ -1,7 +1,13 @@
-import { db } from '@db';
+import session from 'express-session';
+import connectPg from 'connect-pg-simple';
+import { db, pool } from '@db';
 import { 
+  users,
+  templatePermissions,
   templates, 
   templateFields, 
+  templateFolderItems,
+  templateFavorites,
   documents, 
   documentFields, 
   batchSessions, 
@@ -13,17 +19,43 @@ import {
   type DocumentField,
   type BatchSession,
   type BatchDocument,
-  type BatchDocumentField
+  type BatchDocumentField,
+  type User,
+  type UserRole,
 } from '@shared/schema';
+import type { FieldValidation } from '@shared/field-validation';
+import type { ChecklistRenderMode } from '@shared/checklist';
+import type { DocumentWorkflowStatus } from '@shared/document-workflow';
 import { eq, desc, asc, and, or, gte, lte, ilike, inArray, sql } from 'drizzle-orm';
+import type { DbTransaction } from './services/numbering.service';
+
+// Filters on tags, personal folders and favourites (shared by getTemplates and getTemplatesCount)
+const getTemplateOrganizationConditions = (options: { tags?: string[]; folderId?: string; favoriteOf?: string }) => {
+  const conditions = [];
+  if (options.tags && options.tags.length > 0) {
+    conditions.push(sql`${templates.tags} @> ${JSON.stringify(options.tags)}::jsonb`);
+  }
+  if (options.folderId) {
+    conditions.push(inArray(templates.uuid, db.select({ uuid: templateFolderItems.templateUuid })
+      .from(templateFolderItems)
+      .where(eq(templateFolderItems.folderId, options.folderId))));
+  }
+  if (options.favoriteOf) {
+    conditions.push(inArray(templates.uuid, db.select({ uuid: templateFavorites.templateUuid })
+      .from(templateFavorites)
+      .where(eq(templateFavorites.userId, options.favoriteOf))));
+  }
+  return conditions;
+};
 
 // Template operations
 export const createTemplate = async (data: {
   name: string;
   description?: string;
-  category: 'contract' | 'proposal' | 'report' | 'letter' | 'form' | 'general' | 'legal' | 'financial' | 'hr' | 'marketing' | 'other';
+  category: string; // templateCategories.key
   filePath: string;
   fieldCount?: string;
+  createdBy?: string | null;
 }) => {
   console.log(`[Storage] createTemplate called:`, { name: data.name, category: data.category, filePath: data.filePath });
   
@@ -33,6 +65,8 @@ export const createTemplate = async (data: {
     category: data.category,
     filePath: data.filePath,
     fieldCount: data.fieldCount || "0",
+    createdBy: data.createdBy,
+    updatedBy: data.createdBy,
   }).returning();
   
   console.log(`[Storage] Template created:`, { uuid: template.uuid, name: template.name });
@@ -41,7 +75,10 @@ export const createTemplate = async (data: {
 
 export const getTemplates = async (options: {
   searchQuery?: string;
-  category?: string;
+  categories?: string[]; // Category keys (a category and its sub-categories, see expandTemplateCategoryFilter)
+  tags?: string[]; // Templates having all of these tags
+  folderId?: string; // Templates filed in this folder
+  favoriteOf?: string; // Favourite templates of this user id
   archived?: boolean;
   limit?: number;
   offset?: number;
@@ -60,9 +97,10 @@ export const getTemplates = async (options: {
     conditions.push(ilike(templates.name, `%${options.searchQuery}%`));
   }
   
-  if (options.category && options.category !== 'all') {
-    conditions.push(eq(templates.category, options.category as any));
+  if (options.categories && options.categories.length > 0) {
+    conditions.push(inArray(templates.category, options.categories));
   }
+  conditions.push(...getTemplateOrganizationConditions(options));
   
   if (typeof options.archived === 'boolean') {
     conditions.push(eq(templates.archived, options.archived));
@@ -108,17 +146,17 @@ export const updateTemplateByUuid = async (uuid: string, data: Partial<typeof te
   return template;
 };
 
-export const archiveTemplateByUuid = async (uuid: string) => {
+export const archiveTemplateByUuid = async (uuid: string, updatedBy?: string | null) => {
   const [template] = await db.update(templates)
-    .set({ archived: true, updatedAt: new Date() })
+    .set({ archived: true, updatedBy, updatedAt: new Date() })
     .where(eq(templates.uuid, uuid))
     .returning();
   return template;
 };
 
-export const unarchiveTemplateByUuid = async (uuid: string) => {
+export const unarchiveTemplateByUuid = async (uuid: string, updatedBy?: string | null) => {
   const [template] = await db.update(templates)
-    .set({ archived: false, updatedAt: new Date() })
+    .set({ archived: false, updatedBy, updatedAt: new Date() })
     .where(eq(templates.uuid, uuid))
     .returning();
   return template;
@@ -126,16 +164,20 @@ export const unarchiveTemplateByUuid = async (uuid: string) => {
 
 export const getTemplatesCount = async (options: {
   searchQuery?: string;
-  category?: string;
+  categories?: string[]; // Category keys (a category and its sub-categories, see expandTemplateCategoryFilter)
+  tags?: string[]; // Templates having all of these tags
+  folderId?: string; // Templates filed in this folder
+  favoriteOf?: string; // Favourite templates of this user id
   archived?: boolean;
 } = {}) => {
   const conditions = [];
   if (options.searchQuery) {
     conditions.push(ilike(templates.name, `%${options.searchQuery}%`));
   }
-  if (options.category && options.category !== 'all') {
-    conditions.push(eq(templates.category, options.category as any));
+  if (options.categories && options.categories.length > 0) {
+    conditions.push(inArray(templates.category, options.categories));
   }
+  conditions.push(...getTemplateOrganizationConditions(options));
   if (typeof options.archived === 'boolean') {
     conditions.push(eq(templates.archived, options.archived));
   }
@@ -169,6 +211,15 @@ export const deleteTemplateByUuid = async (uuid: string, cascade: boolean = fals
     console.log(`[Storage] Deleting template file: ${template.filePath}`);
     const { FileManagerService } = await import('./services/file-manager.service');
     await FileManagerService.deleteTemplateFile(template.filePath);
+
+    // Older versions keep their own files (see templateVersions)
+    const { getTemplateVersionFilePaths } = await import('./services/template-version.service');
+    const versionFilePaths = await getTemplateVersionFilePaths(uuid);
+    for (const versionFilePath of versionFilePaths) {
+      if (versionFilePath !== template.filePath) {
+        await FileManagerService.deleteTemplateFile(versionFilePath);
+      }
+    }
   }
   
   const [deletedTemplate] = await db.delete(templates)
@@ -214,6 +265,11 @@ export const updateTemplateFields = async (
     options?: string;
     defaultValue?: string;
     position?: number;
+    locations?: string[];
+    validation?: FieldValidation;
+    conditional?: boolean;
+    expression?: string;
+    checklistMode?: ChecklistRenderMode;
   }>
 ) => {
   // Delete existing fields
@@ -231,6 +287,11 @@ export const updateTemplateFields = async (
       options: field.options,
       defaultValue: field.defaultValue,
       position: field.position ?? index, // Use provided position or fallback to index
+      locations: field.locations,
+      validation: field.validation,
+      conditional: field.conditional || false,
+      expression: field.expression,
+      checklistMode: field.checklistMode || 'text',
     }));
     
     return await db.insert(templateFields).values(newFields).returning();
@@ -239,13 +300,26 @@ export const updateTemplateFields = async (
   return [];
 };
 
+export const updateTemplateField = async (
+  fieldUuid: string,
+  data: Partial<Pick<typeof templateFields.$inferInsert, 'checklistMode' | 'numberingSequenceId'>>
+) => {
+  const [field] = await db.update(templateFields)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(templateFields.uuid, fieldUuid))
+    .returning();
+  return field;
+};
+
 // Document operations
 export const createDocument = async (data: {
   templateUuid: string;
   name: string;
   filePath: string;
+  workflowStatus?: DocumentWorkflowStatus;
+  createdBy?: string | null;
 }) => {
-  const [document] = await db.insert(documents).values(data).returning();
+  const [document] = await db.insert(documents).values({ ...data, updatedBy: data.createdBy }).returning();
   return document;
 };
 
@@ -255,6 +329,7 @@ interface DocumentFilterOptions {
   templateUuid?: string;
   archived?: boolean;
   status?: string;
+  workflowStatuses?: DocumentWorkflowStatus[];
   fromDate?: string;
   toDate?: string;
 }
@@ -317,6 +392,10 @@ function buildDocumentWhereCondition(options: DocumentFilterOptions) {
     conditions.push(eq(documents.archived, options.archived));
   }
 
+  if (options.workflowStatuses && options.workflowStatuses.length > 0) {
+    conditions.push(inArray(documents.workflowStatus, options.workflowStatuses));
+  }
+
   if (conditions.length === 0) return undefined;
   return conditions.length === 1 ? conditions[0] : and(...conditions);
 }
@@ -351,6 +430,7 @@ export const getDocuments = async (options: DocumentFilterOptions & { limit?: nu
       templateUuid: documents.templateUuid,
       name: documents.name,
       filePath: documents.filePath,
+      workflowStatus: documents.workflowStatus,
       archived: documents.archived,
       createdAt: documents.createdAt,
       updatedAt: documents.updatedAt,
@@ -411,10 +491,11 @@ export const deleteDocumentFieldsByDocumentUuid = async (documentUuid: string) =
 // Optimized: Replace all document fields in a single transaction with batch insert
 export const replaceDocumentFields = async (
   documentUuid: string, 
-  fields: { fieldName: string; fieldValue: string }[]
+  fields: { fieldName: string; fieldValue: string }[],
+  tx?: DbTransaction
 ) => {
   // Delete existing fields
-  await db.delete(documentFields)
+  await (tx ?? db).delete(documentFields)
     .where(eq(documentFields.documentUuid, documentUuid));
   
   // If no new fields, return empty array
@@ -429,7 +510,7 @@ export const replaceDocumentFields = async (
     fieldValue: field.fieldValue || '',
   }));
   
-  const insertedFields = await db.insert(documentFields)
+  const insertedFields = await (tx ?? db).insert(documentFields)
     .values(fieldsToInsert)
     .returning();
   
@@ -461,8 +542,8 @@ export const getDocumentStats = async () => {
   };
 };
 
-export const updateDocumentByUuid = async (uuid: string, data: Partial<typeof documents.$inferInsert>) => {
-  const [document] = await db.update(documents)
+export const updateDocumentByUuid = async (uuid: string, data: Partial<typeof documents.$inferInsert>, tx?: DbTransaction) => {
+  const [document] = await (tx ?? db).update(documents)
     .set({ ...data, updatedAt: new Date() })
     .where(eq(documents.uuid, uuid))
     .returning();
@@ -592,8 +673,144 @@ export const bulkUpdateBatchDocumentStatus = async (documentUuids: string[], sta
     .returning();
 };
 
+// Sessions are kept in Postgres (table "session", created on first use)
+const PostgresSessionStore = connectPg(session);
+export const sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+
+// User operations
+export const getUser = async (id: string) => {
+  const [user] = await db.select().from(users).where(eq(users.id, id));
+  return user;
+};
+
+export const getUserByUsername = async (username: string) => {
+  const [user] = await db.select().from(users).where(eq(users.username, username));
+  return user;
+};
+
+export const getUsers = async () => {
+  return await db.select().from(users).orderBy(asc(users.username));
+};
+
+export const createUser = async (data: { username: string; password: string; email?: string | null; role?: UserRole }) => {
+  const [user] = await db.insert(users).values({
+    username: data.username,
+    password: data.password,
+    email: data.email || null,
+    role: data.role,
+  }).returning();
+  return user;
+};
+
+/**
+ * Create a self-registered user: the first account becomes admin, later ones viewer.
+ * Counting and inserting run under a transaction-level advisory lock, so two concurrent
+ * first registrations cannot both become admin.
+ */
+export const registerUser = async (data: { username: string; password: string; email?: string | null }) => {
+  return await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('users:register'))`);
+    const [existing] = await tx.select({ id: users.id }).from(users).limit(1);
+    const [user] = await tx.insert(users).values({
+      username: data.username,
+      password: data.password,
+      email: data.email || null,
+      role: existing ? 'viewer' : 'admin',
+    }).returning();
+    return user;
+  });
+};
+
+export const updateUserRole = async (id: string, role: UserRole) => {
+  const [user] = await db.update(users)
+    .set({ role, updatedAt: new Date() })
+    .where(eq(users.id, id))
+    .returning();
+  return user;
+};
+
+// Template permission operations
+export const getTemplatePermissions = async (templateUuid: string) => {
+  return await db
+    .select({
+      userId: templatePermissions.userId,
+      role: templatePermissions.role,
+      username: users.username,
+      updatedAt: templatePermissions.updatedAt,
+    })
+    .from(templatePermissions)
+    .innerJoin(users, eq(templatePermissions.userId, users.id))
+    .where(eq(templatePermissions.templateUuid, templateUuid))
+    .orderBy(asc(users.username));
+};
+
+export const getTemplatePermission = async (templateUuid: string, userId: string) => {
+  const [permission] = await db.select().from(templatePermissions)
+    .where(and(eq(templatePermissions.templateUuid, templateUuid), eq(templatePermissions.userId, userId)));
+  return permission;
+};
+
+/** Template a document belongs to (undefined when it does not exist), for template role checks */
+export const getDocumentTemplateUuid = async (uuid: string) => {
+  const [row] = await db.select({ templateUuid: documents.templateUuid }).from(documents).where(eq(documents.uuid, uuid));
+  return row?.templateUuid;
+};
+
+export const getBatchSessionTemplateUuid = async (uuid: string) => {
+  const [row] = await db.select({ templateUuid: batchSessions.templateUuid }).from(batchSessions).where(eq(batchSessions.uuid, uuid));
+  return row?.templateUuid;
+};
+
+export const getBatchDocumentTemplateUuid = async (uuid: string) => {
+  const [row] = await db.select({ templateUuid: batchSessions.templateUuid })
+    .from(batchDocuments)
+    .innerJoin(batchSessions, eq(batchDocuments.sessionUuid, batchSessions.uuid))
+    .where(eq(batchDocuments.uuid, uuid));
+  return row?.templateUuid;
+};
+
+export const setTemplatePermission = async (templateUuid: string, userId: string, role: UserRole) => {
+  const [permission] = await db.insert(templatePermissions)
+    .values({ templateUuid, userId, role })
+    .onConflictDoUpdate({
+      target: [templatePermissions.templateUuid, templatePermissions.userId],
+      set: { role, updatedAt: new Date() },
+    })
+    .returning();
+  return permission;
+};
+
+export const deleteTemplatePermission = async (templateUuid: string, userId: string) => {
+  const result = await db.delete(templatePermissions)
+    .where(and(eq(templatePermissions.templateUuid, templateUuid), eq(templatePermissions.userId, userId)))
+    .returning();
+  return result.length > 0;
+};
+
+/** Password hash is never sent to the client */
+export const toPublicUser = (user: User) => {
+  const { password, ...publicUser } = user;
+  return publicUser;
+};
+
 // Storage interface for backward compatibility
 export const storage = {
+  // Users & sessions
+  sessionStore,
+  getUser,
+  getUserByUsername,
+  getUsers,
+  createUser,
+  registerUser,
+  updateUserRole,
+  getTemplatePermissions,
+  getTemplatePermission,
+  getDocumentTemplateUuid,
+  getBatchSessionTemplateUuid,
+  getBatchDocumentTemplateUuid,
+  setTemplatePermission,
+  deleteTemplatePermission,
+
   // Templates
   createTemplate,
   getTemplates,
@@ -609,6 +826,7 @@ export const storage = {
   createTemplateField,
   getTemplateFields,
   updateTemplateFields,
+  updateTemplateField,
   
   // Documents
   createDocument,
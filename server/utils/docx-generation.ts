@@ -1,7 +1,7 @@
 import PizZip from 'pizzip';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { createDocxTemplater, createChorusDocxTemplater } from './docx-parser';
+import { createDocxTemplater, createChorusDocxTemplater, type DocumentRenderOptions } from './docx-parser';
 import { injectTablesIntoZip, type TableData } from './table-injector';
 
 /**
@@ -85,7 +85,8 @@ export function generateDocumentFromTemplate(
  * Two-pass document generation for templates containing both {{ }} field placeholders
  * and {%#BLOCK%}...{%/BLOCK%} chorus block sections.
  *
- * Pass 1: Inject dynamic tables + render {{ }} field placeholders (standard flow).
+ * Pass 1: Inject dynamic tables + render {{ }} field placeholders (standard flow),
+ *         including checklist render modes and image fields from renderOptions.
  * Pass 2: Render {%#BLOCKNAME%}...{%/BLOCKNAME%} loop sections using chorus block data.
  *         Skipped entirely when blockDataMap is empty → zero overhead for normal templates.
  */
@@ -93,14 +94,15 @@ export function generateDocumentTwoPasses(
   templateBuffer: Buffer,
   fieldData: Record<string, any>,
   tableDataMap?: Record<string, TableData>,
-  blockDataMap?: Record<string, Array<Record<string, string>>>
+  blockDataMap?: Record<string, Array<Record<string, string>>>,
+  renderOptions: DocumentRenderOptions = {}
 ): Buffer {
   // --- Pass 1: table injection + {{ }} field rendering ---
   let zip = new PizZip(templateBuffer);
   if (tableDataMap && Object.keys(tableDataMap).length > 0) {
     zip = injectTablesIntoZip(zip, tableDataMap);
   }
-  const doc1 = createDocxTemplater(zip);
+  const doc1 = createDocxTemplater(zip, renderOptions);
   const processedData = processFieldValues(fieldData);
   try {
     doc1.render(processedData);
@@ -0,0 +1,243 @@
+/**
+ * Image fields: {{%anh_the}} / {{chu_ky:image(3cm,4cm)}} are replaced by an inline picture.
+ *
+ * docxtemplater only replaces text, so this module claims the image tags and renders
+ * a <w:drawing> in place of the text run content. The picture itself needs three
+ * package entries besides the drawing:
+ * - the file in word/media/
+ * - a relationship in the part's .rels (r:embed points at it)
+ * - a Default content type for the extension in [Content_Types].xml
+ *
+ * Images are passed in as buffers by field name, loaded beforehand (rendering is synchronous).
+ */
+
+import { parseImageTag, type ImageDimension, type ImageTag } from '@shared/image-fields';
+
+type ImageFormat = 'png' | 'jpeg' | 'gif';
+
+const CONTENT_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+};
+
+const EMU_PER_UNIT: Record<ImageDimension['unit'], number> = {
+  cm: 360000,
+  mm: 36000,
+  in: 914400,
+  pt: 12700,
+  px: 9525,
+};
+
+/** Images without a size in the tag are shown at 96 dpi, at most 15cm wide */
+const MAX_NATURAL_WIDTH_EMU = 15 * EMU_PER_UNIT.cm;
+
+const CONTENT_TYPES_PATH = '[Content_Types].xml';
+const IMAGE_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image';
+const EMPTY_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+
+export interface ImageModuleOptions {
+  /** Text rendered for an image field without an image (preview markers); empty by default */
+  renderEmpty?: (fieldName: string) => string;
+}
+
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47) return 'png';
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+  if (buffer.length >= 6 && buffer.toString('ascii', 0, 3) === 'GIF') return 'gif';
+  return null;
+}
+
+/**
+ * Pixel size read from the PNG / GIF header or the JPEG SOF segment.
+ */
+export function getImageSize(buffer: Buffer): { width: number; height: number } | null {
+  const format = detectImageFormat(buffer);
+  if (format === 'png' && buffer.length >= 24) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+  if (format === 'gif' && buffer.length >= 10) {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+  if (format === 'jpeg') {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+      const marker = buffer[offset + 1];
+      // SOF0..SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+}
+
+function toEmu(dimension: ImageDimension): number {
+  return Math.round(dimension.value * EMU_PER_UNIT[dimension.unit]);
+}
+
+/**
+ * Size in EMU: both dimensions from the tag, one of them with the aspect ratio kept,
+ * or the natural size scaled down to MAX_NATURAL_WIDTH_EMU.
+ */
+export function computeImageExtent(tag: ImageTag, pixels: { width: number; height: number } | null): { cx: number; cy: number } {
+  const natural = pixels && pixels.width > 0 && pixels.height > 0 ? pixels : { width: 200, height: 200 };
+  const ratio = natural.height / natural.width;
+
+  if (tag.width && tag.height) return { cx: toEmu(tag.width), cy: toEmu(tag.height) };
+  if (tag.width) return { cx: toEmu(tag.width), cy: Math.round(toEmu(tag.width) * ratio) };
+  if (tag.height) return { cx: Math.round(toEmu(tag.height) / ratio), cy: toEmu(tag.height) };
+
+  const cx = Math.min(natural.width * EMU_PER_UNIT.px, MAX_NATURAL_WIDTH_EMU);
+  return { cx, cy: Math.round(cx * ratio) };
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function buildDrawingXml(rId: string, docPrId: number, name: string, extent: { cx: number; cy: number }): string {
+  const { cx, cy } = extent;
+  const title = escapeXml(name);
+  // Namespaces are declared inline: headers / footers do not always declare wp, a, pic or r
+  return `<w:drawing><wp:inline xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" distT="0" distB="0" distL="0" distR="0">`
+    + `<wp:extent cx="${cx}" cy="${cy}"/><wp:effectExtent l="0" t="0" r="0" b="0"/>`
+    + `<wp:docPr id="${docPrId}" name="${title}"/>`
+    + `<wp:cNvGraphicFramePr><a:graphicFrameLocks xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" noChangeAspect="1"/></wp:cNvGraphicFramePr>`
+    + `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">`
+    + `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">`
+    + `<pic:nvPicPr><pic:cNvPr id="${docPrId}" name="${title}"/><pic:cNvPicPr/></pic:nvPicPr>`
+    + `<pic:blipFill><a:blip xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:embed="${rId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+    + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+    + `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing>`;
+}
+
+/** word/document.xml → word/_rels/document.xml.rels */
+function relsPathFor(partPath: string): string {
+  const slash = partPath.lastIndexOf('/');
+  return `${partPath.substring(0, slash + 1)}_rels/${partPath.substring(slash + 1)}.rels`;
+}
+
+/** Relationship target of a media file, relative to the part's folder */
+function relativeTarget(partPath: string, mediaPath: string): string {
+  const folder = partPath.substring(0, partPath.lastIndexOf('/') + 1);
+  return mediaPath.startsWith(folder) ? mediaPath.substring(folder.length) : `/${mediaPath}`;
+}
+
+/**
+ * Docxtemplater module rendering image fields.
+ * @param images image buffers by field name; fields without one render empty
+ */
+export function createImageModule(images: Record<string, Buffer> = {}, options: ImageModuleOptions = {}) {
+  let zip: any = null;
+  let xmlDocuments: Record<string, any> = {};
+  // Media file of each field (shared by all parts), relationship ids per part
+  const mediaByField = new Map<string, { path: string; format: ImageFormat }>();
+  const relsByPart = new Map<string, { ids: Set<string>; added: Array<{ id: string; target: string }> }>();
+  let drawingCount = 0;
+
+  function addMedia(fieldName: string, buffer: Buffer, format: ImageFormat): string {
+    const existing = mediaByField.get(fieldName);
+    if (existing) return existing.path;
+    let index = mediaByField.size + 1;
+    let mediaPath = `word/media/field_image${index}.${format}`;
+    while (zip.files[mediaPath]) {
+      index++;
+      mediaPath = `word/media/field_image${index}.${format}`;
+    }
+    zip.file(mediaPath, buffer);
+    mediaByField.set(fieldName, { path: mediaPath, format });
+    return mediaPath;
+  }
+
+  function addRelationship(partPath: string, mediaPath: string): string {
+    let rels = relsByPart.get(partPath);
+    if (!rels) {
+      const relsFile = zip.files[relsPathFor(partPath)];
+      const existingIds = relsFile ? Array.from(relsFile.asText().matchAll(/Id="([^"]+)"/g), (m: RegExpMatchArray) => m[1]) : [];
+      rels = { ids: new Set(existingIds), added: [] };
+      relsByPart.set(partPath, rels);
+    }
+    const target = relativeTarget(partPath, mediaPath);
+    const reused = rels.added.find(rel => rel.target === target);
+    if (reused) return reused.id;
+
+    let index = rels.added.length + 1;
+    while (rels.ids.has(`rIdFieldImage${index}`)) index++;
+    const id = `rIdFieldImage${index}`;
+    rels.ids.add(id);
+    rels.added.push({ id, target });
+    return id;
+  }
+
+  function writeRelationships() {
+    relsByPart.forEach((rels, partPath) => {
+      if (rels.added.length === 0) return;
+      const relsPath = relsPathFor(partPath);
+      const xml: string = zip.files[relsPath] ? zip.files[relsPath].asText() : EMPTY_RELS;
+      const entries = rels.added
+        .map(rel => `<Relationship Id="${rel.id}" Type="${IMAGE_RELATIONSHIP_TYPE}" Target="${escapeXml(rel.target)}"/>`)
+        .join('');
+      zip.file(relsPath, xml.replace('</Relationships>', `${entries}</Relationships>`));
+    });
+  }
+
+  function writeContentTypes() {
+    // [Content_Types].xml is kept as a DOM by docxtemplater and written back after this event
+    const contentTypes = xmlDocuments[CONTENT_TYPES_PATH];
+    if (!contentTypes) return;
+    const root = contentTypes.getElementsByTagName('Types')[0];
+    const defaults = Array.from(contentTypes.getElementsByTagName('Default') as ArrayLike<any>);
+    const formats = new Set<ImageFormat>();
+    mediaByField.forEach(media => formats.add(media.format));
+    formats.forEach(format => {
+      const declared = defaults.some(el => String(el.getAttribute('Extension')).toLowerCase() === format);
+      if (declared) return;
+      const el = contentTypes.createElement('Default');
+      el.setAttribute('Extension', format);
+      el.setAttribute('ContentType', CONTENT_TYPES[format]);
+      root.appendChild(el);
+    });
+  }
+
+  return {
+    name: 'ImageModule',
+    set(values: any) {
+      if (values.zip) zip = values.zip;
+      if (values.xmlDocuments) xmlDocuments = values.xmlDocuments;
+    },
+    parse(placeholderContent: string) {
+      const tag = parseImageTag(placeholderContent);
+      if (!tag) return null;
+      return { type: 'placeholder', value: placeholderContent, module: 'ImageModule', image: tag };
+    },
+    // docxtemplater passes the render options (with filePath) as the second argument (not in its typings)
+    render(part: any, renderOptions?: any) {
+      if (part.module !== 'ImageModule') return null;
+      const tag: ImageTag = part.image;
+      const buffer = images[tag.name];
+      const format = buffer ? detectImageFormat(buffer) : null;
+      if (!buffer || !format || !zip) {
+        return { value: options.renderEmpty ? escapeXml(options.renderEmpty(tag.name)) : '', errors: [] };
+      }
+
+      const mediaPath = addMedia(tag.name, buffer, format);
+      const rId = addRelationship(renderOptions?.filePath ?? 'word/document.xml', mediaPath);
+      drawingCount++;
+      const drawing = buildDrawingXml(rId, 10000 + drawingCount, tag.name, computeImageExtent(tag, getImageSize(buffer)));
+      // The tag sits inside <w:t>: close it around the drawing, which belongs to the run
+      return { value: `</w:t>${drawing}<w:t xml:space="preserve">`, errors: [] };
+    },
+    on(eventName: string) {
+      if (eventName !== 'syncing-zip' || mediaByField.size === 0) return;
+      writeRelationships();
+      writeContentTypes();
+    },
+  };
+}
@@ -1,5 +1,12 @@
 import PizZip from 'pizzip';
 import Docxtemplater from 'docxtemplater';
+import { createEndnotesModule } from './docx-parts';
+import { extractFieldTypeSpec } from '@shared/field-validation';
+import { extractComputedExpression } from '@shared/computed-fields';
+import { extractFormatters, applyFormatters, getChecklistModeFormatter, type ValueFormatter } from './value-formatters';
+import { renderChecklistValue, type ChecklistRenderConfig } from '@shared/checklist';
+import { createConditionsModule, createConditionGetter, isConditionExpressionTag } from './template-conditions';
+import { createImageModule } from './docx-images';
 
 /**
  * Marker constants for preview highlighting.
@@ -12,6 +19,8 @@ export const FIELD_MARKER = {
   EMPTY_START: '___FIELD_EMPTY_START___',
   EMPTY_END: '___FIELD_EMPTY_END___',
   SEPARATOR: '::',
+  // fieldName::raw___FIELD_FORMATTED___formatted — only when the tag has |formatters or a checklist render mode
+  FORMATTED: '___FIELD_FORMATTED___',
 };
 
 /**
@@ -20,6 +29,9 @@ export const FIELD_MARKER = {
  * Converts: {{field=default|opt1|opt2}} -> field (legacy syntax)
  * Converts: {{field['opt1']['opt2']}} -> field
  * Converts: {{field=default}} -> field
+ * Converts: {{field:number(min=0)='0'}} -> field (typed field syntax)
+ * Converts: {{field:=sum(bang.cot)}} -> field (computed field syntax)
+ * Converts: {{field|date:'dd/MM/yyyy'}} -> field (formatters, see value-formatters.ts)
  * 
  * Also handles:
  * - Smart quotes from Word (U+2018, U+2019, U+201C, U+201D)
@@ -40,6 +52,12 @@ export function sanitizePlaceholderTag(tag: string): string {
   // Remove whitespace before brackets
   sanitized = sanitized.replace(/\s+\['/g, "['");
   
+  // === Computed field syntax: field:=expression -> field ===
+  // === Typed field syntax: field:number(min=0) -> field, %field (image) -> field ===
+  // Stripped first: expressions and arguments may contain '=' or '|'
+  sanitized = extractComputedExpression(sanitized).placeholder;
+  sanitized = extractFieldTypeSpec(sanitized).placeholder;
+  
   // === New bracket syntax: ['option'] ===
   // Remove bracket options: field['opt1']['opt2'] -> field
   // Also handles: field='default'['opt1']['opt2'] -> field
@@ -66,19 +84,47 @@ export function sanitizePlaceholderTag(tag: string): string {
   return sanitized;
 }
 
+/**
+ * Value to print for a field. Checklist fields are rendered in their mode first
+ * (|boxes / |list in the placeholder wins over the field's configured mode),
+ * then the remaining |formatters are applied.
+ */
+function formatFieldValue(
+  value: any,
+  fieldName: string,
+  formatters: ValueFormatter[],
+  checklists: ChecklistRenderConfig
+): any {
+  const config = checklists[fieldName];
+  const mode = getChecklistModeFormatter(formatters) ?? config?.mode;
+  if (!mode) {
+    return applyFormatters(value, formatters);
+  }
+  const raw = Array.isArray(value) ? value.filter(v => v).join('; ') : value != null ? String(value) : '';
+  const valueFormatters = formatters.filter(f => f.name !== 'boxes' && f.name !== 'list');
+  return applyFormatters(renderChecklistValue(raw, config?.options ?? [], mode), valueFormatters);
+}
+
 /**
  * Create a custom parser function for Docxtemplater that normalizes 
- * checklist/default value placeholders to their base field names.
+ * checklist/default value placeholders to their base field names
+ * and applies |formatters to the raw value.
+ * {{#if …}} sections evaluate their condition instead (see template-conditions.ts).
  */
-export function createCustomParser() {
+export function createCustomParser(checklists: ChecklistRenderConfig = {}) {
   return function customParser(tag: string) {
+    if (isConditionExpressionTag(tag)) {
+      return createConditionGetter(tag);
+    }
+    
     const sanitizedTag = sanitizePlaceholderTag(tag);
+    const { formatters } = extractFormatters(tag);
     
     return {
       get: function(scope: any) {
         // First try the sanitized (base) tag name
         if (scope && typeof scope === 'object' && sanitizedTag in scope) {
-          return scope[sanitizedTag];
+          return formatFieldValue(scope[sanitizedTag], sanitizedTag, formatters, checklists);
         }
         // Fallback to original tag (for non-checklist fields)
         if (scope && typeof scope === 'object' && tag in scope) {
@@ -98,8 +144,18 @@ export interface DocxTemplaterOptions {
   paragraphLoop?: boolean;
   linebreaks?: boolean;
   nullGetter?: () => string;
+  /** Render modes of the template's checklist fields (see shared/checklist.ts) */
+  checklists?: ChecklistRenderConfig;
+  /** Images of the document's image fields, by field name (see docx-images.ts) */
+  images?: Record<string, Buffer>;
 }
 
+/**
+ * Per-document render settings loaded from the template fields and values
+ * (see services/image-fields.service.ts loadDocumentRenderOptions).
+ */
+export type DocumentRenderOptions = Pick<DocxTemplaterOptions, 'checklists' | 'images'>;
+
 /**
  * Factory function to create Docxtemplater instance for Chorus Block pass-2 rendering.
  * Uses {% %} delimiters to process {%#BLOCKNAME%}...{%/BLOCKNAME%} loop sections.
@@ -112,6 +168,7 @@ export function createChorusDocxTemplater(zip: PizZip): Docxtemplater {
     paragraphLoop: true,
     linebreaks: true,
     delimiters: { start: '{%', end: '%}' },
+    modules: [createEndnotesModule()],
     nullGetter: () => '',
     parser: (tag: string) => ({
       get: (scope: any) => {
@@ -150,7 +207,8 @@ export function createDocxTemplater(
     paragraphLoop: mergedOptions.paragraphLoop,
     linebreaks: mergedOptions.linebreaks,
     delimiters: { start: '{{', end: '}}' },
-    parser: createCustomParser(),
+    parser: createCustomParser(mergedOptions.checklists),
+    modules: [createEndnotesModule(), createConditionsModule(), createImageModule(mergedOptions.images)],
     nullGetter: mergedOptions.nullGetter,
   });
   
@@ -174,11 +232,19 @@ export function createDocxTemplaterForAnalysis(zip: PizZip): Docxtemplater {
  * This allows us to identify exact field positions after Mammoth HTML conversion.
  * 
  * - Filled values are wrapped with: ___FIELD_FILLED_START___fieldName::value___FIELD_FILLED_END___
+ * - Formatted values carry both: ___FIELD_FILLED_START___fieldName::raw___FIELD_FORMATTED___formatted___FIELD_FILLED_END___
  * - Empty values are wrapped with: ___FIELD_EMPTY_START___fieldName___FIELD_EMPTY_END___
+ * - {{#if …}} conditions evaluate to a boolean, without markers
  */
-export function createPreviewParser() {
+export function createPreviewParser(checklists: ChecklistRenderConfig = {}) {
   return function previewParser(tag: string) {
+    if (isConditionExpressionTag(tag)) {
+      return createConditionGetter(tag);
+    }
+    
     const sanitizedTag = sanitizePlaceholderTag(tag);
+    const { formatters } = extractFormatters(tag);
+    const hasChecklistMode = !!getChecklistModeFormatter(formatters) || !!checklists[sanitizedTag];
     
     return {
       get: function(scope: any) {
@@ -206,6 +272,9 @@ export function createPreviewParser() {
         if (strValue === '') {
           // Empty field - emit empty marker with field name
           return `${FIELD_MARKER.EMPTY_START}${sanitizedTag}${FIELD_MARKER.EMPTY_END}`;
+        } else if (formatters.length > 0 || hasChecklistMode) {
+          const formatted = String(formatFieldValue(strValue, sanitizedTag, formatters, checklists));
+          return `${FIELD_MARKER.FILLED_START}${sanitizedTag}${FIELD_MARKER.SEPARATOR}${strValue}${FIELD_MARKER.FORMATTED}${formatted}${FIELD_MARKER.FILLED_END}`;
         } else {
           // Filled field - emit filled marker with fieldName::value format
           return `${FIELD_MARKER.FILLED_START}${sanitizedTag}${FIELD_MARKER.SEPARATOR}${strValue}${FIELD_MARKER.FILLED_END}`;
@@ -238,7 +307,14 @@ export function createDocxTemplaterPreview(
     paragraphLoop: mergedOptions.paragraphLoop,
     linebreaks: mergedOptions.linebreaks,
     delimiters: { start: '{{', end: '}}' },
-    parser: createPreviewParser(),
+    parser: createPreviewParser(mergedOptions.checklists),
+    modules: [
+      createEndnotesModule(),
+      createConditionsModule(),
+      createImageModule(mergedOptions.images, {
+        renderEmpty: fieldName => `${FIELD_MARKER.EMPTY_START}${fieldName}${FIELD_MARKER.EMPTY_END}`,
+      }),
+    ],
     nullGetter: mergedOptions.nullGetter,
   });
   
@@ -329,9 +405,14 @@ export function highlightPreviewHtml(
     const cleanContent = stripHtmlTags(rawContent);
     // Check if content has fieldName::value format
     const separatorIndex = cleanContent.indexOf(FIELD_MARKER.SEPARATOR);
-    const cleanValue = separatorIndex >= 0 
+    let cleanValue = separatorIndex >= 0 
       ? cleanContent.substring(separatorIndex + FIELD_MARKER.SEPARATOR.length) 
       : cleanContent;
+    // Formatted fields carry raw___FIELD_FORMATTED___formatted — show the formatted text
+    const formattedIndex = cleanValue.indexOf(FIELD_MARKER.FORMATTED);
+    if (formattedIndex >= 0) {
+      cleanValue = cleanValue.substring(formattedIndex + FIELD_MARKER.FORMATTED.length);
+    }
     // Handle line breaks - convert \n to <br> for display
     let displayValue = escapeHtml(cleanValue);
     displayValue = displayValue
@@ -363,6 +444,7 @@ export interface FieldToken {
   type: 'field';
   fieldName: string;
   value: string;
+  formattedValue?: string; // Set when the placeholder has |formatters: the rendered text
   isEmpty: boolean;
   occurrenceIndex: number; // 0-based index for repeated fields
 }
@@ -448,6 +530,7 @@ export function generateInteractivePreviewData(html: string): InteractivePreview
     
     let fieldName: string;
     let value: string;
+    let formattedValue: string | undefined;
     
     if (isEmptyField) {
       // Extract field name from empty marker
@@ -473,6 +556,11 @@ export function generateInteractivePreviewData(html: string): InteractivePreview
         fieldName = '__unknown__';
         value = cleanContent;
       }
+      const formattedIndex = value.indexOf(FIELD_MARKER.FORMATTED);
+      if (formattedIndex >= 0) {
+        formattedValue = value.substring(formattedIndex + FIELD_MARKER.FORMATTED.length);
+        value = value.substring(0, formattedIndex);
+      }
     }
     
     // Track occurrences per fieldName
@@ -486,6 +574,7 @@ export function generateInteractivePreviewData(html: string): InteractivePreview
       type: 'field',
       fieldName,
       value,
+      ...(formattedValue !== undefined ? { formattedValue } : {}),
       isEmpty: isEmptyField,
       occurrenceIndex,
     });
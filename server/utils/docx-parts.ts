@@ -0,0 +1,162 @@
+/**
+ * Enumerate and scan every text-bearing part of a DOCX package.
+ *
+ * Placeholders are not only in word/document.xml — page headers/footers,
+ * footnotes, endnotes and text boxes are stored as separate XML parts
+ * (or nested <w:txbxContent> elements). Field detection, table injection and
+ * rendering must all look at the same set of parts, so they share this list.
+ */
+
+import PizZip from 'pizzip';
+import { joinRunText } from './table-marker';
+
+/**
+ * Where a placeholder was found in the document.
+ * 'textbox' wins over the containing part (a text box inside a header is 'textbox').
+ */
+export type DocxPartLocation = 'body' | 'header' | 'footer' | 'footnote' | 'endnote' | 'textbox';
+
+export interface DocxContentPart {
+  path: string;
+  location: Exclude<DocxPartLocation, 'textbox'>;
+}
+
+export interface PlaceholderOccurrence {
+  /** Raw tag content between {{ and }}, trimmed and XML-decoded */
+  raw: string;
+  /** Distinct locations, in order of first appearance */
+  locations: DocxPartLocation[];
+  /** Field referenced by an {{#if …}} condition (see template-conditions.ts) */
+  conditional?: boolean;
+}
+
+const ENDNOTES_PATH = 'word/endnotes.xml';
+
+/**
+ * Natural sort so header2.xml comes before header10.xml.
+ */
+function sortByPartNumber(paths: string[]): string[] {
+  const num = (p: string) => parseInt(p.replace(/\D/g, ''), 10) || 0;
+  return [...paths].sort((a, b) => num(a) - num(b));
+}
+
+/**
+ * List the content parts present in the package, in a stable order:
+ * body → headers → footers → footnotes → endnotes.
+ */
+export function listContentParts(zip: PizZip): DocxContentPart[] {
+  const fileNames = Object.keys(zip.files);
+  const parts: DocxContentPart[] = [];
+
+  if (zip.files['word/document.xml']) {
+    parts.push({ path: 'word/document.xml', location: 'body' });
+  }
+  for (const path of sortByPartNumber(fileNames.filter(f => /^word\/header\d*\.xml$/.test(f)))) {
+    parts.push({ path, location: 'header' });
+  }
+  for (const path of sortByPartNumber(fileNames.filter(f => /^word\/footer\d*\.xml$/.test(f)))) {
+    parts.push({ path, location: 'footer' });
+  }
+  if (zip.files['word/footnotes.xml']) {
+    parts.push({ path: 'word/footnotes.xml', location: 'footnote' });
+  }
+  if (zip.files[ENDNOTES_PATH]) {
+    parts.push({ path: ENDNOTES_PATH, location: 'endnote' });
+  }
+
+  return parts;
+}
+
+/**
+ * Decode the five predefined XML entities found in <w:t> text.
+ */
+export function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Split a part's XML into its own flow and the text boxes it contains.
+ * Word writes each text box twice (mc:Choice + VML fallback); duplicates are harmless
+ * because callers de-duplicate placeholders.
+ */
+function splitTextBoxes(xml: string): { mainXml: string; textBoxXml: string[] } {
+  const textBoxXml: string[] = [];
+  const mainXml = xml.replace(/<w:txbxContent>([\s\S]*?)<\/w:txbxContent>/g, (_match, inner: string) => {
+    textBoxXml.push(inner);
+    return '';
+  });
+  return { mainXml, textBoxXml };
+}
+
+/**
+ * Reconstruct paragraph texts (runs joined, entities decoded) from an XML fragment.
+ */
+function paragraphTexts(xml: string): string[] {
+  const texts: string[] = [];
+  const paragraphRegex = /<w:p[\s>][\s\S]*?<\/w:p>/g;
+  let pMatch;
+  while ((pMatch = paragraphRegex.exec(xml)) !== null) {
+    texts.push(decodeXmlEntities(joinRunText(pMatch[0])));
+  }
+  return texts;
+}
+
+/**
+ * Find every {{...}} placeholder across all content parts, with the locations
+ * where each one appears. Order follows first appearance (body first).
+ * Placeholders are matched per paragraph so a stray brace can't join two paragraphs.
+ */
+export function extractPlaceholderOccurrences(zip: PizZip): PlaceholderOccurrence[] {
+  const occurrences = new Map<string, PlaceholderOccurrence>();
+
+  const collect = (xml: string, location: DocxPartLocation) => {
+    for (const text of paragraphTexts(xml)) {
+      // Single braces are allowed inside a tag, e.g. {{cccd:pattern('^[0-9]{12}$')}}
+      const regex = /\{\{((?:(?!\{\{|\}\}).)+)\}\}/g;
+      let match;
+      while ((match = regex.exec(text)) !== null) {
+        const raw = match[1].trim();
+        if (!raw) continue;
+        const existing = occurrences.get(raw);
+        if (!existing) {
+          occurrences.set(raw, { raw, locations: [location] });
+        } else if (!existing.locations.includes(location)) {
+          existing.locations.push(location);
+        }
+      }
+    }
+  };
+
+  for (const part of listContentParts(zip)) {
+    const { mainXml, textBoxXml } = splitTextBoxes(zip.files[part.path].asText());
+    collect(mainXml, part.location);
+    for (const boxXml of textBoxXml) {
+      collect(boxXml, 'textbox');
+    }
+  }
+
+  return Array.from(occurrences.values());
+}
+
+/**
+ * Docxtemplater module that adds word/endnotes.xml to the templated files.
+ * The docx file type only templates headers, body, footers, footnotes and comments
+ * out of the box, so {{tags}} in endnotes would otherwise be left untouched.
+ */
+export function createEndnotesModule() {
+  return {
+    name: 'EndnotesModule',
+    // docxtemplater passes itself as the second argument (not in its typings)
+    optionsTransformer(options: any, doc?: any) {
+      if (doc?.zip?.files?.[ENDNOTES_PATH] && !doc.targets.includes(ENDNOTES_PATH)) {
+        doc.targets.push(ENDNOTES_PATH);
+      }
+      return options;
+    },
+  };
+}
@@ -1,5 +1,5 @@
 /**
- * OOXML table builder and document.xml injector.
+ * OOXML table builder and content-part injector.
  *
  * Two injection strategies (per marker):
  *
@@ -18,6 +18,7 @@
 
 import PizZip from 'pizzip';
 import { hasTableMarkers, findMarkerParagraphXml, parseTableMarkersFromXml } from './table-marker';
+import { listContentParts } from './docx-parts';
 
 export interface TableColumn {
   name: string;
@@ -287,36 +288,17 @@ export function buildTableXml(columns: TableColumn[], rows: TableRow[]): string
 // ─── Main injection entry point ───────────────────────────────────────────────
 
 /**
- * Main injection function.
- *
- * For each <<TABLE_NAME>> marker found in word/document.xml:
- *
- *   Strategy A — Pre-formatted table (preferred):
- *     Requires: a <w:tbl> immediately after the marker paragraph with ≥ 2 rows.
- *     Effect:   marker paragraph removed; header row (row[0]) kept as-is;
- *               template row (row[1]) cloned for each data row (preserving all formatting).
- *               If no data rows: template row kept empty.
- *
- *   Strategy B — Generated table (fallback):
- *     Used when strategy A conditions are not met or an error occurs.
- *     Effect:   marker paragraph replaced with a plain auto-styled table (original behaviour).
- *
- * @param zip          PizZip instance (not yet rendered by docxtemplater)
- * @param tableDataMap Record keyed by TABLE_NAME → { columns, rows }
+ * Inject tables into a single content part's XML.
+ * Returns the modified XML, or null if the part has no markers to replace.
  */
-export function injectTablesIntoZip(
-  zip: PizZip,
+function injectTablesIntoXml(
+  xml: string,
   tableDataMap: Record<string, TableData>
-): PizZip {
-  const docFile = zip.files['word/document.xml'];
-  if (!docFile) return zip;
-
-  let xml = docFile.asText();
-
-  if (!hasTableMarkers(xml)) return zip;
+): string | null {
+  if (!hasTableMarkers(xml)) return null;
 
   const markers = parseTableMarkersFromXml(xml);
-  if (markers.length === 0) return zip;
+  if (markers.length === 0) return null;
 
   let modified = false;
 
@@ -373,8 +355,37 @@ export function injectTablesIntoZip(
     }
   }
 
-  if (modified) {
-    zip.file('word/document.xml', xml);
+  return modified ? xml : null;
+}
+
+/**
+ * Main injection function.
+ *
+ * For each <<TABLE_NAME>> marker found in any content part (body, headers,
+ * footers, footnotes, endnotes — see listContentParts):
+ *
+ *   Strategy A — Pre-formatted table (preferred):
+ *     Requires: a <w:tbl> immediately after the marker paragraph with ≥ 2 rows.
+ *     Effect:   marker paragraph removed; header row (row[0]) kept as-is;
+ *               template row (row[1]) cloned for each data row (preserving all formatting).
+ *               If no data rows: template row kept empty.
+ *
+ *   Strategy B — Generated table (fallback):
+ *     Used when strategy A conditions are not met or an error occurs.
+ *     Effect:   marker paragraph replaced with a plain auto-styled table (original behaviour).
+ *
+ * @param zip          PizZip instance (not yet rendered by docxtemplater)
+ * @param tableDataMap Record keyed by TABLE_NAME → { columns, rows }
+ */
+export function injectTablesIntoZip(
+  zip: PizZip,
+  tableDataMap: Record<string, TableData>
+): PizZip {
+  for (const part of listContentParts(zip)) {
+    const xml = injectTablesIntoXml(zip.files[part.path].asText(), tableDataMap);
+    if (xml !== null) {
+      zip.file(part.path, xml);
+    }
   }
 
   return zip;
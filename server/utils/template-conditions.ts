@@ -0,0 +1,438 @@
+/**
+ * Conditional sections: {{#if condition}} … {{else}} … {{/if}}
+ *
+ * - {{#if co_bao_hiem}}                        field is filled (not empty, "0" or "false")
+ * - {{#if !co_bao_hiem}} / {{#if not co_bao_hiem}}
+ * - {{#if loai_hop_dong == 'Có thời hạn'}}     also != (comparison ignores case and surrounding spaces)
+ * - {{#if quyen_loi contains 'Bảo hiểm'}}       checklist option ticked ("a; b" values)
+ * - {{#if so_tien >= 1000000}}                 > < >= <= on numbers or dates
+ * - {{#if a and (b or not c)}}                 also && || !
+ *
+ * Sections are rendered by docxtemplater's loop module: {{#if …}} is a loop start whose
+ * value the custom parsers evaluate to a boolean, {{else}} becomes "{/}{^if …}" and
+ * {{/if}} an anonymous closing tag. When the tags stand alone in their paragraphs the
+ * paragraphs themselves are removed (paragraphLoop).
+ */
+
+import { parseDateValue, parseNumberValue, toIsoDate } from '@shared/field-validation';
+import type { PlaceholderOccurrence } from './docx-parts';
+
+export type ConditionNode =
+  | { kind: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'truthy'; operand: ConditionOperand }
+  | { kind: 'compare'; operator: ComparisonOperator; left: ConditionOperand; right: ConditionOperand };
+
+export type ComparisonOperator = '==' | '!=' | '>' | '<' | '>=' | '<=' | 'contains';
+
+export type ConditionOperand =
+  | { kind: 'field'; name: string }
+  | { kind: 'literal'; value: string };
+
+export type ConditionTag =
+  | { kind: 'if'; expression: string }
+  | { kind: 'else' }
+  | { kind: 'endif' };
+
+type Token =
+  | { type: 'string'; value: string }
+  | { type: 'word'; value: string }
+  | { type: 'operator'; value: string }
+  | { type: 'paren'; value: '(' | ')' };
+
+const IF_TAG_REGEX = /^#\s*if\s+([\s\S]+)$/i;
+const ELSE_TAG_REGEX = /^else$/i;
+const ENDIF_TAG_REGEX = /^\/\s*if$/i;
+const NUMBER_LITERAL_REGEX = /^-?\d+([.,]\d+)?$/;
+const FALSY_VALUES = ['', '0', 'false'];
+
+function normalizeQuotes(text: string): string {
+  return text
+    .replace(/[\u2018\u2019\u201A\u201B]/g, "'")
+    .replace(/[\u201C\u201D\u201E\u201F]/g, '"')
+    .replace(/\u00A0/g, ' ');
+}
+
+/**
+ * Classify a raw {{ }} tag as a condition tag, or null for ordinary placeholders.
+ */
+export function parseConditionTag(raw: string): ConditionTag | null {
+  const text = normalizeQuotes(raw).trim();
+  const ifMatch = text.match(IF_TAG_REGEX);
+  if (ifMatch) return { kind: 'if', expression: ifMatch[1].trim() };
+  if (ELSE_TAG_REGEX.test(text)) return { kind: 'else' };
+  if (ENDIF_TAG_REGEX.test(text)) return { kind: 'endif' };
+  return null;
+}
+
+/**
+ * True for the value docxtemplater hands to the parser for a {{#if …}} section ("if …").
+ */
+export function isConditionExpressionTag(tag: string): boolean {
+  return /^if\s/i.test(normalizeQuotes(tag).trim());
+}
+
+function tokenize(expression: string): Token[] {
+  const text = normalizeQuotes(expression);
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "'" || ch === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== ch) {
+        if (text[i] === '\\' && text[i + 1] === ch) i++;
+        value += text[i];
+        i++;
+      }
+      if (i >= text.length) throw new Error(`Unterminated string in condition "${expression}"`);
+      i++;
+      tokens.push({ type: 'string', value });
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ type: 'paren', value: ch });
+      i++;
+    } else {
+      const two = text.substr(i, 2);
+      if (['==', '!=', '>=', '<=', '&&', '||'].includes(two)) {
+        tokens.push({ type: 'operator', value: two });
+        i += 2;
+      } else if (['=', '>', '<', '!'].includes(ch)) {
+        tokens.push({ type: 'operator', value: ch === '=' ? '==' : ch });
+        i++;
+      } else {
+        let value = '';
+        while (i < text.length && !/[\s()'"=!<>&|]/.test(text[i])) {
+          value += text[i];
+          i++;
+        }
+        if (!value) throw new Error(`Unexpected "${ch}" in condition "${expression}"`);
+        tokens.push({ type: 'word', value });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a condition expression (the part after "#if").
+ * Throws on syntax errors.
+ */
+export function parseCondition(expression: string): ConditionNode {
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isWord = (token: Token | undefined, word: string) =>
+    token?.type === 'word' && token.value.toLowerCase() === word;
+
+  const parseOperand = (): ConditionOperand => {
+    const token = tokens[pos++];
+    if (!token) throw new Error(`Incomplete condition "${expression}"`);
+    if (token.type === 'string') return { kind: 'literal', value: token.value };
+    if (token.type === 'word') {
+      return NUMBER_LITERAL_REGEX.test(token.value)
+        ? { kind: 'literal', value: token.value }
+        : { kind: 'field', name: token.value };
+    }
+    throw new Error(`Unexpected "${token.value}" in condition "${expression}"`);
+  };
+
+  const parseComparison = (): ConditionNode => {
+    const left = parseOperand();
+    const next = peek();
+    let operator: ComparisonOperator | null = null;
+    if (next?.type === 'operator' && ['==', '!=', '>', '<', '>=', '<='].includes(next.value)) {
+      operator = next.value as ComparisonOperator;
+    } else if (isWord(next, 'contains')) {
+      operator = 'contains';
+    }
+    if (!operator) return { kind: 'truthy', operand: left };
+    pos++;
+    return { kind: 'compare', operator, left, right: parseOperand() };
+  };
+
+  const parseUnary = (): ConditionNode => {
+    const token = peek();
+    if ((token?.type === 'operator' && token.value === '!') || isWord(token, 'not')) {
+      pos++;
+      return { kind: 'not', operand: parseUnary() };
+    }
+    if (token?.type === 'paren' && token.value === '(') {
+      pos++;
+      const inner = parseOr();
+      const close = tokens[pos++];
+      if (close?.type !== 'paren' || close.value !== ')') {
+        throw new Error(`Missing ")" in condition "${expression}"`);
+      }
+      return inner;
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): ConditionNode => {
+    let node = parseUnary();
+    while ((peek()?.type === 'operator' && peek()!.value === '&&') || isWord(peek(), 'and')) {
+      pos++;
+      node = { kind: 'and', left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseOr = (): ConditionNode => {
+    let node = parseAnd();
+    while ((peek()?.type === 'operator' && peek()!.value === '||') || isWord(peek(), 'or')) {
+      pos++;
+      node = { kind: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  if (tokens.length === 0) throw new Error('Empty condition');
+  const root = parseOr();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected "${tokens[pos].value}" in condition "${expression}"`);
+  }
+  return root;
+}
+
+/**
+ * Field names referenced by a condition expression, in order of appearance.
+ * Returns [] when the expression cannot be parsed.
+ */
+export function getConditionFieldNames(expression: string): string[] {
+  const names: string[] = [];
+  const visit = (node: ConditionNode) => {
+    switch (node.kind) {
+      case 'and':
+      case 'or':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'not':
+        visit(node.operand);
+        break;
+      case 'truthy':
+        addOperand(node.operand);
+        break;
+      case 'compare':
+        addOperand(node.left);
+        addOperand(node.right);
+        break;
+    }
+  };
+  const addOperand = (operand: ConditionOperand) => {
+    if (operand.kind === 'field' && !names.includes(operand.name)) names.push(operand.name);
+  };
+
+  try {
+    visit(parseCondition(expression));
+  } catch {
+    return [];
+  }
+  return names;
+}
+
+/**
+ * Scope values are strings, but checklists may still arrive as arrays.
+ */
+function valueToString(value: unknown): string {
+  if (Array.isArray(value)) return value.filter(v => v).join('; ');
+  return value != null ? String(value).trim() : '';
+}
+
+function resolveOperand(operand: ConditionOperand, scope: Record<string, any>): string {
+  if (operand.kind === 'literal') return operand.value;
+  if (scope && typeof scope === 'object' && operand.name in scope) {
+    return valueToString(scope[operand.name]);
+  }
+  return '';
+}
+
+function normalizeForEquality(value: string): string {
+  return value.trim().toLocaleLowerCase('vi-VN');
+}
+
+/**
+ * Compare as numbers when both sides are numbers, then as dates, otherwise as text.
+ */
+function compareOrdered(left: string, right: string): number | null {
+  const leftNumber = parseNumberValue(left);
+  const rightNumber = parseNumberValue(right);
+  if (leftNumber !== null && rightNumber !== null) return leftNumber - rightNumber;
+
+  const leftDate = parseDateValue(left);
+  const rightDate = parseDateValue(right);
+  if (leftDate && rightDate) return toIsoDate(leftDate).localeCompare(toIsoDate(rightDate));
+
+  return null;
+}
+
+export function evaluateCondition(node: ConditionNode, scope: Record<string, any>): boolean {
+  switch (node.kind) {
+    case 'and':
+      return evaluateCondition(node.left, scope) && evaluateCondition(node.right, scope);
+    case 'or':
+      return evaluateCondition(node.left, scope) || evaluateCondition(node.right, scope);
+    case 'not':
+      return !evaluateCondition(node.operand, scope);
+    case 'truthy':
+      return !FALSY_VALUES.includes(normalizeForEquality(resolveOperand(node.operand, scope)));
+    case 'compare': {
+      const left = resolveOperand(node.left, scope);
+      const right = resolveOperand(node.right, scope);
+      switch (node.operator) {
+        case '==':
+          return normalizeForEquality(left) === normalizeForEquality(right);
+        case '!=':
+          return normalizeForEquality(left) !== normalizeForEquality(right);
+        case 'contains':
+          return left.split(';').some(option => normalizeForEquality(option) === normalizeForEquality(right));
+        default: {
+          const diff = compareOrdered(left, right);
+          if (diff === null) return false;
+          if (node.operator === '>') return diff > 0;
+          if (node.operator === '<') return diff < 0;
+          if (node.operator === '>=') return diff >= 0;
+          return diff <= 0;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Parser result for a {{#if …}} tag: evaluates the condition against the render scope.
+ * A malformed condition is logged and treated as false so the rest of the document still renders.
+ */
+export function createConditionGetter(tag: string) {
+  const expression = normalizeQuotes(tag).trim().replace(/^if\s+/i, '');
+  let node: ConditionNode | null = null;
+  try {
+    node = parseCondition(expression);
+  } catch (error) {
+    console.warn(`[Conditions] Invalid condition "${expression}":`, error instanceof Error ? error.message : error);
+  }
+  return {
+    get: (scope: any) => (node ? evaluateCondition(node, scope ?? {}) : false),
+  };
+}
+
+const isParagraphTag = (part: any, position: 'start' | 'end') =>
+  part.type === 'tag' && (part.tag === 'w:p' || part.tag === 'a:p') && part.position === position;
+
+const hasVisibleContent = (part: any) =>
+  part.type === 'placeholder' || (part.type === 'content' && part.position === 'insidetag' && part.value.trim() !== '');
+
+/**
+ * Docxtemplater module wiring {{else}} and {{/if}} into the loop module.
+ *
+ * The loop module already parses {{#if …}} as a section start (value "if …") and {{/if}}
+ * as a section end (value "if"). Before pairs are matched, this module:
+ * - turns {{/if}} into an anonymous end tag, so it closes "if …" starts
+ * - replaces {{else}} with an end tag plus an inverted start on the same condition.
+ *   When {{else}} stands alone in its paragraph, the paragraph is duplicated so each tag
+ *   keeps a paragraph of its own and paragraphLoop can drop both.
+ */
+export function createConditionsModule() {
+  return {
+    name: 'ConditionsModule',
+    // Must run before the loop / expandPair postparse hooks
+    priority: 10,
+    postparse(parsed: any[]) {
+      const openConditions: string[] = [];
+      const result: any[] = [];
+
+      for (let i = 0; i < parsed.length; i++) {
+        const part = parsed[i];
+        if (part.type !== 'placeholder') {
+          result.push(part);
+          continue;
+        }
+
+        if (part.module === 'loop' && part.location === 'start') {
+          openConditions.push(part.value);
+          result.push(part);
+        } else if (part.module === 'loop' && part.location === 'end') {
+          openConditions.pop();
+          result.push(/^if$/i.test(String(part.value).trim()) ? { ...part, value: '' } : part);
+        } else if (!part.module && ELSE_TAG_REGEX.test(String(part.value).trim())) {
+          const condition = openConditions[openConditions.length - 1];
+          if (condition === undefined || !isConditionExpressionTag(condition)) {
+            // {{else}} outside {{#if}}: leave it as an ordinary (empty) placeholder
+            result.push(part);
+            continue;
+          }
+          const endPart = { ...part, module: 'loop', location: 'end', value: '' };
+          const startPart = { ...part, module: 'loop', location: 'start', inverted: true, expandTo: 'auto', value: condition };
+
+          let paragraphStart = result.length - 1;
+          while (paragraphStart >= 0 && !isParagraphTag(result[paragraphStart], 'start') && !hasVisibleContent(result[paragraphStart])) {
+            paragraphStart--;
+          }
+          let paragraphEnd = i + 1;
+          while (paragraphEnd < parsed.length && !isParagraphTag(parsed[paragraphEnd], 'end') && !hasVisibleContent(parsed[paragraphEnd])) {
+            paragraphEnd++;
+          }
+          const aloneInParagraph = paragraphStart >= 0 && isParagraphTag(result[paragraphStart], 'start')
+            && paragraphEnd < parsed.length && isParagraphTag(parsed[paragraphEnd], 'end');
+
+          if (aloneInParagraph) {
+            const before = result.splice(paragraphStart);
+            const after = parsed.slice(i + 1, paragraphEnd + 1);
+            result.push(...before, endPart, ...after, ...before, startPart, ...after);
+            i = paragraphEnd;
+          } else {
+            result.push(endPart, startPart);
+          }
+        } else {
+          result.push(part);
+        }
+      }
+
+      return result;
+    },
+  };
+}
+
+/**
+ * Replace condition tags in extracted placeholders with the fields they reference,
+ * so {{#if loai_hop_dong == '…'}} surfaces loai_hop_dong in the form even when the
+ * document never prints it. {{else}} / {{/if}} are dropped.
+ */
+export function expandConditionOccurrences(occurrences: PlaceholderOccurrence[]): PlaceholderOccurrence[] {
+  const result: PlaceholderOccurrence[] = [];
+  const byRaw = new Map<string, PlaceholderOccurrence>();
+
+  const add = (raw: string, occurrence: PlaceholderOccurrence, conditional: boolean) => {
+    const existing = byRaw.get(raw);
+    if (!existing) {
+      const entry: PlaceholderOccurrence = { raw, locations: [...occurrence.locations] };
+      if (conditional) entry.conditional = true;
+      byRaw.set(raw, entry);
+      result.push(entry);
+      return;
+    }
+    if (conditional) existing.conditional = true;
+    for (const location of occurrence.locations) {
+      if (!existing.locations.includes(location)) existing.locations.push(location);
+    }
+  };
+
+  for (const occurrence of occurrences) {
+    const tag = parseConditionTag(occurrence.raw);
+    if (!tag) {
+      add(occurrence.raw, occurrence, false);
+    } else if (tag.kind === 'if') {
+      for (const name of getConditionFieldNames(tag.expression)) {
+        add(name, occurrence, true);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,288 @@
+/**
+ * Value formatters applied at render time: {{field|formatter:arg|formatter2}}.
+ *
+ * The raw value stays in documentFields; formatting only happens when the
+ * document (or its preview) is rendered.
+ * - {{ngay_ky|date}}                     05/03/2024 (default dd/MM/yyyy)
+ * - {{ngay_ky|date:'dd/MM/yyyy'}}        tokens: dd d MM M yyyy yy
+ * - {{ngay_ky|date:long}}                ngày 05 tháng 3 năm 2024 (thể thức văn bản hành chính)
+ * - {{so_tien|number}} / number:2        1.000.000 / 1.000.000,00
+ * - {{so_tien|currency:VND}}             1.000.000 ₫ (any ISO 4217 code)
+ * - {{so_tien|words:vi}}                 một triệu
+ * - {{ho_ten|upper}} / lower / capitalize
+ * - {{gioi_tinh['Nam']['Nữ']|boxes}}    ☒ Nam   ☐ Nữ (checklist render mode, see shared/checklist.ts)
+ * - {{gioi_tinh['Nam']['Nữ']|list}}     • Nam (one bullet per selected option)
+ *
+ * Legacy checklist syntax {{field|opt1|opt2}} still works: a pipe chain is only
+ * treated as formatters when every segment is a known formatter.
+ */
+
+import { parseDateValue, parseNumberValue } from '@shared/field-validation';
+import { renderChecklistValue, type ChecklistRenderMode } from '@shared/checklist';
+
+export interface ValueFormatter {
+  name: FormatterName;
+  arg?: string;
+}
+
+type FormatterName = 'date' | 'number' | 'currency' | 'words' | 'upper' | 'lower' | 'capitalize' | 'boxes' | 'list';
+
+const FORMATTER_NAMES: FormatterName[] = ['date', 'number', 'currency', 'words', 'upper', 'lower', 'capitalize', 'boxes', 'list'];
+
+/**
+ * Split on a separator outside quotes and ['...'] option brackets.
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && text[i + 1] === quote) {
+        current += ch + quote;
+        i++;
+        continue;
+      }
+      if (ch === quote) quote = null;
+      current += ch;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+      current += ch;
+    } else if (ch === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  if (trimmed.length >= 2 && (trimmed[0] === "'" || trimmed[0] === '"') && trimmed[trimmed.length - 1] === trimmed[0]) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+/**
+ * Formatter names are matched exactly (lowercase): {{x|Date|List}} keeps its legacy meaning
+ * of a checklist with the options "Date" and "List".
+ */
+function parseFormatter(segment: string): ValueFormatter | null {
+  const match = segment.trim().match(/^([a-z]+)\s*(?::([\s\S]*))?$/);
+  if (!match) return null;
+  const name = match[1] as FormatterName;
+  if (!FORMATTER_NAMES.includes(name)) return null;
+  const arg = match[2] !== undefined ? unquote(match[2]) : undefined;
+  return arg ? { name, arg } : { name };
+}
+
+/**
+ * Extract the formatter chain of a raw placeholder.
+ *
+ *   "so_tien|currency:VND" → { placeholder: "so_tien", formatters: [{ name: 'currency', arg: 'VND' }] }
+ *   "gioi_tinh|Nam|Nữ"     → { placeholder: "gioi_tinh|Nam|Nữ", formatters: [] }   (legacy options)
+ */
+export function extractFormatters(raw: string): { placeholder: string; formatters: ValueFormatter[] } {
+  const normalized = raw
+    .replace(/[\u2018\u2019\u201A\u201B]/g, "'")
+    .replace(/[\u201C\u201D\u201E\u201F]/g, '"');
+
+  const [head, ...segments] = splitOutsideQuotes(normalized, '|');
+  if (segments.length === 0) return { placeholder: raw, formatters: [] };
+
+  const formatters: ValueFormatter[] = [];
+  for (const segment of segments) {
+    const formatter = parseFormatter(segment);
+    if (!formatter) return { placeholder: raw, formatters: [] };
+    formatters.push(formatter);
+  }
+
+  return { placeholder: head.trim(), formatters };
+}
+
+/**
+ * Checklist render mode set in the placeholder ({{field['a']['b']|boxes}}), if any.
+ */
+export function getChecklistModeFormatter(formatters: ValueFormatter[]): ChecklistRenderMode | undefined {
+  const last = formatters.filter(f => f.name === 'boxes' || f.name === 'list').pop();
+  return last ? (last.name as ChecklistRenderMode) : undefined;
+}
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Format a date with dd/d/MM/M/yyyy/yy tokens, or 'long' for the administrative style
+ * "ngày 05 tháng 3 năm 2024" (ngày < 10 và tháng 1, 2 thêm số 0).
+ */
+export function formatDateValue(date: Date, pattern: string = 'dd/MM/yyyy'): string {
+  const day = date.getUTCDate();
+  const month = date.getUTCMonth() + 1;
+  const year = date.getUTCFullYear();
+
+  if (pattern === 'long') {
+    const monthText = month <= 2 ? pad2(month) : String(month);
+    return `ngày ${pad2(day)} tháng ${monthText} năm ${year}`;
+  }
+
+  return pattern.replace(/yyyy|yy|MM|M|dd|d/g, token => {
+    switch (token) {
+      case 'yyyy': return String(year);
+      case 'yy': return String(year).slice(-2);
+      case 'MM': return pad2(month);
+      case 'M': return String(month);
+      case 'dd': return pad2(day);
+      default: return String(day);
+    }
+  });
+}
+
+const DIGIT_WORDS = ['không', 'một', 'hai', 'ba', 'bốn', 'năm', 'sáu', 'bảy', 'tám', 'chín'];
+
+/**
+ * Read a group of three digits. `full` = the group is not the leading one,
+ * so leading zeros are read ("không trăm linh năm").
+ */
+function readThreeDigits(num: number, full: boolean): string[] {
+  const hundreds = Math.floor(num / 100);
+  const tens = Math.floor(num / 10) % 10;
+  const units = num % 10;
+  const words: string[] = [];
+
+  if (hundreds > 0 || full) {
+    words.push(DIGIT_WORDS[hundreds], 'trăm');
+  }
+
+  if (tens === 0) {
+    if (units > 0 && (hundreds > 0 || full)) words.push('linh');
+  } else if (tens === 1) {
+    words.push('mười');
+  } else {
+    words.push(DIGIT_WORDS[tens], 'mươi');
+  }
+
+  if (units > 0) {
+    if (units === 1 && tens > 1) words.push('mốt');
+    else if (units === 5 && tens > 0) words.push('lăm');
+    else words.push(DIGIT_WORDS[units]);
+  }
+
+  return words;
+}
+
+/**
+ * Read a positive integer below one billion.
+ */
+function readBelowBillion(num: number, full: boolean): string[] {
+  const groups = [Math.floor(num / 1_000_000), Math.floor(num / 1000) % 1000, num % 1000];
+  const units = ['triệu', 'nghìn', ''];
+  const words: string[] = [];
+
+  for (let i = 0; i < groups.length; i++) {
+    if (groups[i] === 0) continue;
+    words.push(...readThreeDigits(groups[i], full || words.length > 0));
+    if (units[i]) words.push(units[i]);
+  }
+
+  return words;
+}
+
+function readInteger(num: number, full: boolean): string[] {
+  if (num >= 1_000_000_000) {
+    const billions = Math.floor(num / 1_000_000_000);
+    const rest = num % 1_000_000_000;
+    return [...readInteger(billions, full), 'tỷ', ...(rest > 0 ? readBelowBillion(rest, true) : [])];
+  }
+  return readBelowBillion(num, full);
+}
+
+/**
+ * Vietnamese number-to-words: 1250000 → "một triệu hai trăm năm mươi nghìn".
+ * Decimals are read after "phẩy": 1,5 → "một phẩy năm".
+ */
+export function numberToVietnameseWords(value: number): string {
+  if (!isFinite(value)) return String(value);
+
+  const negative = value < 0;
+  const [intText, fracText] = Math.abs(value).toString().split('.');
+  const integer = Number(intText);
+
+  const words = integer === 0 ? ['không'] : readInteger(integer, false);
+  if (fracText) {
+    words.push('phẩy');
+    // Leading zeros of the fraction are read digit by digit: 1,05 → một phẩy không năm
+    const leadingZeros = fracText.match(/^0*/)![0].length;
+    for (let i = 0; i < leadingZeros; i++) words.push('không');
+    const rest = Number(fracText);
+    if (rest > 0) words.push(...readInteger(rest, false));
+  }
+
+  return (negative ? ['âm', ...words] : words).join(' ');
+}
+
+function formatNumber(value: number, decimals?: number): string {
+  return new Intl.NumberFormat('vi-VN', {
+    minimumFractionDigits: decimals ?? 0,
+    maximumFractionDigits: decimals ?? 20,
+  }).format(value);
+}
+
+function formatCurrency(value: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('vi-VN', { style: 'currency', currency: currency.toUpperCase() }).format(value);
+  } catch {
+    // Unknown currency code: fall back to the number followed by the code
+    return `${formatNumber(value)} ${currency}`;
+  }
+}
+
+function applyFormatter(value: string, formatter: ValueFormatter): string {
+  switch (formatter.name) {
+    case 'date': {
+      const date = parseDateValue(value);
+      return date ? formatDateValue(date, formatter.arg) : value;
+    }
+    case 'number': {
+      const n = parseNumberValue(value);
+      const decimals = formatter.arg !== undefined ? parseInt(formatter.arg, 10) : undefined;
+      return n === null ? value : formatNumber(n, decimals !== undefined && !isNaN(decimals) ? decimals : undefined);
+    }
+    case 'currency': {
+      const n = parseNumberValue(value);
+      return n === null ? value : formatCurrency(n, formatter.arg || 'VND');
+    }
+    case 'words': {
+      const n = parseNumberValue(value);
+      const language = (formatter.arg || 'vi').toLowerCase();
+      return n === null || language !== 'vi' ? value : numberToVietnameseWords(n);
+    }
+    case 'upper':
+      return value.toLocaleUpperCase('vi-VN');
+    case 'lower':
+      return value.toLocaleLowerCase('vi-VN');
+    case 'capitalize':
+      return value.charAt(0).toLocaleUpperCase('vi-VN') + value.slice(1);
+    case 'boxes':
+    case 'list':
+      // Without the field's options only the selected ones can be printed;
+      // the docx parsers pass the options through ChecklistRenderConfig instead
+      return renderChecklistValue(value, [], formatter.name);
+  }
+}
+
+/**
+ * Apply a formatter chain to a raw value. Empty and non-string values are returned unchanged;
+ * a formatter that cannot parse the value (e.g. date on free text) leaves it as is.
+ */
+export function applyFormatters<T>(value: T, formatters: ValueFormatter[]): T | string {
+  if (formatters.length === 0 || typeof value !== 'string' || value.trim() === '') {
+    return value;
+  }
+  return formatters.reduce((current, formatter) => applyFormatter(current, formatter), value as string);
+}
@@ -0,0 +1,68 @@
+/**
+ * Background batch jobs, shared by server and client.
+ *
+ * A job (batch_jobs) works on one batch session:
+ *   - import: read the uploaded workbook into batch documents, then create the documents
+ *   - create: create the documents of the pending / approved rows of the session
+ *
+ * Jobs run one at a time in the server process (server/services/batch-job.service.ts).
+ * Queued and running jobs are resumed when the server starts: rows already read are not
+ * read again and rows already created are skipped.
+ */
+
+export const BATCH_JOB_KINDS = ['import', 'create'] as const;
+export type BatchJobKind = typeof BATCH_JOB_KINDS[number];
+
+export const BATCH_JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'] as const;
+export type BatchJobStatus = typeof BATCH_JOB_STATUSES[number];
+
+/** Statuses of a job that is not finished; a session has at most one */
+export const ACTIVE_BATCH_JOB_STATUSES: readonly BatchJobStatus[] = ['queued', 'running'];
+
+/** parse = reading workbook rows, create = creating documents */
+export type BatchJobPhase = 'parse' | 'create';
+
+export const BATCH_JOB_STATUS_LABELS: Record<BatchJobStatus, string> = {
+  queued: 'Đang chờ',
+  running: 'Đang chạy',
+  completed: 'Hoàn tất',
+  failed: 'Lỗi',
+  cancelled: 'Đã hủy',
+};
+
+/** Error of one row of the workbook */
+export interface BatchJobRowError {
+  batchDocumentUuid?: string;
+  /** Row number in the first sheet (1 = first data row) */
+  rowIndex: number;
+  documentName: string;
+  error: string;
+  /** Field name → message, for invalid field values */
+  fieldErrors?: Record<string, string>;
+}
+
+/** Rows written to the database per transaction while reading the workbook */
+export const BATCH_PARSE_CHUNK_SIZE = 100;
+
+export function isActiveBatchJobStatus(status: string): boolean {
+  return (ACTIVE_BATCH_JOB_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Progress of a job in percent. An import job reads every row, then creates every row;
+ * both halves count the same.
+ */
+export function getBatchJobProgress(job: {
+  kind: string;
+  status: string;
+  totalRows: number;
+  parsedRows: number;
+  processedRows: number;
+}): number {
+  if (job.status === 'completed') return 100;
+  if (job.totalRows === 0) return 0;
+
+  const done = job.kind === 'import' ? job.parsedRows + job.processedRows : job.processedRows;
+  const total = job.kind === 'import' ? job.totalRows * 2 : job.totalRows;
+  return Math.min(100, Math.floor((done / total) * 100));
+}
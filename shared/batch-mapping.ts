@@ -0,0 +1,160 @@
+/**
+ * Column mapping of batch uploads, shared by server and client.
+ *
+ * The first column of the first sheet is the document name and the DOCUMENT_KEY column links the
+ * table sheets; every other column is mapped to a template field or skipped. Suggestions compare
+ * the header with the field names: exact, case-insensitive, without accents / special characters,
+ * then partial. The upload dialog shows them for confirmation, takes constant values for fields
+ * without a column, and can save the mapping as a preset of the template (batch_mapping_presets).
+ */
+
+export type BatchColumnMatchType = 'exact' | 'case-insensitive' | 'normalized' | 'partial';
+
+/** Confidence of a suggestion in percent */
+export const BATCH_COLUMN_MATCH_CONFIDENCE: Record<BatchColumnMatchType, number> = {
+  exact: 100,
+  'case-insensitive': 95,
+  normalized: 85,
+  partial: 50,
+};
+
+export interface BatchColumnSuggestion {
+  header: string;
+  /** Suggested template field, null when no field matches */
+  fieldName: string | null;
+  matchType: BatchColumnMatchType | null;
+  confidence: number;
+}
+
+export interface BatchColumnMapping {
+  /** Excel header → template field name, null = skip the column. Headers not listed use the suggestion. */
+  columns: Record<string, string | null>;
+  /** Template field name → value of every row; a non-empty cell of a mapped column wins */
+  constants: Record<string, string>;
+}
+
+/** Mappable column of an uploaded workbook, with the first values of the column */
+export interface BatchMappingColumn extends BatchColumnSuggestion {
+  samples: string[];
+}
+
+/** Mapping part of POST /api/templates/:uuid/parse-excel */
+export interface BatchMappingPreview {
+  /** Columns of the first sheet other than the name, DOCUMENT_KEY and ERRORS columns */
+  columns: BatchMappingColumn[];
+  /** Template fields a column or a constant can fill */
+  fields: Array<{ name: string; fieldType: string; required: boolean; defaultValue: string | null }>;
+}
+
+export const MAX_BATCH_MAPPING_PRESET_NAME_LENGTH = 100;
+
+/**
+ * Whether a template field can take a column value. Table markers, image fields, computed fields
+ * and numbered fields are filled another way.
+ */
+export function isBatchMappableField(field: {
+  fieldType?: string | null;
+  expression?: string | null;
+  numberingSequenceId?: string | null;
+}): boolean {
+  return field.fieldType !== 'row_group' && field.fieldType !== 'image' && !field.expression && !field.numberingSequenceId;
+}
+
+/** Lowercase, without accents and without characters other than a-z and 0-9 ("Họ tên" → "hoten" ← "ho_ten") */
+export function normalizeBatchHeader(value: string): string {
+  if (!value) return '';
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D')
+    .toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function matchHeader(header: string, fieldName: string): BatchColumnMatchType | null {
+  if (fieldName === header) return 'exact';
+  if (fieldName.toLowerCase() === header.toLowerCase()) return 'case-insensitive';
+
+  const normalizedHeader = normalizeBatchHeader(header);
+  const normalizedField = normalizeBatchHeader(fieldName);
+  if (!normalizedHeader || !normalizedField) return null;
+  if (normalizedHeader === normalizedField) return 'normalized';
+  if (normalizedHeader.length >= 3 && normalizedField.length >= 3 &&
+      (normalizedHeader.includes(normalizedField) || normalizedField.includes(normalizedHeader))) {
+    return 'partial';
+  }
+  return null;
+}
+
+/**
+ * Suggested field of each header (same order as `headers`). A field is suggested for one column
+ * only: the best match wins, then the first column; a longer field name wins among partial matches.
+ */
+export function suggestBatchColumnMapping(headers: string[], fieldNames: string[]): BatchColumnSuggestion[] {
+  const candidates = headers.flatMap((header, headerIndex) => fieldNames.flatMap(fieldName => {
+    const matchType = header ? matchHeader(String(header).trim(), fieldName) : null;
+    return matchType ? [{ headerIndex, fieldName, matchType, confidence: BATCH_COLUMN_MATCH_CONFIDENCE[matchType] }] : [];
+  }));
+  candidates.sort((a, b) =>
+    b.confidence - a.confidence || b.fieldName.length - a.fieldName.length || a.headerIndex - b.headerIndex
+  );
+
+  const suggestions: BatchColumnSuggestion[] = headers.map(header => ({
+    header: String(header ?? ''),
+    fieldName: null,
+    matchType: null,
+    confidence: 0,
+  }));
+  const usedFields = new Set<string>();
+  candidates.forEach(candidate => {
+    const suggestion = suggestions[candidate.headerIndex];
+    if (suggestion.fieldName || usedFields.has(candidate.fieldName)) return;
+    Object.assign(suggestion, { fieldName: candidate.fieldName, matchType: candidate.matchType, confidence: candidate.confidence });
+    usedFields.add(candidate.fieldName);
+  });
+  return suggestions;
+}
+
+/**
+ * Template field of each header with the mapping applied over the suggestions; null for skipped
+ * and unmatched columns. A field chosen in the mapping is not also suggested for another column.
+ */
+export function resolveBatchColumnFields(
+  headers: string[],
+  fieldNames: string[],
+  mapping?: BatchColumnMapping | null
+): Array<string | null> {
+  const columns = mapping?.columns ?? {};
+  const known = new Set(fieldNames);
+  const chosen = new Set(Object.values(columns).filter((name): name is string => !!name && known.has(name)));
+  const suggestions = suggestBatchColumnMapping(
+    headers.map(header => Object.prototype.hasOwnProperty.call(columns, header) ? '' : header),
+    fieldNames.filter(name => !chosen.has(name))
+  );
+
+  return headers.map((header, index) => {
+    if (Object.prototype.hasOwnProperty.call(columns, header)) {
+      const fieldName = columns[header];
+      return fieldName && known.has(fieldName) ? fieldName : null;
+    }
+    return suggestions[index].fieldName;
+  });
+}
+
+/** Error message for an invalid mapping, or null. Fields that are not in `fieldNames` are rejected. */
+export function validateBatchColumnMapping(mapping: unknown, fieldNames: string[]): string | null {
+  if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) return 'mapping must be an object';
+  const { columns, constants } = mapping as Record<string, unknown>;
+  if (typeof columns !== 'object' || columns === null || Array.isArray(columns)) return 'mapping.columns must be an object';
+  if (typeof constants !== 'object' || constants === null || Array.isArray(constants)) return 'mapping.constants must be an object';
+
+  const known = new Set(fieldNames);
+  const mapped = new Set<string>();
+  for (const [header, fieldName] of Object.entries(columns)) {
+    if (fieldName === null) continue;
+    if (typeof fieldName !== 'string' || !known.has(fieldName)) return `Column "${header}" is mapped to an unknown field`;
+    if (mapped.has(fieldName)) return `Field "${fieldName}" is mapped to more than one column`;
+    mapped.add(fieldName);
+  }
+  for (const [fieldName, value] of Object.entries(constants)) {
+    if (!known.has(fieldName)) return `Constant value for unknown field "${fieldName}"`;
+    if (typeof value !== 'string') return `Constant value of "${fieldName}" must be text`;
+  }
+  return null;
+}
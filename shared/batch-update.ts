@@ -0,0 +1,48 @@
+/**
+ * Batch updates by key, shared by server and client.
+ *
+ * A batch upload can name a key field (e.g. so_hop_dong). A row whose key value matches an
+ * existing, not archived document of the template updates that document instead of creating a
+ * new one; rows without a match (or without a key value) create documents as before. Empty cells
+ * keep the stored value, table sheets replace the rows of the tables they contain.
+ *
+ * Before the upload is confirmed, the dialog shows which rows will be created, updated or left
+ * unchanged (POST /api/templates/:uuid/upload-batch/preview).
+ */
+
+export type BatchRowAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export const BATCH_ROW_ACTION_LABELS: Record<BatchRowAction, string> = {
+  create: 'Tạo mới',
+  update: 'Cập nhật',
+  unchanged: 'Không đổi',
+  invalid: 'Lỗi',
+};
+
+export interface BatchUpdatePreviewRow {
+  /** Row number in the first sheet (1 = first data row) */
+  rowIndex: number;
+  documentName: string;
+  action: BatchRowAction;
+  keyValue: string;
+  /** Document matched by the key (update / unchanged) */
+  documentUuid?: string;
+  /** Fields, tables and name ("name") the update changes */
+  changes?: string[];
+  /** Why the row cannot be imported (invalid) */
+  error?: string;
+}
+
+export interface BatchUpdatePreview {
+  keyField: string;
+  counts: Record<BatchRowAction, number>;
+  rows: BatchUpdatePreviewRow[];
+}
+
+/** Key value of a row: the trimmed value of the key field, '' when the row has none */
+export function getBatchRowKeyValue(
+  fields: Array<{ fieldName: string; fieldValue: string }>,
+  keyField: string
+): string {
+  return fields.find(field => field.fieldName === keyField)?.fieldValue.trim() ?? '';
+}
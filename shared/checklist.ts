@@ -0,0 +1,103 @@
+/**
+ * Checklist render modes, shared by server and client.
+ *
+ * Checklist values are stored as "opt1; opt2". How they are printed depends on the field's mode:
+ * - text   "Nam; Nữ"                     (default)
+ * - boxes  "☒ Nam   ☐ Nữ   ☐ Khác"       every option with a ticked / empty box
+ * - list   "• Nam\n• Nữ"                 only the selected options, one bullet per line
+ *
+ * The mode is set in the template with {{field['opt1']['opt2']|boxes}} or {{field['opt1']['opt2']|list}},
+ * or changed later on the template page.
+ */
+
+export const CHECKLIST_RENDER_MODES = ['text', 'boxes', 'list'] as const;
+
+export type ChecklistRenderMode = typeof CHECKLIST_RENDER_MODES[number];
+
+/** Render mode and options of each checklist field, by field name */
+export type ChecklistRenderConfig = Record<string, { mode: ChecklistRenderMode; options: string[] }>;
+
+const BOX_CHECKED = '\u2612'; // ☒
+const BOX_EMPTY = '\u2610'; // ☐
+const BULLET = '\u2022'; // •
+
+export function isChecklistRenderMode(value: unknown): value is ChecklistRenderMode {
+  return typeof value === 'string' && (CHECKLIST_RENDER_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Selected options of a checklist value. Also reads the rendered forms back
+ * ("☒ Nam   ☐ Nữ", "• Nam\n• Nữ"), so exported cells can be imported again.
+ */
+export function splitChecklistValue(value: string | null | undefined): string[] {
+  const text = (value ?? '').trim();
+  if (!text) return [];
+
+  if (text.includes(BOX_CHECKED) || text.includes(BOX_EMPTY)) {
+    return text
+      .split(new RegExp(`(?=[${BOX_CHECKED}${BOX_EMPTY}])`))
+      .filter(part => part.startsWith(BOX_CHECKED))
+      .map(part => part.slice(1).trim())
+      .filter(Boolean);
+  }
+
+  if (text.startsWith(BULLET)) {
+    return text
+      .split(/\r?\n/)
+      .map(line => line.trim().replace(new RegExp(`^${BULLET}\\s*`), '').trim())
+      .filter(Boolean);
+  }
+
+  return text.split(';').map(option => option.trim()).filter(Boolean);
+}
+
+/**
+ * Print a checklist value in the given mode. In boxes mode, selected values that
+ * are not among the options are still printed (ticked) after them.
+ */
+export function renderChecklistValue(
+  value: string | null | undefined,
+  options: string[],
+  mode: ChecklistRenderMode
+): string {
+  const selected = splitChecklistValue(value);
+
+  switch (mode) {
+    case 'boxes': {
+      const isSelected = (option: string) => selected.some(s => s.toLowerCase() === option.toLowerCase());
+      const extra = selected.filter(s => !options.some(option => option.toLowerCase() === s.toLowerCase()));
+      return [
+        ...options.map(option => `${isSelected(option) ? BOX_CHECKED : BOX_EMPTY} ${option}`),
+        ...extra.map(option => `${BOX_CHECKED} ${option}`),
+      ].join('   ');
+    }
+    case 'list':
+      return selected.map(option => `${BULLET} ${option}`).join('\n');
+    default:
+      return selected.join('; ');
+  }
+}
+
+/**
+ * Build the render config of a template's checklist fields (options are stored as a JSON array).
+ * Fields in the default text mode are left out.
+ */
+export function buildChecklistRenderConfig(
+  fields: Array<{ name: string; fieldType: string; options?: string | null; checklistMode?: string | null }>
+): ChecklistRenderConfig {
+  const config: ChecklistRenderConfig = {};
+  for (const field of fields) {
+    if (field.fieldType !== 'checklist' || !isChecklistRenderMode(field.checklistMode) || field.checklistMode === 'text') {
+      continue;
+    }
+    let options: string[] = [];
+    try {
+      const parsed = field.options ? JSON.parse(field.options) : [];
+      if (Array.isArray(parsed)) options = parsed.map(String);
+    } catch {
+      console.warn(`[Checklist] Invalid options for field "${field.name}"`);
+    }
+    config[field.name] = { mode: field.checklistMode, options };
+  }
+  return config;
+}
@@ -0,0 +1,351 @@
+/**
+ * Computed (derived) fields, shared by server and client.
+ *
+ * Placeholder syntax — ":=" after the field name, formatters still apply:
+ * - {{tong_tien:=sum(hang_hoa.thanh_tien)}}          total of a table column
+ * - {{thue_vat:=round(tong_tien * 0.1)|currency:VND}}
+ * - {{ngay_het_han:=addDays(ngay_bat_dau, 30)}}      dates come out as dd/MM/yyyy
+ * - {{so_dong:=count(hang_hoa)}}
+ *
+ * Operands: numbers, 'text', field names and table.column references (inside sum/avg/min/max/count).
+ * Operators: + - * / and parentheses; date ± number adds days, date - date gives days.
+ * Functions: sum, avg, min, max, count, round(x, digits), abs, addDays, addMonths, addYears,
+ * days(from, to), today().
+ *
+ * An empty or non-numeric operand makes the result empty instead of guessing a value.
+ */
+
+import { parseDateValue, parseNumberValue } from './field-validation';
+
+export interface ComputedFieldDef {
+  name: string;
+  expression?: string | null;
+}
+
+/** Rows of document tables and chorus blocks, by table name */
+export type ComputedTableRows = Record<string, Array<Record<string, string>>>;
+
+type ComputedNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'field'; name: string }
+  | { kind: 'column'; table: string; column: string }
+  | { kind: 'negate'; operand: ComputedNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: ComputedNode; right: ComputedNode }
+  | { kind: 'call'; name: string; args: ComputedNode[] };
+
+type ComputedValue = number | Date | string | null;
+
+type Token =
+  | { type: 'number'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'name'; value: string }
+  | { type: 'symbol'; value: string };
+
+const FUNCTION_NAMES = ['sum', 'avg', 'min', 'max', 'count', 'round', 'abs', 'adddays', 'addmonths', 'addyears', 'days', 'today'];
+const AGGREGATES = ['sum', 'avg', 'min', 'max', 'count'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Extract the ":=expression" part of a raw placeholder.
+ *
+ *   "tong_tien:=sum(hang_hoa.thanh_tien)" → { placeholder: "tong_tien", expression: "sum(hang_hoa.thanh_tien)" }
+ */
+export function extractComputedExpression(raw: string): { placeholder: string; expression: string | null } {
+  const match = raw.match(/^([^:=\[|]+):=([\s\S]+)$/);
+  if (!match || !match[2].trim()) return { placeholder: raw, expression: null };
+  return {
+    placeholder: match[1].trim(),
+    expression: match[2].trim()
+      .replace(/[\u2018\u2019\u201A\u201B]/g, "'")
+      .replace(/[\u201C\u201D\u201E\u201F]/g, '"'),
+  };
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const ch = expression[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/\d/.test(ch)) {
+      const match = expression.slice(i).match(/^\d+(\.\d+)?/)!;
+      tokens.push({ type: 'number', value: match[0] });
+      i += match[0].length;
+    } else if (ch === "'" || ch === '"') {
+      const end = expression.indexOf(ch, i + 1);
+      if (end === -1) throw new Error('Unterminated string');
+      tokens.push({ type: 'string', value: expression.slice(i + 1, end) });
+      i = end + 1;
+    } else if ('+-*/(),'.includes(ch)) {
+      tokens.push({ type: 'symbol', value: ch });
+      i++;
+    } else {
+      const match = expression.slice(i).match(/^[^\s+\-*/(),'"]+/)!;
+      tokens.push({ type: 'name', value: match[0] });
+      i += match[0].length;
+    }
+  }
+  return tokens;
+}
+
+function parseExpression(expression: string): ComputedNode {
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const isSymbol = (value: string) => tokens[pos]?.type === 'symbol' && tokens[pos].value === value;
+  const expectSymbol = (value: string) => {
+    if (!isSymbol(value)) throw new Error(`Expected "${value}"`);
+    pos++;
+  };
+
+  const parsePrimary = (): ComputedNode => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('Unexpected end of expression');
+    if (token.type === 'number') return { kind: 'number', value: Number(token.value) };
+    if (token.type === 'string') return { kind: 'string', value: token.value };
+    if (token.type === 'symbol') {
+      if (token.value === '(') {
+        const inner = parseSum();
+        expectSymbol(')');
+        return inner;
+      }
+      if (token.value === '-') return { kind: 'negate', operand: parsePrimary() };
+      throw new Error(`Unexpected "${token.value}"`);
+    }
+
+    if (isSymbol('(')) {
+      const name = token.value.toLowerCase();
+      if (!FUNCTION_NAMES.includes(name)) throw new Error(`Unknown function "${token.value}"`);
+      pos++;
+      const args: ComputedNode[] = [];
+      if (!isSymbol(')')) {
+        args.push(parseSum());
+        while (isSymbol(',')) {
+          pos++;
+          args.push(parseSum());
+        }
+      }
+      expectSymbol(')');
+      return { kind: 'call', name, args };
+    }
+
+    const dot = token.value.indexOf('.');
+    if (dot > 0 && dot < token.value.length - 1) {
+      return { kind: 'column', table: token.value.slice(0, dot), column: token.value.slice(dot + 1) };
+    }
+    return { kind: 'field', name: token.value };
+  };
+
+  const parseProduct = (): ComputedNode => {
+    let node = parsePrimary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const operator = tokens[pos++].value as '*' | '/';
+      node = { kind: 'binary', operator, left: node, right: parsePrimary() };
+    }
+    return node;
+  };
+
+  const parseSum = (): ComputedNode => {
+    let node = parseProduct();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = tokens[pos++].value as '+' | '-';
+      node = { kind: 'binary', operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  if (tokens.length === 0) throw new Error('Empty expression');
+  const root = parseSum();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos].value}"`);
+  return root;
+}
+
+/**
+ * Check an expression's syntax. Returns an error message, or null when valid.
+ */
+export function validateComputedExpression(expression: string): string | null {
+  try {
+    parseExpression(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid expression';
+  }
+}
+
+function toTypedValue(raw: string | undefined): ComputedValue {
+  const text = (raw ?? '').trim();
+  if (text === '') return null;
+  const number = parseNumberValue(text);
+  if (number !== null) return number;
+  return parseDateValue(text) ?? text;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  // Clamp to the last day of the target month: 31/01 + 1 month → 28/02 (or 29/02)
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return result;
+}
+
+function formatComputedValue(value: ComputedValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) {
+    const pad2 = (n: number) => String(n).padStart(2, '0');
+    return `${pad2(value.getUTCDate())}/${pad2(value.getUTCMonth() + 1)}/${value.getUTCFullYear()}`;
+  }
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return '';
+    // Drop floating point noise: 0.1 * 3 → 0.3. Decimal comma: "1,125" cannot be read as thousands
+    return String(parseFloat(value.toFixed(10))).replace('.', ',');
+  }
+  return value;
+}
+
+/**
+ * Evaluate the computed fields of a template.
+ * Computed fields may reference each other; cycles evaluate to ''.
+ * Returns only the computed values, formatted as the strings stored in document fields.
+ */
+export function evaluateComputedFields(
+  fields: ComputedFieldDef[],
+  values: Record<string, string | null | undefined>,
+  tables: ComputedTableRows = {}
+): Record<string, string> {
+  const definitions = new Map<string, ComputedNode | null>();
+  for (const field of fields) {
+    if (!field.expression) continue;
+    try {
+      definitions.set(field.name, parseExpression(field.expression));
+    } catch (error) {
+      console.warn(`[ComputedFields] Invalid expression for "${field.name}":`, error instanceof Error ? error.message : error);
+      definitions.set(field.name, null);
+    }
+  }
+
+  const results = new Map<string, ComputedValue>();
+  const evaluating = new Set<string>();
+
+  const evaluateField = (name: string): ComputedValue => {
+    if (!definitions.has(name)) return toTypedValue(values[name] ?? undefined);
+    if (results.has(name)) return results.get(name)!;
+    if (evaluating.has(name)) return null; // cycle
+    evaluating.add(name);
+    const node = definitions.get(name);
+    const value = node ? evaluate(node) : null;
+    evaluating.delete(name);
+    results.set(name, value);
+    return value;
+  };
+
+  const columnValues = (node: ComputedNode): ComputedValue[] => {
+    if (node.kind === 'column') {
+      return (tables[node.table] ?? []).map(row => toTypedValue(row[node.column]));
+    }
+    return [evaluate(node)];
+  };
+
+  const evaluateCall = (name: string, args: ComputedNode[]): ComputedValue => {
+    if (AGGREGATES.includes(name)) {
+      if (name === 'count' && args.length === 1 && args[0].kind === 'field' && args[0].name in tables) {
+        return tables[args[0].name].length;
+      }
+      const items = args.flatMap(columnValues);
+      if (name === 'count') return items.filter(v => v !== null).length;
+      const numbers = items.filter((v): v is number => typeof v === 'number');
+      if (name === 'sum') return numbers.reduce((total, n) => total + n, 0);
+      if (numbers.length === 0) return null;
+      if (name === 'avg') return numbers.reduce((total, n) => total + n, 0) / numbers.length;
+      return name === 'min' ? Math.min(...numbers) : Math.max(...numbers);
+    }
+
+    const [first, second] = args.map(evaluate);
+    switch (name) {
+      case 'today': {
+        const now = new Date();
+        return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+      }
+      case 'round': {
+        if (typeof first !== 'number') return null;
+        const digits = typeof second === 'number' ? second : 0;
+        const factor = Math.pow(10, digits);
+        return Math.round(first * factor) / factor;
+      }
+      case 'abs':
+        return typeof first === 'number' ? Math.abs(first) : null;
+      case 'adddays':
+        return first instanceof Date && typeof second === 'number' ? new Date(first.getTime() + second * DAY_MS) : null;
+      case 'addmonths':
+        return first instanceof Date && typeof second === 'number' ? addMonths(first, second) : null;
+      case 'addyears':
+        return first instanceof Date && typeof second === 'number' ? addMonths(first, second * 12) : null;
+      case 'days':
+        return first instanceof Date && second instanceof Date
+          ? Math.round((second.getTime() - first.getTime()) / DAY_MS)
+          : null;
+      default:
+        return null;
+    }
+  };
+
+  const evaluate = (node: ComputedNode): ComputedValue => {
+    switch (node.kind) {
+      case 'number':
+      case 'string':
+        return node.value;
+      case 'field':
+        return evaluateField(node.name);
+      case 'column':
+        // A bare table.column outside an aggregate means its total
+        return evaluateCall('sum', [node]);
+      case 'negate': {
+        const operand = evaluate(node.operand);
+        return typeof operand === 'number' ? -operand : null;
+      }
+      case 'call':
+        return evaluateCall(node.name, node.args);
+      case 'binary': {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        if (left === null || right === null) return null;
+        if (typeof left === 'number' && typeof right === 'number') {
+          switch (node.operator) {
+            case '+': return left + right;
+            case '-': return left - right;
+            case '*': return left * right;
+            case '/': return right === 0 ? null : left / right;
+          }
+        }
+        if (left instanceof Date && typeof right === 'number' && (node.operator === '+' || node.operator === '-')) {
+          return new Date(left.getTime() + (node.operator === '+' ? right : -right) * DAY_MS);
+        }
+        if (left instanceof Date && right instanceof Date && node.operator === '-') {
+          return Math.round((left.getTime() - right.getTime()) / DAY_MS);
+        }
+        if (node.operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+          return formatComputedValue(left) + formatComputedValue(right);
+        }
+        return null;
+      }
+    }
+  };
+
+  const computed: Record<string, string> = {};
+  definitions.forEach((_node, name) => {
+    computed[name] = formatComputedValue(evaluateField(name));
+  });
+  return computed;
+}
+
+/**
+ * Field values with the computed fields filled in (computed values win over submitted ones).
+ */
+export function withComputedValues(
+  fields: ComputedFieldDef[],
+  values: Record<string, string>,
+  tables: ComputedTableRows = {}
+): Record<string, string> {
+  return { ...values, ...evaluateComputedFields(fields, values, tables) };
+}
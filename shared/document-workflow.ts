@@ -0,0 +1,74 @@
+/**
+ * Document lifecycle, shared by server and client.
+ *
+ *   draft → submitted → approved → signed → issued
+ *
+ * Transitions are listed in DOCUMENT_WORKFLOW_TRANSITIONS with the role needed on the
+ * document's template (see server/auth.ts getTemplateRole). Adding a transition, changing
+ * its role or the locked statuses only needs a change here.
+ *
+ * Fields, tables and the name of a document cannot be edited once it is approved.
+ */
+
+import type { UserRole } from './schema';
+
+export const DOCUMENT_WORKFLOW_STATUSES = ['draft', 'submitted', 'approved', 'signed', 'issued'] as const;
+
+export type DocumentWorkflowStatus = typeof DOCUMENT_WORKFLOW_STATUSES[number];
+
+export const INITIAL_WORKFLOW_STATUS: DocumentWorkflowStatus = 'draft';
+
+export const DOCUMENT_WORKFLOW_LABELS: Record<DocumentWorkflowStatus, string> = {
+  draft: 'Nháp',
+  submitted: 'Chờ duyệt',
+  approved: 'Đã duyệt',
+  signed: 'Đã ký',
+  issued: 'Đã ban hành',
+};
+
+export interface DocumentWorkflowTransition {
+  action: string;
+  label: string;
+  from: DocumentWorkflowStatus;
+  to: DocumentWorkflowStatus;
+  /** Minimum role on the document's template */
+  role: UserRole;
+}
+
+export const DOCUMENT_WORKFLOW_TRANSITIONS: DocumentWorkflowTransition[] = [
+  { action: 'submit', label: 'Gửi duyệt', from: 'draft', to: 'submitted', role: 'editor' },
+  { action: 'approve', label: 'Duyệt', from: 'submitted', to: 'approved', role: 'admin' },
+  { action: 'reject', label: 'Trả lại', from: 'submitted', to: 'draft', role: 'admin' },
+  { action: 'sign', label: 'Ký', from: 'approved', to: 'signed', role: 'admin' },
+  { action: 'reopen', label: 'Mở lại', from: 'approved', to: 'draft', role: 'admin' },
+  { action: 'issue', label: 'Ban hành', from: 'signed', to: 'issued', role: 'editor' },
+];
+
+/** Statuses in which the document content is read-only */
+export const LOCKED_WORKFLOW_STATUSES: DocumentWorkflowStatus[] = ['approved', 'signed', 'issued'];
+
+export function isDocumentWorkflowStatus(value: unknown): value is DocumentWorkflowStatus {
+  return typeof value === 'string' && (DOCUMENT_WORKFLOW_STATUSES as readonly string[]).includes(value);
+}
+
+export function isWorkflowLocked(status: DocumentWorkflowStatus): boolean {
+  return LOCKED_WORKFLOW_STATUSES.includes(status);
+}
+
+export function getWorkflowTransitions(from: DocumentWorkflowStatus): DocumentWorkflowTransition[] {
+  return DOCUMENT_WORKFLOW_TRANSITIONS.filter(transition => transition.from === from);
+}
+
+export function findWorkflowTransition(from: DocumentWorkflowStatus, action: string): DocumentWorkflowTransition | undefined {
+  return DOCUMENT_WORKFLOW_TRANSITIONS.find(transition => transition.from === from && transition.action === action);
+}
+
+/**
+ * Parse a "status" filter: one status or a comma separated list ("approved,signed").
+ * Unknown names are dropped; undefined when nothing valid remains.
+ */
+export function parseWorkflowStatusFilter(value: unknown): DocumentWorkflowStatus[] | undefined {
+  const values = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const statuses = values.map(v => String(v).trim()).filter(isDocumentWorkflowStatus);
+  return statuses.length > 0 ? statuses : undefined;
+}
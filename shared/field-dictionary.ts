@@ -0,0 +1,112 @@
+/**
+ * Field dictionary (shared field definitions), shared by server and client.
+ *
+ * A definition describes a field that appears in many templates (`ho_ten`, `cccd`, `dia_chi`):
+ * its label, type, options list and validation. Template fields are linked to a definition
+ * by name (case-insensitive) when a template is uploaded, or by hand from the template page.
+ * A linked field takes its label (shown as placeholder), type, options and validation from the
+ * definition, and editing the definition updates every linked field.
+ *
+ * Computed fields ({{name:=...}}), image fields and table markers are never linked.
+ */
+
+import type { FieldValidation } from './field-validation';
+
+export const FIELD_DEFINITION_TYPES = ['text', 'textarea', 'number', 'email', 'date', 'checklist'] as const;
+export type FieldDefinitionType = typeof FIELD_DEFINITION_TYPES[number];
+
+export const FIELD_DEFINITION_TYPE_LABELS: Record<FieldDefinitionType, string> = {
+  text: 'Văn bản',
+  textarea: 'Văn bản dài',
+  number: 'Số',
+  email: 'Email',
+  date: 'Ngày',
+  checklist: 'Danh sách chọn',
+};
+
+export const MAX_FIELD_DEFINITION_NAME_LENGTH = 100;
+
+/** Keys of FieldValidation with the type of their value */
+const VALIDATION_KEYS: Record<keyof FieldValidation, 'number' | 'string' | 'number|string' | 'boolean'> = {
+  min: 'number|string',
+  max: 'number|string',
+  integer: 'boolean',
+  minLength: 'number',
+  maxLength: 'number',
+  pattern: 'string',
+  patternMessage: 'string',
+};
+
+export function isFieldDefinitionType(value: unknown): value is FieldDefinitionType {
+  return typeof value === 'string' && (FIELD_DEFINITION_TYPES as readonly string[]).includes(value);
+}
+
+/** Key used to match template field names with definition names */
+export function getFieldDefinitionKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Error message for an invalid definition name, or null. Names follow the placeholder
+ * names of the templates, so they cannot contain braces, "=", "|" or ":".
+ */
+export function validateFieldDefinitionName(name: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) return 'name is required';
+  if (trimmed.length > MAX_FIELD_DEFINITION_NAME_LENGTH) {
+    return `name must be at most ${MAX_FIELD_DEFINITION_NAME_LENGTH} characters`;
+  }
+  if (/[{}=|:%#\[\]]/.test(trimmed)) return 'name cannot contain { } = | : % # [ ]';
+  return null;
+}
+
+/** Options without empty values or duplicates, in their original order */
+export function normalizeFieldDefinitionOptions(options: string[]): string[] {
+  const result: string[] = [];
+  options.map(option => option.trim()).forEach(option => {
+    if (option && !result.includes(option)) result.push(option);
+  });
+  return result;
+}
+
+/**
+ * Error message for an invalid validation object, or null.
+ */
+export function validateFieldDefinitionValidation(validation: unknown): string | null {
+  if (typeof validation !== 'object' || validation === null || Array.isArray(validation)) {
+    return 'validation must be an object';
+  }
+  for (const [key, value] of Object.entries(validation)) {
+    const expected = VALIDATION_KEYS[key as keyof FieldValidation];
+    if (!expected) return `Unknown validation rule "${key}"`;
+    if (value === undefined) continue;
+    if (!expected.split('|').includes(typeof value)) return `validation.${key} must be a ${expected.replace('|', ' or ')}`;
+  }
+  const pattern = (validation as FieldValidation).pattern;
+  if (pattern !== undefined) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      return 'validation.pattern is not a valid regular expression';
+    }
+  }
+  return null;
+}
+
+/**
+ * Values written on a linked template field for a definition.
+ */
+export function getLinkedFieldValues(definition: {
+  label: string;
+  fieldType: string;
+  options: string[];
+  validation: FieldValidation | null;
+}) {
+  const isChecklist = definition.fieldType === 'checklist';
+  return {
+    placeholder: definition.label,
+    fieldType: definition.fieldType,
+    options: isChecklist ? JSON.stringify(definition.options) : null,
+    validation: isChecklist ? null : definition.validation,
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * Typed field syntax and value validation, shared by server and client.
+ *
+ * Placeholder syntax — the type follows the field name, before default value / options:
+ * - {{so_tien:number}}               number
+ * - {{so_tien:number(min=0,max=1e9,integer)}}
+ * - {{ngay_ky:date}}                 date (yyyy-MM-dd or dd/MM/yyyy)
+ * - {{ngay_ky:date(min=2024-01-01)}}
+ * - {{email:email}}                  email address
+ * - {{ghi_chu:text(max=200)}}        text / textarea with length limits
+ * - {{cccd:pattern('^[0-9]{12}$', 'CCCD gồm 12 chữ số')}}   regex (alias: regex)
+ * - {{so_tien:number(min=0)='0'}}    combined with a default value
+ * - {{chu_ky:image(3cm,4cm)}} / {{%chu_ky}}   image field (see shared/image-fields.ts)
+ *
+ * Empty values always pass: "required" is a separate flag on the field.
+ */
+
+export type TypedFieldType = 'text' | 'textarea' | 'number' | 'email' | 'date' | 'image';
+
+export interface FieldValidation {
+  /** number: minimum value; date: earliest ISO date (yyyy-MM-dd) */
+  min?: number | string;
+  /** number: maximum value; date: latest ISO date (yyyy-MM-dd) */
+  max?: number | string;
+  /** number: whole numbers only */
+  integer?: boolean;
+  /** text/textarea: length limits */
+  minLength?: number;
+  maxLength?: number;
+  /** Regular expression the whole value must match */
+  pattern?: string;
+  /** Message shown when the pattern does not match */
+  patternMessage?: string;
+}
+
+export interface FieldTypeSpec {
+  fieldType: TypedFieldType;
+  validation?: FieldValidation;
+}
+
+/** Minimal field shape needed for validation (templateFields rows satisfy it) */
+export interface ValidatableField {
+  name: string;
+  fieldType: string;
+  validation?: FieldValidation | null;
+}
+
+export interface FieldValidationError {
+  field: string;
+  message: string;
+}
+
+const TYPE_KEYWORDS = ['text', 'textarea', 'number', 'email', 'date', 'image', 'pattern', 'regex'] as const;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const VN_DATE_REGEX = /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})$/;
+
+/**
+ * Split a comma-separated argument list, ignoring commas inside quotes.
+ */
+function splitArgs(args: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (let i = 0; i < args.length; i++) {
+    const ch = args[i];
+    if (quote) {
+      if (ch === '\\' && args[i + 1] === quote) {
+        current += quote;
+        i++;
+        continue;
+      }
+      if (ch === quote) quote = null;
+      else current += ch;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === ',') {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) result.push(current.trim());
+  return result;
+}
+
+/**
+ * Find the index of the ")" closing the "(" at `start`, skipping quoted text.
+ * Returns -1 when unbalanced.
+ */
+function findClosingParen(text: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === "'" || ch === '"') quote = ch;
+    else if (ch === '(') depth++;
+    else if (ch === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+function buildSpec(keyword: typeof TYPE_KEYWORDS[number], args: string[]): FieldTypeSpec {
+  if (keyword === 'pattern' || keyword === 'regex') {
+    let pattern = args[0] ?? '';
+    // Allow /.../ literal form
+    if (pattern.length > 1 && pattern.startsWith('/') && pattern.endsWith('/')) {
+      pattern = pattern.slice(1, -1);
+    }
+    const validation: FieldValidation = {};
+    if (pattern) validation.pattern = pattern;
+    if (args[1]) validation.patternMessage = args[1];
+    return { fieldType: 'text', validation };
+  }
+
+  if (keyword === 'image') {
+    // Width / height stay in the tag: they are read when the image is rendered
+    return { fieldType: 'image' };
+  }
+
+  const validation: FieldValidation = {};
+  for (const arg of args) {
+    const eqIdx = arg.indexOf('=');
+    const key = (eqIdx === -1 ? arg : arg.substring(0, eqIdx)).trim().toLowerCase();
+    const value = eqIdx === -1 ? '' : arg.substring(eqIdx + 1).trim();
+
+    if (keyword === 'number') {
+      if (key === 'integer' || key === 'int') validation.integer = true;
+      else if ((key === 'min' || key === 'max') && value !== '' && !isNaN(Number(value))) validation[key] = Number(value);
+    } else if (keyword === 'date') {
+      if ((key === 'min' || key === 'max') && parseDateValue(value)) validation[key] = toIsoDate(parseDateValue(value)!);
+    } else if (keyword === 'text' || keyword === 'textarea') {
+      const n = parseInt(value, 10);
+      if (key === 'min' && !isNaN(n)) validation.minLength = n;
+      else if (key === 'max' && !isNaN(n)) validation.maxLength = n;
+    }
+  }
+
+  return {
+    fieldType: keyword,
+    ...(Object.keys(validation).length > 0 ? { validation } : {}),
+  };
+}
+
+/**
+ * Extract the ":type(args)" part of a raw placeholder.
+ * Returns the placeholder without the type part (so the existing default / options
+ * parsing keeps working) and the parsed spec, or spec=null when there is none.
+ *
+ *   "so_tien:number(min=0)='0'" → { placeholder: "so_tien='0'", spec: { fieldType: 'number', validation: { min: 0 } } }
+ *   "%anh_the"                  → { placeholder: "anh_the", spec: { fieldType: 'image' } }
+ */
+export function extractFieldTypeSpec(raw: string): { placeholder: string; spec: FieldTypeSpec | null } {
+  const normalized = raw
+    .replace(/[\u2018\u2019\u201A\u201B]/g, "'")
+    .replace(/[\u201C\u201D\u201E\u201F]/g, '"');
+
+  // {{%name}} is the short form of {{name:image}}
+  if (normalized.trimStart().startsWith('%')) {
+    const rest = normalized.trimStart().substring(1);
+    return { placeholder: extractFieldTypeSpec(rest).placeholder.trim(), spec: { fieldType: 'image' } };
+  }
+
+  // The type must come right after the name: a ":" before any "=", "[" or "|"
+  const match = normalized.match(/^([^:=\[|]+):\s*([a-zA-Z]+)\s*/);
+  if (!match) return { placeholder: raw, spec: null };
+
+  const keyword = match[2].toLowerCase() as typeof TYPE_KEYWORDS[number];
+  if (!TYPE_KEYWORDS.includes(keyword)) return { placeholder: raw, spec: null };
+
+  let end = match[0].length;
+  let args: string[] = [];
+  if (normalized[end] === '(') {
+    const close = findClosingParen(normalized, end);
+    if (close === -1) return { placeholder: raw, spec: null };
+    args = splitArgs(normalized.substring(end + 1, close));
+    end = close + 1;
+  }
+
+  return {
+    placeholder: match[1].trim() + normalized.substring(end).trim(),
+    spec: buildSpec(keyword, args),
+  };
+}
+
+/**
+ * Parse a number typed by a Vietnamese or English user:
+ * "1.000.000", "1,000,000", "1.000,5", "1,000.5", "1000.5", "1000,5".
+ * Vietnamese conventions decide the ambiguous cases: a dot followed by exactly three digits is
+ * thousands grouping ("1.125" → 1125, except after a leading 0), a single comma is always the
+ * decimal separator ("1,125" → 1.125). Computed fields store decimals with a comma.
+ */
+export function parseNumberValue(value: string): number | null {
+  const text = value.replace(/\s/g, '');
+  if (text === '') return null;
+
+  let normalized: string;
+  if (/^-?[1-9]\d{0,2}(\.\d{3})+(,\d+)?$/.test(text)) {
+    normalized = text.replace(/\./g, '').replace(',', '.');
+  } else if (/^-?[1-9]\d{0,2}((,\d{3}){2,}(\.\d+)?|,\d{3}\.\d+)$/.test(text)) {
+    normalized = text.replace(/,/g, '');
+  } else if (/^-?\d+([.,]\d+)?$/.test(text)) {
+    normalized = text.replace(',', '.');
+  } else {
+    return null;
+  }
+
+  const n = Number(normalized);
+  return isNaN(n) ? null : n;
+}
+
+/**
+ * Parse yyyy-MM-dd (date input) or dd/MM/yyyy (typed / Excel). Returns a UTC date or null.
+ */
+export function parseDateValue(value: string): Date | null {
+  const text = value.trim();
+  let year: number, month: number, day: number;
+
+  const iso = text.match(ISO_DATE_REGEX);
+  const vn = text.match(VN_DATE_REGEX);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (vn) {
+    [day, month, year] = [Number(vn[1]), Number(vn[2]), Number(vn[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+export function toIsoDate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Validate one value. Returns an error message, or null when valid.
+ */
+export function validateFieldValue(field: ValidatableField, value: string | null | undefined): string | null {
+  const text = (value ?? '').trim();
+  if (text === '') return null;
+
+  const validation = field.validation ?? {};
+
+  switch (field.fieldType) {
+    case 'number': {
+      const n = parseNumberValue(text);
+      if (n === null) return 'Must be a number';
+      if (validation.integer && !Number.isInteger(n)) return 'Must be a whole number';
+      if (typeof validation.min === 'number' && n < validation.min) return `Must be at least ${validation.min}`;
+      if (typeof validation.max === 'number' && n > validation.max) return `Must be at most ${validation.max}`;
+      break;
+    }
+    case 'date': {
+      const date = parseDateValue(text);
+      if (!date) return 'Must be a valid date (dd/MM/yyyy)';
+      const iso = toIsoDate(date);
+      if (typeof validation.min === 'string' && iso < validation.min) return `Must be on or after ${validation.min}`;
+      if (typeof validation.max === 'string' && iso > validation.max) return `Must be on or before ${validation.max}`;
+      break;
+    }
+    case 'email':
+      if (!EMAIL_REGEX.test(text)) return 'Must be a valid email address';
+      break;
+    case 'text':
+    case 'textarea':
+      if (validation.minLength !== undefined && text.length < validation.minLength) {
+        return `Must be at least ${validation.minLength} characters`;
+      }
+      if (validation.maxLength !== undefined && text.length > validation.maxLength) {
+        return `Must be at most ${validation.maxLength} characters`;
+      }
+      break;
+  }
+
+  if (validation.pattern) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(validation.pattern);
+    } catch {
+      // A broken pattern in the template should not block data entry
+      return null;
+    }
+    if (!regex.test(text)) return validation.patternMessage || `Does not match the required format`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a set of values against template fields. Values for unknown fields are ignored.
+ */
+export function validateFieldValues(
+  fields: ValidatableField[],
+  values: Record<string, string | null | undefined>
+): FieldValidationError[] {
+  const errors: FieldValidationError[] = [];
+  for (const field of fields) {
+    if (!(field.name in values)) continue;
+    const message = validateFieldValue(field, values[field.name]);
+    if (message) errors.push({ field: field.name, message });
+  }
+  return errors;
+}
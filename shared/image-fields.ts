@@ -0,0 +1,85 @@
+/**
+ * Image fields (ảnh thẻ, chữ ký), shared by server and client.
+ *
+ * Placeholder syntax:
+ * - {{%anh_the}}                     image at its natural size (max 15cm wide)
+ * - {{chu_ky:image}}                 same, typed form
+ * - {{chu_ky:image(3cm,4cm)}}        width, height — units cm, mm, in, pt, px
+ * - {{chu_ky:image(3cm)}}            width only, height keeps the aspect ratio
+ * - {{chu_ky:image(height=2cm)}}
+ *
+ * The field value is the storage path of the uploaded image (see POST /api/documents/images).
+ */
+
+export const IMAGE_TAG_PREFIX = '%';
+
+export const IMAGE_SIZE_UNITS = ['cm', 'mm', 'in', 'pt', 'px'] as const;
+
+export type ImageSizeUnit = typeof IMAGE_SIZE_UNITS[number];
+
+export interface ImageDimension {
+  value: number;
+  unit: ImageSizeUnit;
+}
+
+export interface ImageTag {
+  name: string;
+  width?: ImageDimension;
+  height?: ImageDimension;
+}
+
+/** Accepted upload types */
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif'];
+
+export const MAX_IMAGE_SIZE_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_TYPE_REGEX = /^([^:=\[|]+):\s*image\s*(?:\(([^)]*)\))?\s*$/i;
+
+/**
+ * Parse "3cm", "30 mm", "1.5in". A bare number is read as cm.
+ */
+export function parseImageDimension(text: string): ImageDimension | undefined {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*([a-zA-Z]*)$/);
+  if (!match) return undefined;
+  const value = Number(match[1]);
+  const unit = (match[2] || 'cm').toLowerCase() as ImageSizeUnit;
+  if (!(value > 0) || !IMAGE_SIZE_UNITS.includes(unit)) return undefined;
+  return { value, unit };
+}
+
+/**
+ * Read an image placeholder, or null when the tag is not one.
+ *
+ *   "%anh_the"                  → { name: 'anh_the' }
+ *   "chu_ky:image(3cm,4cm)"     → { name: 'chu_ky', width: 3cm, height: 4cm }
+ */
+export function parseImageTag(raw: string): ImageTag | null {
+  const text = raw.trim();
+
+  if (text.startsWith(IMAGE_TAG_PREFIX)) {
+    const rest = text.substring(IMAGE_TAG_PREFIX.length).trim();
+    if (!rest) return null;
+    // {{%chu_ky:image(3cm)}} — the prefix is redundant but allowed
+    return IMAGE_TYPE_REGEX.test(rest) ? parseImageTag(rest) : { name: rest };
+  }
+
+  const match = text.match(IMAGE_TYPE_REGEX);
+  if (!match) return null;
+
+  const tag: ImageTag = { name: match[1].trim() };
+  const args = (match[2] ?? '').split(/[,;]/).map(arg => arg.trim());
+  args.forEach((arg, index) => {
+    if (!arg) return;
+    const eqIdx = arg.indexOf('=');
+    const key = eqIdx === -1 ? (index === 0 ? 'width' : 'height') : arg.substring(0, eqIdx).trim().toLowerCase();
+    const dimension = parseImageDimension(eqIdx === -1 ? arg : arg.substring(eqIdx + 1));
+    if (!dimension) return;
+    if (key === 'width' || key === 'w') tag.width = dimension;
+    else if (key === 'height' || key === 'h') tag.height = dimension;
+  });
+  return tag;
+}
+
+export function isImageTag(raw: string): boolean {
+  return parseImageTag(raw) !== null;
+}
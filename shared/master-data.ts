@@ -0,0 +1,155 @@
+/**
+ * Master data (people, companies, assets, ...), shared by server and client.
+ *
+ * A master data type (master_data_types) has its own list of attributes; a record
+ * (master_data_records) holds one value per attribute. "Fill from record" on the document form
+ * copies record values into template fields through a mapping (template field name → attribute name),
+ * suggested by name: `ho_ten` ← `ho_ten`, and prefixed fields `ben_a_ho_ten` ← `ho_ten`.
+ * The document keeps a link to the record with the mapping used (document_record_links),
+ * so later edits of the record can be applied to the document again.
+ */
+
+export interface MasterDataAttribute {
+  /** Key of the value in the record, matched with template field names */
+  name: string;
+  label: string;
+}
+
+/** Template field name → attribute name */
+export type RecordFieldMapping = Record<string, string>;
+
+export interface MasterDataTypeDefinition {
+  key: string;
+  label: string;
+  attributes: MasterDataAttribute[];
+}
+
+export const MAX_MASTER_DATA_ATTRIBUTES = 50;
+export const MAX_MASTER_DATA_RECORD_NAME_LENGTH = 200;
+
+/** Number of records returned by one GET /api/master-data/records request */
+export const MASTER_DATA_RECORDS_PAGE_SIZE = 50;
+
+/** Types created on startup */
+export const DEFAULT_MASTER_DATA_TYPES: MasterDataTypeDefinition[] = [
+  {
+    key: 'person',
+    label: 'Cá nhân',
+    attributes: [
+      { name: 'ho_ten', label: 'Họ và tên' },
+      { name: 'ngay_sinh', label: 'Ngày sinh' },
+      { name: 'cccd', label: 'Số CCCD' },
+      { name: 'ngay_cap', label: 'Ngày cấp' },
+      { name: 'noi_cap', label: 'Nơi cấp' },
+      { name: 'dia_chi', label: 'Địa chỉ' },
+      { name: 'so_dien_thoai', label: 'Số điện thoại' },
+      { name: 'email', label: 'Email' },
+    ],
+  },
+  {
+    key: 'company',
+    label: 'Tổ chức',
+    attributes: [
+      { name: 'ten_cong_ty', label: 'Tên tổ chức' },
+      { name: 'ma_so_thue', label: 'Mã số thuế' },
+      { name: 'dia_chi', label: 'Địa chỉ' },
+      { name: 'nguoi_dai_dien', label: 'Người đại diện' },
+      { name: 'chuc_vu', label: 'Chức vụ' },
+      { name: 'so_tai_khoan', label: 'Số tài khoản' },
+      { name: 'ngan_hang', label: 'Ngân hàng' },
+      { name: 'so_dien_thoai', label: 'Số điện thoại' },
+      { name: 'email', label: 'Email' },
+    ],
+  },
+  {
+    key: 'asset',
+    label: 'Tài sản',
+    attributes: [
+      { name: 'ten_tai_san', label: 'Tên tài sản' },
+      { name: 'ma_tai_san', label: 'Mã tài sản' },
+      { name: 'mo_ta', label: 'Mô tả' },
+      { name: 'gia_tri', label: 'Giá trị' },
+      { name: 'vi_tri', label: 'Vị trí' },
+    ],
+  },
+];
+
+/** Error message for an invalid type key, or null */
+export function validateMasterDataTypeKey(key: string): string | null {
+  if (!key) return 'Key is required';
+  if (!/^[a-z0-9][a-z0-9_-]{0,49}$/.test(key)) return 'Key may only contain lowercase letters, digits, "-" and "_"';
+  return null;
+}
+
+/**
+ * Error message for an invalid attribute list, or null. Attribute names follow the
+ * template field names, so they cannot contain braces, "=", "|" or ":".
+ */
+export function validateMasterDataAttributes(attributes: unknown): string | null {
+  if (!Array.isArray(attributes)) return 'attributes must be an array';
+  if (attributes.length === 0) return 'At least one attribute is required';
+  if (attributes.length > MAX_MASTER_DATA_ATTRIBUTES) return `A type can have at most ${MAX_MASTER_DATA_ATTRIBUTES} attributes`;
+
+  const names = new Set<string>();
+  for (const attribute of attributes) {
+    if (typeof attribute?.name !== 'string' || typeof attribute?.label !== 'string') {
+      return 'Each attribute needs a name and a label';
+    }
+    const name = attribute.name.trim();
+    if (!name) return 'Attribute name is required';
+    if (!attribute.label.trim()) return `Attribute "${name}" needs a label`;
+    if (/[{}=|:%#\[\]\s]/.test(name)) return `Attribute name "${name}" cannot contain spaces or { } = | : % # [ ]`;
+    if (names.has(name.toLowerCase())) return `Attribute "${name}" is listed twice`;
+    names.add(name.toLowerCase());
+  }
+  return null;
+}
+
+/**
+ * Whether a template field can take a record value. Table markers, image fields, computed
+ * fields and numbered fields are never filled from a record.
+ */
+export function isRecordFillableField(field: {
+  fieldType?: string | null;
+  expression?: string | null;
+  numberingSequenceId?: string | null;
+}): boolean {
+  return field.fieldType !== 'row_group' && field.fieldType !== 'image' && !field.expression && !field.numberingSequenceId;
+}
+
+/**
+ * Suggested mapping of template fields to attributes: same name (case-insensitive), or a field
+ * name ending with "_<attribute>" (`ben_a_ho_ten` ← `ho_ten`, the longest attribute name wins).
+ */
+export function suggestRecordFieldMapping(attributes: MasterDataAttribute[], fieldNames: string[]): RecordFieldMapping {
+  const mapping: RecordFieldMapping = {};
+  const byLength = [...attributes].sort((a, b) => b.name.length - a.name.length);
+
+  fieldNames.forEach(fieldName => {
+    const key = fieldName.toLowerCase();
+    const exact = attributes.find(attribute => attribute.name.toLowerCase() === key);
+    const suffix = exact ?? byLength.find(attribute => key.endsWith(`_${attribute.name.toLowerCase()}`));
+    if (suffix) mapping[fieldName] = suffix.name;
+  });
+  return mapping;
+}
+
+/**
+ * Field values taken from a record through a mapping. Fields whose attribute has no value in
+ * the record are left out, so applying a record never clears a field it does not fill.
+ */
+export function applyRecordFieldMapping(values: Record<string, string>, mapping: RecordFieldMapping): Record<string, string> {
+  const result: Record<string, string> = {};
+  Object.entries(mapping).forEach(([fieldName, attributeName]) => {
+    const value = values[attributeName];
+    if (typeof value === 'string' && value !== '') result[fieldName] = value;
+  });
+  return result;
+}
+
+/** Error message for an invalid mapping, or null */
+export function validateRecordFieldMapping(mapping: unknown): string | null {
+  if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) return 'mapping must be an object';
+  if (Object.values(mapping).some(value => typeof value !== 'string')) return 'mapping values must be attribute names';
+  return null;
+}
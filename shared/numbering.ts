@@ -0,0 +1,89 @@
+/**
+ * Document numbering sequences, shared by server and client.
+ *
+ * A sequence formats an official number ("123/QĐ-UBND") from a pattern:
+ * - {n}      the sequence number              123
+ * - {n:4}    the number padded to 4 digits    0123
+ * - {yyyy}   year of allocation               2026
+ * - {yy}     two-digit year                   26
+ * - {mm}     month (01-12)
+ * - {dd}     day (01-31)
+ *
+ * The counter restarts every year / month (resetPeriod) and is kept separately for each
+ * template, each template category or once for everything (scope). A sequence is assigned
+ * to a template field; the number is allocated when the document is created or approved.
+ */
+
+export const NUMBERING_RESET_PERIODS = ['never', 'yearly', 'monthly'] as const;
+export type NumberingResetPeriod = typeof NUMBERING_RESET_PERIODS[number];
+
+export const NUMBERING_SCOPES = ['template', 'category', 'global'] as const;
+export type NumberingScope = typeof NUMBERING_SCOPES[number];
+
+/** When the number is given to a document */
+export const NUMBERING_TRIGGERS = ['create', 'approve'] as const;
+export type NumberingTrigger = typeof NUMBERING_TRIGGERS[number];
+
+export const NUMBERING_RESET_PERIOD_LABELS: Record<NumberingResetPeriod, string> = {
+  never: 'Không đặt lại',
+  yearly: 'Theo năm',
+  monthly: 'Theo tháng',
+};
+
+export const NUMBERING_SCOPE_LABELS: Record<NumberingScope, string> = {
+  template: 'Theo mẫu',
+  category: 'Theo loại mẫu',
+  global: 'Dùng chung',
+};
+
+export const NUMBERING_TRIGGER_LABELS: Record<NumberingTrigger, string> = {
+  create: 'Khi tạo văn bản',
+  approve: 'Khi duyệt',
+};
+
+const TOKEN_PATTERN = /\{(n(?::(\d{1,2}))?|yyyy|yy|mm|dd)\}/g;
+
+export function isNumberingResetPeriod(value: unknown): value is NumberingResetPeriod {
+  return typeof value === 'string' && (NUMBERING_RESET_PERIODS as readonly string[]).includes(value);
+}
+
+export function isNumberingScope(value: unknown): value is NumberingScope {
+  return typeof value === 'string' && (NUMBERING_SCOPES as readonly string[]).includes(value);
+}
+
+export function isNumberingTrigger(value: unknown): value is NumberingTrigger {
+  return typeof value === 'string' && (NUMBERING_TRIGGERS as readonly string[]).includes(value);
+}
+
+/**
+ * Error message for an invalid pattern, or null. The pattern needs a {n} token
+ * and may only use the tokens listed above.
+ */
+export function validateNumberingPattern(pattern: string): string | null {
+  if (!pattern.trim()) return 'Pattern is required';
+  if (!/\{n(?::\d{1,2})?\}/.test(pattern)) return 'Pattern must contain {n}';
+  const unknown = pattern.replace(TOKEN_PATTERN, '').match(/\{[^}]*\}/);
+  if (unknown) return `Unknown token ${unknown[0]}`;
+  return null;
+}
+
+const pad = (value: number, length: number) => String(value).padStart(length, '0');
+
+/** Format a sequence number with its pattern, e.g. ("{n}/QĐ-UBND", 123) → "123/QĐ-UBND" */
+export function formatSequenceNumber(pattern: string, value: number, date: Date = new Date()): string {
+  return pattern.replace(TOKEN_PATTERN, (token, name: string, width?: string) => {
+    if (name.startsWith('n')) return width ? pad(value, Number(width)) : String(value);
+    if (name === 'yyyy') return String(date.getFullYear());
+    if (name === 'yy') return pad(date.getFullYear() % 100, 2);
+    if (name === 'mm') return pad(date.getMonth() + 1, 2);
+    if (name === 'dd') return pad(date.getDate(), 2);
+    return token;
+  });
+}
+
+/** Counter period of a date: "" (never reset), "2026" (yearly) or "2026-03" (monthly) */
+export function getNumberingPeriodKey(resetPeriod: NumberingResetPeriod, date: Date = new Date()): string {
+  if (resetPeriod === 'yearly') return String(date.getFullYear());
+  if (resetPeriod === 'monthly') return `${date.getFullYear()}-${pad(date.getMonth() + 1, 2)}`;
+  return '';
+}
@@ -1,37 +1,83 @@
-import { pgTable, text, boolean, timestamp, pgEnum, uuid, integer, jsonb, unique, index } from "drizzle-orm/pg-core";
+import { pgTable, text, boolean, timestamp, pgEnum, uuid, integer, jsonb, unique, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import type { FieldValidation } from "./field-validation";
+import type { ChecklistRenderMode } from "./checklist";
+import type { DocumentWorkflowStatus } from "./document-workflow";
+import type { NumberingResetPeriod, NumberingScope, NumberingTrigger } from "./numbering";
+import type { TemplateCategoryIcon } from "./template-categories";
+import type { FieldDefinitionType } from "./field-dictionary";
+import type { MasterDataAttribute, RecordFieldMapping } from "./master-data";
+import type { BatchJobKind, BatchJobPhase, BatchJobRowError, BatchJobStatus } from "./batch-jobs";
+import type { BatchColumnMapping } from "./batch-mapping";
+
+// User roles: admin > editor > viewer (see server/auth.ts requireRole)
+export const USER_ROLES = ['admin', 'editor', 'viewer'] as const;
+export type UserRole = typeof USER_ROLES[number];
+export const userRoleEnum = pgEnum('user_role', USER_ROLES);
+
+// Users table - local login (passport-local), password is a scrypt hash "hash.salt"
+export const users = pgTable("users", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  username: text("username").notNull().unique(),
+  email: text("email"),
+  password: text("password").notNull(),
+  role: userRoleEnum("role").default('viewer').notNull(), // The first registered user becomes admin
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Template categories - managed list (formerly a fixed enum), nested with parentId.
+// Templates reference a category by its key, see shared/template-categories.ts
+export const templateCategories = pgTable("template_categories", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  key: text("key").notNull().unique(), // Stored on templates.category, cannot be changed
+  label: text("label").notNull(), // Vietnamese label
+  labelEn: text("label_en"), // English label
+  color: text("color").default('#6b7280').notNull(), // Hex colour of the badge
+  icon: text("icon").$type<TemplateCategoryIcon>().default('Folder').notNull(), // lucide-react icon name
+  parentId: uuid("parent_id").references((): AnyPgColumn => templateCategories.id, { onDelete: 'restrict' }),
+  position: integer("position").default(0).notNull(), // Order among siblings
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
 
-// Category enum for document templates
-export const categoryEnum = pgEnum('category', [
-  'contract',
-  'proposal', 
-  'report',
-  'letter',
-  'form',
-  'general',
-  'legal',
-  'financial',
-  'hr',
-  'marketing',
-  'other'
-]);
+// Field dictionary - shared definitions of fields used in many templates, linked from templateFields.
+// Linked fields take label / type / options / validation from here, see shared/field-dictionary.ts
+export const fieldDefinitions = pgTable("field_definitions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull().unique(), // Matched case-insensitively with template field names
+  label: text("label").notNull(), // Shown as the placeholder of linked fields
+  fieldType: text("field_type").$type<FieldDefinitionType>().default('text').notNull(),
+  options: jsonb("options").$type<string[]>().default([]).notNull(), // Choices of checklist definitions
+  validation: jsonb("validation").$type<FieldValidation>(), // Same rules as the {{name:type(...)}} syntax
+  description: text("description"),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: 'set null' }),
+  updatedBy: uuid("updated_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
 
 // Templates table - UUID primary key
 export const templates = pgTable("templates", {
   uuid: uuid("uuid").primaryKey().defaultRandom(),
   name: text("name").notNull(),
   description: text("description"),
-  category: categoryEnum("category").notNull(),
+  category: text("category").notNull(), // templateCategories.key (no foreign key: keys are checked by the API, see shared/template-categories.ts)
   filePath: text("file_path").notNull(),
   fieldCount: text("field_count").default("0").notNull(),
+  currentVersion: integer("current_version").default(1).notNull(), // Bumped on every file replace (see templateVersions)
+  tags: jsonb("tags").$type<string[]>().default([]).notNull(), // Free-form lowercase labels, see shared/template-organization.ts
   archived: boolean("archived").default(false).notNull(),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: 'set null' }),
+  updatedBy: uuid("updated_by").references(() => users.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
   archivedIdx: index("templates_archived_idx").on(table.archived),
   createdAtIdx: index("templates_created_at_idx").on(table.createdAt),
+  tagsIdx: index("templates_tags_idx").using("gin", table.tags),
 }));
 
 // Template fields table - UUID references
@@ -40,12 +86,19 @@ export const templateFields = pgTable("template_fields", {
   templateUuid: uuid("template_uuid").notNull().references(() => templates.uuid, { onDelete: 'cascade' }),
   name: text("name").notNull(),
   type: text("type").default("text").notNull(),
-  fieldType: text("field_type").default("text").notNull(), // 'text', 'textarea', 'number', 'email', 'checklist', 'row_group'
+  fieldType: text("field_type").default("text").notNull(), // 'text', 'textarea', 'number', 'email', 'date', 'image', 'checklist', 'row_group'
   placeholder: text("placeholder"),
   required: boolean("required").default(false).notNull(),
   options: text("options"), // JSON array for checklist options: ["opt1", "opt2", "opt3"]
   defaultValue: text("default_value"), // Default value for the field
   position: integer("position").default(0).notNull(), // Order of first appearance in template document
+  locations: jsonb("locations").$type<string[]>(), // Parts where the placeholder appears: 'body', 'header', 'footer', 'footnote', 'endnote', 'textbox'
+  validation: jsonb("validation").$type<FieldValidation>(), // Constraints from {{name:type(...)}} syntax, see shared/field-validation.ts
+  conditional: boolean("conditional").default(false).notNull(), // Referenced by an {{#if ...}} condition in the template
+  expression: text("expression"), // Computed field formula from {{name:=expression}}, see shared/computed-fields.ts
+  checklistMode: text("checklist_mode").$type<ChecklistRenderMode>().default("text").notNull(), // 'text', 'boxes', 'list' — how checklist values are printed, see shared/checklist.ts
+  numberingSequenceId: uuid("numbering_sequence_id").references(() => numberingSequences.id, { onDelete: 'set null' }), // Field filled with an allocated document number, see shared/numbering.ts
+  fieldDefinitionId: uuid("field_definition_id").references(() => fieldDefinitions.id, { onDelete: 'set null' }), // Shared definition the field follows, see shared/field-dictionary.ts
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -80,6 +133,38 @@ export const templateTables = pgTable("template_tables", {
   templateUuidIdx: index("template_tables_template_uuid_idx").on(table.templateUuid),
 }));
 
+// Added / removed / renamed names for one kind of template element (fields, tables or chorus blocks)
+export interface TemplateElementDiff {
+  added: string[];
+  removed: string[];
+  renamed: Array<{ from: string; to: string }>;
+}
+
+export interface TemplateVersionDiff {
+  fields: TemplateElementDiff;
+  tables: TemplateElementDiff;
+  blocks: TemplateElementDiff;
+}
+
+// Template versions — one row per uploaded file. The template row always points at the
+// latest version; documents pinned to an older version keep rendering with its file.
+export const templateVersions = pgTable("template_versions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  templateUuid: uuid("template_uuid").notNull().references(() => templates.uuid, { onDelete: 'cascade' }),
+  version: integer("version").notNull(),
+  filePath: text("file_path").notNull(),
+  originalName: text("original_name"),
+  fieldNames: jsonb("field_names").notNull().$type<string[]>(), // regular fields in this version's file
+  tableNames: jsonb("table_names").notNull().$type<string[]>(),
+  blockNames: jsonb("block_names").notNull().$type<string[]>(),
+  diff: jsonb("diff").$type<TemplateVersionDiff>(), // changes compared to the previous version (null for version 1)
+  fieldMapping: jsonb("field_mapping").$type<Record<string, string>>(), // renames from previous version: { oldName: newName }
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  templateVersionUnique: unique().on(table.templateUuid, table.version),
+  templateUuidIdx: index("template_versions_template_uuid_idx").on(table.templateUuid),
+}));
+
 // Document table data — stores row data for each table in a document
 export const documentTableData = pgTable("document_table_data", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -99,7 +184,11 @@ export const documents = pgTable("documents", {
   templateUuid: uuid("template_uuid").notNull().references(() => templates.uuid, { onDelete: 'cascade' }),
   name: text("name").notNull(),
   filePath: text("file_path").notNull(),
+  templateVersion: integer("template_version"), // Pinned template version; null = follows the current version
+  workflowStatus: text("workflow_status").$type<DocumentWorkflowStatus>().default('draft').notNull(), // See shared/document-workflow.ts
   archived: boolean("archived").default(false).notNull(),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: 'set null' }),
+  updatedBy: uuid("updated_by").references(() => users.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -108,6 +197,7 @@ export const documents = pgTable("documents", {
   createdAtIdx: index("documents_created_at_idx").on(table.createdAt),
   archivedCreatedAtIdx: index("documents_archived_created_at_idx").on(table.archived, table.createdAt),
   templateArchivedCreatedAtIdx: index("documents_template_archived_created_at_idx").on(table.templateUuid, table.archived, table.createdAt),
+  workflowStatusIdx: index("documents_workflow_status_idx").on(table.workflowStatus),
 }));
 
 // Document fields table - UUID references
@@ -123,6 +213,24 @@ export const documentFields = pgTable("document_fields", {
   fieldNameIdx: index("document_fields_field_name_idx").on(table.fieldName),
 }));
 
+// Document revisions - snapshot of a document's content after each save (see document-revision.service.ts)
+export const documentRevisions = pgTable("document_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  documentUuid: uuid("document_uuid").notNull().references(() => documents.uuid, { onDelete: 'cascade' }),
+  revision: integer("revision").notNull(), // 1, 2, 3... per document
+  name: text("name").notNull(),
+  templateUuid: uuid("template_uuid").notNull(),
+  templateVersion: integer("template_version"),
+  fields: jsonb("fields").$type<Record<string, string>>().notNull(), // fieldName -> value
+  tables: jsonb("tables").$type<Record<string, Array<Record<string, string>>>>().notNull(), // table / chorus block name -> rows
+  restoredFrom: integer("restored_from"), // Revision this one was restored from
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  documentRevisionUnique: unique().on(table.documentUuid, table.revision),
+  documentUuidIdx: index("document_revisions_document_uuid_idx").on(table.documentUuid),
+}));
+
 // Batch sessions table - UUID primary key
 export const batchSessions = pgTable("batch_sessions", {
   uuid: uuid("uuid").primaryKey().defaultRandom(),
@@ -133,6 +241,10 @@ export const batchSessions = pgTable("batch_sessions", {
   processedRows: text("processed_rows").default("0").notNull(),
   approvedRows: text("approved_rows").default("0").notNull(),
   status: text("status").default("pending").notNull(),
+  columnMapping: jsonb("column_mapping").$type<BatchColumnMapping>(), // Mapping confirmed on upload, see shared/batch-mapping.ts; null = suggestions
+  keyField: text("key_field"), // Template field matching rows to existing documents (shared/batch-update.ts); null = always create
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: 'set null' }),
+  updatedBy: uuid("updated_by").references(() => users.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -143,8 +255,9 @@ export const batchDocuments = pgTable("batch_documents", {
   sessionUuid: uuid("session_uuid").notNull().references(() => batchSessions.uuid, { onDelete: 'cascade' }),
   rowIndex: text("row_index").notNull(),
   name: text("name").notNull(),
-  status: text("status").default("pending").notNull(),
+  status: text("status").default("pending").notNull(), // pending | approved | rejected | created | updated | unchanged | failed
   errorMessage: text("error_message"),
+  documentUuid: uuid("document_uuid").references(() => documents.uuid, { onDelete: 'set null' }), // Document created or updated from the row
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -159,10 +272,207 @@ export const batchDocumentFields = pgTable("batch_document_fields", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Table rows / chorus block instances of a batch document, read from the extra sheets of the batch workbook
+export const batchDocumentTableData = pgTable("batch_document_table_data", {
+  uuid: uuid("uuid").primaryKey().defaultRandom(),
+  batchDocumentUuid: uuid("batch_document_uuid").notNull().references(() => batchDocuments.uuid, { onDelete: 'cascade' }),
+  tableName: text("table_name").notNull(), // matches templateTables.name
+  rows: jsonb("rows").notNull().$type<Array<Record<string, string>>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  batchDocTableUnique: unique().on(table.batchDocumentUuid, table.tableName),
+}));
+
+// Background jobs of a batch session (see shared/batch-jobs.ts), resumed after a restart
+export const batchJobs = pgTable("batch_jobs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  sessionUuid: uuid("session_uuid").notNull().references(() => batchSessions.uuid, { onDelete: 'cascade' }),
+  kind: text("kind").$type<BatchJobKind>().notNull(),
+  status: text("status").$type<BatchJobStatus>().default('queued').notNull(),
+  phase: text("phase").$type<BatchJobPhase>().notNull(),
+  totalRows: integer("total_rows").default(0).notNull(),
+  parsedRows: integer("parsed_rows").default(0).notNull(), // Workbook rows stored as batch documents (import)
+  processedRows: integer("processed_rows").default(0).notNull(), // Rows created or failed
+  createdRows: integer("created_rows").default(0).notNull(),
+  updatedRows: integer("updated_rows").default(0).notNull(), // Existing documents updated through the key field
+  unchangedRows: integer("unchanged_rows").default(0).notNull(), // Key matched a document that already had the row's values
+  failedRows: integer("failed_rows").default(0).notNull(),
+  rowErrors: jsonb("row_errors").$type<BatchJobRowError[]>().default([]).notNull(),
+  error: text("error"), // Why the whole job failed
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: 'set null' }),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  sessionUuidIdx: index("batch_jobs_session_uuid_idx").on(table.sessionUuid),
+  statusIdx: index("batch_jobs_status_idx").on(table.status),
+}));
+
+// Saved column mappings of batch uploads, reused on the next upload of the template
+export const batchMappingPresets = pgTable("batch_mapping_presets", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  templateUuid: uuid("template_uuid").notNull().references(() => templates.uuid, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  mapping: jsonb("mapping").$type<BatchColumnMapping>().notNull(),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  templateNameUnique: unique().on(table.templateUuid, table.name),
+}));
+
+// Per-template role of a user — overrides the user's global role for that template (admins excepted)
+export const templatePermissions = pgTable("template_permissions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  templateUuid: uuid("template_uuid").notNull().references(() => templates.uuid, { onDelete: 'cascade' }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: userRoleEnum("role").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  templateUserUnique: unique().on(table.templateUuid, table.userId),
+  userIdIdx: index("template_permissions_user_id_idx").on(table.userId),
+}));
+
+// Personal template folders - each user organizes templates into their own folders
+export const templateFolders = pgTable("template_folders", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userNameUnique: unique().on(table.userId, table.name),
+}));
+
+// Templates filed in a folder (a template can be in several folders)
+export const templateFolderItems = pgTable("template_folder_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  folderId: uuid("folder_id").notNull().references(() => templateFolders.id, { onDelete: 'cascade' }),
+  templateUuid: uuid("template_uuid").notNull().references(() => templates.uuid, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  folderTemplateUnique: unique().on(table.folderId, table.templateUuid),
+}));
+
+// Per-user favourite templates
+export const templateFavorites = pgTable("template_favorites", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  templateUuid: uuid("template_uuid").notNull().references(() => templates.uuid, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userTemplateUnique: unique().on(table.userId, table.templateUuid),
+}));
+
+// Numbering sequences - official document numbers ("123/QĐ-UBND"), assigned to template fields.
+// Pattern, reset period and scope are described in shared/numbering.ts
+export const numberingSequences = pgTable("numbering_sequences", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  pattern: text("pattern").notNull(), // e.g. "{n}/QĐ-UBND", "{yyyy}-{n:4}"
+  resetPeriod: text("reset_period").$type<NumberingResetPeriod>().default('yearly').notNull(),
+  scope: text("scope").$type<NumberingScope>().default('template').notNull(),
+  allocateOn: text("allocate_on").$type<NumberingTrigger>().default('create').notNull(),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Last number given by a sequence, per scope (template uuid / category / "") and period ("2026", "2026-03", "")
+export const numberingCounters = pgTable("numbering_counters", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  sequenceId: uuid("sequence_id").notNull().references(() => numberingSequences.id, { onDelete: 'cascade' }),
+  scopeKey: text("scope_key").default('').notNull(),
+  periodKey: text("period_key").default('').notNull(),
+  value: integer("value").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  sequenceScopePeriodUnique: unique().on(table.sequenceId, table.scopeKey, table.periodKey),
+}));
+
+// Numbers given to documents. A document keeps its number; a number is never given twice.
+export const documentNumbers = pgTable("document_numbers", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  documentUuid: uuid("document_uuid").notNull().references(() => documents.uuid, { onDelete: 'cascade' }),
+  fieldName: text("field_name").notNull(),
+  sequenceId: uuid("sequence_id").notNull().references(() => numberingSequences.id, { onDelete: 'restrict' }),
+  scopeKey: text("scope_key").notNull(),
+  periodKey: text("period_key").notNull(),
+  value: integer("value").notNull(),
+  formatted: text("formatted").notNull(), // Value written to the field
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  documentFieldUnique: unique().on(table.documentUuid, table.fieldName),
+  sequenceValueUnique: unique().on(table.sequenceId, table.scopeKey, table.periodKey, table.value),
+}));
+
+// Master data types (people, companies, assets, ...) with their own attribute list, see shared/master-data.ts
+export const masterDataTypes = pgTable("master_data_types", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  key: text("key").notNull().unique(),
+  label: text("label").notNull(),
+  attributes: jsonb("attributes").$type<MasterDataAttribute[]>().default([]).notNull(),
+  position: integer("position").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Master data records - one value per attribute of their type (attribute name → value)
+export const masterDataRecords = pgTable("master_data_records", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  typeId: uuid("type_id").notNull().references(() => masterDataTypes.id, { onDelete: 'restrict' }),
+  name: text("name").notNull(), // Shown in the record picker
+  values: jsonb("values").$type<Record<string, string>>().default({}).notNull(),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: 'set null' }),
+  updatedBy: uuid("updated_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  typeIdIdx: index("master_data_records_type_id_idx").on(table.typeId),
+}));
+
+// Records a document was filled from, with the mapping used, so record edits can be applied again
+export const documentRecordLinks = pgTable("document_record_links", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  documentUuid: uuid("document_uuid").notNull().references(() => documents.uuid, { onDelete: 'cascade' }),
+  recordId: uuid("record_id").notNull().references(() => masterDataRecords.id, { onDelete: 'cascade' }),
+  mapping: jsonb("mapping").$type<RecordFieldMapping>().default({}).notNull(), // Template field name → attribute name
+  appliedAt: timestamp("applied_at").defaultNow().notNull(), // Record values are newer than the document when record.updatedAt > appliedAt
+  appliedBy: uuid("applied_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  documentRecordUnique: unique().on(table.documentUuid, table.recordId),
+  recordIdIdx: index("document_record_links_record_id_idx").on(table.recordId),
+}));
+
+// Audit trail - who did what to a document / template / batch session, with before/after values.
+// entityUuid has no foreign key so the history survives the deletion of the entity.
+export const AUDIT_ENTITY_TYPES = ['document', 'template', 'batch_session'] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export const AUDIT_ACTIONS = ['create', 'update', 'field_change', 'restore', 'status_change', 'download', 'archive', 'unarchive', 'delete'] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const auditEvents = pgTable("audit_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  entityType: text("entity_type").$type<AuditEntityType>().notNull(),
+  entityUuid: uuid("entity_uuid").notNull(),
+  action: text("action").$type<AuditAction>().notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: 'set null' }),
+  username: text("username"), // Kept when the user is deleted
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  entityIdx: index("audit_events_entity_idx").on(table.entityType, table.entityUuid, table.createdAt),
+}));
+
 // Relations
 export const templatesRelations = relations(templates, ({ many }) => ({
   fields: many(templateFields),
   tables: many(templateTables),
+  versions: many(templateVersions),
   documents: many(documents),
   batchSessions: many(batchSessions),
 }));
@@ -175,6 +485,10 @@ export const templateTablesRelations = relations(templateTables, ({ one }) => ({
   template: one(templates, { fields: [templateTables.templateUuid], references: [templates.uuid] }),
 }));
 
+export const templateVersionsRelations = relations(templateVersions, ({ one }) => ({
+  template: one(templates, { fields: [templateVersions.templateUuid], references: [templates.uuid] }),
+}));
+
 export const documentsRelations = relations(documents, ({ one, many }) => ({
   template: one(templates, { fields: [documents.templateUuid], references: [templates.uuid] }),
   fields: many(documentFields),
@@ -192,23 +506,39 @@ export const documentTableDataRelations = relations(documentTableData, ({ one })
 export const batchSessionsRelations = relations(batchSessions, ({ one, many }) => ({
   template: one(templates, { fields: [batchSessions.templateUuid], references: [templates.uuid] }),
   documents: many(batchDocuments),
+  jobs: many(batchJobs),
 }));
 
 export const batchDocumentsRelations = relations(batchDocuments, ({ one, many }) => ({
   session: one(batchSessions, { fields: [batchDocuments.sessionUuid], references: [batchSessions.uuid] }),
   fields: many(batchDocumentFields),
+  tableData: many(batchDocumentTableData),
 }));
 
 export const batchDocumentFieldsRelations = relations(batchDocumentFields, ({ one }) => ({
   batchDocument: one(batchDocuments, { fields: [batchDocumentFields.batchDocumentUuid], references: [batchDocuments.uuid] }),
 }));
 
+export const batchDocumentTableDataRelations = relations(batchDocumentTableData, ({ one }) => ({
+  batchDocument: one(batchDocuments, { fields: [batchDocumentTableData.batchDocumentUuid], references: [batchDocuments.uuid] }),
+}));
+export const batchJobsRelations = relations(batchJobs, ({ one }) => ({
+  session: one(batchSessions, { fields: [batchJobs.sessionUuid], references: [batchSessions.uuid] }),
+}));
+
+
 // Validation schemas
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.min(3, "Username must be at least 3 characters"),
+  email: (schema) => schema.email("Please enter a valid email").optional().or(z.literal('')),
+  password: (schema) => schema.min(6, "Password must be at least 6 characters"),
+}).omit({ id: true, role: true, createdAt: true, updatedAt: true });
+
 export const insertTemplateSchema = createInsertSchema(templates, {
   name: (schema) => schema.min(1, "Template name is required"),
   description: (schema) => schema.optional(),
-  category: (schema) => schema,
-}).omit({ uuid: true, filePath: true, fieldCount: true, createdAt: true, updatedAt: true });
+  category: (schema) => schema.min(1, "Category is required"),
+}).omit({ uuid: true, tags: true, filePath: true, fieldCount: true, currentVersion: true, createdBy: true, updatedBy: true, createdAt: true, updatedAt: true });
 
 export const insertTemplateFieldSchema = createInsertSchema(templateFields, {
   name: (schema) => schema.min(1, "Field name is required"),
@@ -228,7 +558,7 @@ export const insertDocumentTableDataSchema = createInsertSchema(documentTableDat
 
 export const insertDocumentSchema = createInsertSchema(documents, {
   name: (schema) => schema.min(1, "Document name is required"),
-}).omit({ uuid: true, filePath: true, createdAt: true, updatedAt: true });
+}).omit({ uuid: true, filePath: true, templateVersion: true, workflowStatus: true, createdBy: true, updatedBy: true, createdAt: true, updatedAt: true });
 
 export const insertDocumentFieldSchema = createInsertSchema(documentFields, {
   fieldName: (schema) => schema.min(1, "Field name is required"),
@@ -251,6 +581,25 @@ export const insertBatchDocumentFieldSchema = createInsertSchema(batchDocumentFi
 }).omit({ uuid: true, createdAt: true, updatedAt: true });
 
 // Type exports
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+
+export type TemplatePermission = typeof templatePermissions.$inferSelect;
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+export type TemplateCategory = typeof templateCategories.$inferSelect;
+export type TemplateFolder = typeof templateFolders.$inferSelect;
+export type FieldDefinition = typeof fieldDefinitions.$inferSelect;
+
+export type MasterDataType = typeof masterDataTypes.$inferSelect;
+export type MasterDataRecord = typeof masterDataRecords.$inferSelect;
+export type DocumentRecordLink = typeof documentRecordLinks.$inferSelect;
+
+export type NumberingSequence = typeof numberingSequences.$inferSelect;
+export type NumberingCounter = typeof numberingCounters.$inferSelect;
+export type DocumentNumber = typeof documentNumbers.$inferSelect;
+
 export type Template = typeof templates.$inferSelect;
 export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
 
@@ -258,6 +607,8 @@ export type TemplateField = typeof templateFields.$inferSelect;
 export type InsertTemplateField = z.infer<typeof insertTemplateFieldSchema>;
 
 export type TemplateTable = typeof templateTables.$inferSelect;
+
+export type TemplateVersion = typeof templateVersions.$inferSelect;
 export type InsertTemplateTable = z.infer<typeof insertTemplateTableSchema>;
 
 export type DocumentTableData = typeof documentTableData.$inferSelect;
@@ -267,6 +618,22 @@ export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 
 export type DocumentField = typeof documentFields.$inferSelect;
+
+export type DocumentRevision = typeof documentRevisions.$inferSelect;
+
+/** Field-by-field difference between two document revisions */
+export interface DocumentRevisionDiff {
+  from: number;
+  to: number;
+  name: { before: string; after: string } | null;
+  fields: Array<{ name: string; status: 'added' | 'removed' | 'changed'; before: string | null; after: string | null }>;
+  tables: Array<{
+    name: string;
+    status: 'added' | 'removed' | 'changed';
+    before: Array<Record<string, string>> | null;
+    after: Array<Record<string, string>> | null;
+  }>;
+}
 export type InsertDocumentField = z.infer<typeof insertDocumentFieldSchema>;
 
 export type BatchSession = typeof batchSessions.$inferSelect;
@@ -276,6 +643,9 @@ export type BatchDocument = typeof batchDocuments.$inferSelect;
 export type InsertBatchDocument = z.infer<typeof insertBatchDocumentSchema>;
 
 export type BatchDocumentField = typeof batchDocumentFields.$inferSelect;
+export type BatchDocumentTableData = typeof batchDocumentTableData.$inferSelect;
+export type BatchJob = typeof batchJobs.$inferSelect;
+export type BatchMappingPreset = typeof batchMappingPresets.$inferSelect;
 export type InsertBatchDocumentField = z.infer<typeof insertBatchDocumentFieldSchema>;
 
 // Column type for template tables
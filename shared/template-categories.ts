@@ -0,0 +1,140 @@
+/**
+ * Template categories, shared by server and client.
+ *
+ * Categories are rows of the template_categories table (managed at /template-categories) instead
+ * of a fixed enum. A template stores the category `key`; keys never change, so renaming a category
+ * or moving it under another one does not touch the templates. Filtering by a category also
+ * returns the templates of its sub-categories.
+ */
+
+/** Icons a category can use (lucide-react component names) */
+export const TEMPLATE_CATEGORY_ICONS = [
+  'Folder',
+  'FileText',
+  'FileSignature',
+  'Scale',
+  'Landmark',
+  'Wallet',
+  'Receipt',
+  'Users',
+  'Briefcase',
+  'Megaphone',
+  'Mail',
+  'ClipboardList',
+  'BarChart3',
+  'Shield',
+  'Building2',
+  'GraduationCap',
+] as const;
+export type TemplateCategoryIcon = typeof TEMPLATE_CATEGORY_ICONS[number];
+
+export const DEFAULT_TEMPLATE_CATEGORY_COLOR = '#6b7280';
+
+export interface TemplateCategoryDefinition {
+  key: string;
+  label: string;
+  labelEn: string;
+  color: string;
+  icon: TemplateCategoryIcon;
+}
+
+/** Categories of the former enum — created on startup so existing templates keep a category */
+export const DEFAULT_TEMPLATE_CATEGORIES: TemplateCategoryDefinition[] = [
+  { key: 'contract', label: 'Hợp đồng', labelEn: 'Contract', color: '#2563eb', icon: 'FileSignature' },
+  { key: 'proposal', label: 'Đề xuất', labelEn: 'Proposal', color: '#0891b2', icon: 'Briefcase' },
+  { key: 'report', label: 'Báo cáo', labelEn: 'Report', color: '#4f46e5', icon: 'BarChart3' },
+  { key: 'letter', label: 'Công văn', labelEn: 'Letter', color: '#0d9488', icon: 'Mail' },
+  { key: 'form', label: 'Biểu mẫu', labelEn: 'Form', color: '#7c3aed', icon: 'ClipboardList' },
+  { key: 'general', label: 'Chung', labelEn: 'General', color: '#6b7280', icon: 'FileText' },
+  { key: 'legal', label: 'Pháp lý', labelEn: 'Legal', color: '#16a34a', icon: 'Scale' },
+  { key: 'financial', label: 'Tài chính', labelEn: 'Financial', color: '#ca8a04', icon: 'Wallet' },
+  { key: 'hr', label: 'Nhân sự', labelEn: 'HR', color: '#9333ea', icon: 'Users' },
+  { key: 'marketing', label: 'Marketing', labelEn: 'Marketing', color: '#db2777', icon: 'Megaphone' },
+  { key: 'other', label: 'Khác', labelEn: 'Other', color: '#6b7280', icon: 'Folder' },
+];
+
+/** Minimal shape of a category row used by the helpers below */
+interface CategoryNode {
+  id: string;
+  key: string;
+  parentId: string | null;
+  position: number;
+  label: string;
+}
+
+export function isTemplateCategoryIcon(value: unknown): value is TemplateCategoryIcon {
+  return typeof value === 'string' && (TEMPLATE_CATEGORY_ICONS as readonly string[]).includes(value);
+}
+
+/** Error message for an invalid category key, or null. Keys are stored on templates and cannot change. */
+export function validateTemplateCategoryKey(key: string): string | null {
+  if (!key) return 'Key is required';
+  if (key === 'all') return 'Key "all" is reserved';
+  if (!/^[a-z0-9][a-z0-9_-]{0,49}$/.test(key)) return 'Key may only contain lowercase letters, digits, "-" and "_"';
+  return null;
+}
+
+export function isTemplateCategoryColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value);
+}
+
+/**
+ * Categories in tree order (parents before their children, siblings by position then label)
+ * with their nesting depth — for selects and the management table.
+ */
+export function flattenTemplateCategories<T extends CategoryNode>(categories: T[]): Array<T & { depth: number }> {
+  const ids = new Set(categories.map(c => c.id));
+  const byParent = new Map<string | null, T[]>();
+  categories.forEach(category => {
+    // Children of a missing parent are shown at the top level
+    const parentId = category.parentId && ids.has(category.parentId) ? category.parentId : null;
+    byParent.set(parentId, [...(byParent.get(parentId) ?? []), category]);
+  });
+
+  const result: Array<T & { depth: number }> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const children = (byParent.get(parentId) ?? [])
+      .slice()
+      .sort((a, b) => a.position - b.position || a.label.localeCompare(b.label));
+    children.forEach(child => {
+      result.push({ ...child, depth });
+      visit(child.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return result;
+}
+
+/** Keys of a category and all of its sub-categories */
+export function getTemplateCategoryKeysWithDescendants(categories: CategoryNode[], key: string): string[] {
+  const root = categories.find(c => c.key === key);
+  if (!root) return [key];
+
+  const keys = [root.key];
+  const queue = [root.id];
+  const seen = new Set(queue);
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    categories
+      .filter(c => c.parentId === parentId && !seen.has(c.id))
+      .forEach(child => {
+        seen.add(child.id);
+        keys.push(child.key);
+        queue.push(child.id);
+      });
+  }
+  return keys;
+}
+
+/** True when `parentId` is the category itself or one of its sub-categories (a cycle) */
+export function isTemplateCategoryDescendant(categories: CategoryNode[], categoryId: string, parentId: string): boolean {
+  const byId = new Map(categories.map(c => [c.id, c] as const));
+  const seen = new Set<string>();
+  let current: string | null = parentId;
+  while (current && !seen.has(current)) {
+    if (current === categoryId) return true;
+    seen.add(current);
+    current = byId.get(current)?.parentId ?? null;
+  }
+  return false;
+}
@@ -0,0 +1,40 @@
+/**
+ * Template tags, folders and favourites, shared by server and client.
+ *
+ * - Tags are free-form labels on a template, visible to everyone (`templates.tags`)
+ * - Folders are personal: each user files templates into their own folders; a template can be in several
+ * - Favourites are personal too, and are listed first in the template picker with the recently used templates
+ */
+
+export const MAX_TEMPLATE_TAGS = 20;
+export const MAX_TEMPLATE_TAG_LENGTH = 40;
+export const MAX_TEMPLATE_FOLDER_NAME_LENGTH = 80;
+
+/** Number of recently used templates returned by GET /api/templates/quick-access */
+export const RECENT_TEMPLATES_LIMIT = 6;
+
+/** Trim, collapse spaces and lowercase a tag so "Hợp  Đồng" and "hợp đồng" are the same tag */
+export function normalizeTemplateTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Normalized tags without empty values or duplicates, in their original order */
+export function normalizeTemplateTags(tags: string[]): string[] {
+  const result: string[] = [];
+  tags.map(normalizeTemplateTag).forEach(tag => {
+    if (tag && !result.includes(tag)) result.push(tag);
+  });
+  return result;
+}
+
+/**
+ * Error message for an invalid tag list, or null. Tags are checked after normalization.
+ */
+export function validateTemplateTags(tags: unknown): string | null {
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) return 'tags must be an array of strings';
+  const normalized = normalizeTemplateTags(tags);
+  if (normalized.length > MAX_TEMPLATE_TAGS) return `A template can have at most ${MAX_TEMPLATE_TAGS} tags`;
+  const tooLong = normalized.find(tag => tag.length > MAX_TEMPLATE_TAG_LENGTH);
+  if (tooLong) return `Tag "${tooLong}" is longer than ${MAX_TEMPLATE_TAG_LENGTH} characters`;
+  return null;
+}